@@ -0,0 +1,190 @@
+/**
+ * @fileoverview Express Application
+ * 
+ * Configures Express with middleware and mounts all route handlers.
+ * The application does not open the database or listen by itself:
+ * index.js does that for the server, and the tests serve it on a port of
+ * their own.
+ * 
+ * @module backend/app
+ * 
+ * @description
+ * Configuration:
+ * - CORS enabled for cross-origin requests (frontend access)
+ * - JSON body parsing for request payloads
+ * - Environment variables via dotenv
+ * - Bearer token authentication (see middleware/auth.js)
+ * 
+ * API Routes (* = authentication required for every endpoint):
+ * - /api/books   - Book inventory CRUD operations (writes: admin, manager)
+ * - /api/categories - Category taxonomy (writes: admin)
+ * - /api/authors - Authors, aliases and merging duplicates (writes: admin)
+ * - /api/users   - User authentication, sessions and profile management
+ * - /api/orders  - Order creation and management *
+ * - /api/cart    - Shopping cart operations *
+ * - /api/publishers       - Publishers (suppliers) and their ordering terms *
+ * - /api/publisher-orders - Stock replenishment orders *
+ * - /api/price-rules      - Scheduled book prices (admin, manager) *
+ * - /api/reports          - Sales analytics *
+ * - /api/health  - Server health check endpoint
+ * - /api/openapi.json - OpenAPI description built from bookstore-shared
+ * - /uploads     - Uploaded files such as book covers (see storage/index.js)
+ * 
+ * @requires express - Web application framework
+ * @requires cors - Cross-Origin Resource Sharing middleware
+ * @requires dotenv - Environment variable loader
+ */
+
+const express = require('express');
+const cors = require('cors');
+require('dotenv').config();
+
+/** Global error handler (HttpError -> status + message, others -> 500) */
+const { errorHandler } = require('./middleware/errors');
+
+/** Access token authentication (sets req.user) */
+const { authenticate, requireAuth } = require('./middleware/auth');
+
+/** Uploaded files (book covers) */
+const { PUBLIC_PATH, getStorage } = require('./storage');
+
+/** Request/response schemas shared with the frontend */
+const { buildOpenApiDocument } = require('bookstore-shared');
+
+// Initialize Express application
+const app = express();
+
+// ============================================
+// MIDDLEWARE CONFIGURATION
+// ============================================
+
+/**
+ * Enable CORS for all routes.
+ * Allows the frontend (running on different port) to access the API.
+ */
+app.use(cors());
+
+/**
+ * Parse JSON request bodies.
+ * Enables req.body to contain parsed JSON data. The limit allows catalog
+ * imports of several thousand books (POST /api/books/import).
+ */
+app.use(express.json({ limit: '10mb' }));
+
+/**
+ * Identify the caller of every API request.
+ * Requests with a valid Bearer token get req.user; anonymous requests
+ * continue, and routers that need a user add requireAuth.
+ */
+app.use('/api', authenticate);
+
+// ============================================
+// ROUTE IMPORTS
+// ============================================
+
+/** Books router - handles /api/books/* endpoints */
+const booksRouter = require('./routes/books');
+
+/** Categories router - handles /api/categories/* endpoints */
+const categoriesRouter = require('./routes/categories');
+
+/** Authors router - handles /api/authors/* endpoints */
+const authorsRouter = require('./routes/authors');
+
+/** Users router - handles /api/users/* endpoints */
+const usersRouter = require('./routes/users');
+
+/** Orders router - handles /api/orders/* endpoints */
+const ordersRouter = require('./routes/orders');
+
+/** Cart router - handles /api/cart/* endpoints */
+const cartRouter = require('./routes/cart');
+
+/** Publishers router - handles /api/publishers/* endpoints */
+const publishersRouter = require('./routes/publishers');
+
+/** Publisher orders router - handles /api/publisher-orders/* endpoints */
+const publisherOrdersRouter = require('./routes/publisherOrders');
+
+/** Reports router - handles /api/reports/* endpoints */
+const reportsRouter = require('./routes/reports');
+
+/** Price rules router - handles /api/price-rules/* endpoints */
+const priceRulesRouter = require('./routes/priceRules');
+
+// ============================================
+// ROUTE MOUNTING
+// ============================================
+
+/** Mount books routes at /api/books */
+app.use('/api/books', booksRouter);
+
+/** Mount category routes at /api/categories */
+app.use('/api/categories', categoriesRouter);
+
+/** Mount author routes at /api/authors */
+app.use('/api/authors', authorsRouter);
+
+/** Mount users routes at /api/users */
+app.use('/api/users', usersRouter);
+
+/** Mount orders routes at /api/orders */
+app.use('/api/orders', requireAuth, ordersRouter);
+
+/** Mount cart routes at /api/cart */
+app.use('/api/cart', requireAuth, cartRouter);
+
+/** Mount publisher routes at /api/publishers */
+app.use('/api/publishers', requireAuth, publishersRouter);
+
+/** Mount publisher order routes at /api/publisher-orders */
+app.use('/api/publisher-orders', requireAuth, publisherOrdersRouter);
+
+/** Mount report routes at /api/reports */
+app.use('/api/reports', requireAuth, reportsRouter);
+
+/** Mount price rule routes at /api/price-rules */
+app.use('/api/price-rules', requireAuth, priceRulesRouter);
+
+/** Serve uploaded files at /uploads (public, like the book list) */
+app.use(PUBLIC_PATH, getStorage().handler());
+
+// ============================================
+// UTILITY ENDPOINTS
+// ============================================
+
+/**
+ * Health check endpoint.
+ * Used to verify the server is running and responsive.
+ * 
+ * @route GET /api/health
+ * @returns {Object} Status object with 'OK' status and message
+ */
+app.get('/api/health', (req, res) => {
+  res.json({ status: 'OK', message: 'Bookstore API is running' });
+});
+
+/**
+ * OpenAPI description of this API.
+ * Built from the same schemas that validate requests, so it cannot
+ * drift from what the routes accept.
+ * 
+ * @route GET /api/openapi.json
+ * @returns {Object} OpenAPI 3.1 document
+ */
+const openApiDocument = buildOpenApiDocument();
+app.get('/api/openapi.json', (req, res) => {
+  res.json(openApiDocument);
+});
+
+// ============================================
+// ERROR HANDLING
+// ============================================
+
+/**
+ * Global error handling middleware.
+ * Must be registered after all routes.
+ */
+app.use(errorHandler);
+
+module.exports = app;
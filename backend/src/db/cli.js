@@ -0,0 +1,102 @@
+/**
+ * @fileoverview Database Command Line
+ *
+ * Runs migrations and seeding from npm scripts.
+ *
+ * @module db/cli
+ *
+ * @description
+ * Commands:
+ * - migrate [--to NNN]   - Apply pending migrations (npm run db:migrate)
+ * - rollback [--steps N] - Revert the last N migrations, default 1 (npm run db:rollback)
+ * - status               - List migrations and whether they are applied (npm run db:status)
+ * - seed                 - Load the JSON fixtures (npm run db:seed)
+ *
+ * Options:
+ * - --dry-run - Print the SQL that would run without executing it
+ *
+ * Uses the same connection settings as the server (DATABASE_URL, or
+ * PGLITE_DATA_DIR for the embedded database). Pass options after "--":
+ *   npm run db:migrate -- --dry-run
+ */
+
+require('dotenv').config();
+
+const db = require('./index');
+const migrator = require('./migrator');
+const { seed } = require('./seed');
+
+/**
+ * Reads "--name value" from the argument list.
+ *
+ * @param {Array<string>} args - Command line arguments
+ * @param {string} name - Option name without dashes
+ * @returns {string|undefined} Option value
+ */
+function option(args, name) {
+  const index = args.indexOf(`--${name}`);
+  return index === -1 ? undefined : args[index + 1];
+}
+
+/**
+ * Runs a command against the database.
+ *
+ * @param {Array<string>} args - Command line arguments (command first)
+ * @returns {Promise<void>}
+ */
+async function main(args) {
+  const [command] = args;
+  const dryRun = args.includes('--dry-run');
+
+  if (!process.env.DATABASE_URL && !process.env.PGLITE_DATA_DIR) {
+    console.warn('Neither DATABASE_URL nor PGLITE_DATA_DIR is set: using a throwaway in-memory database.\n');
+  }
+
+  const connection = await db.init();
+
+  try {
+    switch (command) {
+      case 'migrate': {
+        const applied = await migrator.migrateUp(connection, { to: option(args, 'to'), dryRun });
+        console.log(applied.length
+          ? `${dryRun ? 'Would apply' : 'Applied'} ${applied.length} migration(s).`
+          : 'Database is up to date.');
+        break;
+      }
+
+      case 'rollback': {
+        const steps = Number(option(args, 'steps') || 1);
+        const reverted = await migrator.migrateDown(connection, { steps, dryRun });
+        console.log(reverted.length
+          ? `${dryRun ? 'Would revert' : 'Reverted'} ${reverted.length} migration(s).`
+          : 'No migrations to revert.');
+        break;
+      }
+
+      case 'status': {
+        const migrations = await migrator.status(connection);
+        migrations.forEach(migration => {
+          console.log(`${migration.applied ? '[x]' : '[ ]'} ${migration.version}_${migration.name}`);
+        });
+        break;
+      }
+
+      case 'seed': {
+        const count = await seed(connection, { dryRun });
+        console.log(`${dryRun ? 'Would run' : 'Ran'} ${count} seed statement(s).`);
+        break;
+      }
+
+      default:
+        console.error('Usage: node src/db/cli.js <migrate|rollback|status|seed> [--dry-run] [--to NNN] [--steps N]');
+        process.exitCode = 1;
+    }
+  } finally {
+    await db.close();
+  }
+}
+
+main(process.argv.slice(2)).catch(err => {
+  console.error(err.message);
+  process.exit(1);
+});
@@ -0,0 +1,247 @@
+/**
+ * @fileoverview Database Connection
+ *
+ * Provides the single PostgreSQL connection used by all repositories.
+ * The schema is defined by the migrations in ../../../database/migrations,
+ * including the stock CHECK constraint and the check_stock_threshold and
+ * update_stock_on_confirm triggers.
+ *
+ * @module db
+ *
+ * @description
+ * Drivers:
+ * - postgres - Used when DATABASE_URL is set. Connects to a real PostgreSQL
+ *              server with a pg connection pool. Apply the schema with
+ *              npm run db:migrate.
+ * - pglite   - Used when DATABASE_URL is not set. Runs an embedded
+ *              PostgreSQL (compiled to WebAssembly) inside the Node process,
+ *              so triggers and constraints behave exactly like production.
+ *              Data is kept in memory unless PGLITE_DATA_DIR points at a
+ *              directory. The server migrates and seeds it at startup.
+ *              The pg_trgm extension the search index needs is loaded
+ *              with it.
+ *
+ * Both drivers expose the same interface:
+ * - query(text, params)  - Run one parameterized statement, returns { rows }
+ * - exec(sql)            - Run a script of several statements (no parameters)
+ * - transaction(fn)      - Run fn({ query, exec }) inside BEGIN/COMMIT (ROLLBACK on error)
+ *
+ * @requires pg
+ * @requires @electric-sql/pglite
+ */
+
+/** Active connection, created on first use */
+let connection = null;
+
+/** Pending initialization, shared by concurrent callers */
+let connecting = null;
+
+// ============================================
+// DRIVERS
+// ============================================
+
+/**
+ * Connects to a PostgreSQL server through a pg connection pool.
+ *
+ * @param {string} connectionString - PostgreSQL connection URL
+ * @returns {Promise<Object>} Connection with query, transaction and close
+ */
+async function connectPostgres(connectionString) {
+  const { Pool } = require('pg');
+  const pool = new Pool({ connectionString });
+
+  // Fail fast at startup if the server is unreachable
+  await pool.query('SELECT 1');
+
+  return {
+    driver: 'postgres',
+    query: (text, params) => pool.query(text, params),
+    // Without parameters, pg uses the simple protocol, which accepts scripts
+    exec: sql => pool.query(sql),
+    async transaction(fn) {
+      const client = await pool.connect();
+      try {
+        await client.query('BEGIN');
+        const result = await fn({
+          query: (text, params) => client.query(text, params),
+          exec: sql => client.query(sql)
+        });
+        await client.query('COMMIT');
+        return result;
+      } catch (err) {
+        await client.query('ROLLBACK');
+        throw err;
+      } finally {
+        client.release();
+      }
+    },
+    close: () => pool.end()
+  };
+}
+
+/**
+ * Starts an embedded PGlite database.
+ *
+ * @param {string} [dataDir] - Directory for persistent storage (in-memory if omitted)
+ * @returns {Promise<Object>} Connection with query, transaction and close
+ */
+async function connectEmbedded(dataDir) {
+  const { PGlite } = require('@electric-sql/pglite');
+  const { pg_trgm } = require('@electric-sql/pglite/contrib/pg_trgm');
+  const pglite = new PGlite({ dataDir, extensions: { pg_trgm } });
+  await pglite.waitReady;
+
+  return {
+    driver: 'pglite',
+    query: (text, params) => pglite.query(text, params),
+    exec: sql => pglite.exec(sql),
+    transaction: fn => pglite.transaction(tx =>
+      fn({
+        query: (text, params) => tx.query(text, params),
+        exec: sql => tx.exec(sql)
+      })
+    ),
+    close: () => pglite.close()
+  };
+}
+
+// ============================================
+// PUBLIC API
+// ============================================
+
+/**
+ * Opens the database connection (once).
+ * Called at server startup; query() and transaction() also call it lazily.
+ *
+ * @returns {Promise<Object>} The active connection
+ */
+function init() {
+  if (connection) return Promise.resolve(connection);
+
+  if (!connecting) {
+    connecting = (process.env.DATABASE_URL
+      ? connectPostgres(process.env.DATABASE_URL)
+      : connectEmbedded(process.env.PGLITE_DATA_DIR)
+    ).then(conn => {
+      connection = conn;
+      return conn;
+    }).catch(err => {
+      connecting = null;
+      throw err;
+    });
+  }
+
+  return connecting;
+}
+
+/**
+ * Runs a single parameterized statement.
+ *
+ * @param {string} text - SQL with $1, $2, ... placeholders
+ * @param {Array} [params] - Placeholder values
+ * @returns {Promise<{rows: Array<Object>}>} Query result
+ */
+async function query(text, params) {
+  const conn = await init();
+  return conn.query(text, params);
+}
+
+/**
+ * Runs several statements atomically.
+ * The callback receives an executor with the same query() signature;
+ * throwing from it rolls the transaction back.
+ *
+ * @param {Function} fn - async ({ query }) => result
+ * @returns {Promise<*>} Whatever fn returns
+ */
+async function transaction(fn) {
+  const conn = await init();
+  return conn.transaction(fn);
+}
+
+/**
+ * Closes the connection (used by scripts and graceful shutdown).
+ *
+ * @returns {Promise<void>}
+ */
+async function close() {
+  if (!connection) return;
+  const conn = connection;
+  connection = null;
+  connecting = null;
+  await conn.close();
+}
+
+// ============================================
+// SQL HELPERS
+// ============================================
+
+/** Largest value of an INTEGER (int4) column, and so of a SERIAL id */
+const MAX_ID = 2147483647;
+
+/**
+ * Parses a SERIAL id from a route parameter.
+ * Returns null for anything that is not an integer from 0 to MAX_ID, so
+ * lookups with malformed or oversized ids become "not found" instead of
+ * SQL errors.
+ *
+ * @param {string|number} value - Raw id
+ * @returns {number|null} Integer id or null
+ */
+function parseId(value) {
+  if (!/^\d+$/.test(String(value))) return null;
+  const id = Number(value);
+  return id <= MAX_ID ? id : null;
+}
+
+/**
+ * Builds the SET clause of an UPDATE from a partial object.
+ * Only keys present in columnMap are used; unknown keys are ignored.
+ *
+ * @param {Object} columnMap - camelCase field -> column name
+ * @param {Object} changes - Fields to update
+ * @param {number} [firstIndex=1] - Number of the first placeholder
+ * @returns {{clause: string, values: Array}} e.g. { clause: 'title = $1', values: ['X'] }
+ */
+function buildSetClause(columnMap, changes, firstIndex = 1) {
+  const assignments = [];
+  const values = [];
+
+  Object.entries(columnMap).forEach(([field, column]) => {
+    if (changes[field] !== undefined) {
+      values.push(changes[field]);
+      assignments.push(`${column} = $${firstIndex + values.length - 1}`);
+    }
+  });
+
+  return { clause: assignments.join(', '), values };
+}
+
+/**
+ * Renders a parameterized statement as plain SQL for display
+ * (dry runs and logs). Never execute the result.
+ *
+ * @param {string} text - SQL with $1, $2, ... placeholders
+ * @param {Array} [params] - Placeholder values
+ * @returns {string} SQL with literal values inlined
+ */
+function formatSql(text, params = []) {
+  const literal = value => {
+    if (value === null || value === undefined) return 'NULL';
+    if (typeof value === 'number' || typeof value === 'boolean') return String(value);
+    if (Array.isArray(value)) return `ARRAY[${value.map(literal).join(', ')}]`;
+    return `'${String(value).replace(/'/g, "''")}'`;
+  };
+
+  return text.replace(/\$(\d+)/g, (match, n) => literal(params[Number(n) - 1]));
+}
+
+module.exports = {
+  init,
+  query,
+  transaction,
+  close,
+  parseId,
+  buildSetClause,
+  formatSql
+};
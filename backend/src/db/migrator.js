@@ -0,0 +1,219 @@
+/**
+ * @fileoverview Schema Migration Runner
+ *
+ * Applies and reverts the versioned SQL migrations in
+ * ../../../database/migrations and records which ones have run.
+ *
+ * @module db/migrator
+ *
+ * @description
+ * Migration Files:
+ * - NNN_description.up.sql   - Applies the change (required)
+ * - NNN_description.down.sql - Reverts the change (required for rollback)
+ *
+ * NNN is the version; migrations run in ascending version order.
+ * Applied versions are stored in the schema_migrations table.
+ * Each migration runs in its own transaction together with its
+ * schema_migrations bookkeeping, so a failed migration leaves no trace.
+ *
+ * Dry Run:
+ * With dryRun set, the SQL that would run is passed to the log function
+ * and nothing is executed (the applied versions are still read).
+ */
+
+const fs = require('fs');
+const path = require('path');
+
+/** Folder holding the migration files */
+const MIGRATIONS_DIR = path.join(__dirname, '../../../database/migrations');
+
+/** Matches NNN_description.up.sql / NNN_description.down.sql */
+const MIGRATION_FILE = /^(\d+)_(.+)\.(up|down)\.sql$/;
+
+/** Bookkeeping table, created on first run */
+const CREATE_MIGRATIONS_TABLE = `CREATE TABLE IF NOT EXISTS schema_migrations (
+    version VARCHAR(50) PRIMARY KEY,
+    name VARCHAR(255) NOT NULL,
+    applied_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);`;
+
+// ============================================
+// MIGRATION FILES
+// ============================================
+
+/**
+ * Lists the migrations on disk.
+ *
+ * @param {string} [dir=MIGRATIONS_DIR] - Folder to read
+ * @returns {Array<Object>} Migrations { version, name, upPath, downPath } by version
+ * @throws {Error} If a version has no up file or is used twice
+ */
+function listMigrations(dir = MIGRATIONS_DIR) {
+  const byVersion = new Map();
+
+  fs.readdirSync(dir).forEach(file => {
+    const match = MIGRATION_FILE.exec(file);
+    if (!match) return;
+
+    const [, version, name, direction] = match;
+    const migration = byVersion.get(version) || { version, name };
+
+    if (migration.name !== name) {
+      throw new Error(`Migration version ${version} is used by "${migration.name}" and "${name}"`);
+    }
+
+    migration[`${direction}Path`] = path.join(dir, file);
+    byVersion.set(version, migration);
+  });
+
+  const migrations = [...byVersion.values()].sort((a, b) => Number(a.version) - Number(b.version));
+
+  migrations.forEach(migration => {
+    if (!migration.upPath) {
+      throw new Error(`Migration ${migration.version}_${migration.name} has no .up.sql file`);
+    }
+  });
+
+  return migrations;
+}
+
+// ============================================
+// STATUS
+// ============================================
+
+/**
+ * Reads the applied versions without creating the bookkeeping table.
+ *
+ * @param {Object} connection - Connection from db.init()
+ * @returns {Promise<Set<string>>} Applied versions
+ */
+async function appliedVersions(connection) {
+  const { rows: [table] } = await connection.query(
+    "SELECT to_regclass('public.schema_migrations') AS name"
+  );
+  if (!table.name) return new Set();
+
+  const { rows } = await connection.query('SELECT version FROM schema_migrations');
+  return new Set(rows.map(row => row.version));
+}
+
+/**
+ * Lists every migration with its applied state.
+ *
+ * @param {Object} connection - Connection from db.init()
+ * @returns {Promise<Array<Object>>} Migrations with an `applied` flag
+ */
+async function status(connection) {
+  const applied = await appliedVersions(connection);
+  return listMigrations().map(migration => ({ ...migration, applied: applied.has(migration.version) }));
+}
+
+// ============================================
+// RUNNING MIGRATIONS
+// ============================================
+
+/**
+ * Runs one migration file and its bookkeeping statement.
+ *
+ * @param {Object} connection - Connection from db.init()
+ * @param {Object} migration - Migration from listMigrations()
+ * @param {'up'|'down'} direction - Which file to run
+ * @param {Object} options
+ * @param {boolean} options.dryRun - Print instead of executing
+ * @param {Function} options.log - Output function
+ */
+async function run(connection, migration, direction, { dryRun, log }) {
+  const file = direction === 'up' ? migration.upPath : migration.downPath;
+  const sql = fs.readFileSync(file, 'utf8');
+  const version = migration.version.replace(/'/g, "''");
+  const name = migration.name.replace(/'/g, "''");
+  const bookkeeping = direction === 'up'
+    ? `INSERT INTO schema_migrations (version, name) VALUES ('${version}', '${name}');`
+    : `DELETE FROM schema_migrations WHERE version = '${version}';`;
+
+  log(`-- ${migration.version}_${migration.name} (${direction})`);
+
+  if (dryRun) {
+    log(sql.trim());
+    log(bookkeeping);
+    log('');
+    return;
+  }
+
+  await connection.transaction(async tx => {
+    await tx.exec(sql);
+    await tx.exec(bookkeeping);
+  });
+}
+
+/**
+ * Applies pending migrations in version order.
+ *
+ * @param {Object} connection - Connection from db.init()
+ * @param {Object} [options]
+ * @param {string} [options.to] - Stop after this version (default: latest)
+ * @param {boolean} [options.dryRun=false] - Print the SQL instead of running it
+ * @param {Function} [options.log=console.log] - Output function
+ * @returns {Promise<Array<Object>>} Migrations that were (or would be) applied
+ */
+async function migrateUp(connection, { to, dryRun = false, log = console.log } = {}) {
+  const applied = await appliedVersions(connection);
+  const pending = listMigrations().filter(migration =>
+    !applied.has(migration.version) && (to === undefined || Number(migration.version) <= Number(to))
+  );
+
+  if (pending.length === 0) return [];
+
+  if (dryRun) {
+    log(CREATE_MIGRATIONS_TABLE);
+    log('');
+  } else {
+    await connection.exec(CREATE_MIGRATIONS_TABLE);
+  }
+
+  for (const migration of pending) {
+    await run(connection, migration, 'up', { dryRun, log });
+  }
+
+  return pending;
+}
+
+/**
+ * Reverts applied migrations, newest first.
+ *
+ * @param {Object} connection - Connection from db.init()
+ * @param {Object} [options]
+ * @param {number} [options.steps=1] - Number of migrations to revert
+ * @param {boolean} [options.dryRun=false] - Print the SQL instead of running it
+ * @param {Function} [options.log=console.log] - Output function
+ * @returns {Promise<Array<Object>>} Migrations that were (or would be) reverted
+ * @throws {Error} If a migration to revert has no .down.sql file
+ */
+async function migrateDown(connection, { steps = 1, dryRun = false, log = console.log } = {}) {
+  const applied = await appliedVersions(connection);
+  const toRevert = listMigrations()
+    .filter(migration => applied.has(migration.version))
+    .reverse()
+    .slice(0, steps);
+
+  toRevert.forEach(migration => {
+    if (!migration.downPath) {
+      throw new Error(`Migration ${migration.version}_${migration.name} has no .down.sql file`);
+    }
+  });
+
+  for (const migration of toRevert) {
+    await run(connection, migration, 'down', { dryRun, log });
+  }
+
+  return toRevert;
+}
+
+module.exports = {
+  MIGRATIONS_DIR,
+  listMigrations,
+  appliedVersions,
+  status,
+  migrateUp,
+  migrateDown
+};
@@ -0,0 +1,203 @@
+/**
+ * @fileoverview Fixture Seeder
+ *
+ * Loads the JSON fixtures in ../../../database into the database.
+ *
+ * @module db/seed
+ *
+ * @description
+ * Fixtures (loaded in this order, so references resolve):
+ * - publishers.json       -> publishers (with their ordering terms)
+ * - books.json            -> books (publisher matched by name; each book
+ *                            starts a work, or joins the work of the book
+ *                            named by editionOf), authors and
+ *                            book_authors (an author name
+ *                            matching an author or alias links that author;
+ *                            other names create one), and book_categories
+ *                            (categories by slug; the categories themselves
+ *                            come from migration 005), book_tags, and
+ *                            each book's first price_changes entry
+ * - users.json            -> users
+ * - publisher_orders.json -> publisher_orders (publisher matched by name)
+ *
+ * Seeding is idempotent: rows whose key (publisher name, ISBN, username
+ * or email, order ID) already exists are skipped, so it is safe to run
+ * against a database that has data. The fixture "id" fields of users and
+ * publishers are ignored; the database assigns SERIAL ids.
+ *
+ * All statements run in one transaction. With dryRun set, they are
+ * printed instead.
+ */
+
+const fs = require('fs');
+const path = require('path');
+
+const { formatSql } = require('./index');
+
+/** Folder holding the JSON fixtures */
+const FIXTURES_DIR = path.join(__dirname, '../../../database');
+
+// ============================================
+// FIXTURES
+// ============================================
+
+/**
+ * Reads one JSON fixture file.
+ *
+ * @param {string} file - File name inside FIXTURES_DIR
+ * @returns {Array<Object>} Parsed rows
+ */
+function readFixture(file) {
+  return JSON.parse(fs.readFileSync(path.join(FIXTURES_DIR, file), 'utf8'));
+}
+
+/**
+ * Loads all fixture files.
+ *
+ * @returns {Object} { publishers, books, users, publisherOrders }
+ */
+function loadFixtures() {
+  return {
+    publishers: readFixture('publishers.json'),
+    books: readFixture('books.json'),
+    users: readFixture('users.json'),
+    publisherOrders: readFixture('publisher_orders.json')
+  };
+}
+
+// ============================================
+// STATEMENTS
+// ============================================
+
+/**
+ * Builds the insert statements for a set of fixtures.
+ *
+ * @param {Object} fixtures - Result of loadFixtures()
+ * @returns {Array<{text: string, params: Array}>} Parameterized statements
+ */
+function buildStatements({ publishers, books, users, publisherOrders }) {
+  const statements = [];
+
+  publishers.forEach(publisher => statements.push({
+    text: `INSERT INTO publishers (name, address, phone, email, lead_time_days, minimum_order)
+SELECT $1::varchar, $2::text, $3::varchar, $4::varchar, $5::int, $6::int
+WHERE NOT EXISTS (SELECT 1 FROM publishers WHERE lower(name) = lower($1::varchar));`,
+    params: [
+      publisher.name, publisher.address, publisher.phone, publisher.email,
+      publisher.leadTimeDays, publisher.minimumOrder
+    ]
+  }));
+
+  books.forEach(book => statements.push({
+    // A new book without editionOf gets a work of its own
+    text: `WITH new_work AS (
+  INSERT INTO works (created_at)
+  SELECT CURRENT_TIMESTAMP
+  WHERE $10::varchar IS NULL AND NOT EXISTS (SELECT 1 FROM books WHERE isbn = $1::varchar)
+  RETURNING id
+)
+INSERT INTO books (isbn, title, format, work_id, publisher_id, publication_year, selling_price, quantity, threshold, image_url,
+  description, page_count, language, edition, height_mm, width_mm, thickness_mm, weight_grams)
+SELECT $1::varchar, $2::varchar, $3::varchar,
+  COALESCE((SELECT id FROM new_work), (SELECT work_id FROM books WHERE isbn = $10::varchar)),
+  (SELECT id FROM publishers WHERE lower(name) = lower($4::varchar) LIMIT 1),
+  $5::int, $6::numeric, $7::int, $8::int, $9::text,
+  $11::text, $12::int, $13::varchar, $14::varchar, $15::int, $16::int, $17::int, $18::int
+WHERE NOT EXISTS (SELECT 1 FROM books WHERE isbn = $1::varchar);`,
+    params: [
+      book.isbn, book.title, book.format || 'paperback', book.publisher, book.publicationYear,
+      book.sellingPrice, book.quantity, book.threshold, book.imageUrl, book.editionOf || null,
+      book.description ?? null, book.pageCount ?? null, book.language ?? null, book.edition ?? null,
+      book.heightMm ?? null, book.widthMm ?? null, book.thicknessMm ?? null, book.weightGrams ?? null
+    ]
+  }, {
+    text: `INSERT INTO authors (name)
+SELECT DISTINCT ON (lower(btrim(n.name))) btrim(n.name) FROM unnest($1::text[]) AS n(name)
+WHERE NOT EXISTS (
+  SELECT 1 FROM authors a
+  WHERE lower(a.name) = lower(btrim(n.name))
+     OR lower(btrim(n.name)) IN (SELECT lower(alias) FROM unnest(a.aliases) alias)
+);`,
+    params: [book.authors]
+  }, {
+    // Only books without authors, so credits changed since are kept
+    text: `INSERT INTO book_authors (book_isbn, author_id, position)
+SELECT $1::varchar, a.id, MIN(n.position)
+FROM unnest($2::text[]) WITH ORDINALITY AS n(name, position)
+JOIN authors a ON lower(a.name) = lower(btrim(n.name))
+  OR lower(btrim(n.name)) IN (SELECT lower(alias) FROM unnest(a.aliases) alias)
+WHERE NOT EXISTS (SELECT 1 FROM book_authors WHERE book_isbn = $1::varchar)
+GROUP BY a.id;`,
+    params: [book.isbn, book.authors]
+  }, {
+    // Only books without categories, so categories changed since are kept
+    text: `INSERT INTO book_categories (book_isbn, category_id)
+SELECT $1::varchar, id FROM categories WHERE slug = ANY($2::varchar[])
+AND NOT EXISTS (SELECT 1 FROM book_categories WHERE book_isbn = $1::varchar);`,
+    params: [book.isbn, book.categories]
+  }, {
+    // Only books without tags, so tags changed since are kept
+    text: `INSERT INTO book_tags (book_isbn, tag)
+SELECT DISTINCT $1::varchar, lower(btrim(t.tag)) FROM unnest($2::varchar[]) AS t(tag)
+WHERE NOT EXISTS (SELECT 1 FROM book_tags WHERE book_isbn = $1::varchar);`,
+    params: [book.isbn, book.tags ?? []]
+  }, {
+    // The first entry of the book's price history (see 010_price_history)
+    text: `INSERT INTO price_changes (book_isbn, price, source)
+SELECT isbn, selling_price, 'created' FROM books
+WHERE isbn = $1::varchar AND NOT EXISTS (SELECT 1 FROM price_changes WHERE book_isbn = $1::varchar);`,
+    params: [book.isbn]
+  }));
+
+  users.forEach(user => statements.push({
+    text: `INSERT INTO users (username, password, email, first_name, last_name, role, phone, shipping_address)
+VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+ON CONFLICT DO NOTHING;`,
+    params: [
+      user.username, user.password, user.email, user.firstName, user.lastName,
+      user.role, user.phone || null, user.shippingAddress || null
+    ]
+  }));
+
+  publisherOrders.forEach(order => statements.push({
+    text: `INSERT INTO publisher_orders (id, book_isbn, publisher_id, quantity, order_date, status)
+VALUES ($1, $2, (SELECT id FROM publishers WHERE name = $3 LIMIT 1), $4, $5, $6)
+ON CONFLICT (id) DO NOTHING;`,
+    params: [order.id, order.bookIsbn, order.publisher, order.quantity, order.orderDate, order.status]
+  }));
+
+  return statements;
+}
+
+/**
+ * Seeds the database with the JSON fixtures.
+ *
+ * @param {Object} connection - Connection from db.init()
+ * @param {Object} [options]
+ * @param {boolean} [options.dryRun=false] - Print the SQL instead of running it
+ * @param {Function} [options.log=console.log] - Output function
+ * @returns {Promise<number>} Number of statements run (or printed)
+ */
+async function seed(connection, { dryRun = false, log = console.log } = {}) {
+  const statements = buildStatements(loadFixtures());
+
+  if (dryRun) {
+    statements.forEach(({ text, params }) => log(formatSql(text, params)));
+    return statements.length;
+  }
+
+  await connection.transaction(async tx => {
+    for (const { text, params } of statements) {
+      await tx.query(text, params);
+    }
+  });
+
+  return statements.length;
+}
+
+module.exports = {
+  FIXTURES_DIR,
+  loadFixtures,
+  buildStatements,
+  seed
+};
@@ -2,128 +2,78 @@
  * @fileoverview Express Server Entry Point
  * 
  * This is the main entry point for the Bookstore REST API server.
- * It configures Express with middleware and mounts all route handlers.
+ * It opens the database and serves the Express application (app.js).
  * 
  * @module backend/index
  * 
  * @description
- * Server Configuration:
- * - Express.js as the web framework
- * - CORS enabled for cross-origin requests (frontend access)
- * - JSON body parsing for request payloads
- * - Environment variables via dotenv
+ * Server Startup:
+ * - PostgreSQL storage (DATABASE_URL) or embedded PGlite (see db/index.js);
+ *   the embedded database is migrated and seeded here
+ * - Scheduled prices applied in the background (services/priceScheduler.js)
+ * - Listens on PORT (default 5000)
  * 
- * API Routes:
- * - /api/books   - Book inventory CRUD operations
- * - /api/users   - User authentication and profile management
- * - /api/orders  - Order creation and management
- * - /api/cart    - Shopping cart operations
- * - /api/health  - Server health check endpoint
- * 
- * @requires express - Web application framework
- * @requires cors - Cross-Origin Resource Sharing middleware
- * @requires dotenv - Environment variable loader
+ * @requires ./app - Express application with every route
+ * @requires ./db - Database connection
  */
 
-const express = require('express');
-const cors = require('cors');
-require('dotenv').config();
-
-// Initialize Express application
-const app = express();
-
-// Server port from environment variable or default to 5000
-const PORT = process.env.PORT || 5000;
-
-// ============================================
-// MIDDLEWARE CONFIGURATION
-// ============================================
-
-/**
- * Enable CORS for all routes.
- * Allows the frontend (running on different port) to access the API.
- */
-app.use(cors());
-
-/**
- * Parse JSON request bodies.
- * Enables req.body to contain parsed JSON data.
- */
-app.use(express.json());
-
-// ============================================
-// ROUTE IMPORTS
-// ============================================
-
-/** Books router - handles /api/books/* endpoints */
-const booksRouter = require('./routes/books');
-
-/** Users router - handles /api/users/* endpoints */
-const usersRouter = require('./routes/users');
+/** Express application (also loads the environment from .env) */
+const app = require('./app');
 
-/** Orders router - handles /api/orders/* endpoints */
-const ordersRouter = require('./routes/orders');
+/** Database connection (opened before the server starts listening) */
+const db = require('./db');
 
-/** Cart router - handles /api/cart/* endpoints */
-const cartRouter = require('./routes/cart');
+/** Schema migrations and fixture seeding (embedded database setup) */
+const migrator = require('./db/migrator');
+const { seed } = require('./db/seed');
 
-// ============================================
-// ROUTE MOUNTING
-// ============================================
-
-/** Mount books routes at /api/books */
-app.use('/api/books', booksRouter);
-
-/** Mount users routes at /api/users */
-app.use('/api/users', usersRouter);
-
-/** Mount orders routes at /api/orders */
-app.use('/api/orders', ordersRouter);
+/** Applies scheduled prices once the database is ready */
+const { startPriceScheduler } = require('./services/priceScheduler');
 
-/** Mount cart routes at /api/cart */
-app.use('/api/cart', cartRouter);
-
-// ============================================
-// UTILITY ENDPOINTS
-// ============================================
-
-/**
- * Health check endpoint.
- * Used to verify the server is running and responsive.
- * 
- * @route GET /api/health
- * @returns {Object} Status object with 'OK' status and message
- */
-app.get('/api/health', (req, res) => {
-  res.json({ status: 'OK', message: 'Bookstore API is running' });
-});
+// Server port from environment variable or default to 5000
+const PORT = process.env.PORT || 5000;
 
 // ============================================
-// ERROR HANDLING
+// SERVER STARTUP
 // ============================================
 
 /**
- * Global error handling middleware.
- * Catches any unhandled errors and returns a 500 response.
- * 
- * @param {Error} err - The error object
- * @param {Request} req - Express request object
- * @param {Response} res - Express response object
- * @param {Function} next - Next middleware function
+ * Prepares the embedded database.
+ * Applies pending migrations and, for a brand new database, loads the
+ * JSON fixtures. PostgreSQL servers are migrated explicitly instead
+ * (npm run db:migrate / npm run db:seed).
+ *
+ * @param {Object} connection - Connection from db.init()
+ * @returns {Promise<void>}
  */
-app.use((err, req, res, next) => {
-  console.error(err.stack);
-  res.status(500).json({ error: 'Something went wrong!' });
-});
+async function prepareEmbeddedDatabase(connection) {
+  const isNew = (await migrator.appliedVersions(connection)).size === 0;
+  const silent = () => {};
 
-// ============================================
-// SERVER STARTUP
-// ============================================
+  await migrator.migrateUp(connection, { log: silent });
+  if (isNew) {
+    await seed(connection, { log: silent });
+  }
+}
 
 /**
  * Start the Express server.
- * Listens on the configured port and logs the server URL.
+ * Connects to the database first, then starts the price scheduler,
+ * listens on the configured port and logs the server URL. Exits if the
+ * database is unavailable.
  */
-app.listen(PORT, () => {
-  console.log(`🚀 Server running on http://localhost:${PORT}`);
-});
+db.init()
+  .then(async connection => {
+    if (connection.driver === 'pglite') {
+      await prepareEmbeddedDatabase(connection);
+    }
+
+    startPriceScheduler();
+    app.listen(PORT, () => {
+      console.log(`🚀 Server running on http://localhost:${PORT} (database: ${connection.driver})`);
+    });
+  })
+  .catch(err => {
+    console.error('Failed to connect to the database:', err.message);
+    process.exit(1);
+  });
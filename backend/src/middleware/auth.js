@@ -0,0 +1,71 @@
+/**
+ * @fileoverview Authentication Middleware
+ *
+ * Identifies the caller of each API request from its access token.
+ *
+ * @module middleware/auth
+ *
+ * @description
+ * - authenticate - Mounted for all /api routes. With a valid
+ *                  "Authorization: Bearer <access token>" header it sets
+ *                  req.user (without password) and req.sessionId; without
+ *                  the header the request continues anonymously. A header
+ *                  with an invalid, expired or revoked token is rejected
+ *                  with 401.
+ * - requireAuth  - Rejects anonymous requests with 401. Used by every
+ *                  route that is not public.
+ */
+
+const sessions = require('../services/sessions');
+const usersRepository = require('../repositories/usersRepository');
+const { HttpError, asyncHandler } = require('./errors');
+
+/** Matches "Bearer <token>" */
+const BEARER = /^Bearer\s+(\S+)$/i;
+
+/**
+ * Attaches the authenticated user to the request, if there is one.
+ *
+ * @param {Object} req - Express request
+ * @param {Object} res - Express response
+ * @param {Function} next - Next middleware
+ */
+const authenticate = asyncHandler(async (req, res, next) => {
+  const header = req.get('Authorization');
+  if (!header) return next();
+
+  const match = BEARER.exec(header);
+  if (!match) {
+    throw new HttpError(401, 'Invalid or expired token');
+  }
+
+  const { userId, sessionId } = await sessions.authenticateToken(match[1]);
+  const user = await usersRepository.findById(userId);
+  if (!user) {
+    throw new HttpError(401, 'Session has ended');
+  }
+
+  const { password: _, ...userWithoutPassword } = user;
+  req.user = userWithoutPassword;
+  req.sessionId = sessionId;
+  next();
+});
+
+/**
+ * Lets the request through only if authenticate() found a user.
+ *
+ * @param {Object} req - Express request
+ * @param {Object} res - Express response
+ * @param {Function} next - Next middleware
+ */
+function requireAuth(req, res, next) {
+  if (!req.user) {
+    return next(new HttpError(401, 'Authentication required'));
+  }
+  next();
+}
+
+module.exports = {
+  authenticate,
+  requireAuth
+};
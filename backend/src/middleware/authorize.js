@@ -0,0 +1,189 @@
+/**
+ * @fileoverview Authorization Middleware
+ *
+ * Declares which roles may perform which actions, and checks ownership
+ * of per-user resources (carts, orders, profiles).
+ *
+ * @module middleware/authorize
+ *
+ * @description
+ * Rules are declared once in PERMISSIONS and applied to routes with:
+ * - permit(permission)              - 403 unless the caller's role has it
+ * - permitSelfOr(param, permission) - 403 unless req.params[param] is the
+ *                                     caller's own user ID, or the caller's
+ *                                     role has the permission
+ *
+ * For resources whose owner is only known after loading them (e.g. an
+ * order by ID), routes call isSelfOr(user, ownerId, permission) and
+ * throw forbidden() themselves.
+ *
+ * Profile Fields:
+ * editableProfileFields(user, targetId) lists the fields a caller may
+ * change on a profile; anything else in the request body is rejected.
+ *
+ * All checks run after middleware/auth, so req.user is set; requests
+ * without a user are rejected with 401, not 403.
+ */
+
+const { HttpError } = require('./errors');
+
+// ============================================
+// PERMISSIONS
+// ============================================
+
+/**
+ * Roles granted each permission.
+ * Customers need no entries: they act only on their own resources.
+ * Managers run the shop floor (stock, publisher orders, reports) but
+ * cannot delete books or manage users.
+ *
+ * The frontend mirrors this table in src/utils/permissions.ts to decide
+ * which links and actions to show; keep the two in step.
+ */
+const PERMISSIONS = {
+  'books:write': ['admin', 'manager'],           // Create and update books
+  'books:delete': ['admin'],                     // Delete books
+  'categories:write': ['admin'],                 // Add, edit and delete categories
+  'authors:write': ['admin'],                    // Edit and merge authors
+  'publishers:read': ['admin', 'manager'],       // List publishers
+  'publishers:write': ['admin'],                 // Add, edit and delete publishers
+  'publisherOrders:read': ['admin', 'manager'],  // List publisher orders
+  'publisherOrders:write': ['admin', 'manager'], // Place, confirm and cancel publisher orders
+  'reports:read': ['admin', 'manager'],          // Sales reports
+  'orders:readAll': ['admin', 'manager'],        // Any customer's orders
+  'orders:manage': ['admin'],                    // Change order status, create orders for others
+  'carts:manage': ['admin'],                     // Any customer's cart
+  'users:manage': ['admin']                      // Any user's profile, including role
+};
+
+/** Profile fields users may change on their own account */
+const SELF_PROFILE_FIELDS = ['email', 'firstName', 'lastName', 'phone', 'shippingAddress', 'password'];
+
+/** Extra profile fields available with 'users:manage' */
+const MANAGED_PROFILE_FIELDS = ['role'];
+
+// ============================================
+// CHECKS
+// ============================================
+
+/**
+ * Creates the error for a denied request.
+ *
+ * @returns {HttpError} 403 error
+ */
+function forbidden() {
+  return new HttpError(403, 'You do not have permission to do that');
+}
+
+/**
+ * Checks whether a user's role has a permission.
+ *
+ * @param {Object} user - Authenticated user (req.user)
+ * @param {string} permission - Key of PERMISSIONS
+ * @returns {boolean} True if allowed
+ * @throws {Error} If the permission is not declared (programming error)
+ */
+function can(user, permission) {
+  const roles = PERMISSIONS[permission];
+  if (!roles) {
+    throw new Error(`Unknown permission "${permission}"`);
+  }
+  return Boolean(user) && roles.includes(user.role);
+}
+
+/**
+ * Checks whether a user owns a resource or has a permission over it.
+ *
+ * @param {Object} user - Authenticated user (req.user)
+ * @param {string} ownerId - ID of the resource's owner
+ * @param {string} permission - Permission that overrides ownership
+ * @returns {boolean} True if allowed
+ */
+function isSelfOr(user, ownerId, permission) {
+  return Boolean(user) && (String(ownerId) === user.id || can(user, permission));
+}
+
+/**
+ * Lists the profile fields a user may change on a profile.
+ *
+ * @param {Object} user - Authenticated user (req.user)
+ * @param {string} targetId - ID of the profile being changed
+ * @returns {Array<string>} Field names
+ */
+function editableProfileFields(user, targetId) {
+  const fields = [];
+  if (String(targetId) === user.id || can(user, 'users:manage')) {
+    fields.push(...SELF_PROFILE_FIELDS);
+  }
+  if (can(user, 'users:manage')) {
+    fields.push(...MANAGED_PROFILE_FIELDS);
+  }
+  return fields;
+}
+
+// ============================================
+// MIDDLEWARE
+// ============================================
+
+/**
+ * Rejects anonymous requests (401) before a permission check.
+ *
+ * @param {Object} req - Express request
+ * @returns {HttpError|null} Error to pass on, or null
+ */
+function authenticationError(req) {
+  return req.user ? null : new HttpError(401, 'Authentication required');
+}
+
+/**
+ * Allows the request only if the caller's role has the permission.
+ *
+ * @param {string} permission - Key of PERMISSIONS
+ * @returns {Function} Express middleware
+ *
+ * @example
+ * router.post('/', permit('books:write'), asyncHandler(...));
+ */
+function permit(permission) {
+  if (!PERMISSIONS[permission]) {
+    throw new Error(`Unknown permission "${permission}"`);
+  }
+
+  return (req, res, next) => {
+    const error = authenticationError(req) || (can(req.user, permission) ? null : forbidden());
+    next(error || undefined);
+  };
+}
+
+/**
+ * Allows the request if a route parameter is the caller's own user ID,
+ * or if the caller's role has the permission.
+ *
+ * @param {string} param - Route parameter holding the owner's user ID
+ * @param {string} permission - Permission that overrides ownership
+ * @returns {Function} Express middleware
+ *
+ * @example
+ * router.get('/:userId', permitSelfOr('userId', 'carts:manage'), asyncHandler(...));
+ */
+function permitSelfOr(param, permission) {
+  if (!PERMISSIONS[permission]) {
+    throw new Error(`Unknown permission "${permission}"`);
+  }
+
+  return (req, res, next) => {
+    const error = authenticationError(req)
+      || (isSelfOr(req.user, req.params[param], permission) ? null : forbidden());
+    next(error || undefined);
+  };
+}
+
+module.exports = {
+  PERMISSIONS,
+  can,
+  isSelfOr,
+  editableProfileFields,
+  forbidden,
+  permit,
+  permitSelfOr
+};
@@ -0,0 +1,118 @@
+/**
+ * @fileoverview Error Handling Middleware
+ *
+ * Shared pieces for reporting errors from async route handlers.
+ *
+ * @module middleware/errors
+ *
+ * @description
+ * - HttpError       - Error carrying an HTTP status, thrown by repositories and routes
+ * - ValidationError - 400 error listing each invalid field
+ * - asyncHandler    - Wraps an async handler so rejections reach Express
+ * - errorHandler    - Final middleware that turns errors into { error } responses
+ *                     ({ error, details } for validation errors)
+ */
+
+/**
+ * Client-facing messages for the body parser's errors (express.json),
+ * by error type. Their status comes with the error (400, 413, ...).
+ */
+const BODY_ERROR_MESSAGES = {
+  'entity.parse.failed': 'Request body is not valid JSON',
+  'entity.too.large': 'Request body is too large',
+  'encoding.unsupported': 'Request body encoding is not supported',
+  'charset.unsupported': 'Request body charset is not supported'
+};
+
+// ============================================
+// ERROR TYPES
+// ============================================
+
+/**
+ * An error with an HTTP status code.
+ * The message is sent to the client, so it must be user-safe.
+ *
+ * @example
+ * throw new HttpError(400, 'Not enough stock available');
+ */
+class HttpError extends Error {
+  /**
+   * @param {number} status - HTTP status code (4xx)
+   * @param {string} message - Client-facing error message
+   */
+  constructor(status, message) {
+    super(message);
+    this.name = 'HttpError';
+    this.status = status;
+  }
+}
+
+/**
+ * A 400 error for invalid request data, listing every invalid field
+ * so forms can show each message next to its input.
+ *
+ * @example
+ * throw new ValidationError([{ field: 'password', message: 'Password is too short' }]);
+ */
+class ValidationError extends HttpError {
+  /**
+   * @param {Array<{field: string, message: string}>} details - One entry per problem;
+   *   field is a dotted path into the request body (e.g. 'items.0.quantity')
+   */
+  constructor(details) {
+    super(400, 'Validation failed');
+    this.name = 'ValidationError';
+    this.details = details;
+  }
+}
+
+// ============================================
+// MIDDLEWARE
+// ============================================
+
+/**
+ * Wraps an async route handler.
+ * Express 4 ignores rejected promises, so forward them to next().
+ *
+ * @param {Function} handler - async (req, res, next) => void
+ * @returns {Function} Express middleware
+ */
+function asyncHandler(handler) {
+  return (req, res, next) => {
+    Promise.resolve(handler(req, res, next)).catch(next);
+  };
+}
+
+/**
+ * Global error handling middleware.
+ * HttpErrors keep their status and message (plus the field list for
+ * ValidationErrors). Client errors from the body parser (malformed JSON,
+ * oversized bodies) keep their 4xx status and get a fixed message;
+ * anything else is logged and returned as a generic 500 response.
+ *
+ * @param {Error} err - The error object
+ * @param {Request} req - Express request object
+ * @param {Response} res - Express response object
+ * @param {Function} next - Next middleware function
+ */
+function errorHandler(err, req, res, next) {
+  if (err instanceof ValidationError) {
+    return res.status(err.status).json({ error: err.message, details: err.details });
+  }
+  if (err instanceof HttpError) {
+    return res.status(err.status).json({ error: err.message });
+  }
+  if (err.expose && err.status >= 400 && err.status < 500) {
+    return res.status(err.status).json({ error: BODY_ERROR_MESSAGES[err.type] ?? err.message });
+  }
+
+  console.error(err.stack);
+  res.status(500).json({ error: 'Something went wrong!' });
+}
+
+module.exports = {
+  HttpError,
+  ValidationError,
+  asyncHandler,
+  errorHandler
+};
@@ -0,0 +1,69 @@
+/**
+ * @fileoverview Request Validation Middleware
+ *
+ * Checks request data against a zod schema before the route handler runs.
+ *
+ * @module middleware/validate
+ *
+ * @description
+ * - validate(schema, source) - Parses req[source] ('body' by default).
+ *                              On success req[source] is replaced with the
+ *                              parsed value (trimmed, defaults applied, unknown
+ *                              query keys dropped); on failure the request is
+ *                              rejected with a ValidationError:
+ *
+ *   400 { error: 'Validation failed',
+ *         details: [{ field: 'sellingPrice', message: 'Selling price must be greater than 0' }] }
+ *
+ * - toDetails(error)         - The same { field, message } list for a zod
+ *                              error, for code that parses data itself.
+ *
+ * Schemas come from the bookstore-shared package (../shared).
+ */
+
+const { ValidationError } = require('./errors');
+
+/**
+ * Converts zod issues into { field, message } entries.
+ * Unknown keys are reported once per key.
+ *
+ * @param {import('zod').ZodError} error - Failed parse result
+ * @returns {Array<{field: string, message: string}>} Field errors
+ */
+function toDetails(error) {
+  return error.issues.flatMap(issue => {
+    if (issue.code === 'unrecognized_keys') {
+      return issue.keys.map(key => ({
+        field: [...issue.path, key].join('.'),
+        message: 'Unknown field'
+      }));
+    }
+    return [{ field: issue.path.join('.'), message: issue.message }];
+  });
+}
+
+/**
+ * Creates middleware that validates part of the request.
+ *
+ * @param {import('zod').ZodType} schema - Schema for the data
+ * @param {string} [source='body'] - Request property to validate ('body' or 'query')
+ * @returns {Function} Express middleware
+ *
+ * @example
+ * router.post('/', validate(bookCreateSchema), asyncHandler(...));
+ */
+function validate(schema, source = 'body') {
+  return (req, res, next) => {
+    const result = schema.safeParse(req[source] ?? {});
+    if (!result.success) {
+      return next(new ValidationError(toDetails(result.error)));
+    }
+    req[source] = result.data;
+    next();
+  };
+}
+
+module.exports = {
+  validate,
+  toDetails
+};
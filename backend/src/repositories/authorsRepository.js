@@ -0,0 +1,196 @@
+/**
+ * @fileoverview Authors Repository
+ *
+ * Data access for the authors table and the book_authors links.
+ *
+ * @module repositories/authorsRepository
+ *
+ * @description
+ * Books name their authors as strings. resolveIds() turns those names into
+ * author IDs: a name matches an author when it equals the author's name or
+ * one of its aliases, ignoring case and surrounding spaces; any other name
+ * creates a new author. Names and aliases are kept unique across authors
+ * (see findConflicts), so a name never matches two authors.
+ */
+
+const db = require('../db');
+const { ValidationError } = require('../middleware/errors');
+
+/** Author fields that can be updated, mapped to their columns */
+const COLUMNS = {
+  name: 'name',
+  aliases: 'aliases',
+  bio: 'bio'
+};
+
+/**
+ * SQL condition true when the author row aliased as a is known by the
+ * name in the given placeholder (its name or an alias, ignoring case).
+ *
+ * @param {string} placeholder - Parameter holding the name, e.g. '$1'
+ * @returns {string} SQL condition
+ */
+const knownAs = placeholder => `(lower(a.name) = lower(btrim(${placeholder}))
+  OR EXISTS (SELECT 1 FROM unnest(a.aliases) alias WHERE lower(alias) = lower(btrim(${placeholder}))))`;
+
+/** Select list of an author with its book count */
+const AUTHOR_COLUMNS = `a.*,
+  (SELECT COUNT(*)::int FROM book_authors ba WHERE ba.author_id = a.id) AS book_count`;
+
+/**
+ * Converts an authors row into the API's author shape.
+ *
+ * @param {Object} row - Row from the authors table (with book_count)
+ * @returns {Object} Author object
+ */
+function toAuthor(row) {
+  return {
+    id: String(row.id),
+    name: row.name,
+    aliases: row.aliases || [],
+    bio: row.bio ?? null,
+    bookCount: row.book_count ?? 0
+  };
+}
+
+/**
+ * Lists all authors.
+ *
+ * @returns {Promise<Array<Object>>} Authors ordered by name
+ */
+async function findAll() {
+  const { rows } = await db.query(`SELECT ${AUTHOR_COLUMNS} FROM authors a ORDER BY lower(a.name)`);
+  return rows.map(toAuthor);
+}
+
+/**
+ * Finds an author by ID.
+ *
+ * @param {string} id - Author ID
+ * @param {Object} [executor=db] - Transaction executor, to read inside a transaction
+ * @returns {Promise<Object|null>} Author or null if not found
+ */
+async function findById(id, executor = db) {
+  const authorId = db.parseId(id);
+  if (authorId === null) return null;
+
+  const { rows } = await executor.query(`SELECT ${AUTHOR_COLUMNS} FROM authors a WHERE a.id = $1`, [authorId]);
+  return rows[0] ? toAuthor(rows[0]) : null;
+}
+
+/**
+ * Finds the names already used by other authors, as a name or an alias.
+ *
+ * @param {string[]} names - Names an author is about to be known by
+ * @param {string} [exceptId] - Author being updated, which may keep its own names
+ * @returns {Promise<Array<{ name: string, author: Object }>>} Each taken name
+ *   with the author using it
+ */
+async function findConflicts(names, exceptId) {
+  const conflicts = [];
+  for (const name of names) {
+    const { rows } = await db.query(
+      `SELECT ${AUTHOR_COLUMNS} FROM authors a WHERE ${knownAs('$1')} AND a.id <> $2 LIMIT 1`,
+      [name, db.parseId(exceptId) ?? 0]
+    );
+    if (rows[0]) conflicts.push({ name, author: toAuthor(rows[0]) });
+  }
+  return conflicts;
+}
+
+/**
+ * Turns author names into author IDs, creating authors for unknown names.
+ * Names that resolve to the same author are kept once, at their first position.
+ *
+ * @param {string[]} names - Author names in credit order
+ * @param {Object} executor - Transaction executor
+ * @returns {Promise<number[]>} Author IDs in credit order
+ */
+async function resolveIds(names, executor) {
+  const ids = [];
+  for (const name of names) {
+    const found = await executor.query(`SELECT a.id FROM authors a WHERE ${knownAs('$1')} LIMIT 1`, [name]);
+    const id = found.rows[0]
+      ? found.rows[0].id
+      : (await executor.query('INSERT INTO authors (name) VALUES (btrim($1)) RETURNING id', [name])).rows[0].id;
+    if (!ids.includes(id)) ids.push(id);
+  }
+  return ids;
+}
+
+/**
+ * Applies a partial update to an author.
+ *
+ * @param {string} id - Author ID
+ * @param {Object} changes - Fields to update (unknown fields are ignored)
+ * @returns {Promise<Object|null>} Updated author or null if not found
+ */
+async function update(id, changes) {
+  const authorId = db.parseId(id);
+  if (authorId === null) return null;
+
+  const { clause, values } = db.buildSetClause(COLUMNS, changes, 2);
+  if (clause) {
+    await db.query(`UPDATE authors SET ${clause} WHERE id = $1`, [authorId, ...values]);
+  }
+  return findById(id);
+}
+
+/**
+ * Merges a duplicate author into another. The target takes over the
+ * duplicate's books (keeping each book's credit order), its name and
+ * aliases become aliases of the target, and its bio fills an empty one.
+ * The duplicate is then deleted.
+ *
+ * @param {string} targetId - Author to keep
+ * @param {string} sourceId - Duplicate to merge in and delete
+ * @returns {Promise<Object|null>} The merged author, or null if either is
+ *   not found (nothing is changed then)
+ * @throws {ValidationError} If both ids name the same author, e.g. '1' and '01'
+ */
+async function merge(targetId, sourceId) {
+  return db.transaction(async tx => {
+    const target = await findById(targetId, tx);
+    const source = await findById(sourceId, tx);
+    if (!target || !source) return null;
+    if (target.id === source.id) {
+      throw new ValidationError([{ field: 'sourceId', message: 'An author cannot be merged with itself' }]);
+    }
+
+    // Books crediting both keep the target's position
+    await tx.query(
+      `DELETE FROM book_authors
+       WHERE author_id = $2
+         AND book_isbn IN (SELECT book_isbn FROM book_authors WHERE author_id = $1)`,
+      [Number(target.id), Number(source.id)]
+    );
+    await tx.query('UPDATE book_authors SET author_id = $1 WHERE author_id = $2', [Number(target.id), Number(source.id)]);
+
+    const known = new Set([target.name, ...target.aliases].map(name => name.toLowerCase()));
+    const aliases = [...target.aliases];
+    for (const name of [source.name, ...source.aliases]) {
+      if (!known.has(name.toLowerCase())) {
+        known.add(name.toLowerCase());
+        aliases.push(name);
+      }
+    }
+
+    await tx.query('DELETE FROM authors WHERE id = $1', [Number(source.id)]);
+    await tx.query(
+      'UPDATE authors SET aliases = $2, bio = COALESCE(bio, $3) WHERE id = $1',
+      [Number(target.id), aliases, source.bio]
+    );
+    const merged = await findById(target.id, tx);
+    if (!merged) throw new Error(`Author ${target.id} disappeared during the merge`);
+    return merged;
+  });
+}
+
+module.exports = {
+  findAll,
+  findById,
+  findConflicts,
+  resolveIds,
+  update,
+  merge
+};
@@ -0,0 +1,624 @@
+/**
+ * @fileoverview Books Repository
+ *
+ * Data access for the books table, each book's authors (book_authors),
+ * categories (book_categories) and tags (book_tags), and the works that
+ * group editions.
+ *
+ * @module repositories/booksRepository
+ *
+ * @description
+ * Books are returned with their publisher's name, their authors
+ * ({ id, name }, in credit order) and categories ({ id, name, slug,
+ * color }, in display order) and tags (in alphabetical order). Clients
+ * name authors by name (resolved, or created, by authorsRepository) and
+ * categories by slug; routes check that the slugs exist before calling
+ * create() or update().
+ *
+ * Each book is one edition of a work (books.work_id). create() starts a
+ * new work unless it is given the workId of an existing one; a work is
+ * deleted with its last edition, whether that edition is deleted or moved
+ * to another work.
+ *
+ * Books with orders are archived (archived_at) rather than deleted, so
+ * order history keeps pointing at them. findAll() leaves archived books
+ * out unless asked for them; findByIsbn() finds them all the same.
+ *
+ * bookConditions() turns search filters into SQL, for findAll() and the
+ * storefront search (searchRepository). Search text is matched against
+ * the book_search index (migration 013), which the schema's triggers keep
+ * up to date as books, authors and publishers change.
+ *
+ * importBooks() saves a whole catalog import in one transaction, so either
+ * every row is saved or none is.
+ *
+ * Every price a book is given here is added to its price history
+ * (pricesRepository.recordChange) in the same transaction.
+ *
+ * Stock changes made through update() run the schema's triggers:
+ * dropping below the threshold fires check_stock_threshold, which places
+ * an automatic publisher order with the book's publisher, or rejects the
+ * change when the book has none. The CHECK constraint rejects negative stock.
+ */
+
+const db = require('../db');
+const { HttpError } = require('../middleware/errors');
+const {
+  normalizeIsbn,
+  normalizeTag,
+  DEFAULT_BOOK_FORMAT,
+  PRICE_BUCKETS,
+  MIN_FUZZY_LENGTH,
+  FUZZY_SIMILARITY
+} = require('bookstore-shared');
+const authorsRepository = require('./authorsRepository');
+const pricesRepository = require('./pricesRepository');
+
+/** PostgreSQL error code for foreign key violations */
+const FOREIGN_KEY_VIOLATION = '23503';
+
+/** Error code raised by check_stock_threshold for a book without a publisher */
+const NO_SUPPLIER = 'BS001';
+
+/** Book fields that can be updated, mapped to their columns */
+const COLUMNS = {
+  title: 'title',
+  format: 'format',
+  workId: 'work_id',
+  publisherId: 'publisher_id',
+  publicationYear: 'publication_year',
+  sellingPrice: 'selling_price',
+  quantity: 'quantity',
+  threshold: 'threshold',
+  imageUrl: 'image_url',
+  description: 'description',
+  pageCount: 'page_count',
+  language: 'language',
+  edition: 'edition',
+  heightMm: 'height_mm',
+  widthMm: 'width_mm',
+  thicknessMm: 'thickness_mm',
+  weightGrams: 'weight_grams'
+};
+
+/**
+ * Select-list entry with a book's publisher name, for queries over the
+ * books table aliased as b.
+ */
+const PUBLISHER_COLUMN = `(SELECT p.name FROM publishers p WHERE p.id = b.publisher_id) AS publisher`;
+
+/**
+ * Select-list entry with a book's authors as a JSON array, for
+ * queries over the books table aliased as b.
+ */
+const AUTHORS_COLUMN = `COALESCE((
+    SELECT json_agg(json_build_object('id', a.id::text, 'name', a.name) ORDER BY ba.position)
+    FROM book_authors ba
+    JOIN authors a ON a.id = ba.author_id
+    WHERE ba.book_isbn = b.isbn
+  ), '[]'::json) AS authors`;
+
+/**
+ * SQL condition true when a book (aliased as b) has an author whose name
+ * or alias matches the ILIKE pattern in the given placeholder.
+ *
+ * @param {string} placeholder - Parameter holding the pattern, e.g. '$1'
+ * @returns {string} SQL condition
+ */
+const hasAuthorLike = placeholder => `EXISTS (
+      SELECT 1 FROM book_authors ba JOIN authors a ON a.id = ba.author_id
+      WHERE ba.book_isbn = b.isbn
+        AND (a.name ILIKE ${placeholder} OR EXISTS (SELECT 1 FROM unnest(a.aliases) alias WHERE alias ILIKE ${placeholder})))`;
+
+/**
+ * Select-list entry with a book's categories as a JSON array, for
+ * queries over the books table aliased as b.
+ */
+const CATEGORIES_COLUMN = `COALESCE((
+    SELECT json_agg(json_build_object('id', c.id::text, 'name', c.name, 'slug', c.slug, 'color', c.color)
+                    ORDER BY c.sort_order, c.name)
+    FROM book_categories bc
+    JOIN categories c ON c.id = bc.category_id
+    WHERE bc.book_isbn = b.isbn
+  ), '[]'::json) AS categories`;
+
+/**
+ * Select-list entry with a book's tags as a text array, for queries over
+ * the books table aliased as b.
+ */
+const TAGS_COLUMN = `ARRAY(SELECT bt.tag FROM book_tags bt WHERE bt.book_isbn = b.isbn ORDER BY bt.tag) AS tags`;
+
+/**
+ * Converts a books row into the API's book shape.
+ *
+ * @param {Object} row - Row from the books table
+ * @returns {Object} Book object
+ */
+function toBook(row) {
+  return {
+    isbn: row.isbn,
+    title: row.title,
+    format: row.format,
+    workId: String(row.work_id),
+    authors: row.authors || [],
+    publisherId: row.publisher_id === null ? null : String(row.publisher_id),
+    publisher: row.publisher ?? null,
+    publicationYear: row.publication_year,
+    sellingPrice: Number(row.selling_price),
+    categories: row.categories || [],
+    quantity: row.quantity,
+    threshold: row.threshold,
+    imageUrl: row.image_url ?? undefined,
+    description: row.description ?? null,
+    pageCount: row.page_count ?? null,
+    language: row.language ?? null,
+    edition: row.edition ?? null,
+    heightMm: row.height_mm ?? null,
+    widthMm: row.width_mm ?? null,
+    thicknessMm: row.thickness_mm ?? null,
+    weightGrams: row.weight_grams ?? null,
+    tags: row.tags || [],
+    archivedAt: row.archived_at ? new Date(row.archived_at).toISOString() : null
+  };
+}
+
+/**
+ * The full-text query for search text (see book_search_query() in
+ * migration 013), matching words by stem and misspellings by trigram
+ * similarity.
+ *
+ * @param {string} text - Search text
+ * @param {Array} params - Query parameters, added to
+ * @returns {string} SQL tsquery expression; NULL when the text has no
+ *   word to search by
+ */
+function textQuery(text, params) {
+  params.push(text, MIN_FUZZY_LENGTH, FUZZY_SIMILARITY);
+  return `book_search_query($${params.length - 2}, $${params.length - 1}::int, $${params.length}::real)`;
+}
+
+/**
+ * Converts the error check_stock_threshold raises for a book without a
+ * publisher into a 409 carrying its message. Used wherever stock is
+ * reduced (book updates and checkout).
+ *
+ * @param {Error} err - Error from a statement that changed stock
+ * @returns {Error} Error to rethrow
+ */
+function toSupplierError(err) {
+  return err.code === NO_SUPPLIER ? new HttpError(409, err.message) : err;
+}
+
+/**
+ * SQL conditions on books (aliased as b) for search filters. Values are
+ * added to params and referred to by placeholder, so the conditions are
+ * only valid with the params they were built with.
+ *
+ * @param {Object} filter
+ * @param {string} [filter.q] - A complete ISBN (any form) finds that book;
+ *   otherwise words of the title, authors or publisher (see textQuery), or
+ *   ISBN digits
+ * @param {string} [filter.category] - Category slug; includes its subcategories
+ * @param {string} [filter.author] - Case-insensitive substring of an author's name or alias
+ * @param {string} [filter.authorId] - Books credited to this author
+ * @param {string} [filter.publisher] - Case-insensitive publisher substring
+ * @param {string} [filter.publisherId] - Books from this publisher
+ * @param {string} [filter.workId] - Editions of this work
+ * @param {string} [filter.decade] - First year of a decade of publication, e.g. '1990'
+ * @param {string} [filter.price] - Price bucket (see PRICE_BUCKETS)
+ * @param {string} [filter.inStock] - 'true' for books with copies in stock
+ * @param {string} [filter.tag] - Books with this tag (any case or spacing)
+ * @param {string} [filter.archived] - 'include' to add archived books,
+ *   'only' for archived books alone; without it they are left out
+ * @param {Array} params - Query parameters, added to
+ * @returns {string[]} Conditions, all of which a book must meet
+ */
+function bookConditions({
+  q, category, author, authorId, publisher, publisherId, workId, decade, price, inStock, tag, archived
+}, params) {
+  const conditions = [];
+
+  const isbn = q && normalizeIsbn(q);
+  if (isbn) {
+    params.push(isbn);
+    conditions.push(`b.isbn = $${params.length}`);
+  } else if (q) {
+    const words = `b.isbn IN (SELECT isbn FROM book_search WHERE document @@ ${textQuery(q, params)})`;
+    // Partial ISBNs are matched without hyphens, so '0-13-4685' finds '9780134685991'
+    params.push(`%${q.replace(/[\s-]/g, '')}%`);
+    conditions.push(`(${words} OR b.isbn ILIKE $${params.length})`);
+  }
+  if (category) {
+    params.push(category);
+    conditions.push(`b.isbn IN (
+      SELECT bc.book_isbn FROM book_categories bc
+      WHERE bc.category_id IN (
+        WITH RECURSIVE subtree AS (
+          SELECT id FROM categories WHERE slug = $${params.length}
+          UNION ALL
+          SELECT c.id FROM categories c JOIN subtree s ON c.parent_id = s.id
+        )
+        SELECT id FROM subtree))`);
+  }
+  if (author) {
+    params.push(`%${author}%`);
+    conditions.push(hasAuthorLike(`$${params.length}`));
+  }
+  if (authorId !== undefined) {
+    params.push(db.parseId(authorId) ?? 0);
+    conditions.push(`b.isbn IN (SELECT book_isbn FROM book_authors WHERE author_id = $${params.length})`);
+  }
+  if (publisher) {
+    params.push(`%${publisher}%`);
+    conditions.push(`b.publisher_id IN (SELECT id FROM publishers WHERE name ILIKE $${params.length})`);
+  }
+  if (publisherId !== undefined) {
+    params.push(db.parseId(publisherId) ?? 0);
+    conditions.push(`b.publisher_id = $${params.length}`);
+  }
+  if (workId !== undefined) {
+    params.push(db.parseId(workId) ?? 0);
+    conditions.push(`b.work_id = $${params.length}`);
+  }
+  if (decade !== undefined) {
+    params.push(Number(decade));
+    conditions.push(`b.publication_year BETWEEN $${params.length} AND $${params.length} + 9`);
+  }
+  const bucket = price && PRICE_BUCKETS.find(({ value }) => value === price);
+  if (bucket) {
+    params.push(bucket.min);
+    conditions.push(`b.selling_price >= $${params.length}`);
+    if (bucket.max !== null) {
+      params.push(bucket.max);
+      conditions.push(`b.selling_price < $${params.length}`);
+    }
+  }
+  if (inStock === 'true') {
+    conditions.push('b.quantity > 0');
+  }
+  if (tag) {
+    params.push(normalizeTag(tag));
+    conditions.push(`b.isbn IN (SELECT book_isbn FROM book_tags WHERE tag = $${params.length})`);
+  }
+  if (archived === 'only') {
+    conditions.push('b.archived_at IS NOT NULL');
+  } else if (archived !== 'include') {
+    conditions.push('b.archived_at IS NULL');
+  }
+
+  return conditions;
+}
+
+/**
+ * Lists books, optionally filtered.
+ *
+ * @param {Object} [filter] - Filters (see bookConditions)
+ * @returns {Promise<Array<Object>>} Matching books ordered by title
+ */
+async function findAll(filter = {}) {
+  const params = [];
+  const conditions = bookConditions(filter, params);
+
+  const where = conditions.length ? `WHERE ${conditions.join(' AND ')}` : '';
+  const { rows } = await db.query(
+    `SELECT b.*, ${PUBLISHER_COLUMN}, ${AUTHORS_COLUMN}, ${CATEGORIES_COLUMN}, ${TAGS_COLUMN}
+     FROM books b ${where} ORDER BY title`,
+    params
+  );
+  return rows.map(toBook);
+}
+
+/**
+ * Finds a book by ISBN.
+ *
+ * @param {string} isbn - Book's ISBN
+ * @param {Object} [executor=db] - Transaction executor, to read inside a transaction
+ * @returns {Promise<Object|null>} Book or null if not found
+ */
+async function findByIsbn(isbn, executor = db) {
+  const { rows } = await executor.query(
+    `SELECT b.*, ${PUBLISHER_COLUMN}, ${AUTHORS_COLUMN}, ${CATEGORIES_COLUMN}, ${TAGS_COLUMN}
+     FROM books b WHERE b.isbn = $1`,
+    [isbn]
+  );
+  return rows[0] ? toBook(rows[0]) : null;
+}
+
+/**
+ * Checks whether a work exists.
+ *
+ * @param {string} id - Work ID
+ * @returns {Promise<boolean>} True if the work exists
+ */
+async function workExists(id) {
+  const workId = db.parseId(id);
+  if (workId === null) return false;
+  const { rows } = await db.query('SELECT 1 FROM works WHERE id = $1', [workId]);
+  return rows.length > 0;
+}
+
+/**
+ * Deletes works left without editions.
+ *
+ * @param {Object} executor - Transaction executor
+ * @returns {Promise<void>}
+ */
+async function removeEmptyWorks(executor) {
+  await executor.query('DELETE FROM works w WHERE NOT EXISTS (SELECT 1 FROM books b WHERE b.work_id = w.id)');
+}
+
+/**
+ * Replaces the authors of a book.
+ *
+ * @param {string} isbn - Book's ISBN
+ * @param {string[]} names - Author names in credit order (new names create authors)
+ * @param {Object} executor - Transaction executor
+ * @returns {Promise<void>}
+ */
+async function setAuthors(isbn, names, executor) {
+  const ids = await authorsRepository.resolveIds(names, executor);
+  await executor.query('DELETE FROM book_authors WHERE book_isbn = $1', [isbn]);
+  await executor.query(
+    `INSERT INTO book_authors (book_isbn, author_id, position)
+     SELECT $1, id, position FROM unnest($2::int[]) WITH ORDINALITY AS t(id, position)`,
+    [isbn, ids]
+  );
+}
+
+/**
+ * Replaces the categories of a book.
+ *
+ * @param {string} isbn - Book's ISBN
+ * @param {string[]} slugs - Category slugs (unknown slugs are skipped)
+ * @param {Object} executor - Transaction executor
+ * @returns {Promise<void>}
+ */
+async function setCategories(isbn, slugs, executor) {
+  await executor.query('DELETE FROM book_categories WHERE book_isbn = $1', [isbn]);
+  await executor.query(
+    `INSERT INTO book_categories (book_isbn, category_id)
+     SELECT $1, id FROM categories WHERE slug = ANY($2)`,
+    [isbn, slugs]
+  );
+}
+
+/**
+ * Replaces the tags of a book.
+ *
+ * @param {string} isbn - Book's ISBN
+ * @param {string[]} tags - Tags in stored form
+ * @param {Object} executor - Transaction executor
+ * @returns {Promise<void>}
+ */
+async function setTags(isbn, tags, executor) {
+  await executor.query('DELETE FROM book_tags WHERE book_isbn = $1', [isbn]);
+  await executor.query(
+    'INSERT INTO book_tags (book_isbn, tag) SELECT DISTINCT $1, unnest($2::varchar[])',
+    [isbn, tags]
+  );
+}
+
+/**
+ * Inserts a book with its authors, categories and tags.
+ *
+ * @param {Object} book - Complete book object; without a workId the book
+ *   starts a new work
+ * @param {Object} executor - Transaction executor
+ * @param {string} [source='created'] - Price history source of its first price
+ * @returns {Promise<void>}
+ */
+async function insertBook(book, executor, source = 'created') {
+  let workId = db.parseId(book.workId);
+  if (workId === null) {
+    const { rows } = await executor.query('INSERT INTO works DEFAULT VALUES RETURNING id');
+    workId = rows[0].id;
+  }
+
+  await executor.query(
+    `INSERT INTO books
+       (isbn, title, format, work_id, publisher_id, publication_year, selling_price,
+        quantity, threshold, image_url, description, page_count, language, edition,
+        height_mm, width_mm, thickness_mm, weight_grams)
+     VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18)`,
+    [
+      book.isbn, book.title, book.format ?? DEFAULT_BOOK_FORMAT, workId, db.parseId(book.publisherId),
+      book.publicationYear, book.sellingPrice, book.quantity ?? 0, book.threshold ?? 5, book.imageUrl ?? null,
+      book.description ?? null, book.pageCount ?? null, book.language ?? null, book.edition ?? null,
+      book.heightMm ?? null, book.widthMm ?? null, book.thicknessMm ?? null, book.weightGrams ?? null
+    ]
+  );
+  await pricesRepository.recordChange(book.isbn, book.sellingPrice, source, executor);
+  await setAuthors(book.isbn, book.authors, executor);
+  await setCategories(book.isbn, book.categories, executor);
+  await setTags(book.isbn, book.tags ?? [], executor);
+}
+
+/**
+ * Updates a book's columns, authors, categories and tags.
+ *
+ * @param {string} isbn - Book's ISBN
+ * @param {Object} changes - Fields to update (unknown fields are ignored)
+ * @param {Object} executor - Transaction executor
+ * @param {string} [source='manual'] - Price history source if the price changes
+ * @returns {Promise<boolean>} False if the book does not exist
+ */
+async function updateBook(isbn, changes, executor, source = 'manual') {
+  let oldPrice = null;
+  if (changes.sellingPrice !== undefined) {
+    const { rows } = await executor.query('SELECT selling_price FROM books WHERE isbn = $1 FOR UPDATE', [isbn]);
+    if (rows.length === 0) return false;
+    oldPrice = Number(rows[0].selling_price);
+  }
+
+  const columns = { ...changes };
+  if (columns.publisherId !== undefined) columns.publisherId = db.parseId(columns.publisherId);
+  if (columns.workId !== undefined) columns.workId = db.parseId(columns.workId);
+
+  const { clause, values } = db.buildSetClause(COLUMNS, columns, 2);
+  const { rows } = clause
+    ? await executor.query(`UPDATE books SET ${clause} WHERE isbn = $1 RETURNING isbn`, [isbn, ...values])
+    : await executor.query('SELECT isbn FROM books WHERE isbn = $1', [isbn]);
+  if (rows.length === 0) return false;
+
+  if (oldPrice !== null && oldPrice !== Number(changes.sellingPrice)) {
+    await pricesRepository.recordChange(isbn, changes.sellingPrice, source, executor);
+  }
+  if (changes.authors !== undefined) {
+    await setAuthors(isbn, changes.authors, executor);
+  }
+  if (changes.categories !== undefined) {
+    await setCategories(isbn, changes.categories, executor);
+  }
+  if (changes.tags !== undefined) {
+    await setTags(isbn, changes.tags, executor);
+  }
+  if (changes.workId !== undefined) {
+    await removeEmptyWorks(executor);
+  }
+  return true;
+}
+
+/**
+ * Finds which of the given ISBNs are in the catalog.
+ *
+ * @param {string[]} isbns - ISBNs in stored form
+ * @returns {Promise<Set<string>>} The ISBNs that exist
+ */
+async function findExistingIsbns(isbns) {
+  const { rows } = await db.query('SELECT isbn FROM books WHERE isbn = ANY($1)', [isbns]);
+  return new Set(rows.map(row => row.isbn));
+}
+
+/**
+ * Inserts a new book with its authors, categories and tags.
+ *
+ * @param {Object} book - Complete book object, with authors as names and
+ *   categories as slugs (imageUrl and the bibliographic details may be
+ *   left out)
+ * @returns {Promise<Object>} Created book
+ */
+async function create(book) {
+  return db.transaction(async tx => {
+    await insertBook(book, tx);
+    return findByIsbn(book.isbn, tx);
+  });
+}
+
+/**
+ * Applies a partial update to a book. Sending authors (names),
+ * categories (slugs) or tags replaces the book's list.
+ *
+ * @param {string} isbn - Book's ISBN
+ * @param {Object} changes - Fields to update (unknown fields are ignored)
+ * @returns {Promise<Object|null>} Updated book or null if not found
+ * @throws {HttpError} 409 if the stock drops below the threshold and the
+ *   book has no publisher to reorder from
+ */
+async function update(isbn, changes) {
+  try {
+    return await db.transaction(async tx => {
+      if (!(await updateBook(isbn, changes, tx))) return null;
+      return findByIsbn(isbn, tx);
+    });
+  } catch (err) {
+    throw toSupplierError(err);
+  }
+}
+
+/**
+ * Saves a catalog import in one transaction: if any book fails, none is
+ * saved.
+ *
+ * @param {Object} books
+ * @param {Array<Object>} books.created - New books (as for create())
+ * @param {Array<Object>} books.updated - Existing books; every field given
+ *   replaces the stored one (as for update())
+ * @returns {Promise<void>}
+ * @throws {HttpError} 409 if an update takes a book below its threshold
+ *   and the book has no publisher to reorder from
+ */
+async function importBooks({ created, updated }) {
+  try {
+    await db.transaction(async tx => {
+      for (const book of created) {
+        await insertBook(book, tx, 'import');
+      }
+      for (const { isbn, ...changes } of updated) {
+        await updateBook(isbn, changes, tx, 'import');
+      }
+    });
+  } catch (err) {
+    throw toSupplierError(err);
+  }
+}
+
+/**
+ * Archives a book (takes it off sale) or puts it back on sale. Archiving
+ * also removes the book from every shopping cart; archiving an archived
+ * book keeps its original archivedAt.
+ *
+ * @param {string} isbn - Book's ISBN
+ * @param {boolean} archived - True to archive, false to unarchive
+ * @returns {Promise<Object|null>} Updated book or null if not found
+ */
+async function setArchived(isbn, archived) {
+  return db.transaction(async tx => {
+    const { rows } = await tx.query(
+      `UPDATE books
+       SET archived_at = CASE WHEN $2 THEN COALESCE(archived_at, CURRENT_TIMESTAMP) END
+       WHERE isbn = $1 RETURNING isbn`,
+      [isbn, archived]
+    );
+    if (rows.length === 0) return null;
+
+    if (archived) {
+      await tx.query('DELETE FROM cart_items WHERE book_isbn = $1', [isbn]);
+    }
+    return findByIsbn(isbn, tx);
+  });
+}
+
+/**
+ * Deletes a book and removes it from every shopping cart.
+ * Books referenced by customer or publisher orders are kept for history;
+ * archive them instead (setArchived).
+ *
+ * @param {string} isbn - Book's ISBN
+ * @returns {Promise<boolean>} True if a book was deleted
+ * @throws {HttpError} 409 if orders reference the book
+ */
+async function remove(isbn) {
+  try {
+    return await db.transaction(async tx => {
+      await tx.query('DELETE FROM cart_items WHERE book_isbn = $1', [isbn]);
+      const { rows } = await tx.query('DELETE FROM books WHERE isbn = $1 RETURNING isbn', [isbn]);
+      await removeEmptyWorks(tx);
+      return rows.length > 0;
+    });
+  } catch (err) {
+    if (err.code === FOREIGN_KEY_VIOLATION) {
+      throw new HttpError(409, 'Book has orders and cannot be deleted; archive it instead');
+    }
+    throw err;
+  }
+}
+
+module.exports = {
+  PUBLISHER_COLUMN,
+  AUTHORS_COLUMN,
+  CATEGORIES_COLUMN,
+  TAGS_COLUMN,
+  toBook,
+  toSupplierError,
+  textQuery,
+  bookConditions,
+  findAll,
+  findByIsbn,
+  findExistingIsbns,
+  workExists,
+  create,
+  update,
+  importBooks,
+  setArchived,
+  remove
+};
@@ -0,0 +1,129 @@
+/**
+ * @fileoverview Carts Repository
+ *
+ * Data access for the carts and cart_items tables.
+ *
+ * @module repositories/cartsRepository
+ *
+ * @description
+ * A cart is a carts row (one per user) plus its cart_items. Items are
+ * joined with the books table, so cart prices always reflect the
+ * current selling price.
+ *
+ * Cart Structure:
+ * {
+ *   items: [{ book: {...}, quantity: number }],
+ *   totalItems: number,  // Sum of all quantities
+ *   totalPrice: number   // Sum of (price * quantity)
+ * }
+ */
+
+const db = require('../db');
+const { toBook, PUBLISHER_COLUMN, AUTHORS_COLUMN, CATEGORIES_COLUMN, TAGS_COLUMN } = require('./booksRepository');
+
+/**
+ * Returns a fresh empty cart structure.
+ *
+ * @returns {Object} Cart with no items and zero totals
+ */
+function emptyCart() {
+  return { items: [], totalItems: 0, totalPrice: 0 };
+}
+
+/**
+ * Loads a user's cart.
+ *
+ * @param {string} userId - User's ID
+ * @param {Object} [executor=db] - Transaction executor
+ * @returns {Promise<Object|null>} Cart, or null if the user has no cart
+ */
+async function findByUser(userId, executor = db) {
+  const id = db.parseId(userId);
+  if (id === null) return null;
+
+  const { rows: carts } = await executor.query('SELECT user_id FROM carts WHERE user_id = $1', [id]);
+  if (carts.length === 0) return null;
+
+  const { rows } = await executor.query(
+    `SELECT ci.quantity AS cart_quantity, b.*, ${PUBLISHER_COLUMN}, ${AUTHORS_COLUMN}, ${CATEGORIES_COLUMN}, ${TAGS_COLUMN}
+     FROM cart_items ci
+     JOIN books b ON b.isbn = ci.book_isbn
+     WHERE ci.cart_id = $1
+     ORDER BY ci.id`,
+    [id]
+  );
+
+  const cart = emptyCart();
+  cart.items = rows.map(row => ({ book: toBook(row), quantity: row.cart_quantity }));
+  cart.totalItems = cart.items.reduce((sum, item) => sum + item.quantity, 0);
+  cart.totalPrice = cart.items.reduce((sum, item) => sum + (item.book.sellingPrice * item.quantity), 0);
+  return cart;
+}
+
+/**
+ * Sets the quantity of a book in a user's cart, creating the cart and
+ * the item as needed.
+ *
+ * @param {string} userId - User's ID (must exist)
+ * @param {string} isbn - Book's ISBN
+ * @param {number} quantity - New quantity (> 0)
+ * @returns {Promise<Object>} Updated cart
+ */
+async function setItemQuantity(userId, isbn, quantity) {
+  const id = db.parseId(userId);
+
+  return db.transaction(async tx => {
+    await tx.query(
+      `INSERT INTO carts (user_id) VALUES ($1)
+       ON CONFLICT (user_id) DO UPDATE SET updated_at = CURRENT_TIMESTAMP`,
+      [id]
+    );
+    await tx.query(
+      `INSERT INTO cart_items (cart_id, book_isbn, quantity) VALUES ($1, $2, $3)
+       ON CONFLICT (cart_id, book_isbn) DO UPDATE SET quantity = EXCLUDED.quantity`,
+      [id, isbn, quantity]
+    );
+    return findByUser(userId, tx);
+  });
+}
+
+/**
+ * Removes a book from a user's cart.
+ *
+ * @param {string} userId - User's ID
+ * @param {string} isbn - Book's ISBN
+ * @returns {Promise<Object|null>} Updated cart, or null if the user has no cart
+ */
+async function removeItem(userId, isbn) {
+  const id = db.parseId(userId);
+  if (id === null) return null;
+
+  return db.transaction(async tx => {
+    await tx.query('DELETE FROM cart_items WHERE cart_id = $1 AND book_isbn = $2', [id, isbn]);
+    await tx.query('UPDATE carts SET updated_at = CURRENT_TIMESTAMP WHERE user_id = $1', [id]);
+    return findByUser(userId, tx);
+  });
+}
+
+/**
+ * Deletes a user's cart and all of its items.
+ *
+ * @param {string} userId - User's ID
+ * @param {Object} [executor=db] - Transaction executor
+ * @returns {Promise<void>}
+ */
+async function clear(userId, executor = db) {
+  const id = db.parseId(userId);
+  if (id === null) return;
+
+  await executor.query('DELETE FROM cart_items WHERE cart_id = $1', [id]);
+  await executor.query('DELETE FROM carts WHERE user_id = $1', [id]);
+}
+
+module.exports = {
+  emptyCart,
+  findByUser,
+  setItemQuantity,
+  removeItem,
+  clear
+};
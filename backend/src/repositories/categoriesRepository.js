@@ -0,0 +1,173 @@
+/**
+ * @fileoverview Categories Repository
+ *
+ * Data access for the categories table (the category tree) and the
+ * book_categories links.
+ *
+ * @module repositories/categoriesRepository
+ */
+
+const db = require('../db');
+
+/** Category fields that can be updated, mapped to their columns */
+const COLUMNS = {
+  name: 'name',
+  slug: 'slug',
+  parentId: 'parent_id',
+  color: 'color',
+  sortOrder: 'sort_order'
+};
+
+/**
+ * Converts a categories row into the API's category shape.
+ *
+ * @param {Object} row - Row from the categories table
+ * @returns {Object} Category object
+ */
+function toCategory(row) {
+  return {
+    id: String(row.id),
+    name: row.name,
+    slug: row.slug,
+    parentId: row.parent_id === null ? null : String(row.parent_id),
+    color: row.color,
+    sortOrder: row.sort_order
+  };
+}
+
+/**
+ * Lists all categories.
+ *
+ * @returns {Promise<Array<Object>>} Categories ordered by sort order, then name
+ */
+async function findAll() {
+  const { rows } = await db.query('SELECT * FROM categories ORDER BY sort_order, name');
+  return rows.map(toCategory);
+}
+
+/**
+ * Finds a category by ID.
+ *
+ * @param {string} id - Category ID
+ * @returns {Promise<Object|null>} Category or null if not found
+ */
+async function findById(id) {
+  const categoryId = db.parseId(id);
+  if (categoryId === null) return null;
+
+  const { rows } = await db.query('SELECT * FROM categories WHERE id = $1', [categoryId]);
+  return rows[0] ? toCategory(rows[0]) : null;
+}
+
+/**
+ * Finds another category with the same name or slug (both are unique).
+ *
+ * @param {Object} fields
+ * @param {string} [fields.name] - Name to look for (case-insensitive)
+ * @param {string} [fields.slug] - Slug to look for
+ * @param {string} [exceptId] - Category being updated, which may keep its own values
+ * @returns {Promise<Object|null>} The conflicting category, or null
+ */
+async function findConflict({ name, slug }, exceptId) {
+  const { rows } = await db.query(
+    `SELECT * FROM categories
+     WHERE (lower(name) = lower($1) OR slug = $2) AND id <> $3
+     LIMIT 1`,
+    [name ?? null, slug ?? null, db.parseId(exceptId) ?? 0]
+  );
+  return rows[0] ? toCategory(rows[0]) : null;
+}
+
+/**
+ * Lists the slugs that do not name a category.
+ *
+ * @param {string[]} slugs - Slugs sent by a client
+ * @returns {Promise<string[]>} Unknown slugs (empty if all exist)
+ */
+async function findUnknownSlugs(slugs) {
+  const { rows } = await db.query('SELECT slug FROM categories WHERE slug = ANY($1)', [slugs]);
+  const known = new Set(rows.map(row => row.slug));
+  return slugs.filter(slug => !known.has(slug));
+}
+
+/**
+ * Inserts a new category.
+ *
+ * @param {Object} category - Name, slug, parentId, color and sortOrder
+ * @returns {Promise<Object>} Created category
+ */
+async function create(category) {
+  const { rows } = await db.query(
+    `INSERT INTO categories (name, slug, parent_id, color, sort_order)
+     VALUES ($1, $2, $3, $4, $5)
+     RETURNING *`,
+    [category.name, category.slug, db.parseId(category.parentId), category.color, category.sortOrder]
+  );
+  return toCategory(rows[0]);
+}
+
+/**
+ * Applies a partial update to a category.
+ *
+ * @param {string} id - Category ID
+ * @param {Object} changes - Fields to update (unknown fields are ignored)
+ * @returns {Promise<Object|null>} Updated category or null if not found
+ */
+async function update(id, changes) {
+  const categoryId = db.parseId(id);
+  if (categoryId === null) return null;
+
+  const columns = { ...changes };
+  if (columns.parentId !== undefined) columns.parentId = db.parseId(columns.parentId);
+
+  const { clause, values } = db.buildSetClause(COLUMNS, columns, 2);
+  if (!clause) return findById(id);
+
+  const { rows } = await db.query(
+    `UPDATE categories SET ${clause} WHERE id = $1 RETURNING *`,
+    [categoryId, ...values]
+  );
+  return rows[0] ? toCategory(rows[0]) : null;
+}
+
+/**
+ * Counts what still depends on a category.
+ *
+ * @param {string} id - Category ID
+ * @returns {Promise<{ children: number, books: number }>} Subcategories and linked books
+ */
+async function countUsage(id) {
+  const { rows } = await db.query(
+    `SELECT
+       (SELECT COUNT(*)::int FROM categories WHERE parent_id = $1) AS children,
+       (SELECT COUNT(*)::int FROM book_categories WHERE category_id = $1) AS books`,
+    [db.parseId(id)]
+  );
+  return rows[0];
+}
+
+/**
+ * Deletes a category. Callers check countUsage first: the foreign keys
+ * reject deleting a category that still has subcategories or books.
+ *
+ * @param {string} id - Category ID
+ * @returns {Promise<boolean>} True if a category was deleted
+ */
+async function remove(id) {
+  const categoryId = db.parseId(id);
+  if (categoryId === null) return false;
+
+  const { rows } = await db.query('DELETE FROM categories WHERE id = $1 RETURNING id', [categoryId]);
+  return rows.length > 0;
+}
+
+module.exports = {
+  findAll,
+  findById,
+  findConflict,
+  findUnknownSlugs,
+  create,
+  update,
+  countUsage,
+  remove
+};
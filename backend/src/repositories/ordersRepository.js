@@ -0,0 +1,313 @@
+/**
+ * @fileoverview Orders Repository
+ *
+ * Data access for customer orders (orders and order_items tables).
+ *
+ * @module repositories/ordersRepository
+ *
+ * @description
+ * Order Shape:
+ * {
+ *   id: string,          // 'ORD-{timestamp}-{random hex}'
+ *   userId: string,
+ *   items: [{ isbn, title, quantity, price }],  // price at purchase
+ *   totalPrice: number,
+ *   status: string,      // 'pending', 'shipped', 'delivered', 'cancelled'
+ *   createdAt: string    // ISO timestamp
+ * }
+ *
+ * Placing an order counts its books as bought together, and cancelling
+ * it takes that back (recommendationsRepository), in the same transaction.
+ */
+
+const crypto = require('crypto');
+const db = require('../db');
+const { HttpError, ValidationError } = require('../middleware/errors');
+const cartsRepository = require('./cartsRepository');
+const recommendationsRepository = require('./recommendationsRepository');
+const { toSupplierError } = require('./booksRepository');
+
+// ============================================
+// HELPER FUNCTIONS
+// ============================================
+
+/**
+ * Loads the line items for a set of orders and builds order objects.
+ *
+ * @param {Array<Object>} rows - Rows from the orders table
+ * @param {Object} [executor=db] - Transaction executor
+ * @returns {Promise<Array<Object>>} Orders with their items
+ */
+async function withItems(rows, executor = db) {
+  if (rows.length === 0) return [];
+
+  const { rows: itemRows } = await executor.query(
+    `SELECT oi.order_id, oi.book_isbn, oi.quantity, oi.price_at_purchase, b.title, b.format
+     FROM order_items oi
+     LEFT JOIN books b ON b.isbn = oi.book_isbn
+     WHERE oi.order_id = ANY($1)
+     ORDER BY oi.id`,
+    [rows.map(row => row.id)]
+  );
+
+  return rows.map(row => ({
+    id: row.id,
+    userId: String(row.user_id),
+    items: itemRows
+      .filter(item => item.order_id === row.id)
+      .map(item => ({
+        isbn: item.book_isbn,
+        title: item.title,
+        format: item.format,
+        quantity: item.quantity,
+        price: Number(item.price_at_purchase)
+      })),
+    totalPrice: Number(row.total_price),
+    status: row.status,
+    createdAt: new Date(row.created_at).toISOString()
+  }));
+}
+
+/**
+ * Inserts an order and its line items, and counts its books as bought
+ * together.
+ *
+ * @param {Object} executor - Transaction executor
+ * @param {string} userId - Customer's user ID
+ * @param {Array<Object>} items - Line items { isbn, quantity, price }
+ * @param {number} totalPrice - Order total
+ * @returns {Promise<string>} New order ID
+ */
+async function insertOrder(executor, userId, items, totalPrice) {
+  // The random part keeps orders placed in the same millisecond apart
+  const id = `ORD-${Date.now()}-${crypto.randomBytes(4).toString('hex')}`;
+
+  await executor.query(
+    'INSERT INTO orders (id, user_id, status, total_price) VALUES ($1, $2, $3, $4)',
+    [id, db.parseId(userId), 'pending', totalPrice]
+  );
+
+  for (const item of items) {
+    await executor.query(
+      `INSERT INTO order_items (order_id, book_isbn, quantity, price_at_purchase)
+       VALUES ($1, $2, $3, $4)`,
+      [id, item.isbn, item.quantity, item.price]
+    );
+  }
+  await recommendationsRepository.addOrder(items.map(item => item.isbn), executor);
+
+  return id;
+}
+
+// ============================================
+// QUERIES
+// ============================================
+
+/**
+ * Lists all orders.
+ *
+ * @returns {Promise<Array<Object>>} Orders, newest first
+ */
+async function findAll() {
+  const { rows } = await db.query('SELECT * FROM orders ORDER BY created_at DESC');
+  return withItems(rows);
+}
+
+/**
+ * Lists a user's orders.
+ *
+ * @param {string} userId - User's ID
+ * @returns {Promise<Array<Object>>} Orders, newest first
+ */
+async function findByUser(userId) {
+  const id = db.parseId(userId);
+  if (id === null) return [];
+
+  const { rows } = await db.query(
+    'SELECT * FROM orders WHERE user_id = $1 ORDER BY created_at DESC',
+    [id]
+  );
+  return withItems(rows);
+}
+
+/**
+ * Finds an order by ID.
+ *
+ * @param {string} id - Order ID
+ * @param {Object} [executor=db] - Transaction executor
+ * @returns {Promise<Object|null>} Order or null if not found
+ */
+async function findById(id, executor = db) {
+  const { rows } = await executor.query('SELECT * FROM orders WHERE id = $1', [id]);
+  const [order] = await withItems(rows, executor);
+  return order || null;
+}
+
+// ============================================
+// COMMANDS
+// ============================================
+
+/**
+ * Records an order and takes its books from stock, with the checkout's
+ * rules: every book must be for sale and in stock (rows are locked with
+ * SELECT ... FOR UPDATE). Each line is priced at the book's current
+ * selling price, and the total is the sum of the lines. Each book is
+ * listed once (orderCreateSchema rejects repeats).
+ *
+ * @param {Object} order
+ * @param {string} order.userId - Customer's user ID
+ * @param {Array<Object>} order.items - Line items { isbn, quantity }
+ * @returns {Promise<Object>} Created order
+ * @throws {ValidationError} 400 if an item names an unknown book
+ * @throws {HttpError} 409 if a book is archived or has too few copies in
+ *   stock, or drops below its threshold and has no publisher to reorder from
+ */
+async function create({ userId, items }) {
+  try {
+    return await db.transaction(async tx => {
+      const { rows: books } = await tx.query(
+        `SELECT isbn, title, quantity, selling_price, archived_at
+         FROM books WHERE isbn = ANY($1) FOR UPDATE`,
+        [items.map(item => item.isbn)]
+      );
+
+      const unknown = items
+        .map((item, index) => ({ item, index }))
+        .filter(({ item }) => !books.some(book => book.isbn === item.isbn));
+      if (unknown.length > 0) {
+        throw new ValidationError(unknown.map(({ index }) => ({
+          field: `items.${index}.isbn`,
+          message: 'Book not found'
+        })));
+      }
+
+      for (const item of items) {
+        const book = books.find(b => b.isbn === item.isbn);
+        if (book.archived_at) {
+          throw new HttpError(409, `"${book.title}" is no longer for sale`);
+        }
+        if (book.quantity < item.quantity) {
+          throw new HttpError(409, `Not enough stock for "${book.title}". Available: ${book.quantity}`);
+        }
+      }
+
+      const priced = items.map(item => ({
+        ...item,
+        price: Number(books.find(book => book.isbn === item.isbn).selling_price)
+      }));
+      const totalPrice = priced.reduce((sum, item) => sum + item.price * item.quantity, 0);
+
+      const id = await insertOrder(tx, userId, priced, Math.round(totalPrice * 100) / 100);
+
+      // May fire check_stock_threshold, like a checkout
+      for (const item of priced) {
+        await tx.query(
+          'UPDATE books SET quantity = quantity - $2 WHERE isbn = $1',
+          [item.isbn, item.quantity]
+        );
+      }
+      return findById(id, tx);
+    });
+  } catch (err) {
+    throw toSupplierError(err);
+  }
+}
+
+/**
+ * Changes an order's status. Cancelling an order stops its books
+ * counting as bought together; un-cancelling it counts them again.
+ *
+ * @param {string} id - Order ID
+ * @param {string} status - New status
+ * @returns {Promise<Object|null>} Updated order or null if not found
+ */
+async function updateStatus(id, status) {
+  return db.transaction(async tx => {
+    const { rows } = await tx.query('SELECT status FROM orders WHERE id = $1 FOR UPDATE', [id]);
+    if (rows.length === 0) return null;
+
+    await tx.query(
+      'UPDATE orders SET status = $2, updated_at = CURRENT_TIMESTAMP WHERE id = $1',
+      [id, status]
+    );
+
+    const wasCancelled = rows[0].status === 'cancelled';
+    if (wasCancelled !== (status === 'cancelled')) {
+      const { rows: lines } = await tx.query('SELECT book_isbn FROM order_items WHERE order_id = $1', [id]);
+      const isbns = lines.map(line => line.book_isbn);
+      if (wasCancelled) {
+        await recommendationsRepository.addOrder(isbns, tx);
+      } else {
+        await recommendationsRepository.removeOrder(isbns, tx);
+      }
+    }
+    return findById(id, tx);
+  });
+}
+
+/**
+ * Turns a user's cart into an order in one transaction.
+ *
+ * CHECKOUT PROCESS:
+ * 1. Lock the cart's books (SELECT ... FOR UPDATE) and validate stock
+ * 2. Insert the order and its line items at current prices
+ * 3. Deduct quantities from inventory (may fire check_stock_threshold)
+ * 4. Delete the cart
+ *
+ * @param {string} userId - User's ID
+ * @returns {Promise<Object>} Created order
+ * @throws {HttpError} 400 if the cart is empty or stock is insufficient
+ * @throws {HttpError} 409 if a book drops below its threshold and has no
+ *   publisher to reorder from
+ */
+async function createFromCart(userId) {
+  try {
+    return await db.transaction(async tx => {
+      const cart = await cartsRepository.findByUser(userId, tx);
+      if (!cart || cart.items.length === 0) {
+        throw new HttpError(400, 'Cart is empty');
+      }
+
+      const { rows: stock } = await tx.query(
+        'SELECT isbn, quantity FROM books WHERE isbn = ANY($1) FOR UPDATE',
+        [cart.items.map(item => item.book.isbn)]
+      );
+
+      for (const item of cart.items) {
+        const book = stock.find(b => b.isbn === item.book.isbn);
+        if (!book || book.quantity < item.quantity) {
+          throw new HttpError(400,
+            `Not enough stock for "${item.book.title}". Available: ${book ? book.quantity : 0}`);
+        }
+      }
+
+      const items = cart.items.map(item => ({
+        isbn: item.book.isbn,
+        quantity: item.quantity,
+        price: item.book.sellingPrice
+      }));
+      const id = await insertOrder(tx, userId, items, cart.totalPrice);
+
+      for (const item of items) {
+        await tx.query(
+          'UPDATE books SET quantity = quantity - $2 WHERE isbn = $1',
+          [item.isbn, item.quantity]
+        );
+      }
+
+      await cartsRepository.clear(userId, tx);
+      return findById(id, tx);
+    });
+  } catch (err) {
+    throw toSupplierError(err);
+  }
+}
+
+module.exports = {
+  findAll,
+  findByUser,
+  findById,
+  create,
+  updateStatus,
+  createFromCart
+};
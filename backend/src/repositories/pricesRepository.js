@@ -0,0 +1,327 @@
+/**
+ * @fileoverview Prices Repository
+ *
+ * Data access for books' price history (price_changes) and scheduled
+ * prices (price_rules).
+ *
+ * @module repositories/pricesRepository
+ *
+ * @description
+ * Every change of books.selling_price is recorded with recordChange(), in
+ * the same transaction as the change: booksRepository records books being
+ * created, edited and imported, and applyDueRules() records the prices
+ * rules set. Only actual changes are recorded; saving a book with the
+ * price it already has adds nothing.
+ *
+ * A rule's previous_price is taken from the book when the rule starts.
+ * When the rule ends (or an active rule is cancelled) that price is put
+ * back, unless the book's price was changed by hand in the meantime: the
+ * later change wins and the rule just completes.
+ */
+
+const db = require('../db');
+const { HttpError, ValidationError } = require('../middleware/errors');
+
+/** Joins each rule with its book's title and format */
+const SELECT_RULES = `
+  SELECT r.*, b.title, b.format
+  FROM price_rules r
+  JOIN books b ON b.isbn = r.book_isbn`;
+
+/**
+ * Converts a price_changes row (with its previous price) into the API's shape.
+ *
+ * @param {Object} row - Row from historyOf()'s query
+ * @returns {Object} PriceChange object
+ */
+function toPriceChange(row) {
+  return {
+    id: String(row.id),
+    isbn: row.book_isbn,
+    price: Number(row.price),
+    previousPrice: row.previous_price === null ? null : Number(row.previous_price),
+    changedAt: new Date(row.changed_at).toISOString(),
+    source: row.source,
+    ruleId: row.price_rule_id === null ? null : String(row.price_rule_id),
+    ruleLabel: row.rule_label ?? null
+  };
+}
+
+/**
+ * Converts a joined price_rules row into the API's shape.
+ *
+ * @param {Object} row - Row from SELECT_RULES
+ * @returns {Object} PriceRule object
+ */
+function toPriceRule(row) {
+  return {
+    id: String(row.id),
+    isbn: row.book_isbn,
+    title: row.title,
+    format: row.format,
+    price: Number(row.price),
+    label: row.label,
+    startsAt: new Date(row.starts_at).toISOString(),
+    endsAt: row.ends_at ? new Date(row.ends_at).toISOString() : null,
+    status: row.status,
+    previousPrice: row.previous_price === null ? null : Number(row.previous_price)
+  };
+}
+
+// ============================================
+// PRICE HISTORY
+// ============================================
+
+/**
+ * Records a book's new price.
+ *
+ * @param {string} isbn - Book's ISBN
+ * @param {number|string} price - The price the book now has
+ * @param {string} source - 'created', 'manual', 'import' or 'schedule'
+ * @param {Object} executor - Transaction executor
+ * @param {number|null} [ruleId=null] - Rule that set the price
+ * @returns {Promise<void>}
+ */
+async function recordChange(isbn, price, source, executor, ruleId = null) {
+  await executor.query(
+    'INSERT INTO price_changes (book_isbn, price, source, price_rule_id) VALUES ($1, $2, $3, $4)',
+    [isbn, price, source, ruleId]
+  );
+}
+
+/**
+ * Lists a book's prices, oldest first.
+ *
+ * @param {string} isbn - Book's ISBN
+ * @returns {Promise<Array<Object>>} PriceChange records
+ */
+async function historyOf(isbn) {
+  const { rows } = await db.query(
+    `SELECT c.*, r.label AS rule_label,
+            LAG(c.price) OVER (ORDER BY c.changed_at, c.id) AS previous_price
+     FROM price_changes c
+     LEFT JOIN price_rules r ON r.id = c.price_rule_id
+     WHERE c.book_isbn = $1
+     ORDER BY c.changed_at, c.id`,
+    [isbn]
+  );
+  return rows.map(toPriceChange);
+}
+
+/**
+ * Sets a book's price and records the change.
+ *
+ * @param {string} isbn - Book's ISBN
+ * @param {number|string} price - New price
+ * @param {number} ruleId - Rule making the change
+ * @param {Object} executor - Transaction executor
+ * @returns {Promise<void>}
+ */
+async function setScheduledPrice(isbn, price, ruleId, executor) {
+  await executor.query('UPDATE books SET selling_price = $2 WHERE isbn = $1', [isbn, price]);
+  await recordChange(isbn, price, 'schedule', executor, ruleId);
+}
+
+// ============================================
+// PRICE RULES
+// ============================================
+
+/**
+ * Lists price rules, optionally filtered.
+ *
+ * @param {Object} [filter]
+ * @param {string} [filter.isbn] - Rules for this book
+ * @param {string} [filter.status] - Rules with this status
+ * @returns {Promise<Array<Object>>} Rules ordered by start time
+ */
+async function findRules({ isbn, status } = {}) {
+  const conditions = [];
+  const params = [];
+  if (isbn) {
+    params.push(isbn);
+    conditions.push(`r.book_isbn = $${params.length}`);
+  }
+  if (status) {
+    params.push(status);
+    conditions.push(`r.status = $${params.length}`);
+  }
+  const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+
+  const { rows } = await db.query(`${SELECT_RULES} ${where} ORDER BY r.starts_at, r.id`, params);
+  return rows.map(toPriceRule);
+}
+
+/**
+ * Finds a price rule by ID.
+ *
+ * @param {string} id - Rule ID
+ * @param {Object} [executor=db] - Transaction executor, to read inside a transaction
+ * @returns {Promise<Object|null>} Rule or null if not found
+ */
+async function findRuleById(id, executor = db) {
+  const ruleId = db.parseId(id);
+  if (ruleId === null) return null;
+
+  const { rows } = await executor.query(`${SELECT_RULES} WHERE r.id = $1`, [ruleId]);
+  return rows.length > 0 ? toPriceRule(rows[0]) : null;
+}
+
+/**
+ * Schedules a price for a book. A rule without an end counts as the
+ * instant it starts, so a lasting change only clashes with a rule whose
+ * window contains that instant.
+ *
+ * @param {Object} rule - Validated PriceRuleCreateData (isbn in stored form)
+ * @returns {Promise<Object>} Created rule, still 'scheduled'
+ * @throws {ValidationError} If the rule overlaps a scheduled or active
+ *   rule for the same book
+ */
+async function createRule({ isbn, price, label, startsAt, endsAt }) {
+  return db.transaction(async tx => {
+    // Serializes rule creation per book, so two overlapping rules cannot
+    // both pass the check
+    await tx.query('SELECT isbn FROM books WHERE isbn = $1 FOR UPDATE', [isbn]);
+
+    const { rows: clashes } = await tx.query(
+      `SELECT label, starts_at FROM price_rules
+       WHERE book_isbn = $1
+         AND status IN ('scheduled', 'active')
+         AND starts_at < COALESCE($3::timestamptz, $2::timestamptz + interval '1 millisecond')
+         AND COALESCE(ends_at, starts_at + interval '1 millisecond') > $2::timestamptz
+       ORDER BY starts_at
+       LIMIT 1`,
+      [isbn, startsAt, endsAt ?? null]
+    );
+    if (clashes.length > 0) {
+      const clash = clashes[0];
+      const name = clash.label ? `"${clash.label}"` : 'another price rule';
+      throw new ValidationError([{
+        field: 'startsAt',
+        message: `Overlaps ${name} starting ${new Date(clash.starts_at).toISOString()}`
+      }]);
+    }
+
+    const { rows } = await tx.query(
+      `INSERT INTO price_rules (book_isbn, price, label, starts_at, ends_at)
+       VALUES ($1, $2, $3, $4, $5) RETURNING id`,
+      [isbn, price, label ?? null, startsAt, endsAt ?? null]
+    );
+    return findRuleById(String(rows[0].id), tx);
+  });
+}
+
+/**
+ * Puts back the price an active rule replaced, unless the book's price
+ * was changed since the rule set it.
+ *
+ * @param {Object} row - price_rules row of an active rule
+ * @param {Object} executor - Transaction executor
+ * @returns {Promise<void>}
+ */
+async function revertRule(row, executor) {
+  const { rows } = await executor.query(
+    'SELECT selling_price FROM books WHERE isbn = $1 FOR UPDATE',
+    [row.book_isbn]
+  );
+  if (rows.length > 0 && Number(rows[0].selling_price) === Number(row.price)) {
+    await setScheduledPrice(row.book_isbn, row.previous_price, row.id, executor);
+  }
+}
+
+/**
+ * Cancels a scheduled or active rule. An active rule's previous price is
+ * put back (see revertRule).
+ *
+ * @param {string} id - Rule ID
+ * @returns {Promise<Object|null>} Cancelled rule or null if not found
+ * @throws {HttpError} 400 if the rule has already completed or been cancelled
+ */
+async function cancelRule(id) {
+  const ruleId = db.parseId(id);
+  if (ruleId === null) return null;
+
+  return db.transaction(async tx => {
+    const { rows } = await tx.query('SELECT * FROM price_rules WHERE id = $1 FOR UPDATE', [ruleId]);
+    if (rows.length === 0) return null;
+
+    const row = rows[0];
+    if (row.status !== 'scheduled' && row.status !== 'active') {
+      throw new HttpError(400, `Price rule is already ${row.status}`);
+    }
+    if (row.status === 'active') {
+      await revertRule(row, tx);
+    }
+    await tx.query(`UPDATE price_rules SET status = 'cancelled' WHERE id = $1`, [ruleId]);
+    return findRuleById(String(ruleId), tx);
+  });
+}
+
+/**
+ * Starts and ends the rules that are due. Rules ending are handled
+ * first, so a rule that starts as another ends replaces its price rather
+ * than being undone by it. A scheduled rule whose whole window has
+ * already passed (the server was down) completes without being applied.
+ *
+ * Rows are locked with SKIP LOCKED, so several servers sharing a
+ * database apply each rule once.
+ *
+ * @param {Date} [now=new Date()] - Current time
+ * @returns {Promise<{started: number, ended: number}>} Rules applied
+ */
+async function applyDueRules(now = new Date()) {
+  const at = now.toISOString();
+
+  return db.transaction(async tx => {
+    const { rows: ending } = await tx.query(
+      `SELECT * FROM price_rules
+       WHERE status = 'active' AND ends_at <= $1::timestamptz
+       ORDER BY ends_at, id
+       FOR UPDATE SKIP LOCKED`,
+      [at]
+    );
+    for (const row of ending) {
+      await revertRule(row, tx);
+      await tx.query(`UPDATE price_rules SET status = 'completed' WHERE id = $1`, [row.id]);
+    }
+
+    const { rows: starting } = await tx.query(
+      `SELECT * FROM price_rules
+       WHERE status = 'scheduled' AND starts_at <= $1::timestamptz
+       ORDER BY starts_at, id
+       FOR UPDATE SKIP LOCKED`,
+      [at]
+    );
+    let started = 0;
+    for (const row of starting) {
+      if (row.ends_at !== null && new Date(row.ends_at) <= now) {
+        await tx.query(`UPDATE price_rules SET status = 'completed' WHERE id = $1`, [row.id]);
+        continue;
+      }
+
+      const { rows: books } = await tx.query(
+        'SELECT selling_price FROM books WHERE isbn = $1 FOR UPDATE',
+        [row.book_isbn]
+      );
+      await tx.query(
+        'UPDATE price_rules SET status = $2, previous_price = $3 WHERE id = $1',
+        [row.id, row.ends_at === null ? 'completed' : 'active', books[0].selling_price]
+      );
+      if (Number(books[0].selling_price) !== Number(row.price)) {
+        await setScheduledPrice(row.book_isbn, row.price, row.id, tx);
+      }
+      started++;
+    }
+
+    return { started, ended: ending.length };
+  });
+}
+
+module.exports = {
+  recordChange,
+  historyOf,
+  findRules,
+  findRuleById,
+  createRule,
+  cancelRule,
+  applyDueRules
+};
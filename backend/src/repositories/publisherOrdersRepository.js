@@ -0,0 +1,122 @@
+/**
+ * @fileoverview Publisher Orders Repository
+ *
+ * Data access for the publisher_orders table.
+ *
+ * @module repositories/publisherOrdersRepository
+ *
+ * @description
+ * Orders are created here for manual reorders; automatic reorders are
+ * inserted by the check_stock_threshold trigger. Setting the status to
+ * 'Confirmed' fires update_stock_on_confirm, which adds the ordered
+ * quantity to the book's stock.
+ */
+
+const db = require('../db');
+
+/** Joins each order with its book's title and format and the publisher name */
+const SELECT_ORDERS = `
+  SELECT po.id, po.book_isbn, po.quantity, po.status,
+         to_char(po.order_date, 'YYYY-MM-DD') AS order_date,
+         b.title AS book_title,
+         b.format AS book_format,
+         p.name AS publisher_name
+  FROM publisher_orders po
+  LEFT JOIN books b ON b.isbn = po.book_isbn
+  LEFT JOIN publishers p ON p.id = po.publisher_id`;
+
+/**
+ * Converts a joined publisher order row into the API's shape.
+ *
+ * @param {Object} row - Row from SELECT_ORDERS
+ * @returns {Object} Publisher order object
+ */
+function toPublisherOrder(row) {
+  return {
+    id: row.id,
+    bookIsbn: row.book_isbn,
+    bookTitle: row.book_title,
+    bookFormat: row.book_format,
+    publisher: row.publisher_name,
+    quantity: row.quantity,
+    orderDate: row.order_date,
+    status: row.status
+  };
+}
+
+/**
+ * Lists all publisher orders.
+ *
+ * @returns {Promise<Array<Object>>} Orders ordered by ID
+ */
+async function findAll() {
+  const { rows } = await db.query(`${SELECT_ORDERS} ORDER BY po.id`);
+  return rows.map(toPublisherOrder);
+}
+
+/**
+ * Finds a publisher order by ID.
+ *
+ * @param {string} id - Publisher order ID
+ * @returns {Promise<Object|null>} Order or null if not found
+ */
+async function findById(id) {
+  const { rows } = await db.query(`${SELECT_ORDERS} WHERE po.id = $1`, [id]);
+  return rows[0] ? toPublisherOrder(rows[0]) : null;
+}
+
+/**
+ * Places a 'Pending' order for a book with its publisher.
+ *
+ * @param {Object} book - Book being reordered (its publisherId is the supplier)
+ * @param {number} quantity - Number of copies to order
+ * @returns {Promise<Object>} Created order
+ */
+async function create(book, quantity) {
+  const id = `PO-${Date.now()}-${book.isbn}`;
+
+  await db.query(
+    `INSERT INTO publisher_orders (id, book_isbn, publisher_id, quantity, status)
+     VALUES ($1, $2, $3, $4, 'Pending')`,
+    [id, book.isbn, db.parseId(book.publisherId), quantity]
+  );
+
+  return findById(id);
+}
+
+/**
+ * Changes an order's status.
+ *
+ * @param {string} id - Publisher order ID
+ * @param {string} status - 'Pending', 'Confirmed' or 'Cancelled'
+ * @returns {Promise<Object|null>} Updated order or null if not found
+ */
+async function updateStatus(id, status) {
+  const { rows } = await db.query(
+    'UPDATE publisher_orders SET status = $2 WHERE id = $1 RETURNING id',
+    [id, status]
+  );
+  return rows[0] ? findById(id) : null;
+}
+
+/**
+ * Counts the publisher orders placed for a book.
+ *
+ * @param {string} isbn - Book's ISBN
+ * @returns {Promise<number>} Number of orders
+ */
+async function countByBook(isbn) {
+  const { rows } = await db.query(
+    'SELECT COUNT(*)::int AS count FROM publisher_orders WHERE book_isbn = $1',
+    [isbn]
+  );
+  return rows[0].count;
+}
+
+module.exports = {
+  findAll,
+  findById,
+  create,
+  updateStatus,
+  countByBook
+};
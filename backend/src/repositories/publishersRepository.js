@@ -0,0 +1,184 @@
+/**
+ * @fileoverview Publishers Repository
+ *
+ * Data access for the publishers table.
+ *
+ * @module repositories/publishersRepository
+ *
+ * @description
+ * Publishers are the suppliers books are reordered from: each book
+ * references one (books.publisher_id), and publisher orders are placed
+ * with the book's publisher, at least its minimum order.
+ */
+
+const db = require('../db');
+
+/** Publisher fields that can be updated, mapped to their columns */
+const COLUMNS = {
+  name: 'name',
+  email: 'email',
+  address: 'address',
+  phone: 'phone',
+  leadTimeDays: 'lead_time_days',
+  minimumOrder: 'minimum_order'
+};
+
+/** Select list of a publisher with its book count */
+const PUBLISHER_COLUMNS = `p.*,
+  (SELECT COUNT(*)::int FROM books b WHERE b.publisher_id = p.id) AS book_count`;
+
+/**
+ * Converts a publishers row into the API's publisher shape.
+ *
+ * @param {Object} row - Row from the publishers table (with book_count)
+ * @returns {Object} Publisher object
+ */
+function toPublisher(row) {
+  return {
+    id: String(row.id),
+    name: row.name,
+    email: row.email ?? null,
+    address: row.address ?? null,
+    phone: row.phone ?? null,
+    leadTimeDays: row.lead_time_days,
+    minimumOrder: row.minimum_order,
+    bookCount: row.book_count ?? 0
+  };
+}
+
+/**
+ * Lists all publishers.
+ *
+ * @returns {Promise<Array<Object>>} Publishers ordered by name
+ */
+async function findAll() {
+  const { rows } = await db.query(`SELECT ${PUBLISHER_COLUMNS} FROM publishers p ORDER BY lower(p.name)`);
+  return rows.map(toPublisher);
+}
+
+/**
+ * Finds a publisher by ID.
+ *
+ * @param {string} id - Publisher ID
+ * @returns {Promise<Object|null>} Publisher or null if not found
+ */
+async function findById(id) {
+  const publisherId = db.parseId(id);
+  if (publisherId === null) return null;
+
+  const { rows } = await db.query(`SELECT ${PUBLISHER_COLUMNS} FROM publishers p WHERE p.id = $1`, [publisherId]);
+  return rows[0] ? toPublisher(rows[0]) : null;
+}
+
+/**
+ * Looks up publishers by name, ignoring case (as catalog imports name
+ * them).
+ *
+ * @param {string[]} names - Publisher names
+ * @returns {Promise<Map<string, string>>} Publisher IDs keyed by lower-case
+ *   name; unknown names are missing
+ */
+async function findIdsByName(names) {
+  const { rows } = await db.query(
+    'SELECT id, name FROM publishers WHERE lower(name) = ANY($1)',
+    [names.map(name => name.toLowerCase())]
+  );
+  return new Map(rows.map(row => [row.name.toLowerCase(), String(row.id)]));
+}
+
+/**
+ * Finds another publisher with the same name (names are unique,
+ * ignoring case).
+ *
+ * @param {string} name - Name to look for
+ * @param {string} [exceptId] - Publisher being updated, which may keep its own name
+ * @returns {Promise<Object|null>} The conflicting publisher, or null
+ */
+async function findConflict(name, exceptId) {
+  const { rows } = await db.query(
+    `SELECT ${PUBLISHER_COLUMNS} FROM publishers p
+     WHERE lower(p.name) = lower($1) AND p.id <> $2
+     LIMIT 1`,
+    [name, db.parseId(exceptId) ?? 0]
+  );
+  return rows[0] ? toPublisher(rows[0]) : null;
+}
+
+/**
+ * Inserts a new publisher.
+ *
+ * @param {Object} publisher - Name, contact details and ordering terms
+ * @returns {Promise<Object>} Created publisher
+ */
+async function create(publisher) {
+  const { rows } = await db.query(
+    `INSERT INTO publishers (name, email, address, phone, lead_time_days, minimum_order)
+     VALUES ($1, $2, $3, $4, $5, $6)
+     RETURNING id`,
+    [
+      publisher.name, publisher.email, publisher.address, publisher.phone,
+      publisher.leadTimeDays, publisher.minimumOrder
+    ]
+  );
+  return findById(String(rows[0].id));
+}
+
+/**
+ * Applies a partial update to a publisher.
+ *
+ * @param {string} id - Publisher ID
+ * @param {Object} changes - Fields to update (unknown fields are ignored)
+ * @returns {Promise<Object|null>} Updated publisher or null if not found
+ */
+async function update(id, changes) {
+  const publisherId = db.parseId(id);
+  if (publisherId === null) return null;
+
+  const { clause, values } = db.buildSetClause(COLUMNS, changes, 2);
+  if (clause) {
+    await db.query(`UPDATE publishers SET ${clause} WHERE id = $1`, [publisherId, ...values]);
+  }
+  return findById(id);
+}
+
+/**
+ * Counts what still references a publisher.
+ *
+ * @param {string} id - Publisher ID
+ * @returns {Promise<{ books: number, orders: number }>} Books it supplies and orders placed with it
+ */
+async function countUsage(id) {
+  const { rows } = await db.query(
+    `SELECT
+       (SELECT COUNT(*)::int FROM books WHERE publisher_id = $1) AS books,
+       (SELECT COUNT(*)::int FROM publisher_orders WHERE publisher_id = $1) AS orders`,
+    [db.parseId(id)]
+  );
+  return rows[0];
+}
+
+/**
+ * Deletes a publisher. Callers check countUsage first: the foreign keys
+ * reject deleting a publisher that books or orders still reference.
+ *
+ * @param {string} id - Publisher ID
+ * @returns {Promise<boolean>} True if a publisher was deleted
+ */
+async function remove(id) {
+  const publisherId = db.parseId(id);
+  if (publisherId === null) return false;
+
+  const { rows } = await db.query('DELETE FROM publishers WHERE id = $1 RETURNING id', [publisherId]);
+  return rows.length > 0;
+}
+
+module.exports = {
+  findAll,
+  findById,
+  findIdsByName,
+  findConflict,
+  create,
+  update,
+  countUsage,
+  remove
+};
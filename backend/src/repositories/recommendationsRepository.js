@@ -0,0 +1,140 @@
+/**
+ * @fileoverview Recommendations Repository
+ *
+ * Data access for book-to-book co-purchase counts (book_affinity) and the
+ * recommendations built from them.
+ *
+ * @module repositories/recommendationsRepository
+ *
+ * @description
+ * ordersRepository calls addOrder() in the transaction that places an
+ * order and removeOrder() in the one that cancels it, so the counts always
+ * match the orders that are not cancelled.
+ *
+ * forBooks() ranks candidates in one query: books bought with the given
+ * books first, then books by the same authors, then books in the same
+ * categories (see the bookstore-shared recommendations module for the
+ * rules). The fallbacks only fill the places co-purchases leave, so a
+ * new store still gets a full list.
+ */
+
+const db = require('../db');
+const { toBook, PUBLISHER_COLUMN, AUTHORS_COLUMN, CATEGORIES_COLUMN, TAGS_COLUMN } = require('./booksRepository');
+
+/** Distinct ISBNs of an order ($1), paired with each other */
+const ORDER_PAIRS = `
+  WITH lines AS (SELECT DISTINCT unnest($1::varchar[]) AS isbn)
+  SELECT a.isbn AS book_isbn, b.isbn AS related_isbn
+  FROM lines a JOIN lines b ON b.isbn <> a.isbn`;
+
+// ============================================
+// AFFINITY
+// ============================================
+
+/**
+ * Counts an order's books as bought together.
+ *
+ * @param {string[]} isbns - ISBNs of the order's lines
+ * @param {Object} executor - Transaction executor
+ * @returns {Promise<void>}
+ */
+async function addOrder(isbns, executor) {
+  await executor.query(
+    `INSERT INTO book_affinity (book_isbn, related_isbn, orders)
+     SELECT book_isbn, related_isbn, 1 FROM (${ORDER_PAIRS}) pairs
+     ON CONFLICT (book_isbn, related_isbn) DO UPDATE SET orders = book_affinity.orders + 1`,
+    [isbns]
+  );
+}
+
+/**
+ * Takes back what addOrder() counted for an order, deleting pairs no
+ * other order has.
+ *
+ * @param {string[]} isbns - ISBNs of the order's lines
+ * @param {Object} executor - Transaction executor
+ * @returns {Promise<void>}
+ */
+async function removeOrder(isbns, executor) {
+  await executor.query(
+    `DELETE FROM book_affinity
+     WHERE orders <= 1 AND (book_isbn, related_isbn) IN (${ORDER_PAIRS})`,
+    [isbns]
+  );
+  await executor.query(
+    `UPDATE book_affinity SET orders = orders - 1
+     WHERE (book_isbn, related_isbn) IN (${ORDER_PAIRS})`,
+    [isbns]
+  );
+}
+
+// ============================================
+// RECOMMENDATIONS
+// ============================================
+
+/**
+ * Recommends books to go with some books: for a book's page, or for the
+ * books in a cart. The books' other editions count as the books, and none
+ * of their works is recommended.
+ *
+ * @param {string[]} isbns - ISBNs of the books (stored form)
+ * @param {number} limit - Most recommendations to return
+ * @returns {Promise<Array<{book: Object, reason: string, score: number}>>}
+ *   Recommendations, best first; one edition per work, none archived
+ */
+async function forBooks(isbns, limit) {
+  if (isbns.length === 0) return [];
+
+  const { rows } = await db.query(
+    `WITH source AS (
+       SELECT isbn, work_id FROM books
+       WHERE work_id IN (SELECT work_id FROM books WHERE isbn = ANY($1))
+     ),
+     candidates AS (
+       SELECT a.related_isbn AS isbn, 'bought-together' AS reason, 1 AS rank, SUM(a.orders) AS score
+       FROM book_affinity a
+       WHERE a.book_isbn IN (SELECT isbn FROM source)
+       GROUP BY a.related_isbn
+       UNION ALL
+       SELECT other.book_isbn, 'same-author', 2, COUNT(DISTINCT other.author_id)
+       FROM book_authors ba
+       JOIN book_authors other ON other.author_id = ba.author_id
+       WHERE ba.book_isbn IN (SELECT isbn FROM source)
+       GROUP BY other.book_isbn
+       UNION ALL
+       SELECT other.book_isbn, 'same-category', 3, COUNT(DISTINCT other.category_id)
+       FROM book_categories bc
+       JOIN book_categories other ON other.category_id = bc.category_id
+       WHERE bc.book_isbn IN (SELECT isbn FROM source)
+       GROUP BY other.book_isbn
+     ),
+     -- Each work once, as its best-placed edition (in stock preferred)
+     best AS (
+       SELECT DISTINCT ON (b.work_id) c.isbn, c.reason, c.rank, c.score
+       FROM candidates c
+       JOIN books b ON b.isbn = c.isbn
+       WHERE b.archived_at IS NULL
+         AND b.work_id NOT IN (SELECT work_id FROM source)
+       ORDER BY b.work_id, c.rank, c.score DESC, b.quantity > 0 DESC, b.isbn
+     )
+     SELECT best.reason, best.score AS recommendation_score,
+            b.*, ${PUBLISHER_COLUMN}, ${AUTHORS_COLUMN}, ${CATEGORIES_COLUMN}, ${TAGS_COLUMN}
+     FROM best
+     JOIN books b ON b.isbn = best.isbn
+     ORDER BY best.rank, best.score DESC, b.quantity > 0 DESC, b.publication_year DESC, b.title
+     LIMIT $2`,
+    [isbns, limit]
+  );
+
+  return rows.map(row => ({
+    book: toBook(row),
+    reason: row.reason,
+    score: Number(row.recommendation_score)
+  }));
+}
+
+module.exports = {
+  addOrder,
+  removeOrder,
+  forBooks
+};
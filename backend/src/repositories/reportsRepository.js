@@ -0,0 +1,174 @@
+/**
+ * @fileoverview Reports Repository
+ *
+ * Sales aggregates computed from order_items joined with orders.
+ * Cancelled orders are excluded. Every line item counts as one sale.
+ * Sales per price also read the books' price history (price_changes).
+ *
+ * @module repositories/reportsRepository
+ */
+
+const db = require('../db');
+
+/**
+ * Totals sales between two dates (inclusive).
+ *
+ * @param {string} from - Start date (YYYY-MM-DD)
+ * @param {string} to - End date (YYYY-MM-DD)
+ * @returns {Promise<{totalSales: number, totalOrders: number}>} Sales totals
+ */
+async function salesBetween(from, to) {
+  const { rows } = await db.query(
+    `SELECT COALESCE(SUM(oi.quantity * oi.price_at_purchase), 0) AS total_sales,
+            COUNT(*)::int AS total_orders
+     FROM order_items oi
+     JOIN orders o ON o.id = oi.order_id
+     WHERE o.status <> 'cancelled'
+       AND o.created_at::date BETWEEN $1::date AND $2::date`,
+    [from, to]
+  );
+  return {
+    totalSales: Number(rows[0].total_sales),
+    totalOrders: rows[0].total_orders
+  };
+}
+
+/**
+ * Highest-spending customers since a date.
+ *
+ * @param {string} since - Start date (YYYY-MM-DD)
+ * @param {number} limit - Maximum number of customers
+ * @returns {Promise<Array<Object>>} TopCustomer records, highest spender first
+ */
+async function topCustomers(since, limit) {
+  const { rows } = await db.query(
+    `SELECT u.id, u.first_name, u.last_name, u.email,
+            SUM(oi.quantity * oi.price_at_purchase) AS amount,
+            COUNT(*)::int AS order_count
+     FROM order_items oi
+     JOIN orders o ON o.id = oi.order_id
+     JOIN users u ON u.id = o.user_id
+     WHERE o.status <> 'cancelled'
+       AND o.created_at::date >= $1::date
+     GROUP BY u.id, u.first_name, u.last_name, u.email
+     ORDER BY amount DESC
+     LIMIT $2`,
+    [since, limit]
+  );
+  return rows.map(row => ({
+    customerId: String(row.id),
+    customerName: `${row.first_name} ${row.last_name}`,
+    email: row.email,
+    totalPurchaseAmount: Number(row.amount),
+    orderCount: row.order_count
+  }));
+}
+
+/**
+ * Best-selling books by copies sold since a date. Each edition (ISBN) is
+ * ranked on its own.
+ *
+ * @param {string} since - Start date (YYYY-MM-DD)
+ * @param {number} limit - Maximum number of books
+ * @returns {Promise<Array<Object>>} BookSalesReport records, best seller first
+ */
+async function topSellingBooks(since, limit) {
+  const { rows } = await db.query(
+    `SELECT oi.book_isbn, MAX(b.title) AS title, MAX(b.format) AS format,
+            SUM(oi.quantity)::int AS copies,
+            SUM(oi.quantity * oi.price_at_purchase) AS revenue
+     FROM order_items oi
+     JOIN orders o ON o.id = oi.order_id
+     LEFT JOIN books b ON b.isbn = oi.book_isbn
+     WHERE o.status <> 'cancelled'
+       AND o.created_at::date >= $1::date
+     GROUP BY oi.book_isbn
+     ORDER BY copies DESC
+     LIMIT $2`,
+    [since, limit]
+  );
+  return rows.map(row => ({
+    isbn: row.book_isbn,
+    title: row.title || 'Unknown',
+    format: row.format,
+    copiesSold: row.copies,
+    totalRevenue: Number(row.revenue)
+  }));
+}
+
+/**
+ * Sales of each book at each price it had between two dates (inclusive),
+ * for the books whose price changed in that range. A book's periods run
+ * from one price change to the next, cut to the range and to the present;
+ * an order counts in the period it was placed in.
+ *
+ * @param {string} from - Start date (YYYY-MM-DD)
+ * @param {string} to - End date (YYYY-MM-DD)
+ * @returns {Promise<Array<Object>>} PricePeriodReport records ordered by title
+ */
+async function pricePeriods(from, to) {
+  const { rows } = await db.query(
+    `WITH changes AS (
+       SELECT book_isbn, price, changed_at,
+              LEAD(changed_at) OVER (PARTITION BY book_isbn ORDER BY changed_at, id) AS next_at
+       FROM price_changes
+     ),
+     periods AS (
+       SELECT book_isbn, price,
+              GREATEST(changed_at, $1::date::timestamptz) AS period_from,
+              LEAST(COALESCE(next_at, 'infinity'), ($2::date + 1)::timestamptz, CURRENT_TIMESTAMP) AS period_to
+       FROM changes
+       WHERE changed_at < ($2::date + 1)::timestamptz
+         AND COALESCE(next_at, 'infinity') > $1::date::timestamptz
+     ),
+     counted AS (
+       SELECT *, COUNT(*) OVER (PARTITION BY book_isbn) AS period_count
+       FROM periods
+       WHERE period_to > period_from
+     )
+     SELECT p.book_isbn, b.title, b.format, p.price, p.period_from, p.period_to,
+            COALESCE(s.copies, 0)::int AS copies,
+            COALESCE(s.revenue, 0) AS revenue
+     FROM counted p
+     JOIN books b ON b.isbn = p.book_isbn
+     LEFT JOIN LATERAL (
+       SELECT SUM(oi.quantity) AS copies, SUM(oi.quantity * oi.price_at_purchase) AS revenue
+       FROM order_items oi
+       JOIN orders o ON o.id = oi.order_id
+       WHERE oi.book_isbn = p.book_isbn
+         AND o.status <> 'cancelled'
+         AND o.created_at >= p.period_from
+         AND o.created_at < p.period_to
+     ) s ON true
+     WHERE p.period_count > 1
+     ORDER BY b.title, p.book_isbn, p.period_from`,
+    [from, to]
+  );
+
+  const reports = new Map();
+  for (const row of rows) {
+    let report = reports.get(row.book_isbn);
+    if (!report) {
+      report = { isbn: row.book_isbn, title: row.title, format: row.format, periods: [] };
+      reports.set(row.book_isbn, report);
+    }
+    const periodFrom = new Date(row.period_from);
+    const periodTo = new Date(row.period_to);
+    report.periods.push({
+      price: Number(row.price),
+      from: periodFrom.toISOString(),
+      to: periodTo.toISOString(),
+      days: Math.round((periodTo - periodFrom) / 864000) / 100,
+      copiesSold: row.copies,
+      revenue: Number(row.revenue)
+    });
+  }
+  return [...reports.values()];
+}
+
+module.exports = {
+  salesBetween,
+  topCustomers,
+  topSellingBooks,
+  pricePeriods
+};
@@ -0,0 +1,405 @@
+/**
+ * @fileoverview Search Repository
+ *
+ * The storefront's catalog search: a page of works matching the shopper's
+ * filters, and how many works each value of each facet would find; and
+ * the suggestions shown under the search box while the shopper types.
+ *
+ * @module repositories/searchRepository
+ *
+ * @description
+ * Filters become SQL through booksRepository.bookConditions(), the same
+ * conditions GET /api/books uses. A facet is counted with every filter
+ * but its own (see the bookstore-shared catalogSearch module), so each
+ * facet builds its own conditions and parameters and runs its own query.
+ * All counts are of distinct works, never of editions.
+ *
+ * Relevance is PostgreSQL's ts_rank of each book's search document, with
+ * the field weights of the textSearch module, against the search's
+ * typo-tolerant query plus its exact words, so exact matches rank above
+ * typo matches.
+ *
+ * suggest() matches books like the search's text, and authors and
+ * categories by name (case-insensitive substring, names starting with the
+ * text first), leaving out authors with nothing for sale.
+ */
+
+const db = require('../db');
+const {
+  BOOK_FORMATS,
+  PRICE_BUCKETS,
+  DEFAULT_PAGE_SIZE,
+  DEFAULT_SUGGESTIONS,
+  FIELD_WEIGHTS,
+  normalizeIsbn,
+  decadeLabel
+} = require('bookstore-shared');
+const {
+  toBook,
+  textQuery,
+  bookConditions,
+  PUBLISHER_COLUMN,
+  AUTHORS_COLUMN,
+  CATEGORIES_COLUMN,
+  TAGS_COLUMN
+} = require('./booksRepository');
+
+/**
+ * How each sort orders works (by an aggregate over their matching
+ * editions, aliased as b, each with its relevance in m) and the editions
+ * within a work.
+ */
+const SORTS = {
+  relevance: { works: 'MAX(m.relevance) DESC', editions: 'm.relevance DESC' },
+  title: { works: 'MIN(b.title)', editions: null },
+  'price-asc': { works: 'MIN(b.selling_price)', editions: 'b.selling_price' },
+  'price-desc': { works: 'MAX(b.selling_price) DESC', editions: 'b.selling_price DESC' },
+  year: { works: 'MAX(b.publication_year) DESC', editions: 'b.publication_year DESC' }
+};
+
+/** Price bucket of a book (aliased as b), as SQL */
+const PRICE_BUCKET_COLUMN = `CASE ${PRICE_BUCKETS
+  .filter(bucket => bucket.max !== null)
+  .map(bucket => `WHEN b.selling_price < ${bucket.max} THEN '${bucket.value}'`)
+  .join(' ')} ELSE '${PRICE_BUCKETS[PRICE_BUCKETS.length - 1].value}' END`;
+
+/** ts_rank weights of the search document's D, C, B and A fields (migration 013) */
+const RANK_WEIGHTS = [0, FIELD_WEIGHTS.publisher, FIELD_WEIGHTS.authors, FIELD_WEIGHTS.title];
+
+/**
+ * Relevance of a book (aliased as b) to search text, or 0 for books the
+ * text's words do not find (found by ISBN digits).
+ *
+ * @param {string} [text] - Search text
+ * @param {Array} params - Query parameters, added to
+ * @returns {string} SQL expression; 0 for every book without text or for
+ *   a complete ISBN
+ */
+function relevance(text, params) {
+  if (!text || normalizeIsbn(text)) return '0';
+  const query = textQuery(text, params);
+  params.push(text);
+  const exactWords = `plainto_tsquery('english', $${params.length})`;
+  params.push(RANK_WEIGHTS);
+  const weights = `$${params.length}::real[]`;
+  return `COALESCE((
+    SELECT ts_rank(${weights}, s.document, ${query})
+         + ts_rank(${weights}, s.document, ${exactWords})
+    FROM book_search s WHERE s.isbn = b.isbn), 0)`;
+}
+
+/**
+ * Conditions for the search's filters, minus one facet's own.
+ *
+ * @param {Object} query - Validated search query
+ * @param {string|null} facet - Filter to leave out, or null for all
+ * @param {Array} params - Query parameters, added to
+ * @returns {string} SQL condition on books aliased as b
+ */
+function matching(query, facet, params) {
+  const filter = facet ? { ...query, [facet]: undefined } : query;
+  return bookConditions(filter, params).join(' AND ');
+}
+
+// ============================================
+// FACETS
+// ============================================
+
+/**
+ * Works per category, counting books in its subcategories. Every
+ * category is listed, in display order.
+ *
+ * @param {Object} query - Validated search query
+ * @returns {Promise<Array<{value: string, label: string, count: number}>>}
+ */
+async function categoryCounts(query) {
+  const params = [];
+  const { rows } = await db.query(
+    `WITH RECURSIVE subtree(root_id, id) AS (
+       SELECT id, id FROM categories
+       UNION ALL
+       SELECT s.root_id, c.id FROM categories c JOIN subtree s ON c.parent_id = s.id
+     )
+     SELECT c.slug AS value, c.name AS label, COUNT(DISTINCT b.work_id) AS count
+     FROM categories c
+     JOIN subtree s ON s.root_id = c.id
+     LEFT JOIN book_categories bc ON bc.category_id = s.id
+     LEFT JOIN books b ON b.isbn = bc.book_isbn AND ${matching(query, 'category', params)}
+     GROUP BY c.id
+     ORDER BY c.sort_order, c.name`,
+    params
+  );
+  return rows.map(row => ({ ...row, count: Number(row.count) }));
+}
+
+/**
+ * Works per author or publisher, listing those with books for sale, by
+ * name.
+ *
+ * @param {Object} query - Validated search query
+ * @param {'authorId'|'publisherId'} facet - Facet to count
+ * @returns {Promise<Array<{value: string, label: string, count: number}>>}
+ */
+async function nameCounts(query, facet) {
+  const params = [];
+  const where = matching(query, facet, params);
+  const source = facet === 'authorId'
+    ? `authors n
+       JOIN book_authors ba ON ba.author_id = n.id
+       JOIN books b ON b.isbn = ba.book_isbn`
+    : `publishers n
+       JOIN books b ON b.publisher_id = n.id`;
+  const { rows } = await db.query(
+    `SELECT n.id::text AS value, n.name AS label,
+            COUNT(DISTINCT b.work_id) FILTER (WHERE ${where}) AS count
+     FROM ${source}
+     WHERE b.archived_at IS NULL
+     GROUP BY n.id
+     ORDER BY n.name`,
+    params
+  );
+  return rows.map(row => ({ ...row, count: Number(row.count) }));
+}
+
+/**
+ * Works per decade of publication, newest first, listing decades with
+ * books for sale.
+ *
+ * @param {Object} query - Validated search query
+ * @returns {Promise<Array<{value: string, label: string, count: number}>>}
+ */
+async function decadeCounts(query) {
+  const params = [];
+  const { rows } = await db.query(
+    `SELECT b.publication_year / 10 * 10 AS decade,
+            COUNT(DISTINCT b.work_id) FILTER (WHERE ${matching(query, 'decade', params)}) AS count
+     FROM books b
+     WHERE b.archived_at IS NULL
+     GROUP BY decade
+     ORDER BY decade DESC`,
+    params
+  );
+  return rows.map(row => ({
+    value: String(row.decade),
+    label: decadeLabel(String(row.decade)),
+    count: Number(row.count)
+  }));
+}
+
+/**
+ * Works per price bucket, every bucket listed, cheapest first.
+ *
+ * @param {Object} query - Validated search query
+ * @returns {Promise<Array<{value: string, label: string, count: number}>>}
+ */
+async function priceCounts(query) {
+  const params = [];
+  const { rows } = await db.query(
+    `SELECT ${PRICE_BUCKET_COLUMN} AS value, COUNT(DISTINCT b.work_id) AS count
+     FROM books b
+     WHERE ${matching(query, 'price', params)}
+     GROUP BY value`,
+    params
+  );
+  const counts = new Map(rows.map(row => [row.value, Number(row.count)]));
+  return PRICE_BUCKETS.map(({ value, label }) => ({ value, label, count: counts.get(value) ?? 0 }));
+}
+
+/**
+ * Works with an edition in stock.
+ *
+ * @param {Object} query - Validated search query
+ * @returns {Promise<Array<{value: string, label: string, count: number}>>}
+ */
+async function inStockCounts(query) {
+  const params = [];
+  const { rows } = await db.query(
+    `SELECT COUNT(DISTINCT b.work_id) AS count
+     FROM books b
+     WHERE ${matching(query, 'inStock', params)} AND b.quantity > 0`,
+    params
+  );
+  return [{ value: 'true', label: 'In stock', count: Number(rows[0].count) }];
+}
+
+/**
+ * Works per tag, listing tags of books for sale, alphabetically.
+ *
+ * @param {Object} query - Validated search query
+ * @returns {Promise<Array<{value: string, label: string, count: number}>>}
+ */
+async function tagCounts(query) {
+  const params = [];
+  const { rows } = await db.query(
+    `SELECT bt.tag AS value, bt.tag AS label,
+            COUNT(DISTINCT b.work_id) FILTER (WHERE ${matching(query, 'tag', params)}) AS count
+     FROM book_tags bt
+     JOIN books b ON b.isbn = bt.book_isbn
+     WHERE b.archived_at IS NULL
+     GROUP BY bt.tag
+     ORDER BY bt.tag`,
+    params
+  );
+  return rows.map(row => ({ ...row, count: Number(row.count) }));
+}
+
+// ============================================
+// SEARCH
+// ============================================
+
+/**
+ * Searches the catalog.
+ *
+ * @param {Object} query - Query validated by catalogSearchQuerySchema
+ *   (filters as for booksRepository.bookConditions, plus sort, page and
+ *   pageSize). Relevance sorts by title when there is no search text, or
+ *   it is a complete ISBN
+ * @returns {Promise<Object>} { books, total, page, pageSize, facets }: the
+ *   page's works as their matching editions, the number of works found,
+ *   and the counts of each facet
+ */
+async function search({ sort = 'relevance', page = 1, pageSize = DEFAULT_PAGE_SIZE, ...filter }) {
+  const order = SORTS[sort];
+
+  const params = [];
+  const where = matching(filter, null, params);
+  const countParams = [...params];
+  const rank = relevance(filter.q, params);
+  params.push(pageSize, (page - 1) * pageSize, BOOK_FORMATS);
+  const [limit, offset, formats] = [params.length - 2, params.length - 1, params.length];
+
+  const [results, totals, category, authorId, publisherId, decade, price, inStock, tag] = await Promise.all([
+    db.query(
+      `WITH matches AS (SELECT b.isbn, ${rank} AS relevance FROM books b WHERE ${where}),
+       works AS (
+         SELECT b.work_id, ROW_NUMBER() OVER (ORDER BY ${order.works}, MIN(b.title), b.work_id) AS position
+         FROM books b
+         JOIN matches m ON m.isbn = b.isbn
+         GROUP BY b.work_id
+         ORDER BY position
+         LIMIT $${limit} OFFSET $${offset}
+       )
+       SELECT b.*, ${PUBLISHER_COLUMN}, ${AUTHORS_COLUMN}, ${CATEGORIES_COLUMN}, ${TAGS_COLUMN}
+       FROM works
+       JOIN books b ON b.work_id = works.work_id
+       JOIN matches m ON m.isbn = b.isbn
+       ORDER BY works.position, ${order.editions ? `${order.editions}, ` : ''}array_position($${formats}::varchar[], b.format), b.isbn`,
+      params
+    ),
+    db.query(`SELECT COUNT(DISTINCT b.work_id) AS total FROM books b WHERE ${where}`, countParams),
+    categoryCounts(filter),
+    nameCounts(filter, 'authorId'),
+    nameCounts(filter, 'publisherId'),
+    decadeCounts(filter),
+    priceCounts(filter),
+    inStockCounts(filter),
+    tagCounts(filter)
+  ]);
+
+  return {
+    books: results.rows.map(toBook),
+    total: Number(totals.rows[0].total),
+    page,
+    pageSize,
+    facets: { category, authorId, publisherId, decade, price, inStock, tag }
+  };
+}
+
+// ============================================
+// SUGGESTIONS
+// ============================================
+
+/**
+ * Books for sale matching search text, most relevant first, one edition
+ * per work (the most relevant, then in format order).
+ *
+ * @param {string} q - Search text
+ * @param {number} limit - Most books to return
+ * @returns {Promise<Array<{isbn: string, title: string, authors: Array, imageUrl?: string}>>}
+ */
+async function suggestBooks(q, limit) {
+  const params = [];
+  const where = matching({ q }, null, params);
+  const rank = relevance(q, params);
+  params.push(BOOK_FORMATS, limit);
+  const { rows } = await db.query(
+    `SELECT * FROM (
+       SELECT DISTINCT ON (b.work_id) b.isbn, b.title, b.image_url, ${rank} AS relevance, ${AUTHORS_COLUMN}
+       FROM books b
+       WHERE ${where}
+       ORDER BY b.work_id, relevance DESC, array_position($${params.length - 1}::varchar[], b.format)
+     ) best
+     ORDER BY relevance DESC, title, isbn
+     LIMIT $${params.length}`,
+    params
+  );
+  return rows.map(row => {
+    const { isbn, title, authors, imageUrl } = toBook(row);
+    return { isbn, title, authors, imageUrl };
+  });
+}
+
+/**
+ * Authors with books for sale whose name or an alias contains the text.
+ *
+ * @param {string} q - Search text
+ * @param {number} limit - Most authors to return
+ * @returns {Promise<Array<{id: string, name: string}>>}
+ */
+async function suggestAuthors(q, limit) {
+  const { rows } = await db.query(
+    `SELECT a.id::text AS id, a.name
+     FROM authors a
+     WHERE (a.name ILIKE $1 OR EXISTS (SELECT 1 FROM unnest(a.aliases) alias WHERE alias ILIKE $1))
+       AND EXISTS (
+         SELECT 1 FROM book_authors ba
+         JOIN books b ON b.isbn = ba.book_isbn
+         WHERE ba.author_id = a.id AND b.archived_at IS NULL
+       )
+     ORDER BY a.name ILIKE $2 DESC, a.name
+     LIMIT $3`,
+    [`%${q}%`, `${q}%`, limit]
+  );
+  return rows;
+}
+
+/**
+ * Categories whose name contains the text.
+ *
+ * @param {string} q - Search text
+ * @param {number} limit - Most categories to return
+ * @returns {Promise<Array<{id: string, name: string, slug: string, color: string}>>}
+ */
+async function suggestCategories(q, limit) {
+  const { rows } = await db.query(
+    `SELECT id::text AS id, name, slug, color
+     FROM categories
+     WHERE name ILIKE $1
+     ORDER BY name ILIKE $2 DESC, sort_order, name
+     LIMIT $3`,
+    [`%${q}%`, `${q}%`, limit]
+  );
+  return rows;
+}
+
+/**
+ * Suggestions for text being typed into the search box.
+ *
+ * @param {Object} query - Query validated by suggestQuerySchema
+ * @param {string} query.q - Text typed so far
+ * @param {number} [query.limit] - Most suggestions of each kind
+ * @returns {Promise<Object>} { books, authors, categories }, each best first
+ */
+async function suggest({ q, limit = DEFAULT_SUGGESTIONS }) {
+  const [books, authors, categories] = await Promise.all([
+    suggestBooks(q, limit),
+    suggestAuthors(q, limit),
+    suggestCategories(q, limit)
+  ]);
+  return { books, authors, categories };
+}
+
+module.exports = {
+  search,
+  suggest
+};
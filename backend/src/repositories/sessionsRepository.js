@@ -0,0 +1,119 @@
+/**
+ * @fileoverview Sessions Repository
+ *
+ * Data access for the sessions table.
+ *
+ * @module repositories/sessionsRepository
+ *
+ * @description
+ * A session is active while revoked_at is NULL and expires_at is in the
+ * future. refresh_jti holds the ID of the one refresh token that may
+ * still be exchanged; services/sessions rotates it on every refresh.
+ */
+
+const db = require('../db');
+
+/** Condition matching sessions that can still be used */
+const ACTIVE = 'revoked_at IS NULL AND expires_at > CURRENT_TIMESTAMP';
+
+/**
+ * Converts a sessions row into a session object.
+ *
+ * @param {Object} row - Row from the sessions table
+ * @returns {Object} Session { id, userId, refreshJti }
+ */
+function toSession(row) {
+  return {
+    id: row.id,
+    userId: String(row.user_id),
+    refreshJti: row.refresh_jti
+  };
+}
+
+/**
+ * Starts a session for a user.
+ *
+ * @param {Object} session
+ * @param {string} session.id - Random session ID
+ * @param {string} session.userId - User ID
+ * @param {string} session.refreshJti - ID of the first refresh token
+ * @param {number} session.ttlSeconds - Lifetime of the session's refresh token
+ * @returns {Promise<Object>} Created session
+ */
+async function create({ id, userId, refreshJti, ttlSeconds }) {
+  const { rows } = await db.query(
+    `INSERT INTO sessions (id, user_id, refresh_jti, expires_at)
+     VALUES ($1, $2, $3, CURRENT_TIMESTAMP + $4 * INTERVAL '1 second')
+     RETURNING *`,
+    [id, db.parseId(userId), refreshJti, ttlSeconds]
+  );
+  return toSession(rows[0]);
+}
+
+/**
+ * Finds a session that has not been revoked or expired.
+ *
+ * @param {string} id - Session ID
+ * @returns {Promise<Object|null>} Session or null if unusable
+ */
+async function findActive(id) {
+  const { rows } = await db.query(`SELECT * FROM sessions WHERE id = $1 AND ${ACTIVE}`, [id]);
+  return rows[0] ? toSession(rows[0]) : null;
+}
+
+/**
+ * Replaces the valid refresh token of an active session.
+ * Only succeeds if the caller presented the current refresh token, so
+ * two concurrent refreshes with the same token cannot both win.
+ *
+ * @param {string} id - Session ID
+ * @param {string} currentJti - ID of the refresh token being exchanged
+ * @param {string} nextJti - ID of the new refresh token
+ * @param {number} ttlSeconds - Lifetime of the new refresh token
+ * @returns {Promise<boolean>} True if the session was rotated
+ */
+async function rotate(id, currentJti, nextJti, ttlSeconds) {
+  const { rows } = await db.query(
+    `UPDATE sessions SET refresh_jti = $3, expires_at = CURRENT_TIMESTAMP + $4 * INTERVAL '1 second'
+     WHERE id = $1 AND refresh_jti = $2 AND ${ACTIVE}
+     RETURNING id`,
+    [id, currentJti, nextJti, ttlSeconds]
+  );
+  return rows.length === 1;
+}
+
+/**
+ * Revokes a session. Revoking twice is harmless.
+ *
+ * @param {string} id - Session ID
+ * @returns {Promise<void>}
+ */
+async function revoke(id) {
+  await db.query(
+    'UPDATE sessions SET revoked_at = CURRENT_TIMESTAMP WHERE id = $1 AND revoked_at IS NULL',
+    [id]
+  );
+}
+
+/**
+ * Revokes every session of a user, except optionally one.
+ *
+ * @param {string} userId - User ID
+ * @param {string|null} [exceptId] - Session to keep, or null for none
+ * @returns {Promise<void>}
+ */
+async function revokeAllForUser(userId, exceptId = null) {
+  await db.query(
+    `UPDATE sessions SET revoked_at = CURRENT_TIMESTAMP
+     WHERE user_id = $1 AND revoked_at IS NULL AND ($2::varchar IS NULL OR id <> $2::varchar)`,
+    [db.parseId(userId), exceptId]
+  );
+}
+
+module.exports = {
+  create,
+  findActive,
+  rotate,
+  revoke,
+  revokeAllForUser
+};
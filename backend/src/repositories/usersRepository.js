@@ -0,0 +1,141 @@
+/**
+ * @fileoverview Users Repository
+ *
+ * Data access for the users table.
+ *
+ * @module repositories/usersRepository
+ *
+ * @description
+ * The password column holds a hash from services/passwords; callers hash
+ * before create/update. Returned users include it so the login route can
+ * verify it; routes must strip it before sending a response.
+ */
+
+const db = require('../db');
+const { ValidationError } = require('../middleware/errors');
+
+/** PostgreSQL error code for unique constraint violations */
+const UNIQUE_VIOLATION = '23505';
+
+/** Profile fields that can be updated, mapped to their columns */
+const COLUMNS = {
+  password: 'password',
+  email: 'email',
+  firstName: 'first_name',
+  lastName: 'last_name',
+  phone: 'phone',
+  shippingAddress: 'shipping_address',
+  role: 'role'
+};
+
+/**
+ * Converts a users row into the API's user shape.
+ * Optional columns that are NULL are left out.
+ *
+ * @param {Object} row - Row from the users table
+ * @returns {Object} User object (including password)
+ */
+function toUser(row) {
+  return {
+    id: String(row.id),
+    username: row.username,
+    password: row.password,
+    email: row.email,
+    firstName: row.first_name,
+    lastName: row.last_name,
+    role: row.role,
+    phone: row.phone ?? undefined,
+    shippingAddress: row.shipping_address ?? undefined
+  };
+}
+
+/**
+ * Finds a user by ID.
+ *
+ * @param {string} id - User ID
+ * @returns {Promise<Object|null>} User or null if not found
+ */
+async function findById(id) {
+  const userId = db.parseId(id);
+  if (userId === null) return null;
+
+  const { rows } = await db.query('SELECT * FROM users WHERE id = $1', [userId]);
+  return rows[0] ? toUser(rows[0]) : null;
+}
+
+/**
+ * Finds a user by username.
+ *
+ * @param {string} username - Login username
+ * @returns {Promise<Object|null>} User or null if not found
+ */
+async function findByUsername(username) {
+  const { rows } = await db.query('SELECT * FROM users WHERE username = $1', [username]);
+  return rows[0] ? toUser(rows[0]) : null;
+}
+
+/**
+ * Inserts a new user.
+ *
+ * @param {Object} user - Registration data and role
+ * @returns {Promise<Object>} Created user
+ * @throws {ValidationError} 400 if the username or email is taken
+ */
+async function create(user) {
+  try {
+    const { rows } = await db.query(
+      `INSERT INTO users
+         (username, password, email, first_name, last_name, role, phone, shipping_address)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+       RETURNING *`,
+      [
+        user.username, user.password, user.email, user.firstName, user.lastName,
+        user.role, user.phone || null, user.shippingAddress || null
+      ]
+    );
+    return toUser(rows[0]);
+  } catch (err) {
+    if (err.code === UNIQUE_VIOLATION) {
+      const field = /email/.test(err.constraint || '') ? 'email' : 'username';
+      throw new ValidationError([{ field, message: `${field === 'email' ? 'Email' : 'Username'} already exists` }]);
+    }
+    throw err;
+  }
+}
+
+/**
+ * Applies a partial update to a user's profile.
+ * Username cannot be changed here; routes decide who may change the role.
+ *
+ * @param {string} id - User ID
+ * @param {Object} changes - Fields to update (unknown fields are ignored)
+ * @returns {Promise<Object|null>} Updated user or null if not found
+ * @throws {ValidationError} 400 if the new email is taken
+ */
+async function update(id, changes) {
+  const userId = db.parseId(id);
+  if (userId === null) return null;
+
+  const { clause, values } = db.buildSetClause(COLUMNS, changes, 2);
+  if (!clause) return findById(id);
+
+  try {
+    const { rows } = await db.query(
+      `UPDATE users SET ${clause} WHERE id = $1 RETURNING *`,
+      [userId, ...values]
+    );
+    return rows[0] ? toUser(rows[0]) : null;
+  } catch (err) {
+    if (err.code === UNIQUE_VIOLATION) {
+      throw new ValidationError([{ field: 'email', message: 'Email already exists' }]);
+    }
+    throw err;
+  }
+}
+
+module.exports = {
+  findById,
+  findByUsername,
+  create,
+  update
+};
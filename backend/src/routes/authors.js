@@ -0,0 +1,167 @@
+/**
+ * @fileoverview Authors API Routes
+ *
+ * This module defines REST API endpoints for authors.
+ *
+ * @module routes/authors
+ *
+ * @description
+ * Endpoints:
+ * - GET  /api/authors           - Get all authors (public)
+ * - GET  /api/authors/:id       - Get one author (public)
+ * - PUT  /api/authors/:id       - Update an author (admin)
+ * - POST /api/authors/:id/merge - Merge a duplicate into this author (admin)
+ *
+ * Authors are created when a book names someone new (see
+ * repositories/authorsRepository). An author's books are listed with
+ * GET /api/books?authorId=:id.
+ *
+ * Author Schema:
+ * {
+ *   id: string,          // Unique author identifier
+ *   name: string,        // Canonical name, shown on books (unique)
+ *   aliases: string[],   // Other spellings, e.g. ['Thomas Cormen']
+ *   bio: string | null,
+ *   bookCount: number    // Books credited to the author
+ * }
+ *
+ * @requires express
+ */
+
+const express = require('express');
+const router = express.Router();
+
+/** Data access for the authors table */
+const authorsRepository = require('../repositories/authorsRepository');
+
+/** Route ids as stored */
+const { parseId } = require('../db');
+
+/** Error helpers for async handlers */
+const { asyncHandler, ValidationError } = require('../middleware/errors');
+
+/** Request validation */
+const { validate } = require('../middleware/validate');
+const { authorUpdateSchema, authorMergeSchema } = require('bookstore-shared');
+
+/** Role checks (see middleware/authorize for the rules) */
+const { permit } = require('../middleware/authorize');
+
+// ============================================
+// CHECKS
+// ============================================
+
+/**
+ * Rejects a name or alias already used by another author, so every
+ * name on a book matches at most one author.
+ *
+ * @param {Object} changes - Name and/or aliases being set
+ * @param {Object} author - Author being updated
+ * @throws {ValidationError} If a name or alias is taken
+ */
+async function assertNamesAvailable(changes, author) {
+  const { id } = author;
+  const details = [];
+
+  if (changes.name !== undefined) {
+    const [conflict] = await authorsRepository.findConflicts([changes.name], id);
+    if (conflict) {
+      details.push({ field: 'name', message: `"${conflict.name}" is already used by ${conflict.author.name}` });
+    }
+  }
+  if (changes.aliases !== undefined) {
+    const name = (changes.name ?? author.name).toLowerCase();
+    if (changes.aliases.some(alias => alias.toLowerCase() === name)) {
+      details.push({ field: 'aliases', message: 'An alias cannot repeat the author\'s name' });
+    }
+    for (const conflict of await authorsRepository.findConflicts(changes.aliases, id)) {
+      details.push({
+        field: 'aliases',
+        message: `"${conflict.name}" is already used by ${conflict.author.name}; merge the two authors instead`
+      });
+    }
+  }
+
+  if (details.length > 0) throw new ValidationError(details);
+}
+
+// ============================================
+// AUTHOR ENDPOINTS
+// ============================================
+
+/**
+ * Get all authors.
+ *
+ * @route GET /api/authors
+ * @returns {Array<Object>} Authors ordered by name
+ */
+router.get('/', asyncHandler(async (req, res) => {
+  res.json(await authorsRepository.findAll());
+}));
+
+/**
+ * Get one author.
+ *
+ * @route GET /api/authors/:id
+ * @param {string} req.params.id - Author ID
+ * @returns {Object} Author object
+ * @returns {Object} Error with 404 status if not found
+ */
+router.get('/:id', asyncHandler(async (req, res) => {
+  const author = await authorsRepository.findById(req.params.id);
+  if (!author) {
+    return res.status(404).json({ error: 'Author not found' });
+  }
+  res.json(author);
+}));
+
+/**
+ * Update an author. Renaming changes the name shown on all their books.
+ *
+ * @route PUT /api/authors/:id
+ * @param {string} req.params.id - Author ID
+ * @param {string} [req.body.name] - Canonical name
+ * @param {string[]} [req.body.aliases] - Other spellings (replaces the list)
+ * @param {string|null} [req.body.bio] - Biography (empty clears it)
+ * @returns {Object} Updated author
+ * @returns {Object} Error with 404 status if not found
+ * @returns {Object} Error with 400 status for invalid fields or a name or
+ *   alias used by another author
+ */
+router.put('/:id', permit('authors:write'), validate(authorUpdateSchema), asyncHandler(async (req, res) => {
+  const author = await authorsRepository.findById(req.params.id);
+  if (!author) {
+    return res.status(404).json({ error: 'Author not found' });
+  }
+
+  await assertNamesAvailable(req.body, author);
+  res.json(await authorsRepository.update(req.params.id, req.body));
+}));
+
+/**
+ * Merge a duplicate author into this one. The duplicate's books are
+ * credited to this author, its name and aliases become aliases here,
+ * and the duplicate is deleted.
+ *
+ * @route POST /api/authors/:id/merge
+ * @param {string} req.params.id - Author to keep
+ * @param {string} req.body.sourceId - Duplicate author to merge in
+ * @returns {Object} The merged author
+ * @returns {Object} Error with 404 status if either author is not found
+ * @returns {Object} Error with 400 status if an author is merged with itself
+ */
+router.post('/:id/merge', permit('authors:write'), validate(authorMergeSchema), asyncHandler(async (req, res) => {
+  // Compare ids as numbers: '01' and '1' are the same author
+  const targetId = parseId(req.params.id);
+  if (targetId !== null && targetId === parseId(req.body.sourceId)) {
+    throw new ValidationError([{ field: 'sourceId', message: 'An author cannot be merged with itself' }]);
+  }
+
+  const author = await authorsRepository.merge(req.params.id, req.body.sourceId);
+  if (!author) {
+    return res.status(404).json({ error: 'Author not found' });
+  }
+  res.json(author);
+}));
+
+module.exports = router;
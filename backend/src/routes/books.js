@@ -9,216 +9,307 @@
  * @description
  * Endpoints:
  * - GET    /api/books      - Get all books in inventory
+ * - GET    /api/books/search - Storefront search: a page of works with facet counts
+ * - GET    /api/books/suggest - Typeahead suggestions: books, authors and categories
  * - GET    /api/books/:isbn - Get single book by ISBN
- * - POST   /api/books      - Add new book to inventory
- * - PUT    /api/books/:isbn - Update existing book
- * - DELETE /api/books/:isbn - Remove book from inventory
+ * - POST   /api/books      - Add new book to inventory (admin, manager)
+ * - POST   /api/books/import - Check or apply a bulk catalog import (admin, manager)
+ * - POST   /api/books/covers - Upload a cover image (admin, manager)
+ * - PUT    /api/books/:isbn - Update existing book (admin, manager)
+ * - GET    /api/books/:isbn/prices - A book's price history (admin, manager)
+ * - GET    /api/books/:isbn/recommendations - Books customers also bought
+ * - POST   /api/books/:isbn/archive   - Take a book off sale (admin, manager)
+ * - POST   /api/books/:isbn/unarchive - Put an archived book back on sale (admin, manager)
+ * - DELETE /api/books/:isbn - Remove book from inventory (admin)
+ * 
+ * ISBNs are stored as compact ISBN-13 (see the bookstore-shared isbn
+ * module). A valid ISBN in the path may be written in any form, e.g.
+ * /api/books/0-13-468599-7 finds 9780134685991; ISBNs in request bodies
+ * are normalized by the schemas, and a wrong check digit is a 400.
+ * 
+ * Request bodies are validated by the bookstore-shared schemas (400 with a field list).
  * 
  * Book Schema:
  * {
- *   isbn: string,          // ISBN-13 identifier (primary key)
+ *   isbn: string,          // Compact ISBN-13 (primary key)
  *   title: string,         // Book title
- *   authors: string[],     // Array of author names
- *   publisher: string,     // Publisher name
+ *   format: string,        // 'hardcover', 'paperback', 'ebook' or 'audiobook'
+ *   workId: string,        // Work this edition belongs to; shared by its other editions
+ *   authors: Array<{ id, name }>, // Credit order; sent as names, e.g. ['Harper Lee']
+ *   publisherId: string | null, // Supplier (see /api/publishers)
+ *   publisher: string | null,   // Publisher name
  *   publicationYear: number,
  *   sellingPrice: number,  // Price in USD
- *   category: string,      // 'Science', 'Art', 'History', 'Religion', 'Geography'
+ *   categories: Array<{ id, name, slug, color }>, // Sent as slugs, e.g. ['science']
  *   quantity: number,      // Current stock level
  *   threshold: number,     // Minimum stock before reorder
- *   imageUrl: string       // Book cover image URL
+ *   imageUrl: string,      // Book cover image URL (absent without a cover)
+ *   description: string | null,
+ *   pageCount: number | null,
+ *   language: string | null,    // ISO 639 code, e.g. 'en'
+ *   edition: string | null,     // e.g. '2nd edition'
+ *   heightMm: number | null,    // Size in millimetres
+ *   widthMm: number | null,
+ *   thicknessMm: number | null,
+ *   weightGrams: number | null, // Shipping weight of one copy
+ *   tags: string[],        // Free-form tags, lower case, alphabetical
+ *   archivedAt: string | null // When the book was archived (ISO 8601); null while for sale
  * }
  * 
+ * Each book is one edition of a work, with its own ISBN, price and stock.
+ * Creating a book with another book's workId adds an edition of that work;
+ * GET /api/books?workId= lists a work's editions.
+ * 
+ * Books that have been ordered cannot be deleted, since orders and
+ * reports refer to them; they are archived instead. Archived books are
+ * left out of GET /api/books (unless ?archived=include or only) and cannot
+ * be added to carts, but GET /api/books/:isbn still returns them.
+ * 
+ * Covers are uploaded first (POST /api/books/covers, multipart/form-data)
+ * and the returned imageUrl is saved with the book.
+ * 
  * @requires express
+ * @requires multer
  */
 
 const express = require('express');
+const multer = require('multer');
 const router = express.Router();
 
+/** Data access for books and categories */
+const booksRepository = require('../repositories/booksRepository');
+const categoriesRepository = require('../repositories/categoriesRepository');
+const publishersRepository = require('../repositories/publishersRepository');
+const pricesRepository = require('../repositories/pricesRepository');
+const recommendationsRepository = require('../repositories/recommendationsRepository');
+const searchRepository = require('../repositories/searchRepository');
+
+/** Error helpers for async handlers */
+const { asyncHandler, ValidationError } = require('../middleware/errors');
+
+/** Bulk catalog imports */
+const { importCatalog } = require('../services/bookImport');
+
+/** Cover image sizes and storage */
+const { storeCover } = require('../services/covers');
+
+/** Request validation */
+const { validate } = require('../middleware/validate');
+const {
+  bookCreateSchema,
+  bookUpdateSchema,
+  bookQuerySchema,
+  bookImportSchema,
+  recommendationQuerySchema,
+  catalogSearchQuerySchema,
+  suggestQuerySchema,
+  normalizeIsbn,
+  MAX_COVER_BYTES,
+  DEFAULT_RECOMMENDATIONS
+} = require('bookstore-shared');
+
+/** Role checks (see middleware/authorize for the rules) */
+const { permit } = require('../middleware/authorize');
+
 // ============================================
-// MOCK DATA STORE
+// CHECKS
 // ============================================
 
 /**
- * In-memory books database.
- * Contains sample book inventory data. In production, this would be
- * replaced with a PostgreSQL database connection.
- * 
- * Each book has:
- * - isbn: Unique ISBN-13 identifier
- * - title: Book title
- * - authors: Array of author names
- * - publisher: Publishing company name
- * - publicationYear: Year of publication
- * - sellingPrice: Retail price in USD
- * - category: Classification (Science, Art, History, Religion, Geography)
- * - quantity: Current copies in stock
- * - threshold: Minimum stock level (triggers auto-reorder when reached)
- * - imageUrl: Cover image URL
- * 
- * @type {Array<Object>}
+ * Rejects category slugs that name no category.
+ *
+ * @param {string[]|undefined} slugs - Categories sent by the client
+ * @throws {ValidationError} If any slug is unknown
+ */
+async function assertCategoriesExist(slugs) {
+  if (slugs === undefined) return;
+
+  const unknown = await categoriesRepository.findUnknownSlugs(slugs);
+  if (unknown.length > 0) {
+    throw new ValidationError([{ field: 'categories', message: `Unknown category: ${unknown.join(', ')}` }]);
+  }
+}
+
+/**
+ * Rejects a work ID that names no work.
+ *
+ * @param {string|undefined} workId - Work sent by the client
+ * @throws {ValidationError} If the work does not exist
  */
-let books = [
-  {
-    isbn: '978-0-13-468599-1',
-    title: 'The Art of Computer Programming',
-    authors: ['Donald Knuth'],
-    publisher: 'Addison-Wesley',
-    publicationYear: 2011,
-    sellingPrice: 89.99,
-    category: 'Science',
-    quantity: 25,
-    threshold: 5,
-    imageUrl: 'https://m.media-amazon.com/images/I/41T0PoMmhgL._SX218_BO1,204,203,200_QL40_FMwebp_.jpg'
-  },
-  {
-    isbn: '978-0-06-112008-4',
-    title: 'To Kill a Mockingbird',
-    authors: ['Harper Lee'],
-    publisher: 'HarperCollins',
-    publicationYear: 1960,
-    sellingPrice: 14.99,
-    category: 'Art',
-    quantity: 50,
-    threshold: 10,
-    imageUrl: 'https://m.media-amazon.com/images/I/81aY1lxk+9L._AC_UF1000,1000_QL80_.jpg'
-  },
-  {
-    isbn: '978-0-19-953556-8',
-    title: 'A History of Modern Europe',
-    authors: ['John Merriman'],
-    publisher: 'W.W. Norton',
-    publicationYear: 2019,
-    sellingPrice: 65.00,
-    category: 'History',
-    quantity: 15,
-    threshold: 3,
-    imageUrl: 'https://m.media-amazon.com/images/I/51Ga5GuElyL._AC_UF1000,1000_QL80_.jpg'
-  },
-  {
-    isbn: '978-0-07-352332-7',
-    title: 'Physical Geography',
-    authors: ['Alan Strahler', 'Arthur Strahler'],
-    publisher: 'Wiley',
-    publicationYear: 2013,
-    sellingPrice: 120.00,
-    category: 'Geography',
-    quantity: 8,
-    threshold: 5,
-    imageUrl: 'https://m.media-amazon.com/images/I/51pSgz35YoL._AC_UF1000,1000_QL80_.jpg'
-  },
-  {
-    isbn: '978-0-06-093546-7',
-    title: 'The Case for God',
-    authors: ['Karen Armstrong'],
-    publisher: 'Knopf',
-    publicationYear: 2009,
-    sellingPrice: 27.95,
-    category: 'Religion',
-    quantity: 30,
-    threshold: 7,
-    imageUrl: 'https://m.media-amazon.com/images/I/71g2ednj0JL._AC_UF1000,1000_QL80_.jpg'
-  },
-  {
-    isbn: '978-1-59448-273-9',
-    title: 'A Short History of Nearly Everything',
-    authors: ['Bill Bryson'],
-    publisher: 'Broadway Books',
-    publicationYear: 2004,
-    sellingPrice: 18.00,
-    category: 'Science',
-    quantity: 40,
-    threshold: 8,
-    imageUrl: 'https://m.media-amazon.com/images/I/71zIgNAJqRL._AC_UF1000,1000_QL80_.jpg'
-  },
-  {
-    isbn: '978-0-14-028329-7',
-    title: 'The Story of Art',
-    authors: ['E.H. Gombrich'],
-    publisher: 'Phaidon Press',
-    publicationYear: 1950,
-    sellingPrice: 39.95,
-    category: 'Art',
-    quantity: 22,
-    threshold: 5,
-    imageUrl: 'https://m.media-amazon.com/images/I/91H3BZfBB4L._AC_UF1000,1000_QL80_.jpg'
-  },
-  {
-    isbn: '978-0-06-083865-2',
-    title: 'Sapiens: A Brief History of Humankind',
-    authors: ['Yuval Noah Harari'],
-    publisher: 'Harper',
-    publicationYear: 2015,
-    sellingPrice: 24.99,
-    category: 'History',
-    quantity: 60,
-    threshold: 12,
-    imageUrl: 'https://m.media-amazon.com/images/I/713jIoMO3UL._AC_UF1000,1000_QL80_.jpg'
-  },
-  {
-    isbn: '978-0-19-280722-2',
-    title: 'World Religions',
-    authors: ['John Bowker'],
-    publisher: 'Oxford University Press',
-    publicationYear: 2006,
-    sellingPrice: 22.50,
-    category: 'Religion',
-    quantity: 18,
-    threshold: 4,
-    imageUrl: 'https://m.media-amazon.com/images/I/A1cRMQXC4WL._AC_UF1000,1000_QL80_.jpg'
-  },
-  {
-    isbn: '978-0-321-12521-7',
-    title: 'Introduction to Algorithms',
-    authors: ['Thomas H. Cormen', 'Charles E. Leiserson', 'Ronald L. Rivest'],
-    publisher: 'MIT Press',
-    publicationYear: 2009,
-    sellingPrice: 95.00,
-    category: 'Science',
-    quantity: 3,
-    threshold: 5,
-    imageUrl: 'https://m.media-amazon.com/images/I/61Pgdn8Ys-L._AC_UF1000,1000_QL80_.jpg'
+async function assertWorkExists(workId) {
+  if (workId === undefined) return;
+
+  if (!(await booksRepository.workExists(workId))) {
+    throw new ValidationError([{ field: 'workId', message: 'Work not found' }]);
   }
-];
+}
+
+/**
+ * Rejects a publisher ID that names no publisher.
+ *
+ * @param {string|undefined} publisherId - Publisher sent by the client
+ * @throws {ValidationError} If the publisher does not exist
+ */
+async function assertPublisherExists(publisherId) {
+  if (publisherId === undefined) return;
+
+  if (!(await publishersRepository.findById(publisherId))) {
+    throw new ValidationError([{ field: 'publisherId', message: 'Publisher not found' }]);
+  }
+}
+
+// ============================================
+// UPLOADS
+// ============================================
+
+/** Keeps one uploaded file in memory; larger files are cut off at the limit */
+const coverUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: MAX_COVER_BYTES, files: 1 }
+}).single('cover');
+
+/**
+ * Reads the 'cover' file of a multipart request into req.file.
+ * multer's own errors (too large, wrong field) become 400s for that field.
+ */
+function receiveCover(req, res, next) {
+  coverUpload(req, res, err => {
+    if (err instanceof multer.MulterError) {
+      const message = err.code === 'LIMIT_FILE_SIZE'
+        ? `Cover must be at most ${MAX_COVER_BYTES / (1024 * 1024)} MB`
+        : 'Send one image in the cover field';
+      return next(new ValidationError([{ field: 'cover', message }]));
+    }
+    next(err);
+  });
+}
+
+/**
+ * Origin clients load stored files from: PUBLIC_URL when set (e.g. behind
+ * a proxy), otherwise the server's own http://localhost:PORT. Never the
+ * request's Host header, which any client can set to put another site's
+ * address into the cover URLs saved on books.
+ *
+ * @returns {string} Origin, e.g. 'http://localhost:5000'
+ */
+function publicOrigin() {
+  return process.env.PUBLIC_URL || `http://localhost:${process.env.PORT || 5000}`;
+}
 
 // ============================================
 // BOOK ENDPOINTS
 // ============================================
 
 /**
- * Get all books in inventory.
- * Returns the complete list of books available in the store.
+ * Rewrites a valid :isbn path parameter to the stored form, so lookups
+ * match however the ISBN was typed. Anything else is left as is (and is
+ * simply not found).
+ */
+router.param('isbn', (req, res, next, isbn) => {
+  req.params.isbn = normalizeIsbn(isbn) ?? isbn;
+  next();
+});
+
+/**
+ * Get all books in inventory, optionally filtered.
+ * Without query parameters returns the complete catalog.
  * 
  * @route GET /api/books
- * @returns {Array<Object>} Array of all book objects
+ * @param {string} [req.query.q] - Words of the title, authors or publisher (stems, typos forgiven), or ISBN digits
+ * @param {string} [req.query.category] - Category slug; includes its subcategories
+ * @param {string} [req.query.author] - Case-insensitive substring of an author's name or alias
+ * @param {string} [req.query.authorId] - Books credited to this author
+ * @param {string} [req.query.publisher] - Case-insensitive publisher substring
+ * @param {string} [req.query.workId] - Editions of this work
+ * @param {string} [req.query.tag] - Books with this tag
+ * @param {string} [req.query.archived] - 'include' adds archived books,
+ *   'only' returns just those; by default they are left out
+ * @returns {Array<Object>} Array of matching book objects
  * 
  * @example
+ * // GET /api/books?q=history&category=history
  * // Response: [{ isbn: "978-...", title: "...", ... }, ...]
  */
-router.get('/', (req, res) => {
-  res.json(books);
-});
+router.get('/', validate(bookQuerySchema, 'query'), asyncHandler(async (req, res) => {
+  const { q, category, author, authorId, publisher, workId, tag, archived } = req.query;
+  const results = await booksRepository.findAll({ q, category, author, authorId, publisher, workId, tag, archived });
+  res.json(results);
+}));
+
+/**
+ * Search the catalog for the storefront. Results are works (a work is
+ * found when any of its editions for sale matches), paged, with the
+ * count of works each facet value would find (counted without the
+ * facet's own filter, so other values stay selectable).
+ * Registered before /:isbn, which would otherwise take 'search' for an ISBN.
+ *
+ * @route GET /api/books/search
+ * @param {string} [req.query.q] - Words of the title, authors or publisher (stems, typos forgiven), or ISBN digits
+ * @param {string} [req.query.category] - Category slug; includes its subcategories
+ * @param {string} [req.query.authorId] - Works credited to this author
+ * @param {string} [req.query.publisherId] - Works from this publisher
+ * @param {string} [req.query.decade] - Decade of publication, e.g. '1990'
+ * @param {string} [req.query.price] - Price bucket, e.g. '10-25'
+ * @param {string} [req.query.inStock] - 'true' for works with an edition in stock
+ * @param {string} [req.query.tag] - Books with this tag
+ * @param {string} [req.query.sort] - 'relevance' (default), 'title', 'price-asc', 'price-desc' or 'year'
+ * @param {string} [req.query.page] - Page number, from 1
+ * @param {string} [req.query.pageSize] - Works per page
+ * @returns {Object} { books, total, page, pageSize, facets }
+ *
+ * @example
+ * // GET /api/books/search?category=history&price=10-25
+ * // Response: { books: [...], total: 4, page: 1, pageSize: 12,
+ * //   facets: { category: [{ value: "history", label: "History", count: 12 }, ...], ... } }
+ */
+router.get('/search', validate(catalogSearchQuerySchema, 'query'), asyncHandler(async (req, res) => {
+  res.json(await searchRepository.search(req.query));
+}));
+
+/**
+ * Suggest what the shopper may be looking for while they type: books
+ * (matched like the search's q, one edition per work), authors and
+ * categories (by name). Kept small for the search box's dropdown; also
+ * registered before /:isbn.
+ *
+ * @route GET /api/books/suggest
+ * @param {string} req.query.q - Text typed so far
+ * @param {string} [req.query.limit] - Most suggestions of each kind (default 5, at most 10)
+ * @returns {Object} { books: [{ isbn, title, authors, imageUrl }], authors: [{ id, name }],
+ *   categories: [{ id, name, slug, color }] }
+ *
+ * @example
+ * // GET /api/books/suggest?q=hist
+ * // Response: { books: [{ isbn: "9780199535569", title: "A History of Modern Europe", ... }, ...],
+ * //   authors: [], categories: [{ id: "2", name: "History", slug: "history", color: "#ef4444" }] }
+ */
+router.get('/suggest', validate(suggestQuerySchema, 'query'), asyncHandler(async (req, res) => {
+  res.json(await searchRepository.suggest(req.query));
+}));
 
 /**
  * Get a single book by ISBN.
- * 
+ * Archived books are found too (check archivedAt), so orders and reports
+ * can still show them.
+ *  
  * @route GET /api/books/:isbn
  * @param {string} req.params.isbn - Book's ISBN identifier
  * @returns {Object} Book object
  * @returns {Object} Error with 404 status if not found
  * 
  * @example
- * // GET /api/books/978-0-13-468599-1
- * // Response: { isbn: "978-0-13-468599-1", title: "The Art of...", ... }
+ * // GET /api/books/9780134685991
+ * // Response: { isbn: "9780134685991", title: "The Art of...", ... }
  */
-router.get('/:isbn', (req, res) => {
-  const book = books.find(b => b.isbn === req.params.isbn);
+router.get('/:isbn', asyncHandler(async (req, res) => {
+  const book = await booksRepository.findByIsbn(req.params.isbn);
   
   if (!book) {
     return res.status(404).json({ error: 'Book not found' });
   }
   
   res.json(book);
-});
+}));
 
 /**
  * Add a new book to inventory.
@@ -226,64 +317,219 @@ router.get('/:isbn', (req, res) => {
  * 
  * @route POST /api/books
  * @param {Object} req.body - Complete book object
- * @param {string} req.body.isbn - ISBN-13 identifier (required)
+ * @param {string} req.body.isbn - ISBN-10 or ISBN-13, stored as compact ISBN-13 (required)
  * @param {string} req.body.title - Book title (required)
- * @param {string[]} req.body.authors - Array of author names
- * @param {string} req.body.publisher - Publisher name
+ * @param {string} [req.body.format='paperback'] - Edition format
+ * @param {string} [req.body.workId] - Work this book is another edition
+ *   of; without it the book starts a new work
+ * @param {string[]} req.body.authors - Author names in credit order; names
+ *   matching an author or alias link that author, others create one
+ * @param {string} req.body.publisherId - ID of the publisher that supplies the book
  * @param {number} req.body.publicationYear - Year of publication
  * @param {number} req.body.sellingPrice - Price in USD
- * @param {string} req.body.category - Book category
+ * @param {string[]} req.body.categories - Category slugs (at least one)
  * @param {number} req.body.quantity - Initial stock quantity
  * @param {number} req.body.threshold - Minimum stock threshold
+ * @param {string} [req.body.imageUrl] - Cover URL, e.g. from POST /api/books/covers
  * @returns {Object} Created book with 201 status
+ * @returns {Object} Error with 400 status for invalid fields, an unknown
+ *   category, publisher or work, or an existing ISBN
  */
-router.post('/', (req, res) => {
-  const newBook = req.body;
-  books.push(newBook);
-  res.status(201).json(newBook);
-});
+router.post('/', permit('books:write'), validate(bookCreateSchema), asyncHandler(async (req, res) => {
+  // PRIMARY KEY constraint - ISBN must be unique
+  if (await booksRepository.findByIsbn(req.body.isbn)) {
+    throw new ValidationError([{ field: 'isbn', message: 'Book with this ISBN already exists' }]);
+  }
+  await assertCategoriesExist(req.body.categories);
+  await assertPublisherExists(req.body.publisherId);
+  await assertWorkExists(req.body.workId);
+
+  const created = await booksRepository.create(req.body);
+  res.status(201).json(created);
+}));
+
+/**
+ * Upload a book cover.
+ * The image is checked, resized to every cover size and stored; save the
+ * returned imageUrl with the book (POST or PUT) to use it.
+ * 
+ * @route POST /api/books/covers
+ * @param {File} req.file - The 'cover' field of a multipart/form-data body:
+ *   a JPEG, PNG or WebP image of at most MAX_COVER_BYTES
+ * @returns {Object} { imageUrl, sizes: { thumbnail, detail } } with 201 status
+ * @returns {Object} Error with 400 status if the file is missing, too
+ *   large or not an accepted image
+ * 
+ * @example
+ * // POST /api/books/covers (form field "cover")
+ * // Response: { imageUrl: "http://localhost:5000/uploads/covers/<id>/detail.webp", sizes: { ... } }
+ */
+router.post('/covers', permit('books:write'), receiveCover, asyncHandler(async (req, res) => {
+  res.status(201).json(await storeCover(req.file, publicOrigin()));
+}));
+
+/**
+ * Import books in bulk, from records shaped like database/books.json
+ * (publisher by name, authors by name, categories by slug).
+ * Each row is reported as create, update, skip or invalid with its errors;
+ * see services/bookImport for the rules.
+ * 
+ * @route POST /api/books/import
+ * @param {Object[]} req.body.books - Rows to import (at most MAX_IMPORT_ROWS)
+ * @param {string} [req.body.existing='skip'] - 'skip' or 'upsert' books
+ *   whose ISBN is already in the catalog
+ * @param {boolean} [req.body.dryRun=true] - Only report what would happen
+ * @returns {Object} Import report: { dryRun, existing, summary, rows }
+ * @returns {Object} Error with 400 status when applying an import with
+ *   invalid rows (nothing is saved; fields are named books.<index>.<field>)
+ * @returns {Object} Error with 409 status if an update takes a book below
+ *   its threshold and the book has no publisher
+ * 
+ * @example
+ * // POST /api/books/import
+ * // Body: { books: [{ isbn: "...", title: "...", publisher: "HarperCollins", ... }], dryRun: true }
+ * // Response: { dryRun: true, existing: "skip", summary: { create: 1, update: 0, skip: 0, invalid: 0 }, rows: [...] }
+ */
+router.post('/import', permit('books:write'), validate(bookImportSchema), asyncHandler(async (req, res) => {
+  res.json(await importCatalog(req.body));
+}));
 
 /**
  * Update an existing book.
  * Allows partial updates - only provided fields are modified.
+ * Dropping the quantity below the threshold fires the
+ * check_stock_threshold trigger, which places a publisher order.
  * 
  * @route PUT /api/books/:isbn
  * @param {string} req.params.isbn - Book's ISBN identifier
- * @param {Object} req.body - Fields to update
+ * @param {Object} req.body - Fields to update (imageUrl null removes the
+ *   cover; workId moves the edition to another work)
  * @returns {Object} Updated book object
  * @returns {Object} Error with 404 status if not found
+ * @returns {Object} Error with 400 status for invalid fields (e.g. a negative
+ *   quantity), an unknown category, publisher or work, or a changed ISBN
+ * @returns {Object} Error with 409 status if the reorder cannot be placed
+ *   because the book has no publisher
  */
-router.put('/:isbn', (req, res) => {
-  const index = books.findIndex(b => b.isbn === req.params.isbn);
+router.put('/:isbn', permit('books:write'), validate(bookUpdateSchema), asyncHandler(async (req, res) => {
+  // The ISBN is the primary key; it may be echoed back but not changed
+  if (req.body.isbn !== undefined && req.body.isbn !== req.params.isbn) {
+    throw new ValidationError([{ field: 'isbn', message: 'ISBN cannot be changed' }]);
+  }
+  await assertCategoriesExist(req.body.categories);
+  await assertPublisherExists(req.body.publisherId);
+  await assertWorkExists(req.body.workId);
+
+  const book = await booksRepository.update(req.params.isbn, req.body);
   
-  if (index === -1) {
+  if (!book) {
     return res.status(404).json({ error: 'Book not found' });
   }
-  
-  // Merge existing book with updates using spread operator
-  books[index] = { ...books[index], ...req.body };
-  res.json(books[index]);
-});
+
+  res.json(book);
+}));
 
 /**
- * Delete a book from inventory.
- * Permanently removes the book from the database.
+ * A book's price history: every price it has had and what set it
+ * (see also /api/price-rules).
+ * 
+ * @route GET /api/books/:isbn/prices
+ * @param {string} req.params.isbn - Book's ISBN identifier
+ * @returns {Array<Object>} PriceChange records, oldest first
+ * @returns {Object} Error with 404 status if not found
+ */
+router.get('/:isbn/prices', permit('books:write'), asyncHandler(async (req, res) => {
+  const book = await booksRepository.findByIsbn(req.params.isbn);
+
+  if (!book) {
+    return res.status(404).json({ error: 'Book not found' });
+  }
+
+  res.json(await pricesRepository.historyOf(book.isbn));
+}));
+
+/**
+ * Books to recommend on a book's page: those customers bought with any
+ * edition of it, topped up with books by the same authors and then in
+ * the same categories. Archived books are never recommended, but an
+ * archived book still gets recommendations.
  * 
+ * @route GET /api/books/:isbn/recommendations
+ * @param {string} req.params.isbn - Book's ISBN identifier
+ * @param {string} [req.query.limit] - Most to return (default 8, at most 24)
+ * @returns {Array<Object>} BookRecommendation records ({ book, reason,
+ *   score }), best first
+ * @returns {Object} Error with 404 status if not found
+ */
+router.get('/:isbn/recommendations', validate(recommendationQuerySchema, 'query'), asyncHandler(async (req, res) => {
+  const book = await booksRepository.findByIsbn(req.params.isbn);
+
+  if (!book) {
+    return res.status(404).json({ error: 'Book not found' });
+  }
+
+  res.json(await recommendationsRepository.forBooks([book.isbn], req.query.limit ?? DEFAULT_RECOMMENDATIONS));
+}));
+
+/**
+ * Archive a book: take it off sale without losing it.
+ * The book disappears from the catalog and from every cart; orders,
+ * reports and GET /api/books/:isbn keep showing it. Archiving an archived
+ * book changes nothing.
+ * 
+ * @route POST /api/books/:isbn/archive
+ * @param {string} req.params.isbn - Book's ISBN identifier
+ * @returns {Object} Archived book, with archivedAt set
+ * @returns {Object} Error with 404 status if not found
+ */
+router.post('/:isbn/archive', permit('books:write'), asyncHandler(async (req, res) => {
+  const book = await booksRepository.setArchived(req.params.isbn, true);
+
+  if (!book) {
+    return res.status(404).json({ error: 'Book not found' });
+  }
+
+  res.json(book);
+}));
+
+/**
+ * Put an archived book back on sale.
+ * 
+ * @route POST /api/books/:isbn/unarchive
+ * @param {string} req.params.isbn - Book's ISBN identifier
+ * @returns {Object} Book, with archivedAt null
+ * @returns {Object} Error with 404 status if not found
+ */
+router.post('/:isbn/unarchive', permit('books:write'), asyncHandler(async (req, res) => {
+  const book = await booksRepository.setArchived(req.params.isbn, false);
+
+  if (!book) {
+    return res.status(404).json({ error: 'Book not found' });
+  }
+
+  res.json(book);
+}));
+
+/**
+ * Delete a book from inventory.
+ * Permanently removes the book from the database and from all carts.
+ * Only books nobody has ordered can be deleted; archive the others.
+ *  
  * @route DELETE /api/books/:isbn
  * @param {string} req.params.isbn - Book's ISBN identifier
  * @returns {void} 204 No Content on success
  * @returns {Object} Error with 404 status if not found
+ * @returns {Object} Error with 409 status if customer or publisher
+ *   orders reference the book
  */
-router.delete('/:isbn', (req, res) => {
-  const index = books.findIndex(b => b.isbn === req.params.isbn);
+router.delete('/:isbn', permit('books:delete'), asyncHandler(async (req, res) => {
+  const deleted = await booksRepository.remove(req.params.isbn);
   
-  if (index === -1) {
+  if (!deleted) {
     return res.status(404).json({ error: 'Book not found' });
   }
   
-  // Remove book from array
-  books.splice(index, 1);
   res.status(204).send();
-});
+}));
 
 module.exports = router;
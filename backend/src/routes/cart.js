@@ -1,11 +1,11 @@
 /**
  * @fileoverview Shopping Cart API Routes
- * 
+ *
  * This module defines REST API endpoints for shopping cart management.
- * Carts are stored in-memory and keyed by user ID.
- * 
+ * Carts are stored in the carts and cart_items tables, one per user.
+ *
  * @module routes/cart
- * 
+ *
  * @description
  * Endpoints:
  * - GET    /api/cart/:userId              - Get user's cart
@@ -13,48 +13,47 @@
  * - PUT    /api/cart/:userId/items/:isbn  - Update item quantity
  * - DELETE /api/cart/:userId/items/:isbn  - Remove item from cart
  * - DELETE /api/cart/:userId              - Clear entire cart
- * 
+ * - GET    /api/cart/:userId/recommendations - Books to go with the cart
+ * - POST   /api/cart/:userId/checkout     - Pay for the cart and create an order
+ *
+ * Access: users may only use their own cart (admins may use any).
+ * Request bodies are validated by the bookstore-shared schemas (400 with a field list).
+ *
  * Cart Structure:
  * {
  *   items: [{ book: {...}, quantity: number }],
  *   totalItems: number,  // Sum of all quantities
  *   totalPrice: number   // Sum of (price * quantity)
  * }
- * 
+ *
  * @requires express
  */
 
 const express = require('express');
 const router = express.Router();
 
-// ============================================
-// MOCK DATA STORE
-// ============================================
+/** Data access for carts, books, users and orders */
+const cartsRepository = require('../repositories/cartsRepository');
+const booksRepository = require('../repositories/booksRepository');
+const usersRepository = require('../repositories/usersRepository');
+const ordersRepository = require('../repositories/ordersRepository');
+const recommendationsRepository = require('../repositories/recommendationsRepository');
 
-/**
- * In-memory cart storage using JavaScript Map.
- * Key: userId (string), Value: cart object
- * 
- * In production, this would use Redis or a database for persistence.
- * 
- * @type {Map<string, Object>}
- */
-let carts = new Map();
+/** Error helpers for async handlers */
+const { asyncHandler } = require('../middleware/errors');
 
-// ============================================
-// HELPER FUNCTIONS
-// ============================================
+/** Ownership checks (see middleware/authorize for the rules) */
+const { permitSelfOr } = require('../middleware/authorize');
 
-/**
- * Recalculates cart totals after any modification.
- * Updates totalItems (sum of quantities) and totalPrice.
- * 
- * @param {Object} cart - The cart object to update
- */
-function recalculateTotals(cart) {
-  cart.totalItems = cart.items.reduce((sum, item) => sum + item.quantity, 0);
-  cart.totalPrice = cart.items.reduce((sum, item) => sum + (item.book.sellingPrice * item.quantity), 0);
-}
+/** Request validation */
+const { validate } = require('../middleware/validate');
+const {
+  cartItemAddSchema,
+  cartItemUpdateSchema,
+  checkoutSchema,
+  recommendationQuerySchema,
+  DEFAULT_RECOMMENDATIONS
+} = require('bookstore-shared');
 
 // ============================================
 // CART ENDPOINTS
@@ -63,124 +62,171 @@ function recalculateTotals(cart) {
 /**
  * Get cart for a specific user.
  * Returns empty cart structure if user has no cart.
- * 
+ *
  * @route GET /api/cart/:userId
  * @param {string} req.params.userId - User's ID
  * @returns {Object} Cart object with items, totalItems, and totalPrice
  */
-router.get('/:userId', (req, res) => {
+router.get('/:userId', permitSelfOr('userId', 'carts:manage'), asyncHandler(async (req, res) => {
   // Return existing cart or empty cart structure
-  const cart = carts.get(req.params.userId) || { items: [], totalItems: 0, totalPrice: 0 };
+  const cart = await cartsRepository.findByUser(req.params.userId) || cartsRepository.emptyCart();
   res.json(cart);
-});
+}));
 
 /**
  * Add an item to user's cart.
  * If item already exists, increases quantity.
- * 
+ * Validates that the combined quantity is in stock.
+ *
  * @route POST /api/cart/:userId/items
  * @param {string} req.params.userId - User's ID
- * @param {Object} req.body.book - Complete book object to add
+ * @param {string} req.body.isbn - ISBN of the book to add
  * @param {number} [req.body.quantity=1] - Quantity to add (defaults to 1)
  * @returns {Object} Updated cart object
+ * @returns {Object} Error with 404 if the user or book does not exist
+ * @returns {Object} Error with 400 for an invalid quantity or if there is not enough stock
+ * @returns {Object} Error with 409 if the book is archived (no longer for sale)
  */
-router.post('/:userId/items', (req, res) => {
+router.post('/:userId/items', permitSelfOr('userId', 'carts:manage'), validate(cartItemAddSchema), asyncHandler(async (req, res) => {
   const { userId } = req.params;
-  const { book, quantity = 1 } = req.body;
-  
-  // Get existing cart or create new one
-  let cart = carts.get(userId) || { items: [], totalItems: 0, totalPrice: 0 };
-  
+  const { isbn, quantity } = req.body;
+
+  // carts.user_id references users(id)
+  if (!await usersRepository.findById(userId)) {
+    return res.status(404).json({ error: 'User not found' });
+  }
+
+  const book = await booksRepository.findByIsbn(isbn);
+  if (!book) {
+    return res.status(404).json({ error: 'Book not found' });
+  }
+  if (book.archivedAt) {
+    return res.status(409).json({ error: `"${book.title}" is no longer for sale` });
+  }
+
   // Check if book already exists in cart
-  const existingItem = cart.items.find(item => item.book.isbn === book.isbn);
-  
-  if (existingItem) {
-    // Increase quantity of existing item
-    existingItem.quantity += quantity;
-  } else {
-    // Add new item to cart
-    cart.items.push({ book, quantity });
+  const cart = await cartsRepository.findByUser(userId) || cartsRepository.emptyCart();
+  const existingItem = cart.items.find(item => item.book.isbn === isbn);
+  const requested = (existingItem ? existingItem.quantity : 0) + quantity;
+
+  if (requested > book.quantity) {
+    return res.status(400).json({ error: 'Not enough stock available' });
   }
-  
-  // Recalculate totals after modification
-  recalculateTotals(cart);
-  
-  // Save updated cart
-  carts.set(userId, cart);
-  res.json(cart);
-});
+
+  res.json(await cartsRepository.setItemQuantity(userId, isbn, requested));
+}));
 
 /**
  * Update quantity of a specific item in cart.
- * 
+ * A quantity of 0 removes the item.
+ *
  * @route PUT /api/cart/:userId/items/:isbn
  * @param {string} req.params.userId - User's ID
  * @param {string} req.params.isbn - Book ISBN to update
  * @param {number} req.body.quantity - New quantity value
  * @returns {Object} Updated cart object
  * @returns {Object} Error with 404 if cart or item not found
+ * @returns {Object} Error with 400 for an invalid quantity or if there is not enough stock
  */
-router.put('/:userId/items/:isbn', (req, res) => {
+router.put('/:userId/items/:isbn', permitSelfOr('userId', 'carts:manage'), validate(cartItemUpdateSchema), asyncHandler(async (req, res) => {
   const { userId, isbn } = req.params;
   const { quantity } = req.body;
-  
-  const cart = carts.get(userId);
+
+  const cart = await cartsRepository.findByUser(userId);
   if (!cart) {
     return res.status(404).json({ error: 'Cart not found' });
   }
-  
+
   // Find the item to update
   const item = cart.items.find(item => item.book.isbn === isbn);
   if (!item) {
     return res.status(404).json({ error: 'Item not found in cart' });
   }
-  
-  // Update quantity
-  item.quantity = quantity;
-  
-  // Recalculate totals
-  recalculateTotals(cart);
-  
-  res.json(cart);
-});
+
+  if (quantity === 0) {
+    return res.json(await cartsRepository.removeItem(userId, isbn));
+  }
+
+  if (item.book.quantity < quantity) {
+    return res.status(400).json({ error: 'Not enough stock available' });
+  }
+
+  res.json(await cartsRepository.setItemQuantity(userId, isbn, quantity));
+}));
 
 /**
  * Remove a specific item from cart.
- * 
+ *
  * @route DELETE /api/cart/:userId/items/:isbn
  * @param {string} req.params.userId - User's ID
  * @param {string} req.params.isbn - Book ISBN to remove
  * @returns {Object} Updated cart object
  * @returns {Object} Error with 404 if cart not found
  */
-router.delete('/:userId/items/:isbn', (req, res) => {
+router.delete('/:userId/items/:isbn', permitSelfOr('userId', 'carts:manage'), asyncHandler(async (req, res) => {
   const { userId, isbn } = req.params;
-  
-  const cart = carts.get(userId);
+
+  const cart = await cartsRepository.removeItem(userId, isbn);
   if (!cart) {
     return res.status(404).json({ error: 'Cart not found' });
   }
-  
-  // Filter out the item to remove
-  cart.items = cart.items.filter(item => item.book.isbn !== isbn);
-  
-  // Recalculate totals
-  recalculateTotals(cart);
-  
+
   res.json(cart);
-});
+}));
 
 /**
  * Clear entire cart for a user.
  * Removes the cart from storage entirely.
- * 
+ *
  * @route DELETE /api/cart/:userId
  * @param {string} req.params.userId - User's ID
  * @returns {void} 204 No Content on success
  */
-router.delete('/:userId', (req, res) => {
-  carts.delete(req.params.userId);
+router.delete('/:userId', permitSelfOr('userId', 'carts:manage'), asyncHandler(async (req, res) => {
+  await cartsRepository.clear(req.params.userId);
   res.status(204).send();
-});
+}));
+
+/**
+ * Books to go with the books in the cart, ranked over all of them
+ * together (see GET /api/books/:isbn/recommendations). An empty cart gets
+ * none.
+ *
+ * @route GET /api/cart/:userId/recommendations
+ * @param {string} req.params.userId - User's ID
+ * @param {string} [req.query.limit] - Most to return (default 8, at most 24)
+ * @returns {Array<Object>} BookRecommendation records, best first
+ */
+router.get('/:userId/recommendations', permitSelfOr('userId', 'carts:manage'), validate(recommendationQuerySchema, 'query'), asyncHandler(async (req, res) => {
+  const cart = await cartsRepository.findByUser(req.params.userId);
+  const isbns = cart ? cart.items.map(item => item.book.isbn) : [];
+  res.json(await recommendationsRepository.forBooks(isbns, req.query.limit ?? DEFAULT_RECOMMENDATIONS));
+}));
+
+/**
+ * Check out the user's cart.
+ *
+ * CHECKOUT PROCESS:
+ * 1. Validate the payment details (checkoutSchema: 13-19 digit card number,
+ *    MM/YY expiry date, 3-4 digit CVV)
+ * 2. Create the order from the cart in one transaction
+ *    (stock check, order insert, stock deduction, cart removal).
+ *    Stock deductions may fire the auto-replenish trigger.
+ *
+ * @route POST /api/cart/:userId/checkout
+ * @param {string} req.params.userId - User's ID
+ * @param {string} req.body.creditCardNumber - Card number
+ * @param {string} req.body.expiryDate - Expiry date (MM/YY)
+ * @param {string} req.body.cvv - Card verification value
+ * @returns {Object} Created order with 201 status
+ * @returns {Object} Error with 400 for invalid payment, empty cart or low stock
+ * @returns {Object} Error with 409 if a book needs a reorder but has no publisher
+ */
+router.post('/:userId/checkout', permitSelfOr('userId', 'carts:manage'), validate(checkoutSchema), asyncHandler(async (req, res) => {
+  const { userId } = req.params;
+
+  const order = await ordersRepository.createFromCart(userId);
+  res.status(201).json(order);
+}));
 
 module.exports = router;
@@ -0,0 +1,183 @@
+/**
+ * @fileoverview Categories API Routes
+ *
+ * This module defines REST API endpoints for the category taxonomy.
+ *
+ * @module routes/categories
+ *
+ * @description
+ * Endpoints:
+ * - GET    /api/categories     - Get all categories (public)
+ * - POST   /api/categories     - Add a category (admin)
+ * - PUT    /api/categories/:id - Update a category (admin)
+ * - DELETE /api/categories/:id - Delete a category (admin)
+ *
+ * Categories form a tree through parentId. The list is flat and ordered
+ * by sortOrder; clients build the tree. Filtering books by a category
+ * (GET /api/books?category=slug) includes its subcategories.
+ *
+ * Category Schema:
+ * {
+ *   id: string,              // Unique category identifier
+ *   name: string,            // Display name (unique)
+ *   slug: string,            // URL name (unique), e.g. 'popular-science'
+ *   parentId: string | null, // Parent category, null at the top level
+ *   color: string,           // Hex color for badges and cards
+ *   sortOrder: number        // Position among siblings
+ * }
+ *
+ * @requires express
+ */
+
+const express = require('express');
+const router = express.Router();
+
+/** Data access for the categories table */
+const categoriesRepository = require('../repositories/categoriesRepository');
+
+/** Error helpers for async handlers */
+const { asyncHandler, HttpError, ValidationError } = require('../middleware/errors');
+
+/** Request validation */
+const { validate } = require('../middleware/validate');
+const { categoryCreateSchema, categoryUpdateSchema, descendantIds, slugify } = require('bookstore-shared');
+
+/** Role checks (see middleware/authorize for the rules) */
+const { permit } = require('../middleware/authorize');
+
+// ============================================
+// CHECKS
+// ============================================
+
+/**
+ * Rejects a name or slug already used by another category.
+ *
+ * @param {Object} fields - Name and/or slug being set
+ * @param {string} [exceptId] - Category being updated
+ * @throws {ValidationError} If either value is taken
+ */
+async function assertUnique(fields, exceptId) {
+  const conflict = await categoriesRepository.findConflict(fields, exceptId);
+  if (!conflict) return;
+
+  if (fields.name !== undefined && conflict.name.toLowerCase() === fields.name.toLowerCase()) {
+    throw new ValidationError([{ field: 'name', message: 'A category with this name already exists' }]);
+  }
+  throw new ValidationError([{ field: 'slug', message: 'A category with this slug already exists' }]);
+}
+
+/**
+ * Rejects a parent that does not exist or that would make a loop
+ * (a category under itself or under one of its own subcategories).
+ *
+ * @param {string|null} parentId - Proposed parent
+ * @param {string} [id] - Category being moved (omitted when creating)
+ * @throws {ValidationError} If the parent is not allowed
+ */
+async function assertValidParent(parentId, id) {
+  if (parentId === null) return;
+
+  const categories = await categoriesRepository.findAll();
+  if (!categories.some(category => category.id === parentId)) {
+    throw new ValidationError([{ field: 'parentId', message: 'Parent category not found' }]);
+  }
+  if (id !== undefined && descendantIds(categories, id).has(parentId)) {
+    throw new ValidationError([{
+      field: 'parentId',
+      message: 'A category cannot be moved under itself or one of its subcategories'
+    }]);
+  }
+}
+
+// ============================================
+// CATEGORY ENDPOINTS
+// ============================================
+
+/**
+ * Get all categories.
+ *
+ * @route GET /api/categories
+ * @returns {Array<Object>} Categories ordered by sortOrder, then name
+ */
+router.get('/', asyncHandler(async (req, res) => {
+  res.json(await categoriesRepository.findAll());
+}));
+
+/**
+ * Add a category.
+ *
+ * @route POST /api/categories
+ * @param {string} req.body.name - Display name (required)
+ * @param {string} [req.body.slug] - URL name (derived from the name if omitted)
+ * @param {string|null} [req.body.parentId=null] - Parent category
+ * @param {string} [req.body.color='#64748b'] - Hex color
+ * @param {number} [req.body.sortOrder=0] - Position among siblings
+ * @returns {Object} Created category with 201 status
+ * @returns {Object} Error with 400 status for invalid fields, a taken name
+ *   or slug, or an unknown parent
+ */
+router.post('/', permit('categories:write'), validate(categoryCreateSchema), asyncHandler(async (req, res) => {
+  const category = { ...req.body, slug: req.body.slug ?? slugify(req.body.name) };
+  if (!category.slug) {
+    throw new ValidationError([{ field: 'slug', message: 'Enter a slug (the name has no letters or digits)' }]);
+  }
+
+  await assertUnique(category);
+  await assertValidParent(category.parentId);
+
+  res.status(201).json(await categoriesRepository.create(category));
+}));
+
+/**
+ * Update a category. Setting parentId moves it (and its subcategories)
+ * elsewhere in the tree; null makes it top-level.
+ *
+ * @route PUT /api/categories/:id
+ * @param {string} req.params.id - Category ID
+ * @param {Object} req.body - Fields to update
+ * @returns {Object} Updated category
+ * @returns {Object} Error with 404 status if not found
+ * @returns {Object} Error with 400 status for invalid fields, a taken name
+ *   or slug, or a parent that would make a loop
+ */
+router.put('/:id', permit('categories:write'), validate(categoryUpdateSchema), asyncHandler(async (req, res) => {
+  if (!(await categoriesRepository.findById(req.params.id))) {
+    return res.status(404).json({ error: 'Category not found' });
+  }
+
+  await assertUnique(req.body, req.params.id);
+  if (req.body.parentId !== undefined) {
+    await assertValidParent(req.body.parentId, req.params.id);
+  }
+
+  res.json(await categoriesRepository.update(req.params.id, req.body));
+}));
+
+/**
+ * Delete a category. Only categories without subcategories or books can
+ * be deleted, so no book is left uncategorized by accident.
+ *
+ * @route DELETE /api/categories/:id
+ * @param {string} req.params.id - Category ID
+ * @returns {void} 204 No Content on success
+ * @returns {Object} Error with 404 status if not found
+ * @returns {Object} Error with 409 status if the category is still in use
+ */
+router.delete('/:id', permit('categories:write'), asyncHandler(async (req, res) => {
+  if (!(await categoriesRepository.findById(req.params.id))) {
+    return res.status(404).json({ error: 'Category not found' });
+  }
+
+  const usage = await categoriesRepository.countUsage(req.params.id);
+  if (usage.children > 0) {
+    throw new HttpError(409, 'Category has subcategories; move or delete them first');
+  }
+  if (usage.books > 0) {
+    throw new HttpError(409, `Category is used by ${usage.books} book(s); recategorize them first`);
+  }
+
+  await categoriesRepository.remove(req.params.id);
+  res.status(204).send();
+}));
+
+module.exports = router;
@@ -8,11 +8,13 @@
  * 
  * @description
  * Endpoints:
- * - GET  /api/orders           - Get all orders (admin use)
- * - GET  /api/orders/user/:id  - Get orders for specific user
- * - GET  /api/orders/:id       - Get single order by ID
- * - POST /api/orders           - Create new order
- * - PUT  /api/orders/:id       - Update order (e.g., status)
+ * - GET  /api/orders           - Get all orders (admin, manager)
+ * - GET  /api/orders/user/:id  - Get orders for specific user (owner, admin or manager)
+ * - GET  /api/orders/:id       - Get single order by ID (owner, admin or manager)
+ * - POST /api/orders           - Create new order (for yourself; admin for anyone)
+ * - PUT  /api/orders/:id       - Update order status (admin)
+ * 
+ * Request bodies are validated by the bookstore-shared schemas (400 with a field list).
  * 
  * Order Lifecycle:
  * 1. pending   - Order created, awaiting processing
@@ -26,17 +28,18 @@
 const express = require('express');
 const router = express.Router();
 
-// ============================================
-// MOCK DATA STORE
-// ============================================
+/** Data access for customer orders */
+const ordersRepository = require('../repositories/ordersRepository');
 
-/**
- * In-memory orders database.
- * Stores all customer orders. In production, use a real database.
- * 
- * @type {Array<Object>}
- */
-let orders = [];
+/** Error helpers for async handlers */
+const { asyncHandler } = require('../middleware/errors');
+
+/** Role and ownership checks (see middleware/authorize for the rules) */
+const { permit, permitSelfOr, isSelfOr, forbidden } = require('../middleware/authorize');
+
+/** Request validation */
+const { validate } = require('../middleware/validate');
+const { orderCreateSchema, orderStatusSchema } = require('bookstore-shared');
 
 // ============================================
 // ORDER ENDPOINTS
@@ -49,9 +52,9 @@ let orders = [];
  * @route GET /api/orders
  * @returns {Array<Object>} Array of all order objects
  */
-router.get('/', (req, res) => {
-  res.json(orders);
-});
+router.get('/', permit('orders:readAll'), asyncHandler(async (req, res) => {
+  res.json(await ordersRepository.findAll());
+}));
 
 /**
  * Get all orders for a specific user.
@@ -61,10 +64,10 @@ router.get('/', (req, res) => {
  * @param {string} req.params.userId - User's ID
  * @returns {Array<Object>} Array of user's orders
  */
-router.get('/user/:userId', (req, res) => {
-  const userOrders = orders.filter(o => o.userId === req.params.userId);
+router.get('/user/:userId', permitSelfOr('userId', 'orders:readAll'), asyncHandler(async (req, res) => {
+  const userOrders = await ordersRepository.findByUser(req.params.userId);
   res.json(userOrders);
-});
+}));
 
 /**
  * Get a single order by ID.
@@ -72,61 +75,66 @@ router.get('/user/:userId', (req, res) => {
  * @route GET /api/orders/:id
  * @param {string} req.params.id - Order ID
  * @returns {Object} Order object
- * @returns {Object} Error with 404 if not found
+ * @returns {Object} Error with 404 if not found, 403 if it belongs to someone else
  */
-router.get('/:id', (req, res) => {
-  const order = orders.find(o => o.id === req.params.id);
+router.get('/:id', asyncHandler(async (req, res) => {
+  const order = await ordersRepository.findById(req.params.id);
   
   if (!order) {
     return res.status(404).json({ error: 'Order not found' });
   }
   
+  if (!isSelfOr(req.user, order.userId, 'orders:readAll')) {
+    throw forbidden();
+  }
+  
   res.json(order);
-});
+}));
 
 /**
  * Create a new order.
  * Auto-generates ID and timestamps. Sets initial status to 'pending'.
+ * Prices and the total come from the catalog, not the client.
  * 
  * @route POST /api/orders
  * @param {Object} req.body - Order data
  * @param {string} req.body.userId - Customer's user ID
- * @param {Array} req.body.items - Array of order items
- * @param {number} req.body.totalPrice - Total order amount
+ * @param {Array} req.body.items - Array of order items ({ isbn, quantity })
  * @returns {Object} Created order with 201 status
+ * @returns {Object} Error with 400 for invalid fields, unknown books or a
+ *   book listed twice
+ * @returns {Object} Error with 403 if the order is for another user
+ * @returns {Object} Error with 409 if a book is archived or not enough
+ *   copies are in stock
  */
-router.post('/', (req, res) => {
-  const newOrder = {
-    id: `ORD-${Date.now()}`,  // Generate unique ID using timestamp
-    ...req.body,
-    status: 'pending',         // Initial status
-    createdAt: new Date().toISOString()  // ISO timestamp
-  };
+router.post('/', validate(orderCreateSchema), asyncHandler(async (req, res) => {
+  if (!isSelfOr(req.user, req.body.userId, 'orders:manage')) {
+    throw forbidden();
+  }
   
-  orders.push(newOrder);
+  const newOrder = await ordersRepository.create(req.body);
   res.status(201).json(newOrder);
-});
+}));
 
 /**
- * Update an existing order.
- * Commonly used to update order status (e.g., to 'shipped' or 'delivered').
+ * Update an existing order's status (e.g., to 'shipped' or 'delivered').
  * 
  * @route PUT /api/orders/:id
  * @param {string} req.params.id - Order ID
- * @param {Object} req.body - Fields to update
+ * @param {string} req.body.status - New order status
  * @returns {Object} Updated order object
- * @returns {Object} Error with 404 if not found
+ * @returns {Object} Error with 404 if not found, 400 for an unknown status
  */
-router.put('/:id', (req, res) => {
-  const index = orders.findIndex(o => o.id === req.params.id);
+router.put('/:id', permit('orders:manage'), validate(orderStatusSchema), asyncHandler(async (req, res) => {
+  const { status } = req.body;
+
+  const order = await ordersRepository.updateStatus(req.params.id, status);
   
-  if (index === -1) {
+  if (!order) {
     return res.status(404).json({ error: 'Order not found' });
   }
   
-  // Merge existing order with updates
-  orders[index] = { ...orders[index], ...req.body };
-  res.json(orders[index]);
-});
+  res.json(order);
+}));
 
 module.exports = router;
@@ -0,0 +1,129 @@
+/**
+ * @fileoverview Price Rules API Routes
+ *
+ * This module defines REST API endpoints for scheduled book prices.
+ *
+ * @module routes/priceRules
+ *
+ * @description
+ * Endpoints (admin, manager):
+ * - GET  /api/price-rules            - List price rules
+ * - POST /api/price-rules            - Schedule a price for a book
+ * - POST /api/price-rules/:id/cancel - Cancel a scheduled or active rule
+ *
+ * A rule sets a book's price at startsAt and, with an endsAt, puts the
+ * previous price back then (e.g. a Black Friday sale). The price
+ * scheduler (services/priceScheduler) applies rules within a minute of
+ * their times; a rule created with a startsAt in the past is applied
+ * before the response is sent. Each price a rule sets is added to the
+ * book's price history (GET /api/books/:isbn/prices).
+ *
+ * Price Rule Schema:
+ * {
+ *   id: string,
+ *   isbn: string,          // Book the rule prices
+ *   title: string,         // Book title
+ *   format: string,        // Book format
+ *   price: number,         // Price while the rule is in effect
+ *   label: string | null,  // e.g. 'Black Friday'
+ *   startsAt: string,      // ISO 8601
+ *   endsAt: string | null, // null for a lasting change
+ *   status: string,        // 'scheduled', 'active', 'completed' or 'cancelled'
+ *   previousPrice: number | null // Price put back at endsAt
+ * }
+ *
+ * @requires express
+ */
+
+const express = require('express');
+const router = express.Router();
+
+/** Data access for price rules and books */
+const pricesRepository = require('../repositories/pricesRepository');
+const booksRepository = require('../repositories/booksRepository');
+
+/** Error helpers for async handlers */
+const { asyncHandler, ValidationError } = require('../middleware/errors');
+
+/** Request validation */
+const { validate } = require('../middleware/validate');
+const { priceRuleCreateSchema, priceRuleQuerySchema, normalizeIsbn } = require('bookstore-shared');
+
+/** Role checks (see middleware/authorize for the rules) */
+const { permit } = require('../middleware/authorize');
+
+router.use(permit('books:write'));
+
+// ============================================
+// ROUTES
+// ============================================
+
+/**
+ * List price rules.
+ *
+ * @route GET /api/price-rules
+ * @param {string} [req.query.isbn] - Rules for this book (any ISBN form)
+ * @param {string} [req.query.status] - Rules with this status
+ * @returns {Array<Object>} Rules ordered by start time
+ */
+router.get('/', validate(priceRuleQuerySchema, 'query'), asyncHandler(async (req, res) => {
+  const { isbn, status } = req.query;
+  res.json(await pricesRepository.findRules({
+    isbn: isbn ? (normalizeIsbn(isbn) ?? isbn) : undefined,
+    status
+  }));
+}));
+
+/**
+ * Schedule a price for a book.
+ *
+ * @route POST /api/price-rules
+ * @param {Object} req.body - PriceRuleCreateData
+ * @param {string} req.body.isbn - Book to price
+ * @param {number} req.body.price - Price from startsAt
+ * @param {string} [req.body.label] - Why the price changes
+ * @param {string} req.body.startsAt - When the price takes effect
+ * @param {string} [req.body.endsAt] - When the previous price comes back
+ * @returns {Object} Created rule with 201 status ('active' or
+ *   'completed' if it has already started)
+ * @returns {Object} Error with 400 status for invalid fields, an unknown
+ *   or archived book, or a rule overlapping another for the book
+ */
+router.post('/', validate(priceRuleCreateSchema), asyncHandler(async (req, res) => {
+  const book = await booksRepository.findByIsbn(req.body.isbn);
+  if (!book) {
+    throw new ValidationError([{ field: 'isbn', message: 'Book not found' }]);
+  }
+  if (book.archivedAt) {
+    throw new ValidationError([{ field: 'isbn', message: `"${book.title}" is archived` }]);
+  }
+
+  const rule = await pricesRepository.createRule(req.body);
+  if (Date.parse(rule.startsAt) <= Date.now()) {
+    await pricesRepository.applyDueRules(new Date());
+  }
+
+  res.status(201).json(await pricesRepository.findRuleById(rule.id));
+}));
+
+/**
+ * Cancel a price rule. Cancelling an active rule puts the previous price
+ * back, unless the book's price has been changed since the rule set it.
+ *
+ * @route POST /api/price-rules/:id/cancel
+ * @param {string} req.params.id - Rule ID
+ * @returns {Object} Cancelled rule
+ * @returns {Object} Error with 404 if not found, 400 if it has already
+ *   completed or been cancelled
+ */
+router.post('/:id/cancel', asyncHandler(async (req, res) => {
+  const rule = await pricesRepository.cancelRule(req.params.id);
+
+  if (!rule) {
+    return res.status(404).json({ error: 'Price rule not found' });
+  }
+
+  res.json(rule);
+}));
+
+module.exports = router;
@@ -0,0 +1,138 @@
+/**
+ * @fileoverview Publisher Orders API Routes
+ *
+ * This module defines REST API endpoints for stock replenishment orders
+ * placed with publishers. Different from customer orders (see orders.js).
+ *
+ * @module routes/publisherOrders
+ *
+ * @description
+ * Endpoints (admin and manager):
+ * - GET  /api/publisher-orders             - Get all publisher orders
+ * - POST /api/publisher-orders             - Place a manual replenishment order
+ * - POST /api/publisher-orders/:id/confirm - Confirm order (adds stock)
+ * - POST /api/publisher-orders/:id/cancel  - Cancel order
+ *
+ * Order Lifecycle:
+ * 1. Pending   - Created manually or by the check_stock_threshold trigger
+ * 2. Confirmed - Stock received; update_stock_on_confirm adds the quantity
+ * 3. Cancelled - No stock change
+ *
+ * @requires express
+ */
+
+const express = require('express');
+const router = express.Router();
+
+/** Data access for publisher orders, books and publishers */
+const publisherOrdersRepository = require('../repositories/publisherOrdersRepository');
+const booksRepository = require('../repositories/booksRepository');
+const publishersRepository = require('../repositories/publishersRepository');
+
+/** Error helpers for async handlers */
+const { asyncHandler, ValidationError } = require('../middleware/errors');
+
+/** Role checks (see middleware/authorize for the rules) */
+const { permit } = require('../middleware/authorize');
+
+/** Request validation */
+const { validate } = require('../middleware/validate');
+const { publisherOrderCreateSchema } = require('bookstore-shared');
+
+// ============================================
+// PUBLISHER ORDER ENDPOINTS
+// ============================================
+
+/**
+ * Get all publisher orders.
+ *
+ * @route GET /api/publisher-orders
+ * @returns {Array<Object>} Array of all publisher order objects
+ */
+router.get('/', permit('publisherOrders:read'), asyncHandler(async (req, res) => {
+  res.json(await publisherOrdersRepository.findAll());
+}));
+
+/**
+ * Place a new publisher order for restocking a book.
+ * The order goes to the book's publisher and must meet its minimum order.
+ *
+ * @route POST /api/publisher-orders
+ * @param {string} req.body.bookIsbn - ISBN of the book to reorder
+ * @param {number} [req.body.quantity=20] - Number of copies to order
+ * @returns {Object} Created publisher order with 201 status
+ * @returns {Object} Error with 400 status for an invalid ISBN, or a
+ *   quantity below the publisher's minimum order
+ * @returns {Object} Error with 404 status if the book does not exist
+ * @returns {Object} Error with 409 status if the book has no publisher
+ *   or is archived
+ */
+router.post('/', permit('publisherOrders:write'), validate(publisherOrderCreateSchema), asyncHandler(async (req, res) => {
+  const { bookIsbn, quantity } = req.body;
+
+  const book = await booksRepository.findByIsbn(bookIsbn);
+  if (!book) {
+    return res.status(404).json({ error: 'Book not found' });
+  }
+
+  if (book.archivedAt) {
+    return res.status(409).json({ error: `Cannot reorder "${book.title}": the book is archived` });
+  }
+
+  const publisher = book.publisherId && await publishersRepository.findById(book.publisherId);
+  if (!publisher) {
+    return res.status(409).json({ error: `Cannot reorder "${book.title}": the book has no publisher to order from` });
+  }
+  if (quantity < publisher.minimumOrder) {
+    throw new ValidationError([{
+      field: 'quantity',
+      message: `${publisher.name} orders at least ${publisher.minimumOrder} copies`
+    }]);
+  }
+
+  res.status(201).json(await publisherOrdersRepository.create(book, quantity));
+}));
+
+/**
+ * Confirm a pending publisher order.
+ * Adds the ordered quantity to the book's stock (update_stock_on_confirm).
+ *
+ * @route POST /api/publisher-orders/:id/confirm
+ * @param {string} req.params.id - Publisher order ID
+ * @returns {Object} Updated publisher order
+ * @returns {Object} Error with 404 if not found, 400 if not pending
+ */
+router.post('/:id/confirm', permit('publisherOrders:write'), asyncHandler(async (req, res) => {
+  const order = await publisherOrdersRepository.findById(req.params.id);
+
+  if (!order) {
+    return res.status(404).json({ error: 'Order not found' });
+  }
+  if (order.status !== 'Pending') {
+    return res.status(400).json({ error: 'Order is not pending' });
+  }
+
+  // The update_stock_on_confirm trigger adds the stock
+  res.json(await publisherOrdersRepository.updateStatus(order.id, 'Confirmed'));
+}));
+
+/**
+ * Cancel a publisher order.
+ * Does not affect book stock since the order was never fulfilled.
+ *
+ * @route POST /api/publisher-orders/:id/cancel
+ * @param {string} req.params.id - Publisher order ID
+ * @returns {Object} Updated publisher order
+ * @returns {Object} Error with 404 status if not found
+ */
+router.post('/:id/cancel', permit('publisherOrders:write'), asyncHandler(async (req, res) => {
+  const order = await publisherOrdersRepository.updateStatus(req.params.id, 'Cancelled');
+
+  if (!order) {
+    return res.status(404).json({ error: 'Order not found' });
+  }
+
+  res.json(order);
+}));
+
+module.exports = router;
@@ -0,0 +1,163 @@
+/**
+ * @fileoverview Publishers API Routes
+ *
+ * This module defines REST API endpoints for publishers (suppliers).
+ *
+ * @module routes/publishers
+ *
+ * @description
+ * Endpoints:
+ * - GET    /api/publishers     - Get all publishers (admin, manager)
+ * - GET    /api/publishers/:id - Get one publisher (admin, manager)
+ * - POST   /api/publishers     - Add a publisher (admin)
+ * - PUT    /api/publishers/:id - Update a publisher (admin)
+ * - DELETE /api/publishers/:id - Delete a publisher (admin)
+ *
+ * Books reference their publisher by ID, and replenishment orders are
+ * placed with it: automatic reorders order at least its minimum order.
+ *
+ * Publisher Schema:
+ * {
+ *   id: string,            // Unique publisher identifier
+ *   name: string,          // Company name (unique)
+ *   email: string | null,  // Ordering contact
+ *   address: string | null,
+ *   phone: string | null,
+ *   leadTimeDays: number,  // Days from order to delivery
+ *   minimumOrder: number,  // Fewest copies per order
+ *   bookCount: number      // Books supplied by the publisher
+ * }
+ *
+ * @requires express
+ */
+
+const express = require('express');
+const router = express.Router();
+
+/** Data access for the publishers table */
+const publishersRepository = require('../repositories/publishersRepository');
+
+/** Error helpers for async handlers */
+const { asyncHandler, HttpError, ValidationError } = require('../middleware/errors');
+
+/** Request validation */
+const { validate } = require('../middleware/validate');
+const { publisherCreateSchema, publisherUpdateSchema } = require('bookstore-shared');
+
+/** Role checks (see middleware/authorize for the rules) */
+const { permit } = require('../middleware/authorize');
+
+// ============================================
+// CHECKS
+// ============================================
+
+/**
+ * Rejects a name already used by another publisher.
+ *
+ * @param {string|undefined} name - Name being set
+ * @param {string} [exceptId] - Publisher being updated
+ * @throws {ValidationError} If the name is taken
+ */
+async function assertUniqueName(name, exceptId) {
+  if (name === undefined) return;
+
+  if (await publishersRepository.findConflict(name, exceptId)) {
+    throw new ValidationError([{ field: 'name', message: 'A publisher with this name already exists' }]);
+  }
+}
+
+// ============================================
+// PUBLISHER ENDPOINTS
+// ============================================
+
+/**
+ * Get all publishers.
+ *
+ * @route GET /api/publishers
+ * @returns {Array<Object>} Publishers ordered by name
+ */
+router.get('/', permit('publishers:read'), asyncHandler(async (req, res) => {
+  res.json(await publishersRepository.findAll());
+}));
+
+/**
+ * Get one publisher.
+ *
+ * @route GET /api/publishers/:id
+ * @param {string} req.params.id - Publisher ID
+ * @returns {Object} Publisher object
+ * @returns {Object} Error with 404 status if not found
+ */
+router.get('/:id', permit('publishers:read'), asyncHandler(async (req, res) => {
+  const publisher = await publishersRepository.findById(req.params.id);
+  if (!publisher) {
+    return res.status(404).json({ error: 'Publisher not found' });
+  }
+  res.json(publisher);
+}));
+
+/**
+ * Add a publisher.
+ *
+ * @route POST /api/publishers
+ * @param {string} req.body.name - Company name (required)
+ * @param {string|null} [req.body.email] - Ordering contact
+ * @param {string|null} [req.body.address] - Business address
+ * @param {string|null} [req.body.phone] - Contact phone number
+ * @param {number} [req.body.leadTimeDays=7] - Days from order to delivery
+ * @param {number} [req.body.minimumOrder=1] - Fewest copies per order
+ * @returns {Object} Created publisher with 201 status
+ * @returns {Object} Error with 400 status for invalid fields or a taken name
+ */
+router.post('/', permit('publishers:write'), validate(publisherCreateSchema), asyncHandler(async (req, res) => {
+  await assertUniqueName(req.body.name);
+  res.status(201).json(await publishersRepository.create(req.body));
+}));
+
+/**
+ * Update a publisher. A new name shows on all its books.
+ *
+ * @route PUT /api/publishers/:id
+ * @param {string} req.params.id - Publisher ID
+ * @param {Object} req.body - Fields to update (empty contact details clear them)
+ * @returns {Object} Updated publisher
+ * @returns {Object} Error with 404 status if not found
+ * @returns {Object} Error with 400 status for invalid fields or a taken name
+ */
+router.put('/:id', permit('publishers:write'), validate(publisherUpdateSchema), asyncHandler(async (req, res) => {
+  if (!(await publishersRepository.findById(req.params.id))) {
+    return res.status(404).json({ error: 'Publisher not found' });
+  }
+
+  await assertUniqueName(req.body.name, req.params.id);
+  res.json(await publishersRepository.update(req.params.id, req.body));
+}));
+
+/**
+ * Delete a publisher. Publishers that supply books or have orders are
+ * kept, so no book loses its supplier and order history stays intact.
+ *
+ * @route DELETE /api/publishers/:id
+ * @param {string} req.params.id - Publisher ID
+ * @returns {void} 204 No Content on success
+ * @returns {Object} Error with 404 status if not found
+ * @returns {Object} Error with 409 status if books or orders reference it
+ */
+router.delete('/:id', permit('publishers:write'), asyncHandler(async (req, res) => {
+  if (!(await publishersRepository.findById(req.params.id))) {
+    return res.status(404).json({ error: 'Publisher not found' });
+  }
+
+  const usage = await publishersRepository.countUsage(req.params.id);
+  if (usage.books > 0) {
+    throw new HttpError(409, `Publisher supplies ${usage.books} book(s); move them to another publisher first`);
+  }
+  if (usage.orders > 0) {
+    throw new HttpError(409, `Publisher has ${usage.orders} order(s) on record and cannot be deleted`);
+  }
+
+  await publishersRepository.remove(req.params.id);
+  res.status(204).send();
+}));
+
+module.exports = router;
@@ -0,0 +1,166 @@
+/**
+ * @fileoverview Reports API Routes
+ *
+ * This module defines REST API endpoints for sales analytics used by the
+ * admin dashboard and reports page. Reports are computed in SQL from the
+ * line items of customer orders.
+ *
+ * @module routes/reports
+ *
+ * @description
+ * Endpoints (admin and manager):
+ * - GET /api/reports/monthly-sales            - Sales for the previous month
+ * - GET /api/reports/daily-sales?date=        - Sales for one day (YYYY-MM-DD)
+ * - GET /api/reports/top-customers            - Top 5 customers (last 3 months)
+ * - GET /api/reports/top-selling-books        - Top 10 books (last 3 months)
+ * - GET /api/reports/book-order-count/:isbn   - Publisher orders for a book
+ * - GET /api/reports/price-periods?startDate=&endDate= - Sales at each price
+ *   of the books whose price changed between the dates
+ *
+ * @requires express
+ */
+
+const express = require('express');
+const router = express.Router();
+
+/** Sales aggregates and publisher order counts */
+const reportsRepository = require('../repositories/reportsRepository');
+const publisherOrdersRepository = require('../repositories/publisherOrdersRepository');
+const booksRepository = require('../repositories/booksRepository');
+
+/** Error helpers for async handlers */
+const { asyncHandler } = require('../middleware/errors');
+
+/** Request validation */
+const { validate } = require('../middleware/validate');
+const { pricePeriodQuerySchema } = require('bookstore-shared');
+
+/** Role checks (see middleware/authorize for the rules) */
+const { permit } = require('../middleware/authorize');
+
+/** Every report needs the reports:read permission */
+router.use(permit('reports:read'));
+
+// ============================================
+// HELPER FUNCTIONS
+// ============================================
+
+/**
+ * Formats a date as YYYY-MM-DD (local time).
+ *
+ * @param {Date} date - Date to format
+ * @returns {string} Formatted date
+ */
+function toDateString(date) {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+/**
+ * Returns the start of the three-month window used by the top-N reports.
+ *
+ * @returns {string} Date three months ago (YYYY-MM-DD)
+ */
+function threeMonthsAgo() {
+  const date = new Date();
+  date.setMonth(date.getMonth() - 3);
+  return toDateString(date);
+}
+
+// ============================================
+// REPORT ENDPOINTS
+// ============================================
+
+/**
+ * Total sales for the previous calendar month.
+ *
+ * @route GET /api/reports/monthly-sales
+ * @returns {Object} { totalSales, totalOrders, period }
+ */
+router.get('/monthly-sales', asyncHandler(async (req, res) => {
+  const now = new Date();
+  const lastMonth = new Date(now.getFullYear(), now.getMonth() - 1, 1);
+  const lastMonthEnd = new Date(now.getFullYear(), now.getMonth(), 0);
+
+  const totals = await reportsRepository.salesBetween(toDateString(lastMonth), toDateString(lastMonthEnd));
+
+  res.json({
+    ...totals,
+    period: `${lastMonth.toLocaleDateString()} - ${lastMonthEnd.toLocaleDateString()}`
+  });
+}));
+
+/**
+ * Total sales for a specific date.
+ *
+ * @route GET /api/reports/daily-sales
+ * @param {string} req.query.date - Date in YYYY-MM-DD format
+ * @returns {Object} { totalSales, totalOrders, period }
+ * @returns {Object} Error with 400 status for a malformed date
+ */
+router.get('/daily-sales', asyncHandler(async (req, res) => {
+  const date = String(req.query.date || '');
+
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(date)) {
+    return res.status(400).json({ error: 'Date must be in YYYY-MM-DD format' });
+  }
+
+  const totals = await reportsRepository.salesBetween(date, date);
+  res.json({ ...totals, period: date });
+}));
+
+/**
+ * Top 5 customers by purchase amount over the last three months.
+ *
+ * @route GET /api/reports/top-customers
+ * @returns {Array<Object>} TopCustomer records, highest spender first
+ */
+router.get('/top-customers', asyncHandler(async (req, res) => {
+  res.json(await reportsRepository.topCustomers(threeMonthsAgo(), 5));
+}));
+
+/**
+ * Top 10 books by copies sold over the last three months.
+ *
+ * @route GET /api/reports/top-selling-books
+ * @returns {Array<Object>} BookSalesReport records, best seller first
+ */
+router.get('/top-selling-books', asyncHandler(async (req, res) => {
+  res.json(await reportsRepository.topSellingBooks(threeMonthsAgo(), 10));
+}));
+
+/**
+ * Number of publisher orders placed for a book.
+ *
+ * @route GET /api/reports/book-order-count/:isbn
+ * @param {string} req.params.isbn - Book's ISBN
+ * @returns {Object} { isbn, title, format, orderCount }
+ */
+router.get('/book-order-count/:isbn', asyncHandler(async (req, res) => {
+  const { isbn } = req.params;
+  const book = await booksRepository.findByIsbn(isbn);
+
+  res.json({
+    isbn,
+    title: book ? book.title : 'Unknown',
+    format: book ? book.format : null,
+    orderCount: await publisherOrdersRepository.countByBook(isbn)
+  });
+}));
+
+/**
+ * Sales at each price, for the books whose price changed between two
+ * dates: shows how much of a change in revenue came with a price change.
+ *
+ * @route GET /api/reports/price-periods
+ * @param {string} req.query.startDate - First day (YYYY-MM-DD)
+ * @param {string} req.query.endDate - Last day (YYYY-MM-DD)
+ * @returns {Array<Object>} PricePeriodReport records ordered by title
+ * @returns {Object} Error with 400 status for missing or malformed dates
+ */
+router.get('/price-periods', validate(pricePeriodQuerySchema, 'query'), asyncHandler(async (req, res) => {
+  res.json(await reportsRepository.pricePeriods(req.query.startDate, req.query.endDate));
+}));
+
+module.exports = router;
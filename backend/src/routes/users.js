@@ -8,15 +8,24 @@
  * 
  * @description
  * Endpoints:
- * - POST /api/users/login    - Authenticate user with credentials
- * - POST /api/users/register - Create new customer account
- * - GET  /api/users/:id      - Retrieve user profile by ID
- * - PUT  /api/users/:id      - Update user profile
+ * - POST /api/users/login    - Authenticate user with credentials, start a session
+ * - POST /api/users/register - Create new customer account, start a session
+ * - POST /api/users/refresh  - Exchange a refresh token for new tokens
+ * - POST /api/users/logout   - End the current session (auth required)
+ * - GET  /api/users/me       - Retrieve the authenticated user (auth required)
+ * - GET  /api/users/:id      - Retrieve user profile by ID (self or admin)
+ * - PUT  /api/users/:id      - Update user profile (self or admin)
+ * 
+ * Request bodies are validated by the bookstore-shared schemas (400 with a field list).
  * 
  * Security Notes:
- * - Passwords are stored in plain text (demo only - use bcrypt in production)
- * - No JWT/session tokens (demo only - implement proper auth in production)
+ * - Passwords are stored as salted scrypt hashes (see services/passwords)
+ * - New passwords must satisfy the password policy
+ * - A password change revokes the user's other sessions and refresh tokens
+ * - Login and register return signed access/refresh tokens (see services/sessions)
  * - Password is excluded from all API responses
+ * - Users may change only the fields in SELF_PROFILE_FIELDS of their own
+ *   profile; admins may edit any profile, including the role
  * 
  * @requires express
  */
@@ -24,47 +33,27 @@
 const express = require('express');
 const router = express.Router();
 
-// ============================================
-// MOCK DATA STORE
-// ============================================
+/** Data access for the users table */
+const usersRepository = require('../repositories/usersRepository');
 
-/**
- * In-memory users database.
- * In production, this would be replaced with a real database.
- * 
- * @type {Array<Object>}
- * @property {string} id - Unique user identifier
- * @property {string} username - Login username
- * @property {string} password - User password (plain text for demo)
- * @property {string} email - User email address
- * @property {string} firstName - User's first name
- * @property {string} lastName - User's last name
- * @property {string} role - User role ('admin' or 'customer')
- * @property {string} [phone] - Optional phone number
- * @property {string} [shippingAddress] - Optional shipping address
- */
-let users = [
-  {
-    id: '1',
-    username: 'admin',
-    password: 'admin',
-    email: 'admin@bookstore.com',
-    firstName: 'Admin',
-    lastName: 'User',
-    role: 'admin'
-  },
-  {
-    id: '2',
-    username: 'john_doe',
-    password: 'password',
-    email: 'john@example.com',
-    firstName: 'John',
-    lastName: 'Doe',
-    role: 'customer',
-    phone: '555-1234',
-    shippingAddress: '123 Main St, City, ST 12345'
-  }
-];
+/** Password hashing and policy */
+const passwords = require('../services/passwords');
+
+/** Token issuing, refresh and revocation */
+const sessions = require('../services/sessions');
+
+/** Error helpers for async handlers */
+const { asyncHandler, ValidationError } = require('../middleware/errors');
+
+/** Request validation */
+const { validate } = require('../middleware/validate');
+const { loginSchema, registerSchema, refreshSchema, profileUpdateSchema } = require('bookstore-shared');
+
+/** Rejects requests without an authenticated user */
+const { requireAuth } = require('../middleware/auth');
+
+/** Ownership checks and the profile field whitelist */
+const { permitSelfOr, editableProfileFields, forbidden } = require('../middleware/authorize');
 
 // ============================================
 // AUTHENTICATION ENDPOINTS
@@ -78,23 +67,29 @@ let users = [
  * @param {Object} req.body - Login credentials
  * @param {string} req.body.username - User's username
  * @param {string} req.body.password - User's password
- * @returns {Object} User object (without password) on success
+ * @returns {Object} { user (without password), accessToken, refreshToken, expiresIn } on success
+ * @returns {Object} Error object with 400 status if a field is missing
  * @returns {Object} Error object with 401 status on failure
  */
-router.post('/login', (req, res) => {
+router.post('/login', validate(loginSchema), asyncHandler(async (req, res) => {
   const { username, password } = req.body;
   
-  // Find user matching both username and password
-  const user = users.find(u => u.username === username && u.password === password);
+  // Find user by username, then check the password against its hash.
+  // Unknown usernames still pay for a hash check so timing reveals nothing.
+  const user = await usersRepository.findByUsername(username);
+  const valid = user
+    ? await passwords.verifyPassword(password, user.password)
+    : await passwords.rejectPassword(password);
   
-  if (!user) {
+  if (!valid) {
     return res.status(401).json({ error: 'Invalid credentials' });
   }
   
   // Exclude password from response using destructuring
   const { password: _, ...userWithoutPassword } = user;
-  res.json(userWithoutPassword);
-});
+  const tokens = await sessions.startSession(user);
+  res.json({ user: userWithoutPassword, ...tokens });
+}));
 
 /**
  * User registration endpoint.
@@ -107,37 +102,79 @@ router.post('/login', (req, res) => {
  * @param {string} req.body.email - User's email
  * @param {string} req.body.firstName - User's first name
  * @param {string} req.body.lastName - User's last name
- * @param {string} [req.body.phone] - Optional phone number
- * @param {string} [req.body.shippingAddress] - Optional shipping address
- * @returns {Object} Created user object (without password) with 201 status
- * @returns {Object} Error object with 400 status if username exists
+ * @param {string} req.body.phone - Phone number
+ * @param {string} req.body.shippingAddress - Shipping address
+ * @returns {Object} { user (without password), accessToken, refreshToken, expiresIn } with 201 status
+ * @returns {Object} Error object with 400 status for invalid fields (including a
+ *   password that breaks the password policy) or an existing username or email
  */
-router.post('/register', (req, res) => {
-  const { username, email } = req.body;
+router.post('/register', validate(registerSchema), asyncHandler(async (req, res) => {
+  const { username, password } = req.body;
   
   // Check for duplicate username
-  if (users.find(u => u.username === username)) {
-    return res.status(400).json({ error: 'Username already exists' });
+  if (await usersRepository.findByUsername(username)) {
+    throw new ValidationError([{ field: 'username', message: 'Username already exists' }]);
   }
   
-  // Create new user with auto-generated ID and customer role
-  const newUser = {
-    id: String(users.length + 1),
+  // Create new user with auto-generated ID, customer role and hashed password
+  const newUser = await usersRepository.create({
     ...req.body,
+    password: await passwords.hashPassword(password),
     role: 'customer'  // All new registrations are customers
-  };
-  
-  users.push(newUser);
+  });
   
-  // Return user without password
+  // Return user without password, already logged in
   const { password: _, ...userWithoutPassword } = newUser;
-  res.status(201).json(userWithoutPassword);
-});
+  const tokens = await sessions.startSession(newUser);
+  res.status(201).json({ user: userWithoutPassword, ...tokens });
+}));
 
+/**
+ * Token refresh endpoint.
+ * Exchanges a refresh token for a new access/refresh token pair.
+ * The old refresh token stops working; reusing it ends the session.
+ * 
+ * @route POST /api/users/refresh
+ * @param {string} req.body.refreshToken - Current refresh token
+ * @returns {Object} { user (without password), accessToken, refreshToken, expiresIn }
+ * @returns {Object} Error object with 400 status if the token is missing
+ * @returns {Object} Error object with 401 status if the token or session is no longer valid
+ */
+router.post('/refresh', validate(refreshSchema), asyncHandler(async (req, res) => {
+  const { user, ...tokens } = await sessions.refreshSession(req.body.refreshToken);
+  
+  const { password: _, ...userWithoutPassword } = user;
+  res.json({ user: userWithoutPassword, ...tokens });
+}));
+
+/**
+ * Logout endpoint.
+ * Revokes the caller's session, invalidating its access and refresh tokens.
+ * 
+ * @route POST /api/users/logout
+ * @returns {void} 204 No Content
+ * @returns {Object} Error object with 401 status if not authenticated
+ */
+router.post('/logout', requireAuth, asyncHandler(async (req, res) => {
+  await sessions.endSession(req.sessionId);
+  res.status(204).send();
+}));
 // ============================================
 // PROFILE ENDPOINTS
 // ============================================
 
+/**
+ * Get the authenticated user.
+ * Used by the frontend to restore a session after a page reload.
+ * 
+ * @route GET /api/users/me
+ * @returns {Object} User object (without password)
+ * @returns {Object} Error object with 401 status if not authenticated
+ */
+router.get('/me', requireAuth, (req, res) => {
+  res.json(req.user);
+});
+
 /**
  * Get user profile by ID.
  * 
@@ -146,8 +183,8 @@ router.post('/register', (req, res) => {
  * @returns {Object} User object (without password)
  * @returns {Object} Error object with 404 status if not found
  */
-router.get('/:id', (req, res) => {
-  const user = users.find(u => u.id === req.params.id);
+router.get('/:id', permitSelfOr('id', 'users:manage'), asyncHandler(async (req, res) => {
+  const user = await usersRepository.findById(req.params.id);
   
   if (!user) {
     return res.status(404).json({ error: 'User not found' });
@@ -156,31 +193,63 @@ router.get('/:id', (req, res) => {
   // Exclude password from response
   const { password: _, ...userWithoutPassword } = user;
   res.json(userWithoutPassword);
-});
+}));
 
 /**
  * Update user profile.
  * Allows partial updates - only provided fields are updated.
+ * Username can never be changed; role only by admins. A new password
+ * is checked against the password policy and stored hashed, and ends the
+ * user's other sessions: all of them when an admin sets it, all but the
+ * caller's own when users change their own.
  * 
  * @route PUT /api/users/:id
  * @param {string} req.params.id - User ID
  * @param {Object} req.body - Fields to update
  * @returns {Object} Updated user object (without password)
+ * @returns {Object} Error object with 400 status for invalid fields (including a new
+ *   password that breaks the policy, or an unknown role)
+ * @returns {Object} Error object with 403 status for another user's profile or a
+ *   field the caller may not change
  * @returns {Object} Error object with 404 status if not found
  */
-router.put('/:id', (req, res) => {
-  const index = users.findIndex(u => u.id === req.params.id);
+router.put('/:id', permitSelfOr('id', 'users:manage'), validate(profileUpdateSchema), asyncHandler(async (req, res) => {
+  const changes = { ...req.body };
   
-  if (index === -1) {
-    return res.status(404).json({ error: 'User not found' });
+  // Reject the whole request if it touches a field outside the whitelist
+  const allowed = editableProfileFields(req.user, req.params.id);
+  if (Object.keys(changes).some(field => !allowed.includes(field))) {
+    throw forbidden();
+  }
+  
+  if (changes.password !== undefined) {
+    const existing = await usersRepository.findById(req.params.id);
+    if (!existing) {
+      return res.status(404).json({ error: 'User not found' });
+    }
+    
+    // The schema checked the rest of the policy; this adds the username rule
+    const policyError = passwords.checkPasswordPolicy(changes.password, existing.username);
+    if (policyError) {
+      throw new ValidationError([{ field: 'password', message: policyError }]);
+    }
+    
+    changes.password = await passwords.hashPassword(changes.password);
   }
   
-  // Merge existing user with updates (spread operator)
-  users[index] = { ...users[index], ...req.body };
+  const user = await usersRepository.update(req.params.id, changes);
+  
+  if (!user) {
+    return res.status(404).json({ error: 'User not found' });
+  }
+
+  if (changes.password !== undefined) {
+    await sessions.endOtherSessions(user.id, user.id === req.user.id ? req.sessionId : null);
+  }
   
   // Return updated user without password
-  const { password: _, ...userWithoutPassword } = users[index];
+  const { password: _, ...userWithoutPassword } = user;
   res.json(userWithoutPassword);
-});
+}));
 
 module.exports = router;
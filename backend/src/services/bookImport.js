@@ -0,0 +1,173 @@
+/**
+ * @fileoverview Catalog Import
+ *
+ * Checks and applies bulk imports of books (POST /api/books/import).
+ *
+ * @module services/bookImport
+ *
+ * @description
+ * An import is a list of records shaped like database/books.json: the
+ * publisher is named rather than given by ID, authors by name and
+ * categories by slug. Each row is checked on its own and given an action:
+ *
+ * - create  - New ISBN; the book is added
+ * - update  - ISBN already in the catalog and existing = 'upsert'; every
+ *             field in the row replaces the stored one (stock left out of
+ *             the row is kept)
+ * - skip    - ISBN already in the catalog and existing = 'skip'
+ * - invalid - The row has errors: a field fails bookImportRowSchema, an
+ *             unknown category or publisher, or an ISBN seen earlier in
+ *             the import
+ *
+ * A dry run only reports the actions. Applying saves every create and
+ * update in one transaction, and is refused (400, with the errors of
+ * every invalid row) unless all rows are valid, so an import is never
+ * half applied.
+ */
+
+const { bookImportRowSchema } = require('bookstore-shared');
+
+const booksRepository = require('../repositories/booksRepository');
+const categoriesRepository = require('../repositories/categoriesRepository');
+const publishersRepository = require('../repositories/publishersRepository');
+const { ValidationError } = require('../middleware/errors');
+const { toDetails } = require('../middleware/validate');
+
+/**
+ * Reads a row's field as sent, for reporting rows where it is invalid.
+ *
+ * @param {unknown} input - Row as sent
+ * @param {string} field - Field name
+ * @returns {string|null} The field if it is text
+ */
+function givenText(input, field) {
+  const value = input !== null && typeof input === 'object' ? input[field] : undefined;
+  return typeof value === 'string' ? value : null;
+}
+
+/**
+ * Reads one field of a row on its own, so rows with errors elsewhere are
+ * still checked for unknown categories, publishers and repeated ISBNs.
+ *
+ * @param {unknown} input - Row as sent
+ * @param {string} field - Field name
+ * @returns {*} The parsed field, or undefined if it is missing or invalid
+ */
+function parseField(input, field) {
+  const value = input !== null && typeof input === 'object' ? input[field] : undefined;
+  const result = bookImportRowSchema.shape[field].safeParse(value);
+  return result.success ? result.data : undefined;
+}
+
+/**
+ * Checks every row and decides what importing it does.
+ *
+ * @param {unknown[]} books - Rows as sent
+ * @param {'skip'|'upsert'} existing - What to do with ISBNs already in the catalog
+ * @returns {Promise<Array<Object>>} One entry per row: the report fields
+ *   (row, label, action, errors), the fields checked against the database,
+ *   and for valid rows the parsed book
+ */
+async function planImport(books, existing) {
+  const rows = books.map((input, i) => {
+    const result = bookImportRowSchema.safeParse(input);
+    return {
+      row: i + 1,
+      isbn: parseField(input, 'isbn'),
+      // Identifies the row in the report, as sent if invalid
+      label: {
+        isbn: parseField(input, 'isbn') ?? givenText(input, 'isbn'),
+        title: parseField(input, 'title') ?? givenText(input, 'title')
+      },
+      publisher: parseField(input, 'publisher'),
+      categories: parseField(input, 'categories') ?? [],
+      book: result.success ? result.data : null,
+      errors: result.success ? [] : toDetails(result.error)
+    };
+  });
+
+  // References are looked up once for the whole import
+  const [unknownSlugs, publisherIds, existingIsbns] = await Promise.all([
+    categoriesRepository.findUnknownSlugs([...new Set(rows.flatMap(entry => entry.categories))]),
+    publishersRepository.findIdsByName([...new Set(rows.map(entry => entry.publisher).filter(Boolean))]),
+    booksRepository.findExistingIsbns(rows.map(entry => entry.isbn).filter(Boolean))
+  ]);
+
+  const firstRowOf = new Map();
+  for (const entry of rows) {
+    const unknown = entry.categories.filter(slug => unknownSlugs.includes(slug));
+    if (unknown.length > 0) {
+      entry.errors.push({ field: 'categories', message: `Unknown category: ${unknown.join(', ')}` });
+    }
+    const publisherId = entry.publisher && publisherIds.get(entry.publisher.toLowerCase());
+    if (entry.publisher && !publisherId) {
+      entry.errors.push({ field: 'publisher', message: `Publisher not found: ${entry.publisher}` });
+    }
+    if (entry.book) entry.book.publisherId = publisherId;
+
+    if (entry.isbn && firstRowOf.has(entry.isbn)) {
+      entry.errors.push({ field: 'isbn', message: `Same ISBN as row ${firstRowOf.get(entry.isbn)}` });
+    } else if (entry.isbn) {
+      firstRowOf.set(entry.isbn, entry.row);
+    }
+  }
+
+  for (const entry of rows) {
+    if (entry.errors.length > 0) {
+      entry.action = 'invalid';
+    } else if (!existingIsbns.has(entry.isbn)) {
+      entry.action = 'create';
+    } else {
+      entry.action = existing === 'upsert' ? 'update' : 'skip';
+    }
+  }
+  return rows;
+}
+
+/**
+ * Checks an import and, unless it is a dry run, applies it.
+ *
+ * @param {Object} request - Validated body of POST /api/books/import
+ * @param {unknown[]} request.books - Rows to import
+ * @param {'skip'|'upsert'} request.existing - What to do with existing ISBNs
+ * @param {boolean} request.dryRun - Only report what would happen
+ * @returns {Promise<Object>} Import report (see bookImportReportSchema)
+ * @throws {ValidationError} If applying an import with invalid rows; fields
+ *   are named books.<index>.<field>
+ * @throws {HttpError} 409 if an update takes a book below its threshold
+ *   and the book has no publisher to reorder from
+ */
+async function importCatalog({ books, existing, dryRun }) {
+  const rows = await planImport(books, existing);
+
+  if (!dryRun) {
+    const invalid = rows.filter(entry => entry.action === 'invalid');
+    if (invalid.length > 0) {
+      throw new ValidationError(invalid.flatMap(entry => entry.errors.map(error => ({
+        field: `books.${entry.row - 1}${error.field ? `.${error.field}` : ''}`,
+        message: error.message
+      }))));
+    }
+
+    // The publisher name is only needed to find its ID
+    const toBook = ({ book: { publisher, ...book } }) => book;
+    await booksRepository.importBooks({
+      created: rows.filter(entry => entry.action === 'create').map(toBook),
+      updated: rows.filter(entry => entry.action === 'update').map(toBook)
+    });
+  }
+
+  const summary = { create: 0, update: 0, skip: 0, invalid: 0 };
+  for (const entry of rows) summary[entry.action]++;
+
+  return {
+    dryRun,
+    existing,
+    summary,
+    rows: rows.map(({ row, label, action, errors }) => ({ row, ...label, action, errors }))
+  };
+}
+
+module.exports = {
+  importCatalog
+};
@@ -0,0 +1,84 @@
+/**
+ * @fileoverview Cover Images
+ *
+ * Turns an uploaded cover into the sizes the pages show (COVER_SIZES in
+ * the bookstore-shared covers module) and stores them.
+ *
+ * @module services/covers
+ *
+ * @description
+ * The upload is decoded to make sure it really is a JPEG, PNG or WebP
+ * image (the type the browser declared is not trusted on its own), turned
+ * upright from its EXIF orientation, then saved once per size as WebP
+ * under covers/<random id>/. Every upload gets a new id, so a replaced
+ * cover never changes behind a cached URL.
+ *
+ * Stored files are kept when a book's cover is replaced or removed.
+ *
+ * @requires sharp
+ */
+
+const crypto = require('crypto');
+const sharp = require('sharp');
+const { COVER_SIZES, checkCoverFile } = require('bookstore-shared');
+
+const { getStorage } = require('../storage');
+const { ValidationError } = require('../middleware/errors');
+
+/** Formats (as sharp names them) accepted in an upload */
+const ACCEPTED_FORMATS = ['jpeg', 'png', 'webp'];
+
+/** WebP quality of the stored sizes (1-100) */
+const WEBP_QUALITY = 80;
+
+/**
+ * A 400 error about the uploaded file.
+ *
+ * @param {string} message - Problem with the file
+ * @returns {ValidationError} Error for the 'cover' field
+ */
+const invalidCover = message => new ValidationError([{ field: 'cover', message }]);
+
+/**
+ * Checks an uploaded cover and stores its sizes.
+ *
+ * @param {Object|undefined} file - Upload from multer (buffer, mimetype, size)
+ * @param {string} origin - Origin clients load stored files from,
+ *   e.g. 'http://localhost:5000'
+ * @returns {Promise<Object>} { imageUrl, sizes: { thumbnail, detail } }
+ *   with absolute URLs (see coverUploadSchema)
+ * @throws {ValidationError} If no file was sent, or it is not an accepted
+ *   image or too large
+ */
+async function storeCover(file, origin) {
+  if (!file) {
+    throw invalidCover('Choose a cover image');
+  }
+  const problem = checkCoverFile({ type: file.mimetype, size: file.size });
+  if (problem) {
+    throw invalidCover(problem);
+  }
+
+  const metadata = await sharp(file.buffer).metadata().catch(() => null);
+  if (!metadata || !ACCEPTED_FORMATS.includes(metadata.format)) {
+    throw invalidCover('The file is not a readable JPEG, PNG or WebP image');
+  }
+
+  const id = crypto.randomUUID();
+  const storage = getStorage();
+  const sizes = {};
+  for (const [size, { width, height }] of Object.entries(COVER_SIZES)) {
+    const data = await sharp(file.buffer)
+      .rotate()
+      .resize(width, height, { fit: 'inside', withoutEnlargement: true })
+      .webp({ quality: WEBP_QUALITY })
+      .toBuffer();
+    sizes[size] = new URL(await storage.save(`covers/${id}/${size}.webp`, data), origin).href;
+  }
+
+  return { imageUrl: sizes.detail, sizes };
+}
+
+module.exports = {
+  storeCover
+};
@@ -0,0 +1,95 @@
+/**
+ * @fileoverview Password Hashing
+ *
+ * Hashes and verifies user passwords, and checks new passwords against
+ * the password policy.
+ *
+ * @module services/passwords
+ *
+ * @description
+ * Stored Format:
+ *   scrypt$<salt>$<key>
+ * where salt (16 random bytes) and key (64 bytes) are base64 encoded.
+ * Every hash gets its own salt, so equal passwords hash differently.
+ *
+ * Verification derives the key again and compares it with
+ * crypto.timingSafeEqual, so the comparison time does not depend on how
+ * many bytes match. Stored values that are not in the format above
+ * (e.g. leftover plaintext) never verify.
+ *
+ * The password policy itself lives in bookstore-shared (passwordPolicy),
+ * where the request schemas use it too; it is re-exported here.
+ */
+
+const crypto = require('crypto');
+const { promisify } = require('util');
+const { checkPasswordPolicy } = require('bookstore-shared');
+
+const scrypt = promisify(crypto.scrypt);
+
+/** Prefix identifying the hashing scheme */
+const SCHEME = 'scrypt';
+
+/** Random salt length in bytes */
+const SALT_BYTES = 16;
+
+/** Derived key length in bytes */
+const KEY_BYTES = 64;
+
+// ============================================
+// HASHING
+// ============================================
+
+/**
+ * Hashes a password with a new random salt.
+ *
+ * @param {string} password - Plaintext password
+ * @returns {Promise<string>} Hash in the stored format
+ */
+async function hashPassword(password) {
+  const salt = crypto.randomBytes(SALT_BYTES);
+  const key = await scrypt(password, salt, KEY_BYTES);
+  return `${SCHEME}$${salt.toString('base64')}$${key.toString('base64')}`;
+}
+
+/**
+ * Checks a password against a stored hash in constant time.
+ *
+ * @param {string} password - Plaintext password to check
+ * @param {string} stored - Hash from hashPassword()
+ * @returns {Promise<boolean>} True if the password matches
+ */
+async function verifyPassword(password, stored) {
+  const [scheme, salt, key] = String(stored).split('$');
+  if (scheme !== SCHEME || !salt || !key) return false;
+
+  const expected = Buffer.from(key, 'base64');
+  if (expected.length !== KEY_BYTES) return false;
+
+  const actual = await scrypt(String(password), Buffer.from(salt, 'base64'), KEY_BYTES);
+  return crypto.timingSafeEqual(actual, expected);
+}
+
+/**
+ * Hash checked when a login names an unknown user, so that the response
+ * takes as long as a wrong password for a real user.
+ */
+const DUMMY_HASH = hashPassword(crypto.randomBytes(SALT_BYTES).toString('hex'));
+
+/**
+ * Burns the same time as verifyPassword() without a real hash.
+ *
+ * @param {string} password - Plaintext password from the request
+ * @returns {Promise<false>} Always false
+ */
+async function rejectPassword(password) {
+  await verifyPassword(password, await DUMMY_HASH);
+  return false;
+}
+
+module.exports = {
+  hashPassword,
+  verifyPassword,
+  rejectPassword,
+  checkPasswordPolicy
+};
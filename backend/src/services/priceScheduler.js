@@ -0,0 +1,67 @@
+/**
+ * @fileoverview Price Scheduler
+ *
+ * Applies scheduled price rules: sets a book's price when its rule starts
+ * and puts the previous price back when it ends.
+ *
+ * @module services/priceScheduler
+ *
+ * @description
+ * The scheduler checks for due rules when the server starts and then
+ * every PRICE_SCHEDULER_INTERVAL_MS milliseconds (default one minute), so
+ * a rule takes effect within that time of its startsAt or endsAt. The
+ * work itself is pricesRepository.applyDueRules(); a failed run is logged
+ * and retried at the next tick.
+ */
+
+const pricesRepository = require('../repositories/pricesRepository');
+
+/** Time between checks for due rules, in milliseconds */
+const INTERVAL_MS = Number(process.env.PRICE_SCHEDULER_INTERVAL_MS) || 60 * 1000;
+
+/** Timer of the running scheduler */
+let timer = null;
+
+/**
+ * Applies the rules due now, logging what changed.
+ *
+ * @returns {Promise<void>}
+ */
+async function runOnce() {
+  try {
+    const { started, ended } = await pricesRepository.applyDueRules(new Date());
+    if (started > 0 || ended > 0) {
+      console.log(`Price rules: ${started} started, ${ended} ended`);
+    }
+  } catch (err) {
+    console.error('Failed to apply price rules:', err.message);
+  }
+}
+
+/**
+ * Starts checking for due rules. Does nothing if already started; the
+ * timer does not keep the process alive on its own.
+ *
+ * @returns {void}
+ */
+function startPriceScheduler() {
+  if (timer) return;
+  runOnce();
+  timer = setInterval(runOnce, INTERVAL_MS);
+  timer.unref();
+}
+
+/**
+ * Stops the scheduler.
+ *
+ * @returns {void}
+ */
+function stopPriceScheduler() {
+  clearInterval(timer);
+  timer = null;
+}
+
+module.exports = {
+  startPriceScheduler,
+  stopPriceScheduler
+};
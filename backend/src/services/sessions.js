@@ -0,0 +1,212 @@
+/**
+ * @fileoverview Login Sessions and Tokens
+ *
+ * Issues, refreshes and revokes the signed tokens that authenticate
+ * API requests.
+ *
+ * @module services/sessions
+ *
+ * @description
+ * Tokens (JWT, HS256, signed with JWT_SECRET):
+ * - Access token  - { sub, role, sid, typ: 'access' }, valid ACCESS_TOKEN_TTL
+ *   seconds (default 15 minutes). Sent as "Authorization: Bearer <token>".
+ * - Refresh token - { sub, sid, jti, typ: 'refresh' }, valid REFRESH_TOKEN_TTL
+ *   seconds (default 7 days). Exchanged at POST /api/users/refresh.
+ *
+ * Each login creates a row in the sessions table (see
+ * repositories/sessionsRepository). Refreshing rotates the refresh token;
+ * reusing an old one revokes the session, since it means the token was
+ * copied. Logging out revokes the session, which also invalidates its
+ * access tokens because middleware/auth checks the session on every request.
+ * Changing a password revokes the user's other sessions the same way.
+ *
+ * Without JWT_SECRET a random secret is generated at startup, so tokens
+ * stop working when the server restarts.
+ */
+
+const crypto = require('crypto');
+const jwt = require('jsonwebtoken');
+
+const sessionsRepository = require('../repositories/sessionsRepository');
+const usersRepository = require('../repositories/usersRepository');
+const { HttpError } = require('../middleware/errors');
+
+/** Access token lifetime in seconds */
+const ACCESS_TOKEN_TTL = Number(process.env.ACCESS_TOKEN_TTL) || 15 * 60;
+
+/** Refresh token (and session) lifetime in seconds */
+const REFRESH_TOKEN_TTL = Number(process.env.REFRESH_TOKEN_TTL) || 7 * 24 * 60 * 60;
+
+/** Signing secret */
+const SECRET = process.env.JWT_SECRET || crypto.randomBytes(32).toString('hex');
+
+if (!process.env.JWT_SECRET) {
+  console.warn('JWT_SECRET is not set: using a random secret, sessions end when the server restarts.');
+}
+
+/** Only algorithm accepted when verifying */
+const ALGORITHM = 'HS256';
+
+// ============================================
+// TOKENS
+// ============================================
+
+/**
+ * Creates a random identifier for sessions and refresh tokens.
+ *
+ * @returns {string} 32 hex characters
+ */
+function randomId() {
+  return crypto.randomBytes(16).toString('hex');
+}
+
+/**
+ * Signs the token pair for a session.
+ *
+ * @param {Object} user - Session owner
+ * @param {string} sessionId - Session ID
+ * @param {string} refreshJti - ID for the refresh token
+ * @returns {Object} { accessToken, refreshToken, expiresIn }
+ */
+function signTokens(user, sessionId, refreshJti) {
+  const accessToken = jwt.sign(
+    { sub: user.id, role: user.role, sid: sessionId, typ: 'access' },
+    SECRET,
+    { algorithm: ALGORITHM, expiresIn: ACCESS_TOKEN_TTL }
+  );
+  const refreshToken = jwt.sign(
+    { sub: user.id, sid: sessionId, jti: refreshJti, typ: 'refresh' },
+    SECRET,
+    { algorithm: ALGORITHM, expiresIn: REFRESH_TOKEN_TTL }
+  );
+
+  return { accessToken, refreshToken, expiresIn: ACCESS_TOKEN_TTL };
+}
+
+/**
+ * Checks a token's signature, expiry and type.
+ *
+ * @param {string} token - Encoded JWT
+ * @param {'access'|'refresh'} type - Expected token type
+ * @returns {Object} Token payload
+ * @throws {HttpError} 401 if the token is invalid, expired or of the wrong type
+ */
+function verifyToken(token, type) {
+  let payload;
+  try {
+    payload = jwt.verify(String(token), SECRET, { algorithms: [ALGORITHM] });
+  } catch {
+    throw new HttpError(401, 'Invalid or expired token');
+  }
+
+  if (payload.typ !== type || !payload.sid) {
+    throw new HttpError(401, 'Invalid or expired token');
+  }
+  return payload;
+}
+
+// ============================================
+// SESSIONS
+// ============================================
+
+/**
+ * Starts a session for a user who just logged in or registered.
+ *
+ * @param {Object} user - Authenticated user
+ * @returns {Promise<Object>} { accessToken, refreshToken, expiresIn }
+ */
+async function startSession(user) {
+  const sessionId = randomId();
+  const refreshJti = randomId();
+
+  await sessionsRepository.create({
+    id: sessionId,
+    userId: user.id,
+    refreshJti,
+    ttlSeconds: REFRESH_TOKEN_TTL
+  });
+
+  return signTokens(user, sessionId, refreshJti);
+}
+
+/**
+ * Exchanges a refresh token for a new token pair.
+ *
+ * @param {string} refreshToken - Refresh token from startSession() or a previous refresh
+ * @returns {Promise<Object>} { user, accessToken, refreshToken, expiresIn }
+ * @throws {HttpError} 401 if the token or session is no longer valid
+ */
+async function refreshSession(refreshToken) {
+  const payload = verifyToken(refreshToken, 'refresh');
+  const session = await sessionsRepository.findActive(payload.sid);
+
+  if (!session) {
+    throw new HttpError(401, 'Session has ended');
+  }
+
+  const nextJti = randomId();
+  const rotated = await sessionsRepository.rotate(session.id, payload.jti, nextJti, REFRESH_TOKEN_TTL);
+
+  if (!rotated) {
+    // An older refresh token was replayed: end the session for everyone
+    await sessionsRepository.revoke(session.id);
+    throw new HttpError(401, 'Session has ended');
+  }
+
+  const user = await usersRepository.findById(session.userId);
+  if (!user) {
+    await sessionsRepository.revoke(session.id);
+    throw new HttpError(401, 'Session has ended');
+  }
+
+  return { user, ...signTokens(user, session.id, nextJti) };
+}
+
+/**
+ * Resolves an access token to its session.
+ *
+ * @param {string} accessToken - Access token from the Authorization header
+ * @returns {Promise<Object>} { userId, sessionId }
+ * @throws {HttpError} 401 if the token is invalid or its session has ended
+ */
+async function authenticateToken(accessToken) {
+  const payload = verifyToken(accessToken, 'access');
+  const session = await sessionsRepository.findActive(payload.sid);
+
+  if (!session || session.userId !== String(payload.sub)) {
+    throw new HttpError(401, 'Session has ended');
+  }
+
+  return { userId: session.userId, sessionId: session.id };
+}
+
+/**
+ * Ends a session (logout).
+ *
+ * @param {string} sessionId - Session ID
+ * @returns {Promise<void>}
+ */
+async function endSession(sessionId) {
+  await sessionsRepository.revoke(sessionId);
+}
+
+/**
+ * Ends every session of a user but one, e.g. after a password change, so
+ * whoever knew the old password is logged out everywhere else.
+ *
+ * @param {string} userId - User ID
+ * @param {string|null} keepSessionId - Session to keep (the caller's own),
+ *   or null to end them all
+ * @returns {Promise<void>}
+ */
+async function endOtherSessions(userId, keepSessionId) {
+  await sessionsRepository.revokeAllForUser(userId, keepSessionId);
+}
+
+module.exports = {
+  startSession,
+  refreshSession,
+  authenticateToken,
+  endSession,
+  endOtherSessions
+};
@@ -0,0 +1,98 @@
+/**
+ * @fileoverview File Storage
+ *
+ * Stores the files the API accepts (book covers) and serves them back.
+ * Callers name files by key, e.g. 'covers/<id>/thumbnail.webp', and get
+ * the path clients load them from; where the bytes live is up to the
+ * driver.
+ *
+ * @module storage
+ *
+ * @description
+ * Drivers:
+ * - local - Files on the server's disk under UPLOAD_DIR (default
+ *           backend/uploads), served by the API itself under /uploads.
+ *           Back the directory up with the database; a server with
+ *           several instances needs a shared directory.
+ *
+ * Every driver exposes the same interface:
+ * - save(key, data)  - Store a Buffer, returns the public path (e.g. '/uploads/covers/...')
+ * - remove(key)      - Delete a file (nothing happens if it does not exist)
+ * - handler()        - Express middleware serving the files, mounted at PUBLIC_PATH
+ *
+ * @requires express
+ */
+
+const fs = require('fs/promises');
+const path = require('path');
+const express = require('express');
+
+/** URL path the stored files are served under */
+const PUBLIC_PATH = '/uploads';
+
+/** Default directory of the local driver */
+const DEFAULT_UPLOAD_DIR = path.join(__dirname, '..', '..', 'uploads');
+
+/** Active storage, created on first use */
+let storage = null;
+
+// ============================================
+// DRIVERS
+// ============================================
+
+/**
+ * Stores files in a directory on the server's disk.
+ *
+ * @param {string} root - Directory holding the files (created as needed)
+ * @returns {Object} Storage with save, remove and handler
+ */
+function localDisk(root) {
+  /**
+   * Resolves a key inside the directory.
+   * Keys are made by the server, but a key leaving the directory is
+   * refused all the same.
+   */
+  const fileOf = key => {
+    const file = path.resolve(root, key);
+    if (!file.startsWith(root + path.sep)) {
+      throw new Error(`Invalid storage key: ${key}`);
+    }
+    return file;
+  };
+
+  return {
+    driver: 'local',
+    async save(key, data) {
+      const file = fileOf(key);
+      await fs.mkdir(path.dirname(file), { recursive: true });
+      await fs.writeFile(file, data);
+      return `${PUBLIC_PATH}/${key}`;
+    },
+    async remove(key) {
+      await fs.rm(fileOf(key), { force: true });
+    },
+    // Keys are never reused, so clients may cache files for good
+    handler: () => express.static(root, { immutable: true, maxAge: '1y', index: false })
+  };
+}
+
+// ============================================
+// PUBLIC API
+// ============================================
+
+/**
+ * Returns the configured storage.
+ *
+ * @returns {Object} Storage (see the interface above)
+ */
+function getStorage() {
+  if (!storage) {
+    storage = localDisk(path.resolve(process.env.UPLOAD_DIR || DEFAULT_UPLOAD_DIR));
+  }
+  return storage;
+}
+
+module.exports = {
+  PUBLIC_PATH,
+  getStorage
+};
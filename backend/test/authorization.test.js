@@ -0,0 +1,219 @@
+/**
+ * @fileoverview Authorization Tests
+ *
+ * Sends real requests to the API as customers, a manager and the admin,
+ * and checks that middleware/authorize.js turns away everyone it should
+ * with 403 (401 without a token), and no one else:
+ * - one request guarded by each permission in PERMISSIONS
+ * - every route on a user's own resources (permitSelfOr, isSelfOr)
+ * - the profile fields each caller may change (editableProfileFields)
+ *
+ * @module test/authorization
+ */
+
+const { describe, it, before, after } = require('node:test');
+const assert = require('node:assert/strict');
+
+const { startServer, api } = require('./helpers');
+const { PERMISSIONS } = require('../src/middleware/authorize');
+
+/** A book in the fixtures */
+const ISBN = '9780134685991';
+
+/** Roles checked against every permission */
+const ROLES = ['customer', 'manager', 'admin'];
+
+/**
+ * One request guarded by each permission. Allowed callers reach the
+ * handler, which may still refuse the (empty) request, e.g. with 400.
+ */
+const PERMISSION_REQUESTS = {
+  'books:write': ['POST', '/books', {}],
+  'books:delete': ['DELETE', '/books/978-0-00-000000-2'],
+  'categories:write': ['POST', '/categories', {}],
+  'authors:write': ['PUT', '/authors/1', {}],
+  'publishers:read': ['GET', '/publishers'],
+  'publishers:write': ['POST', '/publishers', {}],
+  'publisherOrders:read': ['GET', '/publisher-orders'],
+  'publisherOrders:write': ['POST', '/publisher-orders', {}],
+  'reports:read': ['GET', '/reports/monthly-sales'],
+  'orders:readAll': ['GET', '/orders'],
+  'orders:manage': ['PUT', '/orders/ORD-000', {}],
+  'carts:manage': ['GET', '/cart/:otherId'],
+  'users:manage': ['GET', '/users/:otherId']
+};
+
+/**
+ * Routes on a user's own resources; :userId is replaced by the user whose
+ * resource is requested.
+ */
+const OWNERSHIP_REQUESTS = [
+  ['GET', '/cart/:userId'],
+  ['POST', '/cart/:userId/items', {}],
+  ['PUT', `/cart/:userId/items/${ISBN}`, {}],
+  ['DELETE', `/cart/:userId/items/${ISBN}`],
+  ['DELETE', '/cart/:userId'],
+  ['GET', '/cart/:userId/recommendations'],
+  ['POST', '/cart/:userId/checkout', {}],
+  ['GET', '/orders/user/:userId'],
+  ['GET', '/users/:userId'],
+  ['PUT', '/users/:userId', {}]
+];
+
+describe('authorization', () => {
+  let server;
+  let client;
+  /** Access tokens by role, and each role's user ID */
+  const tokens = {};
+  const ids = {};
+  let otherId;
+  let otherToken;
+
+  before(async () => {
+    server = await startServer();
+    client = api(server);
+
+    tokens.admin = await client.login('admin');
+
+    const customer = await client.register('test_customer');
+    ids.customer = customer.id;
+    tokens.customer = customer.token;
+
+    const other = await client.register('test_other');
+    otherId = other.id;
+    otherToken = other.token;
+
+    const manager = await client.register('test_manager');
+    const promoted = await client.request('PUT', `/users/${manager.id}`, {
+      token: tokens.admin,
+      body: { role: 'manager' }
+    });
+    assert.equal(promoted.status, 200);
+    ids.manager = manager.id;
+    tokens.manager = await client.login('test_manager');
+  });
+
+  after(() => server.close());
+
+  // ============================================
+  // PERMISSIONS
+  // ============================================
+
+  describe('permissions', () => {
+    it('has a request for every permission', () => {
+      assert.deepEqual(Object.keys(PERMISSION_REQUESTS).sort(), Object.keys(PERMISSIONS).sort());
+    });
+
+    for (const [permission, [method, path, body]] of Object.entries(PERMISSION_REQUESTS)) {
+      const allowed = PERMISSIONS[permission];
+
+      it(`${permission}: ${method} ${path} is for ${allowed.join(' and ')} only`, async () => {
+        const url = path.replace(':otherId', otherId);
+
+        for (const role of ROLES) {
+          const { status, body: response } = await client.request(method, url, { token: tokens[role], body });
+          if (allowed.includes(role)) {
+            assert.notEqual(status, 403, `${role} should be allowed`);
+          } else {
+            assert.equal(status, 403, `${role} should be forbidden`);
+            assert.deepEqual(response, { error: 'You do not have permission to do that' });
+          }
+        }
+
+        const anonymous = await client.request(method, url, { body });
+        assert.equal(anonymous.status, 401);
+      });
+    }
+  });
+
+  // ============================================
+  // OWN RESOURCES
+  // ============================================
+
+  describe('own resources', () => {
+    for (const [method, path, body] of OWNERSHIP_REQUESTS) {
+      it(`${method} ${path} is for its owner`, async () => {
+        const own = await client.request(method, path.replace(':userId', ids.customer), { token: tokens.customer, body });
+        assert.notEqual(own.status, 403, 'the owner should be allowed');
+
+        const others = await client.request(method, path.replace(':userId', otherId), { token: tokens.customer, body });
+        assert.equal(others.status, 403, 'another customer should be forbidden');
+
+        const anonymous = await client.request(method, path.replace(':userId', ids.customer), { body });
+        assert.equal(anonymous.status, 401);
+      });
+    }
+
+    it('lets only the owner and order readers see an order', async () => {
+      const created = await client.request('POST', '/orders', {
+        token: tokens.customer,
+        body: { userId: ids.customer, items: [{ isbn: ISBN, quantity: 1 }] }
+      });
+      assert.equal(created.status, 201);
+      const path = `/orders/${created.body.id}`;
+
+      assert.equal((await client.request('GET', path, { token: tokens.customer })).status, 200);
+      assert.equal((await client.request('GET', path, { token: otherToken })).status, 403);
+      assert.equal((await client.request('GET', path, { token: tokens.manager })).status, 200);
+      assert.equal((await client.request('GET', path, { token: tokens.admin })).status, 200);
+    });
+
+    it('lets only order managers order for someone else', async () => {
+      const order = { userId: otherId, items: [{ isbn: ISBN, quantity: 1 }] };
+
+      assert.equal((await client.request('POST', '/orders', { token: tokens.customer, body: order })).status, 403);
+      assert.equal((await client.request('POST', '/orders', { token: tokens.manager, body: order })).status, 403);
+      assert.equal((await client.request('POST', '/orders', { token: tokens.admin, body: order })).status, 201);
+    });
+  });
+
+  // ============================================
+  // PROFILE FIELDS
+  // ============================================
+
+  describe('profile fields', () => {
+    it('lets users change their own details', async () => {
+      const { status, body } = await client.request('PUT', `/users/${ids.customer}`, {
+        token: tokens.customer,
+        body: { firstName: 'Changed', phone: '555-0100' }
+      });
+
+      assert.equal(status, 200);
+      assert.equal(body.firstName, 'Changed');
+      assert.equal(body.phone, '555-0100');
+    });
+
+    it('does not let customers or managers change their own role', async () => {
+      for (const role of ['customer', 'manager']) {
+        const { status } = await client.request('PUT', `/users/${ids[role]}`, {
+          token: tokens[role],
+          body: { role: 'admin' }
+        });
+        assert.equal(status, 403, `${role} should not change their role`);
+      }
+    });
+
+    it('rejects the whole update when one field is not allowed', async () => {
+      const { status } = await client.request('PUT', `/users/${ids.customer}`, {
+        token: tokens.customer,
+        body: { lastName: 'Sneaky', role: 'admin' }
+      });
+      assert.equal(status, 403);
+
+      const { body: profile } = await client.request('GET', `/users/${ids.customer}`, { token: tokens.customer });
+      assert.equal(profile.lastName, 'User');
+      assert.equal(profile.role, 'customer');
+    });
+
+    it('lets the admin change any profile, including the role', async () => {
+      const { status, body } = await client.request('PUT', `/users/${otherId}`, {
+        token: tokens.admin,
+        body: { lastName: 'Renamed', role: 'manager' }
+      });
+
+      assert.equal(status, 200);
+      assert.equal(body.lastName, 'Renamed');
+      assert.equal(body.role, 'manager');
+    });
+  });
+});
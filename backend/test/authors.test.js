@@ -0,0 +1,92 @@
+/**
+ * @fileoverview Author Merge Tests
+ *
+ * Merges authors over HTTP (POST /api/authors/:id/merge) and through
+ * authorsRepository.merge, and checks that an author is never merged
+ * with itself, however its id is written.
+ *
+ * @module test/authors
+ */
+
+const { describe, it, before, after } = require('node:test');
+const assert = require('node:assert/strict');
+
+const { startServer, api } = require('./helpers');
+const authorsRepository = require('../src/repositories/authorsRepository');
+
+/** The Art of Computer Programming, credited to Donald Knuth */
+const ISBN = '9780134685991';
+
+describe('author merges', () => {
+  let server;
+  let client;
+  let token;
+  let knuth;
+
+  before(async () => {
+    server = await startServer();
+    client = api(server);
+    token = await client.login('admin');
+
+    const { body: authors } = await client.request('GET', '/authors');
+    knuth = authors.find(author => author.name === 'Donald Knuth');
+  });
+
+  after(() => server.close());
+
+  /**
+   * The names credited on the test book.
+   *
+   * @returns {Promise<string[]>} Author names
+   */
+  async function creditedNames() {
+    const { body: book } = await client.request('GET', `/books/${ISBN}`);
+    return book.authors.map(author => author.name);
+  }
+
+  it('rejects merging an author with itself, even with a zero-padded id', async () => {
+    for (const [id, sourceId] of [[knuth.id, knuth.id], [`0${knuth.id}`, knuth.id], [knuth.id, `00${knuth.id}`]]) {
+      const { status, body } = await client.request('POST', `/authors/${id}/merge`, { token, body: { sourceId } });
+
+      assert.equal(status, 400, `${id} <- ${sourceId}`);
+      assert.deepEqual(body.details, [{ field: 'sourceId', message: 'An author cannot be merged with itself' }]);
+    }
+
+    const { status, body: author } = await client.request('GET', `/authors/${knuth.id}`);
+    assert.equal(status, 200);
+    assert.equal(author.bookCount, knuth.bookCount);
+    assert.deepEqual(await creditedNames(), ['Donald Knuth']);
+  });
+
+  it('rejects a self-merge in the repository too, changing nothing', async () => {
+    await assert.rejects(authorsRepository.merge(`0${knuth.id}`, knuth.id), { status: 400 });
+
+    assert.deepEqual(await creditedNames(), ['Donald Knuth']);
+  });
+
+  it('answers 404 for an unknown author', async () => {
+    const { status } = await client.request('POST', '/authors/999999/merge', { token, body: { sourceId: knuth.id } });
+
+    assert.equal(status, 404);
+    assert.deepEqual(await creditedNames(), ['Donald Knuth']);
+  });
+
+  it('moves a duplicate\'s books and names onto the author', async () => {
+    const created = await client.request('PUT', `/books/${ISBN}`, {
+      token,
+      body: { authors: ['Donald Knuth', 'D. E. Knuth'] }
+    });
+    assert.equal(created.status, 200);
+    const duplicate = created.body.authors.find(author => author.name === 'D. E. Knuth');
+
+    const { status, body: merged } = await client.request('POST', `/authors/${knuth.id}/merge`, {
+      token,
+      body: { sourceId: duplicate.id }
+    });
+
+    assert.equal(status, 200);
+    assert.ok(merged.aliases.includes('D. E. Knuth'));
+    assert.deepEqual(await creditedNames(), ['Donald Knuth']);
+    assert.equal((await client.request('GET', `/authors/${duplicate.id}`)).status, 404);
+  });
+});
@@ -0,0 +1,97 @@
+/**
+ * @fileoverview Cover Upload Tests
+ *
+ * Uploads a cover with POST /api/books/covers under a forged Host header
+ * and checks that the URLs it returns come from the configuration, not
+ * from the request.
+ *
+ * @module test/covers
+ */
+
+const { describe, it, before, after } = require('node:test');
+const assert = require('node:assert/strict');
+const http = require('http');
+
+const { startServer, api } = require('./helpers');
+
+/** A 1x1 PNG */
+const PNG_BYTES = Buffer.from(
+  'iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNk+M9QDwADhgGAWjR9awAAAABJRU5ErkJggg==',
+  'base64'
+);
+
+/** Separates the parts of the multipart body */
+const BOUNDARY = 'cover-test-boundary';
+
+describe('cover uploads', () => {
+  let server;
+  let token;
+
+  before(async () => {
+    server = await startServer();
+    token = await api(server).login('admin');
+  });
+
+  after(() => {
+    delete process.env.PUBLIC_URL;
+    return server.close();
+  });
+
+  /**
+   * Uploads the test PNG with the Host header set to another site (fetch
+   * does not let a client set Host, so the request is made with http).
+   *
+   * @returns {Promise<{status: number, body: Object}>} Response
+   */
+  function uploadWithForgedHost() {
+    const url = new URL(`${server.url}/books/covers`);
+    const body = Buffer.concat([
+      Buffer.from(
+        `--${BOUNDARY}\r\nContent-Disposition: form-data; name="cover"; filename="cover.png"\r\n` +
+        'Content-Type: image/png\r\n\r\n'
+      ),
+      PNG_BYTES,
+      Buffer.from(`\r\n--${BOUNDARY}--\r\n`)
+    ]);
+
+    return new Promise((resolve, reject) => {
+      const request = http.request({
+        host: url.hostname,
+        port: url.port,
+        path: url.pathname,
+        method: 'POST',
+        headers: {
+          Host: 'attacker.example',
+          Authorization: `Bearer ${token}`,
+          'Content-Type': `multipart/form-data; boundary=${BOUNDARY}`,
+          'Content-Length': body.length
+        }
+      }, response => {
+        let text = '';
+        response.setEncoding('utf8');
+        response.on('data', chunk => { text += chunk; });
+        response.on('end', () => resolve({ status: response.statusCode, body: JSON.parse(text) }));
+      });
+      request.on('error', reject);
+      request.end(body);
+    });
+  }
+
+  it('ignores the Host header without PUBLIC_URL', async () => {
+    const { status, body } = await uploadWithForgedHost();
+
+    assert.equal(status, 201);
+    for (const url of [body.imageUrl, body.sizes.thumbnail, body.sizes.detail]) {
+      assert.match(url, /^http:\/\/localhost:\d+\/uploads\/covers\//);
+    }
+  });
+
+  it('builds the URLs from PUBLIC_URL', async () => {
+    process.env.PUBLIC_URL = 'https://books.example.com';
+
+    const { status, body } = await uploadWithForgedHost();
+
+    assert.equal(status, 201);
+    assert.match(body.imageUrl, /^https:\/\/books\.example\.com\/uploads\/covers\/[0-9a-f-]+\/detail\.webp$/);
+  });
+});
@@ -0,0 +1,71 @@
+/**
+ * @fileoverview Error Response Tests
+ *
+ * Checks that requests the body parser cannot read, and ids too large
+ * for an INTEGER column, get a client error in the usual { error }
+ * shape, not a 500.
+ *
+ * @module test/errors
+ */
+
+const { describe, it, before, after } = require('node:test');
+const assert = require('node:assert/strict');
+
+const { startServer, api } = require('./helpers');
+
+describe('error responses', () => {
+  let server;
+  let client;
+
+  before(async () => {
+    server = await startServer();
+    client = api(server);
+  });
+
+  after(() => server.close());
+
+  it('answers a malformed JSON body with 400', async () => {
+    const { status, body } = await client.request('POST', '/users/login', { body: '{bad' });
+
+    assert.equal(status, 400);
+    assert.deepEqual(body, { error: 'Request body is not valid JSON' });
+  });
+
+  it('answers a body over the size limit with 413', async () => {
+    const { status, body } = await client.request('POST', '/users/login', {
+      body: { username: 'x'.repeat(11 * 1024 * 1024), password: 'x' }
+    });
+
+    assert.equal(status, 413);
+    assert.deepEqual(body, { error: 'Request body is too large' });
+  });
+
+  it('answers ids beyond the INTEGER range as not found', async () => {
+    const token = await client.login('admin');
+    const huge = '99999999999';
+
+    for (const path of [`/users/${huge}`, `/publishers/${huge}`, `/authors/${huge}`]) {
+      assert.equal((await client.request('GET', path, { token })).status, 404, path);
+    }
+    // Like any user without a cart
+    const cart = await client.request('GET', `/cart/${huge}`, { token });
+    assert.equal(cart.status, 200);
+    assert.deepEqual(cart.body.items, []);
+    assert.equal((await client.request('GET', `/authors/${huge}`)).status, 404, 'anonymous author lookup');
+
+    const byAuthor = await client.request('GET', `/books?authorId=${huge}`);
+    assert.equal(byAuthor.status, 200);
+    assert.deepEqual(byAuthor.body, []);
+    const byPublisher = await client.request('GET', `/books/search?publisherId=${huge}`);
+    assert.notEqual(byPublisher.status, 500);
+  });
+
+  it('reads well-formed bodies as before', async () => {
+    const { status, body } = await client.request('POST', '/users/login', {
+      body: { username: 'admin', password: 'wrong' }
+    });
+
+    assert.equal(status, 401);
+    assert.deepEqual(body, { error: 'Invalid credentials' });
+  });
+});
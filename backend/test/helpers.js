@@ -0,0 +1,145 @@
+/**
+ * @fileoverview Test Helpers
+ *
+ * A fresh database and server for each test file.
+ *
+ * @module test/helpers
+ *
+ * @description
+ * Every test file runs in its own process (node --test), with its own
+ * in-memory PGlite database, migrated and loaded with the fixtures in
+ * ../../database. Settings from .env are ignored so the tests never
+ * touch a PostgreSQL server, and uploaded covers go to a temporary
+ * directory.
+ *
+ * - startDatabase()  - Opens, migrates and seeds the database
+ * - startServer()    - Also serves the application on a free port
+ * - api(server)      - Sends JSON requests to that server
+ */
+
+const fs = require('node:fs');
+const os = require('node:os');
+const path = require('node:path');
+
+// Set before anything reads them; dotenv never overrides a variable that is set
+process.env.DATABASE_URL = '';
+process.env.PGLITE_DATA_DIR = '';
+process.env.JWT_SECRET = 'test-secret';
+
+const db = require('../src/db');
+const migrator = require('../src/db/migrator');
+const { seed } = require('../src/db/seed');
+
+/** Passwords of the fixture accounts (see database/README.md) */
+const PASSWORDS = {
+  admin: 'admin',
+  john_doe: 'password'
+};
+
+/** Password for accounts registered by tests */
+const TEST_PASSWORD = 'Secret123';
+
+// ============================================
+// DATABASE AND SERVER
+// ============================================
+
+/**
+ * Opens the in-memory database and loads the schema and fixtures.
+ *
+ * @returns {Promise<Object>} Connection from db.init()
+ */
+async function startDatabase() {
+  const connection = await db.init();
+  const silent = () => {};
+  await migrator.migrateUp(connection, { log: silent });
+  await seed(connection, { log: silent });
+  return connection;
+}
+
+/**
+ * Starts the database and serves the application on a free port.
+ *
+ * @returns {Promise<{url: string, close: Function}>} Base URL of the API
+ *   (e.g. http://127.0.0.1:41234/api), and close() to stop the server
+ *   and the database and delete the uploads
+ */
+async function startServer() {
+  process.env.UPLOAD_DIR = fs.mkdtempSync(path.join(os.tmpdir(), 'bookstore-uploads-'));
+  await startDatabase();
+  const app = require('../src/app');
+  const server = await new Promise(resolve => {
+    const listening = app.listen(0, '127.0.0.1', () => resolve(listening));
+  });
+
+  return {
+    url: `http://127.0.0.1:${server.address().port}/api`,
+    async close() {
+      await new Promise(resolve => server.close(resolve));
+      await db.close();
+      fs.rmSync(process.env.UPLOAD_DIR, { recursive: true, force: true });
+    }
+  };
+}
+
+// ============================================
+// REQUESTS
+// ============================================
+
+/**
+ * Creates a JSON client for a running server.
+ *
+ * @param {{url: string}} server - Server from startServer()
+ * @returns {Object} Client:
+ *   - request(method, path, { token, body }) -> { status, body }
+ *   - login(username, password?) -> access token
+ *   - register(username) -> { id, token } of a new customer
+ */
+function api(server) {
+  async function request(method, path, { token, body } = {}) {
+    const headers = {};
+    if (token) headers.Authorization = `Bearer ${token}`;
+    if (body !== undefined) headers['Content-Type'] = 'application/json';
+
+    const response = await fetch(`${server.url}${path}`, {
+      method,
+      headers,
+      body: body === undefined ? undefined : (typeof body === 'string' ? body : JSON.stringify(body))
+    });
+    const text = await response.text();
+    return { status: response.status, body: text ? JSON.parse(text) : null };
+  }
+
+  async function login(username, password = PASSWORDS[username] ?? TEST_PASSWORD) {
+    const { status, body } = await request('POST', '/users/login', { body: { username, password } });
+    if (status !== 200) {
+      throw new Error(`Login as ${username} failed with ${status}: ${JSON.stringify(body)}`);
+    }
+    return body.accessToken;
+  }
+
+  async function register(username) {
+    const { status, body } = await request('POST', '/users/register', {
+      body: {
+        username,
+        password: TEST_PASSWORD,
+        email: `${username}@example.com`,
+        firstName: 'Test',
+        lastName: 'User',
+        phone: '555-0199',
+        shippingAddress: '1 Test Street, Springfield'
+      }
+    });
+    if (status !== 201) {
+      throw new Error(`Registering ${username} failed with ${status}: ${JSON.stringify(body)}`);
+    }
+    return { id: body.user.id, token: body.accessToken };
+  }
+
+  return { request, login, register };
+}
+
+module.exports = {
+  startDatabase,
+  startServer,
+  api
+};
@@ -0,0 +1,104 @@
+/**
+ * @fileoverview Order Tests
+ *
+ * Places orders with POST /api/orders and checks that they follow the
+ * checkout's rules: only books for sale, only copies in stock (which the
+ * order takes), each book once.
+ *
+ * @module test/orders
+ */
+
+const { describe, it, before, after } = require('node:test');
+const assert = require('node:assert/strict');
+
+const { startServer, api } = require('./helpers');
+
+/** The Art of Computer Programming: 25 in stock, threshold 5 */
+const ISBN = '9780134685991';
+
+/** A History of Modern Europe */
+const OTHER_ISBN = '9780199535569';
+
+describe('orders', () => {
+  let server;
+  let client;
+  let admin;
+  let customer;
+
+  before(async () => {
+    server = await startServer();
+    client = api(server);
+    admin = await client.login('admin');
+    customer = await client.register('test_orders');
+  });
+
+  after(() => server.close());
+
+  /**
+   * Places an order for the test customer.
+   *
+   * @param {Array<Object>} items - Line items { isbn, quantity }
+   * @returns {Promise<{status: number, body: Object}>} Response
+   */
+  function order(items) {
+    return client.request('POST', '/orders', { token: customer.token, body: { userId: customer.id, items } });
+  }
+
+  /**
+   * Copies of a book in stock.
+   *
+   * @param {string} isbn - Book ISBN
+   * @returns {Promise<number>} Quantity
+   */
+  async function stockOf(isbn) {
+    const { body } = await client.request('GET', `/books/${isbn}`);
+    return body.quantity;
+  }
+
+  it('takes the ordered copies from stock', async () => {
+    const before = await stockOf(ISBN);
+
+    const { status, body } = await order([{ isbn: ISBN, quantity: 2 }]);
+
+    assert.equal(status, 201);
+    assert.deepEqual(body.items.map(item => [item.isbn, item.quantity]), [[ISBN, 2]]);
+    assert.equal(await stockOf(ISBN), before - 2);
+  });
+
+  it('rejects more copies than are in stock, changing nothing', async () => {
+    const before = await stockOf(ISBN);
+    const { body: ordersBefore } = await client.request('GET', '/orders', { token: admin });
+
+    const { status, body } = await order([{ isbn: OTHER_ISBN, quantity: 1 }, { isbn: ISBN, quantity: 100000 }]);
+
+    assert.equal(status, 409);
+    assert.equal(body.error, `Not enough stock for "The Art of Computer Programming". Available: ${before}`);
+    assert.equal(await stockOf(ISBN), before);
+    const { body: ordersAfter } = await client.request('GET', '/orders', { token: admin });
+    assert.equal(ordersAfter.length, ordersBefore.length);
+  });
+
+  it('rejects archived books', async () => {
+    assert.equal((await client.request('POST', `/books/${OTHER_ISBN}/archive`, { token: admin })).status, 200);
+
+    const { status, body } = await order([{ isbn: OTHER_ISBN, quantity: 1 }]);
+
+    assert.equal(status, 409);
+    assert.equal(body.error, '"A History of Modern Europe" is no longer for sale');
+    await client.request('POST', `/books/${OTHER_ISBN}/unarchive`, { token: admin });
+  });
+
+  it('rejects a book listed twice, in any ISBN form', async () => {
+    const { status, body } = await order([{ isbn: ISBN, quantity: 1 }, { isbn: '978-0-13-468599-1', quantity: 1 }]);
+
+    assert.equal(status, 400);
+    assert.deepEqual(body.details, [{ field: 'items.1.isbn', message: 'Same book as item 1' }]);
+  });
+
+  it('gives orders placed together different ids', async () => {
+    const responses = await Promise.all([1, 2, 3].map(() => order([{ isbn: OTHER_ISBN, quantity: 1 }])));
+
+    assert.deepEqual(responses.map(response => response.status), [201, 201, 201]);
+    assert.equal(new Set(responses.map(response => response.body.id)).size, 3);
+  });
+});
@@ -0,0 +1,100 @@
+/**
+ * @fileoverview Session Revocation Tests
+ *
+ * Changes passwords with PUT /api/users/:id and checks which sessions
+ * survive: the caller's own when users change their password, none when
+ * an admin sets it, and all of them for other profile changes.
+ *
+ * @module test/sessions
+ */
+
+const { describe, it, before, after } = require('node:test');
+const assert = require('node:assert/strict');
+
+const { startServer, api } = require('./helpers');
+
+describe('sessions after a password change', () => {
+  let server;
+  let client;
+  let admin;
+
+  before(async () => {
+    server = await startServer();
+    client = api(server);
+    admin = await client.login('admin');
+  });
+
+  after(() => server.close());
+
+  /**
+   * Logs in and keeps both tokens.
+   *
+   * @param {string} username - Account to log in as
+   * @param {string} password - Its password
+   * @returns {Promise<{accessToken: string, refreshToken: string}>} Tokens
+   */
+  async function logIn(username, password) {
+    const { status, body } = await client.request('POST', '/users/login', { body: { username, password } });
+    assert.equal(status, 200);
+    return body;
+  }
+
+  /**
+   * Whether a session's access token still authenticates.
+   *
+   * @param {{accessToken: string}} session - Tokens from logIn()
+   * @returns {Promise<number>} Status of GET /api/users/me
+   */
+  async function meStatus(session) {
+    return (await client.request('GET', '/users/me', { token: session.accessToken })).status;
+  }
+
+  /**
+   * Status of exchanging a session's refresh token.
+   *
+   * @param {{refreshToken: string}} session - Tokens from logIn()
+   * @returns {Promise<number>} Status of POST /api/users/refresh
+   */
+  async function refreshStatus(session) {
+    return (await client.request('POST', '/users/refresh', { body: { refreshToken: session.refreshToken } })).status;
+  }
+
+  it('ends the user\'s other sessions but keeps the one that changed it', async () => {
+    const { id } = await client.register('test_sessions_self');
+    const current = await logIn('test_sessions_self', 'Secret123');
+    const other = await logIn('test_sessions_self', 'Secret123');
+
+    const { status } = await client.request('PUT', `/users/${id}`, {
+      token: current.accessToken,
+      body: { password: 'Changed456' }
+    });
+
+    assert.equal(status, 200);
+    assert.equal(await meStatus(current), 200);
+    assert.equal(await meStatus(other), 401);
+    assert.equal(await refreshStatus(other), 401);
+    assert.equal(await refreshStatus(current), 200);
+  });
+
+  it('ends every session when an admin sets the password', async () => {
+    const { id } = await client.register('test_sessions_admin');
+    const session = await logIn('test_sessions_admin', 'Secret123');
+
+    const { status } = await client.request('PUT', `/users/${id}`, { token: admin, body: { password: 'Changed456' } });
+
+    assert.equal(status, 200);
+    assert.equal(await meStatus(session), 401);
+    assert.equal(await refreshStatus(session), 401);
+    assert.equal((await client.request('GET', '/users/me', { token: admin })).status, 200);
+  });
+
+  it('keeps every session for other profile changes', async () => {
+    const { id, token } = await client.register('test_sessions_profile');
+    const other = await logIn('test_sessions_profile', 'Secret123');
+
+    const { status } = await client.request('PUT', `/users/${id}`, { token, body: { firstName: 'Renamed' } });
+
+    assert.equal(status, 200);
+    assert.equal(await meStatus(other), 200);
+  });
+});
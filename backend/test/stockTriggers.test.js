@@ -0,0 +1,86 @@
+/**
+ * @fileoverview Stock Trigger Tests
+ *
+ * Checks the stock rules the database enforces (migrations 001 and 007)
+ * through the repositories, on an embedded PGlite database:
+ * - check_stock_threshold places a publisher order when stock drops
+ *   below the threshold
+ * - update_stock_on_confirm adds the ordered copies when that order is
+ *   confirmed
+ * - the check_quantity_non_negative constraint rejects negative stock
+ *
+ * @module test/stockTriggers
+ */
+
+const { describe, it, before, after } = require('node:test');
+const assert = require('node:assert/strict');
+
+const { startDatabase } = require('./helpers');
+const db = require('../src/db');
+const booksRepository = require('../src/repositories/booksRepository');
+const publisherOrdersRepository = require('../src/repositories/publisherOrdersRepository');
+
+/** The Art of Computer Programming: 25 in stock, threshold 5, from Addison-Wesley (minimum order 10) */
+const ISBN = '9780134685991';
+
+/**
+ * The book's pending publisher orders.
+ *
+ * @returns {Promise<Array<Object>>} Orders, oldest first
+ */
+async function pendingOrders() {
+  const orders = await publisherOrdersRepository.findAll();
+  return orders.filter(order => order.bookIsbn === ISBN && order.status === 'Pending');
+}
+
+describe('stock triggers', () => {
+  before(startDatabase);
+  after(() => db.close());
+
+  it('does not reorder while stock stays at or above the threshold', async () => {
+    const book = await booksRepository.update(ISBN, { quantity: 5 });
+
+    assert.equal(book.quantity, 5);
+    assert.deepEqual(await pendingOrders(), []);
+  });
+
+  it('orders from the publisher when stock drops below the threshold', async () => {
+    const ordersBefore = await publisherOrdersRepository.countByBook(ISBN);
+
+    const book = await booksRepository.update(ISBN, { quantity: 4 });
+
+    assert.equal(book.quantity, 4);
+    assert.equal(await publisherOrdersRepository.countByBook(ISBN), ordersBefore + 1);
+    const [order] = await pendingOrders();
+    assert.equal(order.publisher, 'Addison-Wesley');
+    assert.equal(order.quantity, 20);
+  });
+
+  it('does not reorder again while stock stays below the threshold', async () => {
+    await booksRepository.update(ISBN, { quantity: 2 });
+
+    assert.equal((await pendingOrders()).length, 1);
+  });
+
+  it('restocks the book when the order is confirmed', async () => {
+    const [order] = await pendingOrders();
+
+    const confirmed = await publisherOrdersRepository.updateStatus(order.id, 'Confirmed');
+
+    assert.equal(confirmed.status, 'Confirmed');
+    assert.equal((await booksRepository.findByIsbn(ISBN)).quantity, 2 + order.quantity);
+    assert.deepEqual(await pendingOrders(), []);
+  });
+
+  it('rejects negative stock and keeps the book as it was', async () => {
+    const ordersBefore = await publisherOrdersRepository.countByBook(ISBN);
+
+    await assert.rejects(booksRepository.update(ISBN, { quantity: -1 }), {
+      code: '23514',
+      constraint: 'check_quantity_non_negative'
+    });
+
+    assert.equal((await booksRepository.findByIsbn(ISBN)).quantity, 22);
+    assert.equal(await publisherOrdersRepository.countByBook(ISBN), ordersBefore);
+  });
+});
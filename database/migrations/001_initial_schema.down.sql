@@ -0,0 +1,33 @@
+-- =============================================
+-- MIGRATION 001 (DOWN): DROP INITIAL BOOKSTORE SCHEMA
+-- =============================================
+--
+-- Reverses 001_initial_schema.up.sql. Objects are dropped in reverse
+-- dependency order: triggers and their functions first, then tables
+-- that reference other tables, then the referenced tables.
+--
+-- WARNING: This deletes all bookstore data.
+-- =============================================
+
+-- ---------------------------------------------
+-- TRIGGERS & FUNCTIONS
+-- ---------------------------------------------
+
+DROP TRIGGER IF EXISTS trigger_confirm_order ON publisher_orders;
+DROP FUNCTION IF EXISTS update_stock_on_confirm();
+
+DROP TRIGGER IF EXISTS trigger_auto_replenish ON books;
+DROP FUNCTION IF EXISTS check_stock_threshold();
+
+-- ---------------------------------------------
+-- TABLES
+-- ---------------------------------------------
+
+DROP TABLE IF EXISTS publisher_orders;
+DROP TABLE IF EXISTS publishers;
+DROP TABLE IF EXISTS cart_items;
+DROP TABLE IF EXISTS carts;
+DROP TABLE IF EXISTS order_items;
+DROP TABLE IF EXISTS orders;
+DROP TABLE IF EXISTS books;
+DROP TABLE IF EXISTS users;
@@ -1,9 +1,11 @@
 -- =============================================
--- BOOKSTORE DATABASE SCHEMA
+-- MIGRATION 001 (UP): INITIAL BOOKSTORE SCHEMA
 -- =============================================
 -- 
 -- This SQL schema defines the complete database structure for the
 -- online bookstore system. Designed for PostgreSQL.
+-- Later migrations in this folder build on it; apply them in order
+-- with the backend's migration runner (npm run db:migrate).
 --
 -- DATABASE OVERVIEW:
 -- -----------------
@@ -69,8 +71,8 @@ CREATE TABLE users (
 -- ISBN is used as primary key (natural key).
 
 CREATE TABLE books (
-    -- Primary key: ISBN-13 format (e.g., '978-0-13-468599-1')
-    isbn VARCHAR(13) PRIMARY KEY,
+    -- Primary key: hyphenated ISBN-13 format (e.g., '978-0-13-468599-1', 17 chars)
+    isbn VARCHAR(17) PRIMARY KEY,
     
     -- Book metadata
     title VARCHAR(255) NOT NULL,
@@ -133,7 +135,7 @@ CREATE TABLE order_items (
     order_id VARCHAR(50) REFERENCES orders(id),
     
     -- Foreign key to books table
-    book_isbn VARCHAR(13) REFERENCES books(isbn),
+    book_isbn VARCHAR(17) REFERENCES books(isbn),
     
     -- Quantity ordered
     quantity INT NOT NULL,
@@ -171,10 +173,13 @@ CREATE TABLE cart_items (
     cart_id INT REFERENCES carts(user_id),
     
     -- Foreign key to books table
-    book_isbn VARCHAR(13) REFERENCES books(isbn),
+    book_isbn VARCHAR(17) REFERENCES books(isbn),
     
     -- Quantity in cart (default 1)
-    quantity INT DEFAULT 1
+    quantity INT DEFAULT 1,
+    
+    -- A book appears at most once per cart (quantity is increased instead)
+    UNIQUE (cart_id, book_isbn)
 );
 
 -- =============================================
@@ -205,7 +210,7 @@ CREATE TABLE publisher_orders (
     id VARCHAR(50) PRIMARY KEY,
     
     -- Foreign key to books table - which book to order
-    book_isbn VARCHAR(13) REFERENCES books(isbn),
+    book_isbn VARCHAR(17) REFERENCES books(isbn),
     
     -- Foreign key to publishers table - who to order from
     publisher_id INT REFERENCES publishers(id),
@@ -259,7 +264,9 @@ BEGIN
         -- Insert automatic publisher order
         INSERT INTO publisher_orders (id, book_isbn, publisher_id, quantity, status)
         VALUES (
-            'PO-' || CAST(extract(epoch from now()) as VARCHAR), -- Generate unique ID
+            -- Generate unique ID (now() is fixed within a transaction, so a
+            -- checkout that drops several books below threshold needs the ISBN)
+            'PO-' || CAST(extract(epoch from now()) as VARCHAR) || '-' || NEW.isbn,
             NEW.isbn,                                              -- Book being ordered
             (SELECT id FROM publishers WHERE name = NEW.publisher LIMIT 1), -- Match publisher
             20,                                                    -- Fixed quantity per requirements
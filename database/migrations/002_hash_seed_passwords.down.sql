@@ -0,0 +1,20 @@
+-- =============================================
+-- MIGRATION 002 (DOWN): RESTORE PLAINTEXT SEED PASSWORDS
+-- =============================================
+--
+-- Reverses 002_hash_seed_passwords.up.sql for the seed accounts that
+-- still have the migrated hashes. Only useful together with a backend
+-- that compares plaintext passwords.
+-- =============================================
+
+UPDATE users
+SET password = 'admin'
+WHERE username = 'admin'
+  AND password = 'scrypt$H+P+iWX0sPRwqH7EpkqsiA==$Jm3Z2MVLeWrffuaNN3c0N3N97edVTCcmKOorr63GtvBmFYDHKgBUicXWc09u26vUECOLzzTR2lWBml+FIKS1qw==';
+
+UPDATE users
+SET password = 'password'
+WHERE username = 'john_doe'
+  AND password = 'scrypt$KDAsjA4flyj+inpP2yPv8Q==$BOvr9hyGEBxxw6RSIFBbNKgkNSwiM4n5WOKeHWk6nW3xkXyX6mty4V3vTcG3Xv41Z6yjP7raPisfGJlsgNiSVQ==';
+
+COMMENT ON COLUMN users.password IS NULL;
@@ -0,0 +1,23 @@
+-- =============================================
+-- MIGRATION 002 (UP): HASH SEED USER PASSWORDS
+-- =============================================
+--
+-- The seed accounts were created with plaintext passwords. The backend
+-- now stores salted scrypt hashes (backend/src/services/passwords.js)
+-- and never accepts a plaintext value, so those accounts could no
+-- longer log in.
+--
+-- This replaces the known plaintext seed passwords with precomputed
+-- hashes of the same passwords (the values in database/users.json).
+-- Rows whose password was already changed are left untouched.
+-- =============================================
+
+UPDATE users
+SET password = 'scrypt$H+P+iWX0sPRwqH7EpkqsiA==$Jm3Z2MVLeWrffuaNN3c0N3N97edVTCcmKOorr63GtvBmFYDHKgBUicXWc09u26vUECOLzzTR2lWBml+FIKS1qw=='
+WHERE username = 'admin' AND password = 'admin';
+
+UPDATE users
+SET password = 'scrypt$KDAsjA4flyj+inpP2yPv8Q==$BOvr9hyGEBxxw6RSIFBbNKgkNSwiM4n5WOKeHWk6nW3xkXyX6mty4V3vTcG3Xv41Z6yjP7raPisfGJlsgNiSVQ=='
+WHERE username = 'john_doe' AND password = 'password';
+
+COMMENT ON COLUMN users.password IS 'scrypt hash: scrypt$<salt>$<key> (base64)';
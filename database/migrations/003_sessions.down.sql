@@ -0,0 +1,8 @@
+-- =============================================
+-- MIGRATION 003 (DOWN): DROP LOGIN SESSIONS
+-- =============================================
+--
+-- Reverses 003_sessions.up.sql. Everyone is logged out.
+-- =============================================
+
+DROP TABLE IF EXISTS sessions;
@@ -0,0 +1,23 @@
+-- =============================================
+-- MIGRATION 003 (UP): LOGIN SESSIONS
+-- =============================================
+--
+-- One row per login. The backend issues two signed tokens per session:
+--   - access token:  short-lived, carries the session ID ("sid")
+--   - refresh token: long-lived, carries the session ID and a token ID ("jti")
+--
+-- Every authenticated request checks that its session is not revoked,
+-- so logout takes effect immediately. Refreshing rotates refresh_jti;
+-- presenting an older refresh token revokes the whole session.
+-- =============================================
+
+CREATE TABLE sessions (
+    id VARCHAR(64) PRIMARY KEY,                -- Random session ID
+    user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    refresh_jti VARCHAR(64) NOT NULL,          -- ID of the only valid refresh token
+    expires_at TIMESTAMP NOT NULL,             -- When the refresh token expires
+    revoked_at TIMESTAMP,                      -- Set on logout or refresh token reuse
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX idx_sessions_user ON sessions(user_id);
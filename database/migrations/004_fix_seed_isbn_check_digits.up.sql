@@ -0,0 +1,43 @@
+-- =============================================
+-- MIGRATION 004 (UP): FIX SEED ISBN CHECK DIGITS
+-- =============================================
+--
+-- Four seed books were created with ISBNs whose check digit is wrong.
+-- The API now rejects such ISBNs (bookstore-shared isbn module), so
+-- these books could be listed but not edited or ordered by ISBN.
+--
+-- Each book is re-keyed under its corrected ISBN (the values now in
+-- database/books.json). books.isbn is referenced without ON UPDATE
+-- CASCADE, so the row is copied, references are moved to the copy,
+-- and the old row is deleted.
+-- =============================================
+
+CREATE TEMP TABLE isbn_fixes (old_isbn VARCHAR(17), new_isbn VARCHAR(17));
+
+INSERT INTO isbn_fixes (old_isbn, new_isbn) VALUES
+    ('978-0-19-953556-8', '978-0-19-953556-9'),
+    ('978-0-07-352332-7', '978-0-07-352332-3'),
+    ('978-1-59448-273-9', '978-1-59448-273-1'),
+    ('978-0-19-280722-2', '978-0-19-280722-9');
+
+INSERT INTO books (isbn, title, authors, publisher, publication_year, selling_price,
+                   category, quantity, threshold, image_url, created_at)
+SELECT f.new_isbn, b.title, b.authors, b.publisher, b.publication_year, b.selling_price,
+       b.category, b.quantity, b.threshold, b.image_url, b.created_at
+FROM books b
+JOIN isbn_fixes f ON f.old_isbn = b.isbn
+ON CONFLICT (isbn) DO NOTHING;
+
+UPDATE cart_items SET book_isbn = f.new_isbn
+FROM isbn_fixes f WHERE cart_items.book_isbn = f.old_isbn;
+
+UPDATE order_items SET book_isbn = f.new_isbn
+FROM isbn_fixes f WHERE order_items.book_isbn = f.old_isbn;
+
+UPDATE publisher_orders SET book_isbn = f.new_isbn
+FROM isbn_fixes f WHERE publisher_orders.book_isbn = f.old_isbn;
+
+DELETE FROM books
+USING isbn_fixes f WHERE books.isbn = f.old_isbn;
+
+DROP TABLE isbn_fixes;
@@ -0,0 +1,23 @@
+-- =============================================
+-- MIGRATION 005 (DOWN): SINGLE CATEGORY PER BOOK
+-- =============================================
+--
+-- Reverses 005_categories.up.sql. Each book keeps one category name:
+-- its first linked category by sort order. Categories added since the
+-- migration are kept only as names on the books that used them.
+-- =============================================
+
+ALTER TABLE books ADD COLUMN category VARCHAR(50);
+
+UPDATE books b
+SET category = (
+    SELECT c.name
+    FROM book_categories bc
+    JOIN categories c ON c.id = bc.category_id
+    WHERE bc.book_isbn = b.isbn
+    ORDER BY c.sort_order, c.name
+    LIMIT 1
+);
+
+DROP TABLE book_categories;
+DROP TABLE categories;
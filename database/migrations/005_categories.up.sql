@@ -0,0 +1,48 @@
+-- =============================================
+-- MIGRATION 005 (UP): CATEGORY TAXONOMY
+-- =============================================
+--
+-- Categories become data instead of a fixed list of names:
+--   - categories:      a tree (parent_id), each with a URL slug, a
+--                      display color and a sort order among its siblings
+--   - book_categories: links each book to one or more categories
+--
+-- The five original categories are created here, and every book is
+-- linked to the category named in books.category, which is then dropped.
+-- =============================================
+
+CREATE TABLE categories (
+    id SERIAL PRIMARY KEY,
+    name VARCHAR(50) NOT NULL UNIQUE,
+    slug VARCHAR(60) NOT NULL UNIQUE,          -- Used in URLs, e.g. /books?category=science
+    parent_id INTEGER REFERENCES categories(id),  -- NULL for top-level categories
+    color VARCHAR(7) NOT NULL DEFAULT '#64748b',  -- Hex color for badges and cards
+    sort_order INTEGER NOT NULL DEFAULT 0,     -- Position among siblings (ascending)
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT categories_not_own_parent CHECK (parent_id <> id)
+);
+
+CREATE INDEX idx_categories_parent ON categories(parent_id);
+
+CREATE TABLE book_categories (
+    book_isbn VARCHAR(17) NOT NULL REFERENCES books(isbn) ON DELETE CASCADE,
+    category_id INTEGER NOT NULL REFERENCES categories(id),
+    PRIMARY KEY (book_isbn, category_id)
+);
+
+CREATE INDEX idx_book_categories_category ON book_categories(category_id);
+
+INSERT INTO categories (name, slug, color, sort_order) VALUES
+    ('Science', 'science', '#0ea5e9', 1),
+    ('Art', 'art', '#f59e0b', 2),
+    ('Religion', 'religion', '#8b5cf6', 3),
+    ('History', 'history', '#ef4444', 4),
+    ('Geography', 'geography', '#d946ef', 5);
+
+INSERT INTO book_categories (book_isbn, category_id)
+SELECT b.isbn, c.id
+FROM books b
+JOIN categories c ON c.name = b.category;
+
+ALTER TABLE books DROP COLUMN category;
@@ -0,0 +1,21 @@
+-- =============================================
+-- MIGRATION 006 (DOWN): AUTHOR NAMES ON BOOKS
+-- =============================================
+--
+-- Reverses 006_authors.up.sql. Each book gets back an array of author
+-- names in credit order, using the authors' canonical names. Aliases
+-- and bios are lost.
+-- =============================================
+
+ALTER TABLE books ADD COLUMN authors TEXT[];
+
+UPDATE books b
+SET authors = (
+    SELECT array_agg(au.name ORDER BY ba.position)
+    FROM book_authors ba
+    JOIN authors au ON au.id = ba.author_id
+    WHERE ba.book_isbn = b.isbn
+);
+
+DROP TABLE book_authors;
+DROP TABLE authors;
@@ -0,0 +1,51 @@
+-- =============================================
+-- MIGRATION 006 (UP): AUTHORS
+-- =============================================
+--
+-- Authors become records instead of names repeated on each book:
+--   - authors:      one row per person, with a canonical name, the other
+--                   spellings it is published under (aliases) and a bio
+--   - book_authors: links each book to its authors, in credit order
+--
+-- Every distinct name in books.authors (ignoring case and surrounding
+-- spaces) becomes an author; books are linked in their original order,
+-- and the books.authors column is dropped. Duplicates spelled
+-- differently (e.g. 'Thomas Cormen' and 'Thomas H. Cormen') remain
+-- separate authors until an admin merges them.
+-- =============================================
+
+CREATE TABLE authors (
+    id SERIAL PRIMARY KEY,
+    name VARCHAR(255) NOT NULL,
+    aliases TEXT[] NOT NULL DEFAULT '{}',      -- Other spellings, e.g. '{"Thomas Cormen"}'
+    bio TEXT,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Names are unique regardless of case
+CREATE UNIQUE INDEX idx_authors_name ON authors (lower(name));
+
+CREATE TABLE book_authors (
+    book_isbn VARCHAR(17) NOT NULL REFERENCES books(isbn) ON DELETE CASCADE,
+    author_id INTEGER NOT NULL REFERENCES authors(id),
+    position INTEGER NOT NULL,                 -- Credit order on the book (ascending)
+    PRIMARY KEY (book_isbn, author_id)
+);
+
+CREATE INDEX idx_book_authors_author ON book_authors(author_id);
+
+INSERT INTO authors (name)
+SELECT DISTINCT ON (lower(btrim(a.name))) btrim(a.name)
+FROM books b
+CROSS JOIN LATERAL unnest(b.authors) AS a(name)
+WHERE btrim(a.name) <> ''
+ORDER BY lower(btrim(a.name)), btrim(a.name);
+
+INSERT INTO book_authors (book_isbn, author_id, position)
+SELECT b.isbn, au.id, a.position
+FROM books b
+CROSS JOIN LATERAL unnest(b.authors) WITH ORDINALITY AS a(name, position)
+JOIN authors au ON lower(au.name) = lower(btrim(a.name))
+ON CONFLICT DO NOTHING;
+
+ALTER TABLE books DROP COLUMN authors;
@@ -0,0 +1,41 @@
+-- =============================================
+-- MIGRATION 007 (DOWN): PUBLISHERS BY NAME
+-- =============================================
+--
+-- Reverses 007_publisher_management.up.sql. Books store their
+-- publisher's name again, and check_stock_threshold goes back to
+-- matching publishers by name. Publishers added by the migration or
+-- since are kept.
+-- =============================================
+
+ALTER TABLE books ADD COLUMN publisher VARCHAR(100);
+
+UPDATE books b
+SET publisher = p.name
+FROM publishers p
+WHERE p.id = b.publisher_id;
+
+ALTER TABLE books DROP COLUMN publisher_id;
+
+DROP INDEX idx_publishers_name;
+
+ALTER TABLE publishers
+    DROP COLUMN email,
+    DROP COLUMN lead_time_days,
+    DROP COLUMN minimum_order;
+
+CREATE OR REPLACE FUNCTION check_stock_threshold() RETURNS TRIGGER AS $$
+BEGIN
+    IF OLD.quantity >= OLD.threshold AND NEW.quantity < OLD.threshold THEN
+        INSERT INTO publisher_orders (id, book_isbn, publisher_id, quantity, status)
+        VALUES (
+            'PO-' || CAST(extract(epoch from now()) as VARCHAR) || '-' || NEW.isbn,
+            NEW.isbn,
+            (SELECT id FROM publishers WHERE name = NEW.publisher LIMIT 1),
+            20,
+            'Pending'
+        );
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
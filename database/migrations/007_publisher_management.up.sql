@@ -0,0 +1,81 @@
+-- =============================================
+-- MIGRATION 007 (UP): PUBLISHER MANAGEMENT
+-- =============================================
+--
+-- Publishers become the suppliers books are reordered from:
+--   - publishers gain a contact email and ordering terms: the lead time
+--     in days and the minimum number of copies per order
+--   - books reference their publisher by ID (books.publisher_id) instead
+--     of repeating its name
+--   - check_stock_threshold orders from the book's publisher, at least
+--     its minimum order, and raises an error when the book has none
+--     (it used to match publishers by name and store a NULL supplier
+--     when the names differed)
+--
+-- Publisher names used by books but missing from the publishers table
+-- are added, so every book with a publisher name keeps it. Publisher
+-- orders placed without a supplier take the book's publisher.
+-- =============================================
+
+ALTER TABLE publishers
+    ADD COLUMN email VARCHAR(255),
+    ADD COLUMN lead_time_days INTEGER NOT NULL DEFAULT 7 CHECK (lead_time_days >= 0),
+    ADD COLUMN minimum_order INTEGER NOT NULL DEFAULT 1 CHECK (minimum_order >= 1);
+
+INSERT INTO publishers (name)
+SELECT DISTINCT ON (lower(btrim(b.publisher))) btrim(b.publisher)
+FROM books b
+WHERE btrim(b.publisher) <> ''
+  AND NOT EXISTS (SELECT 1 FROM publishers p WHERE lower(p.name) = lower(btrim(b.publisher)))
+ORDER BY lower(btrim(b.publisher)), btrim(b.publisher);
+
+-- Names identify publishers in forms and fixtures
+CREATE UNIQUE INDEX idx_publishers_name ON publishers (lower(name));
+
+ALTER TABLE books ADD COLUMN publisher_id INTEGER REFERENCES publishers(id);
+
+UPDATE books b
+SET publisher_id = p.id
+FROM publishers p
+WHERE lower(p.name) = lower(btrim(b.publisher));
+
+CREATE INDEX idx_books_publisher ON books(publisher_id);
+
+ALTER TABLE books DROP COLUMN publisher;
+
+UPDATE publisher_orders po
+SET publisher_id = b.publisher_id
+FROM books b
+WHERE b.isbn = po.book_isbn AND po.publisher_id IS NULL;
+
+/**
+ * Trigger Function: check_stock_threshold
+ *
+ * Places a publisher order when a book's stock drops below its threshold:
+ * 20 copies, or the publisher's minimum order if that is larger.
+ * A book without a publisher cannot be reordered, so the stock change
+ * is rejected instead of creating an order nobody receives.
+ */
+CREATE OR REPLACE FUNCTION check_stock_threshold() RETURNS TRIGGER AS $$
+DECLARE
+    supplier publishers%ROWTYPE;
+BEGIN
+    IF OLD.quantity >= OLD.threshold AND NEW.quantity < OLD.threshold THEN
+        SELECT * INTO supplier FROM publishers WHERE id = NEW.publisher_id;
+        IF NOT FOUND THEN
+            RAISE EXCEPTION 'Cannot reorder "%": the book has no publisher to order from', NEW.title
+                USING ERRCODE = 'BS001', HINT = 'Set the book''s publisher, then try again';
+        END IF;
+
+        INSERT INTO publisher_orders (id, book_isbn, publisher_id, quantity, status)
+        VALUES (
+            'PO-' || CAST(extract(epoch from now()) as VARCHAR) || '-' || NEW.isbn,
+            NEW.isbn,
+            supplier.id,
+            GREATEST(20, supplier.minimum_order),
+            'Pending'
+        );
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
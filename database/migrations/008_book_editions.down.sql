@@ -0,0 +1,15 @@
+-- =============================================
+-- MIGRATION 008 (DOWN): ONE BOOK PER TITLE
+-- =============================================
+--
+-- Reverses 008_book_editions.up.sql. Editions stay in the catalog as
+-- separate books; which work and format they had is lost.
+-- =============================================
+
+DROP INDEX idx_books_work;
+
+ALTER TABLE books
+    DROP COLUMN work_id,
+    DROP COLUMN format;
+
+DROP TABLE works;
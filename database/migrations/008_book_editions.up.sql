@@ -0,0 +1,42 @@
+-- =============================================
+-- MIGRATION 008 (UP): BOOK EDITIONS
+-- =============================================
+--
+-- Books become editions of a work, so the hardcover, paperback and
+-- ebook of the same title are sold separately:
+--   - works group the editions of one title
+--   - books.work_id links each edition (row of books) to its work
+--   - books.format says what kind of edition it is
+--
+-- Each edition keeps its own ISBN, price, stock and threshold, so
+-- carts, orders, check_stock_threshold and publisher orders already
+-- work per edition and are unchanged.
+--
+-- Every existing book becomes the only edition of a new work, as a
+-- paperback.
+-- =============================================
+
+CREATE TABLE works (
+    id SERIAL PRIMARY KEY,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+ALTER TABLE books
+    ADD COLUMN work_id INTEGER REFERENCES works(id),
+    ADD COLUMN format VARCHAR(20) NOT NULL DEFAULT 'paperback'
+        CHECK (format IN ('hardcover', 'paperback', 'ebook', 'audiobook'));
+
+-- One work per book, numbered in ISBN order
+INSERT INTO works (id)
+SELECT row_number() OVER (ORDER BY isbn) FROM books;
+
+SELECT setval(pg_get_serial_sequence('works', 'id'), COALESCE(MAX(id), 0) + 1, false) FROM works;
+
+UPDATE books b
+SET work_id = n.work_id
+FROM (SELECT isbn, row_number() OVER (ORDER BY isbn) AS work_id FROM books) n
+WHERE n.isbn = b.isbn;
+
+ALTER TABLE books ALTER COLUMN work_id SET NOT NULL;
+
+CREATE INDEX idx_books_work ON books(work_id);
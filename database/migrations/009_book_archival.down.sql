@@ -0,0 +1,11 @@
+-- =============================================
+-- MIGRATION 009 (DOWN): NO ARCHIVAL
+-- =============================================
+--
+-- Reverses 009_book_archival.up.sql. Archived books are back in the
+-- catalog, for sale.
+-- =============================================
+
+DROP INDEX idx_books_archived;
+
+ALTER TABLE books DROP COLUMN archived_at;
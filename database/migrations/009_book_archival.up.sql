@@ -0,0 +1,19 @@
+-- =============================================
+-- MIGRATION 009 (UP): BOOK ARCHIVAL
+-- =============================================
+--
+-- Books leave the catalog by being archived instead of deleted, so the
+-- customer and publisher orders that reference them keep their title
+-- and price history:
+--   - books.archived_at is set when a book is archived, NULL while it
+--     is for sale
+--
+-- Archived books are hidden from the storefront and cannot be added to
+-- carts; orders, reports and GET /api/books/:isbn still find them.
+-- Deleting a book outright stays possible only while no order
+-- references it (the existing foreign keys refuse it otherwise).
+-- =============================================
+
+ALTER TABLE books ADD COLUMN archived_at TIMESTAMP;
+
+CREATE INDEX idx_books_archived ON books(archived_at) WHERE archived_at IS NOT NULL;
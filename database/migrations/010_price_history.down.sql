@@ -0,0 +1,12 @@
+-- =============================================
+-- MIGRATION 010 (DOWN): NO PRICE HISTORY
+-- =============================================
+--
+-- Reverses 010_price_history.up.sql. Books keep their current price;
+-- the history and every scheduled price are dropped, so an active rule
+-- is never reverted.
+-- =============================================
+
+DROP TABLE price_changes;
+
+DROP TABLE price_rules;
@@ -0,0 +1,50 @@
+-- =============================================
+-- MIGRATION 010 (UP): PRICE HISTORY AND PRICE RULES
+-- =============================================
+--
+-- Keeps every price a book has had, and lets prices be scheduled:
+--   - price_rules holds scheduled prices: a book's price from starts_at
+--     and, if ends_at is set, back to the previous price then. The
+--     backend's price scheduler applies them (status scheduled -> active
+--     -> completed) and keeps previous_price for the revert.
+--   - price_changes records each price a book is given and why (source):
+--     created, manual, import or schedule (with the rule that did it).
+--
+-- Times are TIMESTAMPTZ, so schedules typed in any time zone start at
+-- the same instant.
+--
+-- Every existing book gets a 'created' entry with its current price.
+-- =============================================
+
+CREATE TABLE price_rules (
+    id SERIAL PRIMARY KEY,
+    book_isbn VARCHAR(17) NOT NULL REFERENCES books(isbn) ON DELETE CASCADE,
+    price DECIMAL(10, 2) NOT NULL CHECK (price > 0),
+    label VARCHAR(100),
+    starts_at TIMESTAMPTZ NOT NULL,
+    ends_at TIMESTAMPTZ CHECK (ends_at IS NULL OR ends_at > starts_at),
+    status VARCHAR(20) NOT NULL DEFAULT 'scheduled'
+        CHECK (status IN ('scheduled', 'active', 'completed', 'cancelled')),
+    -- Price the rule replaced (set when it is applied)
+    previous_price DECIMAL(10, 2),
+    created_at TIMESTAMPTZ DEFAULT CURRENT_TIMESTAMP
+);
+
+-- The scheduler looks for rules due to start or end
+CREATE INDEX idx_price_rules_due ON price_rules(status, starts_at);
+CREATE INDEX idx_price_rules_book ON price_rules(book_isbn);
+
+CREATE TABLE price_changes (
+    id SERIAL PRIMARY KEY,
+    book_isbn VARCHAR(17) NOT NULL REFERENCES books(isbn) ON DELETE CASCADE,
+    price DECIMAL(10, 2) NOT NULL,
+    source VARCHAR(20) NOT NULL CHECK (source IN ('created', 'manual', 'import', 'schedule')),
+    price_rule_id INTEGER REFERENCES price_rules(id) ON DELETE SET NULL,
+    changed_at TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX idx_price_changes_book ON price_changes(book_isbn, changed_at);
+
+INSERT INTO price_changes (book_isbn, price, source, changed_at)
+SELECT isbn, selling_price, 'created', COALESCE(created_at, CURRENT_TIMESTAMP)
+FROM books;
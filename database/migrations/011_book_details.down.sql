@@ -0,0 +1,19 @@
+-- =============================================
+-- MIGRATION 011 (DOWN): NO DETAILS OR TAGS
+-- =============================================
+--
+-- Reverses 011_book_details.up.sql. Books' bibliographic details and
+-- tags are lost.
+-- =============================================
+
+DROP TABLE book_tags;
+
+ALTER TABLE books
+    DROP COLUMN description,
+    DROP COLUMN page_count,
+    DROP COLUMN language,
+    DROP COLUMN edition,
+    DROP COLUMN height_mm,
+    DROP COLUMN width_mm,
+    DROP COLUMN thickness_mm,
+    DROP COLUMN weight_grams;
@@ -0,0 +1,36 @@
+-- =============================================
+-- MIGRATION 011 (UP): BIBLIOGRAPHIC DETAILS AND TAGS
+-- =============================================
+--
+-- Books gain the details customers look for and shipping needs, all
+-- optional (NULL when not known):
+--   - description:    blurb shown on the book page
+--   - page_count
+--   - language:       ISO 639 code in lower case, e.g. 'en'
+--   - edition:        e.g. '2nd edition', 'Revised'
+--   - height_mm, width_mm, thickness_mm: physical size in millimetres
+--   - weight_grams:   shipping weight of one copy
+--
+-- and free-form tags:
+--   - book_tags: a book's tags, stored normalized (trimmed, single
+--                spaces, lower case) so each tag is written one way
+-- =============================================
+
+ALTER TABLE books
+    ADD COLUMN description TEXT,
+    ADD COLUMN page_count INTEGER CHECK (page_count > 0),
+    ADD COLUMN language VARCHAR(3) CHECK (language ~ '^[a-z]{2,3}$'),
+    ADD COLUMN edition VARCHAR(50),
+    ADD COLUMN height_mm INTEGER CHECK (height_mm > 0),
+    ADD COLUMN width_mm INTEGER CHECK (width_mm > 0),
+    ADD COLUMN thickness_mm INTEGER CHECK (thickness_mm > 0),
+    ADD COLUMN weight_grams INTEGER CHECK (weight_grams > 0);
+
+CREATE TABLE book_tags (
+    book_isbn VARCHAR(17) NOT NULL REFERENCES books(isbn) ON DELETE CASCADE,
+    tag VARCHAR(40) NOT NULL CHECK (tag <> ''),
+    PRIMARY KEY (book_isbn, tag)
+);
+
+-- Filtering the catalog by tag
+CREATE INDEX idx_book_tags_tag ON book_tags(tag);
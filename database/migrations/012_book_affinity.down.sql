@@ -0,0 +1,9 @@
+-- =============================================
+-- MIGRATION 012 (DOWN): NO BOOK AFFINITY
+-- =============================================
+--
+-- Reverses 012_book_affinity.up.sql. The counts can be rebuilt from the
+-- orders by applying the migration again.
+-- =============================================
+
+DROP TABLE book_affinity;
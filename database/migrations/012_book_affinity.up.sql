@@ -0,0 +1,35 @@
+-- =============================================
+-- MIGRATION 012 (UP): BOOK AFFINITY
+-- =============================================
+--
+-- Counts how often books are bought together, for "Customers also
+-- bought" recommendations:
+--   - book_affinity has one row per ordered pair of books that share an
+--     order: orders is the number of orders (not cancelled) containing
+--     both. Each pair is stored in both directions, so the books bought
+--     with a book are one index lookup.
+--
+-- The backend keeps the counts up to date as orders are placed and
+-- cancelled; a pair whose count drops to zero is deleted.
+--
+-- Existing orders are counted here.
+-- =============================================
+
+CREATE TABLE book_affinity (
+    book_isbn VARCHAR(17) NOT NULL REFERENCES books(isbn) ON DELETE CASCADE,
+    related_isbn VARCHAR(17) NOT NULL REFERENCES books(isbn) ON DELETE CASCADE,
+    orders INTEGER NOT NULL CHECK (orders > 0),
+    PRIMARY KEY (book_isbn, related_isbn),
+    CHECK (book_isbn <> related_isbn)
+);
+
+-- Books bought with a book, most often first
+CREATE INDEX idx_book_affinity_book ON book_affinity(book_isbn, orders DESC);
+
+INSERT INTO book_affinity (book_isbn, related_isbn, orders)
+SELECT a.book_isbn, b.book_isbn, COUNT(DISTINCT a.order_id)
+FROM order_items a
+JOIN order_items b ON b.order_id = a.order_id AND b.book_isbn <> a.book_isbn
+JOIN orders o ON o.id = a.order_id
+WHERE o.status <> 'cancelled'
+GROUP BY a.book_isbn, b.book_isbn;
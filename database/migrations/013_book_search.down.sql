@@ -0,0 +1,24 @@
+-- =============================================
+-- MIGRATION 013 (DOWN): NO BOOK SEARCH INDEX
+-- =============================================
+--
+-- Reverses 013_book_search.up.sql. The index is rebuilt from the books
+-- by applying the migration again.
+-- =============================================
+
+DROP TRIGGER trigger_book_search_publishers ON publishers;
+DROP TRIGGER trigger_book_search_authors ON authors;
+DROP TRIGGER trigger_book_search_credits ON book_authors;
+DROP TRIGGER trigger_book_search ON books;
+
+DROP FUNCTION book_search_on_publisher();
+DROP FUNCTION book_search_on_author();
+DROP FUNCTION book_search_on_credit();
+DROP FUNCTION book_search_on_book();
+DROP FUNCTION book_search_query(TEXT, INTEGER, REAL);
+DROP FUNCTION refresh_book_search(VARCHAR);
+
+DROP TABLE search_words;
+DROP TABLE book_search;
+
+DROP EXTENSION IF EXISTS pg_trgm;
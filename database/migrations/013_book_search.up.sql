@@ -0,0 +1,171 @@
+-- =============================================
+-- MIGRATION 013 (UP): BOOK SEARCH INDEX
+-- =============================================
+--
+-- Full-text search over the catalog, ranked by relevance and tolerant of
+-- typos:
+--   - book_search holds each book's search document: the stemmed words
+--     (English) of its title (weight A), its authors' names and aliases
+--     (weight B) and its publisher's name (weight C), so a title match
+--     ranks above an author match, and an author match above a publisher
+--     match.
+--   - search_words lists every word that appears in a document, with a
+--     trigram index (pg_trgm), so a misspelled query word can be matched
+--     to the indexed words it is similar to.
+--   - book_search_query() turns what a shopper typed into a tsquery: each
+--     word must match, as itself or as a similar indexed word, and the
+--     last word also matches as a prefix (for search-as-you-type).
+--
+-- Triggers keep the documents up to date whenever a book's title or
+-- publisher, its author credits, an author's names or a publisher's name
+-- change. Words are never removed from search_words; a word no book uses
+-- any more simply matches nothing.
+--
+-- PostgreSQL servers need the pg_trgm extension (part of the standard
+-- contrib modules); the embedded database loads it itself.
+--
+-- Existing books are indexed here.
+-- =============================================
+
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
+
+CREATE TABLE book_search (
+    isbn VARCHAR(17) PRIMARY KEY REFERENCES books(isbn) ON DELETE CASCADE,
+    document TSVECTOR NOT NULL
+);
+
+CREATE INDEX idx_book_search_document ON book_search USING GIN (document);
+
+CREATE TABLE search_words (
+    word TEXT PRIMARY KEY
+);
+
+-- Words similar to a misspelled one
+CREATE INDEX idx_search_words_trgm ON search_words USING GIN (word gin_trgm_ops);
+
+/**
+ * Function: refresh_book_search
+ *
+ * Rebuilds one book's search document and adds its words to
+ * search_words. Does nothing for a book that no longer exists.
+ */
+CREATE OR REPLACE FUNCTION refresh_book_search(p_isbn VARCHAR) RETURNS void AS $$
+BEGIN
+    DELETE FROM book_search WHERE isbn = p_isbn;
+
+    INSERT INTO book_search (isbn, document)
+    SELECT b.isbn,
+           setweight(to_tsvector('english', b.title), 'A')
+        || setweight(to_tsvector('english', COALESCE((
+               SELECT string_agg(a.name || ' ' || array_to_string(a.aliases, ' '), ' ')
+               FROM book_authors ba
+               JOIN authors a ON a.id = ba.author_id
+               WHERE ba.book_isbn = b.isbn
+           ), '')), 'B')
+        || setweight(to_tsvector('english', COALESCE(p.name, '')), 'C')
+    FROM books b
+    LEFT JOIN publishers p ON p.id = b.publisher_id
+    WHERE b.isbn = p_isbn;
+
+    INSERT INTO search_words (word)
+    SELECT w.lexeme
+    FROM book_search s, unnest(s.document) w
+    WHERE s.isbn = p_isbn
+    ON CONFLICT DO NOTHING;
+END;
+$$ LANGUAGE plpgsql;
+
+/**
+ * Function: book_search_query
+ *
+ * The tsquery for a search: the stem of every word typed (stop words
+ * such as 'the' are dropped), each OR'd with the indexed words whose
+ * trigram similarity to it is at least p_similarity (only for stems of
+ * p_min_fuzzy_length letters or more), all AND'd together in the order
+ * typed. The last word also matches as a prefix ('algor' finds
+ * 'algorithm'). NULL when nothing searchable was typed.
+ */
+CREATE OR REPLACE FUNCTION book_search_query(p_text TEXT, p_min_fuzzy_length INTEGER, p_similarity REAL)
+RETURNS tsquery AS $$
+    SELECT string_agg(
+               '(' || quote_literal(s.lexeme) || CASE WHEN s.last THEN ':*' ELSE '' END
+                   || COALESCE((
+                          SELECT string_agg(' | ' || quote_literal(w.word), '')
+                          FROM search_words w
+                          WHERE length(s.lexeme) >= p_min_fuzzy_length
+                            AND w.word <> s.lexeme
+                            AND similarity(w.word, s.lexeme) >= p_similarity
+                      ), '')
+                   || ')',
+               ' & ' ORDER BY s.position
+           )::tsquery
+    FROM (
+        SELECT lexeme,
+               positions[1] AS position,
+               positions[array_upper(positions, 1)] = MAX(positions[array_upper(positions, 1)]) OVER () AS last
+        FROM unnest(to_tsvector('english', p_text))
+    ) s;
+$$ LANGUAGE sql STABLE;
+
+-- ---------------------------------------------
+-- Keeping documents up to date
+-- ---------------------------------------------
+
+-- A book was added, or its title or publisher changed
+CREATE OR REPLACE FUNCTION book_search_on_book() RETURNS TRIGGER AS $$
+BEGIN
+    PERFORM refresh_book_search(NEW.isbn);
+    RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER trigger_book_search
+AFTER INSERT OR UPDATE OF title, publisher_id ON books
+FOR EACH ROW
+EXECUTE FUNCTION book_search_on_book();
+
+-- A book's authors changed (including an author merged into another)
+CREATE OR REPLACE FUNCTION book_search_on_credit() RETURNS TRIGGER AS $$
+BEGIN
+    IF TG_OP <> 'INSERT' THEN
+        PERFORM refresh_book_search(OLD.book_isbn);
+    END IF;
+    IF TG_OP <> 'DELETE' THEN
+        PERFORM refresh_book_search(NEW.book_isbn);
+    END IF;
+    RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER trigger_book_search_credits
+AFTER INSERT OR UPDATE OR DELETE ON book_authors
+FOR EACH ROW
+EXECUTE FUNCTION book_search_on_credit();
+
+-- An author was renamed or given other aliases
+CREATE OR REPLACE FUNCTION book_search_on_author() RETURNS TRIGGER AS $$
+BEGIN
+    PERFORM refresh_book_search(book_isbn) FROM book_authors WHERE author_id = NEW.id;
+    RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER trigger_book_search_authors
+AFTER UPDATE OF name, aliases ON authors
+FOR EACH ROW
+EXECUTE FUNCTION book_search_on_author();
+
+-- A publisher was renamed
+CREATE OR REPLACE FUNCTION book_search_on_publisher() RETURNS TRIGGER AS $$
+BEGIN
+    PERFORM refresh_book_search(isbn) FROM books WHERE publisher_id = NEW.id;
+    RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER trigger_book_search_publishers
+AFTER UPDATE OF name ON publishers
+FOR EACH ROW
+EXECUTE FUNCTION book_search_on_publisher();
+
+SELECT refresh_book_search(isbn) FROM books;
@@ -0,0 +1,53 @@
+-- =============================================
+-- MIGRATION 014 (DOWN): NO CASCADING ISBN UPDATES
+-- =============================================
+--
+-- Reverses the foreign key changes of 014_compact_isbns.up.sql. The keys
+-- stay compact: the hyphenated form came from the backend's ranges table
+-- and cannot be rebuilt here, so this is only useful together with a
+-- backend that looks books up by compact ISBN.
+-- =============================================
+
+ALTER TABLE order_items DROP CONSTRAINT order_items_book_isbn_fkey,
+    ADD CONSTRAINT order_items_book_isbn_fkey
+    FOREIGN KEY (book_isbn) REFERENCES books(isbn);
+
+ALTER TABLE cart_items DROP CONSTRAINT cart_items_book_isbn_fkey,
+    ADD CONSTRAINT cart_items_book_isbn_fkey
+    FOREIGN KEY (book_isbn) REFERENCES books(isbn);
+
+ALTER TABLE publisher_orders DROP CONSTRAINT publisher_orders_book_isbn_fkey,
+    ADD CONSTRAINT publisher_orders_book_isbn_fkey
+    FOREIGN KEY (book_isbn) REFERENCES books(isbn);
+
+ALTER TABLE book_categories DROP CONSTRAINT book_categories_book_isbn_fkey,
+    ADD CONSTRAINT book_categories_book_isbn_fkey
+    FOREIGN KEY (book_isbn) REFERENCES books(isbn) ON DELETE CASCADE;
+
+ALTER TABLE book_authors DROP CONSTRAINT book_authors_book_isbn_fkey,
+    ADD CONSTRAINT book_authors_book_isbn_fkey
+    FOREIGN KEY (book_isbn) REFERENCES books(isbn) ON DELETE CASCADE;
+
+ALTER TABLE price_rules DROP CONSTRAINT price_rules_book_isbn_fkey,
+    ADD CONSTRAINT price_rules_book_isbn_fkey
+    FOREIGN KEY (book_isbn) REFERENCES books(isbn) ON DELETE CASCADE;
+
+ALTER TABLE price_changes DROP CONSTRAINT price_changes_book_isbn_fkey,
+    ADD CONSTRAINT price_changes_book_isbn_fkey
+    FOREIGN KEY (book_isbn) REFERENCES books(isbn) ON DELETE CASCADE;
+
+ALTER TABLE book_tags DROP CONSTRAINT book_tags_book_isbn_fkey,
+    ADD CONSTRAINT book_tags_book_isbn_fkey
+    FOREIGN KEY (book_isbn) REFERENCES books(isbn) ON DELETE CASCADE;
+
+ALTER TABLE book_affinity DROP CONSTRAINT book_affinity_book_isbn_fkey,
+    ADD CONSTRAINT book_affinity_book_isbn_fkey
+    FOREIGN KEY (book_isbn) REFERENCES books(isbn) ON DELETE CASCADE;
+
+ALTER TABLE book_affinity DROP CONSTRAINT book_affinity_related_isbn_fkey,
+    ADD CONSTRAINT book_affinity_related_isbn_fkey
+    FOREIGN KEY (related_isbn) REFERENCES books(isbn) ON DELETE CASCADE;
+
+ALTER TABLE book_search DROP CONSTRAINT book_search_isbn_fkey,
+    ADD CONSTRAINT book_search_isbn_fkey
+    FOREIGN KEY (isbn) REFERENCES books(isbn) ON DELETE CASCADE;
@@ -0,0 +1,63 @@
+-- =============================================
+-- MIGRATION 014 (UP): COMPACT ISBN KEYS
+-- =============================================
+--
+-- Books were keyed by hyphenated ISBN-13 ('978-0-13-468599-1'). Where
+-- the hyphens go depends on ranges the ISBN agency keeps assigning, and
+-- the backend only knew some of them: correcting its table would have
+-- changed existing keys. Books are now keyed by the 13 digits alone
+-- ('9780134685991'); the hyphens are added for display only.
+--
+-- The foreign keys to books(isbn) are recreated with ON UPDATE CASCADE,
+-- so the books are re-keyed in one statement that carries every
+-- reference with it. The search documents are rebuilt afterwards.
+-- =============================================
+
+ALTER TABLE order_items DROP CONSTRAINT order_items_book_isbn_fkey,
+    ADD CONSTRAINT order_items_book_isbn_fkey
+    FOREIGN KEY (book_isbn) REFERENCES books(isbn) ON UPDATE CASCADE;
+
+ALTER TABLE cart_items DROP CONSTRAINT cart_items_book_isbn_fkey,
+    ADD CONSTRAINT cart_items_book_isbn_fkey
+    FOREIGN KEY (book_isbn) REFERENCES books(isbn) ON UPDATE CASCADE;
+
+ALTER TABLE publisher_orders DROP CONSTRAINT publisher_orders_book_isbn_fkey,
+    ADD CONSTRAINT publisher_orders_book_isbn_fkey
+    FOREIGN KEY (book_isbn) REFERENCES books(isbn) ON UPDATE CASCADE;
+
+ALTER TABLE book_categories DROP CONSTRAINT book_categories_book_isbn_fkey,
+    ADD CONSTRAINT book_categories_book_isbn_fkey
+    FOREIGN KEY (book_isbn) REFERENCES books(isbn) ON UPDATE CASCADE ON DELETE CASCADE;
+
+ALTER TABLE book_authors DROP CONSTRAINT book_authors_book_isbn_fkey,
+    ADD CONSTRAINT book_authors_book_isbn_fkey
+    FOREIGN KEY (book_isbn) REFERENCES books(isbn) ON UPDATE CASCADE ON DELETE CASCADE;
+
+ALTER TABLE price_rules DROP CONSTRAINT price_rules_book_isbn_fkey,
+    ADD CONSTRAINT price_rules_book_isbn_fkey
+    FOREIGN KEY (book_isbn) REFERENCES books(isbn) ON UPDATE CASCADE ON DELETE CASCADE;
+
+ALTER TABLE price_changes DROP CONSTRAINT price_changes_book_isbn_fkey,
+    ADD CONSTRAINT price_changes_book_isbn_fkey
+    FOREIGN KEY (book_isbn) REFERENCES books(isbn) ON UPDATE CASCADE ON DELETE CASCADE;
+
+ALTER TABLE book_tags DROP CONSTRAINT book_tags_book_isbn_fkey,
+    ADD CONSTRAINT book_tags_book_isbn_fkey
+    FOREIGN KEY (book_isbn) REFERENCES books(isbn) ON UPDATE CASCADE ON DELETE CASCADE;
+
+ALTER TABLE book_affinity DROP CONSTRAINT book_affinity_book_isbn_fkey,
+    ADD CONSTRAINT book_affinity_book_isbn_fkey
+    FOREIGN KEY (book_isbn) REFERENCES books(isbn) ON UPDATE CASCADE ON DELETE CASCADE;
+
+ALTER TABLE book_affinity DROP CONSTRAINT book_affinity_related_isbn_fkey,
+    ADD CONSTRAINT book_affinity_related_isbn_fkey
+    FOREIGN KEY (related_isbn) REFERENCES books(isbn) ON UPDATE CASCADE ON DELETE CASCADE;
+
+ALTER TABLE book_search DROP CONSTRAINT book_search_isbn_fkey,
+    ADD CONSTRAINT book_search_isbn_fkey
+    FOREIGN KEY (isbn) REFERENCES books(isbn) ON UPDATE CASCADE ON DELETE CASCADE;
+
+UPDATE books SET isbn = replace(isbn, '-', '') WHERE isbn LIKE '%-%';
+
+DELETE FROM book_search;
+SELECT refresh_book_search(isbn) FROM books;
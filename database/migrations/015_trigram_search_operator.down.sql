@@ -0,0 +1,29 @@
+-- =============================================
+-- MIGRATION 015 (DOWN): UNINDEXED TYPO MATCHING
+-- =============================================
+--
+-- Reverses 015_trigram_search_operator.up.sql: book_search_query goes
+-- back to comparing similarity() with p_similarity, as created in 013.
+-- =============================================
+
+CREATE OR REPLACE FUNCTION book_search_query(p_text TEXT, p_min_fuzzy_length INTEGER, p_similarity REAL)
+RETURNS tsquery AS $$
+    SELECT string_agg(
+               '(' || quote_literal(s.lexeme) || CASE WHEN s.last THEN ':*' ELSE '' END
+                   || COALESCE((
+                          SELECT string_agg(' | ' || quote_literal(w.word), '')
+                          FROM search_words w
+                          WHERE length(s.lexeme) >= p_min_fuzzy_length
+                            AND w.word <> s.lexeme
+                            AND similarity(w.word, s.lexeme) >= p_similarity
+                      ), '')
+                   || ')',
+               ' & ' ORDER BY s.position
+           )::tsquery
+    FROM (
+        SELECT lexeme,
+               positions[1] AS position,
+               positions[array_upper(positions, 1)] = MAX(positions[array_upper(positions, 1)]) OVER () AS last
+        FROM unnest(to_tsvector('english', p_text))
+    ) s;
+$$ LANGUAGE sql STABLE;
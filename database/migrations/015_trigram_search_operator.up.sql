@@ -0,0 +1,53 @@
+-- =============================================
+-- MIGRATION 015 (UP): INDEXED TYPO MATCHING
+-- =============================================
+--
+-- book_search_query (013) found the indexed words similar to a typed one
+-- with similarity(word, lexeme) >= p_similarity. A function call cannot
+-- use idx_search_words_trgm, so every search scanned all of
+-- search_words. The % operator can: it compares with the
+-- pg_trgm.similarity_threshold setting, which the function now sets to
+-- p_similarity for its own query and puts back afterwards.
+-- =============================================
+
+/**
+ * Function: book_search_query
+ *
+ * As in 013: the stem of every word typed, each OR'd with the indexed
+ * words at least p_similarity alike (stems of p_min_fuzzy_length letters
+ * or more), AND'd in the order typed, the last one also as a prefix.
+ * NULL when nothing searchable was typed.
+ */
+CREATE OR REPLACE FUNCTION book_search_query(p_text TEXT, p_min_fuzzy_length INTEGER, p_similarity REAL)
+RETURNS tsquery AS $$
+DECLARE
+    previous_threshold TEXT := NULLIF(current_setting('pg_trgm.similarity_threshold', true), '');
+    result tsquery;
+BEGIN
+    PERFORM set_config('pg_trgm.similarity_threshold', p_similarity::text, true);
+
+    SELECT string_agg(
+               '(' || quote_literal(s.lexeme) || CASE WHEN s.last THEN ':*' ELSE '' END
+                   || COALESCE((
+                          SELECT string_agg(' | ' || quote_literal(w.word), '')
+                          FROM search_words w
+                          WHERE length(s.lexeme) >= p_min_fuzzy_length
+                            AND w.word <> s.lexeme
+                            AND w.word % s.lexeme
+                      ), '')
+                   || ')',
+               ' & ' ORDER BY s.position
+           )::tsquery
+    INTO result
+    FROM (
+        SELECT lexeme,
+               positions[1] AS position,
+               positions[array_upper(positions, 1)] = MAX(positions[array_upper(positions, 1)]) OVER () AS last
+        FROM unnest(to_tsvector('english', p_text))
+    ) s;
+
+    -- 0.3 is pg_trgm's default
+    PERFORM set_config('pg_trgm.similarity_threshold', COALESCE(previous_threshold, '0.3'), true);
+    RETURN result;
+END;
+$$ LANGUAGE plpgsql STABLE;
@@ -3,7 +3,7 @@
  * 
  * This is the root component of the Bookstore React application.
  * It sets up the application structure including:
- * - Context providers (Auth, Cart)
+ * - Context providers (Auth, Cart, Categories)
  * - React Router configuration
  * - Route definitions with role-based protection
  * - Layout structure (Navbar, Main content, Footer)
@@ -16,6 +16,8 @@
  * PUBLIC ROUTES (accessible to all):
  * - / : Home page with featured books and categories
  * - /books : Browse all books with filtering
+ * - /books/:isbn : A book's details (any ISBN form; unknown ISBNs show a 404 state)
+ * - /authors/:id : An author's details and books
  * - /login : User authentication
  * - /register : New user registration
  * 
@@ -27,26 +29,30 @@
  * SHARED PROTECTED ROUTES (any authenticated user):
  * - /profile : View profile information
  * 
- * ADMIN ROUTES (requires 'admin' role):
- * - /admin/dashboard : Business metrics overview
- * - /admin/books : Book inventory management (CRUD)
- * - /admin/orders : Publisher order management
- * - /admin/reports : Sales and analytics reports
+ * STAFF ROUTES (admin and manager, by permission - see utils/permissions.ts):
+ * - /admin/dashboard : Business metrics overview ('staff:access')
+ * - /admin/books : Book inventory management ('books:write')
+ * - /admin/categories : Category taxonomy management ('categories:write')
+ * - /admin/authors : Author editing and merging duplicates ('authors:write')
+ * - /admin/publishers : Publishers and their ordering terms ('publishers:read')
+ * - /admin/orders : Publisher order management ('publisherOrders:read')
+ * - /admin/reports : Sales and analytics reports ('reports:read')
  */
 
 import { BrowserRouter as Router, Routes, Route, Navigate } from 'react-router-dom';
 import { AuthProvider } from './context/AuthContext';
 import { CartProvider } from './context/CartContext';
+import { CategoryProvider } from './context/CategoryContext';
 import { Navbar, Footer, ProtectedRoute } from './components';
 
 // Auth pages
 import { Login, Register } from './pages/auth';
 
 // Customer pages
-import { Home, BrowseBooks, Cart, OrderHistory, Profile, EditProfile } from './pages/customer';
+import { Home, BrowseBooks, BookDetail, AuthorPage, Cart, OrderHistory, Profile, EditProfile } from './pages/customer';
 
 // Admin pages
-import { Dashboard, BookManagement, OrderManagement, Reports } from './pages/admin';
+import { Dashboard, BookManagement, CategoryManagement, AuthorManagement, PublisherManagement, OrderManagement, Reports } from './pages/admin';
 
 // Bootstrap CSS and JS for styling and interactive components
 import 'bootstrap/dist/css/bootstrap.min.css';
@@ -61,92 +67,120 @@ function App() {
   return (
     <AuthProvider>
       <CartProvider>
-        <Router basename={basename}>
-          <div className="d-flex flex-column min-vh-100">
-            <Navbar />
-            <main className="flex-grow-1">
-              <Routes>
-                {/* Public Routes */}
-                <Route path="/" element={<Home />} />
-                <Route path="/books" element={<BrowseBooks />} />
-                <Route path="/login" element={<Login />} />
-                <Route path="/register" element={<Register />} />
+        <CategoryProvider>
+          <Router basename={basename}>
+            <div className="d-flex flex-column min-vh-100">
+              <Navbar />
+              <main className="flex-grow-1">
+                <Routes>
+                  {/* Public Routes */}
+                  <Route path="/" element={<Home />} />
+                  <Route path="/books" element={<BrowseBooks />} />
+                  <Route path="/books/:isbn" element={<BookDetail />} />
+                  <Route path="/authors/:id" element={<AuthorPage />} />
+                  <Route path="/login" element={<Login />} />
+                  <Route path="/register" element={<Register />} />
 
-                {/* Customer Routes */}
-                <Route
-                  path="/cart"
-                  element={
-                    <ProtectedRoute allowedRoles={['customer']}>
-                      <Cart />
-                    </ProtectedRoute>
-                  }
-                />
-                <Route
-                  path="/orders"
-                  element={
-                    <ProtectedRoute allowedRoles={['customer']}>
-                      <OrderHistory />
-                    </ProtectedRoute>
-                  }
-                />
-                <Route
-                  path="/profile"
-                  element={
-                    <ProtectedRoute>
-                      <Profile />
-                    </ProtectedRoute>
-                  }
-                />
-                <Route
-                  path="/profile/edit"
-                  element={
-                    <ProtectedRoute allowedRoles={['customer']}>
-                      <EditProfile />
-                    </ProtectedRoute>
-                  }
-                />
+                  {/* Customer Routes */}
+                  <Route
+                    path="/cart"
+                    element={
+                      <ProtectedRoute allowedRoles={['customer']}>
+                        <Cart />
+                      </ProtectedRoute>
+                    }
+                  />
+                  <Route
+                    path="/orders"
+                    element={
+                      <ProtectedRoute allowedRoles={['customer']}>
+                        <OrderHistory />
+                      </ProtectedRoute>
+                    }
+                  />
+                  <Route
+                    path="/profile"
+                    element={
+                      <ProtectedRoute>
+                        <Profile />
+                      </ProtectedRoute>
+                    }
+                  />
+                  <Route
+                    path="/profile/edit"
+                    element={
+                      <ProtectedRoute allowedRoles={['customer']}>
+                        <EditProfile />
+                      </ProtectedRoute>
+                    }
+                  />
 
-                {/* Admin Routes */}
-                <Route
-                  path="/admin/dashboard"
-                  element={
-                    <ProtectedRoute allowedRoles={['admin']}>
-                      <Dashboard />
-                    </ProtectedRoute>
-                  }
-                />
-                <Route
-                  path="/admin/books"
-                  element={
-                    <ProtectedRoute allowedRoles={['admin']}>
-                      <BookManagement />
-                    </ProtectedRoute>
-                  }
-                />
-                <Route
-                  path="/admin/orders"
-                  element={
-                    <ProtectedRoute allowedRoles={['admin']}>
-                      <OrderManagement />
-                    </ProtectedRoute>
-                  }
-                />
-                <Route
-                  path="/admin/reports"
-                  element={
-                    <ProtectedRoute allowedRoles={['admin']}>
-                      <Reports />
-                    </ProtectedRoute>
-                  }
-                />
+                  {/* Staff Routes (admin and manager) */}
+                  <Route
+                    path="/admin/dashboard"
+                    element={
+                      <ProtectedRoute permission="staff:access">
+                        <Dashboard />
+                      </ProtectedRoute>
+                    }
+                  />
+                  <Route
+                    path="/admin/books"
+                    element={
+                      <ProtectedRoute permission="books:write">
+                        <BookManagement />
+                      </ProtectedRoute>
+                    }
+                  />
+                  <Route
+                    path="/admin/categories"
+                    element={
+                      <ProtectedRoute permission="categories:write">
+                        <CategoryManagement />
+                      </ProtectedRoute>
+                    }
+                  />
+                  <Route
+                    path="/admin/authors"
+                    element={
+                      <ProtectedRoute permission="authors:write">
+                        <AuthorManagement />
+                      </ProtectedRoute>
+                    }
+                  />
+                  <Route
+                    path="/admin/publishers"
+                    element={
+                      <ProtectedRoute permission="publishers:read">
+                        <PublisherManagement />
+                      </ProtectedRoute>
+                    }
+                  />
+                  <Route
+                    path="/admin/orders"
+                    element={
+                      <ProtectedRoute permission="publisherOrders:read">
+                        <OrderManagement />
+                      </ProtectedRoute>
+                    }
+                  />
+                  <Route
+                    path="/admin/reports"
+                    element={
+                      <ProtectedRoute permission="reports:read">
+                        <Reports />
+                      </ProtectedRoute>
+                    }
+                  />
 
-                {/* Catch all */}
-                <Route path="*" element={<Navigate to="/" replace />} />
-              </Routes>
-            </main>
-            <Footer />
-          </div>
-        </Router>
+                  {/* Catch all */}
+                  <Route path="*" element={<Navigate to="/" replace />} />
+                </Routes>
+              </main>
+              <Footer />
+            </div>
+          </Router>
+        </CategoryProvider>
       </CartProvider>
     </AuthProvider>
   );
@@ -7,24 +7,28 @@
  * Used in book listings, search results, and featured sections.
  * 
  * FEATURES:
- * 1. Book cover image with fallback placeholder
- * 2. Category badge with color coding
+ * 1. Book cover thumbnail, with a placeholder drawn from the title when
+ *    the book has no cover or it fails to load
+ * 2. Category badge in the category's color
  * 3. Low stock warning badge
  * 4. Star rating display (static for demo)
  * 5. Add to cart button with loading state
- * 6. Edit button for admin users
+ * 6. Edit button for users who may edit books ('books:write')
+ * 7. Cover and title link to the book's page (/books/:isbn)
  * 7. Success/error message feedback
+ * 8. Author names linking to each author's page
+ * 9. Format buttons switching between the editions of a work; price,
+ *    stock and Add to Cart follow the chosen edition
+ * 10. Page count of the chosen edition, when known
  * 
- * CATEGORY COLOR CODING:
- * - Science: Red
- * - Art: Orange/Yellow
- * - Religion: Purple
- * - History: Pink/Rose
- * - Geography: Magenta
+ * CATEGORY BADGE:
+ * Shows the book's first category in that category's color
+ * (colors are managed on the Category Management page).
  * 
  * PROPS:
- * @prop {Book} book - The book data to display
- * @prop {Function} onEdit - Optional callback for edit button (admin only)
+ * @prop {Book} book - The book data to display (the edition shown first)
+ * @prop {Book[]} editions - Optional, every edition of the book's work
+ * @prop {Function} onEdit - Optional callback for edit button (staff only)
  * 
  * ACCESSIBILITY:
  * - Alt text for images
@@ -46,11 +50,23 @@ import { Book } from '../types';
 import { useAuth } from '../context/AuthContext';
 import { useCart } from '../context/CartContext';
 
+// Permission check for the edit action
+import { usePermission } from '../hooks';
+
+// Badge colors from the category's own color
+import { categoryBadgeStyle } from '../utils';
+
+// Cover thumbnails, and the stand-in for missing covers
+import { coverUrl, placeholderCover } from 'bookstore-shared/covers';
+
+// Display names of edition formats
+import { FORMAT_LABELS } from 'bookstore-shared/editions';
+
 // Icons for buttons and decorations
 import { FaShoppingCart, FaEdit, FaStar } from 'react-icons/fa';
 
-// Router hook for navigation
-import { useNavigate } from 'react-router-dom';
+// Router hook for navigation, and links to book and author pages
+import { useNavigate, Link } from 'react-router-dom';
 
 /**
  * Props interface for BookCard component
@@ -58,7 +74,9 @@ import { useNavigate } from 'react-router-dom';
 interface BookCardProps {
   /** The book object containing all book data */
   book: Book;
-  /** Optional callback function when edit button is clicked (admin only) */
+  /** Every edition of the book's work, in display order (book included) */
+  editions?: Book[];
+  /** Optional callback function when edit button is clicked (staff only) */
   onEdit?: (book: Book) => void;
 }
 
@@ -68,7 +86,7 @@ interface BookCardProps {
  * Displays a book in a card format with image, details, and actions.
  * Handles add to cart functionality and displays feedback messages.
  */
-const BookCard: React.FC<BookCardProps> = ({ book, onEdit }) => {
+const BookCard: React.FC<BookCardProps> = ({ book: firstEdition, editions = [], onEdit }) => {
   // ========================================
   // HOOKS AND CONTEXT
   // ========================================
@@ -79,6 +97,9 @@ const BookCard: React.FC<BookCardProps> = ({ book, onEdit }) => {
   // Cart context for add to cart function
   const { addToCart } = useCart();
   
+  // Staff who may edit books see an Edit button
+  const canEditBooks = usePermission('books:write');
+  
   // Navigation hook for redirecting to login
   const navigate = useNavigate();
 
@@ -92,6 +113,10 @@ const BookCard: React.FC<BookCardProps> = ({ book, onEdit }) => {
   // Feedback message state (success or error)
   const [cartMessage, setCartMessage] = React.useState<{ type: 'success' | 'error'; text: string } | null>(null);
 
+  // Edition shown; the card describes and sells this one
+  const [selectedIsbn, setSelectedIsbn] = React.useState(firstEdition.isbn);
+  const book = editions.find(edition => edition.isbn === selectedIsbn) ?? firstEdition;
+
   // ========================================
   // EVENT HANDLERS
   // ========================================
@@ -129,24 +154,9 @@ const BookCard: React.FC<BookCardProps> = ({ book, onEdit }) => {
   // HELPER FUNCTIONS
   // ========================================
 
-  /**
-   * Returns style object for category badge based on category name
-   * @param category - Book category
-   * @returns Object with background and text color
-   */
-  const getCategoryStyle = (category: string) => {
-    const styles: { [key: string]: { bg: string; color: string } } = {
-      'Science': { bg: 'rgba(239, 68, 68, 0.15)', color: '#dc2626' },
-      'Art': { bg: 'rgba(245, 158, 11, 0.15)', color: '#d97706' },
-      'Religion': { bg: 'rgba(139, 92, 246, 0.15)', color: '#7c3aed' },
-      'History': { bg: 'rgba(244, 63, 94, 0.15)', color: '#f43f5e' },
-      'Geography': { bg: 'rgba(217, 70, 239, 0.15)', color: '#d946ef' }
-    };
-    return styles[category] || { bg: 'rgba(244, 63, 94, 0.15)', color: '#f43f5e' };
-  };
-
-  // Get style for current book's category
-  const categoryStyle = getCategoryStyle(book.category);
+  // The badge shows the first category; the rest are listed in its tooltip
+  const [primaryCategory] = book.categories;
+  const categoryNames = book.categories.map(c => c.name).join(', ');
 
   // ========================================
   // RENDER
@@ -156,24 +166,30 @@ const BookCard: React.FC<BookCardProps> = ({ book, onEdit }) => {
     <div className="card h-100 border-0" style={{ borderRadius: '16px' }}>
       {/* ========== IMAGE SECTION ========== */}
       <div className="position-relative overflow-hidden" style={{ borderRadius: '16px 16px 0 0' }}>
-        {/* Book cover image with fallback */}
-        <img
-          src={book.imageUrl || `https://via.placeholder.com/300x400?text=${encodeURIComponent(book.title.substring(0, 15))}`}
-          className="card-img-top"
-          alt={book.title}
-          style={{ height: '280px', objectFit: 'cover', transition: 'transform 0.3s ease' }}
-          onError={(e) => {
-            // Fallback image on error
-            e.currentTarget.src = `https://via.placeholder.com/300x400/f43f5e/ffffff?text=${encodeURIComponent(book.title.substring(0, 10))}`;
-          }}
-        />
+        {/* Book cover image with fallback, linking to the book's page */}
+        <Link to={`/books/${book.isbn}`}>
+          <img
+            src={coverUrl(book.imageUrl, 'thumbnail') ?? placeholderCover(book.title)}
+            className="card-img-top"
+            alt={book.title}
+            style={{ height: '280px', objectFit: 'cover', transition: 'transform 0.3s ease' }}
+            onError={(e) => {
+              // Placeholder when the cover cannot be loaded
+              e.currentTarget.src = placeholderCover(book.title);
+            }}
+          />
+        </Link>
         {/* Category badge - top right */}
-        <span
-          className="position-absolute top-0 end-0 m-3 px-3 py-1 rounded-pill fw-medium small"
-          style={{ backgroundColor: categoryStyle.bg, color: categoryStyle.color }}
-        >
-          {book.category}
-        </span>
+        {primaryCategory && (
+          <span
+            className="position-absolute top-0 end-0 m-3 px-3 py-1 rounded-pill fw-medium small"
+            style={categoryBadgeStyle(primaryCategory.color)}
+            title={categoryNames}
+          >
+            {primaryCategory.name}
+            {book.categories.length > 1 && ` +${book.categories.length - 1}`}
+          </span>
+        )}
         {/* Low stock warning badge - top left (only if stock is low but not zero) */}
         {book.quantity <= book.threshold && book.quantity > 0 && (
           <span className="position-absolute top-0 start-0 m-3 badge bg-warning text-dark rounded-pill">
@@ -194,7 +210,7 @@ const BookCard: React.FC<BookCardProps> = ({ book, onEdit }) => {
           <small className="text-muted">(4.0)</small>
         </div>
         
-        {/* Book title - truncated to 2 lines */}
+        {/* Book title - links to the book's page, truncated to 2 lines */}
         <h6 className="card-title fw-bold mb-1" style={{
           display: '-webkit-box',
           WebkitLineClamp: 2,
@@ -202,20 +218,43 @@ const BookCard: React.FC<BookCardProps> = ({ book, onEdit }) => {
           overflow: 'hidden',
           minHeight: '48px'
         }} title={book.title}>
-          {book.title}
+          <Link to={`/books/${book.isbn}`} className="text-reset text-decoration-none">{book.title}</Link>
         </h6>
         
-        {/* Author names - truncated with ellipsis */}
+        {/* Author names - each links to the author's page, truncated with ellipsis */}
         <p className="card-text text-muted small mb-1" style={{
           whiteSpace: 'nowrap',
           overflow: 'hidden',
           textOverflow: 'ellipsis'
-        }}>
-          by {book.authors.join(', ')}
+        }} title={book.authors.map(a => a.name).join(', ')}>
+          by {book.authors.map((author, index) => (
+            <React.Fragment key={author.id}>
+              {index > 0 && ', '}
+              <Link to={`/authors/${author.id}`} className="text-muted">{author.name}</Link>
+            </React.Fragment>
+          ))}
         </p>
         <p className="card-text small text-muted mb-3">
-          {book.publisher} • {book.publicationYear}
+          {book.publisher ?? 'Unknown publisher'} • {book.publicationYear}
+          {editions.length <= 1 && ` • ${FORMAT_LABELS[book.format]}`}
+          {book.pageCount && ` • ${book.pageCount} pages`}
         </p>
+        {/* Format choice when the work has several editions */}
+        {editions.length > 1 && (
+          <div className="btn-group btn-group-sm flex-wrap mb-3" role="group" aria-label="Format">
+            {editions.map(edition => (
+              <button
+                key={edition.isbn}
+                type="button"
+                className={`btn ${edition.isbn === book.isbn ? 'btn-primary' : 'btn-outline-primary'}`}
+                onClick={() => setSelectedIsbn(edition.isbn)}
+                aria-pressed={edition.isbn === book.isbn}
+              >
+                {FORMAT_LABELS[edition.format]}
+              </button>
+            ))}
+          </div>
+        )}
         <div className="mt-auto">
           <div className="d-flex justify-content-between align-items-center mb-3">
             <span className="h4 mb-0 fw-bold" style={{ color: 'var(--primary-color)' }}>${book.sellingPrice.toFixed(2)}</span>
@@ -250,7 +289,7 @@ const BookCard: React.FC<BookCardProps> = ({ book, onEdit }) => {
                 {addingToCart ? 'Adding...' : 'Add to Cart'}
               </button>
             )}
-            {user?.role === 'admin' && onEdit && (
+            {canEditBooks && onEdit && (
               <button
                 className="btn btn-outline-secondary py-2 rounded-3"
                 onClick={() => onEdit(book)}
@@ -0,0 +1,323 @@
+/**
+ * ============================================================================
+ * CATALOG IMPORT MODAL
+ * ============================================================================
+ *
+ * Dialog for importing books in bulk from a CSV or JSON catalog file, or
+ * from a publisher's ONIX 3.0 feed, opened from Book Management.
+ *
+ * FLOW:
+ * 1. Choose a file: JSON shaped like database/books.json, CSV with the
+ *    same columns (authors and categories separated by semicolons), or
+ *    ONIX XML (see the bookstore-shared onix module)
+ * 2. The file is checked with a dry run; the preview lists what each row
+ *    would do (create, update, skip) and every invalid row's errors.
+ *    For ONIX it also lists subjects that map to no category and what was
+ *    left out of each product (e.g. translators, non-USD prices)
+ * 3. Choose whether books already in the catalog are skipped or updated
+ * 4. Apply saves every row at once; it stays disabled while any row is
+ *    invalid, so an import is never half applied
+ *
+ * PROPS:
+ * @prop {Function} onClose - Called when the dialog is dismissed
+ * @prop {Function} onImported - Called with the report after an import is applied
+ *
+ * @author Bookstore Development Team
+ * @version 1.0.0
+ * ============================================================================
+ */
+
+// React import for component and state
+import React, { useState } from 'react';
+
+// Type imports
+import { BookImportReport, ImportExistingMode } from '../types';
+
+// API service that checks and applies the import
+import { booksApi } from '../services/api';
+
+// Catalog file parsing (CSV and JSON)
+import { parseCatalogCsv, parseCatalogJson } from 'bookstore-shared/catalogFile';
+
+// ONIX 3.0 feeds and subject descriptions
+import { parseOnix, describeSubject } from 'bookstore-shared/onix';
+import type { OnixProduct } from 'bookstore-shared/onix';
+
+// Icons for visual enhancement
+import { FaFileImport } from 'react-icons/fa';
+
+/**
+ * Props interface for CatalogImportModal component
+ */
+interface CatalogImportModalProps {
+  /** Dismisses the dialog without importing */
+  onClose: () => void;
+  /** Receives the report of an applied import */
+  onImported: (report: BookImportReport) => void;
+}
+
+/** Badge class for each row action in the preview */
+const ACTION_BADGES: Record<BookImportReport['rows'][number]['action'], string> = {
+  create: 'bg-success',
+  update: 'bg-primary',
+  skip: 'bg-secondary',
+  invalid: 'bg-danger'
+};
+
+/**
+ * CatalogImportModal Component
+ *
+ * Renders the file picker, the existing-book option and the dry-run preview.
+ */
+const CatalogImportModal: React.FC<CatalogImportModalProps> = ({ onClose, onImported }) => {
+  // ========================================
+  // STATE MANAGEMENT
+  // ========================================
+
+  const [rows, setRows] = useState<unknown[] | null>(null);      // Records read from the file
+  const [onixProducts, setOnixProducts] = useState<OnixProduct[]>([]); // ONIX products behind rows, in order
+  const [onixDeleted, setOnixDeleted] = useState(0);            // ONIX products the feed deletes
+  const [existing, setExisting] = useState<ImportExistingMode>('skip');
+  const [report, setReport] = useState<BookImportReport | null>(null); // Dry-run preview
+  const [error, setError] = useState('');
+  const [isChecking, setIsChecking] = useState(false);
+  const [isApplying, setIsApplying] = useState(false);
+
+  // ========================================
+  // HANDLERS
+  // ========================================
+
+  /**
+   * Runs a dry run and shows its report
+   * @param records - Rows to check
+   * @param mode - What to do with books already in the catalog
+   */
+  const preview = async (records: unknown[], mode: ImportExistingMode) => {
+    setIsChecking(true);
+    setError('');
+    setReport(null);
+    try {
+      setReport(await booksApi.importCatalog(records, { existing: mode, dryRun: true }));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to check the import');
+    } finally {
+      setIsChecking(false);
+    }
+  };
+
+  /**
+   * Reads the chosen file (by extension: JSON, ONIX XML, otherwise CSV)
+   * and previews it
+   */
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    setRows(null);
+    setOnixProducts([]);
+    setOnixDeleted(0);
+    setReport(null);
+    setError('');
+    if (!file) return;
+
+    let records: unknown[];
+    try {
+      const text = await file.text();
+      const name = file.name.toLowerCase();
+      if (name.endsWith('.xml')) {
+        // Products the feed deletes have no record and are only counted
+        const products = parseOnix(text);
+        const imported = products.filter(product => product.record);
+        setOnixProducts(imported);
+        setOnixDeleted(products.length - imported.length);
+        records = imported.map(product => product.record);
+      } else {
+        records = name.endsWith('.json') ? parseCatalogJson(text) : parseCatalogCsv(text);
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'The file could not be read');
+      return;
+    }
+    setRows(records);
+    await preview(records, existing);
+  };
+
+  /**
+   * Changes how existing books are handled and refreshes the preview
+   */
+  const handleExistingChange = (mode: ImportExistingMode) => {
+    setExisting(mode);
+    if (rows) preview(rows, mode);
+  };
+
+  /**
+   * Saves the import
+   */
+  const handleApply = async () => {
+    if (!rows) return;
+    setIsApplying(true);
+    setError('');
+    try {
+      onImported(await booksApi.importCatalog(rows, { existing, dryRun: false }));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to import books');
+    } finally {
+      setIsApplying(false);
+    }
+  };
+
+  // ONIX subjects that map to no category, with the number of products using each
+  const unmappedSubjects = new Map<string, number>();
+  onixProducts.flatMap(product => product.unmappedSubjects.map(describeSubject)).forEach(subject => {
+    unmappedSubjects.set(subject, (unmappedSubjects.get(subject) ?? 0) + 1);
+  });
+
+  // Nothing to save, or rows that must be fixed in the file first
+  const canApply = !!report && report.summary.invalid === 0 && report.summary.create + report.summary.update > 0;
+
+  return (
+    <div className="modal show d-block" style={{ backgroundColor: 'rgba(0,0,0,0.5)' }}>
+      <div className="modal-dialog modal-xl">
+        <div className="modal-content">
+          <div className="modal-header">
+            <h5 className="modal-title">
+              <FaFileImport className="me-2" />
+              Import Books
+            </h5>
+            <button type="button" className="btn-close" onClick={onClose}></button>
+          </div>
+          <div className="modal-body">
+            {error && <div className="alert alert-danger">{error}</div>}
+
+            <div className="row g-3 mb-3">
+              <div className="col-md-7">
+                <label className="form-label" htmlFor="catalog-file">Catalog file</label>
+                <input
+                  type="file"
+                  id="catalog-file"
+                  className="form-control"
+                  accept=".csv,.json,.xml,text/csv,application/json,application/xml,text/xml"
+                  onChange={handleFileChange}
+                />
+                <div className="form-text">
+                  JSON like database/books.json, or CSV with the columns isbn, title, authors, publisher,
+                  publicationYear, sellingPrice, categories, quantity, threshold and imageUrl.
+                  Separate several authors or categories with semicolons (write \; for a
+                  semicolon within a name).
+                  Publisher ONIX 3.0 feeds (.xml) are read too; they leave stock unchanged.
+                </div>
+              </div>
+              <div className="col-md-5">
+                <label className="form-label d-block">Books already in the catalog</label>
+                {(['skip', 'upsert'] as const).map(mode => (
+                  <div className="form-check" key={mode}>
+                    <input
+                      type="radio"
+                      className="form-check-input"
+                      id={`existing-${mode}`}
+                      checked={existing === mode}
+                      onChange={() => handleExistingChange(mode)}
+                    />
+                    <label className="form-check-label" htmlFor={`existing-${mode}`}>
+                      {mode === 'skip' ? 'Skip them (keep the current details)' : 'Update them with the imported details'}
+                    </label>
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            {isChecking && (
+              <p className="text-muted">
+                <span className="spinner-border spinner-border-sm me-2" />
+                Checking the file...
+              </p>
+            )}
+
+            {/* Dry-run preview */}
+            {report && (
+              <>
+                <p className="mb-2">
+                  <span className="badge bg-success me-1">{report.summary.create} new</span>
+                  <span className="badge bg-primary me-1">{report.summary.update} updated</span>
+                  <span className="badge bg-secondary me-1">{report.summary.skip} skipped</span>
+                  <span className="badge bg-danger">{report.summary.invalid} invalid</span>
+                </p>
+                {onixDeleted > 0 && (
+                  <p className="text-muted small mb-2">
+                    {onixDeleted} product{onixDeleted === 1 ? '' : 's'} deleted by the feed {onixDeleted === 1 ? 'is' : 'are'} not imported.
+                  </p>
+                )}
+                {unmappedSubjects.size > 0 && (
+                  <div className="alert alert-info py-2">
+                    <strong>Subjects with no category:</strong>
+                    <ul className="mb-1">
+                      {[...unmappedSubjects].map(([subject, count]) => (
+                        <li key={subject}><small>{subject} - {count} book{count === 1 ? '' : 's'}</small></li>
+                      ))}
+                    </ul>
+                    <small>Books with none of their subjects mapped have no category and cannot be imported.</small>
+                  </div>
+                )}
+                {report.summary.invalid > 0 && (
+                  <div className="alert alert-warning py-2">
+                    Fix the invalid rows in the file and choose it again. Nothing is imported while any row is invalid.
+                  </div>
+                )}
+                <div className="table-responsive" style={{ maxHeight: '400px', overflowY: 'auto' }}>
+                  <table className="table table-sm">
+                    <thead className="table-light">
+                      <tr>
+                        <th>Row</th>
+                        <th>ISBN</th>
+                        <th>Title</th>
+                        <th>Action</th>
+                        <th>Problems</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {report.rows.map(row => (
+                        <tr key={row.row} className={row.action === 'invalid' ? 'table-danger' : ''}>
+                          <td>{row.row}</td>
+                          <td><small>{row.isbn ?? '-'}</small></td>
+                          <td>{row.title ?? '-'}</td>
+                          <td><span className={`badge ${ACTION_BADGES[row.action]}`}>{row.action}</span></td>
+                          <td>
+                            {row.errors.map((fieldError, i) => (
+                              <div key={i}>
+                                <small>{fieldError.field && <strong>{fieldError.field}: </strong>}{fieldError.message}</small>
+                              </div>
+                            ))}
+                            {onixProducts[row.row - 1]?.notes.map((note, i) => (
+                              <div key={`note-${i}`} className="text-muted">
+                                <small>{note}</small>
+                              </div>
+                            ))}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              </>
+            )}
+          </div>
+          <div className="modal-footer">
+            <button type="button" className="btn btn-secondary" onClick={onClose}>
+              Cancel
+            </button>
+            <button type="button" className="btn btn-primary" onClick={handleApply} disabled={!canApply || isApplying || isChecking}>
+              {isApplying ? (
+                <>
+                  <span className="spinner-border spinner-border-sm me-2" />
+                  Importing...
+                </>
+              ) : (
+                'Import'
+              )}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CatalogImportModal;
@@ -0,0 +1,190 @@
+/**
+ * ============================================================================
+ * COVER PICKER COMPONENT
+ * ============================================================================
+ *
+ * Chooses a book's cover in the Book Management form: drop an image on the
+ * preview or click it to browse. The image is uploaded straight away
+ * (booksApi.uploadCover) and the form receives the stored imageUrl, which
+ * is saved with the rest of the book.
+ *
+ * FEATURES:
+ * - Drag-and-drop or file browser
+ * - Checks type and size before uploading (same rules as the backend)
+ * - Shows the chosen image while it uploads, then the stored thumbnail
+ * - Remove button to leave the book without a cover
+ *
+ * PROPS:
+ * @prop {string} imageUrl - Current cover URL, if the book has one
+ * @prop {string} title - Book title, drawn on the placeholder cover
+ * @prop {Function} onChange - Called with the new imageUrl (undefined when removed)
+ * @prop {string} error - Message from the API about the cover, if any
+ *
+ * @author Bookstore Development Team
+ * @version 1.0.0
+ * ============================================================================
+ */
+
+// React imports for component, state and cleanup
+import React, { useEffect, useRef, useState } from 'react';
+
+// API service that stores the image
+import { booksApi, fieldErrorsOf } from '../services/api';
+
+// Cover rules, sizes and the placeholder, shared with the backend
+import { COVER_TYPES, MAX_COVER_BYTES, checkCoverFile, coverUrl, placeholderCover } from 'bookstore-shared/covers';
+
+// Inline message for the field
+import FieldError from './FieldError';
+
+// Icons for visual enhancement
+import { FaCloudUploadAlt, FaTimes } from 'react-icons/fa';
+
+/**
+ * Props interface for CoverPicker component
+ */
+interface CoverPickerProps {
+  /** Cover URL currently on the form */
+  imageUrl?: string;
+  /** Book title, for the placeholder shown without a cover */
+  title: string;
+  /** Receives the uploaded cover's imageUrl, or undefined when removed */
+  onChange: (imageUrl: string | undefined) => void;
+  /** Message from the API about the cover */
+  error?: string;
+}
+
+/**
+ * CoverPicker Component
+ *
+ * Renders the cover preview as a drop zone, with the upload status and
+ * the remove button beside it.
+ */
+const CoverPicker: React.FC<CoverPickerProps> = ({ imageUrl, title, onChange, error }) => {
+  // ========================================
+  // STATE MANAGEMENT
+  // ========================================
+
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [isDragging, setIsDragging] = useState(false);        // A file is over the drop zone
+  const [isUploading, setIsUploading] = useState(false);
+  const [localPreview, setLocalPreview] = useState<string | null>(null); // Chosen file while it uploads
+  const [uploadError, setUploadError] = useState('');
+
+  // Release the chosen file's preview URL when it is replaced or on unmount
+  useEffect(() => {
+    return () => {
+      if (localPreview) URL.revokeObjectURL(localPreview);
+    };
+  }, [localPreview]);
+
+  // ========================================
+  // HANDLERS
+  // ========================================
+
+  /**
+   * Checks and uploads a chosen file
+   * @param file - Image dropped or picked
+   */
+  const upload = async (file: File) => {
+    setUploadError('');
+    const problem = checkCoverFile(file);
+    if (problem) {
+      setUploadError(problem);
+      return;
+    }
+
+    setLocalPreview(URL.createObjectURL(file));
+    setIsUploading(true);
+    try {
+      const { imageUrl: uploaded } = await booksApi.uploadCover(file);
+      onChange(uploaded);
+    } catch (err) {
+      setUploadError(fieldErrorsOf(err).cover ?? (err instanceof Error ? err.message : 'Failed to upload the cover'));
+    } finally {
+      setLocalPreview(null);
+      setIsUploading(false);
+    }
+  };
+
+  const handleDrop = (e: React.DragEvent<HTMLDivElement>) => {
+    e.preventDefault();
+    setIsDragging(false);
+    const file = e.dataTransfer.files[0];
+    if (file) upload(file);
+  };
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    // Cleared so choosing the same file again still fires a change
+    e.target.value = '';
+    if (file) upload(file);
+  };
+
+  // ========================================
+  // RENDER
+  // ========================================
+
+  const preview = localPreview ?? coverUrl(imageUrl, 'thumbnail') ?? placeholderCover(title || 'No cover');
+
+  return (
+    <div className="d-flex align-items-start gap-3">
+      {/* Drop zone showing the cover */}
+      <div
+        role="button"
+        tabIndex={0}
+        aria-label="Choose a cover image"
+        className={`position-relative rounded border border-2 ${isDragging ? 'border-primary' : 'border-secondary-subtle'}`}
+        style={{ width: '120px', height: '180px', borderStyle: 'dashed', cursor: 'pointer', overflow: 'hidden' }}
+        onClick={() => inputRef.current?.click()}
+        onKeyDown={(e) => {
+          if (e.key === 'Enter' || e.key === ' ') {
+            e.preventDefault();
+            inputRef.current?.click();
+          }
+        }}
+        onDragOver={(e) => {
+          e.preventDefault();
+          setIsDragging(true);
+        }}
+        onDragLeave={() => setIsDragging(false)}
+        onDrop={handleDrop}
+      >
+        <img
+          src={preview}
+          alt="Cover preview"
+          className="w-100 h-100"
+          style={{ objectFit: 'cover', opacity: isUploading ? 0.5 : 1 }}
+        />
+        {isUploading && (
+          <span className="position-absolute top-50 start-50 translate-middle spinner-border spinner-border-sm text-primary" />
+        )}
+      </div>
+      <input
+        ref={inputRef}
+        type="file"
+        className="d-none"
+        accept={COVER_TYPES.join(',')}
+        onChange={handleFileChange}
+      />
+
+      <div className="small">
+        <p className="mb-2 text-muted">
+          <FaCloudUploadAlt className="me-1" />
+          Drop an image on the cover or click it to browse.
+          <br />
+          JPEG, PNG or WebP, up to {MAX_COVER_BYTES / (1024 * 1024)} MB.
+        </p>
+        {imageUrl && !isUploading && (
+          <button type="button" className="btn btn-sm btn-outline-danger" onClick={() => onChange(undefined)}>
+            <FaTimes className="me-1" />
+            Remove cover
+          </button>
+        )}
+        <FieldError message={uploadError || error} />
+      </div>
+    </div>
+  );
+};
+
+export default CoverPicker;
@@ -0,0 +1,64 @@
+/**
+ * ============================================================================
+ * FIELD ERROR COMPONENT
+ * ============================================================================
+ * 
+ * Inline validation message shown under a form input.
+ * Renders nothing when there is no message.
+ * 
+ * Forms collect messages with fieldErrorsOf() (services/apiErrors.ts),
+ * which maps an ApiValidationError to { fieldName: message }, and mark
+ * the input itself with Bootstrap's is-invalid class (invalidClass).
+ * 
+ * PROPS:
+ * @prop {string} message - Message for the field, if it is invalid
+ * 
+ * EXAMPLE:
+ * ```tsx
+ * <input className={`form-control${invalidClass(fieldErrors, 'email')}`} ... />
+ * <FieldError message={fieldErrors.email} />
+ * ```
+ * 
+ * @author Bookstore Development Team
+ * @version 1.0.0
+ * ============================================================================
+ */
+
+// React import
+import React from 'react';
+
+/**
+ * Props interface for FieldError component
+ */
+interface FieldErrorProps {
+  /** Message to show; nothing is rendered when empty */
+  message?: string;
+}
+
+/**
+ * Bootstrap class marking an input as invalid
+ * 
+ * @param fieldErrors - Messages by field, e.g. from fieldErrorsOf()
+ * @param field - Field name
+ * @returns ' is-invalid' if the field has an error, otherwise ''
+ */
+export const invalidClass = (fieldErrors: Record<string, string>, field: string): string =>
+  (fieldErrors[field] ? ' is-invalid' : '');
+
+/**
+ * FieldError Component
+ * 
+ * Uses Bootstrap's invalid-feedback styling. d-block keeps it visible
+ * when the input sits inside an input-group.
+ */
+const FieldError: React.FC<FieldErrorProps> = ({ message }) => {
+  if (!message) return null;
+
+  return (
+    <div className="invalid-feedback d-block" role="alert">
+      {message}
+    </div>
+  );
+};
+
+export default FieldError;
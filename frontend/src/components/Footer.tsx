@@ -5,7 +5,7 @@
  * - Brand section with logo and description
  * - Social media links
  * - Quick navigation links
- * - Book category links with color coding
+ * - Top-level category links in each category's color
  * - Contact information
  * - Newsletter subscription form
  * - Copyright notice
@@ -21,7 +21,7 @@
  * Features:
  * - Responsive grid layout (4 columns on large, 2 on medium, 1 on mobile)
  * - Animated social media icons with hover effects
- * - Category pills matching the app's color scheme
+ * - Category list loaded from the taxonomy (CategoryContext)
  * - Email subscription form with validation styling
  * - Current year auto-update in copyright
  * 
@@ -37,6 +37,7 @@
 import React from 'react';
 import { Link } from 'react-router-dom';
 import { FaGithub, FaBook, FaTwitter, FaFacebook, FaInstagram, FaEnvelope, FaPhone, FaMapMarkerAlt } from 'react-icons/fa';
+import { useCategories } from '../context/CategoryContext';
 
 /**
  * Footer functional component.
@@ -44,16 +45,11 @@ import { FaGithub, FaBook, FaTwitter, FaFacebook, FaInstagram, FaEnvelope, FaPho
  */
 const Footer: React.FC = () => {
   /**
-   * Category color mapping for consistent styling throughout the app.
-   * These colors match the BookCard component's category badge colors.
+   * Top-level categories; each links to Browse Books filtered by its slug,
+   * which also lists the books of its subcategories.
    */
-  const categoryColors: { [key: string]: string } = {
-    'Science': '#0ea5e9',     // Sky blue
-    'Art': '#f59e0b',         // Amber
-    'History': '#ef4444',     // Red
-    'Religion': '#8b5cf6',    // Violet
-    'Geography': '#d946ef'    // Fuchsia
-  };
+  const { categories } = useCategories();
+  const topCategories = categories.filter(category => category.parentId === null);
 
   return (
     <footer style={{
@@ -109,10 +105,10 @@ const Footer: React.FC = () => {
           <div className="col-lg-2 col-md-6">
             <h6 className="text-white fw-bold mb-4">Categories</h6>
             <ul className="list-unstyled">
-              {Object.entries(categoryColors).map(([category, color]) => (
-                <li key={category} className="mb-2">
+              {topCategories.map(category => (
+                <li key={category.id} className="mb-2">
                   <Link
-                    to={`/books?category=${category}`}
+                    to={`/books?category=${category.slug}`}
                     className="text-decoration-none d-flex align-items-center"
                     style={{ color: '#94a3b8', transition: 'color 0.2s ease' }}
                   >
@@ -121,11 +117,11 @@ const Footer: React.FC = () => {
                         width: '8px',
                         height: '8px',
                         borderRadius: '50%',
-                        backgroundColor: color,
+                        backgroundColor: category.color,
                         marginRight: '10px'
                       }}
                     />
-                    {category}
+                    {category.name}
                   </Link>
                 </li>
               ))}
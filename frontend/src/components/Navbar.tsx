@@ -8,10 +8,11 @@
  * 
  * FEATURES:
  * 1. Responsive design with mobile hamburger menu
- * 2. Role-based navigation links (admin vs customer)
+ * 2. Permission-based navigation links (see utils/permissions.ts)
  * 3. Shopping cart icon with item count badge
  * 4. User profile dropdown with logout
  * 5. Active state highlighting for current route
+ * 6. Catalog search with suggestions as you type (SearchBox)
  * 
  * NAVIGATION LINKS BY ROLE:
  * 
@@ -28,13 +29,15 @@
  * - Order History
  * - Logout
  * 
- * ADMIN:
- * - Dashboard
- * - Books Management
- * - Orders Management
- * - Reports
- * - Browse Books (as customer)
- * - Cart (can also shop)
+ * STAFF (admin, manager), each link shown only with its permission:
+ * - Dashboard ('staff:access')
+ * - Books Management ('books:write')
+ * - Categories Management ('categories:write')
+ * - Authors Management ('authors:write')
+ * - Publishers Management ('publishers:read')
+ * - Orders Management ('publisherOrders:read')
+ * - Reports ('reports:read')
+ * - Browse Books
  * - Profile
  * - Logout
  * 
@@ -59,8 +62,14 @@ import { Link, useNavigate, useLocation } from 'react-router-dom';
 import { useAuth } from '../context/AuthContext';
 import { useCart } from '../context/CartContext';
 
+// Permission checks for staff links
+import { usePermission } from '../hooks';
+
+// Catalog search with typeahead suggestions
+import SearchBox from './SearchBox';
+
 // Icons for navigation items
-import { FaShoppingCart, FaUser, FaSignOutAlt, FaBook, FaChartBar, FaBoxes, FaClipboardList, FaTachometerAlt } from 'react-icons/fa';
+import { FaShoppingCart, FaUser, FaSignOutAlt, FaBook, FaChartBar, FaBoxes, FaClipboardList, FaTachometerAlt, FaTags, FaUserEdit, FaBuilding } from 'react-icons/fa';
 
 /**
  * Navbar Component
@@ -79,6 +88,15 @@ const Navbar: React.FC = () => {
   // Cart context for item count badge
   const { cart } = useCart();
   
+  // Permissions deciding which staff links to show
+  const canViewDashboard = usePermission('staff:access');
+  const canManageBooks = usePermission('books:write');
+  const canManageCategories = usePermission('categories:write');
+  const canManageAuthors = usePermission('authors:write');
+  const canViewPublishers = usePermission('publishers:read');
+  const canManageOrders = usePermission('publisherOrders:read');
+  const canViewReports = usePermission('reports:read');
+  
   // Navigation and location hooks
   const navigate = useNavigate();
   const location = useLocation();
@@ -167,8 +185,8 @@ const Navbar: React.FC = () => {
               </Link>
             </li>
             
-            {/* ========== ADMIN-ONLY LINKS ========== */}
-            {isAuthenticated && user?.role === 'admin' && (
+            {/* ========== STAFF LINKS (by permission) ========== */}
+            {canViewDashboard && (
               <>
                 {/* Dashboard Link */}
                 <li className="nav-item">
@@ -186,52 +204,112 @@ const Navbar: React.FC = () => {
                   </Link>
                 </li>
                 {/* Books Management Link */}
-                <li className="nav-item">
-                  <Link
-                    className={`nav-link px-3 py-2 rounded-pill mx-1 d-flex align-items-center ${isActive('/admin/books') ? 'active' : ''}`}
-                    to="/admin/books"
-                    style={{
-                      color: isActive('/admin/books') ? '#f43f5e' : '#64748b',
-                      backgroundColor: isActive('/admin/books') ? 'rgba(244, 63, 94, 0.1)' : 'transparent',
-                      fontWeight: 500
-                    }}
-                  >
-                    <FaBoxes className="me-1" size={14} />
-                    Books
-                  </Link>
-                </li>
-                <li className="nav-item">
-                  <Link
-                    className={`nav-link px-3 py-2 rounded-pill mx-1 d-flex align-items-center ${isActive('/admin/orders') ? 'active' : ''}`}
-                    to="/admin/orders"
-                    style={{
-                      color: isActive('/admin/orders') ? '#f43f5e' : '#64748b',
-                      backgroundColor: isActive('/admin/orders') ? 'rgba(244, 63, 94, 0.1)' : 'transparent',
-                      fontWeight: 500
-                    }}
-                  >
-                    <FaClipboardList className="me-1" size={14} />
-                    Orders
-                  </Link>
-                </li>
-                <li className="nav-item">
-                  <Link
-                    className={`nav-link px-3 py-2 rounded-pill mx-1 d-flex align-items-center ${isActive('/admin/reports') ? 'active' : ''}`}
-                    to="/admin/reports"
-                    style={{
-                      color: isActive('/admin/reports') ? '#f43f5e' : '#64748b',
-                      backgroundColor: isActive('/admin/reports') ? 'rgba(244, 63, 94, 0.1)' : 'transparent',
-                      fontWeight: 500
-                    }}
-                  >
-                    <FaChartBar className="me-1" size={14} />
-                    Reports
-                  </Link>
-                </li>
+                {canManageBooks && (
+                  <li className="nav-item">
+                    <Link
+                      className={`nav-link px-3 py-2 rounded-pill mx-1 d-flex align-items-center ${isActive('/admin/books') ? 'active' : ''}`}
+                      to="/admin/books"
+                      style={{
+                        color: isActive('/admin/books') ? '#f43f5e' : '#64748b',
+                        backgroundColor: isActive('/admin/books') ? 'rgba(244, 63, 94, 0.1)' : 'transparent',
+                        fontWeight: 500
+                      }}
+                    >
+                      <FaBoxes className="me-1" size={14} />
+                      Books
+                    </Link>
+                  </li>
+                )}
+                {/* Categories Management Link */}
+                {canManageCategories && (
+                  <li className="nav-item">
+                    <Link
+                      className={`nav-link px-3 py-2 rounded-pill mx-1 d-flex align-items-center ${isActive('/admin/categories') ? 'active' : ''}`}
+                      to="/admin/categories"
+                      style={{
+                        color: isActive('/admin/categories') ? '#f43f5e' : '#64748b',
+                        backgroundColor: isActive('/admin/categories') ? 'rgba(244, 63, 94, 0.1)' : 'transparent',
+                        fontWeight: 500
+                      }}
+                    >
+                      <FaTags className="me-1" size={14} />
+                      Categories
+                    </Link>
+                  </li>
+                )}
+                {/* Authors Management Link */}
+                {canManageAuthors && (
+                  <li className="nav-item">
+                    <Link
+                      className={`nav-link px-3 py-2 rounded-pill mx-1 d-flex align-items-center ${isActive('/admin/authors') ? 'active' : ''}`}
+                      to="/admin/authors"
+                      style={{
+                        color: isActive('/admin/authors') ? '#f43f5e' : '#64748b',
+                        backgroundColor: isActive('/admin/authors') ? 'rgba(244, 63, 94, 0.1)' : 'transparent',
+                        fontWeight: 500
+                      }}
+                    >
+                      <FaUserEdit className="me-1" size={14} />
+                      Authors
+                    </Link>
+                  </li>
+                )}
+                {/* Publishers Management Link */}
+                {canViewPublishers && (
+                  <li className="nav-item">
+                    <Link
+                      className={`nav-link px-3 py-2 rounded-pill mx-1 d-flex align-items-center ${isActive('/admin/publishers') ? 'active' : ''}`}
+                      to="/admin/publishers"
+                      style={{
+                        color: isActive('/admin/publishers') ? '#f43f5e' : '#64748b',
+                        backgroundColor: isActive('/admin/publishers') ? 'rgba(244, 63, 94, 0.1)' : 'transparent',
+                        fontWeight: 500
+                      }}
+                    >
+                      <FaBuilding className="me-1" size={14} />
+                      Publishers
+                    </Link>
+                  </li>
+                )}
+                {canManageOrders && (
+                  <li className="nav-item">
+                    <Link
+                      className={`nav-link px-3 py-2 rounded-pill mx-1 d-flex align-items-center ${isActive('/admin/orders') ? 'active' : ''}`}
+                      to="/admin/orders"
+                      style={{
+                        color: isActive('/admin/orders') ? '#f43f5e' : '#64748b',
+                        backgroundColor: isActive('/admin/orders') ? 'rgba(244, 63, 94, 0.1)' : 'transparent',
+                        fontWeight: 500
+                      }}
+                    >
+                      <FaClipboardList className="me-1" size={14} />
+                      Orders
+                    </Link>
+                  </li>
+                )}
+                {canViewReports && (
+                  <li className="nav-item">
+                    <Link
+                      className={`nav-link px-3 py-2 rounded-pill mx-1 d-flex align-items-center ${isActive('/admin/reports') ? 'active' : ''}`}
+                      to="/admin/reports"
+                      style={{
+                        color: isActive('/admin/reports') ? '#f43f5e' : '#64748b',
+                        backgroundColor: isActive('/admin/reports') ? 'rgba(244, 63, 94, 0.1)' : 'transparent',
+                        fontWeight: 500
+                      }}
+                    >
+                      <FaChartBar className="me-1" size={14} />
+                      Reports
+                    </Link>
+                  </li>
+                )}
               </>
             )}
           </ul>
 
+          {/* ========== SEARCH ========== */}
+          <SearchBox />
+
           <ul className="navbar-nav align-items-center">
             {isAuthenticated ? (
               <>
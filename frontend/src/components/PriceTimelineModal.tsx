@@ -0,0 +1,367 @@
+/**
+ * ============================================================================
+ * PRICE TIMELINE MODAL
+ * ============================================================================
+ *
+ * Dialog showing one book's prices over time, opened from Book Management.
+ *
+ * SECTIONS:
+ * - Timeline: every price the book has had, newest first, with the change
+ *   from the price before and what made it (added, edited, imported or a
+ *   price rule, named by its label)
+ * - Price rules: the book's scheduled, active and past rules; scheduled
+ *   and active ones can be cancelled (an active rule's previous price
+ *   comes back)
+ * - Schedule a price: a price from a start time and, optionally, back to
+ *   the current price at an end time, e.g. a weekend sale. Times are
+ *   entered in the browser's time zone and sent as UTC.
+ *
+ * PROPS:
+ * @prop {Book} book - Book whose prices are shown
+ * @prop {Function} onClose - Called when the dialog is dismissed
+ * @prop {Function} onPriceChanged - Called after a rule is added or
+ *   cancelled, since either may change the book's price straight away
+ *
+ * @author Bookstore Development Team
+ * @version 1.0.0
+ * ============================================================================
+ */
+
+// React imports for component, state and loading
+import React, { useEffect, useState } from 'react';
+
+// Type imports
+import { Book, PriceChange, PriceChangeSource, PriceRule, PriceRuleStatus } from '../types';
+
+// API services for the history and the rules
+import { booksApi, priceRulesApi, fieldErrorsOf } from '../services/api';
+
+// Format names, shared with the backend
+import { FORMAT_LABELS } from 'bookstore-shared/editions';
+
+// Inline messages for the schedule form
+import FieldError from './FieldError';
+
+// Icons for visual enhancement
+import { FaChartLine, FaArrowUp, FaArrowDown, FaCalendarPlus, FaTimes } from 'react-icons/fa';
+
+/**
+ * Props interface for PriceTimelineModal component
+ */
+interface PriceTimelineModalProps {
+  /** Book whose prices are shown */
+  book: Book;
+  /** Dismisses the dialog */
+  onClose: () => void;
+  /** A rule was added or cancelled; the book's price may have changed */
+  onPriceChanged: () => void;
+}
+
+/** How each kind of change is described in the timeline */
+const SOURCE_LABELS: Record<PriceChangeSource, string> = {
+  created: 'Added',
+  manual: 'Edited',
+  import: 'Imported',
+  schedule: 'Price rule'
+};
+
+/** Badge class for each rule status */
+const STATUS_BADGES: Record<PriceRuleStatus, string> = {
+  scheduled: 'bg-info text-dark',
+  active: 'bg-success',
+  completed: 'bg-secondary',
+  cancelled: 'bg-light text-dark border'
+};
+
+/** Empty schedule form; times are datetime-local values */
+const emptyRuleForm = { price: '', label: '', startsAt: '', endsAt: '' };
+
+/**
+ * Formats an ISO time for display in the browser's time zone
+ * @param iso - Time from the API
+ */
+const formatTime = (iso: string) =>
+  new Date(iso).toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' });
+
+/**
+ * PriceTimelineModal Component
+ *
+ * Loads the book's history and rules, and reloads both after each change.
+ */
+const PriceTimelineModal: React.FC<PriceTimelineModalProps> = ({ book, onClose, onPriceChanged }) => {
+  // ========================================
+  // STATE MANAGEMENT
+  // ========================================
+
+  const [history, setHistory] = useState<PriceChange[]>([]);
+  const [rules, setRules] = useState<PriceRule[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [ruleForm, setRuleForm] = useState(emptyRuleForm);
+  const [fieldErrors, setFieldErrors] = useState<Record<string, string>>({});
+  const [error, setError] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  // ========================================
+  // DATA LOADING
+  // ========================================
+
+  /**
+   * Loads the book's price history and rules
+   */
+  const loadPrices = async () => {
+    try {
+      const [historyData, rulesData] = await Promise.all([
+        booksApi.getPriceHistory(book.isbn),
+        priceRulesApi.getAll({ isbn: book.isbn })
+      ]);
+      setHistory(historyData);
+      setRules(rulesData);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load prices');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadPrices();
+  }, [book.isbn]);
+
+  // ========================================
+  // HANDLERS
+  // ========================================
+
+  /**
+   * Schedules the price in the form
+   */
+  const handleSchedule = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+    setFieldErrors({});
+
+    const errors: Record<string, string> = {};
+    if (!ruleForm.price) errors.price = 'Price is required';
+    if (!ruleForm.startsAt) errors.startsAt = 'Start is required';
+    if (Object.keys(errors).length > 0) {
+      setFieldErrors(errors);
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      await priceRulesApi.add({
+        isbn: book.isbn,
+        price: parseFloat(ruleForm.price),
+        label: ruleForm.label.trim() || undefined,
+        // datetime-local values are local times; the API takes UTC
+        startsAt: new Date(ruleForm.startsAt).toISOString(),
+        endsAt: ruleForm.endsAt ? new Date(ruleForm.endsAt).toISOString() : undefined
+      });
+      setRuleForm(emptyRuleForm);
+      await loadPrices();
+      onPriceChanged();
+    } catch (err) {
+      const apiErrors = fieldErrorsOf(err);
+      setFieldErrors(apiErrors);
+      if (Object.keys(apiErrors).length === 0) {
+        setError(err instanceof Error ? err.message : 'Failed to schedule the price');
+      }
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  /**
+   * Cancels a scheduled or active rule (with confirmation)
+   * @param rule - Rule to cancel
+   */
+  const handleCancelRule = async (rule: PriceRule) => {
+    const effect = rule.status === 'active'
+      ? ` The price goes back to $${rule.previousPrice?.toFixed(2)}.`
+      : '';
+    if (!confirm(`Cancel the ${rule.label ? `"${rule.label}" ` : ''}price of $${rule.price.toFixed(2)}?${effect}`)) {
+      return;
+    }
+
+    setError('');
+    try {
+      await priceRulesApi.cancel(rule.id);
+      await loadPrices();
+      onPriceChanged();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to cancel the price rule');
+    }
+  };
+
+  // ========================================
+  // RENDER
+  // ========================================
+
+  const currentPrice = history.length > 0 ? history[history.length - 1].price : book.sellingPrice;
+
+  return (
+    <div className="modal show d-block" style={{ backgroundColor: 'rgba(0,0,0,0.5)' }}>
+      <div className="modal-dialog modal-lg modal-dialog-scrollable">
+        <div className="modal-content">
+          <div className="modal-header">
+            <h5 className="modal-title">
+              <FaChartLine className="me-2" />
+              Prices: {book.title} <small className="text-muted">({FORMAT_LABELS[book.format]})</small>
+            </h5>
+            <button type="button" className="btn-close" onClick={onClose}></button>
+          </div>
+          <div className="modal-body">
+            {error && <div className="alert alert-danger">{error}</div>}
+
+            {isLoading ? (
+              <div className="text-center py-4">
+                <span className="spinner-border text-primary" />
+              </div>
+            ) : (
+              <>
+                <p className="mb-3">
+                  Current price: <strong className="fs-5">${currentPrice.toFixed(2)}</strong>
+                </p>
+
+                {/* Timeline, newest first */}
+                <h6>Timeline</h6>
+                <ul className="list-group mb-4">
+                  {[...history].reverse().map(change => (
+                    <li key={change.id} className="list-group-item d-flex justify-content-between align-items-center">
+                      <div>
+                        <strong>${change.price.toFixed(2)}</strong>
+                        {change.previousPrice !== null && (
+                          <span className={`ms-2 small ${change.price > change.previousPrice ? 'text-danger' : 'text-success'}`}>
+                            {change.price > change.previousPrice ? <FaArrowUp /> : <FaArrowDown />}
+                            {' '}from ${change.previousPrice.toFixed(2)}
+                          </span>
+                        )}
+                        <div className="small text-muted">{formatTime(change.changedAt)}</div>
+                      </div>
+                      <span className="badge bg-secondary">
+                        {SOURCE_LABELS[change.source]}
+                        {change.ruleLabel && `: ${change.ruleLabel}`}
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+
+                {/* Rules */}
+                <h6>Price rules</h6>
+                {rules.length === 0 ? (
+                  <p className="text-muted small">No prices scheduled for this book.</p>
+                ) : (
+                  <div className="table-responsive mb-4">
+                    <table className="table table-sm align-middle">
+                      <thead className="table-light">
+                        <tr>
+                          <th>Label</th>
+                          <th className="text-end">Price</th>
+                          <th>Starts</th>
+                          <th>Ends</th>
+                          <th>Status</th>
+                          <th></th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {rules.map(rule => (
+                          <tr key={rule.id}>
+                            <td>{rule.label ?? <span className="text-muted">-</span>}</td>
+                            <td className="text-end">${rule.price.toFixed(2)}</td>
+                            <td><small>{formatTime(rule.startsAt)}</small></td>
+                            <td><small>{rule.endsAt ? formatTime(rule.endsAt) : 'Lasting'}</small></td>
+                            <td><span className={`badge ${STATUS_BADGES[rule.status]}`}>{rule.status}</span></td>
+                            <td className="text-end">
+                              {(rule.status === 'scheduled' || rule.status === 'active') && (
+                                <button
+                                  className="btn btn-sm btn-outline-danger"
+                                  onClick={() => handleCancelRule(rule)}
+                                  title="Cancel"
+                                >
+                                  <FaTimes />
+                                </button>
+                              )}
+                            </td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                )}
+
+                {/* Schedule form */}
+                <h6>Schedule a price</h6>
+                {book.archivedAt ? (
+                  <p className="text-muted small">Archived books cannot be repriced.</p>
+                ) : (
+                  <form onSubmit={handleSchedule} noValidate>
+                    <div className="row g-2">
+                      <div className="col-md-3">
+                        <label className="form-label small" htmlFor="rule-price">Price ($)</label>
+                        <input
+                          type="number"
+                          id="rule-price"
+                          className={`form-control form-control-sm ${fieldErrors.price ? 'is-invalid' : ''}`}
+                          min="0.01"
+                          step="0.01"
+                          value={ruleForm.price}
+                          onChange={(e) => setRuleForm({ ...ruleForm, price: e.target.value })}
+                        />
+                        <FieldError message={fieldErrors.price} />
+                      </div>
+                      <div className="col-md-9">
+                        <label className="form-label small" htmlFor="rule-label">Label</label>
+                        <input
+                          type="text"
+                          id="rule-label"
+                          className={`form-control form-control-sm ${fieldErrors.label ? 'is-invalid' : ''}`}
+                          placeholder="e.g. Black Friday"
+                          maxLength={100}
+                          value={ruleForm.label}
+                          onChange={(e) => setRuleForm({ ...ruleForm, label: e.target.value })}
+                        />
+                        <FieldError message={fieldErrors.label} />
+                      </div>
+                      <div className="col-md-6">
+                        <label className="form-label small" htmlFor="rule-starts">Starts</label>
+                        <input
+                          type="datetime-local"
+                          id="rule-starts"
+                          className={`form-control form-control-sm ${fieldErrors.startsAt ? 'is-invalid' : ''}`}
+                          value={ruleForm.startsAt}
+                          onChange={(e) => setRuleForm({ ...ruleForm, startsAt: e.target.value })}
+                        />
+                        <FieldError message={fieldErrors.startsAt} />
+                      </div>
+                      <div className="col-md-6">
+                        <label className="form-label small" htmlFor="rule-ends">Ends (optional)</label>
+                        <input
+                          type="datetime-local"
+                          id="rule-ends"
+                          className={`form-control form-control-sm ${fieldErrors.endsAt ? 'is-invalid' : ''}`}
+                          value={ruleForm.endsAt}
+                          onChange={(e) => setRuleForm({ ...ruleForm, endsAt: e.target.value })}
+                        />
+                        <FieldError message={fieldErrors.endsAt} />
+                        <div className="form-text">The price before the rule comes back at the end.</div>
+                      </div>
+                    </div>
+                    <button type="submit" className="btn btn-primary btn-sm mt-3" disabled={isSaving}>
+                      <FaCalendarPlus className="me-1" />
+                      {isSaving ? 'Scheduling...' : 'Schedule'}
+                    </button>
+                  </form>
+                )}
+              </>
+            )}
+          </div>
+          <div className="modal-footer">
+            <button type="button" className="btn btn-secondary" onClick={onClose}>Close</button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PriceTimelineModal;
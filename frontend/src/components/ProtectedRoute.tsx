@@ -8,19 +8,26 @@
  * 
  * FEATURES:
  * 1. Authentication check - redirects to login if not authenticated
- * 2. Role-based authorization - restricts access based on user role
+ * 2. Authorization - restricts access by user role or by permission
+ *    (see utils/permissions.ts)
  * 3. Loading state handling - shows spinner while checking auth
  * 4. Preserves intended destination for redirect after login
  * 
+ * Authentication comes from AuthContext, which only reports a user once
+ * the API has verified the stored session tokens. Editing localStorage
+ * does not get past this check.
+ * 
  * AUTHORIZATION LOGIC:
- * 1. If loading, show spinner (prevents flash of redirect)
+ * 1. If loading (session being verified), show spinner (prevents flash of redirect)
  * 2. If not authenticated, redirect to /login with original location
- * 3. If authenticated but wrong role, redirect to appropriate dashboard
+ * 3. If authenticated but wrong role or missing permission, redirect to
+ *    the user's home page (dashboard for staff, home for customers)
  * 4. If authorized, render children
  * 
  * PROPS:
  * @prop {ReactNode} children - The protected content to render
  * @prop {UserRole[]} allowedRoles - Optional array of roles that can access
+ * @prop {Permission} permission - Optional permission required to access
  * 
  * USAGE EXAMPLES:
  * ```tsx
@@ -29,9 +36,9 @@
  *   <ProfilePage />
  * </ProtectedRoute>
  * 
- * // Require admin role only
- * <ProtectedRoute allowedRoles={['admin']}>
- *   <AdminDashboard />
+ * // Require a permission (admins and managers have this one)
+ * <ProtectedRoute permission="reports:read">
+ *   <ReportsPage />
  * </ProtectedRoute>
  * 
  * // Require customer role only
@@ -57,6 +64,9 @@ import { useAuth } from '../context/AuthContext';
 // Type import for user roles
 import { UserRole } from '../types';
 
+// Permission map shared with navigation and pages
+import { Permission, hasPermission, homePathFor } from '../utils';
+
 /**
  * Props interface for ProtectedRoute component
  */
@@ -65,6 +75,8 @@ interface ProtectedRouteProps {
   children: React.ReactNode;
   /** Optional array of roles allowed to access this route */
   allowedRoles?: UserRole[];
+  /** Optional permission required to access this route */
+  permission?: Permission;
 }
 
 /**
@@ -73,7 +85,7 @@ interface ProtectedRouteProps {
  * Wraps route content and enforces authentication/authorization.
  * Redirects unauthorized users to appropriate pages.
  */
-const ProtectedRoute: React.FC<ProtectedRouteProps> = ({ children, allowedRoles }) => {
+const ProtectedRoute: React.FC<ProtectedRouteProps> = ({ children, allowedRoles, permission }) => {
   // ========================================
   // HOOKS AND CONTEXT
   // ========================================
@@ -88,7 +100,7 @@ const ProtectedRoute: React.FC<ProtectedRouteProps> = ({ children, allowedRoles
   // AUTHORIZATION LOGIC
   // ========================================
 
-  // Show loading spinner while auth state is being determined
+  // Show loading spinner while the session is being verified
   // This prevents a flash of the login page on refresh
   if (isLoading) {
     return (
@@ -106,15 +118,14 @@ const ProtectedRoute: React.FC<ProtectedRouteProps> = ({ children, allowedRoles
     return <Navigate to="/login" state={{ from: location }} replace />;
   }
 
-  // If specific roles are required, check user's role
-  if (allowedRoles && user && !allowedRoles.includes(user.role)) {
-    // User is authenticated but doesn't have required role
-    // Redirect to their appropriate dashboard based on role
-    if (user.role === 'admin') {
-      return <Navigate to="/admin/dashboard" replace />;
-    }
-    // Default redirect for customers or unknown roles
-    return <Navigate to="/" replace />;
+  // If specific roles or a permission are required, check them
+  const roleDenied = allowedRoles && user && !allowedRoles.includes(user.role);
+  const permissionDenied = permission && !hasPermission(user, permission);
+  if (roleDenied || permissionDenied) {
+    // User is authenticated but not allowed here
+    // Redirect to their home page (dashboard for staff, home otherwise)
+    const home = homePathFor(user);
+    return <Navigate to={home === location.pathname ? '/' : home} replace />;
   }
 
   // User is authenticated and authorized - render the protected content
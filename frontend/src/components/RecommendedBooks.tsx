@@ -0,0 +1,73 @@
+/**
+ * ============================================================================
+ * RECOMMENDED BOOKS COMPONENT
+ * ============================================================================
+ *
+ * "Customers also bought" section: a heading and a grid of book cards for
+ * the recommendations of a book (BookDetail) or a cart (Cart).
+ * Renders nothing when there are no recommendations.
+ *
+ * HEADING:
+ * "Customers also bought" when any book was bought together with the
+ * books asked about; otherwise the list is made of fallbacks (same
+ * author or category) and is headed "You might also like". Each card is
+ * captioned with why it was picked.
+ *
+ * PROPS:
+ * @prop {BookRecommendation[]} recommendations - Best first, as returned by
+ *   booksApi.getRecommendations or cartApi.getRecommendations
+ *
+ * @author Bookstore Development Team
+ * @version 1.0.0
+ * ============================================================================
+ */
+
+// React import
+import React from 'react';
+
+// Type import for recommendations
+import { BookRecommendation } from '../types';
+
+// Cards for each recommended book
+import BookCard from './BookCard';
+
+// Wording of each reason
+import { REASON_LABELS } from 'bookstore-shared/recommendations';
+
+/**
+ * Props interface for RecommendedBooks component
+ */
+interface RecommendedBooksProps {
+  /** Recommendations to show, best first */
+  recommendations: BookRecommendation[];
+}
+
+/**
+ * RecommendedBooks Component
+ *
+ * Shows each recommended book as a BookCard, so it can be added to the
+ * cart from here.
+ */
+const RecommendedBooks: React.FC<RecommendedBooksProps> = ({ recommendations }) => {
+  if (recommendations.length === 0) return null;
+
+  const boughtTogether = recommendations.some(r => r.reason === 'bought-together');
+
+  return (
+    <section className="mb-5">
+      <h2 className="fw-bold mb-4">
+        {boughtTogether ? REASON_LABELS['bought-together'] : 'You might also like'}
+      </h2>
+      <div className="row row-cols-1 row-cols-sm-2 row-cols-md-3 row-cols-lg-4 g-4">
+        {recommendations.map(({ book, reason }) => (
+          <div className="col" key={book.isbn}>
+            <BookCard book={book} />
+            <small className="text-muted d-block mt-2 text-center">{REASON_LABELS[reason]}</small>
+          </div>
+        ))}
+      </div>
+    </section>
+  );
+};
+
+export default RecommendedBooks;
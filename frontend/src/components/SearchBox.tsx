@@ -0,0 +1,348 @@
+/**
+ * ============================================================================
+ * SEARCH BOX COMPONENT
+ * ============================================================================
+ *
+ * The Navbar's catalog search, with suggestions while typing.
+ *
+ * FEATURES:
+ * 1. Suggests books (with cover thumbnails), authors and categories a
+ *    moment after typing pauses (booksApi.suggest)
+ * 2. Before anything is typed, lists the user's recent searches
+ *    (useRecentSearches), with a button to clear them
+ * 3. Picking a book opens its page, an author their page, and a category
+ *    the catalog filtered by it; submitting the text searches the catalog
+ *    (/books?q=...)
+ * 4. Searches and picks are remembered as recent searches
+ *
+ * KEYBOARD:
+ * - Arrow Down / Arrow Up: move through the suggestions (wrapping round)
+ * - Enter: pick the highlighted suggestion, or search for the text
+ * - Escape: close the suggestions
+ *
+ * ACCESSIBILITY:
+ * The input is an ARIA combobox controlling a listbox of options, and
+ * announces the highlighted one (aria-activedescendant).
+ *
+ * @author Bookstore Development Team
+ * @version 1.0.0
+ * ============================================================================
+ */
+
+// React imports for component and state management
+import React, { useState, useEffect } from 'react';
+
+// Router hook for going to the picked suggestion
+import { useNavigate } from 'react-router-dom';
+
+// Type import for suggestions
+import { SearchSuggestions } from '../types';
+
+// API service for suggestions
+import { booksApi } from '../services/api';
+
+// Recent searches of the current user
+import { useRecentSearches } from '../hooks';
+
+// Icons for the input and each kind of suggestion
+import { FaSearch, FaHistory, FaUserEdit, FaTags } from 'react-icons/fa';
+
+// Shortest text worth suggesting for, shared with the backend
+import { MIN_SUGGEST_LENGTH } from 'bookstore-shared/catalogSearch';
+
+// Cover thumbnails, and the stand-in for books without a cover
+import { coverUrl, placeholderCover } from 'bookstore-shared/covers';
+
+/** Milliseconds to wait after the last keystroke before asking for suggestions */
+const SUGGEST_DELAY_MS = 200;
+
+/** ID of the suggestion list, referred to by the input */
+const LISTBOX_ID = 'search-suggestions';
+
+/**
+ * One entry of the dropdown
+ */
+interface SearchOption {
+  /** Unique within the dropdown */
+  key: string;
+  /** Section the entry is listed under */
+  kind: 'recent' | 'book' | 'author' | 'category' | 'search';
+  /** Main text */
+  label: string;
+  /** Secondary text, e.g. a book's authors */
+  detail?: string;
+  /** Cover of a book */
+  imageUrl?: string;
+  /** Where picking the entry goes */
+  to: string;
+  /** What to remember as a recent search */
+  search: string;
+}
+
+/** Headings of the dropdown's sections */
+const SECTION_LABELS: Record<SearchOption['kind'], string> = {
+  recent: 'Recent searches',
+  book: 'Books',
+  author: 'Authors',
+  category: 'Categories',
+  search: ''
+};
+
+/**
+ * The catalog search for some text
+ *
+ * @param text - Search text
+ * @returns Path of the browse page searching for it
+ */
+const searchPath = (text: string): string => `/books?q=${encodeURIComponent(text)}`;
+
+/**
+ * Lists suggestions as dropdown entries, in the order they are shown
+ *
+ * @param suggestions - Suggestions for the text
+ * @param text - Text typed, remembered with every pick
+ * @returns Entries: books, authors, categories, then searching for the text
+ */
+const toOptions = (suggestions: SearchSuggestions, text: string): SearchOption[] => [
+  ...suggestions.books.map(book => ({
+    key: `book-${book.isbn}`,
+    kind: 'book' as const,
+    label: book.title,
+    detail: book.authors.map(a => a.name).join(', '),
+    imageUrl: coverUrl(book.imageUrl, 'thumbnail') ?? placeholderCover(book.title),
+    to: `/books/${book.isbn}`,
+    search: text
+  })),
+  ...suggestions.authors.map(author => ({
+    key: `author-${author.id}`,
+    kind: 'author' as const,
+    label: author.name,
+    to: `/authors/${author.id}`,
+    search: text
+  })),
+  ...suggestions.categories.map(category => ({
+    key: `category-${category.id}`,
+    kind: 'category' as const,
+    label: category.name,
+    to: `/books?category=${encodeURIComponent(category.slug)}`,
+    search: text
+  })),
+  { key: 'search', kind: 'search', label: `Search for "${text}"`, to: searchPath(text), search: text }
+];
+
+/**
+ * SearchBox Component
+ *
+ * Search input with a dropdown of suggestions or recent searches.
+ */
+const SearchBox: React.FC = () => {
+  const navigate = useNavigate();
+  const { recentSearches, addRecentSearch, clearRecentSearches } = useRecentSearches();
+
+  // ========================================
+  // STATE MANAGEMENT
+  // ========================================
+
+  const [text, setText] = useState('');
+  const [suggested, setSuggested] = useState<{ query: string; suggestions: SearchSuggestions } | null>(null);
+  const [isOpen, setIsOpen] = useState(false);
+  const [activeIndex, setActiveIndex] = useState(-1);   // Highlighted entry, -1 for none
+
+  const query = text.trim();
+  const isSuggesting = query.length >= MIN_SUGGEST_LENGTH;
+
+  // Suggestions once some text is typed (only those for that very text),
+  // recent searches before
+  const options: SearchOption[] = isSuggesting
+    ? (suggested?.query === query ? toOptions(suggested.suggestions, query) : [])
+    : recentSearches.map(search => ({
+      key: `recent-${search}`,
+      kind: 'recent',
+      label: search,
+      to: searchPath(search),
+      search
+    }));
+  const showDropdown = isOpen && options.length > 0;
+
+  // ========================================
+  // DATA LOADING
+  // ========================================
+
+  /**
+   * Effect: Ask for suggestions once typing pauses. Responses are kept
+   * with the text they answer, and one that arrives after the text
+   * changed again (behind a newer request) is dropped.
+   */
+  useEffect(() => {
+    setActiveIndex(-1);
+    if (!isSuggesting) {
+      setSuggested(null);
+      return;
+    }
+
+    let stale = false;
+    const timer = setTimeout(() => {
+      booksApi.suggest(query)
+        .then(suggestions => {
+          if (!stale) setSuggested({ query, suggestions });
+        })
+        .catch(error => console.error('Failed to load suggestions:', error));
+    }, SUGGEST_DELAY_MS);
+    return () => {
+      stale = true;
+      clearTimeout(timer);
+    };
+  }, [query, isSuggesting]);
+
+  // ========================================
+  // EVENT HANDLERS
+  // ========================================
+
+  /**
+   * Goes where an entry leads, remembering the search
+   * @param option - Entry picked
+   */
+  const choose = (option: SearchOption) => {
+    addRecentSearch(option.search);
+    setText('');
+    setIsOpen(false);
+    navigate(option.to);
+  };
+
+  /**
+   * Searches the catalog for the typed text
+   */
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!query) return;
+    choose({ key: 'search', kind: 'search', label: query, to: searchPath(query), search: query });
+  };
+
+  /**
+   * Moves through the entries, picks one, or closes the dropdown
+   */
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+      e.preventDefault();
+      setIsOpen(true);
+      if (options.length === 0) return;
+      // Past either end, back to the text itself (-1), then round again
+      const step = e.key === 'ArrowDown' ? 1 : -1;
+      const positions = options.length + 1;
+      setActiveIndex(index => ((index + 1 + step + positions) % positions) - 1);
+    } else if (e.key === 'Enter' && showDropdown && activeIndex >= 0) {
+      e.preventDefault();
+      choose(options[activeIndex]);
+    } else if (e.key === 'Escape') {
+      setIsOpen(false);
+      setActiveIndex(-1);
+    }
+  };
+
+  // ========================================
+  // RENDER
+  // ========================================
+
+  return (
+    <form className="position-relative mx-lg-3 my-2 my-lg-0" role="search" onSubmit={handleSubmit}>
+      <div className="input-group">
+        <span className="input-group-text border-0" style={{
+          backgroundColor: '#f1f5f9',
+          borderRadius: '20px 0 0 20px',
+          color: '#94a3b8'
+        }}>
+          <FaSearch size={14} />
+        </span>
+        <input
+          type="search"
+          className="form-control border-0"
+          placeholder="Search books, authors..."
+          aria-label="Search the catalog"
+          role="combobox"
+          aria-autocomplete="list"
+          aria-expanded={showDropdown}
+          aria-controls={LISTBOX_ID}
+          aria-activedescendant={showDropdown && activeIndex >= 0 ? `${LISTBOX_ID}-${activeIndex}` : undefined}
+          value={text}
+          onChange={(e) => {
+            setText(e.target.value);
+            setIsOpen(true);
+          }}
+          onFocus={() => setIsOpen(true)}
+          onBlur={() => setIsOpen(false)}
+          onKeyDown={handleKeyDown}
+          style={{
+            backgroundColor: '#f1f5f9',
+            borderRadius: '0 20px 20px 0',
+            minWidth: '220px'
+          }}
+        />
+      </div>
+
+      {/* ========== SUGGESTIONS DROPDOWN ========== */}
+      {showDropdown && (
+        <div
+          className="dropdown-menu show border-0 shadow p-2 mt-1"
+          style={{ borderRadius: '12px', minWidth: '100%', width: '340px', maxHeight: '70vh', overflowY: 'auto' }}
+          // Keep focus in the input while an entry is clicked
+          onMouseDown={(e) => e.preventDefault()}
+        >
+          <ul className="list-unstyled mb-0" id={LISTBOX_ID} role="listbox" aria-label="Search suggestions">
+            {options.map((option, index) => (
+              <React.Fragment key={option.key}>
+                {/* Section heading above the first entry of each kind */}
+                {SECTION_LABELS[option.kind] && option.kind !== options[index - 1]?.kind && (
+                  <li role="presentation" className="d-flex justify-content-between align-items-center px-2 pt-2 pb-1">
+                    <small className="text-uppercase fw-semibold" style={{ color: '#94a3b8', letterSpacing: '0.05em' }}>
+                      {SECTION_LABELS[option.kind]}
+                    </small>
+                    {option.kind === 'recent' && (
+                      <button type="button" className="btn btn-link btn-sm p-0 text-decoration-none" onClick={clearRecentSearches}>
+                        Clear
+                      </button>
+                    )}
+                  </li>
+                )}
+                <li
+                  id={`${LISTBOX_ID}-${index}`}
+                  role="option"
+                  aria-selected={index === activeIndex}
+                  className="d-flex align-items-center gap-2 px-2 py-2 rounded"
+                  style={{
+                    cursor: 'pointer',
+                    backgroundColor: index === activeIndex ? 'rgba(244, 63, 94, 0.1)' : 'transparent',
+                    color: index === activeIndex ? '#f43f5e' : '#334155'
+                  }}
+                  onMouseEnter={() => setActiveIndex(index)}
+                  onClick={() => choose(option)}
+                >
+                  {option.kind === 'book' && (
+                    <img
+                      src={option.imageUrl}
+                      alt=""
+                      style={{ width: '32px', height: '44px', objectFit: 'cover', borderRadius: '4px' }}
+                      onError={(e) => {
+                        // Placeholder when the cover cannot be loaded
+                        e.currentTarget.src = placeholderCover(option.label);
+                      }}
+                    />
+                  )}
+                  {option.kind === 'recent' && <FaHistory className="text-muted" size={14} />}
+                  {option.kind === 'author' && <FaUserEdit className="text-muted" size={14} />}
+                  {option.kind === 'category' && <FaTags className="text-muted" size={14} />}
+                  {option.kind === 'search' && <FaSearch className="text-muted" size={14} />}
+                  <div className="text-truncate">
+                    <div className="text-truncate fw-medium">{option.label}</div>
+                    {option.detail && <small className="text-muted text-truncate d-block">{option.detail}</small>}
+                  </div>
+                </li>
+              </React.Fragment>
+            ))}
+          </ul>
+        </div>
+      )}
+    </form>
+  );
+};
+
+export default SearchBox;
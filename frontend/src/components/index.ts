@@ -24,3 +24,21 @@ export { default as BookCard } from './BookCard';
 
 /** Reusable loading spinner with size variants */
 export { default as LoadingSpinner } from './LoadingSpinner';
+
+/** Inline validation message for a form field, and the class marking the field invalid */
+export { default as FieldError, invalidClass } from './FieldError';
+
+/** Drag-and-drop cover upload for the book form */
+export { default as CoverPicker } from './CoverPicker';
+
+/** Bulk book import from a CSV or JSON catalog file, with a dry-run preview */
+export { default as CatalogImportModal } from './CatalogImportModal';
+
+/** A book's price history and scheduled price rules */
+export { default as PriceTimelineModal } from './PriceTimelineModal';
+
+/** "Customers also bought" grid for a book or a cart */
+export { default as RecommendedBooks } from './RecommendedBooks';
+
+/** Navbar search with typeahead suggestions and recent searches */
+export { default as SearchBox } from './SearchBox';
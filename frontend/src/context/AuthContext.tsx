@@ -8,7 +8,8 @@
  * 
  * FEATURES:
  * - Login/Register functionality
- * - Session persistence using localStorage
+ * - Token sessions verified by the API on page load (see sessionStore.ts)
+ * - Automatic logout when the server ends the session
  * - Profile update capability
  * - Authentication state available throughout the app
  * 
@@ -32,10 +33,10 @@
 import React, { createContext, useContext, useState, useCallback, useEffect, ReactNode } from 'react';
 
 // Type imports for TypeScript type safety
-import { User, LoginCredentials, RegisterData, AuthState } from '../types';
+import { User, LoginCredentials, RegisterData, ProfileUpdateData, AuthState } from '../types';
 
-// API service for authentication operations
-import { authApi } from '../services/api';
+// API service for authentication operations and session end notifications
+import { authApi, onSessionEnded } from '../services/api';
 
 // ============================================================================
 // TYPE DEFINITIONS
@@ -60,7 +61,7 @@ interface AuthContextType extends AuthState {
   login: (credentials: LoginCredentials) => Promise<User>;
   register: (data: RegisterData) => Promise<User>;
   logout: () => Promise<void>;
-  updateProfile: (data: Partial<User>) => Promise<void>;
+  updateProfile: (data: ProfileUpdateData) => Promise<void>;
 }
 
 // Create the context with undefined default (will be provided by AuthProvider)
@@ -116,31 +117,37 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
   // ========================================
   
   /**
-   * Effect: Check for existing session on component mount
-   * 
-   * On page load/refresh, this checks if user data is stored in localStorage.
-   * If found, it restores the session without requiring re-login.
-   * 
-   * This provides session persistence across page refreshes.
+   * Effect: Restore the session on component mount
+   *
+   * On page load/refresh, the API checks the stored session tokens and
+   * returns the user they belong to. Only a session the API accepts
+   * restores the login; nothing about the user is trusted from storage.
+   *
+   * Also subscribes to session end notifications, so the UI logs out
+   * when the server revokes the session or its tokens expire.
    */
   useEffect(() => {
-    // Attempt to retrieve stored user from localStorage
-    const storedUser = localStorage.getItem('bookstore_user');
-    
-    if (storedUser) {
-      try {
-        // Parse stored JSON and restore session
-        const user = JSON.parse(storedUser);
-        setState({ user, isAuthenticated: true, isLoading: false });
-      } catch {
-        // If JSON is invalid, clear the corrupted data
-        localStorage.removeItem('bookstore_user');
-        setState(prev => ({ ...prev, isLoading: false }));
-      }
-    } else {
-      // No stored session, just stop loading
-      setState(prev => ({ ...prev, isLoading: false }));
-    }
+    let cancelled = false;
+
+    // Unsigned user data written by older versions is no longer used
+    localStorage.removeItem('bookstore_user');
+
+    authApi.restoreSession()
+      .catch(() => null)
+      .then(user => {
+        if (!cancelled) {
+          setState({ user, isAuthenticated: user !== null, isLoading: false });
+        }
+      });
+
+    const unsubscribe = onSessionEnded(() => {
+      setState({ user: null, isAuthenticated: false, isLoading: false });
+    });
+
+    return () => {
+      cancelled = true;
+      unsubscribe();
+    };
   }, []); // Empty dependency array - run only once on mount
 
   // ========================================
@@ -151,7 +158,7 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
    * Login Method
    * 
    * Authenticates user with username and password.
-   * On success, stores user in localStorage for session persistence.
+   * On success, the API stores the session tokens for persistence.
    * 
    * @param credentials - Object with username and password
    * @returns Promise resolving to authenticated User object
@@ -170,12 +177,9 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     setState(prev => ({ ...prev, isLoading: true }));
     
     try {
-      // Call API to authenticate
+      // Call API to authenticate (starts a token session)
       const user = await authApi.login(credentials);
-      
-      // Store user in localStorage for session persistence
-      localStorage.setItem('bookstore_user', JSON.stringify(user));
-      
+
       // Update state with authenticated user
       setState({ user, isAuthenticated: true, isLoading: false });
       
@@ -215,12 +219,9 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     setState(prev => ({ ...prev, isLoading: true }));
     
     try {
-      // Call API to create account
+      // Call API to create account (auto-login: starts a token session)
       const user = await authApi.register(data);
-      
-      // Auto-login: store user in localStorage
-      localStorage.setItem('bookstore_user', JSON.stringify(user));
-      
+
       // Update state with new authenticated user
       setState({ user, isAuthenticated: true, isLoading: false });
       
@@ -234,20 +235,17 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
   /**
    * Logout Method
    * 
-   * Ends the user session and clears stored data.
-   * Also notifies the API to clear server-side session if applicable.
+   * Ends the user session.
+   * The API revokes the session server-side and clears the stored tokens.
    * 
    * @example
    * await logout();
    * // User is now logged out, redirect to login page
    */
   const logout = useCallback(async () => {
-    // Call API logout (clears currentUserId in api.ts)
+    // Call API logout (revokes the session and clears its tokens)
     await authApi.logout();
-    
-    // Clear stored session from localStorage
-    localStorage.removeItem('bookstore_user');
-    
+
     // Reset state to unauthenticated
     setState({ user: null, isAuthenticated: false, isLoading: false });
   }, []);
@@ -256,9 +254,9 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
    * Update Profile Method
    * 
    * Updates the current user's profile information.
-   * Syncs changes to both the API and localStorage.
+   * Syncs changes to the API and the context state.
    * 
-   * @param data - Partial User object with fields to update
+   * @param data - Profile fields to update (and optionally a new password)
    * @throws Error if no user is logged in
    * 
    * @example
@@ -267,16 +265,13 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
    *   phone: '555-0199'
    * });
    */
-  const updateProfile = useCallback(async (data: Partial<User>) => {
+  const updateProfile = useCallback(async (data: ProfileUpdateData) => {
     // Ensure user is logged in
     if (!state.user) throw new Error('No user logged in');
     
     // Call API to update profile
     const updatedUser = await authApi.updateProfile(state.user.id, data);
-    
-    // Sync updated user to localStorage
-    localStorage.setItem('bookstore_user', JSON.stringify(updatedUser));
-    
+
     // Update state with new user data
     setState(prev => ({ ...prev, user: updatedUser }));
   }, [state.user]); // Depends on current user for the ID
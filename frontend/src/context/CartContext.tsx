@@ -198,7 +198,7 @@ export const CartProvider: React.FC<CartProviderProps> = ({ children }) => {
    * @throws Error if book not found or insufficient stock
    * 
    * @example
-   * await addToCart('978-0-06-083865-2', 2);
+   * await addToCart('9780060838652', 2);
    */
   const addToCart = useCallback(async (isbn: string, quantity: number = 1) => {
     setIsLoading(true);
@@ -223,7 +223,7 @@ export const CartProvider: React.FC<CartProviderProps> = ({ children }) => {
    * @throws Error if item not in cart or insufficient stock
    * 
    * @example
-   * await updateQuantity('978-0-06-083865-2', 5);
+   * await updateQuantity('9780060838652', 5);
    */
   const updateQuantity = useCallback(async (isbn: string, quantity: number) => {
     setIsLoading(true);
@@ -244,7 +244,7 @@ export const CartProvider: React.FC<CartProviderProps> = ({ children }) => {
    * @param isbn - ISBN of the book to remove
    * 
    * @example
-   * await removeFromCart('978-0-06-083865-2');
+   * await removeFromCart('9780060838652');
    */
   const removeFromCart = useCallback(async (isbn: string) => {
     setIsLoading(true);
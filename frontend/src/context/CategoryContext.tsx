@@ -0,0 +1,134 @@
+/**
+ * ============================================================================
+ * CATEGORY CONTEXT MODULE
+ * ============================================================================
+ *
+ * This module loads the category taxonomy once and shares it app-wide.
+ * The home page cards, the footer links, the browse filters and the admin
+ * forms all read the same list, so a category added or renamed by an
+ * admin shows up everywhere after reload().
+ *
+ * Categories arrive as a flat list; parentId links them into a tree.
+ * Use sortCategoryTree (bookstore-shared/categoryTree) to display them
+ * nested and descendantIds to include subcategories when filtering.
+ *
+ * USAGE:
+ * 1. Wrap app with <CategoryProvider>
+ * 2. Use useCategories() hook in components to read the taxonomy
+ *
+ * @example
+ * // In a component:
+ * const { categories } = useCategories();
+ * const topLevel = categories.filter(c => c.parentId === null);
+ *
+ * @author Bookstore Development Team
+ * @version 1.0.0
+ * ============================================================================
+ */
+
+// React imports for context and state management
+import React, { createContext, useContext, useState, useCallback, useEffect, ReactNode } from 'react';
+
+// Type imports for TypeScript type safety
+import { Category } from '../types';
+
+// API service for the category taxonomy
+import { categoriesApi } from '../services/api';
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+/**
+ * CategoryContextType defines all values available through useCategories()
+ *
+ * - categories: Flat category list ordered by sortOrder
+ * - isLoading: True until the first load finishes
+ * - reload: Fetch the list again (after adding, editing or deleting)
+ */
+interface CategoryContextType {
+  categories: Category[];
+  isLoading: boolean;
+  reload: () => Promise<void>;
+}
+
+// Create the context with undefined default (will be provided by CategoryProvider)
+const CategoryContext = createContext<CategoryContextType | undefined>(undefined);
+
+/**
+ * Props interface for CategoryProvider component
+ */
+interface CategoryProviderProps {
+  children: ReactNode;  // Child components that will have access to categories
+}
+
+// ============================================================================
+// CATEGORY PROVIDER COMPONENT
+// ============================================================================
+
+/**
+ * CategoryProvider Component
+ *
+ * Fetches the categories on mount and provides them to all children.
+ * Categories are public, so this does not depend on authentication.
+ *
+ * @param children - Child components to wrap with category context
+ */
+export const CategoryProvider: React.FC<CategoryProviderProps> = ({ children }) => {
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  /**
+   * Fetches the category list from the API.
+   * A failure keeps the previous list so navigation still works.
+   */
+  const reload = useCallback(async () => {
+    try {
+      setCategories(await categoriesApi.getAll());
+    } catch (error) {
+      console.error('Failed to fetch categories:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  // Load the taxonomy once on startup
+  useEffect(() => {
+    reload();
+  }, [reload]);
+
+  return (
+    <CategoryContext.Provider value={{ categories, isLoading, reload }}>
+      {children}
+    </CategoryContext.Provider>
+  );
+};
+
+// ============================================================================
+// CUSTOM HOOK
+// ============================================================================
+
+/**
+ * useCategories Hook
+ *
+ * Custom hook to access the category taxonomy.
+ * Must be used within a component wrapped by CategoryProvider.
+ *
+ * @returns CategoryContextType object with the categories and reload()
+ * @throws Error if used outside of CategoryProvider
+ *
+ * @example
+ * const { categories, reload } = useCategories();
+ * await categoriesApi.add({ name: 'Poetry' });
+ * await reload();
+ */
+export const useCategories = (): CategoryContextType => {
+  const context = useContext(CategoryContext);
+
+  // Throw helpful error if hook is used outside provider
+  if (!context) {
+    throw new Error('useCategories must be used within a CategoryProvider');
+  }
+
+  return context;
+};
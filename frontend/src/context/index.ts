@@ -2,16 +2,16 @@
  * @fileoverview Context Barrel Export
  * 
  * Re-exports React context providers and hooks for global state management.
- * These contexts provide authentication and cart functionality app-wide.
+ * These contexts provide authentication, cart and category data app-wide.
  * 
  * @module context
  * 
  * @example
  * // In App.tsx (wrapping with providers)
- * import { AuthProvider, CartProvider } from './context';
+ * import { AuthProvider, CartProvider, CategoryProvider } from './context';
  * 
  * // In components (using hooks)
- * import { useAuth, useCart } from '../context';
+ * import { useAuth, useCart, useCategories } from '../context';
  */
 
 /** 
@@ -25,3 +25,9 @@ export { AuthProvider, useAuth } from './AuthContext';
  * useCart - Hook to access cart state and methods (addToCart, removeFromCart, checkout)
  */
 export { CartProvider, useCart } from './CartContext';
+
+/**
+ * CategoryProvider - Context provider for the category taxonomy
+ * useCategories - Hook to read the categories and reload them after changes
+ */
+export { CategoryProvider, useCategories } from './CategoryContext';
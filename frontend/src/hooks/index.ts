@@ -0,0 +1,16 @@
+/**
+ * @fileoverview Hooks Barrel Export
+ * 
+ * Re-exports custom React hooks that build on the app's contexts.
+ * 
+ * @module hooks
+ * 
+ * @example
+ * import { usePermission } from '../hooks';
+ */
+
+/** usePermission - Checks whether the current user's role allows an action */
+export { usePermission } from './usePermission';
+
+/** useRecentSearches - The current user's last searches, kept in the browser */
+export { useRecentSearches, MAX_RECENT_SEARCHES } from './useRecentSearches';
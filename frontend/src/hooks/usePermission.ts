@@ -0,0 +1,38 @@
+/**
+ * ============================================================================
+ * PERMISSION HOOK
+ * ============================================================================
+ * 
+ * Answers "may the current user do this?" for components, using the
+ * permission map in utils/permissions.ts and the user from AuthContext.
+ * Components use it to hide links and buttons for actions the user's
+ * role does not allow.
+ * 
+ * USAGE:
+ * ```tsx
+ * const canDelete = usePermission('books:delete');
+ * 
+ * {canDelete && <button onClick={...}>Delete</button>}
+ * ```
+ * 
+ * @author Bookstore Development Team
+ * @version 1.0.0
+ * ============================================================================
+ */
+
+// Auth context for the current user
+import { useAuth } from '../context/AuthContext';
+
+// Permission map shared with routes and navigation
+import { Permission, hasPermission } from '../utils';
+
+/**
+ * Checks a permission for the logged-in user
+ * 
+ * @param permission - Action to check
+ * @returns True if the current user's role has the permission (false when logged out)
+ */
+export const usePermission = (permission: Permission): boolean => {
+  const { user } = useAuth();
+  return hasPermission(user, permission);
+};
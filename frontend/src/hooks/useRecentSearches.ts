@@ -0,0 +1,95 @@
+/**
+ * ============================================================================
+ * RECENT SEARCHES HOOK
+ * ============================================================================
+ *
+ * Remembers what the current user last searched for, newest first, so the
+ * search box can offer it again before anything is typed.
+ *
+ * STORAGE:
+ * Kept in localStorage, one list per user (and one for visitors who are
+ * not logged in), so people sharing a browser do not see each other's
+ * searches. The list never leaves the browser.
+ *
+ * USAGE:
+ * ```tsx
+ * const { recentSearches, addRecentSearch, clearRecentSearches } = useRecentSearches();
+ *
+ * addRecentSearch('knuth');
+ * ```
+ *
+ * @author Bookstore Development Team
+ * @version 1.0.0
+ * ============================================================================
+ */
+
+// React hooks for the list and stable callbacks
+import { useState, useEffect, useCallback } from 'react';
+
+// Auth context for the current user
+import { useAuth } from '../context/AuthContext';
+
+/** localStorage key prefix; the user's ID (or 'guest') follows it */
+const RECENT_SEARCHES_KEY = 'bookstore_recent_searches';
+
+/** Most searches remembered per user */
+export const MAX_RECENT_SEARCHES = 5;
+
+/**
+ * Reads a stored list of searches
+ *
+ * @param key - localStorage key of the list
+ * @returns Searches, newest first (none if nothing valid is stored)
+ */
+const loadSearches = (key: string): string[] => {
+  const stored = localStorage.getItem(key);
+  if (!stored) return [];
+
+  try {
+    const searches = JSON.parse(stored);
+    if (Array.isArray(searches) && searches.every(s => typeof s === 'string')) {
+      return searches.slice(0, MAX_RECENT_SEARCHES);
+    }
+  } catch {
+    // Fall through and discard corrupted data
+  }
+  localStorage.removeItem(key);
+  return [];
+};
+
+/**
+ * The current user's recent searches
+ *
+ * @returns recentSearches (newest first), addRecentSearch (moves a search
+ *   to the top, ignoring case when looking for repeats) and
+ *   clearRecentSearches
+ */
+export const useRecentSearches = () => {
+  const { user } = useAuth();
+  const key = `${RECENT_SEARCHES_KEY}_${user?.id ?? 'guest'}`;
+
+  const [recentSearches, setRecentSearches] = useState<string[]>(() => loadSearches(key));
+
+  // Another user logged in (or out): show their list
+  useEffect(() => {
+    setRecentSearches(loadSearches(key));
+  }, [key]);
+
+  const addRecentSearch = useCallback((text: string) => {
+    const search = text.trim();
+    if (!search) return;
+    const searches = [
+      search,
+      ...loadSearches(key).filter(s => s.toLowerCase() !== search.toLowerCase())
+    ].slice(0, MAX_RECENT_SEARCHES);
+    localStorage.setItem(key, JSON.stringify(searches));
+    setRecentSearches(searches);
+  }, [key]);
+
+  const clearRecentSearches = useCallback(() => {
+    localStorage.removeItem(key);
+    setRecentSearches([]);
+  }, [key]);
+
+  return { recentSearches, addRecentSearch, clearRecentSearches };
+};
@@ -0,0 +1,465 @@
+/**
+ * ============================================================================
+ * AUTHOR MANAGEMENT PAGE (Admin)
+ * ============================================================================
+ *
+ * Admin page for cleaning up author records.
+ * Authors are created when a book credits a new name, so the same person
+ * can end up listed twice under different spellings. This page edits
+ * authors and merges such duplicates.
+ *
+ * FEATURES:
+ * - Search and view all authors with their aliases and book counts
+ * - Edit name, aliases (other spellings) and bio
+ * - Merge a duplicate into an author: its books move over, its names
+ *   become aliases, and the duplicate is deleted
+ *
+ * RULES (enforced by the API):
+ * - A name or alias belongs to at most one author
+ * - An author cannot be merged with itself
+ *
+ * ACCESS: Users with 'authors:write' (admins, via ProtectedRoute).
+ *
+ * @author Bookstore Development Team
+ * @version 1.0.0
+ * ============================================================================
+ */
+
+// React imports for component and lifecycle management
+import React, { useState, useEffect } from 'react';
+
+// Router component for links to the public author pages
+import { Link } from 'react-router-dom';
+
+// Type imports for TypeScript type safety
+import { Author } from '../../types';
+
+// API service for author operations
+import { authorsApi, fieldErrorsOf } from '../../services/api';
+
+// Shared UI components for loading state and inline field errors
+import { LoadingSpinner, FieldError, invalidClass } from '../../components';
+
+// Icons for visual enhancement
+import { FaUserEdit, FaEdit, FaSearch, FaCompressArrowsAlt } from 'react-icons/fa';
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/**
+ * Author form fields
+ * aliases is a comma-separated string, split into a list on save
+ */
+interface AuthorFormData {
+  name: string;
+  aliases: string;
+  bio: string;
+}
+
+/**
+ * AuthorManagement Component
+ *
+ * Renders the author management interface with:
+ * - Searchable author table with edit and merge actions
+ * - Modal form for editing an author
+ * - Modal for merging a duplicate into an author
+ */
+const AuthorManagement: React.FC = () => {
+  // ========================================
+  // STATE MANAGEMENT
+  // ========================================
+
+  // Data state
+  const [authors, setAuthors] = useState<Author[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [searchQuery, setSearchQuery] = useState('');
+
+  // Edit modal state
+  const [editingAuthor, setEditingAuthor] = useState<Author | null>(null);
+  const [formData, setFormData] = useState<AuthorFormData>({ name: '', aliases: '', bio: '' });
+
+  // Merge modal state: the author to keep and the duplicate to merge in
+  const [mergeTarget, setMergeTarget] = useState<Author | null>(null);
+  const [mergeSourceId, setMergeSourceId] = useState('');
+
+  // Feedback state
+  const [error, setError] = useState('');                      // Error message
+  const [fieldErrors, setFieldErrors] = useState<Record<string, string>>({}); // Form errors by field
+  const [success, setSuccess] = useState('');                  // Success message
+  const [isSaving, setIsSaving] = useState(false);            // Form submission state
+
+  // ========================================
+  // DATA LOADING
+  // ========================================
+
+  /**
+   * Effect: Load authors on component mount
+   */
+  useEffect(() => {
+    loadAuthors();
+  }, []);
+
+  /**
+   * Loads all authors with their book counts
+   */
+  const loadAuthors = async () => {
+    try {
+      setAuthors(await authorsApi.getAll());
+    } catch (error) {
+      console.error('Failed to load authors:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  /**
+   * Authors matching the search box, by name or alias
+   */
+  const filteredAuthors = authors.filter(author =>
+    [author.name, ...author.aliases].some(name => name.toLowerCase().includes(searchQuery.toLowerCase()))
+  );
+
+  // ========================================
+  // MODAL HANDLERS
+  // ========================================
+
+  /**
+   * Opens the edit modal for an author
+   * @param author - Author to edit
+   */
+  const handleOpenEdit = (author: Author) => {
+    setEditingAuthor(author);
+    setFormData({ name: author.name, aliases: author.aliases.join(', '), bio: author.bio ?? '' });
+    setError('');
+    setFieldErrors({});
+  };
+
+  /**
+   * Opens the merge modal for the author to keep
+   * @param author - Author the duplicate will be merged into
+   */
+  const handleOpenMerge = (author: Author) => {
+    setMergeTarget(author);
+    setMergeSourceId('');
+    setError('');
+    setFieldErrors({});
+  };
+
+  /**
+   * Closes either modal and resets form state
+   */
+  const handleCloseModal = () => {
+    setEditingAuthor(null);
+    setMergeTarget(null);
+    setError('');
+    setFieldErrors({});
+  };
+
+  // ========================================
+  // FORM HANDLERS
+  // ========================================
+
+  /**
+   * Handles edit form input changes
+   */
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => {
+    const { name, value } = e.target;
+    setFormData(prev => ({ ...prev, [name]: value }));
+  };
+
+  /**
+   * Shows an API error under its field, or above the form
+   * @param err - Rejection from the API
+   * @param fallback - Message when the error has none
+   */
+  const showError = (err: unknown, fallback: string) => {
+    const errors = fieldErrorsOf(err);
+    setFieldErrors(errors);
+    if (Object.keys(errors).length === 0) {
+      setError(err instanceof Error ? err.message : fallback);
+    }
+  };
+
+  /**
+   * Saves the edited author
+   * Splits the aliases on commas and drops empty entries
+   */
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!editingAuthor) return;
+    setError('');
+    setFieldErrors({});
+    setIsSaving(true);
+
+    try {
+      await authorsApi.update(editingAuthor.id, {
+        name: formData.name,
+        aliases: formData.aliases.split(',').map(a => a.trim()).filter(Boolean),
+        bio: formData.bio || null
+      });
+      setSuccess('Author updated successfully!');
+      await loadAuthors();
+      handleCloseModal();
+    } catch (err) {
+      showError(err, 'Failed to save author');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  /**
+   * Merges the selected duplicate into the merge target
+   */
+  const handleMerge = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!mergeTarget) return;
+    const source = authors.find(a => a.id === mergeSourceId);
+    if (!source) {
+      setFieldErrors({ sourceId: 'Choose the duplicate to merge' });
+      return;
+    }
+    if (!confirm(`Merge "${source.name}" into "${mergeTarget.name}"? "${source.name}" will be deleted.`)) return;
+
+    setError('');
+    setFieldErrors({});
+    setIsSaving(true);
+    try {
+      await authorsApi.merge(mergeTarget.id, source.id);
+      setSuccess(`Merged "${source.name}" into "${mergeTarget.name}".`);
+      await loadAuthors();
+      handleCloseModal();
+    } catch (err) {
+      showError(err, 'Failed to merge authors');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (isLoading) {
+    return <LoadingSpinner message="Loading authors..." />;
+  }
+
+  return (
+    <div className="container-fluid py-4">
+      <div className="d-flex justify-content-between align-items-center mb-4">
+        <h2>
+          <FaUserEdit className="me-2" />
+          Author Management
+        </h2>
+      </div>
+
+      {error && !editingAuthor && !mergeTarget && (
+        <div className="alert alert-danger alert-dismissible fade show" role="alert">
+          {error}
+          <button type="button" className="btn-close" onClick={() => setError('')}></button>
+        </div>
+      )}
+      {success && (
+        <div className="alert alert-success alert-dismissible fade show" role="alert">
+          {success}
+          <button type="button" className="btn-close" onClick={() => setSuccess('')}></button>
+        </div>
+      )}
+
+      {/* Search */}
+      <div className="card shadow-sm mb-4">
+        <div className="card-body">
+          <div className="input-group">
+            <span className="input-group-text"><FaSearch /></span>
+            <input
+              type="text"
+              className="form-control"
+              placeholder="Search by name or alias..."
+              value={searchQuery}
+              onChange={(e) => setSearchQuery(e.target.value)}
+            />
+          </div>
+        </div>
+      </div>
+
+      {/* Authors Table */}
+      <div className="card shadow-sm">
+        <div className="card-body">
+          <div className="table-responsive">
+            <table className="table table-hover align-middle">
+              <thead className="table-light">
+                <tr>
+                  <th>Name</th>
+                  <th>Aliases</th>
+                  <th className="text-center">Books</th>
+                  <th className="text-center">Actions</th>
+                </tr>
+              </thead>
+              <tbody>
+                {filteredAuthors.map(author => (
+                  <tr key={author.id}>
+                    <td><Link to={`/authors/${author.id}`}>{author.name}</Link></td>
+                    <td><small className="text-muted">{author.aliases.join(', ') || '—'}</small></td>
+                    <td className="text-center">{author.bookCount}</td>
+                    <td className="text-center">
+                      <div className="btn-group btn-group-sm">
+                        <button
+                          className="btn btn-outline-primary"
+                          onClick={() => handleOpenEdit(author)}
+                          title="Edit"
+                        >
+                          <FaEdit />
+                        </button>
+                        <button
+                          className="btn btn-outline-secondary"
+                          onClick={() => handleOpenMerge(author)}
+                          title="Merge a duplicate into this author"
+                          disabled={authors.length < 2}
+                        >
+                          <FaCompressArrowsAlt />
+                        </button>
+                      </div>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          {filteredAuthors.length === 0 && (
+            <p className="text-center text-muted py-3">No authors found</p>
+          )}
+        </div>
+      </div>
+
+      {/* Edit Modal */}
+      {editingAuthor && (
+        <div className="modal show d-block" style={{ backgroundColor: 'rgba(0,0,0,0.5)' }}>
+          <div className="modal-dialog">
+            <div className="modal-content">
+              <div className="modal-header">
+                <h5 className="modal-title">Edit Author</h5>
+                <button type="button" className="btn-close" onClick={handleCloseModal}></button>
+              </div>
+              <form onSubmit={handleSubmit}>
+                <div className="modal-body">
+                  {error && <div className="alert alert-danger">{error}</div>}
+
+                  <div className="row g-3">
+                    <div className="col-12">
+                      <label className="form-label">Name *</label>
+                      <input
+                        type="text"
+                        className={`form-control${invalidClass(fieldErrors, 'name')}`}
+                        name="name"
+                        value={formData.name}
+                        onChange={handleChange}
+                        maxLength={255}
+                        required
+                      />
+                      <FieldError message={fieldErrors.name} />
+                      <div className="form-text">Shown on every book by this author.</div>
+                    </div>
+                    <div className="col-12">
+                      <label className="form-label">Aliases</label>
+                      <input
+                        type="text"
+                        className={`form-control${invalidClass(fieldErrors, 'aliases')}`}
+                        name="aliases"
+                        value={formData.aliases}
+                        onChange={handleChange}
+                        placeholder="Separate multiple names with commas"
+                      />
+                      <FieldError message={fieldErrors.aliases} />
+                      <div className="form-text">
+                        Other spellings. Books credited under an alias are linked to this author.
+                      </div>
+                    </div>
+                    <div className="col-12">
+                      <label className="form-label">Bio</label>
+                      <textarea
+                        className={`form-control${invalidClass(fieldErrors, 'bio')}`}
+                        name="bio"
+                        value={formData.bio}
+                        onChange={handleChange}
+                        rows={5}
+                        maxLength={5000}
+                      />
+                      <FieldError message={fieldErrors.bio} />
+                    </div>
+                  </div>
+                </div>
+                <div className="modal-footer">
+                  <button type="button" className="btn btn-secondary" onClick={handleCloseModal}>
+                    Cancel
+                  </button>
+                  <button type="submit" className="btn btn-primary" disabled={isSaving}>
+                    {isSaving ? (
+                      <>
+                        <span className="spinner-border spinner-border-sm me-2" />
+                        Saving...
+                      </>
+                    ) : (
+                      'Update Author'
+                    )}
+                  </button>
+                </div>
+              </form>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Merge Modal */}
+      {mergeTarget && (
+        <div className="modal show d-block" style={{ backgroundColor: 'rgba(0,0,0,0.5)' }}>
+          <div className="modal-dialog">
+            <div className="modal-content">
+              <div className="modal-header">
+                <h5 className="modal-title">Merge into {mergeTarget.name}</h5>
+                <button type="button" className="btn-close" onClick={handleCloseModal}></button>
+              </div>
+              <form onSubmit={handleMerge}>
+                <div className="modal-body">
+                  {error && <div className="alert alert-danger">{error}</div>}
+
+                  <label className="form-label">Duplicate author *</label>
+                  <select
+                    className={`form-select${invalidClass(fieldErrors, 'sourceId')}`}
+                    value={mergeSourceId}
+                    onChange={(e) => setMergeSourceId(e.target.value)}
+                    required
+                  >
+                    <option value="">Choose an author...</option>
+                    {authors.filter(a => a.id !== mergeTarget.id).map(author => (
+                      <option key={author.id} value={author.id}>
+                        {author.name} ({author.bookCount} book{author.bookCount === 1 ? '' : 's'})
+                      </option>
+                    ))}
+                  </select>
+                  <FieldError message={fieldErrors.sourceId} />
+                  <div className="form-text">
+                    Its books are credited to {mergeTarget.name}, its names become aliases,
+                    and it is deleted. This cannot be undone.
+                  </div>
+                </div>
+                <div className="modal-footer">
+                  <button type="button" className="btn btn-secondary" onClick={handleCloseModal}>
+                    Cancel
+                  </button>
+                  <button type="submit" className="btn btn-danger" disabled={isSaving || !mergeSourceId}>
+                    {isSaving ? (
+                      <>
+                        <span className="spinner-border spinner-border-sm me-2" />
+                        Merging...
+                      </>
+                    ) : (
+                      'Merge Authors'
+                    )}
+                  </button>
+                </div>
+              </form>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AuthorManagement;
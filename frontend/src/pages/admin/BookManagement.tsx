@@ -10,16 +10,31 @@
  * - View all books with search and filter capabilities
  * - Add new books to inventory
  * - Edit existing book details
- * - Delete books from inventory
+ * - Archive books to take them off sale (they stay in orders and reports),
+ *   unarchive them, and delete books nobody has ordered
  * - Quick quantity adjustment (increase/decrease stock)
+ * - Assign one or more categories from the category tree
+ * - Choose each book's publisher (the supplier it is reordered from)
+ * - Sell a work in several formats: each edition (hardcover, paperback,
+ *   ebook, audiobook) is a book with its own ISBN, price and stock, and
+ *   "Add edition" starts a new one from an existing book
+ * - Bibliographic details (description, pages, language, edition, size,
+ *   weight) and free-form tags, all optional
+ * - Upload a cover by dragging an image onto the form (CoverPicker)
+ * - Import books in bulk from a CSV or JSON catalog file (CatalogImportModal)
+ * - Export the books shown (after search and filter) as CSV or JSON
+ * - Price timeline per book, with scheduled sale prices (PriceTimelineModal)
  * - Low stock highlighting
- * 
+ * - "Show archived" adds archived books to the list
+ *  
  * DATABASE TRIGGERS DEMONSTRATED:
  * - Auto-replenish: When quantity drops below threshold via update,
- *   system automatically creates a publisher order
+ *   system automatically creates an order with the book's publisher
+ *   (the update fails if the book has no publisher)
  * - CHECK constraint: Prevents quantity from going negative
  * 
- * ACCESS: Admin users only (protected by ProtectedRoute)
+ * ACCESS: Users with 'books:write' (admins and managers, via ProtectedRoute).
+ * The Delete action is shown only with 'books:delete' (admins).
  * 
  * @author Bookstore Development Team
  * @version 1.0.0
@@ -30,27 +45,40 @@
 import React, { useState, useEffect } from 'react';
 
 // Type imports for TypeScript type safety
-import { Book, BookCategory, BookFormData } from '../../types';
+import { Book, BookFormData, BookImportReport, Publisher } from '../../types';
 
 // API services for book and publisher operations
-import { booksApi, publishersApi } from '../../services/api';
+import { booksApi, publishersApi, fieldErrorsOf } from '../../services/api';
+
+// Shared UI components for loading state, inline field errors and imports
+import { LoadingSpinner, FieldError, invalidClass, CatalogImportModal, CoverPicker, PriceTimelineModal } from '../../components';
+
+// Permission check for the delete action
+import { usePermission } from '../../hooks';
 
-// Shared UI component for loading state
-import { LoadingSpinner } from '../../components';
+// Category taxonomy for the filter and the category picker
+import { useCategories } from '../../context/CategoryContext';
+import { sortCategoryTree, descendantIds } from 'bookstore-shared/categoryTree';
 
 // Icons for visual enhancement
-import { FaBook, FaPlus, FaEdit, FaTrash, FaSearch } from 'react-icons/fa';
+import { FaBook, FaPlus, FaEdit, FaTrash, FaSearch, FaFileImport, FaFileExport, FaClone, FaArchive, FaUndo, FaChartLine } from 'react-icons/fa';
+
+// ISBN check digits, and hyphens for display
+import { checkIsbn, formatIsbn, matchesIsbn } from 'bookstore-shared/isbn';
+
+// Catalog files for export (the same format the import reads)
+import { toCatalogRecord, toCatalogCsv } from 'bookstore-shared/catalogFile';
+
+// Edition formats and grouping books into works
+import { BOOK_FORMATS, FORMAT_LABELS, groupEditions } from 'bookstore-shared/editions';
+
+// Tags typed as a comma-separated list
+import { parseTags, formatTags } from 'bookstore-shared/bookDetails';
 
 // ============================================================================
 // CONSTANTS
 // ============================================================================
 
-/**
- * Available book categories
- * Must match the BookCategory type defined in types/Book.ts
- */
-const categories: BookCategory[] = ['Science', 'Art', 'Religion', 'History', 'Geography'];
-
 /**
  * Empty form data template for resetting the form
  * Used when opening the modal for adding a new book
@@ -58,13 +86,45 @@ const categories: BookCategory[] = ['Science', 'Art', 'Religion', 'History', 'Ge
 const emptyFormData: BookFormData = {
   isbn: '',
   title: '',
+  format: 'paperback',    // No workId: the book starts a new work
   authors: '',            // Comma-separated string, converted to array on save
-  publisher: '',
+  publisherId: '',
   publicationYear: new Date().getFullYear(),
   sellingPrice: 0,
-  category: 'Science',
+  categories: [],          // Category slugs, at least one required
   quantity: 0,
-  threshold: 5            // Default reorder threshold
+  threshold: 5,           // Default reorder threshold
+  description: null,      // Details are optional: null until filled in
+  pageCount: null,
+  language: null,
+  edition: null,
+  heightMm: null,
+  widthMm: null,
+  thicknessMm: null,
+  weightGrams: null,
+  tags: ''                // Comma-separated string, converted to array on save
+};
+
+/** Form fields holding whole numbers (required ones become 0 when cleared) */
+const NUMBER_FIELDS = ['publicationYear', 'sellingPrice', 'quantity', 'threshold'];
+
+/** Optional form fields; clearing one sends null */
+const OPTIONAL_NUMBER_FIELDS = ['pageCount', 'heightMm', 'widthMm', 'thicknessMm', 'weightGrams'];
+const OPTIONAL_TEXT_FIELDS = ['description', 'language', 'edition'];
+
+/**
+ * Saves text as a file through the browser's download prompt
+ * @param text - File contents
+ * @param fileName - Suggested file name
+ * @param type - MIME type
+ */
+const downloadFile = (text: string, fileName: string, type: string) => {
+  const url = URL.createObjectURL(new Blob([text], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
 };
 
 /**
@@ -80,24 +140,35 @@ const BookManagement: React.FC = () => {
   // STATE MANAGEMENT
   // ========================================
   
+  // Managers may add and edit books but not delete them
+  const canDelete = usePermission('books:delete');
+
+  // Category taxonomy, listed as a tree
+  const { categories } = useCategories();
+  const categoryTree = sortCategoryTree(categories);
+  
   // Data state
-  const [books, setBooks] = useState<Book[]>([]);              // All books from API
-  const [publishers, setPublishers] = useState<string[]>([]);  // Publisher names for dropdown
+  const [books, setBooks] = useState<Book[]>([]);              // All books from API, archived included
+  const [publishers, setPublishers] = useState<Publisher[]>([]); // Publishers for dropdown
   
   // UI state
   const [isLoading, setIsLoading] = useState(true);            // Initial load state
   const [showModal, setShowModal] = useState(false);           // Modal visibility
+  const [showImport, setShowImport] = useState(false);         // Import dialog visibility
   const [editingBook, setEditingBook] = useState<Book | null>(null); // Book being edited
+  const [pricesBook, setPricesBook] = useState<Book | null>(null);   // Book whose prices are shown
   
   // Form state
   const [formData, setFormData] = useState<BookFormData>(emptyFormData);
   
   // Filter state
   const [searchQuery, setSearchQuery] = useState('');          // Search text
-  const [filterCategory, setFilterCategory] = useState('');    // Category filter
+  const [filterCategory, setFilterCategory] = useState('');    // Category filter (slug)
+  const [showArchived, setShowArchived] = useState(false);     // List archived books too
   
   // Feedback state
   const [error, setError] = useState('');                      // Error message
+  const [fieldErrors, setFieldErrors] = useState<Record<string, string>>({}); // Form errors by field
   const [success, setSuccess] = useState('');                  // Success message
   const [isSaving, setIsSaving] = useState(false);            // Form submission state
 
@@ -113,18 +184,17 @@ const BookManagement: React.FC = () => {
   }, []);
 
   /**
-   * Loads books and publishers data from APIs
+   * Loads books (archived ones included) and publishers data from APIs
    * Uses Promise.all for parallel fetching
    */
   const loadData = async () => {
     try {
       const [booksData, publishersData] = await Promise.all([
-        booksApi.getAll(),
+        booksApi.search('', { archived: 'include' }),
         publishersApi.getAll()
       ]);
       setBooks(booksData);
-      // Extract publisher names for the dropdown
-      setPublishers(publishersData.map(p => p.name));
+      setPublishers(publishersData);
     } catch (error) {
       console.error('Failed to load data:', error);
     } finally {
@@ -138,22 +208,29 @@ const BookManagement: React.FC = () => {
   
   /**
    * Filters books based on search query and category filter
-   * Search matches against: title, ISBN, and authors
+   * Search matches against: title, ISBN (with or without hyphens), and authors
+   * The category filter includes books in subcategories
+   * Archived books are listed only with "Show archived"
    */
+  const filterCategoryId = categories.find(c => c.slug === filterCategory)?.id;
+  const filterCategoryIds = filterCategoryId ? descendantIds(categories, filterCategoryId) : new Set<string>();
   const filteredBooks = books.filter(book => {
     // Check if book matches search query
     const matchesSearch = !searchQuery || 
       book.title.toLowerCase().includes(searchQuery.toLowerCase()) ||
-      book.isbn.toLowerCase().includes(searchQuery.toLowerCase()) ||
-      book.authors.some(a => a.toLowerCase().includes(searchQuery.toLowerCase()));
+      matchesIsbn(book.isbn, searchQuery) ||
+      book.authors.some(a => a.name.toLowerCase().includes(searchQuery.toLowerCase()));
     
     // Check if book matches category filter
-    const matchesCategory = !filterCategory || book.category === filterCategory;
+    const matchesCategory = !filterCategory || book.categories.some(c => filterCategoryIds.has(c.id));
     
-    // Book must match both criteria
-    return matchesSearch && matchesCategory;
+    // Book must match every criterion
+    return matchesSearch && matchesCategory && (showArchived || !book.archivedAt);
   });
 
+  /** Works with their editions, for the form's "Edition of" list */
+  const works = groupEditions(books);
+
   // ========================================
   // MODAL HANDLERS
   // ========================================
@@ -167,15 +244,27 @@ const BookManagement: React.FC = () => {
       // Edit mode: populate form with existing book data
       setEditingBook(book);
       setFormData({
-        isbn: book.isbn,
+        isbn: formatIsbn(book.isbn),
         title: book.title,
-        authors: book.authors.join(', '),  // Convert array to comma-separated string
-        publisher: book.publisher,
+        format: book.format,
+        workId: book.workId,
+        authors: book.authors.map(a => a.name).join(', '),  // Convert authors to comma-separated names
+        publisherId: book.publisherId ?? '',  // Books without a publisher must pick one
         publicationYear: book.publicationYear,
         sellingPrice: book.sellingPrice,
-        category: book.category,
+        categories: book.categories.map(c => c.slug),
         quantity: book.quantity,
-        threshold: book.threshold
+        threshold: book.threshold,
+        imageUrl: book.imageUrl,
+        description: book.description,
+        pageCount: book.pageCount,
+        language: book.language,
+        edition: book.edition,
+        heightMm: book.heightMm,
+        widthMm: book.widthMm,
+        thicknessMm: book.thicknessMm,
+        weightGrams: book.weightGrams,
+        tags: formatTags(book.tags)
       });
     } else {
       // Add mode: reset form to empty state
@@ -183,6 +272,41 @@ const BookManagement: React.FC = () => {
       setFormData(emptyFormData);
     }
     setError('');
+    setFieldErrors({});
+    setShowModal(true);
+  };
+
+  /**
+   * Opens the modal to add another edition of a book's work, filled in
+   * from the book. The ISBN and stock start empty, and the format is the
+   * first one the work does not have yet. The description, language and
+   * tags are the work's; pages, size and weight differ between editions
+   * and start empty.
+   * @param book - An edition of the work
+   */
+  const handleAddEdition = (book: Book) => {
+    const taken = books.filter(b => b.workId === book.workId).map(b => b.format);
+    setEditingBook(null);
+    setFormData({
+      ...emptyFormData,
+      isbn: '',
+      title: book.title,
+      format: BOOK_FORMATS.find(format => !taken.includes(format)) ?? book.format,
+      workId: book.workId,
+      authors: book.authors.map(a => a.name).join(', '),
+      publisherId: book.publisherId ?? '',
+      publicationYear: book.publicationYear,
+      sellingPrice: book.sellingPrice,
+      categories: book.categories.map(c => c.slug),
+      quantity: 0,
+      threshold: book.threshold,
+      imageUrl: book.imageUrl,
+      description: book.description,
+      language: book.language,
+      tags: formatTags(book.tags)
+    });
+    setError('');
+    setFieldErrors({});
     setShowModal(true);
   };
 
@@ -194,6 +318,7 @@ const BookManagement: React.FC = () => {
     setEditingBook(null);
     setFormData(emptyFormData);
     setError('');
+    setFieldErrors({});
   };
 
   // ========================================
@@ -202,19 +327,45 @@ const BookManagement: React.FC = () => {
 
   /**
    * Handles form input changes
-   * Converts numeric fields to numbers
+   * Converts numeric fields to numbers, and empty optional fields to null
    */
-  const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement | HTMLTextAreaElement>) => {
     const { name, value } = e.target;
     setFormData(prev => ({
       ...prev,
       // Parse numeric fields, keep others as strings
-      [name]: ['publicationYear', 'sellingPrice', 'quantity', 'threshold'].includes(name)
+      [name]: NUMBER_FIELDS.includes(name)
         ? parseFloat(value) || 0
+        : OPTIONAL_NUMBER_FIELDS.includes(name) ? (value === '' ? null : parseInt(value, 10))
+        : OPTIONAL_TEXT_FIELDS.includes(name) ? value || null
+        // No work chosen: the book starts a new one
+        : name === 'workId' ? value || undefined
         : value
     }));
   };
 
+  /**
+   * Checks or unchecks a category in the form
+   * @param slug - Category slug
+   */
+  const handleCategoryToggle = (slug: string) => {
+    setFormData(prev => ({
+      ...prev,
+      categories: prev.categories.includes(slug)
+        ? prev.categories.filter(s => s !== slug)
+        : [...prev.categories, slug]
+    }));
+  };
+
+  /**
+   * Rewrites a valid ISBN as hyphenated ISBN-13 when the field loses
+   * focus, so the user sees which book will be saved (the API stores the
+   * digits alone)
+   */
+  const handleIsbnBlur = () => {
+    setFormData(prev => ({ ...prev, isbn: formatIsbn(prev.isbn) }));
+  };
+
   /**
    * Handles form submission for add/edit operations
    * Converts authors string to array before saving
@@ -222,6 +373,23 @@ const BookManagement: React.FC = () => {
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setError('');
+    setFieldErrors({});
+
+    // Validation: a mistyped ISBN fails its check digit
+    if (!editingBook) {
+      const isbnError = checkIsbn(formData.isbn);
+      if (isbnError) {
+        setFieldErrors({ isbn: isbnError });
+        return;
+      }
+    }
+
+    // Validation: every book needs a category
+    if (formData.categories.length === 0) {
+      setFieldErrors({ categories: 'Choose at least one category' });
+      return;
+    }
+
     setIsSaving(true);
 
     try {
@@ -229,7 +397,10 @@ const BookManagement: React.FC = () => {
         // Update existing book
         await booksApi.update(editingBook.isbn, {
           ...formData,
-          authors: formData.authors.split(',').map(a => a.trim())
+          authors: formData.authors.split(',').map(a => a.trim()),
+          tags: parseTags(formData.tags),
+          // A removed cover is sent as null so it is cleared
+          imageUrl: formData.imageUrl ?? null
         });
         setSuccess('Book updated successfully!');
       } else {
@@ -241,7 +412,12 @@ const BookManagement: React.FC = () => {
       await loadData();
       handleCloseModal();
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'Failed to save book');
+      // Field problems go under their inputs; anything else above the form
+      const errors = fieldErrorsOf(err);
+      setFieldErrors(errors);
+      if (Object.keys(errors).length === 0) {
+        setError(err instanceof Error ? err.message : 'Failed to save book');
+      }
     } finally {
       setIsSaving(false);
     }
@@ -251,8 +427,33 @@ const BookManagement: React.FC = () => {
   // ACTION HANDLERS
   // ========================================
 
+  /**
+   * Archives a book (with confirmation) or puts an archived one back on sale
+   * @param book - The book to archive or unarchive
+   */
+  const handleToggleArchived = async (book: Book) => {
+    if (!book.archivedAt &&
+        !confirm(`Archive "${book.title}"? It leaves the catalog and customers' carts, but stays in orders and reports.`)) {
+      return;
+    }
+
+    try {
+      if (book.archivedAt) {
+        await booksApi.unarchive(book.isbn);
+        setSuccess(`"${book.title}" is back on sale.`);
+      } else {
+        await booksApi.archive(book.isbn);
+        setSuccess(`"${book.title}" archived.`);
+      }
+      await loadData();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update the book');
+    }
+  };
+
   /**
    * Handles book deletion with confirmation
+   * Books that have been ordered are refused by the API; archive them instead
    */
   const handleDelete = async (isbn: string) => {
     if (!confirm('Are you sure you want to delete this book?')) return;
@@ -292,6 +493,35 @@ const BookManagement: React.FC = () => {
     }
   };
 
+  // ========================================
+  // IMPORT AND EXPORT
+  // ========================================
+
+  /**
+   * Closes the import dialog and reloads the books it added or changed
+   * @param report - Report of the applied import
+   */
+  const handleImported = async (report: BookImportReport) => {
+    setShowImport(false);
+    const { create, update, skip } = report.summary;
+    setSuccess(`Import complete: ${create} added, ${update} updated, ${skip} skipped.`);
+    await loadData();
+  };
+
+  /**
+   * Downloads the books currently shown as a catalog file
+   * @param format - 'csv' or 'json' (the shape of database/books.json)
+   */
+  const handleExport = (format: 'csv' | 'json') => {
+    const records = filteredBooks.map(toCatalogRecord);
+    const date = new Date().toISOString().split('T')[0];
+    if (format === 'csv') {
+      downloadFile(toCatalogCsv(records), `books-${date}.csv`, 'text/csv');
+    } else {
+      downloadFile(JSON.stringify(records, null, 4), `books-${date}.json`, 'application/json');
+    }
+  };
+
   if (isLoading) {
     return <LoadingSpinner message="Loading books..." />;
   }
@@ -303,10 +533,35 @@ const BookManagement: React.FC = () => {
           <FaBook className="me-2" />
           Book Management
         </h2>
-        <button className="btn btn-primary" onClick={() => handleOpenModal()}>
-          <FaPlus className="me-1" />
-          Add New Book
-        </button>
+        <div className="d-flex gap-2">
+          <button className="btn btn-outline-primary" onClick={() => setShowImport(true)}>
+            <FaFileImport className="me-1" />
+            Import
+          </button>
+          <div className="btn-group">
+            <button
+              className="btn btn-outline-secondary"
+              onClick={() => handleExport('csv')}
+              disabled={filteredBooks.length === 0}
+              title="Download the books shown as CSV"
+            >
+              <FaFileExport className="me-1" />
+              Export CSV
+            </button>
+            <button
+              className="btn btn-outline-secondary"
+              onClick={() => handleExport('json')}
+              disabled={filteredBooks.length === 0}
+              title="Download the books shown as JSON"
+            >
+              JSON
+            </button>
+          </div>
+          <button className="btn btn-primary" onClick={() => handleOpenModal()}>
+            <FaPlus className="me-1" />
+            Add New Book
+          </button>
+        </div>
       </div>
 
       {error && (
@@ -326,7 +581,7 @@ const BookManagement: React.FC = () => {
       <div className="card shadow-sm mb-4">
         <div className="card-body">
           <div className="row g-3">
-            <div className="col-md-6">
+            <div className="col-md-5">
               <div className="input-group">
                 <span className="input-group-text">
                   <FaSearch />
@@ -340,22 +595,36 @@ const BookManagement: React.FC = () => {
                 />
               </div>
             </div>
-            <div className="col-md-4">
+            <div className="col-md-3">
               <select
                 className="form-select"
                 value={filterCategory}
                 onChange={(e) => setFilterCategory(e.target.value)}
               >
                 <option value="">All Categories</option>
-                {categories.map(cat => (
-                  <option key={cat} value={cat}>{cat}</option>
+                {categoryTree.map(({ category, depth }) => (
+                  <option key={category.id} value={category.slug}>
+                    {'\u00a0\u00a0'.repeat(depth)}{category.name}
+                  </option>
                 ))}
               </select>
             </div>
+            <div className="col-md-2 d-flex align-items-center">
+              <div className="form-check form-switch mb-0">
+                <input
+                  type="checkbox"
+                  className="form-check-input"
+                  id="showArchived"
+                  checked={showArchived}
+                  onChange={(e) => setShowArchived(e.target.checked)}
+                />
+                <label className="form-check-label" htmlFor="showArchived">Show archived</label>
+              </div>
+            </div>
             <div className="col-md-2">
               <button
                 className="btn btn-outline-secondary w-100"
-                onClick={() => { setSearchQuery(''); setFilterCategory(''); }}
+                onClick={() => { setSearchQuery(''); setFilterCategory(''); setShowArchived(false); }}
               >
                 Clear
               </button>
@@ -373,8 +642,10 @@ const BookManagement: React.FC = () => {
                 <tr>
                   <th>ISBN</th>
                   <th>Title</th>
+                  <th>Format</th>
                   <th>Author(s)</th>
-                  <th>Category</th>
+                  <th>Publisher</th>
+                  <th>Categories</th>
                   <th className="text-end">Price</th>
                   <th className="text-center">Stock</th>
                   <th className="text-center">Threshold</th>
@@ -384,12 +655,20 @@ const BookManagement: React.FC = () => {
               </thead>
               <tbody>
                 {filteredBooks.map(book => (
-                  <tr key={book.isbn}>
-                    <td><small>{book.isbn}</small></td>
+                  <tr key={book.isbn} className={book.archivedAt ? 'table-secondary' : undefined}>
+                    <td><small>{formatIsbn(book.isbn)}</small></td>
                     <td>{book.title}</td>
-                    <td><small>{book.authors.join(', ')}</small></td>
+                    <td><small>{FORMAT_LABELS[book.format]}</small></td>
+                    <td><small>{book.authors.map(a => a.name).join(', ')}</small></td>
                     <td>
-                      <span className="badge bg-secondary">{book.category}</span>
+                      {book.publisher
+                        ? <small>{book.publisher}</small>
+                        : <span className="badge bg-warning text-dark" title="Low stock cannot be reordered">No publisher</span>}
+                    </td>
+                    <td>
+                      {book.categories.map(category => (
+                        <span key={category.id} className="badge bg-secondary me-1">{category.name}</span>
+                      ))}
                     </td>
                     <td className="text-end">${book.sellingPrice.toFixed(2)}</td>
                     <td className="text-center">
@@ -416,7 +695,11 @@ const BookManagement: React.FC = () => {
                     </td>
                     <td className="text-center">{book.threshold}</td>
                     <td>
-                      {book.quantity === 0 ? (
+                      {book.archivedAt ? (
+                        <span className="badge bg-dark" title={`Archived ${new Date(book.archivedAt).toLocaleDateString()}`}>
+                          Archived
+                        </span>
+                      ) : book.quantity === 0 ? (
                         <span className="badge bg-danger">Out of Stock</span>
                       ) : book.quantity < book.threshold ? (
                         <span className="badge bg-warning text-dark">Low Stock</span>
@@ -434,12 +717,35 @@ const BookManagement: React.FC = () => {
                           <FaEdit />
                         </button>
                         <button
-                          className="btn btn-outline-danger"
-                          onClick={() => handleDelete(book.isbn)}
-                          title="Delete"
+                          className="btn btn-outline-secondary"
+                          onClick={() => handleAddEdition(book)}
+                          title="Add edition"
+                        >
+                          <FaClone />
+                        </button>
+                        <button
+                          className="btn btn-outline-info"
+                          onClick={() => setPricesBook(book)}
+                          title="Prices"
+                        >
+                          <FaChartLine />
+                        </button>
+                        <button
+                          className="btn btn-outline-dark"
+                          onClick={() => handleToggleArchived(book)}
+                          title={book.archivedAt ? 'Unarchive' : 'Archive'}
                         >
-                          <FaTrash />
+                          {book.archivedAt ? <FaUndo /> : <FaArchive />}
                         </button>
+                        {canDelete && (
+                          <button
+                            className="btn btn-outline-danger"
+                            onClick={() => handleDelete(book.isbn)}
+                            title="Delete"
+                          >
+                            <FaTrash />
+                          </button>
+                        )}
                       </div>
                     </td>
                   </tr>
@@ -453,6 +759,16 @@ const BookManagement: React.FC = () => {
         </div>
       </div>
 
+      {/* Catalog Import */}
+      {showImport && (
+        <CatalogImportModal onClose={() => setShowImport(false)} onImported={handleImported} />
+      )}
+
+      {/* Price Timeline */}
+      {pricesBook && (
+        <PriceTimelineModal book={pricesBook} onClose={() => setPricesBook(null)} onPriceChanged={loadData} />
+      )}
+
       {/* Add/Edit Modal */}
       {showModal && (
         <div className="modal show d-block" style={{ backgroundColor: 'rgba(0,0,0,0.5)' }}>
@@ -473,73 +789,122 @@ const BookManagement: React.FC = () => {
                       <label className="form-label">ISBN *</label>
                       <input
                         type="text"
-                        className="form-control"
+                        className={`form-control${invalidClass(fieldErrors, 'isbn')}`}
                         name="isbn"
                         value={formData.isbn}
                         onChange={handleChange}
+                        onBlur={handleIsbnBlur}
                         disabled={!!editingBook}
                         required
                       />
+                      <FieldError message={fieldErrors.isbn} />
+                      {!editingBook && (
+                        <div className="form-text">ISBN-10 or ISBN-13; hyphens are optional.</div>
+                      )}
                     </div>
                     <div className="col-md-6">
-                      <label className="form-label">Category *</label>
-                      <select
-                        className="form-select"
-                        name="category"
-                        value={formData.category}
-                        onChange={handleChange}
-                        required
+                      <label className="form-label">Categories *</label>
+                      <div
+                        className={`form-control${invalidClass(fieldErrors, 'categories')}`}
+                        style={{ maxHeight: '120px', overflowY: 'auto' }}
                       >
-                        {categories.map(cat => (
-                          <option key={cat} value={cat}>{cat}</option>
+                        {categoryTree.map(({ category, depth }) => (
+                          <div key={category.id} className="form-check" style={{ marginLeft: `${depth * 1.25}rem` }}>
+                            <input
+                              type="checkbox"
+                              className="form-check-input"
+                              id={`category-${category.id}`}
+                              checked={formData.categories.includes(category.slug)}
+                              onChange={() => handleCategoryToggle(category.slug)}
+                            />
+                            <label className="form-check-label" htmlFor={`category-${category.id}`}>
+                              {category.name}
+                            </label>
+                          </div>
                         ))}
-                      </select>
+                      </div>
+                      <FieldError message={fieldErrors.categories} />
                     </div>
                     <div className="col-12">
                       <label className="form-label">Title *</label>
                       <input
                         type="text"
-                        className="form-control"
+                        className={`form-control${invalidClass(fieldErrors, 'title')}`}
                         name="title"
                         value={formData.title}
                         onChange={handleChange}
                         required
                       />
+                      <FieldError message={fieldErrors.title} />
+                    </div>
+                    <div className="col-md-4">
+                      <label className="form-label">Format *</label>
+                      <select
+                        className={`form-select${invalidClass(fieldErrors, 'format')}`}
+                        name="format"
+                        value={formData.format}
+                        onChange={handleChange}
+                        required
+                      >
+                        {BOOK_FORMATS.map(format => (
+                          <option key={format} value={format}>{FORMAT_LABELS[format]}</option>
+                        ))}
+                      </select>
+                      <FieldError message={fieldErrors.format} />
+                    </div>
+                    <div className="col-md-8">
+                      <label className="form-label">Edition of</label>
+                      <select
+                        className={`form-select${invalidClass(fieldErrors, 'workId')}`}
+                        name="workId"
+                        value={formData.workId ?? ''}
+                        onChange={handleChange}
+                      >
+                        {/* A saved book always belongs to a work; it can only move to another */}
+                        {!editingBook && <option value="">A new work</option>}
+                        {works.map(editions => (
+                          <option key={editions[0].workId} value={editions[0].workId}>
+                            {editions[0].title} ({editions.map(b => FORMAT_LABELS[b.format]).join(', ')})
+                          </option>
+                        ))}
+                      </select>
+                      <FieldError message={fieldErrors.workId} />
+                      <small className="text-muted">Editions of a work are shown together in the catalog</small>
                     </div>
                     <div className="col-12">
                       <label className="form-label">Author(s) *</label>
                       <input
                         type="text"
-                        className="form-control"
+                        className={`form-control${invalidClass(fieldErrors, 'authors')}`}
                         name="authors"
                         value={formData.authors}
                         onChange={handleChange}
                         placeholder="Separate multiple authors with commas"
                         required
                       />
+                      <FieldError message={fieldErrors.authors} />
                     </div>
                     <div className="col-md-6">
                       <label className="form-label">Publisher *</label>
-                      <input
-                        type="text"
-                        className="form-control"
-                        name="publisher"
-                        value={formData.publisher}
+                      <select
+                        className={`form-select${invalidClass(fieldErrors, 'publisherId')}`}
+                        name="publisherId"
+                        value={formData.publisherId}
                         onChange={handleChange}
-                        list="publishers-list"
                         required
-                      />
-                      <datalist id="publishers-list">
+                      >
+                        <option value="">Choose a publisher</option>
                         {publishers.map(pub => (
-                          <option key={pub} value={pub} />
+                          <option key={pub.id} value={pub.id}>{pub.name}</option>
                         ))}
-                      </datalist>
+                      </select>
+                      <FieldError message={fieldErrors.publisherId} />
                     </div>
                     <div className="col-md-6">
                       <label className="form-label">Publication Year *</label>
                       <input
                         type="number"
-                        className="form-control"
+                        className={`form-control${invalidClass(fieldErrors, 'publicationYear')}`}
                         name="publicationYear"
                         value={formData.publicationYear}
                         onChange={handleChange}
@@ -547,12 +912,13 @@ const BookManagement: React.FC = () => {
                         max={new Date().getFullYear()}
                         required
                       />
+                      <FieldError message={fieldErrors.publicationYear} />
                     </div>
                     <div className="col-md-4">
                       <label className="form-label">Selling Price ($) *</label>
                       <input
                         type="number"
-                        className="form-control"
+                        className={`form-control${invalidClass(fieldErrors, 'sellingPrice')}`}
                         name="sellingPrice"
                         value={formData.sellingPrice}
                         onChange={handleChange}
@@ -560,32 +926,135 @@ const BookManagement: React.FC = () => {
                         step="0.01"
                         required
                       />
+                      <FieldError message={fieldErrors.sellingPrice} />
                     </div>
                     <div className="col-md-4">
                       <label className="form-label">Initial Quantity *</label>
                       <input
                         type="number"
-                        className="form-control"
+                        className={`form-control${invalidClass(fieldErrors, 'quantity')}`}
                         name="quantity"
                         value={formData.quantity}
                         onChange={handleChange}
                         min="0"
                         required
                       />
+                      <FieldError message={fieldErrors.quantity} />
                     </div>
                     <div className="col-md-4">
                       <label className="form-label">Threshold *</label>
                       <input
                         type="number"
-                        className="form-control"
+                        className={`form-control${invalidClass(fieldErrors, 'threshold')}`}
                         name="threshold"
                         value={formData.threshold}
                         onChange={handleChange}
                         min="1"
                         required
                       />
+                      <FieldError message={fieldErrors.threshold} />
                       <small className="text-muted">Minimum stock before reorder</small>
                     </div>
+
+                    {/* Bibliographic details, all optional */}
+                    <div className="col-12">
+                      <h6 className="mt-2 mb-0 text-muted">Details</h6>
+                    </div>
+                    <div className="col-12">
+                      <label className="form-label">Description</label>
+                      <textarea
+                        className={`form-control${invalidClass(fieldErrors, 'description')}`}
+                        name="description"
+                        value={formData.description ?? ''}
+                        onChange={handleChange}
+                        rows={3}
+                        maxLength={5000}
+                      />
+                      <FieldError message={fieldErrors.description} />
+                    </div>
+                    <div className="col-md-4">
+                      <label className="form-label">Pages</label>
+                      <input
+                        type="number"
+                        className={`form-control${invalidClass(fieldErrors, 'pageCount')}`}
+                        name="pageCount"
+                        value={formData.pageCount ?? ''}
+                        onChange={handleChange}
+                        min="1"
+                      />
+                      <FieldError message={fieldErrors.pageCount} />
+                    </div>
+                    <div className="col-md-4">
+                      <label className="form-label">Language</label>
+                      <input
+                        type="text"
+                        className={`form-control${invalidClass(fieldErrors, 'language')}`}
+                        name="language"
+                        value={formData.language ?? ''}
+                        onChange={handleChange}
+                        maxLength={3}
+                        placeholder="en"
+                      />
+                      <FieldError message={fieldErrors.language} />
+                      <small className="text-muted">ISO 639 code, e.g. en, fr, de</small>
+                    </div>
+                    <div className="col-md-4">
+                      <label className="form-label">Edition</label>
+                      <input
+                        type="text"
+                        className={`form-control${invalidClass(fieldErrors, 'edition')}`}
+                        name="edition"
+                        value={formData.edition ?? ''}
+                        onChange={handleChange}
+                        maxLength={50}
+                        placeholder="e.g. 2nd edition"
+                      />
+                      <FieldError message={fieldErrors.edition} />
+                    </div>
+                    {([
+                      ['heightMm', 'Height (mm)'],
+                      ['widthMm', 'Width (mm)'],
+                      ['thicknessMm', 'Thickness (mm)'],
+                      ['weightGrams', 'Weight (g)']
+                    ] as const).map(([field, label]) => (
+                      <div className="col-md-3" key={field}>
+                        <label className="form-label">{label}</label>
+                        <input
+                          type="number"
+                          className={`form-control${invalidClass(fieldErrors, field)}`}
+                          name={field}
+                          value={formData[field] ?? ''}
+                          onChange={handleChange}
+                          min="1"
+                        />
+                        <FieldError message={fieldErrors[field]} />
+                      </div>
+                    ))}
+                    <div className="col-12">
+                      <label className="form-label">Tags</label>
+                      <input
+                        type="text"
+                        className={`form-control${invalidClass(fieldErrors, 'tags')}`}
+                        name="tags"
+                        value={formData.tags}
+                        onChange={handleChange}
+                        placeholder="Separate tags with commas, e.g. classic, book club pick"
+                      />
+                      {/* A problem with one tag is reported under tags.<index> */}
+                      <FieldError
+                        message={fieldErrors.tags ?? Object.entries(fieldErrors).find(([field]) => field.startsWith('tags.'))?.[1]}
+                      />
+                      <small className="text-muted">Customers can filter the catalog by tag</small>
+                    </div>
+                    <div className="col-12">
+                      <label className="form-label">Cover</label>
+                      <CoverPicker
+                        imageUrl={formData.imageUrl}
+                        title={formData.title}
+                        onChange={imageUrl => setFormData(prev => ({ ...prev, imageUrl }))}
+                        error={fieldErrors.imageUrl}
+                      />
+                    </div>
                   </div>
                 </div>
                 <div className="modal-footer">
@@ -0,0 +1,474 @@
+/**
+ * ============================================================================
+ * CATEGORY MANAGEMENT PAGE (Admin)
+ * ============================================================================
+ *
+ * Admin page for managing the category taxonomy.
+ * Categories form a tree: each category may have a parent, and browsing a
+ * category also lists the books of its subcategories.
+ *
+ * FEATURES:
+ * - View the category tree with colors, slugs and book counts
+ * - Add categories (the slug is derived from the name when left blank)
+ * - Edit name, slug, parent, color and sort order
+ * - Move a category (and its subcategories) by changing its parent
+ * - Delete categories that have no subcategories and no books
+ *
+ * RULES (enforced by the API):
+ * - Names and slugs are unique
+ * - A category cannot be moved under itself or one of its subcategories
+ * - A category still in use cannot be deleted
+ *
+ * ACCESS: Users with 'categories:write' (admins, via ProtectedRoute).
+ *
+ * @author Bookstore Development Team
+ * @version 1.0.0
+ * ============================================================================
+ */
+
+// React imports for component and lifecycle management
+import React, { useState, useEffect } from 'react';
+
+// Type imports for TypeScript type safety
+import { Book, Category } from '../../types';
+
+// API services for category and book operations
+import { categoriesApi, booksApi, fieldErrorsOf } from '../../services/api';
+
+// Shared UI components for loading state and inline field errors
+import { LoadingSpinner, FieldError, invalidClass } from '../../components';
+
+// Category taxonomy shared with the rest of the app
+import { useCategories } from '../../context/CategoryContext';
+import { sortCategoryTree, descendantIds, DEFAULT_CATEGORY_COLOR } from 'bookstore-shared/categoryTree';
+import { slugify } from 'bookstore-shared/slug';
+
+// Badge colors from the category's own color
+import { categoryBadgeStyle } from '../../utils';
+
+// Icons for visual enhancement
+import { FaTags, FaPlus, FaEdit, FaTrash } from 'react-icons/fa';
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/**
+ * Category form fields
+ * parentId is '' for a top-level category (the select's "None" option)
+ */
+interface CategoryFormData {
+  name: string;
+  slug: string;
+  parentId: string;
+  color: string;
+  sortOrder: number;
+}
+
+/**
+ * Empty form data template for resetting the form
+ * Used when opening the modal for adding a new category
+ */
+const emptyFormData: CategoryFormData = {
+  name: '',
+  slug: '',               // Blank: derived from the name on save
+  parentId: '',
+  color: DEFAULT_CATEGORY_COLOR,
+  sortOrder: 0
+};
+
+/**
+ * CategoryManagement Component
+ *
+ * Renders the category management interface with:
+ * - Category tree table with edit and delete actions
+ * - Modal form for add/edit operations
+ */
+const CategoryManagement: React.FC = () => {
+  // ========================================
+  // STATE MANAGEMENT
+  // ========================================
+
+  // Category list from CategoryContext; reload() refreshes every page using it
+  const { categories, isLoading: categoriesLoading, reload } = useCategories();
+  const categoryTree = sortCategoryTree(categories);
+
+  // Books, for the per-category book counts
+  const [books, setBooks] = useState<Book[]>([]);
+  const [booksLoading, setBooksLoading] = useState(true);
+
+  // Modal and form state
+  const [showModal, setShowModal] = useState(false);
+  const [editingCategory, setEditingCategory] = useState<Category | null>(null);
+  const [formData, setFormData] = useState<CategoryFormData>(emptyFormData);
+
+  // Feedback state
+  const [error, setError] = useState('');                      // Error message
+  const [fieldErrors, setFieldErrors] = useState<Record<string, string>>({}); // Form errors by field
+  const [success, setSuccess] = useState('');                  // Success message
+  const [isSaving, setIsSaving] = useState(false);            // Form submission state
+
+  // ========================================
+  // DATA LOADING
+  // ========================================
+
+  /**
+   * Effect: Load books on component mount (categories come from context)
+   */
+  useEffect(() => {
+    loadBooks();
+  }, []);
+
+  /**
+   * Loads all books for the book counts
+   */
+  const loadBooks = async () => {
+    try {
+      setBooks(await booksApi.getAll());
+    } catch (error) {
+      console.error('Failed to load books:', error);
+    } finally {
+      setBooksLoading(false);
+    }
+  };
+
+  /**
+   * Number of books listed directly under a category
+   * @param categoryId - Category ID
+   */
+  const bookCount = (categoryId: string) =>
+    books.filter(book => book.categories.some(c => c.id === categoryId)).length;
+
+  // ========================================
+  // MODAL HANDLERS
+  // ========================================
+
+  /**
+   * Opens the add/edit modal
+   * @param category - If provided, opens in edit mode; otherwise opens in add mode
+   * @param parentId - Parent to preselect when adding a subcategory
+   */
+  const handleOpenModal = (category?: Category, parentId = '') => {
+    if (category) {
+      // Edit mode: populate form with existing category data
+      setEditingCategory(category);
+      setFormData({
+        name: category.name,
+        slug: category.slug,
+        parentId: category.parentId ?? '',
+        color: category.color,
+        sortOrder: category.sortOrder
+      });
+    } else {
+      // Add mode: reset form, optionally under a parent
+      setEditingCategory(null);
+      setFormData({ ...emptyFormData, parentId });
+    }
+    setError('');
+    setFieldErrors({});
+    setShowModal(true);
+  };
+
+  /**
+   * Closes the modal and resets form state
+   */
+  const handleCloseModal = () => {
+    setShowModal(false);
+    setEditingCategory(null);
+    setFormData(emptyFormData);
+    setError('');
+    setFieldErrors({});
+  };
+
+  /**
+   * Categories the edited category may be moved under: any category
+   * except itself and its own subcategories
+   */
+  const parentOptions = editingCategory
+    ? (() => {
+        const excluded = descendantIds(categories, editingCategory.id);
+        return categoryTree.filter(({ category }) => !excluded.has(category.id));
+      })()
+    : categoryTree;
+
+  // ========================================
+  // FORM HANDLERS
+  // ========================================
+
+  /**
+   * Handles form input changes
+   * Converts the sort order to a number
+   */
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
+    const { name, value } = e.target;
+    setFormData(prev => ({
+      ...prev,
+      [name]: name === 'sortOrder' ? parseInt(value, 10) || 0 : value
+    }));
+  };
+
+  /**
+   * Handles form submission for add/edit operations
+   * A blank slug is derived from the name
+   */
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+    setFieldErrors({});
+    setIsSaving(true);
+
+    const data = {
+      name: formData.name,
+      slug: formData.slug.trim() || slugify(formData.name),
+      parentId: formData.parentId || null,
+      color: formData.color,
+      sortOrder: formData.sortOrder
+    };
+
+    try {
+      if (editingCategory) {
+        await categoriesApi.update(editingCategory.id, data);
+        setSuccess('Category updated successfully!');
+      } else {
+        await categoriesApi.add(data);
+        setSuccess('Category added successfully!');
+      }
+      // Refresh the shared list (and book badges showing the old name or color)
+      await Promise.all([reload(), loadBooks()]);
+      handleCloseModal();
+    } catch (err) {
+      // Field problems go under their inputs; anything else above the form
+      const errors = fieldErrorsOf(err);
+      setFieldErrors(errors);
+      if (Object.keys(errors).length === 0) {
+        setError(err instanceof Error ? err.message : 'Failed to save category');
+      }
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  // ========================================
+  // ACTION HANDLERS
+  // ========================================
+
+  /**
+   * Handles category deletion with confirmation
+   * The API refuses categories that still have subcategories or books
+   */
+  const handleDelete = async (category: Category) => {
+    if (!confirm(`Are you sure you want to delete the category "${category.name}"?`)) return;
+
+    try {
+      await categoriesApi.delete(category.id);
+      setSuccess('Category deleted successfully!');
+      await reload();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete category');
+    }
+  };
+
+  if (categoriesLoading || booksLoading) {
+    return <LoadingSpinner message="Loading categories..." />;
+  }
+
+  return (
+    <div className="container-fluid py-4">
+      <div className="d-flex justify-content-between align-items-center mb-4">
+        <h2>
+          <FaTags className="me-2" />
+          Category Management
+        </h2>
+        <button className="btn btn-primary" onClick={() => handleOpenModal()}>
+          <FaPlus className="me-1" />
+          Add Category
+        </button>
+      </div>
+
+      {error && (
+        <div className="alert alert-danger alert-dismissible fade show" role="alert">
+          {error}
+          <button type="button" className="btn-close" onClick={() => setError('')}></button>
+        </div>
+      )}
+      {success && (
+        <div className="alert alert-success alert-dismissible fade show" role="alert">
+          {success}
+          <button type="button" className="btn-close" onClick={() => setSuccess('')}></button>
+        </div>
+      )}
+
+      {/* Categories Table */}
+      <div className="card shadow-sm">
+        <div className="card-body">
+          <div className="table-responsive">
+            <table className="table table-hover align-middle">
+              <thead className="table-light">
+                <tr>
+                  <th>Name</th>
+                  <th>Slug</th>
+                  <th className="text-center">Sort Order</th>
+                  <th className="text-center">Books</th>
+                  <th className="text-center">Actions</th>
+                </tr>
+              </thead>
+              <tbody>
+                {categoryTree.map(({ category, depth }) => (
+                  <tr key={category.id}>
+                    <td style={{ paddingLeft: `${0.5 + depth * 1.5}rem` }}>
+                      <span className="badge rounded-pill" style={categoryBadgeStyle(category.color)}>
+                        {category.name}
+                      </span>
+                    </td>
+                    <td><code>{category.slug}</code></td>
+                    <td className="text-center">{category.sortOrder}</td>
+                    <td className="text-center">{bookCount(category.id)}</td>
+                    <td className="text-center">
+                      <div className="btn-group btn-group-sm">
+                        <button
+                          className="btn btn-outline-success"
+                          onClick={() => handleOpenModal(undefined, category.id)}
+                          title="Add Subcategory"
+                        >
+                          <FaPlus />
+                        </button>
+                        <button
+                          className="btn btn-outline-primary"
+                          onClick={() => handleOpenModal(category)}
+                          title="Edit"
+                        >
+                          <FaEdit />
+                        </button>
+                        <button
+                          className="btn btn-outline-danger"
+                          onClick={() => handleDelete(category)}
+                          title="Delete"
+                        >
+                          <FaTrash />
+                        </button>
+                      </div>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          {categories.length === 0 && (
+            <p className="text-center text-muted py-3">No categories yet</p>
+          )}
+        </div>
+      </div>
+
+      {/* Add/Edit Modal */}
+      {showModal && (
+        <div className="modal show d-block" style={{ backgroundColor: 'rgba(0,0,0,0.5)' }}>
+          <div className="modal-dialog">
+            <div className="modal-content">
+              <div className="modal-header">
+                <h5 className="modal-title">
+                  {editingCategory ? 'Edit Category' : 'Add Category'}
+                </h5>
+                <button type="button" className="btn-close" onClick={handleCloseModal}></button>
+              </div>
+              <form onSubmit={handleSubmit}>
+                <div className="modal-body">
+                  {error && <div className="alert alert-danger">{error}</div>}
+
+                  <div className="row g-3">
+                    <div className="col-12">
+                      <label className="form-label">Name *</label>
+                      <input
+                        type="text"
+                        className={`form-control${invalidClass(fieldErrors, 'name')}`}
+                        name="name"
+                        value={formData.name}
+                        onChange={handleChange}
+                        maxLength={50}
+                        required
+                      />
+                      <FieldError message={fieldErrors.name} />
+                    </div>
+                    <div className="col-12">
+                      <label className="form-label">Slug</label>
+                      <input
+                        type="text"
+                        className={`form-control${invalidClass(fieldErrors, 'slug')}`}
+                        name="slug"
+                        value={formData.slug}
+                        onChange={handleChange}
+                        placeholder={slugify(formData.name)}
+                        maxLength={60}
+                      />
+                      <FieldError message={fieldErrors.slug} />
+                      <div className="form-text">
+                        Used in links such as /books?category=slug. Leave blank to derive it from the name.
+                      </div>
+                    </div>
+                    <div className="col-12">
+                      <label className="form-label">Parent Category</label>
+                      <select
+                        className={`form-select${invalidClass(fieldErrors, 'parentId')}`}
+                        name="parentId"
+                        value={formData.parentId}
+                        onChange={handleChange}
+                      >
+                        <option value="">None (top-level)</option>
+                        {parentOptions.map(({ category, depth }) => (
+                          <option key={category.id} value={category.id}>
+                            {'  '.repeat(depth)}{category.name}
+                          </option>
+                        ))}
+                      </select>
+                      <FieldError message={fieldErrors.parentId} />
+                    </div>
+                    <div className="col-md-6">
+                      <label className="form-label">Color</label>
+                      <input
+                        type="color"
+                        className={`form-control form-control-color w-100${invalidClass(fieldErrors, 'color')}`}
+                        name="color"
+                        value={formData.color}
+                        onChange={handleChange}
+                      />
+                      <FieldError message={fieldErrors.color} />
+                    </div>
+                    <div className="col-md-6">
+                      <label className="form-label">Sort Order</label>
+                      <input
+                        type="number"
+                        className={`form-control${invalidClass(fieldErrors, 'sortOrder')}`}
+                        name="sortOrder"
+                        value={formData.sortOrder}
+                        onChange={handleChange}
+                        min="0"
+                      />
+                      <FieldError message={fieldErrors.sortOrder} />
+                      <small className="text-muted">Lower numbers are listed first</small>
+                    </div>
+                  </div>
+                </div>
+                <div className="modal-footer">
+                  <button type="button" className="btn btn-secondary" onClick={handleCloseModal}>
+                    Cancel
+                  </button>
+                  <button type="submit" className="btn btn-primary" disabled={isSaving}>
+                    {isSaving ? (
+                      <>
+                        <span className="spinner-border spinner-border-sm me-2" />
+                        Saving...
+                      </>
+                    ) : (
+                      editingCategory ? 'Update Category' : 'Add Category'
+                    )}
+                  </button>
+                </div>
+              </form>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CategoryManagement;
@@ -18,7 +18,7 @@
  * - Low stock alert list with direct access to order more
  * - Pending orders list with confirm/cancel actions
  * 
- * ACCESS: Admin users only (protected by ProtectedRoute)
+ * ACCESS: Staff - admins and managers ('staff:access', via ProtectedRoute)
  * 
  * @author Bookstore Development Team
  * @version 1.0.0
@@ -40,6 +40,9 @@ import { booksApi, ordersApi, reportsApi } from '../../services/api';
 // Shared UI component for loading state
 import { LoadingSpinner } from '../../components';
 
+// Hyphenated ISBNs for the inventory overview
+import { formatIsbn } from 'bookstore-shared/isbn';
+
 // Icons for visual enhancement
 import { 
   FaBook,               // Books icon
@@ -331,10 +334,12 @@ const Dashboard: React.FC = () => {
                   <tbody>
                     {books.slice(0, 8).map(book => (
                       <tr key={book.isbn}>
-                        <td><small>{book.isbn}</small></td>
+                        <td><small>{formatIsbn(book.isbn)}</small></td>
                         <td>{book.title}</td>
                         <td>
-                          <span className="badge bg-secondary">{book.category}</span>
+                          {book.categories.map(category => (
+                            <span key={category.id} className="badge bg-secondary me-1">{category.name}</span>
+                          ))}
                         </td>
                         <td className="text-end">${book.sellingPrice.toFixed(2)}</td>
                         <td className="text-center">{book.quantity}</td>
@@ -23,7 +23,9 @@
  * - When confirming an order, the ordered quantity is automatically
  *   added to the book's stock (simulating receiving shipment)
  * 
- * ACCESS: Admin users only (protected by ProtectedRoute)
+ * ACCESS: Users with 'publisherOrders:read' (admins and managers, via
+ * ProtectedRoute). Placing, confirming and cancelling orders is shown only
+ * with 'publisherOrders:write'.
  * 
  * @author Bookstore Development Team
  * @version 1.0.0
@@ -42,6 +44,15 @@ import { ordersApi, booksApi } from '../../services/api';
 // Shared UI component for loading state
 import { LoadingSpinner } from '../../components';
 
+// Format names, to tell editions of the same title apart
+import { FORMAT_LABELS } from 'bookstore-shared/editions';
+
+// Hyphenated ISBNs for the order table
+import { formatIsbn } from 'bookstore-shared/isbn';
+
+// Permission check for order actions
+import { usePermission } from '../../hooks';
+
 // Icons for visual enhancement
 import { FaTruck, FaCheck, FaTimes, FaPlus, FaSearch } from 'react-icons/fa';
 
@@ -58,6 +69,9 @@ const OrderManagement: React.FC = () => {
   // STATE MANAGEMENT
   // ========================================
   
+  // Whether the user may place, confirm and cancel orders
+  const canWrite = usePermission('publisherOrders:write');
+  
   // Data state
   const [orders, setOrders] = useState<PublisherOrder[]>([]);  // All orders from API
   const [books, setBooks] = useState<Book[]>([]);              // Books for dropdown
@@ -226,10 +240,12 @@ const OrderManagement: React.FC = () => {
           <FaTruck className="me-2" />
           Publisher Orders
         </h2>
-        <button className="btn btn-primary" onClick={() => setShowModal(true)}>
-          <FaPlus className="me-1" />
-          Place New Order
-        </button>
+        {canWrite && (
+          <button className="btn btn-primary" onClick={() => setShowModal(true)}>
+            <FaPlus className="me-1" />
+            Place New Order
+          </button>
+        )}
       </div>
 
       {/* Error/Success alerts */}
@@ -292,9 +308,12 @@ const OrderManagement: React.FC = () => {
                 {filteredOrders.map(order => (
                   <tr key={order.id}>
                     <td><small className="fw-bold">{order.id}</small></td>
-                    <td><small>{order.bookIsbn}</small></td>
-                    <td>{order.bookTitle}</td>
-                    <td>{order.publisher}</td>
+                    <td><small>{formatIsbn(order.bookIsbn)}</small></td>
+                    <td>
+                      {order.bookTitle}
+                      <small className="text-muted ms-2">{FORMAT_LABELS[order.bookFormat]}</small>
+                    </td>
+                    <td>{order.publisher ?? <span className="text-muted">-</span>}</td>
                     <td className="text-center">{order.quantity}</td>
                     <td>{new Date(order.orderDate).toLocaleDateString()}</td>
                     <td>
@@ -303,7 +322,7 @@ const OrderManagement: React.FC = () => {
                       </span>
                     </td>
                     <td className="text-center">
-                      {order.status === 'Pending' && (
+                      {order.status === 'Pending' && canWrite && (
                         <div className="btn-group btn-group-sm">
                           <button
                             className="btn btn-success"
@@ -327,7 +346,7 @@ const OrderManagement: React.FC = () => {
                           </button>
                         </div>
                       )}
-                      {order.status !== 'Pending' && (
+                      {(order.status !== 'Pending' || !canWrite) && (
                         <span className="text-muted">-</span>
                       )}
                     </td>
@@ -363,8 +382,9 @@ const OrderManagement: React.FC = () => {
                     >
                       <option value="">Choose a book...</option>
                       {books.map(book => (
-                        <option key={book.isbn} value={book.isbn}>
-                          {book.title} (Stock: {book.quantity})
+                        // Orders go to the book's publisher, so books without one cannot be ordered
+                        <option key={book.isbn} value={book.isbn} disabled={!book.publisherId}>
+                          {book.title} - {FORMAT_LABELS[book.format]} ({book.publisher ?? 'no publisher'}, Stock: {book.quantity})
                         </option>
                       ))}
                     </select>
@@ -379,7 +399,9 @@ const OrderManagement: React.FC = () => {
                       min="1"
                       required
                     />
-                    <small className="text-muted">Default order quantity is 20 units</small>
+                    <small className="text-muted">
+                      Default order quantity is 20 units; publishers may require a larger minimum order
+                    </small>
                   </div>
                 </div>
                 <div className="modal-footer">
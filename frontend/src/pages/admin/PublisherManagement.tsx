@@ -0,0 +1,486 @@
+/**
+ * ============================================================================
+ * PUBLISHER MANAGEMENT PAGE (Admin)
+ * ============================================================================
+ *
+ * Admin page for the publishers books are bought from.
+ * Every book links to one publisher; when its stock drops below the
+ * threshold the reorder goes to that publisher, for at least the
+ * publisher's minimum order.
+ *
+ * FEATURES:
+ * - Search and view all publishers with their contacts and book counts
+ * - Add and edit publishers: contact details (email, address, phone)
+ *   and ordering terms (lead time, minimum order)
+ * - Delete publishers that supply no books and have no orders
+ *
+ * RULES (enforced by the API):
+ * - Publisher names are unique (ignoring case)
+ * - A publisher with books or orders cannot be deleted; move its books
+ *   to another publisher first
+ *
+ * ACCESS: Users with 'publishers:read' (admins and managers, via
+ * ProtectedRoute). Adding, editing and deleting is shown only with
+ * 'publishers:write' (admins).
+ *
+ * @author Bookstore Development Team
+ * @version 1.0.0
+ * ============================================================================
+ */
+
+// React imports for component and lifecycle management
+import React, { useState, useEffect } from 'react';
+
+// Type imports for TypeScript type safety
+import { Publisher } from '../../types';
+
+// API service for publisher operations
+import { publishersApi, fieldErrorsOf } from '../../services/api';
+
+// Shared UI components for loading state and inline field errors
+import { LoadingSpinner, FieldError, invalidClass } from '../../components';
+
+// Permission check for the write actions
+import { usePermission } from '../../hooks';
+
+// Icons for visual enhancement
+import { FaBuilding, FaPlus, FaEdit, FaTrash, FaSearch } from 'react-icons/fa';
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/**
+ * Publisher form fields
+ * Empty contact fields are saved as "not set"
+ */
+interface PublisherFormData {
+  name: string;
+  email: string;
+  address: string;
+  phone: string;
+  leadTimeDays: number;
+  minimumOrder: number;
+}
+
+/**
+ * Empty form state for adding a new publisher
+ * The ordering terms start at the API's defaults
+ */
+const emptyFormData: PublisherFormData = {
+  name: '',
+  email: '',
+  address: '',
+  phone: '',
+  leadTimeDays: 7,
+  minimumOrder: 1
+};
+
+/**
+ * PublisherManagement Component
+ *
+ * Renders the publisher management interface with:
+ * - Searchable publisher table with edit and delete actions
+ * - Modal form for adding or editing a publisher
+ */
+const PublisherManagement: React.FC = () => {
+  // ========================================
+  // STATE MANAGEMENT
+  // ========================================
+
+  // Whether the user may add, edit and delete publishers
+  const canWrite = usePermission('publishers:write');
+
+  // Data state
+  const [publishers, setPublishers] = useState<Publisher[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [searchQuery, setSearchQuery] = useState('');
+
+  // Modal state
+  const [showModal, setShowModal] = useState(false);
+  const [editingPublisher, setEditingPublisher] = useState<Publisher | null>(null);
+  const [formData, setFormData] = useState<PublisherFormData>(emptyFormData);
+
+  // Feedback state
+  const [error, setError] = useState('');                      // Error message
+  const [fieldErrors, setFieldErrors] = useState<Record<string, string>>({}); // Form errors by field
+  const [success, setSuccess] = useState('');                  // Success message
+  const [isSaving, setIsSaving] = useState(false);            // Form submission state
+
+  // ========================================
+  // DATA LOADING
+  // ========================================
+
+  /**
+   * Effect: Load publishers on component mount
+   */
+  useEffect(() => {
+    loadPublishers();
+  }, []);
+
+  /**
+   * Loads all publishers with their book counts
+   */
+  const loadPublishers = async () => {
+    try {
+      setPublishers(await publishersApi.getAll());
+    } catch (error) {
+      console.error('Failed to load publishers:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  /**
+   * Publishers matching the search box, by name or email
+   */
+  const filteredPublishers = publishers.filter(publisher =>
+    [publisher.name, publisher.email ?? ''].some(text => text.toLowerCase().includes(searchQuery.toLowerCase()))
+  );
+
+  // ========================================
+  // MODAL HANDLERS
+  // ========================================
+
+  /**
+   * Opens the add/edit modal
+   * @param publisher - If provided, opens in edit mode; otherwise opens in add mode
+   */
+  const handleOpenModal = (publisher?: Publisher) => {
+    if (publisher) {
+      setEditingPublisher(publisher);
+      setFormData({
+        name: publisher.name,
+        email: publisher.email ?? '',
+        address: publisher.address ?? '',
+        phone: publisher.phone ?? '',
+        leadTimeDays: publisher.leadTimeDays,
+        minimumOrder: publisher.minimumOrder
+      });
+    } else {
+      setEditingPublisher(null);
+      setFormData(emptyFormData);
+    }
+    setError('');
+    setFieldErrors({});
+    setShowModal(true);
+  };
+
+  /**
+   * Closes the modal and resets form state
+   */
+  const handleCloseModal = () => {
+    setShowModal(false);
+    setEditingPublisher(null);
+    setFormData(emptyFormData);
+    setError('');
+    setFieldErrors({});
+  };
+
+  // ========================================
+  // FORM HANDLERS
+  // ========================================
+
+  /**
+   * Handles form input changes
+   * Converts the ordering terms to numbers
+   */
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => {
+    const { name, value } = e.target;
+    setFormData(prev => ({
+      ...prev,
+      [name]: ['leadTimeDays', 'minimumOrder'].includes(name) ? parseInt(value) || 0 : value
+    }));
+  };
+
+  /**
+   * Handles form submission for add/edit operations
+   * Empty contact fields are sent as null
+   */
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+    setFieldErrors({});
+    setIsSaving(true);
+
+    const data = {
+      ...formData,
+      email: formData.email || null,
+      address: formData.address || null,
+      phone: formData.phone || null
+    };
+
+    try {
+      if (editingPublisher) {
+        await publishersApi.update(editingPublisher.id, data);
+        setSuccess('Publisher updated successfully!');
+      } else {
+        await publishersApi.add(data);
+        setSuccess('Publisher added successfully!');
+      }
+      await loadPublishers();
+      handleCloseModal();
+    } catch (err) {
+      // Field problems go under their inputs; anything else above the form
+      const errors = fieldErrorsOf(err);
+      setFieldErrors(errors);
+      if (Object.keys(errors).length === 0) {
+        setError(err instanceof Error ? err.message : 'Failed to save publisher');
+      }
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  // ========================================
+  // ACTION HANDLERS
+  // ========================================
+
+  /**
+   * Handles publisher deletion with confirmation
+   * The API refuses publishers that still supply books or have orders
+   */
+  const handleDelete = async (publisher: Publisher) => {
+    if (!confirm(`Are you sure you want to delete "${publisher.name}"?`)) return;
+
+    try {
+      await publishersApi.delete(publisher.id);
+      setSuccess('Publisher deleted successfully!');
+      await loadPublishers();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete publisher');
+    }
+  };
+
+  if (isLoading) {
+    return <LoadingSpinner message="Loading publishers..." />;
+  }
+
+  return (
+    <div className="container-fluid py-4">
+      <div className="d-flex justify-content-between align-items-center mb-4">
+        <h2>
+          <FaBuilding className="me-2" />
+          Publisher Management
+        </h2>
+        {canWrite && (
+          <button className="btn btn-primary" onClick={() => handleOpenModal()}>
+            <FaPlus className="me-2" />
+            Add Publisher
+          </button>
+        )}
+      </div>
+
+      {error && !showModal && (
+        <div className="alert alert-danger alert-dismissible fade show" role="alert">
+          {error}
+          <button type="button" className="btn-close" onClick={() => setError('')}></button>
+        </div>
+      )}
+      {success && (
+        <div className="alert alert-success alert-dismissible fade show" role="alert">
+          {success}
+          <button type="button" className="btn-close" onClick={() => setSuccess('')}></button>
+        </div>
+      )}
+
+      {/* Search */}
+      <div className="card shadow-sm mb-4">
+        <div className="card-body">
+          <div className="input-group">
+            <span className="input-group-text"><FaSearch /></span>
+            <input
+              type="text"
+              className="form-control"
+              placeholder="Search by name or email..."
+              value={searchQuery}
+              onChange={(e) => setSearchQuery(e.target.value)}
+            />
+          </div>
+        </div>
+      </div>
+
+      {/* Publishers Table */}
+      <div className="card shadow-sm">
+        <div className="card-body">
+          <div className="table-responsive">
+            <table className="table table-hover align-middle">
+              <thead className="table-light">
+                <tr>
+                  <th>Name</th>
+                  <th>Contact</th>
+                  <th className="text-center">Lead Time</th>
+                  <th className="text-center">Minimum Order</th>
+                  <th className="text-center">Books</th>
+                  {canWrite && <th className="text-center">Actions</th>}
+                </tr>
+              </thead>
+              <tbody>
+                {filteredPublishers.map(publisher => (
+                  <tr key={publisher.id}>
+                    <td>
+                      <div className="fw-semibold">{publisher.name}</div>
+                      {publisher.address && <small className="text-muted">{publisher.address}</small>}
+                    </td>
+                    <td>
+                      <small>
+                        {publisher.email && <div><a href={`mailto:${publisher.email}`}>{publisher.email}</a></div>}
+                        {publisher.phone && <div>{publisher.phone}</div>}
+                        {!publisher.email && !publisher.phone && <span className="text-muted">—</span>}
+                      </small>
+                    </td>
+                    <td className="text-center">{publisher.leadTimeDays} day{publisher.leadTimeDays === 1 ? '' : 's'}</td>
+                    <td className="text-center">{publisher.minimumOrder}</td>
+                    <td className="text-center">{publisher.bookCount}</td>
+                    {canWrite && (
+                      <td className="text-center">
+                        <div className="btn-group btn-group-sm">
+                          <button
+                            className="btn btn-outline-primary"
+                            onClick={() => handleOpenModal(publisher)}
+                            title="Edit"
+                          >
+                            <FaEdit />
+                          </button>
+                          <button
+                            className="btn btn-outline-danger"
+                            onClick={() => handleDelete(publisher)}
+                            title={publisher.bookCount > 0 ? 'Move its books to another publisher first' : 'Delete'}
+                            disabled={publisher.bookCount > 0}
+                          >
+                            <FaTrash />
+                          </button>
+                        </div>
+                      </td>
+                    )}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          {filteredPublishers.length === 0 && (
+            <p className="text-center text-muted py-3">No publishers found</p>
+          )}
+        </div>
+      </div>
+
+      {/* Add/Edit Modal */}
+      {showModal && (
+        <div className="modal show d-block" style={{ backgroundColor: 'rgba(0,0,0,0.5)' }}>
+          <div className="modal-dialog modal-lg">
+            <div className="modal-content">
+              <div className="modal-header">
+                <h5 className="modal-title">{editingPublisher ? 'Edit Publisher' : 'Add New Publisher'}</h5>
+                <button type="button" className="btn-close" onClick={handleCloseModal}></button>
+              </div>
+              <form onSubmit={handleSubmit}>
+                <div className="modal-body">
+                  {error && <div className="alert alert-danger">{error}</div>}
+
+                  <div className="row g-3">
+                    <div className="col-md-6">
+                      <label className="form-label">Name *</label>
+                      <input
+                        type="text"
+                        className={`form-control${invalidClass(fieldErrors, 'name')}`}
+                        name="name"
+                        value={formData.name}
+                        onChange={handleChange}
+                        maxLength={100}
+                        required
+                      />
+                      <FieldError message={fieldErrors.name} />
+                    </div>
+                    <div className="col-md-6">
+                      <label className="form-label">Email</label>
+                      <input
+                        type="email"
+                        className={`form-control${invalidClass(fieldErrors, 'email')}`}
+                        name="email"
+                        value={formData.email}
+                        onChange={handleChange}
+                        maxLength={255}
+                        placeholder="Where orders are sent"
+                      />
+                      <FieldError message={fieldErrors.email} />
+                    </div>
+                    <div className="col-md-8">
+                      <label className="form-label">Address</label>
+                      <textarea
+                        className={`form-control${invalidClass(fieldErrors, 'address')}`}
+                        name="address"
+                        value={formData.address}
+                        onChange={handleChange}
+                        rows={2}
+                        maxLength={500}
+                      />
+                      <FieldError message={fieldErrors.address} />
+                    </div>
+                    <div className="col-md-4">
+                      <label className="form-label">Phone</label>
+                      <input
+                        type="tel"
+                        className={`form-control${invalidClass(fieldErrors, 'phone')}`}
+                        name="phone"
+                        value={formData.phone}
+                        onChange={handleChange}
+                        maxLength={20}
+                      />
+                      <FieldError message={fieldErrors.phone} />
+                    </div>
+                    <div className="col-md-6">
+                      <label className="form-label">Lead Time (days) *</label>
+                      <input
+                        type="number"
+                        className={`form-control${invalidClass(fieldErrors, 'leadTimeDays')}`}
+                        name="leadTimeDays"
+                        value={formData.leadTimeDays}
+                        onChange={handleChange}
+                        min="0"
+                        max="365"
+                        required
+                      />
+                      <FieldError message={fieldErrors.leadTimeDays} />
+                      <div className="form-text">Days from placing an order to receiving the stock.</div>
+                    </div>
+                    <div className="col-md-6">
+                      <label className="form-label">Minimum Order *</label>
+                      <input
+                        type="number"
+                        className={`form-control${invalidClass(fieldErrors, 'minimumOrder')}`}
+                        name="minimumOrder"
+                        value={formData.minimumOrder}
+                        onChange={handleChange}
+                        min="1"
+                        required
+                      />
+                      <FieldError message={fieldErrors.minimumOrder} />
+                      <div className="form-text">Fewest copies per order; automatic reorders order at least this many.</div>
+                    </div>
+                  </div>
+                </div>
+                <div className="modal-footer">
+                  <button type="button" className="btn btn-secondary" onClick={handleCloseModal}>
+                    Cancel
+                  </button>
+                  <button type="submit" className="btn btn-primary" disabled={isSaving}>
+                    {isSaving ? (
+                      <>
+                        <span className="spinner-border spinner-border-sm me-2" />
+                        Saving...
+                      </>
+                    ) : (
+                      editingPublisher ? 'Update Publisher' : 'Add Publisher'
+                    )}
+                  </button>
+                </div>
+              </form>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PublisherManagement;
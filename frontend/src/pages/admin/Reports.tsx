@@ -31,7 +31,12 @@
  *    - Number of publisher orders for a specific book
  *    - Helps analyze replenishment patterns
  * 
- * ACCESS: Admin users only (protected by ProtectedRoute)
+ * 6. PRICE CHANGES
+ *    - Books whose price changed between two dates
+ *    - Copies sold and revenue at each price, and sales per day, so a
+ *      change in revenue can be put down to a price change (or not)
+ *  
+ * ACCESS: Users with 'reports:read' - admins and managers (via ProtectedRoute)
  * 
  * @author Bookstore Development Team
  * @version 1.0.0
@@ -47,6 +52,7 @@ import {
   BookSalesReport,   // Top selling books data
   TopCustomer,       // Top customers data
   BookOrderCount,    // Book order count data
+  PricePeriodReport, // Sales at each price of repriced books
   Book               // Book type for dropdown
 } from '../../types';
 
@@ -56,6 +62,12 @@ import { reportsApi, booksApi } from '../../services/api';
 // Shared UI component for loading state
 import { LoadingSpinner } from '../../components';
 
+// Format names, to tell editions of the same title apart
+import { FORMAT_LABELS } from 'bookstore-shared/editions';
+
+// Hyphenated ISBNs in the report tables
+import { formatIsbn } from 'bookstore-shared/isbn';
+
 // Icons for visual enhancement
 import { 
   FaChartBar,     // Reports/charts icon
@@ -63,7 +75,8 @@ import {
   FaUsers,        // Customers icon
   FaBook,         // Books icon
   FaTruck,        // Orders/shipping icon
-  FaDollarSign    // Money/sales icon
+  FaDollarSign,   // Money/sales icon
+  FaTags          // Prices icon
 } from 'react-icons/fa';
 
 /**
@@ -89,11 +102,18 @@ const Reports: React.FC = () => {
   const [topCustomers, setTopCustomers] = useState<TopCustomer[]>([]);
   const [topBooks, setTopBooks] = useState<BookSalesReport[]>([]);
   const [bookOrderCount, setBookOrderCount] = useState<BookOrderCount | null>(null);
+  const [pricePeriods, setPricePeriods] = useState<PricePeriodReport[] | null>(null);
   
   // Form input state for interactive reports
   const [selectedDate, setSelectedDate] = useState(new Date().toISOString().split('T')[0]); // Today's date
   const [selectedBook, setSelectedBook] = useState('');   // Selected book ISBN
   const [books, setBooks] = useState<Book[]>([]);         // Books for dropdown
+  const [priceRange, setPriceRange] = useState(() => {    // Price change report dates (last 3 months)
+    const start = new Date();
+    start.setMonth(start.getMonth() - 3);
+    return { startDate: start.toISOString().split('T')[0], endDate: new Date().toISOString().split('T')[0] };
+  });
+  const [priceError, setPriceError] = useState('');       // Problem with the price report dates
 
   // ========================================
   // DATA LOADING
@@ -115,9 +135,10 @@ const Reports: React.FC = () => {
 
   /**
    * Loads books for the book selection dropdown
+   * Archived books are included: their orders still count
    */
   const loadBooks = async () => {
-    const data = await booksApi.getAll();
+    const data = await booksApi.search('', { archived: 'include' });
     setBooks(data);
   };
 
@@ -185,6 +206,23 @@ const Reports: React.FC = () => {
     }
   };
 
+  /**
+   * Loads sales at each price for the selected dates
+   * Called when user clicks "Get Report" on the Price Changes tab
+   */
+  const loadPricePeriods = async () => {
+    setPriceError('');
+    setIsLoading(true);
+    try {
+      const data = await reportsApi.getPricePeriods(priceRange.startDate, priceRange.endDate);
+      setPricePeriods(data);
+    } catch (error) {
+      setPriceError(error instanceof Error ? error.message : 'Failed to load the report');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
   // ========================================
   // RENDER FUNCTIONS FOR EACH REPORT
   // ========================================
@@ -382,8 +420,11 @@ const Reports: React.FC = () => {
                               {index + 1}
                             </span>
                           </td>
-                          <td><small>{book.isbn}</small></td>
-                          <td>{book.title}</td>
+                          <td><small>{formatIsbn(book.isbn)}</small></td>
+                          <td>
+                            {book.title}
+                            {book.format && <small className="text-muted ms-2">{FORMAT_LABELS[book.format]}</small>}
+                          </td>
                           <td className="text-center fw-bold">{book.copiesSold}</td>
                           <td className="text-end text-success">
                             ${book.totalRevenue.toFixed(2)}
@@ -425,7 +466,7 @@ const Reports: React.FC = () => {
                       {/* Populate dropdown with all books */}
                       {books.map(book => (
                         <option key={book.isbn} value={book.isbn}>
-                          {book.title}
+                          {book.title} - {FORMAT_LABELS[book.format]}
                         </option>
                       ))}
                     </select>
@@ -447,8 +488,11 @@ const Reports: React.FC = () => {
                   <div className="col-md-6 mb-3">
                     <div className="p-3 bg-light rounded">
                       <h6 className="text-muted">Book</h6>
-                      <p className="h5 mb-0">{bookOrderCount.title}</p>
-                      <small className="text-muted">{bookOrderCount.isbn}</small>
+                      <p className="h5 mb-0">
+                        {bookOrderCount.title}
+                        {bookOrderCount.format && <small className="text-muted ms-2">{FORMAT_LABELS[bookOrderCount.format]}</small>}
+                      </p>
+                      <small className="text-muted">{formatIsbn(bookOrderCount.isbn)}</small>
                     </div>
                   </div>
                   {/* Order count card */}
@@ -466,6 +510,96 @@ const Reports: React.FC = () => {
           </div>
         );
 
+      // ========== Price Changes Report ==========
+      case 'pricePeriods':
+        return (
+          <div className="card shadow-sm">
+            <div className="card-header bg-dark text-white">
+              <h5 className="mb-0">
+                <FaTags className="me-2" />
+                Sales by Price
+              </h5>
+            </div>
+            <div className="card-body">
+              {/* Date range form */}
+              <div className="row g-2 mb-4 align-items-end">
+                <div className="col-md-4">
+                  <label className="form-label" htmlFor="price-start">From</label>
+                  <input
+                    type="date"
+                    id="price-start"
+                    className="form-control"
+                    value={priceRange.startDate}
+                    onChange={(e) => setPriceRange({ ...priceRange, startDate: e.target.value })}
+                  />
+                </div>
+                <div className="col-md-4">
+                  <label className="form-label" htmlFor="price-end">To</label>
+                  <input
+                    type="date"
+                    id="price-end"
+                    className="form-control"
+                    value={priceRange.endDate}
+                    onChange={(e) => setPriceRange({ ...priceRange, endDate: e.target.value })}
+                  />
+                </div>
+                <div className="col-md-4">
+                  <button className="btn btn-primary" onClick={loadPricePeriods}>
+                    Get Report
+                  </button>
+                </div>
+              </div>
+              {priceError && <div className="alert alert-danger">{priceError}</div>}
+
+              {/* One table per book, a row per price */}
+              {pricePeriods === null ? (
+                <p className="text-muted text-center">Choose dates to compare sales before and after price changes</p>
+              ) : pricePeriods.length === 0 ? (
+                <p className="text-muted text-center">No prices changed in this period</p>
+              ) : (
+                pricePeriods.map(report => (
+                  <div key={report.isbn} className="mb-4">
+                    <h6>
+                      {report.title}
+                      <small className="text-muted ms-2">{FORMAT_LABELS[report.format]} · {formatIsbn(report.isbn)}</small>
+                    </h6>
+                    <div className="table-responsive">
+                      <table className="table table-sm table-striped">
+                        <thead className="table-light">
+                          <tr>
+                            <th className="text-end">Price</th>
+                            <th>From</th>
+                            <th>To</th>
+                            <th className="text-end">Days</th>
+                            <th className="text-end">Copies Sold</th>
+                            <th className="text-end">Copies / Day</th>
+                            <th className="text-end">Revenue</th>
+                          </tr>
+                        </thead>
+                        <tbody>
+                          {report.periods.map(period => (
+                            <tr key={period.from}>
+                              <td className="text-end">${period.price.toFixed(2)}</td>
+                              <td>{new Date(period.from).toLocaleString()}</td>
+                              <td>{new Date(period.to).toLocaleString()}</td>
+                              <td className="text-end">{period.days.toFixed(1)}</td>
+                              <td className="text-end">{period.copiesSold}</td>
+                              <td className="text-end">
+                                {period.days > 0 ? (period.copiesSold / period.days).toFixed(2) : '-'}
+                              </td>
+                              <td className="text-end text-success">${period.revenue.toFixed(2)}</td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    </div>
+                  </div>
+                ))
+              )}
+            </div>
+          </div>
+        );
+
       // Default case - should never reach here
       default:
         return null;
@@ -536,6 +670,16 @@ const Reports: React.FC = () => {
             Book Orders
           </button>
         </li>
+        {/* Price Changes Tab */}
+        <li className="nav-item">
+          <button
+            className={`nav-link ${activeTab === 'pricePeriods' ? 'active' : ''}`}
+            onClick={() => setActiveTab('pricePeriods')}
+          >
+            <FaTags className="me-1" />
+            Price Changes
+          </button>
+        </li>
       </ul>
 
       {/* Report Content - rendered based on active tab */}
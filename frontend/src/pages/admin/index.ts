@@ -1,13 +1,14 @@
 /**
  * @fileoverview Admin Pages Barrel Export
  * 
- * Re-exports all admin-only page components.
- * These pages are protected and only accessible to users with 'admin' role.
+ * Re-exports all staff page components.
+ * These pages are protected and only accessible to staff (admin and manager
+ * roles), each behind its own permission (see utils/permissions.ts).
  * 
  * @module pages/admin
  * 
  * @example
- * import { Dashboard, BookManagement, OrderManagement, Reports } from './admin';
+ * import { Dashboard, BookManagement, CategoryManagement, AuthorManagement, PublisherManagement, OrderManagement, Reports } from './admin';
  */
 
 /** Dashboard - Admin overview with key business metrics and statistics */
@@ -16,6 +17,15 @@ export { default as Dashboard } from './Dashboard';
 /** BookManagement - CRUD operations for book inventory */
 export { default as BookManagement } from './BookManagement';
 
+/** CategoryManagement - Edit the category tree (names, slugs, colors, order) */
+export { default as CategoryManagement } from './CategoryManagement';
+
+/** AuthorManagement - Edit authors and merge duplicates */
+export { default as AuthorManagement } from './AuthorManagement';
+
+/** PublisherManagement - Publishers' contacts and ordering terms */
+export { default as PublisherManagement } from './PublisherManagement';
+
 /** OrderManagement - Manage publisher stock replenishment orders */
 export { default as OrderManagement } from './OrderManagement';
 
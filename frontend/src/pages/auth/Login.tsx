@@ -21,8 +21,8 @@
  * - Other users go to their original destination or home page
  * 
  * DEMO CREDENTIALS (for testing):
- * - Admin: username: admin, password: admin123
- * - Customer: username: john_doe, password: password123
+ * - Admin: username: admin, password: admin
+ * - Customer: username: john_doe, password: password
  * 
  * ACCESS: Public (unauthenticated users only - redirect if logged in)
  * 
@@ -40,6 +40,9 @@ import { Link, useNavigate, useLocation } from 'react-router-dom';
 // Auth context for login functionality
 import { useAuth } from '../../context/AuthContext';
 
+// Landing page by role (dashboard for staff)
+import { homePathFor } from '../../utils';
+
 // Icons for visual enhancement
 import { FaBook, FaUser, FaLock, FaArrowRight } from 'react-icons/fa';
 
@@ -98,12 +101,8 @@ const Login: React.FC = () => {
       const user = await login({ username, password });
       
       // Redirect based on user role
-      // Admin users go to dashboard, customers to their intended page
-      if (user?.role === 'admin') {
-        navigate('/admin/dashboard', { replace: true });
-      } else {
-        navigate(from, { replace: true });
-      }
+      // Staff (admin, manager) go to dashboard, customers to their intended page
+      navigate(homePathFor(user, from), { replace: true });
     } catch (err) {
       // Display error message
       setError(err instanceof Error ? err.message : 'Login failed');
@@ -18,16 +18,18 @@
  * - Last Name
  * - Username (unique)
  * - Email
- * - Password (min 6 characters)
+ * - Password (see utils/passwordPolicy)
  * - Confirm Password
  * - Phone
  * - Shipping Address
  * 
  * VALIDATION RULES:
- * - Password must be at least 6 characters
+ * - Password must satisfy the password policy (8+ characters,
+ *   a letter and a digit, not containing the username)
  * - Password and Confirm Password must match
  * - All fields are required
  * - Email must be valid format
+ * - Field errors from the API (e.g. username taken) show under each input
  * 
  * ACCESS: Public (new users only - redirect if logged in)
  * 
@@ -45,6 +47,15 @@ import { Link, useNavigate } from 'react-router-dom';
 // Auth context for registration functionality
 import { useAuth } from '../../context/AuthContext';
 
+// Password strength rules shared with EditProfile
+import { checkPasswordPolicy, PASSWORD_REQUIREMENTS } from '../../utils';
+
+// Per-field messages from API validation errors
+import { fieldErrorsOf } from '../../services/api';
+
+// Inline validation message
+import { FieldError, invalidClass } from '../../components';
+
 // Icons for visual enhancement
 import { FaBook, FaUser, FaLock, FaEnvelope, FaPhone, FaMapMarkerAlt, FaArrowRight } from 'react-icons/fa';
 
@@ -73,6 +84,7 @@ const Register: React.FC = () => {
   
   // UI state
   const [error, setError] = useState('');
+  const [fieldErrors, setFieldErrors] = useState<Record<string, string>>({});  // Inline messages by field
   const [isLoading, setIsLoading] = useState(false);
 
   // ========================================
@@ -107,16 +119,18 @@ const Register: React.FC = () => {
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setError('');
+    setFieldErrors({});
 
     // Validation: Check password confirmation
     if (formData.password !== formData.confirmPassword) {
-      setError('Passwords do not match');
+      setFieldErrors({ confirmPassword: 'Passwords do not match' });
       return;
     }
 
-    // Validation: Check password length
-    if (formData.password.length < 6) {
-      setError('Password must be at least 6 characters');
+    // Validation: Check password strength
+    const passwordError = checkPasswordPolicy(formData.password, formData.username);
+    if (passwordError) {
+      setFieldErrors({ password: passwordError });
       return;
     }
 
@@ -136,7 +150,12 @@ const Register: React.FC = () => {
       // Redirect to home page after successful registration
       navigate('/');
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'Registration failed');
+      // Invalid fields are shown next to their inputs; anything else above the form
+      const errors = fieldErrorsOf(err);
+      setFieldErrors(errors);
+      if (Object.keys(errors).length === 0) {
+        setError(err instanceof Error ? err.message : 'Registration failed');
+      }
     } finally {
       setIsLoading(false);
     }
@@ -222,7 +241,7 @@ const Register: React.FC = () => {
                       <label htmlFor="firstName" className="form-label fw-medium" style={{ color: '#475569' }}>First Name</label>
                       <input
                         type="text"
-                        className="form-control"
+                        className={`form-control${invalidClass(fieldErrors, 'firstName')}`}
                         id="firstName"
                         name="firstName"
                         value={formData.firstName}
@@ -230,12 +249,13 @@ const Register: React.FC = () => {
                         style={inputStyle}
                         required
                       />
+                      <FieldError message={fieldErrors.firstName} />
                     </div>
                     <div className="col-md-6 mb-3">
                       <label htmlFor="lastName" className="form-label fw-medium" style={{ color: '#475569' }}>Last Name</label>
                       <input
                         type="text"
-                        className="form-control"
+                        className={`form-control${invalidClass(fieldErrors, 'lastName')}`}
                         id="lastName"
                         name="lastName"
                         value={formData.lastName}
@@ -243,6 +263,7 @@ const Register: React.FC = () => {
                         style={inputStyle}
                         required
                       />
+                      <FieldError message={fieldErrors.lastName} />
                     </div>
                   </div>
 
@@ -253,7 +274,7 @@ const Register: React.FC = () => {
                       <span className="input-group-text border-0" style={inputGroupStyle}><FaUser /></span>
                       <input
                         type="text"
-                        className="form-control border-0"
+                        className={`form-control border-0${invalidClass(fieldErrors, 'username')}`}
                         id="username"
                         name="username"
                         value={formData.username}
@@ -262,6 +283,7 @@ const Register: React.FC = () => {
                         required
                       />
                     </div>
+                    <FieldError message={fieldErrors.username} />
                   </div>
 
                   {/* Email Field with Icon */}
@@ -271,7 +293,7 @@ const Register: React.FC = () => {
                       <span className="input-group-text border-0" style={inputGroupStyle}><FaEnvelope /></span>
                       <input
                         type="email"
-                        className="form-control border-0"
+                        className={`form-control border-0${invalidClass(fieldErrors, 'email')}`}
                         id="email"
                         name="email"
                         value={formData.email}
@@ -280,6 +302,7 @@ const Register: React.FC = () => {
                         required
                       />
                     </div>
+                    <FieldError message={fieldErrors.email} />
                   </div>
 
                   {/* Password Fields - Side by Side */}
@@ -290,7 +313,7 @@ const Register: React.FC = () => {
                         <span className="input-group-text border-0" style={inputGroupStyle}><FaLock /></span>
                         <input
                           type="password"
-                          className="form-control border-0"
+                          className={`form-control border-0${invalidClass(fieldErrors, 'password')}`}
                           id="password"
                           name="password"
                           value={formData.password}
@@ -299,6 +322,8 @@ const Register: React.FC = () => {
                           required
                         />
                       </div>
+                      <FieldError message={fieldErrors.password} />
+                      <small style={{ color: '#94a3b8' }}>{PASSWORD_REQUIREMENTS}</small>
                     </div>
                     <div className="col-md-6 mb-3">
                       <label htmlFor="confirmPassword" className="form-label fw-medium" style={{ color: '#475569' }}>Confirm Password</label>
@@ -306,7 +331,7 @@ const Register: React.FC = () => {
                         <span className="input-group-text border-0" style={inputGroupStyle}><FaLock /></span>
                         <input
                           type="password"
-                          className="form-control border-0"
+                          className={`form-control border-0${invalidClass(fieldErrors, 'confirmPassword')}`}
                           id="confirmPassword"
                           name="confirmPassword"
                           value={formData.confirmPassword}
@@ -315,6 +340,7 @@ const Register: React.FC = () => {
                           required
                         />
                       </div>
+                      <FieldError message={fieldErrors.confirmPassword} />
                     </div>
                   </div>
 
@@ -324,7 +350,7 @@ const Register: React.FC = () => {
                       <span className="input-group-text border-0" style={inputGroupStyle}><FaPhone /></span>
                       <input
                         type="tel"
-                        className="form-control border-0"
+                        className={`form-control border-0${invalidClass(fieldErrors, 'phone')}`}
                         id="phone"
                         name="phone"
                         value={formData.phone}
@@ -333,6 +359,7 @@ const Register: React.FC = () => {
                         required
                       />
                     </div>
+                    <FieldError message={fieldErrors.phone} />
                   </div>
 
                   <div className="mb-4">
@@ -340,7 +367,7 @@ const Register: React.FC = () => {
                     <div className="input-group">
                       <span className="input-group-text border-0 align-items-start pt-3" style={inputGroupStyle}><FaMapMarkerAlt /></span>
                       <textarea
-                        className="form-control border-0"
+                        className={`form-control border-0${invalidClass(fieldErrors, 'shippingAddress')}`}
                         id="shippingAddress"
                         name="shippingAddress"
                         value={formData.shippingAddress}
@@ -350,6 +377,7 @@ const Register: React.FC = () => {
                         required
                       />
                     </div>
+                    <FieldError message={fieldErrors.shippingAddress} />
                   </div>
 
                   <div className="d-grid">
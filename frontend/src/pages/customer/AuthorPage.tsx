@@ -0,0 +1,147 @@
+/**
+ * ============================================================================
+ * AUTHOR PAGE
+ * ============================================================================
+ *
+ * Public page for a single author, reached from the author links on book
+ * cards (/authors/:id).
+ *
+ * FEATURES:
+ * - Author name, other names the author is published under, and bio
+ * - Grid of every book credited to the author
+ * - Not-found message for unknown or merged authors
+ *
+ * DATA FLOW:
+ * 1. Read the author ID from the URL
+ * 2. Fetch the author and their books (booksApi.search with authorId)
+ * 3. Render books with the shared BookCard
+ *
+ * @author Bookstore Development Team
+ * @version 1.0.0
+ * ============================================================================
+ */
+
+// React imports for state and lifecycle management
+import React, { useState, useEffect } from 'react';
+
+// Router hooks and components for the URL parameter and links
+import { useParams, Link } from 'react-router-dom';
+
+// Type imports
+import { Author, Book } from '../../types';
+
+// API services for the author and their books
+import { authorsApi, booksApi } from '../../services/api';
+
+// Reusable components
+import { BookCard, LoadingSpinner } from '../../components';
+
+// Icons for visual enhancement
+import { FaUserEdit, FaArrowLeft } from 'react-icons/fa';
+
+/**
+ * AuthorPage Component
+ *
+ * Renders an author's details and books.
+ */
+const AuthorPage: React.FC = () => {
+  // Author ID from the /authors/:id route
+  const { id = '' } = useParams<{ id: string }>();
+
+  // ========================================
+  // STATE MANAGEMENT
+  // ========================================
+
+  const [author, setAuthor] = useState<Author | undefined>();
+  const [books, setBooks] = useState<Book[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  // ========================================
+  // DATA LOADING
+  // ========================================
+
+  /**
+   * Effect: Load the author and their books whenever the ID changes
+   */
+  useEffect(() => {
+    const loadAuthor = async () => {
+      setIsLoading(true);
+      try {
+        const [authorData, bookData] = await Promise.all([
+          authorsApi.getById(id),
+          booksApi.search('', { authorId: id })
+        ]);
+        setAuthor(authorData);
+        setBooks(bookData);
+      } catch (error) {
+        console.error('Failed to load author:', error);
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    loadAuthor();
+  }, [id]);
+
+  if (isLoading) {
+    return <LoadingSpinner message="Loading author..." />;
+  }
+
+  // Unknown ID, or an author merged into another
+  if (!author) {
+    return (
+      <div className="container py-5 text-center">
+        <h2 className="fw-bold mb-3">Author not found</h2>
+        <p className="text-muted mb-4">This author may have been merged with another author.</p>
+        <Link to="/books" className="btn btn-primary rounded-pill px-4">
+          Browse Books
+        </Link>
+      </div>
+    );
+  }
+
+  return (
+    <div className="container py-5">
+      <Link to="/books" className="text-decoration-none d-inline-flex align-items-center mb-4">
+        <FaArrowLeft className="me-2" />
+        Back to books
+      </Link>
+
+      {/* Author Details */}
+      <div className="card border-0 shadow-sm mb-5" style={{ borderRadius: '16px' }}>
+        <div className="card-body p-4">
+          <h1 className="fw-bold mb-2">
+            <FaUserEdit className="me-2" style={{ color: 'var(--primary-color)' }} />
+            {author.name}
+          </h1>
+          {author.aliases.length > 0 && (
+            <p className="text-muted mb-3">Also published as {author.aliases.join(', ')}</p>
+          )}
+          {author.bio ? (
+            <p className="mb-0" style={{ whiteSpace: 'pre-line' }}>{author.bio}</p>
+          ) : (
+            <p className="text-muted fst-italic mb-0">No biography yet.</p>
+          )}
+        </div>
+      </div>
+
+      {/* Books by the Author */}
+      <h2 className="fw-bold mb-4">
+        Books by {author.name} <span className="text-muted fs-5">({books.length})</span>
+      </h2>
+      {books.length > 0 ? (
+        <div className="row row-cols-1 row-cols-sm-2 row-cols-md-3 row-cols-lg-4 g-4">
+          {books.map(book => (
+            <div className="col" key={book.isbn}>
+              <BookCard book={book} />
+            </div>
+          ))}
+        </div>
+      ) : (
+        <p className="text-muted">No books by this author are in the catalog.</p>
+      )}
+    </div>
+  );
+};
+
+export default AuthorPage;
@@ -0,0 +1,498 @@
+/**
+ * ============================================================================
+ * BOOK DETAIL PAGE
+ * ============================================================================
+ *
+ * Public page for a single book (/books/:isbn), reached from book cards and
+ * lists, and linkable on its own. The ISBN may be written in any form
+ * (e.g. /books/0-13-468599-7); the page shows it as hyphenated ISBN-13.
+ *
+ * FEATURES:
+ * - Cover, title, authors (linked to their pages) and categories
+ * - Format picker: each edition of the work (hardcover, paperback, ebook,
+ *   audiobook) with its price and stock, linking to its own page
+ * - Description, and details: ISBN, format, publisher, publication year,
+ *   pages, language, edition, size and weight (those known)
+ * - Tags, each linking to the catalog filtered by it
+ * - Stock status, and a quantity selector with Add to Cart (archived books,
+ *   still reachable from orders, show as no longer available instead)
+ * - "Customers also bought": books bought with this one, or by the same
+ *   authors or in the same categories while there are few orders
+ * - Other books by the same authors (those not already recommended)
+ * - Supplier terms of the publisher for staff who may see publishers
+ * - Not-found state for unknown or invalid ISBNs
+ *
+ * DATA FLOW:
+ * 1. Read the ISBN from the URL and fetch the book (booksApi.getByIsbn)
+ * 2. Fetch the work's editions (booksApi.search with workId), each
+ *    author's books (booksApi.search with authorId), the recommendations
+ *    (booksApi.getRecommendations) and, for staff, the publisher
+ *    (publishersApi.getById)
+ * 3. Add to Cart sends the chosen quantity (useCart)
+ *
+ * @author Bookstore Development Team
+ * @version 1.0.0
+ * ============================================================================
+ */
+
+// React imports for state and lifecycle management
+import React, { useState, useEffect } from 'react';
+
+// Router hooks and components for the URL parameter, links and redirects
+import { useParams, useNavigate, Link } from 'react-router-dom';
+
+// Type imports
+import { Book, BookRecommendation, Publisher } from '../../types';
+
+// API services for the book, related books and the publisher
+import { booksApi, publishersApi } from '../../services/api';
+
+// Reusable components
+import { BookCard, LoadingSpinner, RecommendedBooks } from '../../components';
+
+// Context hooks for the user and the cart
+import { useAuth } from '../../context/AuthContext';
+import { useCart } from '../../context/CartContext';
+
+// Permission check for publisher details
+import { usePermission } from '../../hooks';
+
+// Badge colors from the category's own color
+import { categoryBadgeStyle } from '../../utils';
+
+// Full-size covers, and the stand-in for books without a cover
+import { coverUrl, placeholderCover } from 'bookstore-shared/covers';
+
+// Format names, and grouping related books into works
+import { FORMAT_LABELS, groupEditions } from 'bookstore-shared/editions';
+
+// Wording of language, size and weight
+import { languageName, formatDimensions, formatWeight } from 'bookstore-shared/bookDetails';
+
+// The ISBN row, hyphenated for reading
+import { formatIsbn } from 'bookstore-shared/isbn';
+
+// Icons for visual enhancement
+import { FaArrowLeft, FaShoppingCart, FaMinus, FaPlus, FaTruck } from 'react-icons/fa';
+
+/** Most related works shown under the details */
+const MAX_RELATED_BOOKS = 8;
+
+/**
+ * BookDetail Component
+ *
+ * Renders a book's details, purchase controls and related books.
+ */
+const BookDetail: React.FC = () => {
+  // ISBN from the /books/:isbn route
+  const { isbn = '' } = useParams<{ isbn: string }>();
+
+  // ========================================
+  // HOOKS AND CONTEXT
+  // ========================================
+
+  const { user, isAuthenticated } = useAuth();
+  const { addToCart } = useCart();
+  const canSeePublishers = usePermission('publishers:read');
+  const navigate = useNavigate();
+
+  // ========================================
+  // STATE MANAGEMENT
+  // ========================================
+
+  const [book, setBook] = useState<Book | undefined>();
+  const [editions, setEditions] = useState<Book[]>([]);          // Every edition of the book's work
+  const [relatedWorks, setRelatedWorks] = useState<Book[][]>([]); // Other works by the same authors
+  const [recommendations, setRecommendations] = useState<BookRecommendation[]>([]);
+  const [publisher, setPublisher] = useState<Publisher | undefined>(); // Staff only
+  const [isLoading, setIsLoading] = useState(true);
+
+  // Purchase state
+  const [quantity, setQuantity] = useState(1);
+  const [addingToCart, setAddingToCart] = useState(false);
+  const [cartMessage, setCartMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+
+  // ========================================
+  // DATA LOADING
+  // ========================================
+
+  /**
+   * Effect: Load the book whenever the ISBN changes, then its related data
+   */
+  useEffect(() => {
+    const loadBook = async () => {
+      setIsLoading(true);
+      setQuantity(1);
+      setCartMessage(null);
+      setEditions([]);
+      setRelatedWorks([]);
+      setRecommendations([]);
+      setPublisher(undefined);
+      try {
+        const bookData = await booksApi.getByIsbn(isbn);
+        setBook(bookData);
+        if (!bookData) return;
+
+        const [recommended, workEditions, ...byAuthor] = await Promise.all([
+          booksApi.getRecommendations(bookData.isbn),
+          booksApi.search('', { workId: bookData.workId }),
+          ...bookData.authors.map(author => booksApi.search('', { authorId: author.id }))
+        ]);
+        setEditions(groupEditions(workEditions)[0] ?? [bookData]);
+        setRecommendations(recommended);
+
+        // Other works by any of the authors, each listed once with its
+        // editions, leaving out works already recommended
+        const recommendedWorks = new Set(recommended.map(r => r.book.workId));
+        const related = new Map<string, Book>();
+        byAuthor.flat().forEach(other => {
+          if (other.workId !== bookData.workId && !recommendedWorks.has(other.workId)) {
+            related.set(other.isbn, other);
+          }
+        });
+        setRelatedWorks(groupEditions([...related.values()]).slice(0, MAX_RELATED_BOOKS));
+
+        if (canSeePublishers && bookData.publisherId) {
+          setPublisher(await publishersApi.getById(bookData.publisherId));
+        }
+      } catch (error) {
+        console.error('Failed to load book:', error);
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    loadBook();
+  }, [isbn, canSeePublishers]);
+
+  // ========================================
+  // EVENT HANDLERS
+  // ========================================
+
+  /**
+   * Adds the chosen quantity to the cart
+   * Redirects to login if not authenticated
+   */
+  const handleAddToCart = async () => {
+    if (!book) return;
+    if (!isAuthenticated) {
+      navigate('/login');
+      return;
+    }
+
+    setAddingToCart(true);
+    setCartMessage(null);
+    try {
+      await addToCart(book.isbn, quantity);
+      setCartMessage({ type: 'success', text: `Added ${quantity} ${quantity === 1 ? 'copy' : 'copies'} to your cart.` });
+    } catch (error) {
+      setCartMessage({ type: 'error', text: error instanceof Error ? error.message : 'Failed to add to cart' });
+    } finally {
+      setAddingToCart(false);
+    }
+  };
+
+  /**
+   * Keeps the quantity between 1 and the copies in stock
+   * @param value - Requested quantity
+   */
+  const changeQuantity = (value: number) => {
+    if (!book) return;
+    setQuantity(Math.min(Math.max(1, Math.floor(value) || 1), Math.max(1, book.quantity)));
+  };
+
+  if (isLoading) {
+    return <LoadingSpinner message="Loading book..." />;
+  }
+
+  // Unknown or invalid ISBN
+  if (!book) {
+    return (
+      <div className="container py-5 text-center">
+        <h1 className="display-4 fw-bold text-muted mb-3">404</h1>
+        <h2 className="fw-bold mb-3">Book not found</h2>
+        <p className="text-muted mb-4">
+          There is no book with ISBN <code>{isbn}</code> in the catalog.
+        </p>
+        <Link to="/books" className="btn btn-primary rounded-pill px-4">
+          Browse Books
+        </Link>
+      </div>
+    );
+  }
+
+  // Customers and visitors may buy books still for sale; staff only look
+  const canBuy = (!user || user.role === 'customer') && !book.archivedAt;
+  const isLowStock = book.quantity > 0 && book.quantity <= book.threshold;
+  const dimensions = formatDimensions(book);
+
+  return (
+    <div className="container py-5">
+      <Link to="/books" className="text-decoration-none d-inline-flex align-items-center mb-4">
+        <FaArrowLeft className="me-2" />
+        Back to books
+      </Link>
+
+      <div className="row g-5 mb-5">
+        {/* Cover */}
+        <div className="col-md-4">
+          <img
+            src={coverUrl(book.imageUrl, 'detail') ?? placeholderCover(book.title)}
+            alt={book.title}
+            className="img-fluid w-100 shadow-sm"
+            style={{ borderRadius: '16px', objectFit: 'cover', aspectRatio: '2 / 3' }}
+            onError={(e) => {
+              // Placeholder when the cover cannot be loaded
+              e.currentTarget.src = placeholderCover(book.title);
+            }}
+          />
+        </div>
+
+        {/* Details and purchase */}
+        <div className="col-md-8">
+          <div className="d-flex flex-wrap gap-2 mb-3">
+            {book.categories.map(category => (
+              <Link
+                key={category.id}
+                to={`/books?category=${encodeURIComponent(category.slug)}`}
+                className="badge rounded-pill px-3 py-2 text-decoration-none"
+                style={categoryBadgeStyle(category.color)}
+              >
+                {category.name}
+              </Link>
+            ))}
+          </div>
+
+          <h1 className="fw-bold mb-2">{book.title}</h1>
+          <p className="fs-5 text-muted mb-4">
+            by {book.authors.map((author, index) => (
+              <React.Fragment key={author.id}>
+                {index > 0 && ', '}
+                <Link to={`/authors/${author.id}`}>{author.name}</Link>
+              </React.Fragment>
+            ))}
+          </p>
+
+          {/* Formats of the work; each edition has its own page, price and stock */}
+          {editions.length > 1 && (
+            <div className="d-flex flex-wrap gap-2 mb-4" role="group" aria-label="Format">
+              {editions.map(edition => (
+                <Link
+                  key={edition.isbn}
+                  to={`/books/${edition.isbn}`}
+                  replace
+                  className={`btn text-start px-3 py-2 ${edition.isbn === book.isbn ? 'btn-primary' : 'btn-outline-secondary'}`}
+                  aria-current={edition.isbn === book.isbn ? 'page' : undefined}
+                >
+                  <span className="d-block fw-semibold">{FORMAT_LABELS[edition.format]}</span>
+                  <small>
+                    ${edition.sellingPrice.toFixed(2)}
+                    {edition.quantity === 0 && ' • Out of stock'}
+                  </small>
+                </Link>
+              ))}
+            </div>
+          )}
+
+          <div className="d-flex align-items-center gap-3 mb-4">
+            <span className="display-6 fw-bold" style={{ color: 'var(--primary-color)' }}>
+              ${book.sellingPrice.toFixed(2)}
+            </span>
+            {book.archivedAt ? (
+              <span className="badge bg-secondary-subtle text-secondary-emphasis rounded-pill px-3 py-2">
+                No longer available
+              </span>
+            ) : book.quantity === 0 ? (
+              <span className="badge bg-danger-subtle text-danger rounded-pill px-3 py-2">Out of stock</span>
+            ) : isLowStock ? (
+              <span className="badge bg-warning-subtle text-warning-emphasis rounded-pill px-3 py-2">
+                Only {book.quantity} left
+              </span>
+            ) : (
+              <span className="badge bg-success-subtle text-success rounded-pill px-3 py-2">
+                {book.quantity} in stock
+              </span>
+            )}
+          </div>
+
+          {canBuy && (
+            <div className="mb-4">
+              <div className="d-flex align-items-center gap-3">
+                <div className="input-group" style={{ width: '140px' }}>
+                  <button
+                    type="button"
+                    className="btn btn-outline-secondary"
+                    onClick={() => changeQuantity(quantity - 1)}
+                    disabled={quantity <= 1 || book.quantity === 0}
+                    aria-label="Fewer copies"
+                  >
+                    <FaMinus size={12} />
+                  </button>
+                  <input
+                    type="number"
+                    className="form-control text-center"
+                    value={quantity}
+                    min={1}
+                    max={book.quantity}
+                    onChange={(e) => changeQuantity(Number(e.target.value))}
+                    disabled={book.quantity === 0}
+                    aria-label="Quantity"
+                  />
+                  <button
+                    type="button"
+                    className="btn btn-outline-secondary"
+                    onClick={() => changeQuantity(quantity + 1)}
+                    disabled={quantity >= book.quantity}
+                    aria-label="More copies"
+                  >
+                    <FaPlus size={12} />
+                  </button>
+                </div>
+                <button
+                  className="btn btn-primary px-4 py-2 rounded-3"
+                  onClick={handleAddToCart}
+                  disabled={book.quantity === 0 || addingToCart}
+                  style={{ fontWeight: 500 }}
+                >
+                  {addingToCart ? (
+                    <span className="spinner-border spinner-border-sm me-2" />
+                  ) : (
+                    <FaShoppingCart className="me-2" />
+                  )}
+                  {addingToCart ? 'Adding...' : 'Add to Cart'}
+                </button>
+              </div>
+              {cartMessage && (
+                <div className={`alert alert-${cartMessage.type === 'success' ? 'success' : 'danger'} py-2 px-3 mt-3 mb-0 small rounded-3`}>
+                  {cartMessage.text}
+                  {cartMessage.type === 'success' && <> <Link to="/cart">View cart</Link></>}
+                </div>
+              )}
+            </div>
+          )}
+
+          {/* Description, kept as the paragraphs it was written in */}
+          {book.description && (
+            <p className="mb-4" style={{ whiteSpace: 'pre-line', maxWidth: '720px' }}>
+              {book.description}
+            </p>
+          )}
+
+          {/* Metadata */}
+          <table className="table table-sm mb-0" style={{ maxWidth: '480px' }}>
+            <tbody>
+              <tr>
+                <th className="text-muted fw-normal" style={{ width: '160px' }}>ISBN</th>
+                <td>{formatIsbn(book.isbn)}</td>
+              </tr>
+              <tr>
+                <th className="text-muted fw-normal">Format</th>
+                <td>{FORMAT_LABELS[book.format]}</td>
+              </tr>
+              <tr>
+                <th className="text-muted fw-normal">Publisher</th>
+                <td>{book.publisher ?? 'Unknown publisher'}</td>
+              </tr>
+              <tr>
+                <th className="text-muted fw-normal">Published</th>
+                <td>{book.publicationYear}</td>
+              </tr>
+              <tr>
+                <th className="text-muted fw-normal">Categories</th>
+                <td>{book.categories.map(c => c.name).join(', ')}</td>
+              </tr>
+              {book.edition && (
+                <tr>
+                  <th className="text-muted fw-normal">Edition</th>
+                  <td>{book.edition}</td>
+                </tr>
+              )}
+              {book.pageCount && (
+                <tr>
+                  <th className="text-muted fw-normal">Pages</th>
+                  <td>{book.pageCount}</td>
+                </tr>
+              )}
+              {book.language && (
+                <tr>
+                  <th className="text-muted fw-normal">Language</th>
+                  <td>{languageName(book.language)}</td>
+                </tr>
+              )}
+              {dimensions && (
+                <tr>
+                  <th className="text-muted fw-normal">Dimensions</th>
+                  <td>{dimensions}</td>
+                </tr>
+              )}
+              {book.weightGrams && (
+                <tr>
+                  <th className="text-muted fw-normal">Weight</th>
+                  <td>{formatWeight(book.weightGrams)}</td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+
+          {/* Tags, each a catalog filter */}
+          {book.tags.length > 0 && (
+            <div className="d-flex flex-wrap gap-2 mt-3" style={{ maxWidth: '480px' }}>
+              {book.tags.map(tag => (
+                <Link
+                  key={tag}
+                  to={`/books?tag=${encodeURIComponent(tag)}`}
+                  className="badge rounded-pill bg-light text-secondary border text-decoration-none px-3 py-2"
+                >
+                  #{tag}
+                </Link>
+              ))}
+            </div>
+          )}
+
+          {/* Supplier terms (staff) */}
+          {publisher && (
+            <div className="card border-0 bg-light mt-4" style={{ maxWidth: '480px', borderRadius: '12px' }}>
+              <div className="card-body">
+                <h6 className="fw-bold mb-2">
+                  <FaTruck className="me-2" />
+                  Supplier: {publisher.name}
+                </h6>
+                <p className="small mb-1">
+                  Delivers in {publisher.leadTimeDays} {publisher.leadTimeDays === 1 ? 'day' : 'days'};
+                  minimum order {publisher.minimumOrder} {publisher.minimumOrder === 1 ? 'copy' : 'copies'}.
+                  Reorders below {book.threshold} in stock.
+                </p>
+                {(publisher.email || publisher.phone) && (
+                  <p className="small text-muted mb-0">
+                    {[publisher.email, publisher.phone].filter(Boolean).join(' • ')}
+                  </p>
+                )}
+              </div>
+            </div>
+          )}
+        </div>
+      </div>
+
+      {/* Books bought with this one */}
+      <RecommendedBooks recommendations={recommendations} />
+
+      {/* Other books by the same authors */}
+      {relatedWorks.length > 0 && (
+        <>
+          <h2 className="fw-bold mb-4">
+            More by {book.authors.map(a => a.name).join(', ')}
+          </h2>
+          <div className="row row-cols-1 row-cols-sm-2 row-cols-md-3 row-cols-lg-4 g-4">
+            {relatedWorks.map(otherEditions => (
+              <div className="col" key={otherEditions[0].workId}>
+                <BookCard book={otherEditions[0]} editions={otherEditions} />
+              </div>
+            ))}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default BookDetail;
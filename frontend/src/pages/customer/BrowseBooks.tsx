@@ -7,26 +7,43 @@
  * Available to all users (customers and admins).
  * 
  * FEATURES:
- * 1. Search books by title, ISBN, or author
- * 2. Filter by category, author, or publisher
- * 3. Sort by title, price, or publication year
+ * 1. Search books by title, ISBN, author, or publisher
+ * 2. Filter by category, author, publisher, decade, price or stock
+ * 3. Sort by relevance, title, price, or publication year
  * 4. Toggle between grid and list view
  * 5. Add to cart functionality (customers only)
+ * 6. Editions of the same work are shown once, with a choice of format
+ * 7. Filter by tag (?tag=..., as linked from a book's page)
+ * 8. Results come a page at a time
  * 
  * FILTERING LOGIC:
+ * - The server does the searching (booksApi.searchCatalog); the page
+ *   asks again whenever a filter, the sort or the page changes, and a
+ *   moment after the search text stops changing
  * - All filters work together (AND logic)
- * - Search query matches title, ISBN, or any author
- * - Category filter is passed via URL parameter
+ * - Search query matches words of the title, any author or the
+ *   publisher, by stem and despite typos ("algoritms" finds
+ *   "Algorithms"), or ISBN digits with or without hyphens
+ * - Category filter is passed via URL parameter (the category slug)
+ *   and includes books in its subcategories
+ * - The search text is kept in the URL too (?q=...), and a new search
+ *   from the Navbar's search box replaces the text and category shown
+ * - Each option shows how many books choosing it would find, e.g.
+ *   "History (12)"; options that would find none are disabled
+ * - Changing a filter goes back to the first page
  * - Filters are cleared with a single button
- * 
+ *  
  * SORTING OPTIONS:
+ * - Best match (the default): title matches first, then author, then
+ *   publisher matches; by title when nothing is searched for
  * - By title (alphabetical)
  * - By price (ascending or descending)
  * - By year (newest first)
  * 
  * VIEW MODES:
  * - Grid: Shows BookCard components in a responsive grid
- * - List: Shows detailed horizontal cards with more info
+ * - List: Shows detailed horizontal cards with more info, including the
+ *   start of the description
  * 
  * @author Bookstore Development Team
  * @version 1.0.0
@@ -36,11 +53,11 @@
 // React imports for component and state management
 import React, { useState, useEffect } from 'react';
 
-// Router hooks for URL parameters and navigation
-import { useSearchParams, useNavigate } from 'react-router-dom';
+// Router hooks for URL parameters and navigation, and links to book pages
+import { useSearchParams, useNavigate, Link } from 'react-router-dom';
 
 // Type imports
-import { Book, BookCategory } from '../../types';
+import { CatalogSearchResult, FacetValue, SearchSort } from '../../types';
 
 // API service for fetching books
 import { booksApi } from '../../services/api';
@@ -54,9 +71,40 @@ import { FaSearch, FaTh, FaList, FaShoppingCart } from 'react-icons/fa';
 // Context hooks for authentication and cart
 import { useAuth } from '../../context/AuthContext';
 import { useCart } from '../../context/CartContext';
+import { useCategories } from '../../context/CategoryContext';
+
+// Category tree ordering
+import { sortCategoryTree } from 'bookstore-shared/categoryTree';
+
+// Cover thumbnails, and the stand-in for books without a cover
+import { coverUrl, placeholderCover } from 'bookstore-shared/covers';
+
+// Grouping editions into works, and format names
+import { FORMAT_LABELS, groupEditions } from 'bookstore-shared/editions';
+
+// Badge colors from the category's own color
+import { categoryBadgeStyle } from '../../utils';
 
-/** Available book categories for filtering */
-const categories: BookCategory[] = ['Science', 'Art', 'Religion', 'History', 'Geography'];
+/** Milliseconds to wait after the last keystroke before searching */
+const SEARCH_DELAY_MS = 300;
+
+/**
+ * Option text for a facet value, with the books choosing it would find
+ * 
+ * @param label - The value's name
+ * @param count - Works found with it (none when the facet does not list it)
+ * @returns e.g. 'History (12)'
+ */
+const withCount = (label: string, count = 0): string => `${label} (${count})`;
+
+/**
+ * Counts of a facet's values, by value
+ * 
+ * @param values - The facet's values
+ * @returns Count of each value
+ */
+const countsOf = (values: FacetValue[] = []): Map<string, number> =>
+  new Map(values.map(({ value, count }) => [value, count]));
 
 /**
  * BrowseBooks Component
@@ -69,7 +117,7 @@ const BrowseBooks: React.FC = () => {
   // HOOKS AND URL PARAMETERS
   // ========================================
   
-  // URL search parameters for deep linking (e.g., ?category=Science)
+  // URL search parameters for deep linking (e.g., ?category=science)
   const [searchParams, setSearchParams] = useSearchParams();
   
   // Navigation hook for redirecting to login
@@ -81,118 +129,138 @@ const BrowseBooks: React.FC = () => {
   // Cart context for add to cart functionality
   const { addToCart } = useCart();
 
+  // Category taxonomy for the category filter
+  const { categories } = useCategories();
+
   // ========================================
   // STATE MANAGEMENT
   // ========================================
   
-  // Book data state
-  const [books, setBooks] = useState<Book[]>([]);                    // All books from API
-  const [filteredBooks, setFilteredBooks] = useState<Book[]>([]);    // Books after filtering
+  // Search results: the current page of books, the total and the facet counts
+  const [result, setResult] = useState<CatalogSearchResult | null>(null);
   
   // UI state
-  const [isLoading, setIsLoading] = useState(true);                  // Loading indicator
+  const [isLoading, setIsLoading] = useState(true);                  // Loading indicator (first search)
+  const [isSearching, setIsSearching] = useState(false);             // A later search is running
   const [viewMode, setViewMode] = useState<'grid' | 'list'>('grid'); // Display mode
   const [addingToCart, setAddingToCart] = useState<string | null>(null); // ISBN being added
 
   // Filter state - initialized from URL params if present
   const [searchQuery, setSearchQuery] = useState(searchParams.get('q') || '');
+  const [debouncedQuery, setDebouncedQuery] = useState(searchQuery);  // Text actually searched for
   const [selectedCategory, setSelectedCategory] = useState(searchParams.get('category') || '');
-  const [selectedAuthor, setSelectedAuthor] = useState('');
-  const [selectedPublisher, setSelectedPublisher] = useState('');
-  const [sortBy, setSortBy] = useState<'title' | 'price-asc' | 'price-desc' | 'year'>('title');
-
-  // Computed values for filter dropdowns
-  // Get unique authors from all books (flattened since authors is an array)
-  const uniqueAuthors = [...new Set(books.flatMap(b => b.authors))].sort();
-  // Get unique publishers from all books
-  const uniquePublishers = [...new Set(books.map(b => b.publisher))].sort();
+  const [selectedAuthor, setSelectedAuthor] = useState('');     // Author ID
+  const [selectedPublisher, setSelectedPublisher] = useState(''); // Publisher ID
+  const [selectedDecade, setSelectedDecade] = useState('');     // e.g. '1990'
+  const [selectedPrice, setSelectedPrice] = useState('');       // Price bucket, e.g. '10-25'
+  const [inStockOnly, setInStockOnly] = useState(false);
+  const [selectedTag, setSelectedTag] = useState(searchParams.get('tag') || '');
+  const [sortBy, setSortBy] = useState<SearchSort>('relevance');
+  const [page, setPage] = useState(1);
+
+  // Facet counts for the filter dropdowns
+  const facets = result?.facets;
+  const categoryCounts = countsOf(facets?.category);
+  const inStockCount = facets?.inStock[0]?.count ?? 0;
+
+  // One entry per work: its first edition in sort order, shown first, and
+  // every edition that matches the filters
+  const pageBooks = result?.books ?? [];
+  const works = groupEditions(pageBooks).map(editions => ({
+    book: pageBooks.find(b => b.workId === editions[0].workId)!,
+    editions
+  }));
+  const total = result?.total ?? 0;
+  const pageSize = result?.pageSize ?? 1;
+  const pageCount = Math.ceil(total / pageSize);
+  const firstShown = (page - 1) * pageSize + 1;
 
   // ========================================
   // DATA LOADING
   // ========================================
 
   /**
-   * Effect: Load all books on component mount
+   * Effect: Search for the typed text once typing pauses, from the first
+   * page, and put it in the URL so the search can be linked to
    */
   useEffect(() => {
-    loadBooks();
-  }, []);
+    const timer = setTimeout(() => {
+      setDebouncedQuery(searchQuery);
+      setPage(1);
+      setSearchParams(params => {
+        const next = new URLSearchParams(params);
+        if (searchQuery) {
+          next.set('q', searchQuery);
+        } else {
+          next.delete('q');
+        }
+        return next;
+      }, { replace: true });
+    }, SEARCH_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [searchQuery]);
 
   /**
-   * Effect: Re-filter books when any filter changes
-   * Depends on all filter state variables
+   * Effect: Follow the URL when it changes while the page is open, e.g. a
+   * search or category picked in the Navbar's search box
    */
+  const urlQuery = searchParams.get('q') || '';
+  const urlCategory = searchParams.get('category') || '';
   useEffect(() => {
-    filterAndSortBooks();
-  }, [books, searchQuery, selectedCategory, selectedAuthor, selectedPublisher, sortBy]);
+    setSearchQuery(urlQuery);
+    setDebouncedQuery(urlQuery);
+    setPage(1);
+  }, [urlQuery]);
+  useEffect(() => {
+    setSelectedCategory(urlCategory);
+    setPage(1);
+  }, [urlCategory]);
 
   /**
-   * Loads all books from the API
+   * Effect: Search again when any filter, the sort or the page changes.
+   * A response that arrives after a newer search has started is dropped.
    */
-  const loadBooks = async () => {
-    try {
-      const data = await booksApi.getAll();
-      setBooks(data);
-    } catch (error) {
-      console.error('Failed to load books:', error);
-    } finally {
-      setIsLoading(false);
-    }
-  };
+  useEffect(() => {
+    let stale = false;
+    setIsSearching(true);
+    booksApi.searchCatalog({
+      q: debouncedQuery || undefined,
+      category: selectedCategory || undefined,
+      authorId: selectedAuthor || undefined,
+      publisherId: selectedPublisher || undefined,
+      decade: selectedDecade || undefined,
+      price: selectedPrice || undefined,
+      inStock: inStockOnly,
+      tag: selectedTag || undefined,
+      sort: sortBy,
+      page
+    })
+      .then(data => {
+        if (!stale) setResult(data);
+      })
+      .catch(error => console.error('Failed to search books:', error))
+      .finally(() => {
+        if (stale) return;
+        setIsSearching(false);
+        setIsLoading(false);
+      });
+    return () => {
+      stale = true;
+    };
+  }, [debouncedQuery, selectedCategory, selectedAuthor, selectedPublisher, selectedDecade,
+      selectedPrice, inStockOnly, selectedTag, sortBy, page]);
 
   // ========================================
-  // FILTERING AND SORTING LOGIC
+  // FILTER HANDLERS
   // ========================================
 
   /**
-   * Applies all filters and sorting to the books array
-   * Called whenever any filter state changes
+   * Returns a handler that sets a filter and goes back to the first page
+   * @param setFilter - The filter's state setter
    */
-  const filterAndSortBooks = () => {
-    let result = [...books];
-
-    // Apply search filter - matches title, ISBN, or author name
-    if (searchQuery) {
-      const query = searchQuery.toLowerCase();
-      result = result.filter(book =>
-        book.title.toLowerCase().includes(query) ||
-        book.isbn.toLowerCase().includes(query) ||
-        book.authors.some(a => a.toLowerCase().includes(query))
-      );
-    }
-
-    // Apply category filter
-    if (selectedCategory) {
-      result = result.filter(book => book.category === selectedCategory);
-    }
-
-    // Apply author filter
-    if (selectedAuthor) {
-      result = result.filter(book => book.authors.includes(selectedAuthor));
-    }
-
-    // Apply publisher filter
-    if (selectedPublisher) {
-      result = result.filter(book => book.publisher === selectedPublisher);
-    }
-
-    // Apply sorting based on selected option
-    switch (sortBy) {
-      case 'title':
-        result.sort((a, b) => a.title.localeCompare(b.title));
-        break;
-      case 'price-asc':
-        result.sort((a, b) => a.sellingPrice - b.sellingPrice);
-        break;
-      case 'price-desc':
-        result.sort((a, b) => b.sellingPrice - a.sellingPrice);
-        break;
-      case 'year':
-        result.sort((a, b) => b.publicationYear - a.publicationYear);
-        break;
-    }
-
-    setFilteredBooks(result);
+  const changeFilter = <T,>(setFilter: (value: T) => void) => (value: T) => {
+    setFilter(value);
+    setPage(1);
   };
 
   /**
@@ -200,25 +268,59 @@ const BrowseBooks: React.FC = () => {
    */
   const clearFilters = () => {
     setSearchQuery('');
+    setDebouncedQuery('');
     setSelectedCategory('');
     setSelectedAuthor('');
     setSelectedPublisher('');
-    setSortBy('title');
+    setSelectedDecade('');
+    setSelectedPrice('');
+    setInStockOnly(false);
+    setSelectedTag('');
+    setSortBy('relevance');
+    setPage(1);
     setSearchParams({});  // Clear URL parameters
   };
 
   /**
-   * Handles category change and updates URL
-   * @param category - Selected category or empty string for all
+   * Shows another page of results, from its top
+   * @param next - Page number, from 1
+   */
+  const goToPage = (next: number) => {
+    setPage(next);
+    window.scrollTo({ top: 0, behavior: 'smooth' });
+  };
+
+  /**
+   * Handles category change and updates URL, keeping the other parameters
+   * @param category - Selected category slug or empty string for all
    */
   const handleCategoryChange = (category: string) => {
     setSelectedCategory(category);
+    setPage(1);
     // Update URL for deep linking
+    const params = new URLSearchParams(searchParams);
     if (category) {
-      setSearchParams({ category });
+      params.set('category', category);
+    } else {
+      params.delete('category');
+    }
+    setSearchParams(params);
+  };
+
+  /**
+   * Handles tag change and updates URL, keeping the other parameters
+   * @param tag - Selected tag or empty string for all
+   */
+  const handleTagChange = (tag: string) => {
+    setSelectedTag(tag);
+    setPage(1);
+    const params = new URLSearchParams(searchParams);
+    if (tag) {
+      params.set('tag', tag);
     } else {
-      setSearchParams({});
+      params.delete('tag');
     }
+    setSearchParams(params);
   };
 
   // ========================================
@@ -254,15 +356,6 @@ const BrowseBooks: React.FC = () => {
     return <LoadingSpinner message="Loading books..." />;
   }
 
-  // Color scheme for category badges
-  const categoryColors: { [key: string]: { bg: string; color: string } } = {
-    'Science': { bg: 'rgba(239, 68, 68, 0.15)', color: '#dc2626' },
-    'Art': { bg: 'rgba(245, 158, 11, 0.15)', color: '#d97706' },
-    'Religion': { bg: 'rgba(139, 92, 246, 0.15)', color: '#7c3aed' },
-    'History': { bg: 'rgba(244, 63, 94, 0.15)', color: '#f43f5e' },
-    'Geography': { bg: 'rgba(217, 70, 239, 0.15)', color: '#d946ef' }
-  };
-
   return (
     <div style={{ backgroundColor: '#f8fafc', minHeight: '100vh' }}>
       <div className="container py-5">
@@ -290,7 +383,7 @@ const BrowseBooks: React.FC = () => {
                     <input
                       type="text"
                       className="form-control border-0"
-                      placeholder="Title, ISBN, Author..."
+                      placeholder="Title, ISBN, Author, Publisher..."
                       value={searchQuery}
                       onChange={(e) => setSearchQuery(e.target.value)}
                       style={{
@@ -311,8 +404,14 @@ const BrowseBooks: React.FC = () => {
                     style={{ backgroundColor: '#f1f5f9', borderRadius: '10px', padding: '12px' }}
                   >
                     <option value="">All Categories</option>
-                    {categories.map(cat => (
-                      <option key={cat} value={cat}>{cat}</option>
+                    {sortCategoryTree(categories).map(({ category, depth }) => (
+                      <option
+                        key={category.id}
+                        value={category.slug}
+                        disabled={!categoryCounts.get(category.slug) && category.slug !== selectedCategory}
+                      >
+                        {'\u00a0\u00a0'.repeat(depth)}{withCount(category.name, categoryCounts.get(category.slug))}
+                      </option>
                     ))}
                   </select>
                 </div>
@@ -323,12 +422,14 @@ const BrowseBooks: React.FC = () => {
                   <select
                     className="form-select border-0"
                     value={selectedAuthor}
-                    onChange={(e) => setSelectedAuthor(e.target.value)}
+                    onChange={(e) => changeFilter(setSelectedAuthor)(e.target.value)}
                     style={{ backgroundColor: '#f1f5f9', borderRadius: '10px', padding: '12px' }}
                   >
                     <option value="">All Authors</option>
-                    {uniqueAuthors.map(author => (
-                      <option key={author} value={author}>{author}</option>
+                    {facets?.authorId.map(({ value, label, count }) => (
+                      <option key={value} value={value} disabled={count === 0 && value !== selectedAuthor}>
+                        {withCount(label, count)}
+                      </option>
                     ))}
                   </select>
                 </div>
@@ -339,16 +440,89 @@ const BrowseBooks: React.FC = () => {
                   <select
                     className="form-select border-0"
                     value={selectedPublisher}
-                    onChange={(e) => setSelectedPublisher(e.target.value)}
+                    onChange={(e) => changeFilter(setSelectedPublisher)(e.target.value)}
                     style={{ backgroundColor: '#f1f5f9', borderRadius: '10px', padding: '12px' }}
                   >
                     <option value="">All Publishers</option>
-                    {uniquePublishers.map(pub => (
-                      <option key={pub} value={pub}>{pub}</option>
+                    {facets?.publisherId.map(({ value, label, count }) => (
+                      <option key={value} value={value} disabled={count === 0 && value !== selectedPublisher}>
+                        {withCount(label, count)}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+
+                {/* Decade */}
+                <div className="mb-4">
+                  <label className="form-label fw-semibold" style={{ color: '#475569' }}>Published</label>
+                  <select
+                    className="form-select border-0"
+                    value={selectedDecade}
+                    onChange={(e) => changeFilter(setSelectedDecade)(e.target.value)}
+                    style={{ backgroundColor: '#f1f5f9', borderRadius: '10px', padding: '12px' }}
+                  >
+                    <option value="">Any Decade</option>
+                    {facets?.decade.map(({ value, label, count }) => (
+                      <option key={value} value={value} disabled={count === 0 && value !== selectedDecade}>
+                        {withCount(label, count)}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+
+                {/* Price */}
+                <div className="mb-4">
+                  <label className="form-label fw-semibold" style={{ color: '#475569' }}>Price</label>
+                  <select
+                    className="form-select border-0"
+                    value={selectedPrice}
+                    onChange={(e) => changeFilter(setSelectedPrice)(e.target.value)}
+                    style={{ backgroundColor: '#f1f5f9', borderRadius: '10px', padding: '12px' }}
+                  >
+                    <option value="">Any Price</option>
+                    {facets?.price.map(({ value, label, count }) => (
+                      <option key={value} value={value} disabled={count === 0 && value !== selectedPrice}>
+                        {withCount(label, count)}
+                      </option>
                     ))}
                   </select>
                 </div>
 
+                {/* In stock */}
+                <div className="form-check mb-4">
+                  <input
+                    id="in-stock-only"
+                    type="checkbox"
+                    className="form-check-input"
+                    checked={inStockOnly}
+                    disabled={inStockCount === 0 && !inStockOnly}
+                    onChange={(e) => changeFilter(setInStockOnly)(e.target.checked)}
+                  />
+                  <label htmlFor="in-stock-only" className="form-check-label" style={{ color: '#475569' }}>
+                    {withCount('In stock only', inStockCount)}
+                  </label>
+                </div>
+
+                {/* Tag */}
+                {facets && facets.tag.length > 0 && (
+                  <div className="mb-4">
+                    <label className="form-label fw-semibold" style={{ color: '#475569' }}>Tag</label>
+                    <select
+                      className="form-select border-0"
+                      value={selectedTag}
+                      onChange={(e) => handleTagChange(e.target.value)}
+                      style={{ backgroundColor: '#f1f5f9', borderRadius: '10px', padding: '12px' }}
+                    >
+                      <option value="">All Tags</option>
+                      {facets.tag.map(({ value, label, count }) => (
+                        <option key={value} value={value} disabled={count === 0 && value !== selectedTag}>
+                          {withCount(label, count)}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                )}
+
                 <button
                   className="btn w-100 py-3 fw-semibold"
                   onClick={clearFilters}
@@ -371,7 +545,13 @@ const BrowseBooks: React.FC = () => {
             <div className="d-flex justify-content-between align-items-center mb-4 p-3 bg-white rounded-4 shadow-sm">
               <div>
                 <span style={{ color: '#64748b' }}>
-                  Showing <strong style={{ color: '#f43f5e' }}>{filteredBooks.length}</strong> of {books.length} books
+                  {total === 0 ? 'No books' : (
+                    <>
+                      Showing <strong style={{ color: '#f43f5e' }}>
+                        {firstShown}–{firstShown + works.length - 1}
+                      </strong> of {total} books
+                    </>
+                  )}
                 </span>
               </div>
               <div className="d-flex gap-3 align-items-center">
@@ -379,8 +559,9 @@ const BrowseBooks: React.FC = () => {
                   className="form-select border-0"
                   style={{ width: 'auto', backgroundColor: '#f1f5f9', borderRadius: '10px' }}
                   value={sortBy}
-                  onChange={(e) => setSortBy(e.target.value as typeof sortBy)}
+                  onChange={(e) => changeFilter(setSortBy)(e.target.value as SearchSort)}
                 >
+                  <option value="relevance">Best Match</option>
                   <option value="title">Sort by Title</option>
                   <option value="price-asc">Price: Low to High</option>
                   <option value="price-desc">Price: High to Low</option>
@@ -416,7 +597,7 @@ const BrowseBooks: React.FC = () => {
             </div>
 
             {/* Books Grid/List */}
-            {filteredBooks.length === 0 ? (
+            {works.length === 0 ? (
               <div className="text-center py-5 bg-white rounded-4 shadow-sm">
                 <div style={{ fontSize: '4rem', marginBottom: '1rem' }}>📚</div>
                 <h4 style={{ color: '#1e293b' }}>No books found</h4>
@@ -434,38 +615,70 @@ const BrowseBooks: React.FC = () => {
                 </button>
               </div>
             ) : viewMode === 'grid' ? (
-              <div className="row row-cols-1 row-cols-sm-2 row-cols-md-3 g-4">
-                {filteredBooks.map(book => (
-                  <div className="col" key={book.isbn}>
-                    <BookCard book={book} />
+              <div className="row row-cols-1 row-cols-sm-2 row-cols-md-3 g-4" style={{ opacity: isSearching ? 0.6 : 1 }}>
+                {works.map(({ book, editions }) => (
+                  <div className="col" key={book.workId}>
+                    <BookCard book={book} editions={editions} />
                   </div>
                 ))}
               </div>
             ) : (
-              <div className="d-flex flex-column gap-3">
-                {filteredBooks.map(book => (
-                  <div key={book.isbn} className="bg-white p-4 rounded-4 shadow-sm">
+              <div className="d-flex flex-column gap-3" style={{ opacity: isSearching ? 0.6 : 1 }}>
+                {works.map(({ book, editions }) => (
+                  <div key={book.workId} className="bg-white p-4 rounded-4 shadow-sm">
                     <div className="row align-items-center">
                       <div className="col-auto">
-                        <img
-                          src={book.imageUrl || `https://via.placeholder.com/100x130/f43f5e/ffffff?text=Book`}
-                          alt={book.title}
-                          style={{ width: '100px', height: '130px', objectFit: 'cover', borderRadius: '12px' }}
-                        />
+                        <Link to={`/books/${book.isbn}`}>
+                          <img
+                            src={coverUrl(book.imageUrl, 'thumbnail') ?? placeholderCover(book.title)}
+                            alt={book.title}
+                            style={{ width: '100px', height: '130px', objectFit: 'cover', borderRadius: '12px' }}
+                          />
+                        </Link>
                       </div>
                       <div className="col">
-                        <span
-                          className="badge mb-2 rounded-pill"
-                          style={{
-                            backgroundColor: categoryColors[book.category]?.bg || 'rgba(244, 63, 94, 0.1)',
-                            color: categoryColors[book.category]?.color || '#f43f5e'
-                          }}
-                        >
-                          {book.category}
-                        </span>
-                        <h5 className="mb-1 fw-bold" style={{ color: '#1e293b' }}>{book.title}</h5>
+                        {book.categories.map(category => (
+                          <span
+                            key={category.id}
+                            className="badge mb-2 me-1 rounded-pill"
+                            style={categoryBadgeStyle(category.color)}
+                          >
+                            {category.name}
+                          </span>
+                        ))}
+                        <h5 className="mb-1 fw-bold">
+                          <Link to={`/books/${book.isbn}`} className="text-decoration-none" style={{ color: '#1e293b' }}>
+                            {book.title}
+                          </Link>
+                        </h5>
                         <p className="mb-1" style={{ color: '#64748b' }}>
-                          {book.authors.join(', ')} • {book.publisher} • {book.publicationYear}
+                          {book.authors.map(a => a.name).join(', ')} • {book.publisher ?? 'Unknown publisher'} • {book.publicationYear}
+                        </p>
+                        {/* First lines of the description; the rest is on the book's page */}
+                        {book.description && (
+                          <p className="mb-1 small text-muted" style={{
+                            display: '-webkit-box',
+                            WebkitLineClamp: 2,
+                            WebkitBoxOrient: 'vertical',
+                            overflow: 'hidden'
+                          }}>
+                            {book.description}
+                          </p>
+                        )}
+                        {/* Formats of the work, each linking to its own page */}
+                        <p className="mb-1 small">
+                          {editions.map((edition, index) => (
+                            <React.Fragment key={edition.isbn}>
+                              {index > 0 && ' • '}
+                              {edition.isbn === book.isbn ? (
+                                <strong>{FORMAT_LABELS[edition.format]}</strong>
+                              ) : (
+                                <Link to={`/books/${edition.isbn}`}>
+                                  {FORMAT_LABELS[edition.format]} ${edition.sellingPrice.toFixed(2)}
+                                </Link>
+                              )}
+                            </React.Fragment>
+                          ))}
                         </p>
                         <span
                           className="badge rounded-pill"
@@ -504,6 +717,31 @@ const BrowseBooks: React.FC = () => {
                 ))}
               </div>
             )}
+
+            {/* Pages */}
+            {pageCount > 1 && (
+              <nav className="mt-4" aria-label="Search result pages">
+                <ul className="pagination justify-content-center mb-0">
+                  <li className={`page-item ${page === 1 ? 'disabled' : ''}`}>
+                    <button className="page-link" onClick={() => goToPage(page - 1)}>Previous</button>
+                  </li>
+                  {Array.from({ length: pageCount }, (_, index) => index + 1).map(number => (
+                    <li key={number} className={`page-item ${number === page ? 'active' : ''}`}>
+                      <button
+                        className="page-link"
+                        onClick={() => goToPage(number)}
+                        style={number === page ? { backgroundColor: '#f43f5e', borderColor: '#f43f5e' } : { color: '#f43f5e' }}
+                      >
+                        {number}
+                      </button>
+                    </li>
+                  ))}
+                  <li className={`page-item ${page === pageCount ? 'disabled' : ''}`}>
+                    <button className="page-link" onClick={() => goToPage(page + 1)}>Next</button>
+                  </li>
+                </ul>
+              </nav>
+            )}
           </div>
         </div>
       </div>
@@ -9,9 +9,11 @@
  * FEATURES:
  * 1. View all items in cart with images and details
  * 2. Adjust quantity of each item
- * 3. Remove items from cart
- * 4. View order summary with totals
- * 5. Secure checkout with credit card form
+ * 3. Switch an item to another format of the same work
+ * 4. Remove items from cart
+ * 5. View order summary with totals and the parcel's weight
+ * 6. Secure checkout with credit card form
+ * 7. "Customers also bought" books to go with the cart
  * 
  * QUANTITY CONTROLS:
  * - Minimum quantity: 1 (can't go below)
@@ -32,7 +34,7 @@
  */
 
 // React imports for component and state management
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 
 // Router hook for navigation after checkout
 import { useNavigate } from 'react-router-dom';
@@ -40,12 +42,30 @@ import { useNavigate } from 'react-router-dom';
 // Cart context for all cart operations
 import { useCart } from '../../context/CartContext';
 
-// Loading spinner component
-import { LoadingSpinner } from '../../components';
+// Loading spinner and inline field error components
+import { LoadingSpinner, FieldError, invalidClass, RecommendedBooks } from '../../components';
+
+// Editions of the works in the cart, and per-field messages from API validation errors
+import { booksApi, cartApi, fieldErrorsOf } from '../../services/api';
+
+// Type definitions
+import { Book, BookRecommendation } from '../../types';
+
+// Cover thumbnails, and the stand-in for books without a cover
+import { coverUrl, placeholderCover } from 'bookstore-shared/covers';
+
+// Format names, and each work's editions in display order
+import { FORMAT_LABELS, groupEditions } from 'bookstore-shared/editions';
+
+// Parcel weight of the printed books in the cart
+import { shippingWeight, formatWeight } from 'bookstore-shared/bookDetails';
 
 // Icons for visual enhancement
 import { FaTrash, FaMinus, FaPlus, FaShoppingCart, FaCreditCard, FaLock, FaArrowRight } from 'react-icons/fa';
 
+/** Recommendations shown under the cart (one row of cards) */
+const CART_RECOMMENDATIONS = 4;
+
 /**
  * Cart Component
  * 
@@ -58,7 +78,7 @@ const Cart: React.FC = () => {
   // ========================================
   
   // Cart context with all cart state and operations
-  const { cart, isLoading, updateQuantity, removeFromCart, checkout } = useCart();
+  const { cart, isLoading, addToCart, updateQuantity, removeFromCart, checkout } = useCart();
   
   // Navigation for redirecting after checkout
   const navigate = useNavigate();
@@ -80,9 +100,75 @@ const Cart: React.FC = () => {
   // Error message state
   const [error, setError] = useState('');
   
+  // Checkout form errors by field, shown under each input
+  const [fieldErrors, setFieldErrors] = useState<Record<string, string>>({});
+  
   // Processing state for checkout button
   const [processing, setProcessing] = useState(false);
 
+  // Editions of each work in the cart, by workId, for the format selects
+  const [editionsByWork, setEditionsByWork] = useState<Record<string, Book[]>>({});
+
+  // Parcel weight of the printed books
+  const weight = shippingWeight(cart.items);
+
+  // Books to go with the cart
+  const [recommendations, setRecommendations] = useState<BookRecommendation[]>([]);
+
+  // Works in the cart, as a stable key for loading their editions
+  const cartWorkIds = [...new Set(cart.items.map(item => item.book.workId))].sort().join(',');
+
+  // Books in the cart, as a stable key for loading recommendations
+  const cartIsbns = cart.items.map(item => item.book.isbn).sort().join(',');
+
+  // ========================================
+  // DATA FETCHING
+  // ========================================
+
+  /**
+   * Loads the editions of every work in the cart.
+   * Items whose work has a single edition show its format without a select.
+   */
+  useEffect(() => {
+    if (!cartWorkIds) return;
+    let cancelled = false;
+    Promise.all(cartWorkIds.split(',').map(workId => booksApi.search('', { workId })))
+      .then(results => {
+        if (cancelled) return;
+        const byWork: Record<string, Book[]> = {};
+        groupEditions(results.flat()).forEach(editions => {
+          byWork[editions[0].workId] = editions;
+        });
+        setEditionsByWork(byWork);
+      })
+      // The formats are a convenience; the cart still works without them
+      .catch(() => undefined);
+    return () => {
+      cancelled = true;
+    };
+  }, [cartWorkIds]);
+
+  /**
+   * Loads recommendations whenever books are added to or removed from the
+   * cart (quantity changes keep them).
+   */
+  useEffect(() => {
+    if (!cartIsbns) {
+      setRecommendations([]);
+      return;
+    }
+    let cancelled = false;
+    cartApi.getRecommendations(CART_RECOMMENDATIONS)
+      .then(results => {
+        if (!cancelled) setRecommendations(results);
+      })
+      // Recommendations are extras; the cart works without them
+      .catch(() => undefined);
+    return () => {
+      cancelled = true;
+    };
+  }, [cartIsbns]);
+
   // ========================================
   // EVENT HANDLERS
   // ========================================
@@ -100,6 +186,24 @@ const Cart: React.FC = () => {
     }
   };
 
+  /**
+   * Replaces an item with another edition of the same work, keeping its
+   * quantity. The new edition is added first, so the item stays in the
+   * cart if that edition has too little stock.
+   * @param book - Edition currently in the cart
+   * @param quantity - Quantity of the item
+   * @param newIsbn - ISBN of the edition to switch to
+   */
+  const handleFormatChange = async (book: Book, quantity: number, newIsbn: string) => {
+    if (newIsbn === book.isbn) return;
+    try {
+      await addToCart(newIsbn, quantity);
+      await removeFromCart(book.isbn);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to change the format');
+    }
+  };
+
   /**
    * Removes an item from the cart
    * @param isbn - Book ISBN to remove
@@ -120,6 +224,7 @@ const Cart: React.FC = () => {
   const handleCheckout = async (e: React.FormEvent) => {
     e.preventDefault();
     setError('');
+    setFieldErrors({});
     setProcessing(true);
 
     try {
@@ -128,7 +233,12 @@ const Cart: React.FC = () => {
       // Redirect to order history with the new order
       navigate('/orders', { state: { newOrder: order } });
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'Checkout failed');
+      // Card problems go under their inputs; anything else (e.g. stock) above the cart
+      const errors = fieldErrorsOf(err);
+      setFieldErrors(errors);
+      if (Object.keys(errors).length === 0) {
+        setError(err instanceof Error ? err.message : 'Checkout failed');
+      }
     } finally {
       setProcessing(false);
     }
@@ -231,7 +341,7 @@ const Cart: React.FC = () => {
                     {/* Book Image */}
                     <div className="col-auto">
                       <img
-                        src={item.book.imageUrl || `https://via.placeholder.com/100x130/6366f1/ffffff?text=Book`}
+                        src={coverUrl(item.book.imageUrl, 'thumbnail') ?? placeholderCover(item.book.title)}
                         alt={item.book.title}
                         style={{ width: '100px', height: '130px', objectFit: 'cover', borderRadius: '12px' }}
                       />
@@ -239,7 +349,25 @@ const Cart: React.FC = () => {
                     {/* Book Details */}
                     <div className="col">
                       <h6 className="mb-1 fw-bold" style={{ color: '#1e293b' }}>{item.book.title}</h6>
-                      <p className="small mb-2" style={{ color: '#64748b' }}>{item.book.authors.join(', ')}</p>
+                      <p className="small mb-2" style={{ color: '#64748b' }}>{item.book.authors.map(a => a.name).join(', ')}</p>
+                      {/* Format - a select when the work has other editions */}
+                      {(editionsByWork[item.book.workId]?.length ?? 0) > 1 ? (
+                        <select
+                          className="form-select form-select-sm mb-2 w-auto"
+                          aria-label={`Format of ${item.book.title}`}
+                          value={item.book.isbn}
+                          onChange={(e) => handleFormatChange(item.book, item.quantity, e.target.value)}
+                        >
+                          {editionsByWork[item.book.workId].map(edition => (
+                            <option key={edition.isbn} value={edition.isbn} disabled={edition.quantity === 0}>
+                              {FORMAT_LABELS[edition.format]} - ${edition.sellingPrice.toFixed(2)}
+                              {edition.quantity === 0 ? ' (out of stock)' : ''}
+                            </option>
+                          ))}
+                        </select>
+                      ) : (
+                        <p className="small mb-2" style={{ color: '#64748b' }}>{FORMAT_LABELS[item.book.format]}</p>
+                      )}
                       <p className="fw-bold mb-0" style={{ color: '#f43f5e', fontSize: '1.1rem' }}>
                         ${item.book.sellingPrice.toFixed(2)}
                       </p>
@@ -306,6 +434,15 @@ const Cart: React.FC = () => {
                   <span style={{ color: '#64748b' }}>Shipping</span>
                   <span className="fw-semibold" style={{ color: '#f59e0b' }}>Free</span>
                 </div>
+                {/* Printed books only; "at least" when a weight is not on file */}
+                {weight.grams > 0 && (
+                  <div className="d-flex justify-content-between mb-3">
+                    <span style={{ color: '#64748b' }}>Parcel weight</span>
+                    <span style={{ color: '#1e293b' }}>
+                      {weight.complete ? '' : 'at least '}{formatWeight(weight.grams)}
+                    </span>
+                  </div>
+                )}
                 <hr style={{ borderColor: '#e2e8f0' }} />
                 <div className="d-flex justify-content-between mb-4">
                   <span className="fw-bold" style={{ color: '#1e293b' }}>Total</span>
@@ -333,7 +470,7 @@ const Cart: React.FC = () => {
                       <label className="form-label fw-medium" style={{ color: '#475569' }}>Credit Card Number</label>
                       <input
                         type="text"
-                        className="form-control border-0 py-3"
+                        className={`form-control border-0 py-3${invalidClass(fieldErrors, 'creditCardNumber')}`}
                         placeholder="1234 5678 9012 3456"
                         value={checkoutData.creditCardNumber}
                         onChange={(e) => setCheckoutData(prev => ({
@@ -343,13 +480,14 @@ const Cart: React.FC = () => {
                         style={{ backgroundColor: '#f1f5f9', borderRadius: '10px' }}
                         required
                       />
+                      <FieldError message={fieldErrors.creditCardNumber} />
                     </div>
                     <div className="row mb-4">
                       <div className="col">
                         <label className="form-label fw-medium" style={{ color: '#475569' }}>Expiry Date</label>
                         <input
                           type="text"
-                          className="form-control border-0 py-3"
+                          className={`form-control border-0 py-3${invalidClass(fieldErrors, 'expiryDate')}`}
                           placeholder="MM/YY"
                           value={checkoutData.expiryDate}
                           onChange={(e) => setCheckoutData(prev => ({
@@ -359,12 +497,13 @@ const Cart: React.FC = () => {
                           style={{ backgroundColor: '#f1f5f9', borderRadius: '10px' }}
                           required
                         />
+                        <FieldError message={fieldErrors.expiryDate} />
                       </div>
                       <div className="col">
                         <label className="form-label fw-medium" style={{ color: '#475569' }}>CVV</label>
                         <input
                           type="text"
-                          className="form-control border-0 py-3"
+                          className={`form-control border-0 py-3${invalidClass(fieldErrors, 'cvv')}`}
                           placeholder="123"
                           value={checkoutData.cvv}
                           onChange={(e) => setCheckoutData(prev => ({
@@ -374,6 +513,7 @@ const Cart: React.FC = () => {
                           style={{ backgroundColor: '#f1f5f9', borderRadius: '10px' }}
                           required
                         />
+                        <FieldError message={fieldErrors.cvv} />
                       </div>
                     </div>
                     <button
@@ -424,6 +564,11 @@ const Cart: React.FC = () => {
             </div>
           </div>
         </div>
+
+        {/* Books bought with the ones in the cart */}
+        <div className="mt-4">
+          <RecommendedBooks recommendations={recommendations} />
+        </div>
       </div>
     </div>
   );
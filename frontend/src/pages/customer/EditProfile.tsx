@@ -9,7 +9,7 @@
  * FEATURES:
  * 1. Edit all profile information in one place
  * 2. Optional password change functionality
- * 3. Form validation with required fields
+ * 3. Form validation with required fields; API field errors shown inline
  * 4. Success message with auto-redirect
  * 
  * EDITABLE FIELDS:
@@ -18,7 +18,8 @@
  * - Email (required)
  * - Phone (required)
  * - Shipping Address (required)
- * - Password (optional - leave blank to keep current)
+ * - Password (optional - leave blank to keep current; must satisfy
+ *   the password policy in utils/passwordPolicy)
  * 
  * FLOW:
  * 1. User navigates to /edit-profile
@@ -43,7 +44,13 @@ import { useAuth } from '../../context/AuthContext';
 import { useNavigate } from 'react-router-dom';
 
 // API service for profile updates
-import { authApi } from '../../services/api';
+import { authApi, fieldErrorsOf } from '../../services/api';
+
+// Password strength rules shared with Register
+import { checkPasswordPolicy, PASSWORD_REQUIREMENTS } from '../../utils';
+
+// Inline validation message
+import { FieldError, invalidClass } from '../../components';
 
 // Icons for visual enhancement
 import { FaUserEdit, FaSave } from 'react-icons/fa';
@@ -85,6 +92,7 @@ const EditProfile: React.FC = () => {
     // UI state
     const [isLoading, setIsLoading] = useState(false);
     const [error, setError] = useState('');
+    const [fieldErrors, setFieldErrors] = useState<Record<string, string>>({});  // Inline messages by field
     const [success, setSuccess] = useState('');
 
     // ========================================
@@ -109,10 +117,21 @@ const EditProfile: React.FC = () => {
         e.preventDefault();
         if (!user) return;  // Safety check
 
-        setIsLoading(true);
         setError('');
+        setFieldErrors({});
         setSuccess('');
 
+        // Validate the new password only if the user entered one
+        if (formData.password) {
+            const passwordError = checkPasswordPolicy(formData.password, user.username);
+            if (passwordError) {
+                setFieldErrors({ password: passwordError });
+                return;
+            }
+        }
+
+        setIsLoading(true);
+
         try {
             // Prepare update data - don't send empty password
             const updateData: Record<string, string> = { ...formData };
@@ -131,7 +150,12 @@ const EditProfile: React.FC = () => {
             setTimeout(() => navigate('/profile'), 1500);
 
         } catch (err: unknown) {
-            setError(err instanceof Error ? err.message : 'Failed to update profile');
+            // Invalid fields are shown next to their inputs; anything else above the form
+            const errors = fieldErrorsOf(err);
+            setFieldErrors(errors);
+            if (Object.keys(errors).length === 0) {
+                setError(err instanceof Error ? err.message : 'Failed to update profile');
+            }
         } finally {
             setIsLoading(false);
         }
@@ -169,23 +193,25 @@ const EditProfile: React.FC = () => {
                                         <label className="form-label">First Name</label>
                                         <input
                                             type="text"
-                                            className="form-control"
+                                            className={`form-control${invalidClass(fieldErrors, 'firstName')}`}
                                             name="firstName"
                                             value={formData.firstName}
                                             onChange={handleChange}
                                             required
                                         />
+                                        <FieldError message={fieldErrors.firstName} />
                                     </div>
                                     <div className="col-md-6">
                                         <label className="form-label">Last Name</label>
                                         <input
                                             type="text"
-                                            className="form-control"
+                                            className={`form-control${invalidClass(fieldErrors, 'lastName')}`}
                                             name="lastName"
                                             value={formData.lastName}
                                             onChange={handleChange}
                                             required
                                         />
+                                        <FieldError message={fieldErrors.lastName} />
                                     </div>
                                 </div>
 
@@ -194,12 +220,13 @@ const EditProfile: React.FC = () => {
                                     <label className="form-label">Email Address</label>
                                     <input
                                         type="email"
-                                        className="form-control"
+                                        className={`form-control${invalidClass(fieldErrors, 'email')}`}
                                         name="email"
                                         value={formData.email}
                                         onChange={handleChange}
                                         required
                                     />
+                                    <FieldError message={fieldErrors.email} />
                                 </div>
 
                                 {/* Phone Field */}
@@ -207,25 +234,27 @@ const EditProfile: React.FC = () => {
                                     <label className="form-label">Phone Number</label>
                                     <input
                                         type="tel"
-                                        className="form-control"
+                                        className={`form-control${invalidClass(fieldErrors, 'phone')}`}
                                         name="phone"
                                         value={formData.phone}
                                         onChange={handleChange}
                                         required
                                     />
+                                    <FieldError message={fieldErrors.phone} />
                                 </div>
 
                                 {/* Shipping Address Field */}
                                 <div className="mb-3">
                                     <label className="form-label">Shipping Address</label>
                                     <textarea
-                                        className="form-control"
+                                        className={`form-control${invalidClass(fieldErrors, 'shippingAddress')}`}
                                         name="shippingAddress"
                                         rows={3}
                                         value={formData.shippingAddress}
                                         onChange={handleChange}
                                         required
                                     ></textarea>
+                                    <FieldError message={fieldErrors.shippingAddress} />
                                 </div>
 
                                 <hr className="my-4" />
@@ -238,13 +267,14 @@ const EditProfile: React.FC = () => {
                                     <label className="form-label">New Password</label>
                                     <input
                                         type="password"
-                                        className="form-control"
+                                        className={`form-control${invalidClass(fieldErrors, 'password')}`}
                                         name="password"
                                         value={formData.password}
                                         onChange={handleChange}
                                         placeholder="New password"
-                                        minLength={6}
                                     />
+                                    <FieldError message={fieldErrors.password} />
+                                    <div className="form-text">{PASSWORD_REQUIREMENTS}</div>
                                 </div>
 
                                 <div className="d-grid gap-2">
@@ -14,12 +14,12 @@
  *    - Call-to-action buttons
  * 
  * 2. CATEGORIES SECTION
- *    - Visual cards for each book category
- *    - Icons and color-coded gradients
- *    - Links to filtered book views
+ *    - Visual cards for each top-level category
+ *    - Icons and gradients in each category's color
+ *    - Links to filtered book views (including subcategories)
  * 
  * 3. FEATURED BOOKS
- *    - Displays first 4 books as featured
+ *    - Displays first 4 books as featured (one card per work, with its formats)
  *    - Uses BookCard component
  *    - Responsive grid layout
  * 
@@ -43,7 +43,7 @@ import React, { useState, useEffect } from 'react';
 import { Link } from 'react-router-dom';
 
 // Type imports
-import { Book, BookCategory } from '../../types';
+import { Book, Category } from '../../types';
 
 // API service for fetching books
 import { booksApi } from '../../services/api';
@@ -51,28 +51,40 @@ import { booksApi } from '../../services/api';
 // Reusable components
 import { BookCard, LoadingSpinner } from '../../components';
 
+// Category taxonomy
+import { useCategories } from '../../context/CategoryContext';
+import { sortCategoryTree, descendantIds } from 'bookstore-shared/categoryTree';
+
+// Cover thumbnails, and the stand-in for books without a cover
+import { coverUrl, placeholderCover } from 'bookstore-shared/covers';
+
+// Editions of the same work are shown together
+import { groupEditions } from 'bookstore-shared/editions';
+
+// Card backgrounds from the category's own color
+import { categoryGradient } from '../../utils';
+
 // Icons for visual enhancement
-import { FaSearch, FaBook, FaFlask, FaPalette, FaPray, FaLandmark, FaGlobeAmericas } from 'react-icons/fa';
-
-/** Available book categories */
-const categories: BookCategory[] = ['Science', 'Art', 'Religion', 'History', 'Geography'];
-
-/** Icon mapping for each category */
-const categoryIcons: { [key: string]: React.ReactNode } = {
-  'Science': <FaFlask size={32} />,
-  'Art': <FaPalette size={32} />,
-  'Religion': <FaPray size={32} />,
-  'History': <FaLandmark size={32} />,
-  'Geography': <FaGlobeAmericas size={32} />
+import { FaSearch, FaBook, FaFlask, FaPalette, FaPray, FaLandmark, FaGlobeAmericas, FaTags } from 'react-icons/fa';
+
+/** Icons for the original categories, by slug; other categories get FaTags */
+const categoryIcons: { [slug: string]: React.ReactNode } = {
+  'science': <FaFlask size={32} />,
+  'art': <FaPalette size={32} />,
+  'religion': <FaPray size={32} />,
+  'history': <FaLandmark size={32} />,
+  'geography': <FaGlobeAmericas size={32} />
 };
 
-/** Color gradients for category cards */
-const categoryColors: { [key: string]: string } = {
-  'Science': 'linear-gradient(135deg, #0ea5e9 0%, #0284c7 100%)',
-  'Art': 'linear-gradient(135deg, #f59e0b 0%, #d97706 100%)',
-  'Religion': 'linear-gradient(135deg, #8b5cf6 0%, #7c3aed 100%)',
-  'History': 'linear-gradient(135deg, #ef4444 0%, #dc2626 100%)',
-  'Geography': 'linear-gradient(135deg, #10b981 0%, #059669 100%)'
+/**
+ * Books listed under a category or any of its subcategories
+ * @param books - Books to filter
+ * @param categories - The whole taxonomy
+ * @param category - Category to filter by
+ */
+const booksInCategory = (books: Book[], categories: Category[], category: Category): Book[] => {
+  const ids = descendantIds(categories, category.id);
+  return books.filter(book => book.categories.some(c => ids.has(c.id)));
 };
 
 /**
@@ -97,9 +109,13 @@ const Home: React.FC = () => {
   // Search query from hero section
   const [searchQuery, setSearchQuery] = useState('');
   
-  // Selected category filter
+  // Selected category filter (slug)
   const [selectedCategory, setSelectedCategory] = useState<string>('');
 
+  // Category taxonomy for the filter and the category cards
+  const { categories } = useCategories();
+  const topCategories = categories.filter(category => category.parentId === null);
+
   // ========================================
   // DATA LOADING
   // ========================================
@@ -116,7 +132,7 @@ const Home: React.FC = () => {
    */
   useEffect(() => {
     filterBooks();
-  }, [books, searchQuery, selectedCategory]);
+  }, [books, categories, searchQuery, selectedCategory]);
 
   /**
    * Loads all books from the API
@@ -149,14 +165,15 @@ const Home: React.FC = () => {
       result = result.filter(book =>
         book.title.toLowerCase().includes(query) ||
         book.isbn.toLowerCase().includes(query) ||
-        book.authors.some(a => a.toLowerCase().includes(query)) ||
-        book.publisher.toLowerCase().includes(query)
+        book.authors.some(a => a.name.toLowerCase().includes(query)) ||
+        (book.publisher?.toLowerCase().includes(query) ?? false)
       );
     }
 
-    // Apply category filter
+    // Apply category filter (the category and its subcategories)
     if (selectedCategory) {
-      result = result.filter(book => book.category === selectedCategory);
+      const category = categories.find(c => c.slug === selectedCategory);
+      result = category ? booksInCategory(result, categories, category) : [];
     }
 
     setFilteredBooks(result);
@@ -171,8 +188,9 @@ const Home: React.FC = () => {
     filterBooks();
   };
 
-  // Get first 4 books as "featured"
-  const featuredBooks = books.slice(0, 4);
+  // Get first 4 works as "featured", each with its editions
+  const works = groupEditions(books);
+  const featuredWorks = works.slice(0, 4);
 
   // ========================================
   // RENDER
@@ -230,10 +248,10 @@ const Home: React.FC = () => {
             <div className="col-lg-6 text-center d-none d-lg-block">
               <div className="position-relative">
                 <div className="row g-3">
-                  {books.slice(0, 3).map((book, index) => (
-                    <div className="col-4" key={book.isbn}>
+                  {works.slice(0, 3).map(([book], index) => (
+                    <Link to={`/books/${book.isbn}`} className="col-4" key={book.isbn}>
                       <img
-                        src={book.imageUrl || `https://via.placeholder.com/300x400?text=${encodeURIComponent(book.title)}`}
+                        src={coverUrl(book.imageUrl, 'thumbnail') ?? placeholderCover(book.title)}
                         alt={book.title}
                         className="img-fluid rounded-3 shadow-lg"
                         style={{
@@ -241,10 +259,10 @@ const Home: React.FC = () => {
                           transition: 'transform 0.3s ease'
                         }}
                         onError={(e) => {
-                          e.currentTarget.src = `https://via.placeholder.com/300x400/f43f5e/ffffff?text=${encodeURIComponent(book.title.substring(0, 10))}`;
+                          e.currentTarget.src = placeholderCover(book.title);
                         }}
                       />
-                    </div>
+                    </Link>
                   ))}
                 </div>
               </div>
@@ -280,8 +298,10 @@ const Home: React.FC = () => {
                     onChange={(e) => setSelectedCategory(e.target.value)}
                   >
                     <option value="">All Categories</option>
-                    {categories.map(cat => (
-                      <option key={cat} value={cat}>{cat}</option>
+                    {sortCategoryTree(categories).map(({ category, depth }) => (
+                      <option key={category.id} value={category.slug}>
+                        {'\u00a0\u00a0'.repeat(depth)}{category.name}
+                      </option>
                     ))}
                   </select>
                 </div>
@@ -309,9 +329,9 @@ const Home: React.FC = () => {
             </Link>
           </div>
           <div className="row row-cols-1 row-cols-sm-2 row-cols-md-3 row-cols-lg-4 g-4">
-            {featuredBooks.map(book => (
-              <div className="col" key={book.isbn}>
-                <BookCard book={book} />
+            {featuredWorks.map(editions => (
+              <div className="col" key={editions[0].workId}>
+                <BookCard book={editions[0]} editions={editions} />
               </div>
             ))}
           </div>
@@ -326,20 +346,20 @@ const Home: React.FC = () => {
             <p className="text-muted">Find books in your favorite genre</p>
           </div>
           <div className="row row-cols-2 row-cols-md-3 row-cols-lg-5 g-4">
-            {categories.map(category => (
-              <div className="col" key={category}>
+            {topCategories.map(category => (
+              <div className="col" key={category.id}>
                 <Link
-                  to={`/books?category=${category}`}
+                  to={`/books?category=${category.slug}`}
                   className="card h-100 text-decoration-none text-white border-0"
-                  style={{ background: categoryColors[category], minHeight: '160px' }}
+                  style={{ background: categoryGradient(category.color), minHeight: '160px' }}
                 >
                   <div className="card-body d-flex flex-column justify-content-center align-items-center text-center">
                     <div className="mb-3 opacity-90">
-                      {categoryIcons[category]}
+                      {categoryIcons[category.slug] ?? <FaTags size={32} />}
                     </div>
-                    <h5 className="card-title fw-bold mb-1">{category}</h5>
+                    <h5 className="card-title fw-bold mb-1">{category.name}</h5>
                     <p className="card-text small opacity-75 mb-0">
-                      {books.filter(b => b.category === category).length} books
+                      {booksInCategory(books, categories, category).length} books
                     </p>
                   </div>
                 </Link>
@@ -13,13 +13,14 @@
  * ORDER INFORMATION:
  * - Order ID (unique identifier)
  * - Order date
- * - Order status (Completed, Processing, Cancelled)
+ * - Order status (Pending, Shipped, Delivered, Cancelled)
  * - Items list with quantities and prices
  * - Total amount
  * 
  * ORDER STATUSES:
- * - Completed: Order has been fulfilled (green badge)
- * - Processing: Order is being processed (yellow badge)
+ * - Pending: Order placed, awaiting shipment (yellow badge)
+ * - Shipped: Order is on its way (blue badge)
+ * - Delivered: Order has been fulfilled (green badge)
  * - Cancelled: Order was cancelled (red badge)
  * 
  * ACCESS: Authenticated customers only
@@ -35,8 +36,8 @@ import React, { useState, useEffect } from 'react';
 // Auth context for getting current user
 import { useAuth } from '../../context/AuthContext';
 
-// Type import for order data structure
-import { CustomerOrder } from '../../types';
+// Type imports for order data structure
+import { CustomerOrder, CustomerOrderStatus } from '../../types';
 
 // API service for fetching orders
 import { customerOrdersApi } from '../../services/api';
@@ -44,6 +45,12 @@ import { customerOrdersApi } from '../../services/api';
 // Loading spinner component
 import { LoadingSpinner } from '../../components';
 
+// Format names, to tell editions of the same title apart
+import { FORMAT_LABELS } from 'bookstore-shared/editions';
+
+// Hyphenated ISBNs for the item table
+import { formatIsbn } from 'bookstore-shared/isbn';
+
 // Icons for visual enhancement
 import { FaReceipt, FaCalendar, FaBoxOpen } from 'react-icons/fa';
 
@@ -95,7 +102,7 @@ const OrderHistory: React.FC = () => {
     try {
       const data = await customerOrdersApi.getByCustomer(user.id);
       // Sort orders by date - newest first
-      setOrders(data.sort((a, b) => new Date(b.orderDate).getTime() - new Date(a.orderDate).getTime()));
+      setOrders(data.sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()));
     } catch (error) {
       console.error('Failed to load orders:', error);
     } finally {
@@ -109,18 +116,27 @@ const OrderHistory: React.FC = () => {
 
   /**
    * Returns the appropriate Bootstrap badge class for order status
-   * @param status - Order status string
+   * @param status - Order status
    * @returns Bootstrap badge class name
    */
-  const getStatusBadge = (status: string) => {
-    const classes: { [key: string]: string } = {
-      'Completed': 'bg-success',       // Green for completed
-      'Processing': 'bg-warning text-dark',  // Yellow for processing
-      'Cancelled': 'bg-danger'         // Red for cancelled
+  const getStatusBadge = (status: CustomerOrderStatus) => {
+    const classes: Record<CustomerOrderStatus, string> = {
+      pending: 'bg-warning text-dark',  // Yellow for pending
+      shipped: 'bg-info text-dark',     // Blue for shipped
+      delivered: 'bg-success',          // Green for delivered
+      cancelled: 'bg-danger'            // Red for cancelled
     };
     return classes[status] || 'bg-secondary';  // Grey as fallback
   };
 
+  /**
+   * Capitalizes an order status for display ('pending' -> 'Pending')
+   * @param status - Order status
+   * @returns Display label
+   */
+  const getStatusLabel = (status: CustomerOrderStatus) =>
+    status.charAt(0).toUpperCase() + status.slice(1);
+
   // ========================================
   // RENDER
   // ========================================
@@ -170,7 +186,7 @@ const OrderHistory: React.FC = () => {
                     {/* Order date with calendar icon */}
                     <p className="mb-1 small">
                       <FaCalendar className="me-1" />
-                      {new Date(order.orderDate).toLocaleDateString()}
+                      {new Date(order.createdAt).toLocaleDateString()}
                     </p>
                     {/* Item count */}
                     <small>{order.items.length} item(s)</small>
@@ -178,11 +194,11 @@ const OrderHistory: React.FC = () => {
                   <div className="text-end">
                     {/* Status badge */}
                     <span className={`badge ${getStatusBadge(order.status)}`}>
-                      {order.status}
+                      {getStatusLabel(order.status)}
                     </span>
                     {/* Total amount */}
                     <p className={`mb-0 mt-1 fw-bold ${selectedOrder?.id === order.id ? '' : 'text-primary'}`}>
-                      ${order.totalAmount.toFixed(2)}
+                      ${order.totalPrice.toFixed(2)}
                     </p>
                   </div>
                 </div>
@@ -204,13 +220,13 @@ const OrderHistory: React.FC = () => {
                 <div className="row mb-3">
                   <div className="col-6">
                     <strong>Order Date:</strong>
-                    <p className="mb-0">{new Date(selectedOrder.orderDate).toLocaleDateString()}</p>
+                    <p className="mb-0">{new Date(selectedOrder.createdAt).toLocaleDateString()}</p>
                   </div>
                   <div className="col-6 text-end">
                     <strong>Status:</strong>
                     <p className="mb-0">
                       <span className={`badge ${getStatusBadge(selectedOrder.status)}`}>
-                        {selectedOrder.status}
+                        {getStatusLabel(selectedOrder.status)}
                       </span>
                     </p>
                   </div>
@@ -235,11 +251,14 @@ const OrderHistory: React.FC = () => {
                       {/* Map through order items */}
                       {selectedOrder.items.map(item => (
                         <tr key={item.isbn}>
-                          <td><small>{item.isbn}</small></td>
-                          <td>{item.title}</td>
+                          <td><small>{formatIsbn(item.isbn)}</small></td>
+                          <td>
+                            {item.title}
+                            <small className="text-muted ms-2">{FORMAT_LABELS[item.format]}</small>
+                          </td>
                           <td className="text-center">{item.quantity}</td>
-                          <td className="text-end">${item.pricePerUnit.toFixed(2)}</td>
-                          <td className="text-end">${item.totalPrice.toFixed(2)}</td>
+                          <td className="text-end">${item.price.toFixed(2)}</td>
+                          <td className="text-end">${(item.price * item.quantity).toFixed(2)}</td>
                         </tr>
                       ))}
                     </tbody>
@@ -247,7 +266,7 @@ const OrderHistory: React.FC = () => {
                     <tfoot>
                       <tr className="table-primary">
                         <td colSpan={4} className="text-end fw-bold">Total:</td>
-                        <td className="text-end fw-bold">${selectedOrder.totalAmount.toFixed(2)}</td>
+                        <td className="text-end fw-bold">${selectedOrder.totalPrice.toFixed(2)}</td>
                       </tr>
                     </tfoot>
                   </table>
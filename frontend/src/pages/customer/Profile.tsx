@@ -36,6 +36,15 @@ import React, { useState } from 'react';
 // Auth context for user data and update function
 import { useAuth } from '../../context/AuthContext';
 
+// Display names for roles
+import { ROLE_LABELS } from '../../utils';
+
+// Per-field messages from API validation errors
+import { fieldErrorsOf } from '../../services/api';
+
+// Inline validation message
+import { FieldError, invalidClass } from '../../components';
+
 // Icons for visual enhancement
 import { FaUser, FaSave, FaEdit } from 'react-icons/fa';
 
@@ -71,6 +80,7 @@ const Profile: React.FC = () => {
   
   // UI state for feedback messages
   const [error, setError] = useState('');
+  const [fieldErrors, setFieldErrors] = useState<Record<string, string>>({});  // Inline messages by field
   const [success, setSuccess] = useState('');
   const [isLoading, setIsLoading] = useState(false);
 
@@ -96,6 +106,7 @@ const Profile: React.FC = () => {
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setError('');
+    setFieldErrors({});
     setSuccess('');
     setIsLoading(true);
 
@@ -104,7 +115,12 @@ const Profile: React.FC = () => {
       setSuccess('Profile updated successfully!');
       setIsEditing(false);  // Exit edit mode on success
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'Failed to update profile');
+      // Invalid fields are shown next to their inputs; anything else above the form
+      const errors = fieldErrorsOf(err);
+      setFieldErrors(errors);
+      if (Object.keys(errors).length === 0) {
+        setError(err instanceof Error ? err.message : 'Failed to update profile');
+      }
     } finally {
       setIsLoading(false);
     }
@@ -124,6 +140,7 @@ const Profile: React.FC = () => {
     });
     setIsEditing(false);
     setError('');
+    setFieldErrors({});
   };
 
   // ========================================
@@ -184,7 +201,7 @@ const Profile: React.FC = () => {
                     <input
                       type="text"
                       className="form-control"
-                      value={user?.role === 'admin' ? 'Administrator' : 'Customer'}
+                      value={user ? ROLE_LABELS[user.role] : ''}
                       disabled
                     />
                   </div>
@@ -195,25 +212,27 @@ const Profile: React.FC = () => {
                     <label className="form-label">First Name</label>
                     <input
                       type="text"
-                      className="form-control"
+                      className={`form-control${invalidClass(fieldErrors, 'firstName')}`}
                       name="firstName"
                       value={formData.firstName}
                       onChange={handleChange}
                       disabled={!isEditing}
                       required
                     />
+                    <FieldError message={fieldErrors.firstName} />
                   </div>
                   <div className="col-md-6">
                     <label className="form-label">Last Name</label>
                     <input
                       type="text"
-                      className="form-control"
+                      className={`form-control${invalidClass(fieldErrors, 'lastName')}`}
                       name="lastName"
                       value={formData.lastName}
                       onChange={handleChange}
                       disabled={!isEditing}
                       required
                     />
+                    <FieldError message={fieldErrors.lastName} />
                   </div>
                 </div>
 
@@ -221,32 +240,34 @@ const Profile: React.FC = () => {
                   <label className="form-label">Email</label>
                   <input
                     type="email"
-                    className="form-control"
+                    className={`form-control${invalidClass(fieldErrors, 'email')}`}
                     name="email"
                     value={formData.email}
                     onChange={handleChange}
                     disabled={!isEditing}
                     required
                   />
+                  <FieldError message={fieldErrors.email} />
                 </div>
 
                 <div className="mb-3">
                   <label className="form-label">Phone</label>
                   <input
                     type="tel"
-                    className="form-control"
+                    className={`form-control${invalidClass(fieldErrors, 'phone')}`}
                     name="phone"
                     value={formData.phone}
                     onChange={handleChange}
                     disabled={!isEditing}
                     required
                   />
+                  <FieldError message={fieldErrors.phone} />
                 </div>
 
                 <div className="mb-3">
                   <label className="form-label">Shipping Address</label>
                   <textarea
-                    className="form-control"
+                    className={`form-control${invalidClass(fieldErrors, 'shippingAddress')}`}
                     name="shippingAddress"
                     value={formData.shippingAddress}
                     onChange={handleChange}
@@ -254,6 +275,7 @@ const Profile: React.FC = () => {
                     rows={3}
                     required
                   />
+                  <FieldError message={fieldErrors.shippingAddress} />
                 </div>
 
                 {isEditing && (
@@ -2,12 +2,12 @@
  * @fileoverview Customer Pages Barrel Export
  * 
  * Re-exports all customer-facing page components.
- * Some pages are public (Home, BrowseBooks), others require customer authentication.
+ * Some pages are public (Home, BrowseBooks, BookDetail, AuthorPage), others require customer authentication.
  * 
  * @module pages/customer
  * 
  * @example
- * import { Home, BrowseBooks, Cart, OrderHistory, Profile, EditProfile } from './customer';
+ * import { Home, BrowseBooks, BookDetail, AuthorPage, Cart, OrderHistory, Profile, EditProfile } from './customer';
  */
 
 /** Home - Landing page with hero, categories, and featured books (public) */
@@ -16,6 +16,12 @@ export { default as Home } from './Home';
 /** BrowseBooks - Book catalog with filtering, sorting, and search (public) */
 export { default as BrowseBooks } from './BrowseBooks';
 
+/** BookDetail - A book's details, purchase controls and related books (public) */
+export { default as BookDetail } from './BookDetail';
+
+/** AuthorPage - An author's details and books (public) */
+export { default as AuthorPage } from './AuthorPage';
+
 /** Cart - Shopping cart with checkout functionality (customer only) */
 export { default as Cart } from './Cart';
 
@@ -16,5 +16,5 @@ export * from './auth';
 /** Admin pages: Dashboard, BookManagement, OrderManagement, Reports */
 export * from './admin';
 
-/** Customer pages: Home, BrowseBooks, Cart, OrderHistory, Profile, EditProfile */
+/** Customer pages: Home, BrowseBooks, BookDetail, AuthorPage, Cart, OrderHistory, Profile, EditProfile */
 export * from './customer';
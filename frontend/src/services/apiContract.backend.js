@@ -0,0 +1,35 @@
+/**
+ * ============================================================================
+ * API CONTRACT SUITE - BACKEND SERVER
+ * ============================================================================
+ *
+ * Vitest global setup for apiContract.test.ts: starts the Express backend
+ * (../backend) on a free port, with an in-memory PGlite database migrated
+ * and seeded from the same fixtures as a new installation, so the http
+ * transport is tested against the real API. The base URL is handed to
+ * the suite as 'apiBaseUrl'; the server stops when the run ends.
+ *
+ * Plain JavaScript because it runs in Node, outside the app, and loads
+ * the CommonJS backend with require.
+ *
+ * @author Bookstore Development Team
+ * @version 1.0.0
+ * ============================================================================
+ */
+
+import { createRequire } from 'node:module';
+
+const require = createRequire(import.meta.url);
+
+/**
+ * Starts the backend for the test run
+ *
+ * @param {{ provide: (key: string, value: unknown) => void }} context - Vitest global setup context
+ * @returns {Promise<() => Promise<void>>} Teardown stopping the server
+ */
+export default async function setup({ provide }) {
+  const { startServer } = require('../../../backend/test/helpers.js');
+  const server = await startServer();
+  provide('apiBaseUrl', server.url);
+  return () => server.close();
+}
@@ -0,0 +1,689 @@
+/**
+ * ============================================================================
+ * API CONTRACT SUITE
+ * ============================================================================
+ *
+ * Runs the same requests through every transport and checks that each
+ * keeps the contract in apiContract.ts:
+ * - mock: the in-memory store of mockApi.ts
+ * - http: httpApi.ts against the Express backend, started on an
+ *   in-memory PGlite database by apiContract.backend.js
+ *
+ * Both start from the same fixtures, so a test that passes for one and
+ * fails for the other has found a transport that breaks the contract.
+ * Responses are checked against the shared zod schemas (bookstore-shared),
+ * which the backend's OpenAPI document is generated from.
+ *
+ * Tests in a transport's block run in order and build on each other,
+ * like a session in the app: the admin manages the catalog, then a new
+ * customer shops.
+ *
+ * @author Bookstore Development Team
+ * @version 1.0.0
+ * ============================================================================
+ */
+
+import { describe, it, expect, beforeAll, inject, vi } from 'vitest';
+// The full shared package, zod schemas included, is fine here: tests are
+// not bundled into the app
+import {
+  userSchema,
+  bookSchema,
+  catalogSearchResultSchema,
+  searchSuggestionsSchema,
+  bookImportReportSchema,
+  coverUploadSchema,
+  bookRecommendationSchema,
+  priceChangeSchema,
+  priceRuleSchema,
+  categorySchema,
+  authorSchema,
+  publisherSchema,
+  publisherOrderSchema,
+  cartSchema,
+  customerOrderSchema,
+  salesReportSchema,
+  topCustomerSchema,
+  bookSalesReportSchema,
+  bookOrderCountSchema,
+  pricePeriodReportSchema
+} from 'bookstore-shared';
+import type { ApiTransport } from './apiContract';
+import { ApiValidationError, fieldErrorsOf } from './apiErrors';
+import type { BookFormData, RegisterData, SearchSort } from '../types';
+
+declare module 'vitest' {
+  export interface ProvidedContext {
+    /** Base URL of the backend started by apiContract.backend.js */
+    apiBaseUrl: string;
+  }
+}
+
+// ============================================
+// FIXTURES
+// ============================================
+
+/** The Art of Computer Programming: from Addison-Wesley, with publisher orders */
+const KNUTH_ISBN = '9780134685991';
+
+/** A History of Modern Europe: no orders of any kind */
+const EUROPE_ISBN = '9780199535569';
+
+/** Valid ISBNs that are not in the fixtures */
+const NEW_ISBN = '9780306406157';
+const SECOND_EDITION_ISBN = '9781402894626';
+const UNKNOWN_ISBN = '9783161484100';
+
+/** A 1x1 PNG */
+const PNG_BYTES = Uint8Array.from(atob(
+  'iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNk+M9QDwADhgGAWjR9awAAAABJRU5ErkJggg=='
+), c => c.charCodeAt(0));
+
+/** Payment details that pass validation */
+const CARD = { creditCardNumber: '4111 1111 1111 1111', expiryDate: '12/30', cvv: '123' };
+
+/**
+ * A new customer account
+ *
+ * @param username - Username of the account
+ * @returns Registration data
+ */
+const newCustomer = (username: string): RegisterData => ({
+  username,
+  password: 'Secret123',
+  email: `${username}@example.com`,
+  firstName: 'Contract',
+  lastName: 'Reader',
+  phone: '555-0142',
+  shippingAddress: '12 Contract Lane, Springfield'
+});
+
+/**
+ * A new book
+ *
+ * @param publisherId - ID of its publisher
+ * @param overrides - Fields to change
+ * @returns Form data for booksApi.add
+ */
+const newBook = (publisherId: string, overrides: Partial<BookFormData> = {}): BookFormData => ({
+  isbn: NEW_ISBN,
+  title: 'Contract Testing in Practice',
+  format: 'paperback',
+  authors: 'Ada Contract',
+  publisherId,
+  publicationYear: 2024,
+  sellingPrice: 39.5,
+  categories: ['science'],
+  quantity: 12,
+  threshold: 3,
+  description: null,
+  pageCount: 240,
+  language: 'en',
+  edition: null,
+  heightMm: null,
+  widthMm: null,
+  thicknessMm: null,
+  weightGrams: null,
+  tags: 'testing, apis',
+  ...overrides
+});
+
+/** A catalog file row for a book that is not in the fixtures */
+const IMPORT_ROW = {
+  isbn: SECOND_EDITION_ISBN,
+  title: 'Contract Testing in Practice',
+  publisher: 'Addison-Wesley',
+  publicationYear: 2025,
+  sellingPrice: 44,
+  authors: ['Ada Contract'],
+  categories: ['science']
+};
+
+/**
+ * A date as YYYY-MM-DD
+ *
+ * @param date - The date
+ * @returns The date part of its ISO string
+ */
+const isoDate = (date: Date): string => date.toISOString().slice(0, 10);
+
+// ============================================
+// ASSERTIONS
+// ============================================
+
+/** What the suite needs of a shared zod schema */
+interface ResponseSchema {
+  safeParse(value: unknown): { success: boolean; error?: { issues: unknown[] } };
+}
+
+/**
+ * Expects a value to match a shared schema, listing every mismatch
+ *
+ * @param schema - Schema of the response
+ * @param value - The response
+ */
+const expectShape = (schema: ResponseSchema, value: unknown): void => {
+  expect(schema.safeParse(value).error?.issues ?? []).toEqual([]);
+};
+
+/**
+ * Expects each item of a list to match a shared schema
+ *
+ * @param schema - Schema of one item
+ * @param values - The response
+ */
+const expectEach = (schema: ResponseSchema, values: unknown[]): void => {
+  for (const value of values) expectShape(schema, value);
+};
+
+/**
+ * Expects a call to reject with an ApiValidationError on a field
+ *
+ * @param promise - The call
+ * @param field - Field the error should name
+ */
+const expectInvalid = async (promise: Promise<unknown>, field: string): Promise<void> => {
+  const error = await promise.then(() => undefined, (err: unknown) => err);
+  expect(error).toBeInstanceOf(ApiValidationError);
+  expect(Object.keys(fieldErrorsOf(error))).toContain(field);
+};
+
+/**
+ * Expects a call to reject with a message for the user
+ *
+ * @param promise - The call
+ */
+const expectRejected = async (promise: Promise<unknown>): Promise<void> => {
+  const error = await promise.then(() => undefined, (err: unknown) => err);
+  expect(error).toBeInstanceOf(Error);
+  expect((error as Error).message).not.toBe('');
+};
+
+// ============================================
+// TRANSPORTS
+// ============================================
+
+/** Each transport, loaded the way services/api.ts loads it */
+const TRANSPORTS: [string, () => Promise<ApiTransport>][] = [
+  ['mock', async () => (await import('./mockApi')).mockTransport],
+  ['http', async () => {
+    // httpApi reads its base URL when it is loaded
+    vi.stubEnv('VITE_API_BASE_URL', inject('apiBaseUrl'));
+    return (await import('./httpApi')).httpTransport;
+  }]
+];
+
+describe.each(TRANSPORTS)('%s transport', (_name, load) => {
+  let api: ApiTransport;
+
+  beforeAll(async () => {
+    // Both transports keep their session in the same storage
+    localStorage.clear();
+    api = await load();
+  });
+
+  // ============================================
+  // AUTHENTICATION
+  // ============================================
+
+  describe('authApi', () => {
+    it('rejects a wrong password', async () => {
+      await expectRejected(api.authApi.login({ username: 'admin', password: 'not-the-password' }));
+      expect(await api.authApi.restoreSession()).toBeNull();
+    });
+
+    it('logs in and restores the session', async () => {
+      const user = await api.authApi.login({ username: 'admin', password: 'admin' });
+
+      expectShape(userSchema, user);
+      expect(user).toMatchObject({ username: 'admin', role: 'admin' });
+      expect(user).not.toHaveProperty('password');
+      expect(await api.authApi.restoreSession()).toEqual(user);
+    });
+
+    it('logs out', async () => {
+      await api.authApi.logout();
+      expect(await api.authApi.restoreSession()).toBeNull();
+    });
+
+    it('rejects weak passwords and taken usernames field by field', async () => {
+      await expectInvalid(api.authApi.register({ ...newCustomer('contract_weak'), password: 'short' }), 'password');
+      await expectInvalid(api.authApi.register(newCustomer('admin')), 'username');
+    });
+
+    it('registers a customer and updates their profile', async () => {
+      const user = await api.authApi.register(newCustomer('contract_reader'));
+      expectShape(userSchema, user);
+      expect(user).toMatchObject({ username: 'contract_reader', role: 'customer', firstName: 'Contract' });
+      expect(await api.authApi.restoreSession()).toEqual(user);
+
+      const updated = await api.authApi.updateProfile(user.id, { firstName: 'Connie' });
+      expect(updated).toMatchObject({ id: user.id, firstName: 'Connie', lastName: 'Reader' });
+
+      await api.authApi.logout();
+    });
+  });
+
+  // ============================================
+  // CATALOG (AS THE ADMIN)
+  // ============================================
+
+  describe('catalog', () => {
+    let publisherId: string;
+
+    beforeAll(async () => {
+      await api.authApi.login({ username: 'admin', password: 'admin' });
+      const publishers = await api.publishersApi.getAll();
+      publisherId = publishers.find(publisher => publisher.name === 'Addison-Wesley')!.id;
+    });
+
+    describe('booksApi', () => {
+      it('lists and finds books', async () => {
+        const books = await api.booksApi.getAll();
+        expectEach(bookSchema, books);
+        expect(books.map(book => book.isbn)).toContain(KNUTH_ISBN);
+
+        const knuth = await api.booksApi.getByIsbn(KNUTH_ISBN);
+        expect(knuth).toMatchObject({ isbn: KNUTH_ISBN, title: 'The Art of Computer Programming' });
+        expect(await api.booksApi.getByIsbn(UNKNOWN_ISBN)).toBeUndefined();
+      });
+
+      it('searches by text and filters', async () => {
+        const found = await api.booksApi.search('knuth');
+        expect(found.map(book => book.isbn)).toEqual([KNUTH_ISBN]);
+
+        const science = await api.booksApi.search('', { category: 'science' });
+        expect(science.map(book => book.isbn)).toContain(KNUTH_ISBN);
+        expect(science.every(book => book.categories.some(category => category.slug === 'science'))).toBe(true);
+      });
+
+      it('searches the catalog page by page, with facets', async () => {
+        const result = await api.booksApi.searchCatalog({ q: 'algorithms', pageSize: 5 });
+        expectShape(catalogSearchResultSchema, result);
+        expect(result.books.length).toBeGreaterThan(0);
+
+        await expectInvalid(api.booksApi.searchCatalog({ sort: 'cheapest' as SearchSort }), 'sort');
+      });
+
+      it('suggests books, authors and categories', async () => {
+        const suggestions = await api.booksApi.suggest('knu');
+        expectShape(searchSuggestionsSchema, suggestions);
+        expect(suggestions.books.map(book => book.isbn)).toContain(KNUTH_ISBN);
+      });
+
+      it('adds a book under its compact ISBN-13 and crediting a new name adds an author', async () => {
+        const book = await api.booksApi.add(newBook(publisherId, { isbn: '0-306-40615-2' }));
+
+        expectShape(bookSchema, book);
+        expect(book).toMatchObject({ isbn: NEW_ISBN, sellingPrice: 39.5, quantity: 12, tags: ['apis', 'testing'] });
+        expect(book.authors.map(author => author.name)).toEqual(['Ada Contract']);
+        expect(await api.booksApi.getByIsbn(NEW_ISBN)).toEqual(book);
+      });
+
+      it('rejects invalid books field by field', async () => {
+        await expectInvalid(api.booksApi.add(newBook(publisherId)), 'isbn');
+        await expectInvalid(
+          api.booksApi.add(newBook(publisherId, { isbn: SECOND_EDITION_ISBN, sellingPrice: 0 })),
+          'sellingPrice'
+        );
+        await expectInvalid(
+          api.booksApi.add(newBook(publisherId, { isbn: SECOND_EDITION_ISBN, sellingPrice: 10.999 })),
+          'sellingPrice'
+        );
+        expect(await api.booksApi.getByIsbn(SECOND_EDITION_ISBN)).toBeUndefined();
+        await expectInvalid(api.booksApi.update(NEW_ISBN, { sellingPrice: 39.499 }), 'sellingPrice');
+        expect((await api.booksApi.getByIsbn(NEW_ISBN))!.sellingPrice).toBe(39.5);
+      });
+
+      it('updates a book and records its price history', async () => {
+        const book = await api.booksApi.update(NEW_ISBN, { sellingPrice: 42 });
+        expect(book.sellingPrice).toBe(42);
+
+        const history = await api.booksApi.getPriceHistory(NEW_ISBN);
+        expectEach(priceChangeSchema, history);
+        expect(history.map(change => [change.source, change.previousPrice, change.price])).toEqual([
+          ['created', null, 39.5],
+          ['manual', 39.5, 42]
+        ]);
+      });
+
+      it('archives a book and puts it back on sale', async () => {
+        const archived = await api.booksApi.archive(NEW_ISBN);
+        expect(archived.archivedAt).not.toBeNull();
+        expect((await api.booksApi.getAll()).map(book => book.isbn)).not.toContain(NEW_ISBN);
+        expect((await api.booksApi.search('', { archived: 'only' })).map(book => book.isbn)).toEqual([NEW_ISBN]);
+        expect(await api.booksApi.getByIsbn(NEW_ISBN)).toMatchObject({ archivedAt: archived.archivedAt });
+
+        const restored = await api.booksApi.unarchive(NEW_ISBN);
+        expect(restored.archivedAt).toBeNull();
+        expect((await api.booksApi.getAll()).map(book => book.isbn)).toContain(NEW_ISBN);
+      });
+
+      it('uploads covers and rejects other files', async () => {
+        const upload = await api.booksApi.uploadCover(new File([PNG_BYTES], 'cover.png', { type: 'image/png' }));
+        expectShape(coverUploadSchema, upload);
+
+        await expectInvalid(
+          api.booksApi.uploadCover(new File(['not an image'], 'cover.txt', { type: 'text/plain' })),
+          'cover'
+        );
+      });
+
+      it('recommends books to go with a book', async () => {
+        const recommendations = await api.booksApi.getRecommendations(KNUTH_ISBN, 3);
+        expectEach(bookRecommendationSchema, recommendations);
+        expect(recommendations.length).toBeGreaterThan(0);
+        expect(recommendations.length).toBeLessThanOrEqual(3);
+        expect(recommendations.map(recommendation => recommendation.book.isbn)).not.toContain(KNUTH_ISBN);
+
+        expect(await api.booksApi.getRecommendations(UNKNOWN_ISBN)).toEqual([]);
+      });
+
+      it('reports what an import would do without saving it', async () => {
+        const rows = [IMPORT_ROW, { ...IMPORT_ROW, isbn: KNUTH_ISBN }];
+
+        const report = await api.booksApi.importCatalog(rows, { existing: 'skip', dryRun: true });
+
+        expectShape(bookImportReportSchema, report);
+        expect(report.summary).toEqual({ create: 1, update: 0, skip: 1, invalid: 0 });
+        expect(await api.booksApi.getByIsbn(SECOND_EDITION_ISBN)).toBeUndefined();
+      });
+
+      it('rejects an import with invalid rows and saves nothing', async () => {
+        const rows = [IMPORT_ROW, { ...IMPORT_ROW, isbn: 'not-an-isbn', sellingPrice: 0 }];
+
+        await expectInvalid(api.booksApi.importCatalog(rows, { existing: 'skip', dryRun: false }), 'books.1.isbn');
+        expect(await api.booksApi.getByIsbn(SECOND_EDITION_ISBN)).toBeUndefined();
+      });
+
+      it('deletes only books without orders', async () => {
+        await expectRejected(api.booksApi.delete(KNUTH_ISBN));
+        expect(await api.booksApi.getByIsbn(KNUTH_ISBN)).toBeDefined();
+      });
+    });
+
+    describe('authorsApi', () => {
+      it('lists, finds and updates authors', async () => {
+        const authors = await api.authorsApi.getAll();
+        expectEach(authorSchema, authors);
+        const knuth = authors.find(author => author.name === 'Donald Knuth')!;
+
+        expect(await api.authorsApi.getById(knuth.id)).toEqual(knuth);
+        expect(await api.authorsApi.getById('999999')).toBeUndefined();
+
+        const updated = await api.authorsApi.update(knuth.id, { aliases: ['D. E. Knuth'] });
+        expect(updated.aliases).toEqual(['D. E. Knuth']);
+        expect((await api.booksApi.search('', { author: 'D. E. Knuth' })).map(book => book.isbn)).toEqual([KNUTH_ISBN]);
+      });
+
+      it('merges an author into another', async () => {
+        const authors = await api.authorsApi.getAll();
+        const knuth = authors.find(author => author.name === 'Donald Knuth')!;
+        const duplicate = authors.find(author => author.name === 'Ada Contract')!;
+
+        const merged = await api.authorsApi.merge(knuth.id, duplicate.id);
+
+        expect(merged.id).toBe(knuth.id);
+        expect(merged.aliases).toEqual(expect.arrayContaining(['D. E. Knuth', 'Ada Contract']));
+        expect(await api.authorsApi.getById(duplicate.id)).toBeUndefined();
+        const book = await api.booksApi.getByIsbn(NEW_ISBN);
+        expect(book!.authors.map(author => author.id)).toEqual([knuth.id]);
+      });
+    });
+
+    describe('categoriesApi', () => {
+      it('adds, updates and deletes a category', async () => {
+        const category = await api.categoriesApi.add({ name: 'Contract Testing' });
+        expectShape(categorySchema, category);
+        expect(category).toMatchObject({ name: 'Contract Testing', slug: 'contract-testing', parentId: null });
+
+        const updated = await api.categoriesApi.update(category.id, { color: '#0EA5E9' });
+        expect(updated.color).toBe('#0ea5e9');
+
+        const categories = await api.categoriesApi.getAll();
+        expectEach(categorySchema, categories);
+        expect(categories).toContainEqual(updated);
+
+        await api.categoriesApi.delete(category.id);
+        expect((await api.categoriesApi.getAll()).map(c => c.id)).not.toContain(category.id);
+      });
+
+      it('rejects invalid categories and keeps categories with books', async () => {
+        await expectInvalid(api.categoriesApi.add({ name: '' }), 'name');
+
+        const science = (await api.categoriesApi.getAll()).find(category => category.slug === 'science')!;
+        await expectRejected(api.categoriesApi.delete(science.id));
+      });
+    });
+
+    describe('publishersApi', () => {
+      it('adds, updates and deletes a publisher', async () => {
+        const publisher = await api.publishersApi.add({ name: 'Contract Press' });
+        expectShape(publisherSchema, publisher);
+        expect(publisher.name).toBe('Contract Press');
+
+        const updated = await api.publishersApi.update(publisher.id, { phone: '555-0177', leadTimeDays: 3 });
+        expect(updated).toMatchObject({ id: publisher.id, phone: '555-0177', leadTimeDays: 3 });
+        expect(await api.publishersApi.getById(publisher.id)).toEqual(updated);
+
+        const publishers = await api.publishersApi.getAll();
+        expectEach(publisherSchema, publishers);
+
+        await api.publishersApi.delete(publisher.id);
+        expect(await api.publishersApi.getById(publisher.id)).toBeUndefined();
+      });
+
+      it('rejects a publisher without a name', async () => {
+        await expectInvalid(api.publishersApi.add({ name: '' }), 'name');
+      });
+    });
+
+    describe('ordersApi', () => {
+      it('places and confirms an order, which restocks the book', async () => {
+        const before = (await api.booksApi.getByIsbn(EUROPE_ISBN))!.quantity;
+
+        const order = await api.ordersApi.place(EUROPE_ISBN, 12);
+        expectShape(publisherOrderSchema, order);
+        expect(order).toMatchObject({ bookIsbn: EUROPE_ISBN, quantity: 12, status: 'Pending' });
+        expect((await api.ordersApi.getAll()).map(o => o.id)).toContain(order.id);
+
+        const confirmed = await api.ordersApi.confirm(order.id);
+        expect(confirmed).toMatchObject({ id: order.id, status: 'Confirmed' });
+        expect((await api.booksApi.getByIsbn(EUROPE_ISBN))!.quantity).toBe(before + 12);
+      });
+
+      it('cancels an order, which can then not be confirmed', async () => {
+        const before = (await api.booksApi.getByIsbn(EUROPE_ISBN))!.quantity;
+        const order = await api.ordersApi.place(EUROPE_ISBN, 5);
+
+        const cancelled = await api.ordersApi.cancel(order.id);
+        expect(cancelled).toMatchObject({ id: order.id, status: 'Cancelled' });
+
+        await expectRejected(api.ordersApi.confirm(order.id));
+        expect((await api.booksApi.getByIsbn(EUROPE_ISBN))!.quantity).toBe(before);
+      });
+
+      it('keeps a book with orders in the catalog', async () => {
+        await expectRejected(api.booksApi.delete(EUROPE_ISBN));
+      });
+    });
+
+    describe('priceRulesApi', () => {
+      it('schedules a price and cancels it', async () => {
+        const startsAt = new Date(Date.now() + 7 * 24 * 60 * 60 * 1000).toISOString();
+        const rule = await api.priceRulesApi.add({ isbn: NEW_ISBN, price: 30, label: 'Launch week', startsAt });
+
+        expectShape(priceRuleSchema, rule);
+        expect(rule).toMatchObject({ isbn: NEW_ISBN, price: 30, label: 'Launch week', status: 'scheduled' });
+        expect((await api.priceRulesApi.getAll({ isbn: NEW_ISBN })).map(r => r.id)).toEqual([rule.id]);
+        expect((await api.booksApi.getByIsbn(NEW_ISBN))!.sellingPrice).toBe(42);
+
+        const cancelled = await api.priceRulesApi.cancel(rule.id);
+        expect(cancelled.status).toBe('cancelled');
+        await expectRejected(api.priceRulesApi.cancel(rule.id));
+      });
+
+      it('applies a rule that has started and puts the price back when it is cancelled', async () => {
+        const startsAt = new Date(Date.now() - 60 * 1000).toISOString();
+        const endsAt = new Date(Date.now() + 24 * 60 * 60 * 1000).toISOString();
+
+        const rule = await api.priceRulesApi.add({ isbn: NEW_ISBN, price: 35, startsAt, endsAt });
+        expect(rule).toMatchObject({ status: 'active', previousPrice: 42 });
+        expect((await api.booksApi.getByIsbn(NEW_ISBN))!.sellingPrice).toBe(35);
+
+        await api.priceRulesApi.cancel(rule.id);
+        expect((await api.booksApi.getByIsbn(NEW_ISBN))!.sellingPrice).toBe(42);
+        const history = await api.booksApi.getPriceHistory(NEW_ISBN);
+        expect(history.map(change => change.price)).toEqual([39.5, 42, 35, 42]);
+      });
+
+      it('rejects invalid and overlapping rules', async () => {
+        const startsAt = new Date(Date.now() + 24 * 60 * 60 * 1000).toISOString();
+
+        await expectInvalid(api.priceRulesApi.add({ isbn: NEW_ISBN, price: -1, startsAt }), 'price');
+        await expectInvalid(api.priceRulesApi.add({ isbn: NEW_ISBN, price: 29.995, startsAt }), 'price');
+        await expectInvalid(
+          api.priceRulesApi.add({ isbn: NEW_ISBN, price: 30, startsAt, endsAt: startsAt }),
+          'endsAt'
+        );
+
+        await api.priceRulesApi.add({ isbn: NEW_ISBN, price: 30, startsAt });
+        await expectRejected(api.priceRulesApi.add({ isbn: NEW_ISBN, price: 31, startsAt }));
+      });
+    });
+
+    describe('cleanup', () => {
+      it('deletes a book without orders', async () => {
+        for (const rule of await api.priceRulesApi.getAll({ isbn: NEW_ISBN, status: 'scheduled' })) {
+          await api.priceRulesApi.cancel(rule.id);
+        }
+
+        await api.booksApi.delete(NEW_ISBN);
+        expect(await api.booksApi.getByIsbn(NEW_ISBN)).toBeUndefined();
+        await expectRejected(api.booksApi.delete(NEW_ISBN));
+
+        await api.authApi.logout();
+      });
+    });
+  });
+
+  // ============================================
+  // SHOPPING (AS A CUSTOMER)
+  // ============================================
+
+  describe('shopping', () => {
+    let userId: string;
+
+    beforeAll(async () => {
+      const user = await api.authApi.login({ username: 'contract_reader', password: 'Secret123' });
+      userId = user.id;
+    });
+
+    describe('cartApi', () => {
+      it('starts empty', async () => {
+        const cart = await api.cartApi.get();
+        expectShape(cartSchema, cart);
+        expect(cart.items).toEqual([]);
+        expect(await api.cartApi.getRecommendations()).toEqual([]);
+      });
+
+      it('adds, changes and removes items', async () => {
+        let cart = await api.cartApi.addItem(KNUTH_ISBN, 2);
+        expectShape(cartSchema, cart);
+        expect(cart.items.map(item => [item.book.isbn, item.quantity])).toEqual([[KNUTH_ISBN, 2]]);
+
+        cart = await api.cartApi.addItem(EUROPE_ISBN);
+        cart = await api.cartApi.updateQuantity(KNUTH_ISBN, 3);
+        expect(cart.items.find(item => item.book.isbn === KNUTH_ISBN)!.quantity).toBe(3);
+
+        cart = await api.cartApi.removeItem(EUROPE_ISBN);
+        expect(cart.items.map(item => item.book.isbn)).toEqual([KNUTH_ISBN]);
+        expect(await api.cartApi.get()).toEqual(cart);
+      });
+
+      it('rejects more copies than are in stock', async () => {
+        const { quantity } = (await api.booksApi.getByIsbn(KNUTH_ISBN))!;
+        await expectRejected(api.cartApi.updateQuantity(KNUTH_ISBN, quantity + 1));
+      });
+
+      it('recommends books to go with the cart', async () => {
+        const recommendations = await api.cartApi.getRecommendations(4);
+        expectEach(bookRecommendationSchema, recommendations);
+        expect(recommendations.length).toBeGreaterThan(0);
+        expect(recommendations.map(recommendation => recommendation.book.isbn)).not.toContain(KNUTH_ISBN);
+      });
+
+      it('rejects invalid payment details field by field', async () => {
+        await expectInvalid(api.cartApi.checkout({ ...CARD, creditCardNumber: '1234' }, userId), 'creditCardNumber');
+        expect((await api.cartApi.get()).items).toHaveLength(1);
+      });
+
+      it('checks out, which empties the cart and takes the copies from stock', async () => {
+        const { quantity } = (await api.booksApi.getByIsbn(KNUTH_ISBN))!;
+
+        const order = await api.cartApi.checkout(CARD, userId);
+
+        expectShape(customerOrderSchema, order);
+        expect(order.items.map(item => [item.isbn, item.quantity])).toEqual([[KNUTH_ISBN, 3]]);
+        expect((await api.cartApi.get()).items).toEqual([]);
+        expect((await api.booksApi.getByIsbn(KNUTH_ISBN))!.quantity).toBe(quantity - 3);
+      });
+
+      it('clears the cart', async () => {
+        await api.cartApi.addItem(EUROPE_ISBN, 1);
+        const cart = await api.cartApi.clear();
+        expect(cart.items).toEqual([]);
+      });
+    });
+
+    describe('customerOrdersApi', () => {
+      it('lists and finds the customer\'s orders', async () => {
+        const orders = await api.customerOrdersApi.getByCustomer(userId);
+        expectEach(customerOrderSchema, orders);
+        expect(orders).toHaveLength(1);
+
+        expect(await api.customerOrdersApi.getById(orders[0].id)).toEqual(orders[0]);
+        expect(await api.customerOrdersApi.getById('ORD-999999')).toBeUndefined();
+
+        await api.authApi.logout();
+      });
+    });
+  });
+
+  // ============================================
+  // REPORTS (AS THE ADMIN)
+  // ============================================
+
+  describe('reportsApi', () => {
+    beforeAll(async () => {
+      await api.authApi.login({ username: 'admin', password: 'admin' });
+    });
+
+    it('reports sales by month and day', async () => {
+      expectShape(salesReportSchema, await api.reportsApi.getMonthlySales());
+      expectShape(salesReportSchema, await api.reportsApi.getDailySales(isoDate(new Date())));
+    });
+
+    it('ranks customers and books', async () => {
+      const customers = await api.reportsApi.getTopCustomers();
+      expectEach(topCustomerSchema, customers);
+      expect(customers.map(customer => customer.customerName)).toContain('Connie Reader');
+
+      const books = await api.reportsApi.getTopSellingBooks();
+      expectEach(bookSalesReportSchema, books);
+      expect(books.map(book => book.isbn)).toContain(KNUTH_ISBN);
+    });
+
+    it('counts a book\'s orders', async () => {
+      const count = await api.reportsApi.getBookOrderCount(KNUTH_ISBN);
+      expectShape(bookOrderCountSchema, count);
+      expect(count.isbn).toBe(KNUTH_ISBN);
+    });
+
+    it('reports sales at each price', async () => {
+      const today = new Date();
+      const report = await api.reportsApi.getPricePeriods(isoDate(new Date(today.getTime() - 24 * 60 * 60 * 1000)), isoDate(today));
+      expectEach(pricePeriodReportSchema, report);
+    });
+  });
+});
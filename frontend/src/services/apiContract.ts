@@ -0,0 +1,320 @@
+/**
+ * ============================================================================
+ * API CONTRACT - Bookstore Application
+ * ============================================================================
+ *
+ * This module defines the typed API surface shared by every transport.
+ *
+ * The application talks to the API only through these interfaces, so the
+ * in-memory mock (mockApi.ts) and the REST client for the Express backend
+ * (httpApi.ts) are interchangeable. services/api.ts picks one at build time.
+ *
+ * CONTRACT RULES (all transports):
+ * - Every method returns a Promise
+ * - Failures reject with an Error whose message is safe to show to users
+ * - Invalid input rejects with an ApiValidationError (apiErrors.ts) that
+ *   lists each invalid field, for inline form errors
+ * - Returned objects are copies; mutating them does not change the store
+ *
+ * @author Bookstore Development Team
+ * @version 1.0.0
+ * ============================================================================
+ */
+
+import {
+  Book,
+  BookFormData,
+  BookUpdateData,
+  BookImportReport,
+  ImportExistingMode,
+  CoverUpload,
+  BookRecommendation,
+  CatalogSearchResult,
+  SearchSuggestions,
+  SearchSort,
+  Category,
+  CategoryCreateData,
+  CategoryUpdateData,
+  Author,
+  AuthorUpdateData,
+  Publisher,
+  PublisherCreateData,
+  PublisherUpdateData,
+  PublisherOrder,
+  User,
+  LoginCredentials,
+  RegisterData,
+  ProfileUpdateData,
+  CustomerOrder,
+  Cart,
+  CheckoutData,
+  SalesReport,
+  BookSalesReport,
+  TopCustomer,
+  BookOrderCount,
+  PricePeriodReport,
+  ArchivedFilter,
+  PriceChange,
+  PriceRule,
+  PriceRuleCreateData,
+  PriceRuleQuery
+} from '../types';
+
+/**
+ * Optional filters accepted by BooksApi.search
+ */
+export interface BookSearchFilter {
+  /** Category slug; books in its subcategories match too */
+  category?: string;
+  /** Case-insensitive substring of an author's name or alias */
+  author?: string;
+  /** Books credited to this author */
+  authorId?: string;
+  /** Case-insensitive publisher substring */
+  publisher?: string;
+  /** Editions of this work */
+  workId?: string;
+  /** Books with this tag (in any case or spacing) */
+  tag?: string;
+  /** 'include' adds archived books, 'only' returns just those; without it they are left out */
+  archived?: ArchivedFilter;
+}
+
+/**
+ * Filters, order and page accepted by BooksApi.searchCatalog
+ */
+export interface CatalogSearchFilter {
+  /** A complete ISBN finds that book; otherwise matches words of the title, authors or publisher, or ISBN digits */
+  q?: string;
+  /** Category slug; books in its subcategories match too */
+  category?: string;
+  /** Works credited to this author */
+  authorId?: string;
+  /** Works from this publisher */
+  publisherId?: string;
+  /** First year of a decade of publication, e.g. '1990' */
+  decade?: string;
+  /** Value of a price bucket (PRICE_BUCKETS in bookstore-shared/catalogSearch) */
+  price?: string;
+  /** Only works with an edition in stock */
+  inStock?: boolean;
+  /** Books with this tag (in any case or spacing) */
+  tag?: string;
+  /** Order of the works; by relevance without it */
+  sort?: SearchSort;
+  /** Page number, from 1 */
+  page?: number;
+  /** Works per page; DEFAULT_PAGE_SIZE without it */
+  pageSize?: number;
+}
+
+/**
+ * Options for BooksApi.importCatalog
+ */
+export interface BookImportOptions {
+  /** 'skip' or 'upsert' books whose ISBN is already in the catalog */
+  existing: ImportExistingMode;
+  /** Only report what the import would do */
+  dryRun: boolean;
+}
+
+/**
+ * Authentication operations (login, register, logout, profile)
+ *
+ * login and register start a session whose tokens the transport keeps in
+ * sessionStore.ts; logout revokes it. restoreSession resolves the stored
+ * tokens to a user, or null when there is no valid session.
+ */
+export interface AuthApi {
+  login(credentials: LoginCredentials): Promise<User>;
+  register(data: RegisterData): Promise<User>;
+  restoreSession(): Promise<User | null>;
+  updateProfile(userId: string, data: ProfileUpdateData): Promise<User>;
+  logout(): Promise<void>;
+}
+
+/**
+ * Book inventory CRUD operations
+ *
+ * importCatalog checks rows read from a catalog file (see the
+ * bookstore-shared catalogFile module) and reports each one. Unless it is
+ * a dry run it also saves them, all or none: an import with invalid rows
+ * rejects with an ApiValidationError and saves nothing.
+ *
+ * getAll and search return books for sale; archived books are only
+ * listed when a search asks for them (filter.archived), while getByIsbn
+ * finds every book.
+ *
+ * Search text (search's query, searchCatalog's q) matches words of the
+ * title, authors and publisher by stem and despite typos (bookstore-shared
+ * textSearch module), or ISBN digits with or without hyphens; a complete
+ * ISBN finds that book alone. The index it is matched against follows
+ * every add, update, delete and import.
+ *
+ * searchCatalog is the storefront's search: a page of works (any of whose
+ * editions for sale match) with the count of works each value of each
+ * filter would find, counted without that filter's own choice so the
+ * other values stay selectable (bookstore-shared catalogSearch module),
+ * most relevant to the search text first unless sorted otherwise.
+ * Invalid filters reject with an ApiValidationError.
+ *
+ * delete rejects for a book that has customer or publisher orders;
+ * archive takes such a book off sale instead.
+ *
+ * uploadCover stores an image in every cover size and returns their URLs;
+ * the book keeps only the imageUrl, saved with add or update. Files that
+ * are not an accepted image reject with an ApiValidationError on 'cover'.
+ *
+ * getPriceHistory lists every price a book has had, oldest first; each
+ * change of sellingPrice (add, update, import or a price rule) adds one.
+ *
+ * getRecommendations lists books to go with a book, best first: books
+ * customers bought with it, then books by the same authors and in the
+ * same categories (bookstore-shared recommendations module). It resolves
+ * to an empty list for an unknown ISBN.
+ *
+ * suggest is the search box's typeahead: up to limit (DEFAULT_SUGGESTIONS
+ * without it) books for sale matching the text like searchCatalog's q,
+ * one edition per work, and authors and categories whose names contain
+ * it. Text shorter than MIN_SUGGEST_LENGTH is not worth asking about.
+ */
+export interface BooksApi {
+  getAll(): Promise<Book[]>;
+  getByIsbn(isbn: string): Promise<Book | undefined>;
+  search(query: string, filter?: BookSearchFilter): Promise<Book[]>;
+  searchCatalog(filter: CatalogSearchFilter): Promise<CatalogSearchResult>;
+  suggest(query: string, limit?: number): Promise<SearchSuggestions>;
+  add(data: BookFormData): Promise<Book>;
+  update(isbn: string, data: BookUpdateData): Promise<Book>;
+  archive(isbn: string): Promise<Book>;
+  unarchive(isbn: string): Promise<Book>;
+  delete(isbn: string): Promise<void>;
+  importCatalog(rows: unknown[], options: BookImportOptions): Promise<BookImportReport>;
+  uploadCover(file: File): Promise<CoverUpload>;
+  getPriceHistory(isbn: string): Promise<PriceChange[]>;
+  getRecommendations(isbn: string, limit?: number): Promise<BookRecommendation[]>;
+}
+
+/**
+ * Scheduled book prices
+ *
+ * A rule sets its book's price at startsAt and, with an endsAt, puts the
+ * previous price back then. add rejects with an ApiValidationError when
+ * the rule overlaps another for the same book; a rule whose start has
+ * passed is applied at once. cancel puts an active rule's previous price
+ * back and rejects for rules that have completed or been cancelled.
+ */
+export interface PriceRulesApi {
+  getAll(filter?: PriceRuleQuery): Promise<PriceRule[]>;
+  add(data: PriceRuleCreateData): Promise<PriceRule>;
+  cancel(ruleId: string): Promise<PriceRule>;
+}
+
+/**
+ * Category taxonomy operations
+ *
+ * getAll returns the flat list ordered by sortOrder; parentId links it
+ * into a tree. delete rejects while the category has subcategories or books.
+ */
+export interface CategoriesApi {
+  getAll(): Promise<Category[]>;
+  add(data: CategoryCreateData): Promise<Category>;
+  update(id: string, data: CategoryUpdateData): Promise<Category>;
+  delete(id: string): Promise<void>;
+}
+
+/**
+ * Author operations
+ *
+ * Authors are created when a book credits a new name, so there is no add.
+ * merge moves the source author's books, name and aliases onto the target
+ * and deletes the source.
+ */
+export interface AuthorsApi {
+  getAll(): Promise<Author[]>;
+  getById(id: string): Promise<Author | undefined>;
+  update(id: string, data: AuthorUpdateData): Promise<Author>;
+  merge(targetId: string, sourceId: string): Promise<Author>;
+}
+
+/**
+ * Publisher (supplier) management
+ */
+export interface PublishersApi {
+  getAll(): Promise<Publisher[]>;
+  getById(id: string): Promise<Publisher | undefined>;
+  add(data: PublisherCreateData): Promise<Publisher>;
+  update(id: string, data: PublisherUpdateData): Promise<Publisher>;
+  delete(id: string): Promise<void>;
+}
+
+/**
+ * Publisher replenishment order management
+ */
+export interface OrdersApi {
+  getAll(): Promise<PublisherOrder[]>;
+  place(bookIsbn: string, quantity?: number): Promise<PublisherOrder>;
+  confirm(orderId: string): Promise<PublisherOrder>;
+  cancel(orderId: string): Promise<PublisherOrder>;
+}
+
+/**
+ * Shopping cart operations for the current user
+ *
+ * getRecommendations ranks books to go with the whole cart, like
+ * BooksApi.getRecommendations; an empty cart gets none.
+ */
+export interface CartApi {
+  get(): Promise<Cart>;
+  addItem(isbn: string, quantity?: number): Promise<Cart>;
+  updateQuantity(isbn: string, quantity: number): Promise<Cart>;
+  removeItem(isbn: string): Promise<Cart>;
+  clear(): Promise<Cart>;
+  checkout(checkoutData: CheckoutData, userId: string): Promise<CustomerOrder>;
+  getRecommendations(limit?: number): Promise<BookRecommendation[]>;
+}
+
+/**
+ * Customer order history
+ */
+export interface CustomerOrdersApi {
+  getByCustomer(customerId: string): Promise<CustomerOrder[]>;
+  getById(orderId: string): Promise<CustomerOrder | undefined>;
+}
+
+/**
+ * Sales analytics and business reports
+ *
+ * getPricePeriods covers the books whose price changed between two dates
+ * (YYYY-MM-DD, inclusive), with their sales at each price.
+ */
+export interface ReportsApi {
+  getMonthlySales(): Promise<SalesReport>;
+  getDailySales(date: string): Promise<SalesReport>;
+  getTopCustomers(): Promise<TopCustomer[]>;
+  getTopSellingBooks(): Promise<BookSalesReport[]>;
+  getBookOrderCount(isbn: string): Promise<BookOrderCount>;
+  getPricePeriods(startDate: string, endDate: string): Promise<PricePeriodReport[]>;
+}
+
+/**
+ * A complete implementation of the API surface.
+ * Implemented by mockTransport (mockApi.ts) and httpTransport (httpApi.ts).
+ */
+export interface ApiTransport {
+  authApi: AuthApi;
+  booksApi: BooksApi;
+  categoriesApi: CategoriesApi;
+  authorsApi: AuthorsApi;
+  publishersApi: PublishersApi;
+  ordersApi: OrdersApi;
+  priceRulesApi: PriceRulesApi;
+  cartApi: CartApi;
+  customerOrdersApi: CustomerOrdersApi;
+  reportsApi: ReportsApi;
+}
+
+/**
+ * Transport names accepted by the VITE_API_TRANSPORT environment variable
+ */
+export type ApiTransportName = 'mock' | 'http';
@@ -0,0 +1,82 @@
+/**
+ * ============================================================================
+ * API ERRORS
+ * ============================================================================
+ *
+ * Error types the API layer rejects with, shared by every transport.
+ *
+ * VALIDATION ERRORS:
+ * When the API rejects a request because of invalid input, the backend
+ * answers 400 with one entry per invalid field:
+ *
+ *   { "error": "Validation failed",
+ *     "details": [{ "field": "sellingPrice", "message": "Selling price must be greater than 0" }] }
+ *
+ * Transports turn that into an ApiValidationError, so forms can show each
+ * message next to its input (see fieldErrorsOf). Its message joins the
+ * field messages, so code that only shows err.message still says what
+ * is wrong.
+ *
+ * @author Bookstore Development Team
+ * @version 1.0.0
+ * ============================================================================
+ */
+
+/**
+ * One invalid field in a request
+ */
+export interface FieldError {
+  /** Dotted path into the request body, e.g. 'email' or 'items.0.quantity' */
+  field: string;
+  /** Message safe to show to users */
+  message: string;
+}
+
+/**
+ * Rejection for a request with invalid fields
+ */
+export class ApiValidationError extends Error {
+  /** Every invalid field, in the order the API reported them */
+  readonly details: FieldError[];
+
+  /**
+   * @param details - Invalid fields
+   */
+  constructor(details: FieldError[]) {
+    super(details.map(detail => detail.message).join('. ') || 'Validation failed');
+    this.name = 'ApiValidationError';
+    this.details = details;
+  }
+}
+
+/**
+ * Shorthand for rejecting a single field
+ *
+ * @param field - Field name
+ * @param message - Message for the user
+ * @returns ApiValidationError with one detail
+ */
+export const invalidField = (field: string, message: string): ApiValidationError =>
+  new ApiValidationError([{ field, message }]);
+
+/**
+ * Maps a caught error to per-field messages for a form
+ * Only the first message for each field is kept
+ *
+ * @param error - Anything caught from an API call
+ * @returns Messages keyed by field name (empty if the error is not a validation error)
+ *
+ * @example
+ * catch (err) {
+ *   setFieldErrors(fieldErrorsOf(err));
+ * }
+ */
+export const fieldErrorsOf = (error: unknown): Record<string, string> => {
+  if (!(error instanceof ApiValidationError)) return {};
+
+  const errors: Record<string, string> = {};
+  for (const { field, message } of error.details) {
+    if (!(field in errors)) errors[field] = message;
+  }
+  return errors;
+};
@@ -0,0 +1,668 @@
+/**
+ * ============================================================================
+ * HTTP API TRANSPORT - Bookstore Application
+ * ============================================================================
+ *
+ * This module implements the API contract (see apiContract.ts) by calling
+ * the Express REST backend (backend/src/routes/*) with axios.
+ *
+ * In development, requests go to the relative '/api' path, which
+ * vite.config.ts proxies to http://localhost:5000. Set VITE_API_BASE_URL
+ * to point at a backend on another origin.
+ *
+ * RESPONSIBILITIES:
+ * - Map contract calls to REST endpoints (responses already have the
+ *   frontend types, which come from the shared contract in bookstore-shared)
+ * - Convert HTTP error responses into Error objects with readable messages
+ *   (ApiValidationError, with per-field details, for validation failures)
+ * - Send the access token with every request and refresh it on 401
+ * - Track the logged-in user's ID for the per-user cart endpoints
+ *
+ * @author Bookstore Development Team
+ * @version 1.0.0
+ * ============================================================================
+ */
+
+import axios, { AxiosError, AxiosResponse, InternalAxiosRequestConfig } from 'axios';
+import { normalizeIsbn } from 'bookstore-shared/isbn';
+import { parseTags } from 'bookstore-shared/bookDetails';
+
+import {
+  Book,
+  BookFormData,
+  BookUpdateData,
+  BookImportReport,
+  CoverUpload,
+  BookRecommendation,
+  CatalogSearchResult,
+  SearchSuggestions,
+  Category,
+  CategoryCreateData,
+  CategoryUpdateData,
+  Author,
+  AuthorUpdateData,
+  Publisher,
+  PublisherCreateData,
+  PublisherUpdateData,
+  PublisherOrder,
+  User,
+  LoginCredentials,
+  RegisterData,
+  ProfileUpdateData,
+  CustomerOrder,
+  Cart,
+  CheckoutData,
+  SalesReport,
+  BookSalesReport,
+  TopCustomer,
+  BookOrderCount,
+  PricePeriodReport,
+  PriceChange,
+  PriceRule,
+  PriceRuleCreateData,
+  PriceRuleQuery
+} from '../types';
+
+import {
+  ApiTransport,
+  AuthApi,
+  BooksApi,
+  BookSearchFilter,
+  CatalogSearchFilter,
+  BookImportOptions,
+  CategoriesApi,
+  AuthorsApi,
+  PublishersApi,
+  OrdersApi,
+  PriceRulesApi,
+  CartApi,
+  CustomerOrdersApi,
+  ReportsApi
+} from './apiContract';
+
+import { ApiValidationError, FieldError } from './apiErrors';
+
+import {
+  SessionTokens,
+  loadTokens,
+  saveTokens,
+  clearTokens,
+  notifySessionEnded
+} from './sessionStore';
+
+// ============================================================================
+// HTTP CLIENT
+// ============================================================================
+
+/** Backend base URL (proxied '/api' in development) */
+const baseURL = import.meta.env.VITE_API_BASE_URL || '/api';
+
+/**
+ * Shared axios instance for all authenticated backend requests
+ */
+const client = axios.create({
+  baseURL,
+  headers: { 'Content-Type': 'application/json' }
+});
+
+/**
+ * Axios instance for login, register and token refresh.
+ * It sends no access token and never retries, so a failed refresh
+ * cannot trigger another refresh.
+ */
+const authClient = axios.create({
+  baseURL,
+  headers: { 'Content-Type': 'application/json' }
+});
+
+/**
+ * Session payload returned by login, register and refresh
+ */
+interface SessionResponse extends SessionTokens {
+  user: User;
+  expiresIn: number;
+}
+
+/**
+ * Error body sent by the backend ({ error }, plus details for validation failures)
+ */
+interface ErrorPayload {
+  error?: string;
+  details?: FieldError[];
+}
+
+/**
+ * Turns a backend error payload into an Error so callers can show
+ * err.message directly, exactly as they do with the mock transport.
+ * Validation failures become ApiValidationErrors carrying the field list.
+ */
+const toError = (error: AxiosError<ErrorPayload>): Error => {
+  const details = error.response?.data?.details;
+  if (Array.isArray(details) && details.length > 0) {
+    return new ApiValidationError(details);
+  }
+  return new Error(error.response?.data?.error || error.message || 'Request failed');
+};
+
+/**
+ * Request interceptor: attaches the current access token
+ */
+client.interceptors.request.use(config => {
+  const tokens = loadTokens();
+  if (tokens) {
+    config.headers.Authorization = `Bearer ${tokens.accessToken}`;
+  }
+  return config;
+});
+
+/**
+ * Refresh in progress, shared so that several requests failing with 401
+ * at the same time trigger a single refresh
+ */
+let pendingRefresh: Promise<boolean> | null = null;
+
+/**
+ * Exchanges the stored refresh token for a new token pair
+ *
+ * @returns Promise resolving to true if the session was refreshed
+ */
+const refreshSession = (): Promise<boolean> => {
+  if (!pendingRefresh) {
+    pendingRefresh = (async () => {
+      const tokens = loadTokens();
+      if (!tokens) return false;
+      try {
+        const { data } = await authClient.post<SessionResponse>('/users/refresh', {
+          refreshToken: tokens.refreshToken
+        });
+        startSession(data);
+        return true;
+      } catch {
+        return false;
+      }
+    })().finally(() => {
+      pendingRefresh = null;
+    });
+  }
+  return pendingRefresh;
+};
+
+/**
+ * Response interceptor: on 401, refreshes the tokens once and retries
+ * the request. If the refresh fails the session is over: the tokens are
+ * cleared and AuthContext is notified. All errors become Errors (see toError).
+ */
+client.interceptors.response.use(
+  response => response,
+  async (error: AxiosError<ErrorPayload>): Promise<AxiosResponse> => {
+    const request = error.config as (InternalAxiosRequestConfig & { retried?: boolean }) | undefined;
+
+    if (error.response?.status === 401 && request && !request.retried && loadTokens()) {
+      request.retried = true;
+      if (await refreshSession()) {
+        return client(request);
+      }
+      currentUserId = null;
+      notifySessionEnded();
+    }
+
+    return Promise.reject(toError(error));
+  }
+);
+
+authClient.interceptors.response.use(
+  response => response,
+  (error: AxiosError<ErrorPayload>) => Promise.reject(toError(error))
+);
+
+// ============================================================================
+// SESSION TRACKING
+// ============================================================================
+
+/**
+ * Tracks the currently logged-in user's ID.
+ * The backend keys carts by user ID, so cart calls need it.
+ * Set by login/register and by restoreSession() after a page refresh.
+ */
+let currentUserId: string | null = null;
+
+/**
+ * Stores the tokens of a new or refreshed session and remembers its user
+ *
+ * @param session - Response from login, register or refresh
+ * @returns The session's user
+ */
+const startSession = (session: SessionResponse): User => {
+  saveTokens(session);
+  currentUserId = session.user.id;
+  return session.user;
+};
+
+/**
+ * Returns the current user's ID or throws if nobody is logged in
+ */
+const requireUserId = (): string => {
+  if (!currentUserId) throw new Error('Must be logged in');
+  return currentUserId;
+};
+
+/** Empty cart returned for anonymous users and after clearing */
+const emptyCart = (): Cart => ({ items: [], totalItems: 0, totalPrice: 0 });
+
+// ============================================================================
+// AUTHENTICATION API
+// ============================================================================
+
+const authApi: AuthApi = {
+  login: async (credentials: LoginCredentials): Promise<User> => {
+    const { data } = await authClient.post<SessionResponse>('/users/login', credentials);
+    return startSession(data);
+  },
+
+  register: async (registerData: RegisterData): Promise<User> => {
+    const { data } = await authClient.post<SessionResponse>('/users/register', registerData);
+    return startSession(data);
+  },
+
+  restoreSession: async (): Promise<User | null> => {
+    if (!loadTokens()) return null;
+    try {
+      // Refreshes transparently if the stored access token has expired
+      const { data } = await client.get<User>('/users/me');
+      currentUserId = data.id;
+      return data;
+    } catch {
+      clearTokens();
+      currentUserId = null;
+      return null;
+    }
+  },
+
+  updateProfile: async (userId: string, changes: ProfileUpdateData): Promise<User> => {
+    const { data } = await client.put<User>(`/users/${encodeURIComponent(userId)}`, changes);
+    return data;
+  },
+
+  logout: async (): Promise<void> => {
+    try {
+      // Revoke the session server-side so its tokens stop working
+      if (loadTokens()) await client.post('/users/logout');
+    } catch {
+      // The session has already ended; nothing left to revoke
+    } finally {
+      clearTokens();
+      currentUserId = null;
+    }
+  }
+};
+
+// ============================================================================
+// BOOKS API
+// ============================================================================
+
+const booksApi: BooksApi = {
+  getAll: async (): Promise<Book[]> => {
+    const { data } = await client.get<Book[]>('/books');
+    return data;
+  },
+
+  getByIsbn: async (isbn: string): Promise<Book | undefined> => {
+    try {
+      const { data } = await client.get<Book>(`/books/${encodeURIComponent(isbn)}`);
+      return data;
+    } catch {
+      // The contract returns undefined for unknown ISBNs
+      return undefined;
+    }
+  },
+
+  search: async (query: string, filter?: BookSearchFilter): Promise<Book[]> => {
+    const { data } = await client.get<Book[]>('/books', { params: { q: query, ...filter } });
+    return data;
+  },
+
+  searchCatalog: async ({ inStock, ...filter }: CatalogSearchFilter): Promise<CatalogSearchResult> => {
+    const { data } = await client.get<CatalogSearchResult>('/books/search', {
+      // The server takes inStock=true or nothing
+      params: { ...filter, inStock: inStock ? 'true' : undefined }
+    });
+    return data;
+  },
+
+  suggest: async (query: string, limit?: number): Promise<SearchSuggestions> => {
+    const { data } = await client.get<SearchSuggestions>('/books/suggest', { params: { q: query, limit } });
+    return data;
+  },
+
+  add: async (formData: BookFormData): Promise<Book> => {
+    const { data } = await client.post<Book>('/books', {
+      ...formData,
+      // Send valid ISBNs in the stored form; the server reports invalid ones
+      isbn: normalizeIsbn(formData.isbn) ?? formData.isbn,
+      // Convert comma-separated authors string to array
+      authors: formData.authors.split(',').map(a => a.trim()),
+      tags: parseTags(formData.tags)
+    });
+    return data;
+  },
+
+  update: async (isbn: string, changes: BookUpdateData): Promise<Book> => {
+    const { data } = await client.put<Book>(`/books/${encodeURIComponent(isbn)}`, changes);
+    return data;
+  },
+
+  archive: async (isbn: string): Promise<Book> => {
+    const { data } = await client.post<Book>(`/books/${encodeURIComponent(isbn)}/archive`);
+    return data;
+  },
+
+  unarchive: async (isbn: string): Promise<Book> => {
+    const { data } = await client.post<Book>(`/books/${encodeURIComponent(isbn)}/unarchive`);
+    return data;
+  },
+
+  delete: async (isbn: string): Promise<void> => {
+    await client.delete(`/books/${encodeURIComponent(isbn)}`);
+  },
+
+  importCatalog: async (rows: unknown[], options: BookImportOptions): Promise<BookImportReport> => {
+    const { data } = await client.post<BookImportReport>('/books/import', { books: rows, ...options });
+    return data;
+  },
+
+  uploadCover: async (file: File): Promise<CoverUpload> => {
+    const body = new FormData();
+    body.append('cover', file);
+    // Replaces the client's JSON default, which would make axios send the
+    // form as JSON; the browser adds the multipart boundary
+    const { data } = await client.post<CoverUpload>('/books/covers', body, {
+      headers: { 'Content-Type': 'multipart/form-data' }
+    });
+    return data;
+  },
+
+  getPriceHistory: async (isbn: string): Promise<PriceChange[]> => {
+    const { data } = await client.get<PriceChange[]>(`/books/${encodeURIComponent(isbn)}/prices`);
+    return data;
+  },
+
+  getRecommendations: async (isbn: string, limit?: number): Promise<BookRecommendation[]> => {
+    try {
+      const { data } = await client.get<BookRecommendation[]>(
+        `/books/${encodeURIComponent(isbn)}/recommendations`,
+        { params: { limit } }
+      );
+      return data;
+    } catch {
+      // Like getByIsbn, an unknown ISBN is not an error here
+      return [];
+    }
+  }
+};
+
+// ============================================================================
+// CATEGORIES API
+// ============================================================================
+
+const categoriesApi: CategoriesApi = {
+  getAll: async (): Promise<Category[]> => {
+    const { data } = await client.get<Category[]>('/categories');
+    return data;
+  },
+
+  add: async (category: CategoryCreateData): Promise<Category> => {
+    const { data } = await client.post<Category>('/categories', category);
+    return data;
+  },
+
+  update: async (id: string, changes: CategoryUpdateData): Promise<Category> => {
+    const { data } = await client.put<Category>(`/categories/${encodeURIComponent(id)}`, changes);
+    return data;
+  },
+
+  delete: async (id: string): Promise<void> => {
+    await client.delete(`/categories/${encodeURIComponent(id)}`);
+  }
+};
+
+// ============================================================================
+// AUTHORS API
+// ============================================================================
+
+const authorsApi: AuthorsApi = {
+  getAll: async (): Promise<Author[]> => {
+    const { data } = await client.get<Author[]>('/authors');
+    return data;
+  },
+
+  getById: async (id: string): Promise<Author | undefined> => {
+    try {
+      const { data } = await client.get<Author>(`/authors/${encodeURIComponent(id)}`);
+      return data;
+    } catch {
+      // The contract returns undefined for unknown authors
+      return undefined;
+    }
+  },
+
+  update: async (id: string, changes: AuthorUpdateData): Promise<Author> => {
+    const { data } = await client.put<Author>(`/authors/${encodeURIComponent(id)}`, changes);
+    return data;
+  },
+
+  merge: async (targetId: string, sourceId: string): Promise<Author> => {
+    const { data } = await client.post<Author>(`/authors/${encodeURIComponent(targetId)}/merge`, { sourceId });
+    return data;
+  }
+};
+
+// ============================================================================
+// PUBLISHERS API
+// ============================================================================
+
+const publishersApi: PublishersApi = {
+  getAll: async (): Promise<Publisher[]> => {
+    const { data } = await client.get<Publisher[]>('/publishers');
+    return data;
+  },
+
+  getById: async (id: string): Promise<Publisher | undefined> => {
+    try {
+      const { data } = await client.get<Publisher>(`/publishers/${encodeURIComponent(id)}`);
+      return data;
+    } catch {
+      // The contract returns undefined for unknown publishers
+      return undefined;
+    }
+  },
+
+  add: async (publisher: PublisherCreateData): Promise<Publisher> => {
+    const { data } = await client.post<Publisher>('/publishers', publisher);
+    return data;
+  },
+
+  update: async (id: string, changes: PublisherUpdateData): Promise<Publisher> => {
+    const { data } = await client.put<Publisher>(`/publishers/${encodeURIComponent(id)}`, changes);
+    return data;
+  },
+
+  delete: async (id: string): Promise<void> => {
+    await client.delete(`/publishers/${encodeURIComponent(id)}`);
+  }
+};
+
+// ============================================================================
+// PUBLISHER ORDERS API
+// ============================================================================
+
+const ordersApi: OrdersApi = {
+  getAll: async (): Promise<PublisherOrder[]> => {
+    const { data } = await client.get<PublisherOrder[]>('/publisher-orders');
+    return data;
+  },
+
+  place: async (bookIsbn: string, quantity: number = 20): Promise<PublisherOrder> => {
+    const { data } = await client.post<PublisherOrder>('/publisher-orders', { bookIsbn, quantity });
+    return data;
+  },
+
+  confirm: async (orderId: string): Promise<PublisherOrder> => {
+    const { data } = await client.post<PublisherOrder>(`/publisher-orders/${encodeURIComponent(orderId)}/confirm`);
+    return data;
+  },
+
+  cancel: async (orderId: string): Promise<PublisherOrder> => {
+    const { data } = await client.post<PublisherOrder>(`/publisher-orders/${encodeURIComponent(orderId)}/cancel`);
+    return data;
+  }
+};
+
+// ============================================================================
+// PRICE RULES API
+// ============================================================================
+
+const priceRulesApi: PriceRulesApi = {
+  getAll: async (filter: PriceRuleQuery = {}): Promise<PriceRule[]> => {
+    const { data } = await client.get<PriceRule[]>('/price-rules', { params: filter });
+    return data;
+  },
+
+  add: async (ruleData: PriceRuleCreateData): Promise<PriceRule> => {
+    const { data } = await client.post<PriceRule>('/price-rules', ruleData);
+    return data;
+  },
+
+  cancel: async (ruleId: string): Promise<PriceRule> => {
+    const { data } = await client.post<PriceRule>(`/price-rules/${encodeURIComponent(ruleId)}/cancel`);
+    return data;
+  }
+};
+
+// ============================================================================
+// SHOPPING CART API
+// ============================================================================
+
+const cartApi: CartApi = {
+  get: async (): Promise<Cart> => {
+    if (!currentUserId) return emptyCart();
+    const { data } = await client.get<Cart>(`/cart/${encodeURIComponent(currentUserId)}`);
+    return data;
+  },
+
+  addItem: async (isbn: string, quantity: number = 1): Promise<Cart> => {
+    const userId = requireUserId();
+    const { data } = await client.post<Cart>(`/cart/${encodeURIComponent(userId)}/items`, { isbn, quantity });
+    return data;
+  },
+
+  updateQuantity: async (isbn: string, quantity: number): Promise<Cart> => {
+    const userId = requireUserId();
+    const { data } = await client.put<Cart>(
+      `/cart/${encodeURIComponent(userId)}/items/${encodeURIComponent(isbn)}`,
+      { quantity }
+    );
+    return data;
+  },
+
+  removeItem: async (isbn: string): Promise<Cart> => {
+    const userId = requireUserId();
+    const { data } = await client.delete<Cart>(`/cart/${encodeURIComponent(userId)}/items/${encodeURIComponent(isbn)}`);
+    return data;
+  },
+
+  clear: async (): Promise<Cart> => {
+    const userId = requireUserId();
+    await client.delete(`/cart/${encodeURIComponent(userId)}`);
+    return emptyCart();
+  },
+
+  checkout: async (checkoutData: CheckoutData, userId: string): Promise<CustomerOrder> => {
+    const { data } = await client.post<CustomerOrder>(`/cart/${encodeURIComponent(userId)}/checkout`, checkoutData);
+    return data;
+  },
+
+  getRecommendations: async (limit?: number): Promise<BookRecommendation[]> => {
+    if (!currentUserId) return [];
+    const { data } = await client.get<BookRecommendation[]>(
+      `/cart/${encodeURIComponent(currentUserId)}/recommendations`,
+      { params: { limit } }
+    );
+    return data;
+  }
+};
+
+// ============================================================================
+// CUSTOMER ORDERS API
+// ============================================================================
+
+const customerOrdersApi: CustomerOrdersApi = {
+  getByCustomer: async (customerId: string): Promise<CustomerOrder[]> => {
+    const { data } = await client.get<CustomerOrder[]>(`/orders/user/${encodeURIComponent(customerId)}`);
+    return data;
+  },
+
+  getById: async (orderId: string): Promise<CustomerOrder | undefined> => {
+    try {
+      const { data } = await client.get<CustomerOrder>(`/orders/${encodeURIComponent(orderId)}`);
+      return data;
+    } catch {
+      return undefined;
+    }
+  }
+};
+
+// ============================================================================
+// REPORTS API
+// ============================================================================
+
+const reportsApi: ReportsApi = {
+  getMonthlySales: async (): Promise<SalesReport> => {
+    const { data } = await client.get<SalesReport>('/reports/monthly-sales');
+    return data;
+  },
+
+  getDailySales: async (date: string): Promise<SalesReport> => {
+    const { data } = await client.get<SalesReport>('/reports/daily-sales', { params: { date } });
+    return data;
+  },
+
+  getTopCustomers: async (): Promise<TopCustomer[]> => {
+    const { data } = await client.get<TopCustomer[]>('/reports/top-customers');
+    return data;
+  },
+
+  getTopSellingBooks: async (): Promise<BookSalesReport[]> => {
+    const { data } = await client.get<BookSalesReport[]>('/reports/top-selling-books');
+    return data;
+  },
+
+  getBookOrderCount: async (isbn: string): Promise<BookOrderCount> => {
+    const { data } = await client.get<BookOrderCount>(`/reports/book-order-count/${encodeURIComponent(isbn)}`);
+    return data;
+  },
+
+  getPricePeriods: async (startDate: string, endDate: string): Promise<PricePeriodReport[]> => {
+    const { data } = await client.get<PricePeriodReport[]>('/reports/price-periods', { params: { startDate, endDate } });
+    return data;
+  }
+};
+
+// ============================================================================
+// TRANSPORT EXPORT
+// ============================================================================
+
+/**
+ * REST implementation of the complete API surface
+ */
+export const httpTransport: ApiTransport = {
+  authApi,
+  booksApi,
+  categoriesApi,
+  authorsApi,
+  publishersApi,
+  ordersApi,
+  priceRulesApi,
+  cartApi,
+  customerOrdersApi,
+  reportsApi
+};
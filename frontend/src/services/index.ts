@@ -10,8 +10,8 @@
  * import { authApi, booksApi, cartApi, mockBooks } from '../services';
  */
 
-/** API service modules: authApi, booksApi, publishersApi, ordersApi, cartApi, customerOrdersApi, reportsApi */
+/** API service modules (mock or HTTP transport): authApi, booksApi, categoriesApi, authorsApi, publishersApi, ordersApi, priceRulesApi, cartApi, customerOrdersApi, reportsApi */
 export * from './api';
 
-/** Mock data for development: mockBooks, mockPublishers, mockUsers, mockOrders, etc. */
+/** Mock data for development: mockBooks, mockCategories, mockAuthors, mockPublishers, mockUsers, mockOrders, etc. */
 export * from './mockData';
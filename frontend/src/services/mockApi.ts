@@ -0,0 +1,3129 @@
+/**
+ * ============================================================================
+ * MOCK API TRANSPORT - Bookstore Application
+ * ============================================================================
+ * 
+ * This module implements the API contract (see apiContract.ts) using
+ * in-memory data storage. It simulates the backend so the frontend can
+ * run standalone, e.g. on GitHub Pages.
+ * 
+ * The REST implementation that talks to the Express backend lives in
+ * httpApi.ts; services/api.ts selects between the two.
+ * 
+ * The module is organized into the following API sections:
+ * - authApi: Authentication operations (login, register, logout, profile)
+ * - booksApi: CRUD operations for books with trigger logic
+ * - categoriesApi: Category taxonomy management
+ * - authorsApi: Author records, aliases and merging duplicates
+ * - publishersApi: Publisher (supplier) management
+ * - ordersApi: Publisher replenishment order management
+ * - cartApi: Shopping cart operations for customers (and recommendations
+ *   for the cart)
+ * - customerOrdersApi: Customer order history
+ * - reportsApi: Sales analytics and business reports
+ * 
+ * KEY FEATURES:
+ * - Simulates database triggers (auto-replenishment, stock validation)
+ * - "Customers also bought" counts kept up to date at checkout
+ * - Per-user shopping carts with localStorage persistence
+ * - Payment validation during checkout
+ * - Salted password hashing (PBKDF2 via Web Crypto) with constant-time checks
+ * - Token sessions checked against a mock session store (like the sessions table)
+ * 
+ * @author Bookstore Development Team
+ * @version 1.0.0
+ * ============================================================================
+ */
+
+// ============================================================================
+// TYPE IMPORTS
+// ============================================================================
+// Import TypeScript interfaces for type safety across all API operations
+
+import {
+  Book,              // Book entity - represents a book in the inventory
+  BookFormat,        // Edition format (hardcover, paperback, ebook, audiobook)
+  BookFormData,      // Form data structure for creating/editing books
+  BookUpdateData,    // Fields sent to change a book
+  BookImportReport,  // Outcome of a catalog import
+  CoverUpload,       // URLs of an uploaded cover's sizes
+  BookRecommendation, // A book recommended for a book or a cart
+  CatalogSearchResult, // A page of catalog search results with facet counts
+  SearchSuggestions, // Books, authors and categories suggested while typing
+  SearchSort,        // Order of catalog search results
+  BookCategory,      // A category as listed on a book
+  Category,          // Category entity - node of the category tree
+  CategoryCreateData, // Fields for a new category
+  CategoryUpdateData, // Fields sent to change a category
+  Author,            // Author entity - credited on books
+  AuthorUpdateData,  // Fields sent to change an author
+  BookAuthor,        // An author as credited on a book
+  Publisher,         // Publisher entity - book suppliers
+  PublisherCreateData, // Fields sent to add a publisher
+  PublisherUpdateData, // Fields sent to change a publisher
+  PublisherOrder,    // Order placed to publishers for restocking
+  User,              // User entity - customers and admins
+  LoginCredentials,  // Login form data (username, password)
+  RegisterData,      // Registration form data
+  ProfileUpdateData, // Profile changes, optionally with a new password
+  CustomerOrder,     // Completed customer purchase order
+  Cart,              // Shopping cart with items and totals
+  CheckoutData,      // Payment information for checkout
+  SalesReport,       // Aggregated sales statistics
+  BookSalesReport,   // Book-specific sales data
+  TopCustomer,       // Customer ranking by purchase amount
+  BookOrderCount,    // Publisher order count for a specific book
+  PricePeriodReport, // Sales at each price of a repriced book
+  PriceChange,       // One entry of a book's price history
+  PriceChangeSource, // What changed a price
+  PriceRule,         // Scheduled price for a book
+  PriceRuleCreateData, // Fields sent to schedule a price
+  PriceRuleQuery     // Filters for listing price rules
+} from '../types';
+
+// API contract implemented by this transport
+import {
+  ApiTransport,
+  AuthApi,
+  BooksApi,
+  BookSearchFilter,
+  CatalogSearchFilter,
+  BookImportOptions,
+  CategoriesApi,
+  AuthorsApi,
+  PublishersApi,
+  OrdersApi,
+  PriceRulesApi,
+  CartApi,
+  CustomerOrdersApi,
+  ReportsApi
+} from './apiContract';
+
+// ============================================================================
+// MOCK DATA IMPORTS
+// ============================================================================
+// Import sample data that simulates database records
+// In production, this data would come from a real database
+
+import {
+  mockBooks,           // 10 sample book records
+  mockCategories,      // 5 top-level categories
+  mockAuthors,         // 13 authors credited on the sample books
+  mockPublishers,      // 10 sample publisher records
+  mockPublisherOrders, // Sample publisher order records
+  mockUsers,           // 3 sample users (1 admin, 2 customers)
+  mockPasswordHashes,  // Password hashes for the sample users
+  mockCustomerOrders,  // Sample customer order history
+  mockSalesData,       // Sales transaction data for reports
+  mockPriceChanges     // Price history of the sample books
+} from './mockData';
+
+// Password strength rules (the backend enforces the same policy)
+import { checkPasswordPolicy } from '../utils';
+
+// Client-side token storage shared with the HTTP transport
+import { loadTokens, saveTokens, clearTokens } from './sessionStore';
+
+// Field-level rejections, shaped like the backend's 400 responses
+import { ApiValidationError, FieldError, invalidField } from './apiErrors';
+
+// ISBN validation and the compact (stored) form, shared with the backend
+import { checkIsbn, normalizeIsbn, matchesIsbn } from 'bookstore-shared/isbn';
+
+// Category tree helpers and slugs, shared with the backend
+import { DEFAULT_CATEGORY_COLOR, descendantIds } from 'bookstore-shared/categoryTree';
+import { slugify } from 'bookstore-shared/slug';
+
+// Cover upload rules, shared with the backend
+import { checkCoverFile } from 'bookstore-shared/covers';
+// Edition formats and grouping into works, shared with the backend
+// Edition formats, shared with the backend
+import { BOOK_FORMATS, groupEditions } from 'bookstore-shared/editions';
+
+// Tag normalization and limits, shared with the backend
+import { MAX_TAGS, MAX_TAG_LENGTH, normalizeTag, parseTags } from 'bookstore-shared/bookDetails';
+
+// Recommendation ranking rules, shared with the backend
+import { RECOMMENDATION_REASONS, DEFAULT_RECOMMENDATIONS, coPurchasePairs } from 'bookstore-shared/recommendations';
+
+// Catalog search facets and pages, shared with the backend
+import {
+  SEARCH_FACETS,
+  SEARCH_SORTS,
+  DEFAULT_PAGE_SIZE,
+  MAX_PAGE_SIZE,
+  DEFAULT_SUGGESTIONS,
+  MAX_SUGGESTIONS,
+  PRICE_BUCKETS,
+  PRICE_BUCKET_VALUES,
+  priceBucketOf,
+  decadeOf,
+  decadeLabel
+} from 'bookstore-shared/catalogSearch';
+
+// Search text matching and relevance, shared with the backend
+import { createSearchIndex } from 'bookstore-shared/textSearch';
+
+// ============================================================================
+// UTILITY FUNCTIONS
+// ============================================================================
+
+/**
+ * Simulates network delay to mimic real API behavior
+ * Makes the UI feel more realistic by adding loading states
+ * 
+ * @param ms - Number of milliseconds to delay
+ * @returns Promise that resolves after the specified delay
+ */
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// ============================================================================
+// PASSWORD HASHING
+// ============================================================================
+// Passwords are stored as salted PBKDF2-SHA256 hashes, like the backend
+// stores scrypt hashes. Format: pbkdf2$<iterations>$<salt>$<key> (base64).
+
+/** PBKDF2 iteration count for new hashes */
+const PBKDF2_ITERATIONS = 100000;
+
+/** Derived key length in bytes */
+const PBKDF2_KEY_BYTES = 32;
+
+/** Encodes bytes as base64 */
+const toBase64 = (bytes: Uint8Array): string => btoa(String.fromCharCode(...bytes));
+
+/** Decodes base64 into bytes */
+const fromBase64 = (text: string): Uint8Array => Uint8Array.from(atob(text), c => c.charCodeAt(0));
+
+/**
+ * Derives a PBKDF2-SHA256 key from a password using Web Crypto
+ * 
+ * @param password - Plaintext password
+ * @param salt - Random salt bytes
+ * @param iterations - PBKDF2 iteration count
+ * @returns Promise resolving to the derived key bytes
+ */
+const deriveKey = async (password: string, salt: Uint8Array, iterations: number): Promise<Uint8Array> => {
+  const material = await crypto.subtle.importKey(
+    'raw', new TextEncoder().encode(password), 'PBKDF2', false, ['deriveBits']
+  );
+  const bits = await crypto.subtle.deriveBits(
+    { name: 'PBKDF2', hash: 'SHA-256', salt, iterations }, material, PBKDF2_KEY_BYTES * 8
+  );
+  return new Uint8Array(bits);
+};
+
+/**
+ * Hashes a password with a new random salt
+ * 
+ * @param password - Plaintext password
+ * @returns Promise resolving to the hash string
+ */
+const hashPassword = async (password: string): Promise<string> => {
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  const key = await deriveKey(password, salt, PBKDF2_ITERATIONS);
+  return `pbkdf2$${PBKDF2_ITERATIONS}$${toBase64(salt)}$${toBase64(key)}`;
+};
+
+/**
+ * Checks a password against a stored hash
+ * The key comparison visits every byte, so its duration does not
+ * depend on where the first mismatch is.
+ * 
+ * @param password - Plaintext password to check
+ * @param stored - Hash from hashPassword() (unknown users pass a dummy hash)
+ * @returns Promise resolving to true if the password matches
+ */
+const verifyPassword = async (password: string, stored: string): Promise<boolean> => {
+  const [scheme, iterations, salt, key] = stored.split('$');
+  if (scheme !== 'pbkdf2' || !iterations || !salt || !key) return false;
+
+  const expected = fromBase64(key);
+  const actual = await deriveKey(password, fromBase64(salt), Number(iterations));
+  if (actual.length !== expected.length) return false;
+
+  let difference = 0;
+  for (let i = 0; i < actual.length; i++) {
+    difference |= actual[i] ^ expected[i];
+  }
+  return difference === 0;
+};
+
+// ============================================================================
+// IN-MEMORY DATA STORES (Simulating Database Tables)
+// ============================================================================
+// These arrays act as our "database tables" for the mock API.
+// They are initialized with mock data and modified during runtime.
+// Note: Data is lost when the page refreshes (no persistence).
+
+let books = [...mockBooks];                    // Books "table" - inventory
+let categories = [...mockCategories];          // Categories "table" - taxonomy tree
+let authors = [...mockAuthors];                // Authors "table" (bookCount is computed)
+let publishers = [...mockPublishers];          // Publishers "table"
+let publisherOrders = [...mockPublisherOrders]; // Publisher orders "table"
+let users = [...mockUsers];                    // Users "table" - accounts
+const passwordHashes = new Map(Object.entries(mockPasswordHashes)); // users.password column
+let customerOrders = [...mockCustomerOrders];  // Customer orders "table"
+const priceChanges = [...mockPriceChanges];    // Price history "table"
+const priceRules: PriceRule[] = [];            // Price rules "table"
+const salesData = [...mockSalesData];          // Sales "table" - one row per book bought (reports)
+
+// ============================================================================
+// CART MANAGEMENT SYSTEM
+// ============================================================================
+// Manages user-specific shopping carts using a Map data structure.
+// Each user has their own isolated cart that persists during their session.
+
+/**
+ * Map to store user-specific shopping carts
+ * Key: userId (string) - The unique identifier of the user
+ * Value: Cart object - Contains items, totalItems, and totalPrice
+ */
+const userCarts = new Map<string, Cart>();
+
+/**
+ * Tracks the currently logged-in user's ID
+ * Used to associate cart operations with the correct user
+ * Set by login/register and by restoreSession() after a page refresh
+ * Set to null when no user is logged in
+ */
+let currentUserId: string | null = null;
+
+/**
+ * Retrieves the shopping cart for the current user
+ * Creates an empty cart if the user doesn't have one yet
+ * 
+ * @returns The current user's Cart object
+ */
+const getCart = (): Cart => {
+  // If no user is logged in, return an empty cart
+  if (!currentUserId) {
+    return { items: [], totalItems: 0, totalPrice: 0 };
+  }
+  // If user doesn't have a cart yet, create an empty one
+  if (!userCarts.has(currentUserId)) {
+    userCarts.set(currentUserId, { items: [], totalItems: 0, totalPrice: 0 });
+  }
+  // Return the user's existing cart
+  return userCarts.get(currentUserId)!;
+};
+
+/**
+ * Saves the cart for the current user
+ * Updates the cart in the userCarts Map
+ * 
+ * @param cart - The Cart object to save
+ */
+const setCart = (cart: Cart): void => {
+  if (currentUserId) {
+    userCarts.set(currentUserId, cart);
+  }
+};
+
+// ============================================================================
+// SESSION STORE
+// ============================================================================
+// Simulates the backend's sessions table: the "server side" record of
+// which tokens belong to which user. It is kept in localStorage under its
+// own key so sessions survive a page refresh, as database rows would.
+// The client's copy of the tokens lives in sessionStore.ts.
+
+/** localStorage key for the mock sessions "table" */
+const MOCK_SESSIONS_KEY = 'bookstore_mock_sessions';
+
+/**
+ * One row of the mock sessions "table"
+ */
+interface MockSession {
+  userId: string;
+  accessToken: string;
+  refreshToken: string;
+}
+
+/**
+ * Reads the mock sessions "table"
+ *
+ * @returns Array of active sessions
+ */
+const loadSessions = (): MockSession[] => {
+  try {
+    return JSON.parse(localStorage.getItem(MOCK_SESSIONS_KEY) || '[]');
+  } catch {
+    return [];
+  }
+};
+
+/**
+ * Writes the mock sessions "table"
+ *
+ * @param sessions - Array of active sessions
+ */
+const saveSessions = (sessions: MockSession[]): void => {
+  localStorage.setItem(MOCK_SESSIONS_KEY, JSON.stringify(sessions));
+};
+
+/**
+ * Generates an unguessable opaque token
+ *
+ * @param kind - Token kind, used as a readable prefix
+ * @returns Random token string
+ */
+const randomToken = (kind: 'access' | 'refresh'): string =>
+  `mock-${kind}.${toBase64(crypto.getRandomValues(new Uint8Array(24)))}`;
+
+/**
+ * Issues a new token pair for a user and records the session
+ * Replaces the session that used previousRefreshToken, if given
+ *
+ * @param userId - Session owner
+ * @param previousRefreshToken - Refresh token being rotated out
+ */
+const issueSession = (userId: string, previousRefreshToken?: string): void => {
+  const session: MockSession = {
+    userId,
+    accessToken: randomToken('access'),
+    refreshToken: randomToken('refresh')
+  };
+  const others = loadSessions().filter(s => s.refreshToken !== previousRefreshToken);
+  saveSessions([...others, session]);
+  saveTokens(session);
+  currentUserId = userId;
+};
+
+// ============================================================================
+// AUTHENTICATION API
+// ============================================================================
+/**
+ * Authentication API Module
+ * Handles user authentication operations including login, registration,
+ * profile updates, and logout functionality.
+ * 
+ * DEMO CREDENTIALS:
+ * - Admin: username="admin", password="admin"
+ * - Customers: username="john_doe" or "jane_smith", password="password"
+ */
+const authApi: AuthApi = {
+  /**
+   * Authenticates a user with username and password
+   * Sets the currentUserId for cart association upon successful login
+   * 
+   * @param credentials - Object containing username and password
+   * @returns Promise resolving to the authenticated User object
+   * @throws Error if credentials are invalid
+   * 
+   * @example
+   * const user = await authApi.login({ username: 'admin', password: 'admin' });
+   */
+  login: async (credentials: LoginCredentials): Promise<User> => {
+    await delay(500); // Simulate network latency
+    
+    // Find user by username
+    const user = users.find(u => u.username === credentials.username);
+    
+    // Verify the password against the stored hash
+    // Unknown users are checked against the admin hash so they take as long
+    const storedHash = (user && passwordHashes.get(user.id)) || mockPasswordHashes['admin-1'];
+    const valid = await verifyPassword(credentials.password, storedHash);
+    
+    if (user && valid) {
+      issueSession(user.id); // Start a session; sets the current user for cart operations
+      return user;
+    }
+    
+    // Authentication failed
+    throw new Error('Invalid username or password');
+  },
+
+  /**
+   * Registers a new customer account
+   * Validates username and email uniqueness before creating the account
+   * Automatically logs in the new user after registration
+   * 
+   * @param data - Registration form data (username, email, name, phone, address)
+   * @returns Promise resolving to the newly created User object
+   * @throws Error if username or email already exists, or the password is too weak
+   * 
+   * @example
+   * const newUser = await authApi.register({
+   *   username: 'johndoe',
+   *   password: 'Secret123',
+   *   email: 'john@example.com',
+   *   firstName: 'John',
+   *   lastName: 'Doe',
+   *   phone: '123-456-7890',
+   *   shippingAddress: '123 Main St'
+   * });
+   */
+  register: async (data: RegisterData): Promise<User> => {
+    await delay(500);
+    
+    // Enforce the password policy
+    const passwordError = checkPasswordPolicy(data.password, data.username);
+    if (passwordError) throw invalidField('password', passwordError);
+    
+    // Check for duplicate username (UNIQUE constraint)
+    if (users.some(u => u.username === data.username)) {
+      throw invalidField('username', 'Username already exists');
+    }
+    
+    // Check for duplicate email (UNIQUE constraint)
+    if (users.some(u => u.email === data.email)) {
+      throw invalidField('email', 'Email already exists');
+    }
+    
+    // Create new user object with unique ID
+    const newUser: User = {
+      id: `cust-${Date.now()}`,        // Generate unique ID using timestamp
+      username: data.username,
+      email: data.email,
+      firstName: data.firstName,
+      lastName: data.lastName,
+      phone: data.phone,
+      shippingAddress: data.shippingAddress,
+      role: 'customer'                  // New registrations are always customers
+    };
+    
+    // Add to users "table", storing only the password hash
+    users.push(newUser);
+    passwordHashes.set(newUser.id, await hashPassword(data.password));
+    
+    // Auto-login the new user
+    issueSession(newUser.id);
+    
+    return newUser;
+  },
+
+  /**
+   * Restores the session saved in localStorage after a page refresh
+   * The stored tokens must match a session in the mock session store and
+   * belong to an existing user; the refresh token is rotated on success
+   *
+   * @returns Promise resolving to the session's User, or null if there is no valid session
+   */
+  restoreSession: async (): Promise<User | null> => {
+    await delay(200);
+
+    const tokens = loadTokens();
+    const session = tokens && loadSessions().find(s =>
+      s.accessToken === tokens.accessToken && s.refreshToken === tokens.refreshToken
+    );
+    const user = session && users.find(u => u.id === session.userId);
+
+    if (!tokens || !session || !user) {
+      clearTokens();
+      currentUserId = null;
+      return null;
+    }
+
+    issueSession(user.id, session.refreshToken);
+    return user;
+  },
+
+  /**
+   * Updates a user's profile information
+   * Merges the new data with existing user data
+   * A new password is checked against the policy and stored as a hash,
+   * and ends the user's other sessions (all of them when an admin sets it)
+   * 
+   * @param userId - ID of the user to update
+   * @param data - Profile fields to update (and optionally a new password)
+   * @returns Promise resolving to the updated User object
+   * @throws Error if user not found or the new password is too weak
+   */
+  updateProfile: async (userId: string, data: ProfileUpdateData): Promise<User> => {
+    await delay(300);
+    
+    // Find user index in the array
+    const index = users.findIndex(u => u.id === userId);
+    if (index === -1) throw new Error('User not found');
+    
+    // Keep the password out of the user record; store its hash instead
+    const { password, ...profile } = data;
+    if (password) {
+      const passwordError = checkPasswordPolicy(password, users[index].username);
+      if (passwordError) throw invalidField('password', passwordError);
+      passwordHashes.set(userId, await hashPassword(password));
+
+      const own = currentUserId === userId ? loadTokens()?.refreshToken : undefined;
+      saveSessions(loadSessions().filter(s => s.userId !== userId || s.refreshToken === own));
+    }
+    
+    // Merge existing user data with updates (spread operator)
+    users[index] = { ...users[index], ...profile };
+    
+    return users[index];
+  },
+
+  /**
+   * Logs out the current user
+   * Revokes the session in the mock session store and clears the tokens
+   * (cart remains in memory if they log back in)
+   */
+  logout: async (): Promise<void> => {
+    await delay(200);
+    const tokens = loadTokens();
+    if (tokens) {
+      saveSessions(loadSessions().filter(s => s.refreshToken !== tokens.refreshToken));
+    }
+    clearTokens();
+    currentUserId = null; // Clear current user reference
+  }
+};
+
+// ============================================================================
+// PRICE HISTORY AND PRICE RULES
+// ============================================================================
+// Mirrors the backend's price_changes and price_rules tables. The backend
+// applies due rules with a scheduler; here they are applied whenever books
+// or rules are read, which looks the same from the pages.
+
+/**
+ * Whether a price is in whole cents; like the shared schemas, finer
+ * prices are rejected rather than rounded
+ */
+const inWholeCents = (price: number): boolean => /^\d+(\.\d{1,2})?$/.test(String(price));
+
+/**
+ * Adds an entry to a book's price history
+ * 
+ * @param isbn - ISBN in stored form
+ * @param price - The book's new price
+ * @param source - What changed it
+ * @param ruleId - Rule that set the price, for 'schedule'
+ */
+const recordPriceChange = (isbn: string, price: number, source: PriceChangeSource, ruleId: string | null = null): void => {
+  priceChanges.push({
+    id: String(Math.max(0, ...priceChanges.map(c => Number(c.id))) + 1),
+    isbn,
+    price,
+    changedAt: new Date().toISOString(),
+    source,
+    ruleId
+  });
+};
+
+/**
+ * Sets a book's price for a rule and records the change
+ * 
+ * @param isbn - ISBN in stored form
+ * @param price - New price
+ * @param ruleId - Rule making the change
+ */
+const setScheduledPrice = (isbn: string, price: number, ruleId: string): void => {
+  const index = books.findIndex(b => b.isbn === isbn);
+  if (index === -1) return;
+  books[index] = { ...books[index], sellingPrice: price };
+  recordPriceChange(isbn, price, 'schedule', ruleId);
+};
+
+/**
+ * Puts back the price an active rule replaced, unless the book's price
+ * was changed since the rule set it
+ * 
+ * @param rule - Active rule
+ */
+const revertPriceRule = (rule: PriceRule): void => {
+  const book = books.find(b => b.isbn === rule.isbn);
+  if (book && book.sellingPrice === rule.price && rule.previousPrice !== null) {
+    setScheduledPrice(rule.isbn, rule.previousPrice, rule.id);
+  }
+};
+
+/**
+ * Starts and ends the rules that are due (like the backend's scheduler):
+ * ending rules first, then starting ones. A rule whose whole window has
+ * passed completes without being applied.
+ */
+const applyDuePriceRules = (): void => {
+  const now = Date.now();
+
+  priceRules.forEach((rule, index) => {
+    if (rule.status === 'active' && rule.endsAt && Date.parse(rule.endsAt) <= now) {
+      revertPriceRule(rule);
+      priceRules[index] = { ...rule, status: 'completed' };
+    }
+  });
+
+  priceRules
+    .map((rule, index) => ({ rule, index }))
+    .filter(({ rule }) => rule.status === 'scheduled' && Date.parse(rule.startsAt) <= now)
+    .sort((a, b) => Date.parse(a.rule.startsAt) - Date.parse(b.rule.startsAt))
+    .forEach(({ rule, index }) => {
+      if (rule.endsAt && Date.parse(rule.endsAt) <= now) {
+        priceRules[index] = { ...rule, status: 'completed' };
+        return;
+      }
+      const book = books.find(b => b.isbn === rule.isbn);
+      priceRules[index] = {
+        ...rule,
+        status: rule.endsAt ? 'active' : 'completed',
+        previousPrice: book?.sellingPrice ?? null
+      };
+      if (book && book.sellingPrice !== rule.price) {
+        setScheduledPrice(rule.isbn, rule.price, rule.id);
+      }
+    });
+};
+
+// ============================================================================
+// RECOMMENDATIONS
+// ============================================================================
+// Mirrors the backend's book_affinity table and recommendationsRepository:
+// for each book, the books bought with it and in how many orders. Counted
+// from the sample orders at startup and again at each checkout.
+
+/** Orders containing both books, by ISBN and then by the other book's ISBN */
+const bookAffinity = new Map<string, Map<string, number>>();
+
+/**
+ * Counts an order's books as bought together
+ * 
+ * @param isbns - ISBNs of the order's lines
+ */
+const addOrderAffinity = (isbns: string[]): void => {
+  for (const [isbn, related] of coPurchasePairs(isbns)) {
+    const counts = bookAffinity.get(isbn) ?? new Map<string, number>();
+    counts.set(related, (counts.get(related) ?? 0) + 1);
+    bookAffinity.set(isbn, counts);
+  }
+};
+
+customerOrders
+  .filter(order => order.status !== 'cancelled')
+  .forEach(order => addOrderAffinity(order.items.map(item => item.isbn)));
+
+/**
+ * Orders recommendations best first: by reason, then score, then books
+ * in stock, newer and by title
+ */
+const compareRecommendations = (a: BookRecommendation, b: BookRecommendation): number =>
+  RECOMMENDATION_REASONS.indexOf(a.reason) - RECOMMENDATION_REASONS.indexOf(b.reason) ||
+  b.score - a.score ||
+  Number(b.book.quantity > 0) - Number(a.book.quantity > 0) ||
+  b.book.publicationYear - a.book.publicationYear ||
+  a.book.title.localeCompare(b.book.title);
+
+/**
+ * Recommends books to go with some books. Their other editions count as
+ * the books; their works and archived books are never recommended, and
+ * each work is recommended once, as its best-placed edition.
+ * 
+ * @param isbns - ISBNs of the books, in stored form
+ * @param limit - Most recommendations to return
+ * @returns Recommendations, best first
+ */
+const recommendFor = (isbns: string[], limit: number = DEFAULT_RECOMMENDATIONS): BookRecommendation[] => {
+  const sourceWorks = new Set(books.filter(b => isbns.includes(b.isbn)).map(b => b.workId));
+  const sources = books.filter(b => sourceWorks.has(b.workId));
+  const authorIds = new Set(sources.flatMap(b => b.authors.map(a => a.id)));
+  const categoryIds = new Set(sources.flatMap(b => b.categories.map(c => c.id)));
+
+  const bestByWork = new Map<string, BookRecommendation>();
+  for (const book of books) {
+    if (book.archivedAt || sourceWorks.has(book.workId)) continue;
+
+    // The best reason the book has; later ones only fill in
+    const boughtTogether = sources.reduce((sum, s) => sum + (bookAffinity.get(s.isbn)?.get(book.isbn) ?? 0), 0);
+    const sharedAuthors = book.authors.filter(a => authorIds.has(a.id)).length;
+    const sharedCategories = book.categories.filter(c => categoryIds.has(c.id)).length;
+    const candidate: BookRecommendation | null =
+      boughtTogether > 0 ? { book, reason: 'bought-together', score: boughtTogether }
+      : sharedAuthors > 0 ? { book, reason: 'same-author', score: sharedAuthors }
+      : sharedCategories > 0 ? { book, reason: 'same-category', score: sharedCategories }
+      : null;
+    if (!candidate) continue;
+
+    const best = bestByWork.get(book.workId);
+    if (!best || compareRecommendations(candidate, best) < 0) {
+      bestByWork.set(book.workId, candidate);
+    }
+  }
+
+  return [...bestByWork.values()].sort(compareRecommendations).slice(0, limit);
+};
+
+// ============================================================================
+// CATALOG SEARCH
+// ============================================================================
+// Mirrors the backend's searchRepository: works matching every filter, one
+// page at a time, and for each facet the works each value would find with
+// the other filters applied (see the bookstore-shared catalogSearch module).
+// Search text is matched through an in-memory index standing in for the
+// backend's book_search table (see the textSearch module).
+
+/** A filter of a catalog search, named like its facet */
+type SearchFacet = typeof SEARCH_FACETS[number];
+
+/** Search index of the books "table", keyed by ISBN */
+const searchIndex = createSearchIndex();
+
+/**
+ * Indexes books again after their title, authors or publisher changed
+ * (the backend's triggers do this for book_search)
+ * 
+ * @param changed - Books as they are now
+ */
+const reindexBooks = (changed: Book[]): void => {
+  changed.forEach(book => searchIndex.set(book.isbn, {
+    title: book.title,
+    authors: authorNamesOf(book),
+    publisher: book.publisher
+  }));
+};
+
+/**
+ * Finds the books search text matches, like the backend: a complete ISBN
+ * finds that book alone; otherwise words of titles, authors and
+ * publishers, or ISBN digits (with or without hyphens)
+ * 
+ * @param query - Search text
+ * @returns Relevance of each matching book by ISBN, higher first; 0 for
+ *   books found by ISBN alone
+ */
+const textRelevance = (query: string): Map<string, number> => {
+  const relevance = normalizeIsbn(query) ? new Map<string, number>() : searchIndex.search(query);
+  books
+    .filter(book => !relevance.has(book.isbn) && matchesIsbn(book.isbn, query))
+    .forEach(book => relevance.set(book.isbn, 0));
+  return relevance;
+};
+
+/**
+ * Checks a book for sale against a catalog search's filters
+ * 
+ * @param book - Book to check
+ * @param filter - Search filters
+ * @param relevance - Books the search text matches (see textRelevance), or
+ *   null without search text
+ * @param except - Facet whose own filter is left out, when counting it
+ * @returns Whether the book matches
+ */
+const matchesCatalogSearch = (
+  book: Book,
+  filter: CatalogSearchFilter,
+  relevance: Map<string, number> | null,
+  except?: SearchFacet
+): boolean => {
+  if (relevance && !relevance.has(book.isbn)) return false;
+
+  if (filter.category && except !== 'category') {
+    const category = categories.find(c => c.slug === filter.category);
+    const ids = category ? descendantIds(categories, category.id) : new Set<string>();
+    if (!book.categories.some(c => ids.has(c.id))) return false;
+  }
+  if (filter.authorId && except !== 'authorId' && !book.authors.some(a => a.id === filter.authorId)) return false;
+  if (filter.publisherId && except !== 'publisherId' && book.publisherId !== filter.publisherId) return false;
+  if (filter.decade && except !== 'decade' && decadeOf(book.publicationYear) !== filter.decade) return false;
+  if (filter.price && except !== 'price' && priceBucketOf(book.sellingPrice).value !== filter.price) return false;
+  if (filter.inStock && except !== 'inStock' && book.quantity === 0) return false;
+  if (filter.tag && except !== 'tag' && !book.tags.includes(normalizeTag(filter.tag))) return false;
+  return true;
+};
+
+/**
+ * Counts, for one facet, the works each value would find
+ * 
+ * @param filter - Search filters
+ * @param relevance - Books the search text matches, or null
+ * @param facet - Facet to count (its own filter is left out)
+ * @param valuesOf - The facet's values a book has
+ * @returns Works per value; values no book has are missing
+ */
+const countFacet = (
+  filter: CatalogSearchFilter,
+  relevance: Map<string, number> | null,
+  facet: SearchFacet,
+  valuesOf: (book: Book) => string[]
+): Map<string, number> => {
+  const works = new Map<string, Set<string>>();
+  books
+    .filter(book => !book.archivedAt && matchesCatalogSearch(book, filter, relevance, facet))
+    .forEach(book => valuesOf(book).forEach(value => {
+      works.set(value, (works.get(value) ?? new Set<string>()).add(book.workId));
+    }));
+  return new Map([...works].map(([value, workIds]) => [value, workIds.size]));
+};
+
+/**
+ * Orders the editions of one work by a sort, best first (editions that
+ * tie keep their format order)
+ * 
+ * @param relevance - Books the search text matches, or null
+ * @returns Comparator of each sort
+ */
+const editionOrder = (relevance: Map<string, number> | null): Record<SearchSort, (a: Book, b: Book) => number> => ({
+  relevance: (a, b) => (relevance?.get(b.isbn) ?? 0) - (relevance?.get(a.isbn) ?? 0),
+  title: () => 0,
+  'price-asc': (a, b) => a.sellingPrice - b.sellingPrice,
+  'price-desc': (a, b) => b.sellingPrice - a.sellingPrice,
+  year: (a, b) => b.publicationYear - a.publicationYear
+});
+
+/**
+ * Orders works by a sort: by their best edition for it (its first one in
+ * the edition order), then by title
+ * 
+ * @param order - Edition comparators (see editionOrder)
+ * @param sort - Search order
+ * @returns Comparator of works, each as its editions in the sort's order
+ */
+const compareWorks = (order: ReturnType<typeof editionOrder>, sort: SearchSort) => (a: Book[], b: Book[]): number => {
+  const firstTitle = (editions: Book[]) => editions.map(e => e.title).sort()[0];
+  return (sort === 'title' ? 0 : order[sort](a[0], b[0])) ||
+    firstTitle(a).localeCompare(firstTitle(b)) ||
+    Number(a[0].workId) - Number(b[0].workId);
+};
+
+// ============================================================================
+// BOOKS API
+// ============================================================================
+
+/** Fields of a catalog import row (the records of database/books.json) */
+const IMPORT_ROW_FIELDS = [
+  'isbn', 'title', 'format', 'authors', 'publisher', 'publicationYear',
+  'sellingPrice', 'categories', 'quantity', 'threshold', 'imageUrl',
+  'description', 'pageCount', 'language', 'edition', 'heightMm', 'widthMm',
+  'thicknessMm', 'weightGrams', 'tags'
+];
+
+/** A book's bibliographic details and tags */
+type BookDetails = Pick<Book,
+  'description' | 'pageCount' | 'language' | 'edition' | 'heightMm' | 'widthMm' | 'thicknessMm' | 'weightGrams' | 'tags'>;
+
+/** Details of a book that has none (the columns' NULLs, and no tags) */
+const NO_DETAILS: BookDetails = {
+  description: null,
+  pageCount: null,
+  language: null,
+  edition: null,
+  heightMm: null,
+  widthMm: null,
+  thicknessMm: null,
+  weightGrams: null,
+  tags: []
+};
+
+/**
+ * Puts tags in their stored form, like the backend: normalized, without
+ * repeats, in alphabetical order
+ * 
+ * @param tags - Tags as sent
+ * @returns Tags as stored
+ */
+const toBookTags = (tags: string[]): string[] =>
+  [...new Set(tags.map(normalizeTag).filter(Boolean))].sort();
+
+/**
+ * A catalog import row after checking
+ */
+interface CheckedImportRow {
+  /** Position in the import, from 1 */
+  row: number;
+  /** Stored-form ISBN, or as given if invalid */
+  isbn: string | null;
+  title: string | null;
+  errors: FieldError[];
+  /** Book fields to save; authors stay names and categories slugs until then */
+  fields?: Omit<Book, 'authors' | 'categories' | 'quantity' | 'threshold' | 'format' | 'workId' | 'archivedAt' | keyof BookDetails> & {
+    authorNames: string[];
+    slugs: string[];
+    /** The details given; an existing book keeps the others */
+    details: Partial<BookDetails>;
+    /** Left out to keep an existing book's format (new books are paperbacks) */
+    format?: BookFormat;
+    /** Left out to keep an existing book's stock */
+    quantity?: number;
+    threshold?: number;
+  };
+}
+
+/**
+ * Checks one catalog import row the way the backend's bookImportRowSchema
+ * does, and also that its categories and publisher exist
+ * 
+ * @param input - Row as read from the file
+ * @param row - Position in the import, from 1
+ * @returns The row's report fields and, if valid, the book to save
+ */
+const checkImportRow = (input: unknown, row: number): CheckedImportRow => {
+  if (typeof input !== 'object' || input === null || Array.isArray(input)) {
+    return { row, isbn: null, title: null, errors: [{ field: '', message: 'Each book must be an object' }] };
+  }
+  const record = input as Record<string, unknown>;
+  const errors: FieldError[] = [];
+  for (const field of Object.keys(record).filter(key => !IMPORT_ROW_FIELDS.includes(key))) {
+    errors.push({ field, message: 'Unknown field' });
+  }
+
+  const text = (field: string, label: string): string => {
+    const value = record[field];
+    if (typeof value !== 'string' || !value.trim()) {
+      errors.push({ field, message: value === undefined || typeof value === 'string' ? `${label} is required` : `${label} must be text` });
+      return '';
+    }
+    return value.trim();
+  };
+  const whole = (field: string, label: string): number => {
+    const value = record[field];
+    if (typeof value !== 'number' || !Number.isInteger(value)) {
+      errors.push({ field, message: value === undefined ? `${label} is required` : `${label} must be a whole number` });
+      return 0;
+    }
+    if (value < 0) errors.push({ field, message: `${label} cannot be negative` });
+    return value;
+  };
+  const names = (field: string, message: string): string[] => {
+    const value = record[field];
+    const list = Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string' && item.trim() !== '') : [];
+    if (list.length === 0 || list.length !== (value as unknown[]).length) {
+      errors.push({ field, message });
+      return [];
+    }
+    return list.map(item => item.trim());
+  };
+
+  // ISBN: any form, stored as compact ISBN-13
+  const givenIsbn = text('isbn', 'ISBN');
+  const isbnError = givenIsbn ? checkIsbn(givenIsbn) : null;
+  if (isbnError) errors.push({ field: 'isbn', message: isbnError });
+  const isbn = normalizeIsbn(givenIsbn) ?? givenIsbn;
+
+  const title = text('title', 'Title');
+  const format = record.format === undefined ? undefined : record.format as BookFormat;
+  if (format !== undefined && !BOOK_FORMATS.includes(format)) {
+    errors.push({ field: 'format', message: `Format must be one of: ${BOOK_FORMATS.join(', ')}` });
+  }
+  const authorNames = names('authors', 'At least one author is required');
+
+  const publisherName = text('publisher', 'Publisher');
+  const publisher = publishers.find(p => p.name.toLowerCase() === publisherName.toLowerCase());
+  if (publisherName && !publisher) {
+    errors.push({ field: 'publisher', message: `Publisher not found: ${publisherName}` });
+  }
+
+  const publicationYear = whole('publicationYear', 'Publication year');
+  if (publicationYear > new Date().getFullYear() + 1) {
+    errors.push({ field: 'publicationYear', message: 'Publication year cannot be in the future' });
+  } else if (publicationYear > 0 && publicationYear < 1000) {
+    errors.push({ field: 'publicationYear', message: 'Publication year must have 4 digits' });
+  }
+
+  const sellingPrice = record.sellingPrice;
+  if (typeof sellingPrice !== 'number') {
+    errors.push({ field: 'sellingPrice', message: sellingPrice === undefined ? 'Selling price is required' : 'Selling price must be a number' });
+  } else if (sellingPrice <= 0) {
+    errors.push({ field: 'sellingPrice', message: 'Selling price must be greater than 0' });
+  } else if (!inWholeCents(sellingPrice)) {
+    errors.push({ field: 'sellingPrice', message: 'Selling price can have at most 2 decimal places' });
+  }
+
+  const slugs = names('categories', 'Choose at least one category');
+  const unknown = slugs.filter(slug => !categories.some(c => c.slug === slug));
+  if (unknown.length > 0) {
+    errors.push({ field: 'categories', message: `Unknown category: ${unknown.join(', ')}` });
+  }
+
+  // Stock is optional: new books start empty, existing books keep theirs
+  const quantity = record.quantity === undefined ? undefined : whole('quantity', 'Quantity');
+  const threshold = record.threshold === undefined ? undefined : whole('threshold', 'Threshold');
+  const imageUrl = typeof record.imageUrl === 'string' && record.imageUrl.trim() ? record.imageUrl.trim() : undefined;
+  if (record.imageUrl !== undefined && !imageUrl) {
+    errors.push({ field: 'imageUrl', message: 'Image URL must be a valid URL' });
+  }
+
+  // Bibliographic details are optional too
+  const details: Partial<BookDetails> = {};
+  for (const [field, label, max] of [['description', 'Description', 5000], ['edition', 'Edition', 50]] as const) {
+    const value = record[field];
+    if (value === undefined || value === null) continue;
+    if (typeof value !== 'string' || !value.trim()) {
+      errors.push({ field, message: `${label} must be text` });
+    } else if (value.trim().length > max) {
+      errors.push({ field, message: `${label} must be at most ${max} characters` });
+    } else {
+      details[field] = value.trim();
+    }
+  }
+  if (record.language !== undefined && record.language !== null) {
+    const language = typeof record.language === 'string' ? record.language.trim().toLowerCase() : '';
+    if (/^[a-z]{2,3}$/.test(language)) {
+      details.language = language;
+    } else {
+      errors.push({ field: 'language', message: 'Language must be a 2- or 3-letter ISO 639 code, e.g. en' });
+    }
+  }
+  const measures = [
+    ['pageCount', 'Page count'], ['heightMm', 'Height'], ['widthMm', 'Width'],
+    ['thicknessMm', 'Thickness'], ['weightGrams', 'Weight']
+  ] as const;
+  for (const [field, label] of measures) {
+    const value = record[field];
+    if (value === undefined || value === null) continue;
+    if (typeof value !== 'number' || !Number.isInteger(value)) {
+      errors.push({ field, message: `${label} must be a whole number` });
+    } else if (value <= 0) {
+      errors.push({ field, message: `${label} must be greater than 0` });
+    } else {
+      details[field] = value;
+    }
+  }
+  if (record.tags !== undefined) {
+    const value = record.tags;
+    const tags = Array.isArray(value) && value.every(tag => typeof tag === 'string') ? toBookTags(value) : null;
+    if (!tags) {
+      errors.push({ field: 'tags', message: 'Tags must be a list of words or phrases' });
+    } else if (tags.length > MAX_TAGS) {
+      errors.push({ field: 'tags', message: `A book can have at most ${MAX_TAGS} tags` });
+    } else if (tags.some(tag => tag.length > MAX_TAG_LENGTH)) {
+      errors.push({ field: 'tags', message: `Tag must be at most ${MAX_TAG_LENGTH} characters` });
+    } else {
+      details.tags = tags;
+    }
+  }
+
+  return {
+    row,
+    isbn: isbn || null,
+    title: title || null,
+    errors,
+    fields: {
+      isbn, title, format, authorNames, slugs, details, publicationYear, quantity, threshold, imageUrl,
+      sellingPrice: Number(sellingPrice),
+      publisherId: publisher?.id ?? null,
+      publisher: publisher?.name ?? null
+    }
+  };
+};
+
+/**
+ * Gives a new work ID, one above the highest in use
+ * (like the works table's SERIAL column)
+ */
+const nextWorkId = (): string =>
+  String(Math.max(0, ...books.map(b => Number(b.workId))) + 1);
+
+/**
+ * Checks that a work exists, i.e. that some book is an edition of it
+ * 
+ * @param workId - Work sent with a book
+ * @throws ApiValidationError if no book has the work ID
+ */
+const assertWorkExists = (workId: string): void => {
+  if (!books.some(b => b.workId === workId)) {
+    throw invalidField('workId', 'Work not found');
+  }
+};
+
+/**
+ * Archives a book or puts it back on sale, replacing its record
+ * 
+ * @param isbn - ISBN in stored form
+ * @param archived - True to archive (keeping an earlier date), false to unarchive
+ * @returns The updated book
+ * @throws Error if no book has the ISBN
+ */
+const setArchived = (isbn: string, archived: boolean): Book => {
+  const index = books.findIndex(b => b.isbn === isbn);
+  if (index === -1) throw new Error('Book not found');
+
+  const book = books[index];
+  const updated: Book = { ...book, archivedAt: archived ? book.archivedAt ?? new Date().toISOString() : null };
+  books[index] = updated;
+  return updated;
+};
+
+/**
+ * Books API Module
+ * Handles all book-related CRUD (Create, Read, Update, Delete) operations.
+ * Like the backend, only books nobody has ordered can be deleted; the
+ * others are archived (archivedAt) and left out of getAll and search.
+ *  
+ * IMPORTANT: This module implements DATABASE TRIGGERS:
+ * 1. CHECK constraint: Prevents negative book quantity
+ * 2. AUTO-REPLENISH trigger: Automatically places publisher orders when
+ *    stock drops below the threshold
+ */
+const booksApi: BooksApi = {
+  /**
+   * Retrieves all books for sale (archived books are left out)
+   * Returns a copy to prevent direct mutation of the data store
+   * 
+   * @returns Promise resolving to array of Book objects
+   */
+  getAll: async (): Promise<Book[]> => {
+    await delay(300);
+    applyDuePriceRules();
+    return books.filter(b => !b.archivedAt); // Return copy, not reference
+  },
+
+  /**
+   * Retrieves a single book by its ISBN (primary key), archived or not
+   *  
+   * @param isbn - The ISBN of the book to find, in any form (e.g. ISBN-10)
+   * @returns Promise resolving to Book object or undefined if not found
+   */
+  getByIsbn: async (isbn: string): Promise<Book | undefined> => {
+    await delay(200);
+    applyDuePriceRules();
+    const key = normalizeIsbn(isbn) ?? isbn;
+    return books.find(b => b.isbn === key);
+  },
+
+  /**
+   * Searches books by query string with optional filters
+   * Performs case-insensitive search in: ISBN, title, and author names
+   * A complete ISBN in any form finds that book; partial ISBNs match
+   * with or without hyphens
+   * 
+   * @param query - Search string to match against book fields
+   * @param filter - Optional filters for category, author, publisher, work, tag
+   *   and archival (archived books are left out unless asked for)
+   * @returns Promise resolving to array of matching Book objects
+   * 
+   * @example
+   * // Search for "Harry" in any field
+   * const results = await booksApi.search('Harry');
+   * 
+   * // Search with filters
+   * // Science books, including its subcategories
+   * const filtered = await booksApi.search('', { category: 'science' });
+   */
+  search: async (query: string, filter?: BookSearchFilter): Promise<Book[]> => {
+    await delay(300);
+    applyDuePriceRules();
+    
+    // Archived books only when asked for
+    let results = books.filter(book =>
+      filter?.archived === 'include' || (filter?.archived === 'only' ? book.archivedAt : !book.archivedAt)
+    );
+
+    // Filter by search text (words, typos forgiven, or ISBN digits)
+    if (query.trim()) {
+      const relevance = textRelevance(query);
+      results = results.filter(book => relevance.has(book.isbn));
+    }
+
+    // Apply category filter if provided (the category and its subcategories)
+    if (filter?.category) {
+      const category = categories.find(c => c.slug === filter.category);
+      const ids = category ? descendantIds(categories, category.id) : new Set<string>();
+      results = results.filter(b => b.categories.some(c => ids.has(c.id)));
+    }
+    
+    // Apply author filter if provided (names and aliases)
+    if (filter?.author) {
+      results = results.filter(b => authorNamesOf(b).some(name => name.toLowerCase().includes(filter.author!.toLowerCase())));
+    }
+
+    // Apply author ID filter if provided
+    if (filter?.authorId) {
+      results = results.filter(b => b.authors.some(a => a.id === filter.authorId));
+    }
+    
+    // Apply publisher filter if provided
+    if (filter?.publisher) {
+      results = results.filter(b => b.publisher?.toLowerCase().includes(filter.publisher!.toLowerCase()));
+    }
+
+    // Apply work filter if provided (the work's editions)
+    if (filter?.workId) {
+      results = results.filter(b => b.workId === filter.workId);
+    }
+
+    // Apply tag filter if provided (in any case or spacing)
+    if (filter?.tag) {
+      const tag = normalizeTag(filter.tag);
+      results = results.filter(b => b.tags.includes(tag));
+    }
+
+    return results;
+  },
+
+  /**
+   * Searches the storefront catalog: a page of works with facet counts
+   * Works are found when any edition for sale matches; each facet is
+   * counted without its own filter, so other values stay selectable
+   * 
+   * @param filter - Filters, sort and page (see CatalogSearchFilter)
+   * @returns Promise resolving to the page's books, total works and facets
+   * @throws ApiValidationError for an unknown sort, price or decade, or a
+   *   page or page size out of range
+   * 
+   * @example
+   * // Second page of history books under $25
+   * const result = await booksApi.searchCatalog({ category: 'history', price: '10-25', page: 2 });
+   */
+  searchCatalog: async (filter: CatalogSearchFilter): Promise<CatalogSearchResult> => {
+    await delay(300);
+    applyDuePriceRules();
+
+    const { sort = 'relevance', page = 1, pageSize = DEFAULT_PAGE_SIZE } = filter;
+    if (!SEARCH_SORTS.includes(sort)) {
+      throw invalidField('sort', `Sort must be one of: ${SEARCH_SORTS.join(', ')}`);
+    }
+    if (filter.price && !PRICE_BUCKET_VALUES.includes(filter.price)) {
+      throw invalidField('price', `Price must be one of: ${PRICE_BUCKET_VALUES.join(', ')}`);
+    }
+    if (filter.decade && !/^\d{1,3}0$/.test(filter.decade)) {
+      throw invalidField('decade', 'Decade must be a year ending in 0, e.g. 1990');
+    }
+    if (!Number.isInteger(page) || page < 1) throw invalidField('page', 'Page must be at least 1');
+    if (!Number.isInteger(pageSize) || pageSize < 1 || pageSize > MAX_PAGE_SIZE) {
+      throw invalidField('pageSize', `Page size must be between 1 and ${MAX_PAGE_SIZE}`);
+    }
+
+    // Works in result order, each as its matching editions; without search
+    // text, relevance orders by title
+    const relevance = filter.q?.trim() ? textRelevance(filter.q) : null;
+    const order = editionOrder(relevance);
+    const works = groupEditions(books.filter(book => !book.archivedAt && matchesCatalogSearch(book, filter, relevance)))
+      .map(editions => [...editions].sort(order[sort]))
+      .sort(compareWorks(order, sort));
+
+    // Facet values with their labels, in display order
+    const forSale = books.filter(book => !book.archivedAt);
+    const categoryCounts = countFacet(filter, relevance, 'category', book =>
+      categories
+        .filter(c => {
+          const ids = descendantIds(categories, c.id);
+          return book.categories.some(bc => ids.has(bc.id));
+        })
+        .map(c => c.slug)
+    );
+    const authorCounts = countFacet(filter, relevance, 'authorId', book => book.authors.map(a => a.id));
+    const publisherCounts = countFacet(filter, relevance, 'publisherId', book => (book.publisherId ? [book.publisherId] : []));
+    const decadeCounts = countFacet(filter, relevance, 'decade', book => [decadeOf(book.publicationYear)]);
+    const priceCounts = countFacet(filter, relevance, 'price', book => [priceBucketOf(book.sellingPrice).value]);
+    const inStockCounts = countFacet(filter, relevance, 'inStock', book => (book.quantity > 0 ? ['true'] : []));
+    const tagCounts = countFacet(filter, relevance, 'tag', book => book.tags);
+
+    const byLabel = (a: { label: string }, b: { label: string }) => a.label.localeCompare(b.label);
+    const authorNames = new Map(forSale.flatMap(b => b.authors).map(a => [a.id, a.name]));
+    const publisherNames = new Map(forSale.flatMap(b => (b.publisherId ? [[b.publisherId, b.publisher ?? '']] : [])));
+    const decades = [...new Set(forSale.map(b => decadeOf(b.publicationYear)))].sort((a, b) => Number(b) - Number(a));
+    const tags = [...new Set(forSale.flatMap(b => b.tags))].sort();
+
+    return {
+      books: works.slice((page - 1) * pageSize, page * pageSize).flat(),
+      total: works.length,
+      page,
+      pageSize,
+      facets: {
+        category: [...categories]
+          .sort((a, b) => a.sortOrder - b.sortOrder || a.name.localeCompare(b.name))
+          .map(c => ({ value: c.slug, label: c.name, count: categoryCounts.get(c.slug) ?? 0 })),
+        authorId: [...authorNames]
+          .map(([id, name]) => ({ value: id, label: name, count: authorCounts.get(id) ?? 0 }))
+          .sort(byLabel),
+        publisherId: [...publisherNames]
+          .map(([id, name]) => ({ value: id, label: name, count: publisherCounts.get(id) ?? 0 }))
+          .sort(byLabel),
+        decade: decades.map(decade => ({ value: decade, label: decadeLabel(decade), count: decadeCounts.get(decade) ?? 0 })),
+        price: PRICE_BUCKETS.map(({ value, label }) => ({ value, label, count: priceCounts.get(value) ?? 0 })),
+        inStock: [{ value: 'true', label: 'In stock', count: inStockCounts.get('true') ?? 0 }],
+        tag: tags.map(tag => ({ value: tag, label: tag, count: tagCounts.get(tag) ?? 0 }))
+      }
+    };
+  },
+
+  /**
+   * Suggests books, authors and categories for text being typed
+   * Books match like searchCatalog's q (most relevant first, one edition
+   * per work); authors (name or alias, with books for sale) and
+   * categories match by name, names starting with the text first
+   * 
+   * @param query - Text typed so far
+   * @param limit - Most suggestions of each kind (default DEFAULT_SUGGESTIONS)
+   * @returns Promise resolving to the suggestions
+   * @throws ApiValidationError for empty text or a limit out of range
+   * 
+   * @example
+   * const { books, authors, categories } = await booksApi.suggest('hist');
+   */
+  suggest: async (query: string, limit = DEFAULT_SUGGESTIONS): Promise<SearchSuggestions> => {
+    await delay(150);
+    applyDuePriceRules();
+
+    const text = query.trim().toLowerCase();
+    if (!text) throw invalidField('q', 'Search text is required');
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_SUGGESTIONS) {
+      throw invalidField('limit', `Limit must be between 1 and ${MAX_SUGGESTIONS}`);
+    }
+
+    // Best edition of each work: the most relevant, then in format order
+    const relevance = textRelevance(query);
+    const scoreOf = (book: Book) => relevance.get(book.isbn) ?? 0;
+    const bestEditions = groupEditions(books.filter(book => !book.archivedAt && relevance.has(book.isbn)))
+      .map(editions => [...editions].sort((a, b) =>
+        scoreOf(b) - scoreOf(a) || BOOK_FORMATS.indexOf(a.format) - BOOK_FORMATS.indexOf(b.format))[0])
+      .sort((a, b) => scoreOf(b) - scoreOf(a) || a.title.localeCompare(b.title));
+
+    // Names starting with the text come first
+    const byMatch = (a: string, b: string) =>
+      Number(b.toLowerCase().startsWith(text)) - Number(a.toLowerCase().startsWith(text));
+    const forSale = new Set(books.filter(book => !book.archivedAt).flatMap(book => book.authors.map(a => a.id)));
+
+    return {
+      books: bestEditions.slice(0, limit).map(({ isbn, title, authors, imageUrl }) => ({ isbn, title, authors, imageUrl })),
+      authors: authors
+        .filter(a => forSale.has(a.id) && [a.name, ...a.aliases].some(name => name.toLowerCase().includes(text)))
+        .sort((a, b) => byMatch(a.name, b.name) || a.name.localeCompare(b.name))
+        .slice(0, limit)
+        .map(({ id, name }) => ({ id, name })),
+      categories: categories
+        .filter(c => c.name.toLowerCase().includes(text))
+        .sort((a, b) => byMatch(a.name, b.name) || a.sortOrder - b.sortOrder || a.name.localeCompare(b.name))
+        .slice(0, limit)
+        .map(({ id, name, slug, color }) => ({ id, name, slug, color }))
+    };
+  },
+
+  /**
+   * Adds a new book to the inventory
+   * Validates the ISBN check digit and that the ISBN is unique (primary key
+   * constraint). The ISBN is stored as compact ISBN-13, like the backend.
+   * 
+   * @param data - Book form data including ISBN, title, authors, prices, etc.
+   * @returns Promise resolving to the newly created Book object
+   * @throws ApiValidationError if the ISBN is invalid or already exists,
+   *   no author is given, or the publisher, a category or the work is unknown
+   */
+  add: async (data: BookFormData): Promise<Book> => {
+    await delay(400);
+    
+    const isbnError = checkIsbn(data.isbn);
+    if (isbnError) {
+      throw invalidField('isbn', isbnError);
+    }
+    const isbn = normalizeIsbn(data.isbn)!;
+
+    // Check for duplicate ISBN (PRIMARY KEY constraint)
+    if (books.some(b => b.isbn === isbn)) {
+      throw invalidField('isbn', 'Book with this ISBN already exists');
+    }
+    
+    const publisher = publisherOf(data.publisherId);
+    if (data.workId !== undefined) assertWorkExists(data.workId);
+
+    // The other fields are checked like an import row naming the publisher
+    const { workId: _workId, publisherId: _publisherId, ...fields } = data;
+    const { errors } = checkImportRow({
+      ...fields,
+      publisher: publisher.name,
+      authors: data.authors.split(','),
+      tags: parseTags(data.tags)
+    }, 1);
+    if (errors.length > 0) throw new ApiValidationError(errors);
+
+    // Create new book object; without a workId the book starts a new work
+    const newBook: Book = {
+      ...data,
+      workId: data.workId ?? nextWorkId(),
+      isbn,
+      language: data.language?.toLowerCase() ?? null,
+      tags: toBookTags(parseTags(data.tags)),
+      archivedAt: null,
+      publisher: publisher.name,
+      categories: toBookCategories(data.categories),
+      // Convert the comma-separated names to authors, creating new ones
+      authors: toBookAuthors(data.authors.split(','))
+    };
+    
+    // Add to books "table", starting its price history
+    books.push(newBook);
+    reindexBooks([newBook]);
+    recordPriceChange(isbn, newBook.sellingPrice, 'created');
+        
+    return newBook;
+  },
+
+  /**
+   * Updates an existing book's information
+   * 
+   * IMPLEMENTS TWO DATABASE TRIGGERS:
+   * 
+   * 1. CHECK CONSTRAINT - Prevents quantity from going negative
+   *    Throws error if update would result in negative stock
+   * 
+   * 2. AUTO-REPLENISH TRIGGER - When quantity drops below threshold:
+   *    - Automatically orders 20 copies (or the publisher's minimum order)
+   *      from the book's publisher
+   *    - Order status is set to 'Pending' for admin confirmation
+   *    - A book without a publisher cannot be reordered, so the update
+   *      is rejected and nothing changes
+   * 
+   * @param isbn - ISBN of the book to update
+   * @param data - Fields to update (authors as names and categories as slugs
+   *   replace the book's current lists)
+   * @returns Promise resolving to the updated Book object
+   * @throws Error if book not found, quantity would become negative, or
+   *   a reorder is needed but the book has no publisher
+   */
+  update: async (isbn: string, data: BookUpdateData): Promise<Book> => {
+    await delay(300);
+    
+    // Find book index in the array
+    const index = books.findIndex(b => b.isbn === isbn);
+    if (index === -1) throw new Error('Book not found');
+
+    // =========================================
+    // TRIGGER 1: CHECK CONSTRAINT
+    // Prevent negative stock quantity
+    // Equivalent to: CHECK (quantity >= 0)
+    // =========================================
+    if (data.quantity !== undefined && data.quantity < 0) {
+      throw invalidField('quantity', 'Quantity cannot be negative');
+    }
+    if (data.sellingPrice !== undefined && !inWholeCents(data.sellingPrice)) {
+      throw invalidField('sellingPrice', 'Selling price can have at most 2 decimal places');
+    }
+
+    // Store old values for trigger comparison
+    const { quantity: oldQuantity, threshold: oldThreshold, sellingPrice: oldPrice } = books[index];
+    
+    // Apply updates using spread operator
+    const { authors: names, categories: slugs, tags, publisherId, imageUrl, workId, ...fields } = data;
+    if (workId !== undefined) assertWorkExists(String(workId));
+    const updated: Book = {
+      ...books[index],
+      ...fields,
+      ...(workId !== undefined && { workId: String(workId) }),
+      // null removes the cover
+      ...(imageUrl !== undefined && { imageUrl: imageUrl ?? undefined }),
+      ...(publisherId !== undefined && { publisherId: String(publisherId), publisher: publisherOf(String(publisherId)).name }),
+      ...(names !== undefined && { authors: toBookAuthors(names) }),
+      ...(slugs !== undefined && { categories: toBookCategories(slugs) }),
+      ...(tags !== undefined && { tags: toBookTags(tags) }),
+      ...(fields.language && { language: fields.language.toLowerCase() })
+    };
+
+    // =========================================
+    // TRIGGER 2: AUTO-REPLENISH
+    // Automatically order from publisher when stock is low
+    // Fires when: quantity transitions from >= threshold to < threshold
+    // =========================================
+    if (oldQuantity >= oldThreshold && updated.quantity < oldThreshold) {
+      // Throws (before anything is saved) if there is no publisher
+      const autoOrder = autoReorder(updated);
+      
+      // Add to publisher orders "table"
+      publisherOrders.push(autoOrder);
+      
+      // Log for debugging/monitoring
+      console.log('Auto-order placed:', autoOrder);
+    }
+
+    books[index] = updated;
+    reindexBooks([updated]);
+    if (updated.sellingPrice !== oldPrice) {
+      recordPriceChange(isbn, updated.sellingPrice, 'manual');
+    }
+    return updated;
+  },
+
+  /**
+   * Archives a book: takes it off sale and out of every cart, keeping it
+   * for the orders and reports that refer to it
+   * 
+   * @param isbn - ISBN of the book to archive
+   * @returns Promise resolving to the archived Book
+   * @throws Error if book not found
+   */
+  archive: async (isbn: string): Promise<Book> => {
+    await delay(300);
+    const book = setArchived(isbn, true);
+
+    userCarts.forEach(cart => {
+      cart.items = cart.items.filter(item => item.book.isbn !== isbn);
+      recalculateCart(cart);
+    });
+    return book;
+  },
+
+  /**
+   * Puts an archived book back on sale
+   * 
+   * @param isbn - ISBN of the book to unarchive
+   * @returns Promise resolving to the Book
+   * @throws Error if book not found
+   */
+  unarchive: async (isbn: string): Promise<Book> => {
+    await delay(300);
+    return setArchived(isbn, false);
+  },
+
+  /**
+   * Deletes a book from the inventory and from every cart
+   * 
+   * REFERENTIAL INTEGRITY: customer and publisher orders refer to the
+   * book, so a book that has been ordered cannot be deleted (archive it)
+   * 
+   * @param isbn - ISBN of the book to delete
+   * @throws Error if the book is not found or orders reference it
+   */
+  delete: async (isbn: string): Promise<void> => {
+    await delay(300);
+    if (!books.some(b => b.isbn === isbn)) throw new Error('Book not found');
+    const ordered = publisherOrders.some(o => o.bookIsbn === isbn) ||
+      customerOrders.some(o => o.items.some(item => item.isbn === isbn));
+    if (ordered) {
+      throw new Error('Book has orders and cannot be deleted; archive it instead');
+    }
+
+    // Filter out the book with matching ISBN
+    books = books.filter(b => b.isbn !== isbn);
+    searchIndex.remove(isbn);
+    userCarts.forEach(cart => {
+      cart.items = cart.items.filter(item => item.book.isbn !== isbn);
+      recalculateCart(cart);
+    });
+  },
+
+  /**
+   * Checks a catalog import and, unless it is a dry run, applies it
+   * 
+   * Mirrors POST /api/books/import: each row is reported as create,
+   * update (existing ISBN, 'upsert'), skip (existing ISBN, 'skip') or
+   * invalid. Applying saves all rows or none, and upserts that take a
+   * book below its threshold place the automatic publisher order.
+   * 
+   * @param rows - Records read from a catalog file
+   * @param options - What to do with existing ISBNs, and whether to save
+   * @returns Promise resolving to the import report
+   * @throws ApiValidationError when applying an import with invalid rows
+   *   (fields are named books.<index>.<field>)
+   */
+  importCatalog: async (rows: unknown[], { existing, dryRun }: BookImportOptions): Promise<BookImportReport> => {
+    await delay(500);
+    if (rows.length === 0) {
+      throw invalidField('books', 'The import has no books');
+    }
+
+    const checked = rows.map((input, i) => checkImportRow(input, i + 1));
+    const firstRowOf = new Map<string, number>();
+    for (const entry of checked) {
+      if (!entry.isbn) continue;
+      if (firstRowOf.has(entry.isbn)) {
+        entry.errors.push({ field: 'isbn', message: `Same ISBN as row ${firstRowOf.get(entry.isbn)}` });
+      } else {
+        firstRowOf.set(entry.isbn, entry.row);
+      }
+    }
+
+    const report: BookImportReport = {
+      dryRun,
+      existing,
+      summary: { create: 0, update: 0, skip: 0, invalid: 0 },
+      rows: checked.map(({ row, isbn, title, errors }) => {
+        const action = errors.length > 0 ? 'invalid'
+          : !books.some(b => b.isbn === isbn) ? 'create'
+          : existing === 'upsert' ? 'update' : 'skip';
+        return { row, isbn, title, action, errors };
+      })
+    };
+    report.rows.forEach(({ action }) => report.summary[action]++);
+
+    if (!dryRun) {
+      if (report.summary.invalid > 0) {
+        throw new ApiValidationError(report.rows.flatMap(({ row, errors }) =>
+          errors.map(({ field, message }) => ({ field: `books.${row - 1}${field ? `.${field}` : ''}`, message }))));
+      }
+
+      // Every row is valid, so nothing below can fail part way
+      checked.forEach(({ fields }, i) => {
+        const { action } = report.rows[i];
+        if (action === 'skip') return;
+
+        const { authorNames, slugs, details, format, quantity, threshold, ...bookFields } = fields!;
+        const index = books.findIndex(b => b.isbn === bookFields.isbn);
+        const old = index === -1 ? undefined : books[index];
+        const book: Book = {
+          ...(old ?? NO_DETAILS),
+          ...details,
+          ...bookFields,
+          // New books start a work of their own
+          format: format ?? old?.format ?? 'paperback',
+          workId: old?.workId ?? nextWorkId(),
+          authors: toBookAuthors(authorNames),
+          categories: toBookCategories(slugs),
+          quantity: quantity ?? old?.quantity ?? 0,
+          threshold: threshold ?? old?.threshold ?? 5,
+          imageUrl: bookFields.imageUrl ?? old?.imageUrl,
+          // Updating an archived book leaves it archived
+          archivedAt: old?.archivedAt ?? null
+        };
+        reindexBooks([book]);
+        if (!old) {
+          books.push(book);
+          recordPriceChange(book.isbn, book.sellingPrice, 'import');
+          return;
+        }
+
+        if (old.quantity >= old.threshold && book.quantity < old.threshold) {
+          publisherOrders.push(autoReorder(book));
+        }
+        books[index] = book;
+        if (book.sellingPrice !== old.sellingPrice) {
+          recordPriceChange(book.isbn, book.sellingPrice, 'import');
+        }
+      });
+    }
+    return report;
+  },
+
+  /**
+   * Accepts a cover image
+   * 
+   * The file is checked with the backend's rules, but not resized: it is
+   * kept in memory as a data URL, which serves as every size.
+   * 
+   * @param file - Image chosen in the cover picker
+   * @returns Promise resolving to the URLs to use for the cover
+   * @throws ApiValidationError if the file is not an accepted image
+   */
+  uploadCover: async (file: File): Promise<CoverUpload> => {
+    await delay(300);
+
+    const problem = checkCoverFile(file);
+    if (problem) {
+      throw invalidField('cover', problem);
+    }
+
+    const dataUrl = await new Promise<string>((resolve, reject) => {
+      const reader = new FileReader();
+      reader.onload = () => resolve(reader.result as string);
+      reader.onerror = () => reject(new Error('The file could not be read'));
+      reader.readAsDataURL(file);
+    });
+    return { imageUrl: dataUrl, sizes: { thumbnail: dataUrl, detail: dataUrl } };
+  },
+
+  /**
+   * Lists every price a book has had, oldest first, each with the price
+   * before it
+   * 
+   * @param isbn - ISBN of the book, in any form
+   * @returns Promise resolving to the book's PriceChange entries
+   * @throws Error if book not found
+   */
+  getPriceHistory: async (isbn: string): Promise<PriceChange[]> => {
+    await delay(200);
+    applyDuePriceRules();
+    const key = normalizeIsbn(isbn) ?? isbn;
+    if (!books.some(b => b.isbn === key)) throw new Error('Book not found');
+
+    return priceChanges
+      .filter(c => c.isbn === key)
+      .sort((a, b) => Date.parse(a.changedAt) - Date.parse(b.changedAt) || Number(a.id) - Number(b.id))
+      .map((change, i, history) => ({
+        ...change,
+        previousPrice: i === 0 ? null : history[i - 1].price,
+        ruleLabel: priceRules.find(r => r.id === change.ruleId)?.label ?? null
+      }));
+  },
+
+  /**
+   * Recommends books to go with a book: bought with it, then by the same
+   * authors, then in the same categories
+   * 
+   * @param isbn - ISBN of the book, in any form
+   * @param limit - Most to return (default DEFAULT_RECOMMENDATIONS)
+   * @returns Promise resolving to recommendations, best first (none for
+   *   an unknown ISBN)
+   */
+  getRecommendations: async (isbn: string, limit?: number): Promise<BookRecommendation[]> => {
+    await delay(200);
+    const key = normalizeIsbn(isbn) ?? isbn;
+    return recommendFor([key], limit);
+  }
+};
+
+// ============================================================================
+// CATEGORIES API
+// ============================================================================
+
+/**
+ * Maps category slugs sent with a book to the categories stored on it
+ * Mirrors the backend's check that every slug names a category
+ * 
+ * @param slugs - Category slugs from a book form
+ * @returns Categories in the form listed on a book
+ * @throws ApiValidationError if no slug is given or a slug is unknown
+ */
+const toBookCategories = (slugs: string[]): BookCategory[] => {
+  if (slugs.length === 0) {
+    throw invalidField('categories', 'Choose at least one category');
+  }
+  const unknown = slugs.filter(slug => !categories.some(c => c.slug === slug));
+  if (unknown.length > 0) {
+    throw invalidField('categories', `Unknown category: ${unknown.join(', ')}`);
+  }
+  return categories
+    .filter(c => slugs.includes(c.slug))
+    .map(({ id, name, slug, color }) => ({ id, name, slug, color }));
+};
+
+/**
+ * Rejects a name or slug already used by another category
+ * (the categories table has UNIQUE constraints on both)
+ * 
+ * @param fields - Name and/or slug being set
+ * @param exceptId - Category being updated
+ */
+const assertUniqueCategory = (fields: { name?: string; slug?: string }, exceptId?: string): void => {
+  const others = categories.filter(c => c.id !== exceptId);
+  if (fields.name !== undefined && others.some(c => c.name.toLowerCase() === fields.name!.toLowerCase())) {
+    throw invalidField('name', 'A category with this name already exists');
+  }
+  if (fields.slug !== undefined && others.some(c => c.slug === fields.slug)) {
+    throw invalidField('slug', 'A category with this slug already exists');
+  }
+};
+
+/**
+ * Rejects a parent that does not exist or that would make a loop
+ * 
+ * @param parentId - Proposed parent (null for top-level)
+ * @param id - Category being moved (omitted when creating)
+ */
+const assertValidParent = (parentId: string | null, id?: string): void => {
+  if (parentId === null) return;
+  if (!categories.some(c => c.id === parentId)) {
+    throw invalidField('parentId', 'Parent category not found');
+  }
+  if (id !== undefined && descendantIds(categories, id).has(parentId)) {
+    throw invalidField('parentId', 'A category cannot be moved under itself or one of its subcategories');
+  }
+};
+
+/**
+ * Categories API Module
+ * Manages the category taxonomy. Categories form a tree through parentId;
+ * renaming or recoloring a category updates the books that list it.
+ */
+const categoriesApi: CategoriesApi = {
+  /**
+   * Retrieves all categories ordered by sortOrder, then name
+   * 
+   * @returns Promise resolving to the flat category list
+   */
+  getAll: async (): Promise<Category[]> => {
+    await delay(200);
+    return [...categories].sort((a, b) => a.sortOrder - b.sortOrder || a.name.localeCompare(b.name));
+  },
+
+  /**
+   * Adds a category. The slug is derived from the name when omitted.
+   * 
+   * @param data - Category fields (only the name is required)
+   * @returns Promise resolving to the new Category
+   * @throws ApiValidationError for a missing or taken name, a taken slug or
+   *   an unknown parent
+   */
+  add: async (data: CategoryCreateData): Promise<Category> => {
+    await delay(300);
+
+    const name = data.name.trim();
+    if (!name) throw invalidField('name', 'Name is required');
+    const slug = data.slug ?? slugify(name);
+    if (!slug) {
+      throw invalidField('slug', 'Enter a slug (the name has no letters or digits)');
+    }
+    const parentId = data.parentId == null ? null : String(data.parentId);
+    assertUniqueCategory({ name, slug });
+    assertValidParent(parentId);
+
+    const category: Category = {
+      id: String(Math.max(0, ...categories.map(c => Number(c.id))) + 1),
+      name,
+      slug,
+      parentId,
+      color: (data.color ?? DEFAULT_CATEGORY_COLOR).toLowerCase(),
+      sortOrder: data.sortOrder ?? 0
+    };
+    categories.push(category);
+    return category;
+  },
+
+  /**
+   * Updates a category; setting parentId moves it within the tree
+   * 
+   * @param id - Category ID
+   * @param data - Fields to update
+   * @returns Promise resolving to the updated Category
+   * @throws ApiValidationError for an empty or taken name, a taken slug or a
+   *   parent that would make a loop
+   */
+  update: async (id: string, data: CategoryUpdateData): Promise<Category> => {
+    await delay(300);
+
+    const index = categories.findIndex(c => c.id === id);
+    if (index === -1) throw new Error('Category not found');
+
+    const { parentId, ...fields } = data;
+    if (fields.name !== undefined && !fields.name.trim()) throw invalidField('name', 'Name is required');
+    assertUniqueCategory(fields, id);
+    if (parentId !== undefined) assertValidParent(parentId === null ? null : String(parentId), id);
+
+    const updated: Category = {
+      ...categories[index],
+      ...fields,
+      ...(parentId !== undefined && { parentId: parentId === null ? null : String(parentId) }),
+      ...(fields.color !== undefined && { color: fields.color.toLowerCase() })
+    };
+    categories[index] = updated;
+
+    // Keep the copies listed on books in step (the backend joins them)
+    books = books.map(book => ({
+      ...book,
+      categories: book.categories.map(c =>
+        c.id === id ? { id, name: updated.name, slug: updated.slug, color: updated.color } : c)
+    }));
+    return updated;
+  },
+
+  /**
+   * Deletes a category that has no subcategories and no books
+   * 
+   * @param id - Category ID
+   * @throws Error if the category is not found or still in use
+   */
+  delete: async (id: string): Promise<void> => {
+    await delay(300);
+
+    if (!categories.some(c => c.id === id)) throw new Error('Category not found');
+    if (categories.some(c => c.parentId === id)) {
+      throw new Error('Category has subcategories; move or delete them first');
+    }
+    const bookCount = books.filter(b => b.categories.some(c => c.id === id)).length;
+    if (bookCount > 0) {
+      throw new Error(`Category is used by ${bookCount} book(s); recategorize them first`);
+    }
+    categories = categories.filter(c => c.id !== id);
+  }
+};
+
+// ============================================================================
+// AUTHORS API
+// ============================================================================
+
+/**
+ * Checks whether an author is known by a name (its name or an alias),
+ * ignoring case and surrounding spaces
+ */
+const isKnownAs = (author: Omit<Author, 'bookCount'>, name: string): boolean =>
+  [author.name, ...author.aliases].some(n => n.toLowerCase() === name.trim().toLowerCase());
+
+/**
+ * Lists the names and aliases of a book's authors, for searching
+ * 
+ * @param book - Book to read
+ * @returns Every name the book's authors are known by
+ */
+const authorNamesOf = (book: Book): string[] =>
+  book.authors.flatMap(credit => {
+    const author = authors.find(a => a.id === credit.id);
+    return author ? [author.name, ...author.aliases] : [credit.name];
+  });
+
+// Index the sample books (here, once the authors they name can be looked up)
+reindexBooks(books);
+
+/**
+ * Maps author names sent with a book to the authors credited on it
+ * Mirrors the backend: a name matching an author or alias links that
+ * author, any other name creates one, and repeats are credited once.
+ * 
+ * @param names - Author names in credit order
+ * @returns Authors in the form listed on a book
+ * @throws ApiValidationError if no name is given
+ */
+const toBookAuthors = (names: string[]): BookAuthor[] => {
+  const credits: BookAuthor[] = [];
+  for (const name of names.map(n => n.trim()).filter(Boolean)) {
+    let author = authors.find(a => isKnownAs(a, name));
+    if (!author) {
+      author = {
+        id: String(Math.max(0, ...authors.map(a => Number(a.id))) + 1),
+        name,
+        aliases: [],
+        bio: null
+      };
+      authors.push(author);
+    }
+    if (!credits.some(c => c.id === author!.id)) {
+      credits.push({ id: author.id, name: author.name });
+    }
+  }
+  if (credits.length === 0) {
+    throw invalidField('authors', 'Enter at least one author');
+  }
+  return credits;
+};
+
+/**
+ * Adds the book count to a stored author, as the backend computes it
+ */
+const withBookCount = (author: Omit<Author, 'bookCount'>): Author => ({
+  ...author,
+  aliases: [...author.aliases],
+  bookCount: books.filter(b => b.authors.some(a => a.id === author.id)).length
+});
+
+/**
+ * Authors API Module
+ * Manages author records. Authors are created by the books API when a
+ * book credits a new name; this module edits them and merges duplicates.
+ */
+const authorsApi: AuthorsApi = {
+  /**
+   * Retrieves all authors ordered by name
+   * 
+   * @returns Promise resolving to the author list with book counts
+   */
+  getAll: async (): Promise<Author[]> => {
+    await delay(200);
+    return authors
+      .map(withBookCount)
+      .sort((a, b) => a.name.toLowerCase().localeCompare(b.name.toLowerCase()));
+  },
+
+  /**
+   * Retrieves one author
+   * 
+   * @param id - Author ID
+   * @returns Promise resolving to the Author or undefined if not found
+   */
+  getById: async (id: string): Promise<Author | undefined> => {
+    await delay(200);
+    const author = authors.find(a => a.id === id);
+    return author && withBookCount(author);
+  },
+
+  /**
+   * Updates an author; a new name shows on all their books
+   * 
+   * @param id - Author ID
+   * @param data - Fields to update (aliases replace the list)
+   * @returns Promise resolving to the updated Author
+   * @throws ApiValidationError if a name or alias is used by another author
+   */
+  update: async (id: string, data: AuthorUpdateData): Promise<Author> => {
+    await delay(300);
+
+    const index = authors.findIndex(a => a.id === id);
+    if (index === -1) throw new Error('Author not found');
+
+    const others = authors.filter(a => a.id !== id);
+    const fieldErrors: FieldError[] = [];
+    if (data.name !== undefined) {
+      const owner = others.find(a => isKnownAs(a, data.name!));
+      if (owner) fieldErrors.push({ field: 'name', message: `"${data.name}" is already used by ${owner.name}` });
+    }
+    if (data.aliases !== undefined) {
+      const name = data.name ?? authors[index].name;
+      if (data.aliases.some(alias => alias.toLowerCase() === name.toLowerCase())) {
+        fieldErrors.push({ field: 'aliases', message: 'An alias cannot repeat the author\'s name' });
+      }
+      for (const alias of data.aliases) {
+        const owner = others.find(a => isKnownAs(a, alias));
+        if (owner) {
+          fieldErrors.push({
+            field: 'aliases',
+            message: `"${alias}" is already used by ${owner.name}; merge the two authors instead`
+          });
+        }
+      }
+    }
+    if (fieldErrors.length > 0) throw new ApiValidationError(fieldErrors);
+
+    const updated = {
+      ...authors[index],
+      ...(data.name !== undefined && { name: data.name.trim() }),
+      ...(data.aliases !== undefined && { aliases: data.aliases.map(a => a.trim()) }),
+      ...(data.bio !== undefined && { bio: data.bio?.trim() || null })
+    };
+    authors[index] = updated;
+
+    // Keep the names listed on books in step (the backend joins them)
+    books = books.map(book => ({
+      ...book,
+      authors: book.authors.map(a => (a.id === id ? { id, name: updated.name } : a))
+    }));
+    reindexBooks(books.filter(book => book.authors.some(a => a.id === id)));
+    return withBookCount(updated);
+  },
+
+  /**
+   * Merges a duplicate author into another
+   * The target is credited on the duplicate's books (keeping its own
+   * position where both were credited), the duplicate's name and aliases
+   * become aliases, its bio fills an empty one, and it is deleted.
+   * 
+   * @param targetId - Author to keep
+   * @param sourceId - Duplicate to merge in and delete
+   * @returns Promise resolving to the merged Author
+   * @throws Error if either author is not found or they are the same
+   */
+  merge: async (targetId: string, sourceId: string): Promise<Author> => {
+    await delay(300);
+
+    if (targetId === sourceId) {
+      throw invalidField('sourceId', 'An author cannot be merged with itself');
+    }
+    const target = authors.find(a => a.id === targetId);
+    const source = authors.find(a => a.id === sourceId);
+    if (!target || !source) throw new Error('Author not found');
+
+    const aliases = [...target.aliases];
+    for (const name of [source.name, ...source.aliases]) {
+      if (!isKnownAs({ ...target, aliases }, name)) aliases.push(name);
+    }
+    const merged = { ...target, aliases, bio: target.bio ?? source.bio };
+    authors = authors.filter(a => a.id !== sourceId).map(a => (a.id === targetId ? merged : a));
+
+    books = books.map(book => {
+      if (!book.authors.some(a => a.id === sourceId)) return book;
+      const credited = book.authors.some(a => a.id === targetId);
+      return {
+        ...book,
+        authors: book.authors.flatMap(a =>
+          a.id !== sourceId ? [a] : credited ? [] : [{ id: targetId, name: merged.name }])
+      };
+    });
+    reindexBooks(books.filter(book => book.authors.some(a => a.id === targetId)));
+    return withBookCount(merged);
+  }
+};
+
+// ============================================================================
+// PUBLISHERS API
+// ============================================================================
+
+/**
+ * Adds the book count to a stored publisher, as the backend computes it
+ */
+const publisherWithBookCount = (publisher: Omit<Publisher, 'bookCount'>): Publisher => ({
+  ...publisher,
+  bookCount: books.filter(b => b.publisherId === publisher.id).length
+});
+
+/**
+ * Finds the publisher a book is linked to
+ * 
+ * @param publisherId - Book's publisher ID
+ * @throws ApiValidationError if no publisher has the ID
+ */
+const publisherOf = (publisherId: string): Omit<Publisher, 'bookCount'> => {
+  const publisher = publishers.find(p => p.id === publisherId);
+  if (!publisher) throw invalidField('publisherId', 'Publisher not found');
+  return publisher;
+};
+
+/**
+ * Rejects fields the backend's publisher schema would reject
+ * 
+ * @param data - Publisher fields being set
+ * @param exceptId - Publisher being updated
+ */
+const assertValidPublisher = (data: PublisherUpdateData, exceptId?: string): void => {
+  const fieldErrors: FieldError[] = [];
+  if (data.name !== undefined) {
+    const name = data.name.trim();
+    if (!name) {
+      fieldErrors.push({ field: 'name', message: 'Name is required' });
+    } else if (publishers.some(p => p.id !== exceptId && p.name.toLowerCase() === name.toLowerCase())) {
+      fieldErrors.push({ field: 'name', message: 'A publisher with this name already exists' });
+    }
+  }
+  if (data.email && !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(data.email.trim())) {
+    fieldErrors.push({ field: 'email', message: 'Enter a valid email address' });
+  }
+  if (data.leadTimeDays !== undefined && data.leadTimeDays < 0) {
+    fieldErrors.push({ field: 'leadTimeDays', message: 'Lead time cannot be negative' });
+  } else if (data.leadTimeDays !== undefined && data.leadTimeDays > 365) {
+    fieldErrors.push({ field: 'leadTimeDays', message: 'Lead time must be at most 365 days' });
+  }
+  if (data.minimumOrder !== undefined && data.minimumOrder < 1) {
+    fieldErrors.push({ field: 'minimumOrder', message: 'Minimum order must be at least 1' });
+  }
+  if (fieldErrors.length > 0) throw new ApiValidationError(fieldErrors);
+};
+
+/**
+ * Builds the order the check_stock_threshold trigger places when a book's
+ * stock drops below its threshold: 20 copies, or the publisher's minimum
+ * order if that is larger
+ * 
+ * @param book - Book whose stock dropped
+ * @returns The 'Pending' PublisherOrder (not yet stored)
+ * @throws Error if the book has no publisher to order from (the backend
+ *   rejects the stock change with a 409)
+ */
+const autoReorder = (book: Book): PublisherOrder => {
+  const publisher = publishers.find(p => p.id === book.publisherId);
+  if (!publisher) {
+    throw new Error(`Cannot reorder "${book.title}": the book has no publisher to order from`);
+  }
+  return {
+    id: `PO-${Date.now()}-${book.isbn}`,
+    bookIsbn: book.isbn,
+    bookTitle: book.title,
+    bookFormat: book.format,
+    publisher: publisher.name,
+    quantity: Math.max(20, publisher.minimumOrder),
+    orderDate: new Date().toISOString().split('T')[0], // Today's date
+    status: 'Pending'                                  // Awaits admin confirmation
+  };
+};
+
+/**
+ * Publishers API Module
+ * Manages the suppliers books are reordered from. Renaming a publisher
+ * updates the name shown on its books.
+ */
+const publishersApi: PublishersApi = {
+  /**
+   * Retrieves all publishers ordered by name
+   * 
+   * @returns Promise resolving to the publisher list with book counts
+   */
+  getAll: async (): Promise<Publisher[]> => {
+    await delay(200);
+    return publishers
+      .map(publisherWithBookCount)
+      .sort((a, b) => a.name.toLowerCase().localeCompare(b.name.toLowerCase()));
+  },
+
+  /**
+   * Retrieves one publisher
+   * 
+   * @param id - Publisher ID
+   * @returns Promise resolving to the Publisher or undefined if not found
+   */
+  getById: async (id: string): Promise<Publisher | undefined> => {
+    await delay(200);
+    const publisher = publishers.find(p => p.id === id);
+    return publisher && publisherWithBookCount(publisher);
+  },
+
+  /**
+   * Adds a publisher
+   * 
+   * @param data - Publisher fields (only the name is required)
+   * @returns Promise resolving to the new Publisher
+   * @throws ApiValidationError for a taken name or an invalid field
+   */
+  add: async (data: PublisherCreateData): Promise<Publisher> => {
+    await delay(300);
+    assertValidPublisher(data);
+
+    const publisher = {
+      id: String(Math.max(0, ...publishers.map(p => Number(p.id))) + 1),
+      name: data.name.trim(),
+      email: data.email?.trim() || null,
+      address: data.address?.trim() || null,
+      phone: data.phone?.trim() || null,
+      leadTimeDays: data.leadTimeDays ?? 7,
+      minimumOrder: data.minimumOrder ?? 1
+    };
+    publishers.push(publisher);
+    return publisherWithBookCount(publisher);
+  },
+
+  /**
+   * Updates a publisher; a new name shows on all its books
+   * 
+   * @param id - Publisher ID
+   * @param data - Fields to update
+   * @returns Promise resolving to the updated Publisher
+   * @throws ApiValidationError for a taken name or an invalid field
+   */
+  update: async (id: string, data: PublisherUpdateData): Promise<Publisher> => {
+    await delay(300);
+
+    const index = publishers.findIndex(p => p.id === id);
+    if (index === -1) throw new Error('Publisher not found');
+    assertValidPublisher(data, id);
+
+    const updated = {
+      ...publishers[index],
+      ...data,
+      ...(data.name !== undefined && { name: data.name.trim() }),
+      ...(data.email !== undefined && { email: data.email?.trim() || null }),
+      ...(data.address !== undefined && { address: data.address?.trim() || null }),
+      ...(data.phone !== undefined && { phone: data.phone?.trim() || null })
+    };
+    publishers[index] = updated;
+
+    // Keep the name shown on books in step (the backend joins it)
+    books = books.map(book => (book.publisherId === id ? { ...book, publisher: updated.name } : book));
+    reindexBooks(books.filter(book => book.publisherId === id));
+    return publisherWithBookCount(updated);
+  },
+
+  /**
+   * Deletes a publisher that supplies no books and has no orders
+   * 
+   * @param id - Publisher ID
+   * @throws Error if the publisher is not found or still in use
+   */
+  delete: async (id: string): Promise<void> => {
+    await delay(300);
+
+    const publisher = publishers.find(p => p.id === id);
+    if (!publisher) throw new Error('Publisher not found');
+    const bookCount = books.filter(b => b.publisherId === id).length;
+    if (bookCount > 0) {
+      throw new Error(`Publisher supplies ${bookCount} book(s); move them to another publisher first`);
+    }
+    const orderCount = publisherOrders.filter(o => o.publisher === publisher.name).length;
+    if (orderCount > 0) {
+      throw new Error(`Publisher has ${orderCount} order(s) on record and cannot be deleted`);
+    }
+    publishers = publishers.filter(p => p.id !== id);
+  }
+};
+
+// ============================================================================
+// PUBLISHER ORDERS API (Replenishment Orders)
+// ============================================================================
+/**
+ * Publisher Orders API Module
+ * Handles replenishment orders placed to publishers for restocking inventory.
+ * 
+ * These orders can be created in two ways:
+ * 1. MANUALLY by admin through the order management interface
+ * 2. AUTOMATICALLY by the auto-replenish trigger when stock drops below threshold
+ * 
+ * Order Lifecycle: Pending → Confirmed/Cancelled
+ * When confirmed, the ordered quantity is added to book stock (trigger)
+ */
+const ordersApi: OrdersApi = {
+  /**
+   * Retrieves all publisher orders
+   * 
+   * @returns Promise resolving to array of all PublisherOrder objects
+   */
+  getAll: async (): Promise<PublisherOrder[]> => {
+    await delay(300);
+    return [...publisherOrders];
+  },
+
+  /**
+   * Places a new publisher order for restocking a book
+   * Used by admin to manually order more copies of a book
+   * The order goes to the book's publisher and must meet its minimum order.
+   * 
+   * @param bookIsbn - ISBN of the book to reorder
+   * @param quantity - Number of copies to order (default: 20)
+   * @returns Promise resolving to the newly created PublisherOrder
+   * @throws Error if book not found or it has no publisher
+   * @throws ApiValidationError if the quantity is below the minimum order
+   */
+  place: async (bookIsbn: string, quantity: number = 20): Promise<PublisherOrder> => {
+    await delay(400);
+    
+    // Validate that the book exists
+    const book = books.find(b => b.isbn === bookIsbn);
+    if (!book) throw new Error('Book not found');
+    if (book.archivedAt) {
+      throw new Error(`Cannot reorder "${book.title}": the book is archived`);
+    }
+
+    const publisher = publishers.find(p => p.id === book.publisherId);
+    if (!publisher) {
+      throw new Error(`Cannot reorder "${book.title}": the book has no publisher to order from`);
+    }
+    if (quantity < publisher.minimumOrder) {
+      throw invalidField('quantity', `${publisher.name} orders at least ${publisher.minimumOrder} copies`);
+    }
+
+    // Create new order object
+    const order: PublisherOrder = {
+      id: `PO-${Date.now()}`,                    // Unique order ID
+      bookIsbn,
+      bookTitle: book.title,
+      bookFormat: book.format,
+      publisher: publisher.name,
+      quantity,
+      orderDate: new Date().toISOString().split('T')[0], // Today's date (YYYY-MM-DD)
+      status: 'Pending'                          // New orders start as Pending
+    };
+    
+    // Add to publisher orders "table"
+    publisherOrders.push(order);
+    
+    return order;
+  },
+
+  /**
+   * Confirms a pending publisher order
+   * 
+   * IMPLEMENTS TRIGGER: Updates book stock when order is confirmed
+   * - Adds the ordered quantity to the book's inventory
+   * - Similar to receiving a shipment from the publisher
+   * 
+   * @param orderId - ID of the order to confirm
+   * @returns Promise resolving to the updated PublisherOrder
+   * @throws Error if order not found or not in Pending status
+   */
+  confirm: async (orderId: string): Promise<PublisherOrder> => {
+    await delay(400);
+    
+    // Find the order in the array
+    const orderIndex = publisherOrders.findIndex(o => o.id === orderId);
+    if (orderIndex === -1) throw new Error('Order not found');
+    
+    // Validate that order is still pending
+    if (publisherOrders[orderIndex].status !== 'Pending') {
+      throw new Error('Order is not pending');
+    }
+
+    // Update order status to Confirmed
+    publisherOrders[orderIndex].status = 'Confirmed';
+
+    // =========================================
+    // TRIGGER: UPDATE STOCK ON CONFIRM
+    // Add the ordered quantity to book inventory
+    // Simulates receiving the shipment from publisher
+    // =========================================
+    const bookIndex = books.findIndex(b => b.isbn === publisherOrders[orderIndex].bookIsbn);
+    if (bookIndex !== -1) {
+      books[bookIndex].quantity += publisherOrders[orderIndex].quantity;
+    }
+
+    return publisherOrders[orderIndex];
+  },
+
+  /**
+   * Cancels a publisher order
+   * Does not affect book stock since order was never fulfilled
+   * 
+   * @param orderId - ID of the order to cancel
+   * @returns Promise resolving to the updated PublisherOrder
+   * @throws Error if order not found
+   */
+  cancel: async (orderId: string): Promise<PublisherOrder> => {
+    await delay(300);
+    
+    const orderIndex = publisherOrders.findIndex(o => o.id === orderId);
+    if (orderIndex === -1) throw new Error('Order not found');
+    
+    // Update status to Cancelled
+    publisherOrders[orderIndex].status = 'Cancelled';
+    
+    return publisherOrders[orderIndex];
+  }
+};
+
+// ============================================================================
+// PRICE RULES API
+// ============================================================================
+/**
+ * Price Rules API Module
+ * Schedules book prices, like /api/price-rules. Rules are applied by
+ * applyDuePriceRules when books or rules are read.
+ */
+const priceRulesApi: PriceRulesApi = {
+  /**
+   * Lists price rules, ordered by start time
+   * 
+   * @param filter - Optional book (any ISBN form) and status
+   * @returns Promise resolving to array of PriceRule objects
+   */
+  getAll: async (filter: PriceRuleQuery = {}): Promise<PriceRule[]> => {
+    await delay(200);
+    applyDuePriceRules();
+    const isbn = filter.isbn ? normalizeIsbn(filter.isbn) ?? filter.isbn : undefined;
+
+    return priceRules
+      .filter(r => (!isbn || r.isbn === isbn) && (!filter.status || r.status === filter.status))
+      .sort((a, b) => Date.parse(a.startsAt) - Date.parse(b.startsAt) || Number(a.id) - Number(b.id));
+  },
+
+  /**
+   * Schedules a price for a book; a rule whose start has passed is
+   * applied at once
+   * 
+   * @param data - Book, price, optional label, start and optional end
+   * @returns Promise resolving to the created PriceRule
+   * @throws ApiValidationError for an unknown or archived book, a price
+   *   that is not positive, bad times, or a rule overlapping another
+   *   scheduled or active rule for the book
+   */
+  add: async (data: PriceRuleCreateData): Promise<PriceRule> => {
+    await delay(300);
+
+    const isbn = normalizeIsbn(data.isbn) ?? data.isbn;
+    const book = books.find(b => b.isbn === isbn);
+    if (!book) throw invalidField('isbn', 'Book not found');
+    if (book.archivedAt) throw invalidField('isbn', `"${book.title}" is archived`);
+    if (!(data.price > 0)) throw invalidField('price', 'Price must be greater than 0');
+    if (!inWholeCents(data.price)) throw invalidField('price', 'Price can have at most 2 decimal places');
+
+    const startsAt = Date.parse(data.startsAt);
+    const endsAt = data.endsAt ? Date.parse(data.endsAt) : null;
+    if (Number.isNaN(startsAt)) throw invalidField('startsAt', 'Start must be a date and time');
+    if (endsAt !== null) {
+      if (Number.isNaN(endsAt)) throw invalidField('endsAt', 'End must be a date and time');
+      if (endsAt <= startsAt) throw invalidField('endsAt', 'End must be after the start');
+      if (endsAt <= Date.now()) throw invalidField('endsAt', 'End must be in the future');
+    }
+
+    // A rule without an end counts as the instant it starts
+    const windowOf = (start: number, end: number | null) => [start, end ?? start + 1];
+    const [from, to] = windowOf(startsAt, endsAt);
+    const clash = priceRules.find(r => {
+      if (r.isbn !== isbn || (r.status !== 'scheduled' && r.status !== 'active')) return false;
+      const [ruleFrom, ruleTo] = windowOf(Date.parse(r.startsAt), r.endsAt ? Date.parse(r.endsAt) : null);
+      return ruleFrom < to && ruleTo > from;
+    });
+    if (clash) {
+      throw invalidField('startsAt', `Overlaps ${clash.label ? `"${clash.label}"` : 'another price rule'} starting ${clash.startsAt}`);
+    }
+
+    const rule: PriceRule = {
+      id: String(Math.max(0, ...priceRules.map(r => Number(r.id))) + 1),
+      isbn,
+      title: book.title,
+      format: book.format,
+      price: data.price,
+      label: data.label?.trim() || null,
+      startsAt: new Date(startsAt).toISOString(),
+      endsAt: endsAt === null ? null : new Date(endsAt).toISOString(),
+      status: 'scheduled',
+      previousPrice: null
+    };
+    priceRules.push(rule);
+    applyDuePriceRules();
+    return priceRules.find(r => r.id === rule.id)!;
+  },
+
+  /**
+   * Cancels a scheduled or active rule; an active rule's previous price
+   * is put back unless the book's price was changed since
+   * 
+   * @param ruleId - ID of the rule to cancel
+   * @returns Promise resolving to the cancelled PriceRule
+   * @throws Error if the rule is not found or has completed or been cancelled
+   */
+  cancel: async (ruleId: string): Promise<PriceRule> => {
+    await delay(300);
+    applyDuePriceRules();
+
+    const index = priceRules.findIndex(r => r.id === ruleId);
+    if (index === -1) throw new Error('Price rule not found');
+
+    const rule = priceRules[index];
+    if (rule.status !== 'scheduled' && rule.status !== 'active') {
+      throw new Error(`Price rule is already ${rule.status}`);
+    }
+    if (rule.status === 'active') {
+      revertPriceRule(rule);
+    }
+    priceRules[index] = { ...rule, status: 'cancelled' };
+    return priceRules[index];
+  }
+};
+
+// ============================================================================
+// SHOPPING CART API
+// ============================================================================
+/**
+ * Cart API Module
+ * Handles all shopping cart operations for customers.
+ * 
+ * KEY FEATURES:
+ * - Per-user cart isolation (each user has their own cart)
+ * - Stock validation before adding items
+ * - Automatic total recalculation
+ * - Payment validation during checkout
+ * - Triggers auto-replenish when checkout depletes stock below threshold
+ */
+const cartApi: CartApi = {
+  /**
+   * Retrieves the current user's shopping cart
+   * Returns a copy to prevent direct mutation
+   * 
+   * @returns Promise resolving to the Cart object
+   */
+  get: async (): Promise<Cart> => {
+    await delay(100);
+    return { ...getCart() }; // Return copy, not reference
+  },
+
+  /**
+   * Adds a book to the cart or increases quantity if already in cart
+   * Validates stock availability before adding
+   * 
+   * @param isbn - ISBN of the book to add
+   * @param quantity - Number of copies to add (default: 1)
+   * @returns Promise resolving to the updated Cart
+   * @throws Error if book not found, archived or insufficient stock
+   */
+  addItem: async (isbn: string, quantity: number = 1): Promise<Cart> => {
+    await delay(200);
+    
+    // Validate that the book exists and is for sale
+    const book = books.find(b => b.isbn === isbn);
+    if (!book) throw new Error('Book not found');
+    if (book.archivedAt) throw new Error(`"${book.title}" is no longer for sale`);
+    
+    // Check stock availability
+    if (book.quantity < quantity) throw new Error('Not enough stock available');
+
+    const cart = getCart();
+    
+    // Check if book is already in cart
+    const existingItem = cart.items.find(item => item.book.isbn === isbn);
+    
+    if (existingItem) {
+      // Book already in cart - increase quantity
+      // Validate that total quantity doesn't exceed available stock
+      if (existingItem.quantity + quantity > book.quantity) {
+        throw new Error('Not enough stock available');
+      }
+      existingItem.quantity += quantity;
+    } else {
+      // New item - add to cart
+      cart.items.push({ book, quantity });
+    }
+
+    // Recalculate totals and save cart
+    recalculateCart(cart);
+    setCart(cart);
+    
+    return { ...cart };
+  },
+
+  /**
+   * Updates the quantity of a book in the cart
+   * If quantity is 0 or less, removes the item from cart
+   * 
+   * @param isbn - ISBN of the book to update
+   * @param quantity - New quantity for the item
+   * @returns Promise resolving to the updated Cart
+   * @throws Error if item not in cart or insufficient stock
+   */
+  updateQuantity: async (isbn: string, quantity: number): Promise<Cart> => {
+    await delay(200);
+    
+    // If quantity is 0 or negative, remove the item entirely
+    if (quantity <= 0) {
+      return cartApi.removeItem(isbn);
+    }
+
+    const cart = getCart();
+    
+    // Find item in cart
+    const item = cart.items.find(i => i.book.isbn === isbn);
+    if (!item) throw new Error('Item not in cart');
+
+    // Validate stock availability for new quantity
+    const book = books.find(b => b.isbn === isbn);
+    if (!book || book.quantity < quantity) throw new Error('Not enough stock available');
+
+    // Update quantity
+    item.quantity = quantity;
+    
+    // Recalculate totals and save
+    recalculateCart(cart);
+    setCart(cart);
+    
+    return { ...cart };
+  },
+
+  /**
+   * Removes a book from the cart entirely
+   * 
+   * @param isbn - ISBN of the book to remove
+   * @returns Promise resolving to the updated Cart
+   */
+  removeItem: async (isbn: string): Promise<Cart> => {
+    await delay(200);
+    
+    const cart = getCart();
+    
+    // Filter out the item with matching ISBN
+    cart.items = cart.items.filter(item => item.book.isbn !== isbn);
+    
+    // Recalculate totals and save
+    recalculateCart(cart);
+    setCart(cart);
+    
+    return { ...cart };
+  },
+
+  /**
+   * Clears all items from the cart
+   * 
+   * @returns Promise resolving to an empty Cart
+   */
+  clear: async (): Promise<Cart> => {
+    await delay(100);
+    
+    // Create empty cart
+    const emptyCart = { items: [], totalItems: 0, totalPrice: 0 };
+    setCart(emptyCart);
+    
+    return { ...emptyCart };
+  },
+
+  /**
+   * Processes checkout - validates payment, creates order, updates stock
+   * 
+   * CHECKOUT PROCESS:
+   * 1. Validate credit card number (minimum 13 digits)
+   * 2. Validate expiry date format (MM/YY)
+   * 3. Verify cart is not empty
+   * 4. Validate stock availability for all items
+   * 5. TRIGGER: Auto-replenish books whose stock drops below threshold
+   *    (fails if such a book has no publisher)
+   * 6. Create customer order record
+   * 7. Deduct quantities from book inventory
+   * 8. Clear the shopping cart
+   * 
+   * @param checkoutData - Payment information (credit card number, expiry, CVV)
+   * @param _userId - ID of the customer placing the order
+   * @returns Promise resolving to the created CustomerOrder
+   * @throws Error for invalid payment, empty cart, insufficient stock, or
+   *   a book that needs reordering but has no publisher
+   */
+  checkout: async (checkoutData: CheckoutData, _userId: string): Promise<CustomerOrder> => {
+    await delay(800); // Longer delay to simulate payment processing
+
+    // =========================================
+    // PAYMENT VALIDATION
+    // Simple validation for demonstration purposes
+    // In production, this would integrate with a payment gateway
+    // (Stripe, PayPal, etc.)
+    // =========================================
+    
+    // Same rules as the backend's checkout schema; every bad field is reported
+    const paymentErrors: FieldError[] = [];
+    
+    // Card number: 13 to 19 digits, spaces and dashes ignored
+    if (!/^\d{13,19}$/.test((checkoutData.creditCardNumber || '').replace(/[\s-]/g, ''))) {
+      paymentErrors.push({ field: 'creditCardNumber', message: 'Card number must be 13 to 19 digits' });
+    }
+    
+    // Expiry date: MM/YY with a real month
+    if (!/^(0[1-9]|1[0-2])\/\d{2}$/.test((checkoutData.expiryDate || '').trim())) {
+      paymentErrors.push({ field: 'expiryDate', message: 'Expiry date must be in MM/YY format' });
+    }
+    
+    // CVV: 3 or 4 digits
+    if (!/^\d{3,4}$/.test((checkoutData.cvv || '').trim())) {
+      paymentErrors.push({ field: 'cvv', message: 'CVV must be 3 or 4 digits' });
+    }
+    
+    if (paymentErrors.length > 0) throw new ApiValidationError(paymentErrors);
+
+    const cart = getCart();
+    
+    // Ensure cart is not empty
+    if (cart.items.length === 0) {
+      throw new Error('Cart is empty');
+    }
+
+    // =========================================
+    // STOCK VALIDATION
+    // Verify all items are still available before processing
+    // Stock may have changed since items were added to cart
+    // =========================================
+    for (const item of cart.items) {
+      const book = books.find(b => b.isbn === item.book.isbn);
+      if (!book || book.quantity < item.quantity) {
+        throw new Error(`Not enough stock for "${item.book.title}". Available: ${book?.quantity || 0}`);
+      }
+    }
+
+    // =========================================
+    // AUTO-REPLENISH TRIGGER
+    // Books whose stock drops below the threshold are reordered from
+    // their publisher; one without a publisher fails the checkout
+    // before anything changes
+    // =========================================
+    const autoOrders = cart.items
+      .map(item => books.find(b => b.isbn === item.book.isbn)!)
+      .filter((book, i) => book.quantity >= book.threshold && book.quantity - cart.items[i].quantity < book.threshold)
+      .map(autoReorder);
+
+    // =========================================
+    // CREATE CUSTOMER ORDER
+    // =========================================
+    const order: CustomerOrder = {
+      id: `ORD-${Date.now()}`,           // Unique order ID
+      userId: _userId,                    // Foreign key to customer
+      items: cart.items.map(item => ({
+        isbn: item.book.isbn,
+        title: item.book.title,
+        format: item.book.format,
+        quantity: item.quantity,
+        price: item.book.sellingPrice     // Price at time of purchase
+      })),
+      totalPrice: cart.totalPrice,
+      status: 'pending',                  // Awaiting shipment, as on the backend
+      createdAt: new Date().toISOString()
+    };
+
+    // =========================================
+    // UPDATE INVENTORY
+    // Deduct purchased quantities from stock and store the reorders
+    // =========================================
+    for (const item of cart.items) {
+      const bookIndex = books.findIndex(b => b.isbn === item.book.isbn);
+      if (bookIndex !== -1) {
+        // Deduct sold quantity from inventory
+        books[bookIndex].quantity -= item.quantity;
+      }
+    }
+    publisherOrders.push(...autoOrders);
+
+    // Add order to customer orders "table" and count its books as
+    // bought together
+    customerOrders.push(order);
+    addOrderAffinity(order.items.map(item => item.isbn));
+
+    // Record each book sold for the reports
+    salesData.push(...order.items.map(item => ({
+      date: order.createdAt.slice(0, 10),
+      bookIsbn: item.isbn,
+      quantity: item.quantity,
+      amount: item.price * item.quantity,
+      customerId: order.userId
+    })));
+
+    // Clear the cart after successful checkout
+    setCart({ items: [], totalItems: 0, totalPrice: 0 });
+
+    return order;
+  },
+
+  /**
+   * Recommends books to go with everything in the current user's cart
+   * 
+   * @param limit - Most to return (default DEFAULT_RECOMMENDATIONS)
+   * @returns Promise resolving to recommendations, best first (none for
+   *   an empty cart)
+   */
+  getRecommendations: async (limit?: number): Promise<BookRecommendation[]> => {
+    await delay(200);
+    return recommendFor(getCart().items.map(item => item.book.isbn), limit);
+  }
+};
+
+/**
+ * Recalculates cart totals after any modification
+ * Updates totalItems (sum of quantities) and totalPrice (sum of item prices)
+ * 
+ * @param cart - The Cart object to recalculate
+ */
+function recalculateCart(cart: Cart) {
+  // Sum up all item quantities
+  cart.totalItems = cart.items.reduce((sum, item) => sum + item.quantity, 0);
+  
+  // Sum up all item prices (quantity × price per unit)
+  cart.totalPrice = cart.items.reduce((sum, item) => sum + (item.quantity * item.book.sellingPrice), 0);
+}
+
+// ============================================================================
+// CUSTOMER ORDERS API
+// ============================================================================
+/**
+ * Customer Orders API Module
+ * Handles retrieval of customer order history.
+ * Orders are created during checkout and stored for historical reference.
+ */
+const customerOrdersApi: CustomerOrdersApi = {
+  /**
+   * Retrieves all orders for a specific customer
+   * Used to display order history in the customer's profile
+   * 
+   * @param customerId - ID of the customer
+   * @returns Promise resolving to array of CustomerOrder objects
+   */
+  getByCustomer: async (customerId: string): Promise<CustomerOrder[]> => {
+    await delay(300);
+    // Filter orders by customer ID (foreign key relationship)
+    return customerOrders.filter(o => o.userId === customerId);
+  },
+
+  /**
+   * Retrieves a single order by its ID
+   * Used to display order details
+   * 
+   * @param orderId - ID of the order to retrieve
+   * @returns Promise resolving to CustomerOrder or undefined if not found
+   */
+  getById: async (orderId: string): Promise<CustomerOrder | undefined> => {
+    await delay(200);
+    return customerOrders.find(o => o.id === orderId);
+  }
+};
+
+// ============================================================================
+// REPORTS API
+// ============================================================================
+/**
+ * Reports API Module
+ * Handles generation of business analytics and reports.
+ * Used by administrators for monitoring sales performance and inventory.
+ * 
+ * AVAILABLE REPORTS:
+ * - Monthly Sales: Total revenue and order count for previous month
+ * - Daily Sales: Sales statistics for a specific date
+ * - Top Customers: Top 5 customers by purchase amount (last 3 months)
+ * - Top Selling Books: Top 10 books by copies sold (last 3 months)
+ * - Book Order Count: Number of publisher orders for a specific book
+ * - Price Periods: Sales at each price of the books repriced in a date range
+ */
+const reportsApi: ReportsApi = {
+  /**
+   * Generates sales report for the previous month
+   * Calculates total revenue and order count
+   * 
+   * @returns Promise resolving to SalesReport with total sales and order count
+   */
+  getMonthlySales: async (): Promise<SalesReport> => {
+    await delay(400);
+    
+    const now = new Date();
+    
+    // Calculate date range for previous month
+    const lastMonth = new Date(now.getFullYear(), now.getMonth() - 1, 1);      // First day of last month
+    const lastMonthEnd = new Date(now.getFullYear(), now.getMonth(), 0);       // Last day of last month
+
+    // Filter sales data for the previous month
+    const sales = salesData.filter(s => {
+      const saleDate = new Date(s.date);
+      return saleDate >= lastMonth && saleDate <= lastMonthEnd;
+    });
+
+    return {
+      totalSales: sales.reduce((sum, s) => sum + s.amount, 0),  // Sum of all sale amounts
+      totalOrders: sales.length,                                 // Count of sales transactions
+      period: `${lastMonth.toLocaleDateString()} - ${lastMonthEnd.toLocaleDateString()}`
+    };
+  },
+
+  /**
+   * Generates sales report for a specific date
+   * Useful for daily sales tracking and analysis
+   * 
+   * @param date - Date string in YYYY-MM-DD format
+   * @returns Promise resolving to SalesReport for that date
+   */
+  getDailySales: async (date: string): Promise<SalesReport> => {
+    await delay(300);
+    
+    // Filter sales for the specific date
+    const sales = salesData.filter(s => s.date === date);
+    
+    return {
+      totalSales: sales.reduce((sum, s) => sum + s.amount, 0),
+      totalOrders: sales.length,
+      period: date
+    };
+  },
+
+  /**
+   * Generates report of top 5 customers by purchase amount
+   * Analyzes sales data from the last 3 months
+   * Useful for identifying loyal customers and VIP programs
+   * 
+   * @returns Promise resolving to array of TopCustomer objects
+   */
+  getTopCustomers: async (): Promise<TopCustomer[]> => {
+    await delay(400);
+    
+    // Calculate date 3 months ago for the analysis period
+    const threeMonthsAgo = new Date();
+    threeMonthsAgo.setMonth(threeMonthsAgo.getMonth() - 3);
+
+    // Filter sales from the last 3 months
+    const recentSales = salesData.filter(s => new Date(s.date) >= threeMonthsAgo);
+
+    // Aggregate sales by customer ID
+    // Structure: { customerId: { amount: total spent, count: number of orders } }
+    const customerStats: { [key: string]: { amount: number; count: number } } = {};
+    
+    recentSales.forEach(sale => {
+      if (!customerStats[sale.customerId]) {
+        customerStats[sale.customerId] = { amount: 0, count: 0 };
+      }
+      customerStats[sale.customerId].amount += sale.amount;
+      customerStats[sale.customerId].count += 1;
+    });
+
+    // Convert aggregated data to TopCustomer array
+    // Enrich with user details, sort by amount, take top 5
+    const topCustomers: TopCustomer[] = Object.entries(customerStats)
+      .map(([customerId, stats]) => {
+        // Find user details to get their name and email
+        const user = users.find(u => u.id === customerId);
+        return {
+          customerId,
+          customerName: user ? `${user.firstName} ${user.lastName}` : 'Unknown',
+          email: user?.email || '',
+          totalPurchaseAmount: stats.amount,
+          orderCount: stats.count
+        };
+      })
+      .sort((a, b) => b.totalPurchaseAmount - a.totalPurchaseAmount)  // Sort descending by amount
+      .slice(0, 5);  // Take top 5
+
+    return topCustomers;
+  },
+
+  /**
+   * Generates report of top 10 selling books by copies sold
+   * Analyzes sales data from the last 3 months
+   * Useful for inventory planning and marketing decisions
+   * 
+   * @returns Promise resolving to array of BookSalesReport objects
+   */
+  getTopSellingBooks: async (): Promise<BookSalesReport[]> => {
+    await delay(400);
+    
+    // Calculate date 3 months ago for the analysis period
+    const threeMonthsAgo = new Date();
+    threeMonthsAgo.setMonth(threeMonthsAgo.getMonth() - 3);
+
+    // Filter sales from the last 3 months
+    const recentSales = salesData.filter(s => new Date(s.date) >= threeMonthsAgo);
+
+    // Aggregate sales by book ISBN
+    // Structure: { isbn: { copies: total sold, revenue: total revenue } }
+    const bookStats: { [key: string]: { copies: number; revenue: number } } = {};
+    
+    recentSales.forEach(sale => {
+      if (!bookStats[sale.bookIsbn]) {
+        bookStats[sale.bookIsbn] = { copies: 0, revenue: 0 };
+      }
+      bookStats[sale.bookIsbn].copies += sale.quantity;
+      bookStats[sale.bookIsbn].revenue += sale.amount;
+    });
+
+    // Convert aggregated data to BookSalesReport array
+    // Enrich with book details, sort by copies sold, take top 10
+    const topBooks: BookSalesReport[] = Object.entries(bookStats)
+      .map(([isbn, stats]) => {
+        // Find book details to get the title
+        const book = books.find(b => b.isbn === isbn);
+        return {
+          isbn,
+          title: book?.title || 'Unknown',
+          format: book?.format ?? null,
+          copiesSold: stats.copies,
+          totalRevenue: stats.revenue
+        };
+      })
+      .sort((a, b) => b.copiesSold - a.copiesSold)  // Sort descending by copies sold
+      .slice(0, 10);  // Take top 10
+
+    return topBooks;
+  },
+
+  /**
+   * Generates report of publisher order count for a specific book
+   * Shows how many times the bookstore has ordered this book from publishers
+   * Useful for analyzing inventory replenishment patterns
+   * 
+   * @param isbn - ISBN of the book to check
+   * @returns Promise resolving to BookOrderCount with order count
+   */
+  getBookOrderCount: async (isbn: string): Promise<BookOrderCount> => {
+    await delay(300);
+    
+    // Find the book details
+    const book = books.find(b => b.isbn === isbn);
+    
+    // Count publisher orders for this book
+    const orderCount = publisherOrders.filter(o => o.bookIsbn === isbn).length;
+
+    return {
+      isbn,
+      title: book?.title || 'Unknown',
+      format: book?.format ?? null,
+      orderCount
+    };
+  },
+
+  /**
+   * Generates sales at each price for the books whose price changed
+   * between two dates (inclusive)
+   * A book's periods run from one price change to the next, cut to the
+   * range and to the present; sales count in the period of their day
+   * 
+   * @param startDate - First day (YYYY-MM-DD)
+   * @param endDate - Last day (YYYY-MM-DD)
+   * @returns Promise resolving to array of PricePeriodReport objects, by title
+   * @throws ApiValidationError if the end date is before the start date
+   */
+  getPricePeriods: async (startDate: string, endDate: string): Promise<PricePeriodReport[]> => {
+    await delay(400);
+    applyDuePriceRules();
+    if (endDate < startDate) {
+      throw invalidField('endDate', 'End date must not be before the start date');
+    }
+
+    const rangeStart = new Date(`${startDate}T00:00:00`).getTime();
+    const rangeEnd = Math.min(new Date(`${endDate}T00:00:00`).getTime() + 24 * 60 * 60 * 1000, Date.now());
+    // Sales are recorded by day; each is placed at noon of its day
+    const saleTime = (date: string) => new Date(`${date}T12:00:00`).getTime();
+
+    const reports: PricePeriodReport[] = [];
+    for (const book of books) {
+      const history = priceChanges
+        .filter(c => c.isbn === book.isbn)
+        .sort((a, b) => Date.parse(a.changedAt) - Date.parse(b.changedAt) || Number(a.id) - Number(b.id));
+
+      const periods = history
+        .map((change, i) => ({
+          price: change.price,
+          from: Math.max(Date.parse(change.changedAt), rangeStart),
+          to: Math.min(i + 1 < history.length ? Date.parse(history[i + 1].changedAt) : Infinity, rangeEnd)
+        }))
+        .filter(period => period.to > period.from)
+        .map(({ price, from, to }) => {
+          const sales = salesData.filter(s =>
+            s.bookIsbn === book.isbn && saleTime(s.date) >= from && saleTime(s.date) < to);
+          return {
+            price,
+            from: new Date(from).toISOString(),
+            to: new Date(to).toISOString(),
+            days: Math.round((to - from) / 864000) / 100,
+            copiesSold: sales.reduce((sum, s) => sum + s.quantity, 0),
+            revenue: sales.reduce((sum, s) => sum + s.amount, 0)
+          };
+        });
+
+      if (periods.length > 1) {
+        reports.push({ isbn: book.isbn, title: book.title, format: book.format, periods });
+      }
+    }
+    return reports.sort((a, b) => a.title.localeCompare(b.title));
+  }
+};
+
+// ============================================================================
+// TRANSPORT EXPORT
+// ============================================================================
+
+/**
+ * In-memory implementation of the complete API surface
+ */
+export const mockTransport: ApiTransport = {
+  authApi,
+  booksApi,
+  categoriesApi,
+  authorsApi,
+  publishersApi,
+  ordersApi,
+  priceRulesApi,
+  cartApi,
+  customerOrdersApi,
+  reportsApi
+};
@@ -8,12 +8,16 @@
  * through API calls to a backend server.
  * 
  * DATA INCLUDED:
+ * - mockCategories: The category taxonomy (5 top-level categories)
+ * - mockAuthors: 13 authors credited on the sample books
  * - mockBooks: 10 sample books across different categories
  * - mockPublishers: 10 publisher records
  * - mockPublisherOrders: Sample replenishment orders
  * - mockUsers: 3 users (1 admin, 2 customers)
+ * - mockPasswordHashes: Password hashes for the mock users
  * - mockCustomerOrders: Sample customer purchase history
  * - mockSalesData: Sales transactions for report generation
+ * - mockPriceChanges: Price history of the sample books
  * 
  * NOTE: This data is loaded into memory on application start.
  * Changes made during runtime are not persisted across page refreshes.
@@ -24,7 +28,80 @@
  */
 
 // Import TypeScript interfaces for type safety
-import { Book, Publisher, PublisherOrder, User, CustomerOrder } from '../types';
+import { Author, Book, BookAuthor, BookCategory, Category, Publisher, PublisherOrder, User, CustomerOrder, PriceChange } from '../types';
+
+// ============================================================================
+// CATEGORIES DATA
+// ============================================================================
+/**
+ * Sample category taxonomy, matching the categories seeded by
+ * database/migrations/005_categories.up.sql
+ *
+ * Each category contains:
+ * - id: Primary key
+ * - name / slug: Display name and URL name (both unique)
+ * - parentId: Parent category (null for top-level categories)
+ * - color: Hex color used for badges and cards
+ * - sortOrder: Position among siblings
+ */
+export const mockCategories: Category[] = [
+  { id: '1', name: 'Science', slug: 'science', parentId: null, color: '#0ea5e9', sortOrder: 1 },
+  { id: '2', name: 'Art', slug: 'art', parentId: null, color: '#f59e0b', sortOrder: 2 },
+  { id: '3', name: 'Religion', slug: 'religion', parentId: null, color: '#8b5cf6', sortOrder: 3 },
+  { id: '4', name: 'History', slug: 'history', parentId: null, color: '#ef4444', sortOrder: 4 },
+  { id: '5', name: 'Geography', slug: 'geography', parentId: null, color: '#d946ef', sortOrder: 5 }
+];
+
+/**
+ * Builds a book's category list from category slugs
+ * @param slugs - Slugs of mockCategories entries
+ */
+function bookCategories(...slugs: string[]): BookCategory[] {
+  return mockCategories
+    .filter(category => slugs.includes(category.slug))
+    .map(({ id, name, slug, color }) => ({ id, name, slug, color }));
+}
+
+// ============================================================================
+// AUTHORS DATA
+// ============================================================================
+/**
+ * Sample authors
+ *
+ * Each author contains:
+ * - id: Primary key
+ * - name: Canonical name shown on books (unique)
+ * - aliases: Other spellings that resolve to this author
+ * - bio: Optional biography
+ *
+ * bookCount is not stored; the mock API counts the author's books.
+ */
+export const mockAuthors: Omit<Author, 'bookCount'>[] = [
+  { id: '1', name: 'Donald Knuth', aliases: ['Donald E. Knuth'], bio: null },
+  { id: '2', name: 'Harper Lee', aliases: [], bio: null },
+  { id: '3', name: 'John Merriman', aliases: [], bio: null },
+  { id: '4', name: 'Alan Strahler', aliases: [], bio: null },
+  { id: '5', name: 'Arthur Strahler', aliases: [], bio: null },
+  { id: '6', name: 'Karen Armstrong', aliases: [], bio: null },
+  { id: '7', name: 'Bill Bryson', aliases: [], bio: null },
+  { id: '8', name: 'E.H. Gombrich', aliases: ['Ernst Gombrich'], bio: null },
+  { id: '9', name: 'Yuval Noah Harari', aliases: [], bio: null },
+  { id: '10', name: 'John Bowker', aliases: [], bio: null },
+  { id: '11', name: 'Thomas H. Cormen', aliases: ['Thomas Cormen'], bio: null },
+  { id: '12', name: 'Charles E. Leiserson', aliases: [], bio: null },
+  { id: '13', name: 'Ronald L. Rivest', aliases: [], bio: null }
+];
+
+/**
+ * Builds a book's author list from author names, in credit order
+ * @param names - Names of mockAuthors entries
+ */
+function bookAuthors(...names: string[]): BookAuthor[] {
+  return names.map(name => {
+    const { id } = mockAuthors.find(author => author.name === name)!;
+    return { id, name };
+  });
+}
 
 // ============================================================================
 // BOOKS DATA
@@ -35,15 +112,22 @@ import { Book, Publisher, PublisherOrder, User, CustomerOrder } from '../types';
  * Each book contains:
  * - isbn: Primary key, unique identifier (ISBN-13 format)
  * - title: Book title
- * - authors: Array of author names
- * - publisher: Publisher name (foreign key reference)
+ * - format: Edition format (hardcover, paperback, ebook, audiobook)
+ * - workId: Work the book is an edition of (shared by its other editions)
+ * - authors: Credited authors in order (see mockAuthors)
+ * - publisherId: Publisher ID (foreign key reference)
+ * - publisher: Publisher name (denormalized for display)
  * - publicationYear: Year of publication
  * - sellingPrice: Current selling price in USD
- * - category: Book category (Science, Art, History, Geography, Religion)
+ * - categories: Book categories (see mockCategories)
  * - quantity: Current stock level
  * - threshold: Minimum stock level before auto-replenishment
  * - imageUrl: URL to book cover image
- * 
+ * - archivedAt: When the book was taken off sale (null while for sale)
+ * - description, pageCount, language, edition, heightMm, widthMm,
+ *   thicknessMm, weightGrams: Bibliographic details (null when unknown)
+ * - tags: Free-form tags, lower case, in alphabetical order
+ *  
  * CATEGORIES AVAILABLE:
  * - Science: Computer science, general science
  * - Art: Literature, visual arts
@@ -54,132 +138,288 @@ import { Book, Publisher, PublisherOrder, User, CustomerOrder } from '../types';
 export const mockBooks: Book[] = [
   // ==================== SCIENCE CATEGORY ====================
   {
-    isbn: '978-0-13-468599-1',
+    isbn: '9780134685991',
     title: 'The Art of Computer Programming',
-    authors: ['Donald Knuth'],
+    format: 'paperback',
+    workId: '1',
+    authors: bookAuthors('Donald Knuth'),
+    publisherId: '1',
     publisher: 'Addison-Wesley',
     publicationYear: 2011,
     sellingPrice: 89.99,
-    category: 'Science',
+    categories: bookCategories('science'),
     quantity: 25,
     threshold: 5,            // Reorder when stock drops below 5
+    archivedAt: null,
+    description: 'The classic survey of the fundamental algorithms and the analysis behind them, with exercises graded from warm-ups to research problems.',
+    pageCount: 912,
+    language: 'en',
+    edition: null,
+    heightMm: 241,
+    widthMm: 165,
+    thicknessMm: 51,
+    weightGrams: 1650,
+    tags: ['algorithms', 'classic', 'reference'],
     imageUrl: 'https://placehold.co/400x600/4f46e5/ffffff?text=The+Art+of+Computer+Programming'
   },
   // ==================== ART CATEGORY ====================
   {
-    isbn: '978-0-06-112008-4',
+    isbn: '9780061120084',
     title: 'To Kill a Mockingbird',
-    authors: ['Harper Lee'],
+    format: 'paperback',
+    workId: '2',
+    authors: bookAuthors('Harper Lee'),
+    publisherId: '2',
     publisher: 'HarperCollins',
     publicationYear: 1960,
     sellingPrice: 14.99,
-    category: 'Art',
+    categories: bookCategories('art'),
     quantity: 50,
     threshold: 10,
+    archivedAt: null,
+    description: 'Scout Finch grows up in 1930s Alabama as her father defends a Black man accused of a crime he did not commit.',
+    pageCount: 336,
+    language: 'en',
+    edition: null,
+    heightMm: 203,
+    widthMm: 135,
+    thicknessMm: 23,
+    weightGrams: 249,
+    tags: ['book club pick', 'classic', 'coming of age'],
+    imageUrl: 'https://placehold.co/400x600/e11d48/ffffff?text=To+Kill+a+Mockingbird'
+  },
+  // Hardcover edition of the same work, sold and stocked separately
+  {
+    isbn: '9780060194994',
+    title: 'To Kill a Mockingbird',
+    format: 'hardcover',
+    workId: '2',
+    authors: bookAuthors('Harper Lee'),
+    publisherId: '2',
+    publisher: 'HarperCollins',
+    publicationYear: 1960,
+    sellingPrice: 24.99,
+    categories: bookCategories('art'),
+    quantity: 12,
+    threshold: 3,
+    archivedAt: null,
+    description: 'Scout Finch grows up in 1930s Alabama as her father defends a Black man accused of a crime he did not commit.',
+    pageCount: 324,
+    language: 'en',
+    edition: '50th anniversary edition',
+    heightMm: 216,
+    widthMm: 145,
+    thicknessMm: 30,
+    weightGrams: 520,
+    tags: ['book club pick', 'classic', 'coming of age'],
     imageUrl: 'https://placehold.co/400x600/e11d48/ffffff?text=To+Kill+a+Mockingbird'
   },
   // ==================== HISTORY CATEGORY ====================
   {
-    isbn: '978-0-19-953556-8',
+    isbn: '9780199535569',
     title: 'A History of Modern Europe',
-    authors: ['John Merriman'],
+    format: 'paperback',
+    workId: '3',
+    authors: bookAuthors('John Merriman'),
+    publisherId: '3',
     publisher: 'W.W. Norton',
     publicationYear: 2019,
     sellingPrice: 65.00,
-    category: 'History',
+    categories: bookCategories('history'),
     quantity: 15,
     threshold: 3,
+    archivedAt: null,
+    description: 'Europe from the Renaissance to the present, told through its politics, economies and ideas.',
+    pageCount: 576,
+    language: 'en',
+    edition: null,
+    heightMm: 234,
+    widthMm: 156,
+    thicknessMm: 35,
+    weightGrams: 880,
+    tags: ['europe', 'survey'],
     imageUrl: 'https://placehold.co/400x600/f59e0b/ffffff?text=A+History+of+Modern+Europe'
   },
   // ==================== GEOGRAPHY CATEGORY ====================
   {
-    isbn: '978-0-07-352332-7',
+    isbn: '9780073523323',
     title: 'Physical Geography',
-    authors: ['Alan Strahler', 'Arthur Strahler'],  // Multiple authors example
+    format: 'paperback',
+    workId: '4',
+    authors: bookAuthors('Alan Strahler', 'Arthur Strahler'),  // Multiple authors example
+    publisherId: '4',
     publisher: 'Wiley',
     publicationYear: 2013,
     sellingPrice: 120.00,
-    category: 'Geography',
+    categories: bookCategories('geography'),
     quantity: 8,
     threshold: 5,
+    archivedAt: null,
+    description: 'An introduction to the Earth\'s atmosphere, oceans, landforms and ecosystems and the systems that link them.',
+    pageCount: 656,
+    language: 'en',
+    edition: null,
+    heightMm: 279,
+    widthMm: 216,
+    thicknessMm: 25,
+    weightGrams: 1720,
+    tags: ['earth science', 'textbook'],
     imageUrl: 'https://placehold.co/400x600/10b981/ffffff?text=Physical+Geography'
   },
   // ==================== RELIGION CATEGORY ====================
   {
-    isbn: '978-0-06-093546-7',
+    isbn: '9780060935467',
     title: 'The Case for God',
-    authors: ['Karen Armstrong'],
+    format: 'paperback',
+    workId: '5',
+    authors: bookAuthors('Karen Armstrong'),
+    publisherId: '5',
     publisher: 'Knopf',
     publicationYear: 2009,
     sellingPrice: 27.95,
-    category: 'Religion',
+    categories: bookCategories('religion'),
     quantity: 30,
     threshold: 7,
+    archivedAt: null,
+    description: 'How religion was understood before the modern era, and what was lost when belief came to mean assent to doctrine.',
+    pageCount: 432,
+    language: 'en',
+    edition: null,
+    heightMm: 203,
+    widthMm: 135,
+    thicknessMm: 28,
+    weightGrams: 340,
+    tags: ['philosophy', 'theology'],
     imageUrl: 'https://placehold.co/400x600/8b5cf6/ffffff?text=The+Case+for+God'
   },
   // More Science books
   {
-    isbn: '978-1-59448-273-9',
+    isbn: '9781594482731',
     title: 'A Short History of Nearly Everything',
-    authors: ['Bill Bryson'],
+    format: 'paperback',
+    workId: '6',
+    authors: bookAuthors('Bill Bryson'),
+    publisherId: '6',
     publisher: 'Broadway Books',
     publicationYear: 2004,
     sellingPrice: 18.00,
-    category: 'Science',
+    categories: bookCategories('science'),
     quantity: 40,
     threshold: 8,
+    archivedAt: null,
+    description: 'A tour of how we came to know what we know about the universe, from the Big Bang to the rise of civilization.',
+    pageCount: 544,
+    language: 'en',
+    edition: null,
+    heightMm: 203,
+    widthMm: 133,
+    thicknessMm: 30,
+    weightGrams: 390,
+    tags: ['humor', 'popular science'],
     imageUrl: 'https://placehold.co/400x600/4f46e5/ffffff?text=History+of+Nearly+Everything'
   },
   // More Art books
   {
-    isbn: '978-0-14-028329-7',
+    isbn: '9780140283297',
     title: 'The Story of Art',
-    authors: ['E.H. Gombrich'],
+    format: 'paperback',
+    workId: '7',
+    authors: bookAuthors('E.H. Gombrich'),
+    publisherId: '7',
     publisher: 'Phaidon Press',
     publicationYear: 1950,
     sellingPrice: 39.95,
-    category: 'Art',
+    categories: bookCategories('art'),
     quantity: 22,
     threshold: 5,
+    archivedAt: null,
+    description: 'The history of art from cave paintings to the twentieth century, written for readers new to the subject.',
+    pageCount: 688,
+    language: 'en',
+    edition: '16th edition',
+    heightMm: 248,
+    widthMm: 172,
+    thicknessMm: 45,
+    weightGrams: 1850,
+    tags: ['art history', 'classic'],
     imageUrl: 'https://placehold.co/400x600/e11d48/ffffff?text=The+Story+of+Art'
   },
   // More History books
   {
-    isbn: '978-0-06-083865-2',
+    isbn: '9780060838652',
     title: 'Sapiens: A Brief History of Humankind',
-    authors: ['Yuval Noah Harari'],
+    format: 'paperback',
+    workId: '8',
+    authors: bookAuthors('Yuval Noah Harari'),
+    publisherId: '8',
     publisher: 'Harper',
     publicationYear: 2015,
     sellingPrice: 24.99,
-    category: 'History',
+    categories: bookCategories('history'),
     quantity: 60,
     threshold: 12,
+    archivedAt: null,
+    description: 'How Homo sapiens came to rule the planet, through the cognitive, agricultural and scientific revolutions.',
+    pageCount: 464,
+    language: 'en',
+    edition: null,
+    heightMm: 229,
+    widthMm: 152,
+    thicknessMm: 30,
+    weightGrams: 680,
+    tags: ['anthropology', 'book club pick', 'popular science'],
     imageUrl: 'https://placehold.co/400x600/f59e0b/ffffff?text=Sapiens'
   },
   // More Religion books
   {
-    isbn: '978-0-19-280722-2',
+    isbn: '9780192807229',
     title: 'World Religions',
-    authors: ['John Bowker'],
+    format: 'paperback',
+    workId: '9',
+    authors: bookAuthors('John Bowker'),
+    publisherId: '9',
     publisher: 'Oxford University Press',
     publicationYear: 2006,
     sellingPrice: 22.50,
-    category: 'Religion',
+    categories: bookCategories('religion'),
     quantity: 18,
     threshold: 4,
+    archivedAt: null,
+    description: 'A short introduction to the beliefs and practices of the world\'s major religious traditions.',
+    pageCount: 160,
+    language: 'en',
+    edition: null,
+    heightMm: 174,
+    widthMm: 111,
+    thicknessMm: 10,
+    weightGrams: 140,
+    tags: ['comparative religion'],
     imageUrl: 'https://placehold.co/400x600/8b5cf6/ffffff?text=World+Religions'
   },
   // LOW STOCK EXAMPLE - This book triggers auto-replenishment
   {
-    isbn: '978-0-321-12521-7',
+    isbn: '9780321125217',
     title: 'Introduction to Algorithms',
-    authors: ['Thomas H. Cormen', 'Charles E. Leiserson', 'Ronald L. Rivest'],  // 3 authors
+    format: 'paperback',
+    workId: '10',
+    authors: bookAuthors('Thomas H. Cormen', 'Charles E. Leiserson', 'Ronald L. Rivest'),  // 3 authors
+    publisherId: '10',
     publisher: 'MIT Press',
     publicationYear: 2009,
     sellingPrice: 95.00,
-    category: 'Science',
+    categories: bookCategories('science'),
     quantity: 3,             // Currently below threshold!
     threshold: 5,
+    archivedAt: null,
+    description: 'A comprehensive textbook of algorithms and data structures, each with pseudocode and analysis.',
+    pageCount: 1312,
+    language: 'en',
+    edition: '3rd edition',
+    heightMm: 235,
+    widthMm: 203,
+    thicknessMm: 48,
+    weightGrams: 2270,
+    tags: ['algorithms', 'reference', 'textbook'],
     imageUrl: 'https://placehold.co/400x600/4f46e5/ffffff?text=Introduction+to+Algorithms'
   }
 ];
@@ -196,20 +436,24 @@ export const mockBooks: Book[] = [
  * - name: Publisher company name
  * - address: Business address
  * - phone: Contact phone number
+ * - email: Ordering contact email
+ * - leadTimeDays: Days from placing an order to delivery
+ * - minimumOrder: Fewest copies the publisher accepts per order
  * 
- * These publishers are referenced by books through the 'publisher' field.
+ * These publishers are referenced by books through the 'publisherId' field.
+ * bookCount is not stored; the mock API counts the publisher's books.
  */
-export const mockPublishers: Publisher[] = [
-  { id: '1', name: 'Addison-Wesley', address: '75 Arlington Street, Boston, MA', phone: '617-848-6000' },
-  { id: '2', name: 'HarperCollins', address: '195 Broadway, New York, NY', phone: '212-207-7000' },
-  { id: '3', name: 'W.W. Norton', address: '500 Fifth Avenue, New York, NY', phone: '212-354-5500' },
-  { id: '4', name: 'Wiley', address: '111 River Street, Hoboken, NJ', phone: '201-748-6000' },
-  { id: '5', name: 'Knopf', address: '1745 Broadway, New York, NY', phone: '212-782-9000' },
-  { id: '6', name: 'Broadway Books', address: '1745 Broadway, New York, NY', phone: '212-782-9000' },
-  { id: '7', name: 'Phaidon Press', address: '65 Bleecker Street, New York, NY', phone: '212-652-5400' },
-  { id: '8', name: 'Harper', address: '195 Broadway, New York, NY', phone: '212-207-7000' },
-  { id: '9', name: 'Oxford University Press', address: '198 Madison Avenue, New York, NY', phone: '212-726-6000' },
-  { id: '10', name: 'MIT Press', address: '1 Rogers Street, Cambridge, MA', phone: '617-253-5646' }
+export const mockPublishers: Omit<Publisher, 'bookCount'>[] = [
+  { id: '1', name: 'Addison-Wesley', address: '75 Arlington Street, Boston, MA', phone: '617-848-6000', email: 'orders@addison-wesley.example.com', leadTimeDays: 10, minimumOrder: 10 },
+  { id: '2', name: 'HarperCollins', address: '195 Broadway, New York, NY', phone: '212-207-7000', email: 'trade@harpercollins.example.com', leadTimeDays: 7, minimumOrder: 5 },
+  { id: '3', name: 'W.W. Norton', address: '500 Fifth Avenue, New York, NY', phone: '212-354-5500', email: 'orders@wwnorton.example.com', leadTimeDays: 7, minimumOrder: 5 },
+  { id: '4', name: 'Wiley', address: '111 River Street, Hoboken, NJ', phone: '201-748-6000', email: 'orders@wiley.example.com', leadTimeDays: 14, minimumOrder: 10 },
+  { id: '5', name: 'Knopf', address: '1745 Broadway, New York, NY', phone: '212-782-9000', email: 'sales@knopf.example.com', leadTimeDays: 7, minimumOrder: 5 },
+  { id: '6', name: 'Broadway Books', address: '1745 Broadway, New York, NY', phone: '212-782-9000', email: 'sales@broadwaybooks.example.com', leadTimeDays: 7, minimumOrder: 5 },
+  { id: '7', name: 'Phaidon Press', address: '65 Bleecker Street, New York, NY', phone: '212-652-5400', email: 'orders@phaidon.example.com', leadTimeDays: 21, minimumOrder: 20 },
+  { id: '8', name: 'Harper', address: '195 Broadway, New York, NY', phone: '212-207-7000', email: 'trade@harper.example.com', leadTimeDays: 7, minimumOrder: 5 },
+  { id: '9', name: 'Oxford University Press', address: '198 Madison Avenue, New York, NY', phone: '212-726-6000', email: 'orders@oup.example.com', leadTimeDays: 14, minimumOrder: 10 },
+  { id: '10', name: 'MIT Press', address: '1 Rogers Street, Cambridge, MA', phone: '617-253-5646', email: 'orders@mitpress.example.com', leadTimeDays: 10, minimumOrder: 10 }
 ];
 
 // ============================================================================
@@ -232,6 +476,7 @@ export const mockPublishers: Publisher[] = [
  * - id: Unique order identifier (format: PO-XXX)
  * - bookIsbn: ISBN of the book being ordered (foreign key)
  * - bookTitle: Title of the book (denormalized for display)
+ * - bookFormat: Edition ordered
  * - publisher: Publisher name
  * - quantity: Number of copies ordered
  * - orderDate: Date the order was placed (YYYY-MM-DD format)
@@ -241,8 +486,9 @@ export const mockPublisherOrders: PublisherOrder[] = [
   // Pending order - waiting for admin confirmation
   {
     id: 'PO-001',
-    bookIsbn: '978-0-321-12521-7',
+    bookIsbn: '9780321125217',
     bookTitle: 'Introduction to Algorithms',
+    bookFormat: 'paperback',
     publisher: 'MIT Press',
     quantity: 20,
     orderDate: '2025-12-15',
@@ -251,8 +497,9 @@ export const mockPublisherOrders: PublisherOrder[] = [
   // Confirmed order - stock has been received and added
   {
     id: 'PO-002',
-    bookIsbn: '978-0-07-352332-7',
+    bookIsbn: '9780073523323',
     bookTitle: 'Physical Geography',
+    bookFormat: 'paperback',
     publisher: 'Wiley',
     quantity: 15,
     orderDate: '2025-12-10',
@@ -261,8 +508,9 @@ export const mockPublisherOrders: PublisherOrder[] = [
   // Another confirmed order
   {
     id: 'PO-003',
-    bookIsbn: '978-0-13-468599-1',
+    bookIsbn: '9780134685991',
     bookTitle: 'The Art of Computer Programming',
+    bookFormat: 'paperback',
     publisher: 'Addison-Wesley',
     quantity: 10,
     orderDate: '2025-12-05',
@@ -291,7 +539,7 @@ export const mockPublisherOrders: PublisherOrder[] = [
  * 
  * DEMO CREDENTIALS:
  * - Admin login: username="admin", password="admin"
- * - Customer login: use any username with password="password"
+ * - Customer login: username="john_doe" or "jane_smith", password="password"
  */
 export const mockUsers: User[] = [
   // Administrator account - has full access to management features
@@ -329,6 +577,22 @@ export const mockUsers: User[] = [
   }
 ];
 
+/**
+ * Password hashes for the mock users, keyed by user ID
+ * 
+ * Simulates the users.password column: the mock API never stores
+ * plaintext. Each value is a salted PBKDF2-SHA256 hash in the format
+ * pbkdf2$<iterations>$<salt>$<key> (salt and key base64 encoded),
+ * matching what mockApi.ts produces for new passwords.
+ * 
+ * Hashed passwords are the DEMO CREDENTIALS listed above.
+ */
+export const mockPasswordHashes: Record<string, string> = {
+  'admin-1': 'pbkdf2$100000$Pq5wDIX7iLxGu5sD7JWzHQ==$oqw7yvl9JSX6e1VvYzWyVIgHwiRDbDD/+i78SEDdQjY=',
+  'cust-1': 'pbkdf2$100000$xJzkbf5UlXhjTyeO3n9Yjg==$ra7leLzVUrrxdEBFU5ENe+eAOcVrKZZPMwIZec5bZbU=',
+  'cust-2': 'pbkdf2$100000$4J9Q4g1PQNo+E3KGfHVA1A==$cTcPTN0up9mDaIhizemZN4VwzXYgjCJZ7wyRtU3i+Io='
+};
+
 // ============================================================================
 // CUSTOMER ORDERS DATA (Purchase History)
 // ============================================================================
@@ -339,53 +603,53 @@ export const mockUsers: User[] = [
  * Each order is linked to a customer and contains the items purchased.
  * 
  * ORDER STATUS:
- * - 'Completed': Order has been fulfilled
- * - 'Pending': Order is being processed (not used in sample data)
- * - 'Cancelled': Order was cancelled (not used in sample data)
+ * - 'delivered': Order has been fulfilled
+ * - 'pending' / 'shipped': Order is on its way (not used in sample data)
+ * - 'cancelled': Order was cancelled (not used in sample data)
  * 
  * Each order contains:
  * - id: Unique order identifier (format: ORD-XXX)
- * - customerId: ID of the customer who placed the order (foreign key)
- * - orderDate: Date the order was placed (YYYY-MM-DD format)
- * - items: Array of order items with ISBN, title, quantity, prices
- * - totalAmount: Total order value in USD
+ * - userId: ID of the customer who placed the order (foreign key)
+ * - items: Array of order items with ISBN, title, quantity, price per copy
+ * - totalPrice: Total order value in USD
  * - status: Order status
+ * - createdAt: When the order was placed (ISO 8601)
  */
 export const mockCustomerOrders: CustomerOrder[] = [
   // Order from John Doe - multiple items
   {
     id: 'ORD-001',
-    customerId: 'cust-1',               // Foreign key to John Doe
-    orderDate: '2025-12-01',
+    userId: 'cust-1',                   // Foreign key to John Doe
     items: [
-      { isbn: '978-0-06-083865-2', title: 'Sapiens: A Brief History of Humankind', quantity: 2, pricePerUnit: 24.99, totalPrice: 49.98 },
-      { isbn: '978-0-06-112008-4', title: 'To Kill a Mockingbird', quantity: 1, pricePerUnit: 14.99, totalPrice: 14.99 }
+      { isbn: '9780060838652', title: 'Sapiens: A Brief History of Humankind', format: 'paperback', quantity: 2, price: 24.99 },
+      { isbn: '9780061120084', title: 'To Kill a Mockingbird', format: 'paperback', quantity: 1, price: 14.99 }
     ],
-    totalAmount: 64.97,
-    status: 'Completed'
+    totalPrice: 64.97,
+    status: 'delivered',
+    createdAt: '2025-12-01T10:00:00.000Z'
   },
   // Another order from John Doe - single expensive item
   {
     id: 'ORD-002',
-    customerId: 'cust-1',
-    orderDate: '2025-11-28',
+    userId: 'cust-1',
     items: [
-      { isbn: '978-0-321-12521-7', title: 'Introduction to Algorithms', quantity: 1, pricePerUnit: 95.00, totalPrice: 95.00 }
+      { isbn: '9780321125217', title: 'Introduction to Algorithms', format: 'paperback', quantity: 1, price: 95.00 }
     ],
-    totalAmount: 95.00,
-    status: 'Completed'
+    totalPrice: 95.00,
+    status: 'delivered',
+    createdAt: '2025-11-28T10:00:00.000Z'
   },
   // Order from Jane Smith - multiple items
   {
     id: 'ORD-003',
-    customerId: 'cust-2',               // Foreign key to Jane Smith
-    orderDate: '2025-11-15',
+    userId: 'cust-2',                   // Foreign key to Jane Smith
     items: [
-      { isbn: '978-0-14-028329-7', title: 'The Story of Art', quantity: 1, pricePerUnit: 39.95, totalPrice: 39.95 },
-      { isbn: '978-0-19-280722-2', title: 'World Religions', quantity: 2, pricePerUnit: 22.50, totalPrice: 45.00 }
+      { isbn: '9780140283297', title: 'The Story of Art', format: 'paperback', quantity: 1, price: 39.95 },
+      { isbn: '9780192807229', title: 'World Religions', format: 'paperback', quantity: 2, price: 22.50 }
     ],
-    totalAmount: 84.95,
-    status: 'Completed'
+    totalPrice: 84.95,
+    status: 'delivered',
+    createdAt: '2025-11-15T10:00:00.000Z'
   }
 ];
 
@@ -412,16 +676,48 @@ export const mockCustomerOrders: CustomerOrder[] = [
  */
 export const mockSalesData = [
   // December 2025 sales (recent)
-  { date: '2025-12-17', bookIsbn: '978-0-06-083865-2', quantity: 3, amount: 74.97, customerId: 'cust-1' },
-  { date: '2025-12-17', bookIsbn: '978-0-06-112008-4', quantity: 2, amount: 29.98, customerId: 'cust-2' },
-  { date: '2025-12-16', bookIsbn: '978-0-321-12521-7', quantity: 1, amount: 95.00, customerId: 'cust-1' },
-  { date: '2025-12-15', bookIsbn: '978-0-14-028329-7', quantity: 2, amount: 79.90, customerId: 'cust-2' },
-  { date: '2025-12-14', bookIsbn: '978-0-06-083865-2', quantity: 5, amount: 124.95, customerId: 'cust-1' },
+  { date: '2025-12-17', bookIsbn: '9780060838652', quantity: 3, amount: 74.97, customerId: 'cust-1' },
+  { date: '2025-12-17', bookIsbn: '9780061120084', quantity: 2, amount: 29.98, customerId: 'cust-2' },
+  { date: '2025-12-16', bookIsbn: '9780321125217', quantity: 1, amount: 95.00, customerId: 'cust-1' },
+  { date: '2025-12-15', bookIsbn: '9780140283297', quantity: 2, amount: 79.90, customerId: 'cust-2' },
+  { date: '2025-12-14', bookIsbn: '9780060838652', quantity: 5, amount: 124.95, customerId: 'cust-1' },
   // November 2025 sales
-  { date: '2025-11-20', bookIsbn: '978-1-59448-273-9', quantity: 4, amount: 72.00, customerId: 'cust-2' },
-  { date: '2025-11-18', bookIsbn: '978-0-19-953556-8', quantity: 2, amount: 130.00, customerId: 'cust-1' },
-  { date: '2025-11-15', bookIsbn: '978-0-06-093546-7', quantity: 3, amount: 83.85, customerId: 'cust-2' },
+  { date: '2025-11-20', bookIsbn: '9781594482731', quantity: 4, amount: 72.00, customerId: 'cust-2' },
+  { date: '2025-11-18', bookIsbn: '9780199535569', quantity: 2, amount: 130.00, customerId: 'cust-1' },
+  { date: '2025-11-15', bookIsbn: '9780060935467', quantity: 3, amount: 83.85, customerId: 'cust-2' },
   // October 2025 sales (older)
-  { date: '2025-10-25', bookIsbn: '978-0-06-083865-2', quantity: 8, amount: 199.92, customerId: 'cust-1' },
-  { date: '2025-10-20', bookIsbn: '978-0-13-468599-1', quantity: 2, amount: 179.98, customerId: 'cust-2' }
+  { date: '2025-10-25', bookIsbn: '9780060838652', quantity: 8, amount: 199.92, customerId: 'cust-1' },
+  { date: '2025-10-20', bookIsbn: '9780134685991', quantity: 2, amount: 179.98, customerId: 'cust-2' }
+];
+
+// ============================================================================
+// PRICE HISTORY
+// ============================================================================
+
+/**
+ * Price history of the sample books (the price_changes table)
+ * 
+ * Every book starts with a 'created' entry at the price it was added
+ * with. Sapiens was added at $29.99 and cut to its current $24.99 a month
+ * later, so the price report has a change to show for the autumn sales.
+ * 
+ * previousPrice and ruleLabel are worked out when the history is read.
+ */
+export const mockPriceChanges: Omit<PriceChange, 'previousPrice' | 'ruleLabel'>[] = [
+  ...mockBooks.map((book, i) => ({
+    id: String(i + 1),
+    isbn: book.isbn,
+    price: book.isbn === '9780060838652' ? 29.99 : book.sellingPrice,
+    changedAt: '2025-09-01T09:00:00.000Z',
+    source: 'created' as const,
+    ruleId: null
+  })),
+  {
+    id: String(mockBooks.length + 1),
+    isbn: '9780060838652',
+    price: 24.99,
+    changedAt: '2025-10-01T09:00:00.000Z',
+    source: 'manual',
+    ruleId: null
+  }
 ];
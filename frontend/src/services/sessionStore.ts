@@ -0,0 +1,107 @@
+/**
+ * ============================================================================
+ * SESSION TOKEN STORE - Bookstore Application
+ * ============================================================================
+ *
+ * Keeps the current session's tokens in localStorage so a login survives
+ * page reloads. Used by both API transports (httpApi.ts and mockApi.ts).
+ *
+ * Only tokens are stored here, never the user object. After a reload,
+ * AuthContext calls authApi.restoreSession(), which asks the server (or
+ * the mock session store) who the tokens belong to. A token edited by
+ * hand is rejected there, so local storage alone cannot grant access.
+ *
+ * SESSION END NOTIFICATIONS:
+ * Transports call notifySessionEnded() when the server rejects the
+ * session (e.g. the refresh token was revoked). AuthContext subscribes
+ * with onSessionEnded() and logs the user out of the UI.
+ *
+ * @author Bookstore Development Team
+ * @version 1.0.0
+ * ============================================================================
+ */
+
+/** localStorage key for the token pair */
+const SESSION_KEY = 'bookstore_session';
+
+/**
+ * Tokens returned by login, register and refresh
+ */
+export interface SessionTokens {
+  /** Short-lived token sent with every request */
+  accessToken: string;
+  /** Long-lived token exchanged for a new pair when the access token expires */
+  refreshToken: string;
+}
+
+// ============================================================================
+// TOKEN STORAGE
+// ============================================================================
+
+/**
+ * Reads the stored tokens
+ *
+ * @returns The token pair, or null if there is no (valid) stored session
+ */
+export const loadTokens = (): SessionTokens | null => {
+  const stored = localStorage.getItem(SESSION_KEY);
+  if (!stored) return null;
+
+  try {
+    const tokens = JSON.parse(stored);
+    if (typeof tokens.accessToken === 'string' && typeof tokens.refreshToken === 'string') {
+      return tokens;
+    }
+  } catch {
+    // Fall through and discard corrupted data
+  }
+  localStorage.removeItem(SESSION_KEY);
+  return null;
+};
+
+/**
+ * Stores a new token pair, replacing the previous one
+ *
+ * @param tokens - Tokens from login, register or refresh
+ */
+export const saveTokens = (tokens: SessionTokens): void => {
+  localStorage.setItem(SESSION_KEY, JSON.stringify({
+    accessToken: tokens.accessToken,
+    refreshToken: tokens.refreshToken
+  }));
+};
+
+/**
+ * Removes the stored tokens (logout or ended session)
+ */
+export const clearTokens = (): void => {
+  localStorage.removeItem(SESSION_KEY);
+};
+
+// ============================================================================
+// SESSION END NOTIFICATIONS
+// ============================================================================
+
+/** Callbacks registered with onSessionEnded() */
+const sessionEndedListeners = new Set<() => void>();
+
+/**
+ * Registers a callback for when the server ends the session
+ *
+ * @param listener - Called after the tokens have been cleared
+ * @returns Function that removes the listener
+ */
+export const onSessionEnded = (listener: () => void): (() => void) => {
+  sessionEndedListeners.add(listener);
+  return () => {
+    sessionEndedListeners.delete(listener);
+  };
+};
+
+/**
+ * Clears the tokens and tells listeners that the session is over
+ */
+export const notifySessionEnded = (): void => {
+  clearTokens();
+  sessionEndedListeners.forEach(listener => listener());
+};
@@ -0,0 +1,35 @@
+/**
+ * @fileoverview Author Type Definitions
+ * 
+ * This module defines TypeScript types for authors.
+ * Books credit authors by reference; an author can be known by several
+ * spellings (aliases), and duplicates can be merged by an admin.
+ * 
+ * @module types/Author
+ */
+
+import type { Author, BookAuthor, AuthorUpdateData, AuthorMergeData } from 'bookstore-shared';
+
+/**
+ * Author, BookAuthor, AuthorUpdateData and AuthorMergeData come from the
+ * shared contract (bookstore-shared, shared/src/authors.js).
+ * 
+ * Author: an author record (id, name, aliases[], bio, bookCount).
+ * 
+ * BookAuthor: an author as credited on a book (id, name).
+ * 
+ * AuthorUpdateData: fields sent to edit an author; aliases replace the list.
+ * 
+ * AuthorMergeData: request body for merging a duplicate (sourceId) into
+ * another author.
+ * 
+ * @example
+ * const author: Author = {
+ *   id: '10',
+ *   name: 'Thomas H. Cormen',
+ *   aliases: ['Thomas Cormen'],  // Books crediting either name link here
+ *   bio: null,
+ *   bookCount: 1
+ * };
+ */
+export type { Author, BookAuthor, AuthorUpdateData, AuthorMergeData };
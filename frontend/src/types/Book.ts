@@ -7,79 +7,106 @@
  * @module types/Book
  */
 
+import type {
+  Book,
+  BookFormat,
+  ArchivedFilter,
+  BookUpdateData,
+  BookImportRow,
+  BookImportReport,
+  ImportExistingMode,
+  CoverUpload,
+  BookRecommendation,
+  RecommendationReason,
+  CatalogSearchResult,
+  FacetValue,
+  SearchSort,
+  BookSuggestion,
+  SearchSuggestions
+} from 'bookstore-shared';
+
 /**
- * Enumeration of available book categories.
+ * Book and BookUpdateData come from the shared contract (bookstore-shared,
+ * shared/src/books.js), the same schema the backend validates books with.
  * 
- * Used for:
- * - Categorizing books in the inventory
- * - Filtering books in browse/search functionality
- * - Displaying category-specific styling (colors, icons)
+ * Book: a book in the inventory as returned by the API
+ * (isbn, title, format, workId, authors[], publisherId, publisher,
+ * publicationYear, sellingPrice, categories[], quantity, threshold, an
+ * optional imageUrl and archivedAt), plus bibliographic details that are
+ * null when unknown (description, pageCount, language, edition, heightMm,
+ * widthMm, thicknessMm, weightGrams) and its tags[].
+ * A book that has been ordered is archived rather than deleted: archivedAt
+ * (ISO 8601) marks it off sale, and searches leave it out unless asked
+ * for it (ArchivedFilter: 'include' or 'only').
+ * Each book is one edition of a work: its hardcover, paperback, ebook or
+ * audiobook (BookFormat), with its own ISBN, price and stock. Editions of
+ * the same work share a workId.
+ * Each author is a BookAuthor ({ id, name }), in credit order, and each
+ * category is a BookCategory ({ id, name, slug, color }). publisher is the
+ * name of the publisher publisherId refers to (null for a book without one).
  * 
- * @example
- * const category: BookCategory = 'Science';
+ * BookUpdateData: fields sent to change a book; authors are sent as names
+ * (matched to existing authors or aliases, otherwise created) and
+ * categories as slugs, and both replace the book's current list, as do
+ * tags. An imageUrl or a detail of null removes it.
+ * 
+ * CoverUpload: the URLs of an uploaded cover's sizes; imageUrl is the one
+ * saved with the book.
  */
-export type BookCategory = 'Science' | 'Art' | 'Religion' | 'History' | 'Geography';
+export type { Book, BookFormat, ArchivedFilter, BookUpdateData, CoverUpload };
 
 /**
- * Represents a book in the bookstore inventory.
+ * Catalog import and export types, also from the shared contract.
  * 
- * This interface defines the complete book record as stored in the database
- * and returned from the API. Used for displaying book information and
- * managing inventory.
+ * BookImportRow: one book of a catalog file, shaped like the records of
+ * database/books.json (publisher by name, authors by name, categories by slug).
  * 
- * @interface Book
+ * BookImportReport: what an import did or, for a dry run, would do:
+ * a summary and one entry per row (create, update, skip or invalid, with
+ * the row's errors).
  * 
- * @example
- * const book: Book = {
- *   isbn: '978-0-13-468599-1',
- *   title: 'The Great Gatsby',
- *   authors: ['F. Scott Fitzgerald'],
- *   publisher: 'Scribner',
- *   publicationYear: 1925,
- *   sellingPrice: 14.99,
- *   category: 'Art',
- *   quantity: 25,
- *   threshold: 5
- * };
+ * ImportExistingMode: 'skip' leaves books already in the catalog alone;
+ * 'upsert' overwrites them with the imported rows.
  */
-export interface Book {
-  /** Unique identifier - International Standard Book Number (ISBN-13 format) */
-  isbn: string;
-  
-  /** Full title of the book */
-  title: string;
-  
-  /** Array of author names (supports multiple authors) */
-  authors: string[];
-  
-  /** Publisher name */
-  publisher: string;
-  
-  /** Year the book was published (4-digit year) */
-  publicationYear: number;
-  
-  /** Retail selling price in USD */
-  sellingPrice: number;
-  
-  /** Book category for classification and filtering */
-  category: BookCategory;
-  
-  /** Current number of copies available in inventory */
-  quantity: number;
-  
-  /** Minimum stock level - triggers auto-replenishment when reached */
-  threshold: number;
-  
-  /** Optional URL to the book cover image */
-  imageUrl?: string;
-}
+export type { BookImportRow, BookImportReport, ImportExistingMode };
+
+/**
+ * Recommendation types, also from the shared contract.
+ * 
+ * BookRecommendation: a book recommended for a book or a cart, with why
+ * (RecommendationReason: 'bought-together', 'same-author' or
+ * 'same-category') and a score (orders bought together, or authors or
+ * categories in common). See the bookstore-shared recommendations module.
+ */
+export type { BookRecommendation, RecommendationReason };
+
+/**
+ * Catalog search types, also from the shared contract.
+ * 
+ * CatalogSearchResult: one page of a storefront search: the matching
+ * editions of the page's works, the number of works found, and facets
+ * (category, authorId, publisherId, decade, price, inStock, tag) listing
+ * each value of that filter as a FacetValue ({ value, label, count }),
+ * where count is the works the search would find with that value.
+ * 
+ * SearchSort: 'relevance', 'title', 'price-asc', 'price-desc' or 'year'.
+ * See the bookstore-shared catalogSearch module.
+ *
+ * SearchSuggestions: what the search box suggests for the text typed so
+ * far: books (as BookSuggestion: isbn, title, authors, imageUrl), authors
+ * and categories, each best match first.
+ */
+export type { CatalogSearchResult, FacetValue, SearchSort, BookSuggestion, SearchSuggestions };
 
 /**
  * Form data structure for creating or updating a book.
  * 
  * This interface differs from Book in that:
  * - Authors are provided as a comma-separated string (for form input)
- * - No imageUrl field (handled separately or auto-generated)
+ * - Categories are provided as slugs
+ * - imageUrl is set by the cover picker (uploaded with booksApi.uploadCover)
+ * - workId is left out to start a new work
+ * - Tags are provided as a comma-separated string, like authors
  * 
  * Used by BookManagement component for add/edit operations.
  * 
@@ -87,15 +114,25 @@ export interface Book {
  * 
  * @example
  * const formData: BookFormData = {
- *   isbn: '978-0-13-468599-1',
+ *   isbn: '9780134685991',
  *   title: 'The Great Gatsby',
+ *   format: 'paperback',
  *   authors: 'F. Scott Fitzgerald',  // Comma-separated string
- *   publisher: 'Scribner',
+ *   publisherId: '5',
  *   publicationYear: 1925,
  *   sellingPrice: 14.99,
- *   category: 'Art',
+ *   categories: ['art'],
  *   quantity: 25,
- *   threshold: 5
+ *   threshold: 5,
+ *   description: null,
+ *   pageCount: 180,
+ *   language: 'en',
+ *   edition: null,
+ *   heightMm: null,
+ *   widthMm: null,
+ *   thicknessMm: null,
+ *   weightGrams: 200,
+ *   tags: 'classic, jazz age'  // Comma-separated string
  * };
  */
 export interface BookFormData {
@@ -105,11 +142,17 @@ export interface BookFormData {
   /** Book title */
   title: string;
   
+  /** Edition format */
+  format: BookFormat;
+  
+  /** Work this book is another edition of; absent to start a new work */
+  workId?: string;
+  
   /** Authors as comma-separated string (converted to array on submit) */
   authors: string;
   
-  /** Publisher name */
-  publisher: string;
+  /** ID of the book's publisher (supplier for reorders) */
+  publisherId: string;
   
   /** Publication year */
   publicationYear: number;
@@ -117,12 +160,42 @@ export interface BookFormData {
   /** Selling price in USD */
   sellingPrice: number;
   
-  /** Book category */
-  category: BookCategory;
+  /** Slugs of the book's categories (at least one) */
+  categories: string[];
   
   /** Initial/current stock quantity */
   quantity: number;
   
   /** Minimum stock threshold for auto-reorder */
   threshold: number;
+  
+  /** Cover URL; absent for a book without a cover */
+  imageUrl?: string;
+
+  /** Blurb shown on the book page; null for none */
+  description: string | null;
+
+  /** Number of pages; null if unknown */
+  pageCount: number | null;
+
+  /** ISO 639 language code, e.g. 'en'; null if unknown */
+  language: string | null;
+
+  /** Edition statement, e.g. '2nd edition'; null for none */
+  edition: string | null;
+
+  /** Height in millimetres; null if unknown */
+  heightMm: number | null;
+
+  /** Width in millimetres; null if unknown */
+  widthMm: number | null;
+
+  /** Thickness in millimetres; null if unknown */
+  thicknessMm: number | null;
+
+  /** Shipping weight of one copy in grams; null if unknown */
+  weightGrams: number | null;
+
+  /** Tags as comma-separated string (converted to array on submit) */
+  tags: string;
 }
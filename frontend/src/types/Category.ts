@@ -0,0 +1,34 @@
+/**
+ * @fileoverview Category Type Definitions
+ * 
+ * This module defines TypeScript types for the category taxonomy.
+ * Categories form a tree (parentId); books belong to one or more of them.
+ * 
+ * @module types/Category
+ */
+
+import type { Category, BookCategory, CategoryCreateData, CategoryUpdateData } from 'bookstore-shared';
+
+/**
+ * Category, BookCategory, CategoryCreateData and CategoryUpdateData come
+ * from the shared contract (bookstore-shared, shared/src/categories.js).
+ * 
+ * Category: a node of the taxonomy
+ * (id, name, slug, parentId, color, sortOrder).
+ * 
+ * BookCategory: a category as listed on a book (id, name, slug, color).
+ * 
+ * CategoryCreateData / CategoryUpdateData: request bodies for adding and
+ * editing a category (only the name is required when adding).
+ * 
+ * @example
+ * const category: Category = {
+ *   id: '6',
+ *   name: 'Computer Science',
+ *   slug: 'computer-science',
+ *   parentId: '1',           // Under Science
+ *   color: '#0284c7',
+ *   sortOrder: 0
+ * };
+ */
+export type { Category, BookCategory, CategoryCreateData, CategoryUpdateData };
@@ -8,76 +8,28 @@
  * @module types/CustomerOrder
  */
 
-/**
- * Represents a single line item in a customer's order.
- * 
- * Contains book information and quantity with pre-calculated prices
- * for historical accuracy (prices may change after order is placed).
- * 
- * @interface CustomerOrderItem
- * 
- * @example
- * const item: CustomerOrderItem = {
- *   isbn: '978-0-13-468599-1',
- *   title: 'The Great Gatsby',
- *   quantity: 2,
- *   pricePerUnit: 14.99,
- *   totalPrice: 29.98
- * };
- */
-export interface CustomerOrderItem {
-  /** ISBN of the purchased book */
-  isbn: string;
-  
-  /** Book title at time of purchase (denormalized for history) */
-  title: string;
-  
-  /** Number of copies purchased */
-  quantity: number;
-  
-  /** Price per book at time of purchase (USD) */
-  pricePerUnit: number;
-  
-  /** Total price for this line item (quantity * pricePerUnit) */
-  totalPrice: number;
-}
+import type { CustomerOrder, CustomerOrderItem, CustomerOrderStatus } from 'bookstore-shared';
 
 /**
- * Represents a complete customer order/purchase.
+ * Customer order types come from the shared contract (bookstore-shared,
+ * shared/src/orders.js), matching the orders and order_items tables.
  * 
- * Contains all items purchased, total amount, and order status.
- * Used to display order history and track order fulfillment.
+ * CustomerOrderItem: a purchased book with the price per copy at the
+ * time of purchase (line total = price * quantity).
  * 
- * @interface CustomerOrder
+ * CustomerOrderStatus: 'pending' when placed, then 'shipped' and
+ * 'delivered', or 'cancelled'.
  * 
  * @example
  * const order: CustomerOrder = {
- *   id: 'order-001',
- *   customerId: 'user-001',
- *   orderDate: '2024-01-15T10:30:00Z',
+ *   id: 'ORD-1705314600000',
+ *   userId: '2',
  *   items: [
- *     { isbn: '...', title: '...', quantity: 2, pricePerUnit: 14.99, totalPrice: 29.98 }
+ *     { isbn: '9780134685991', title: 'The Great Gatsby', quantity: 2, price: 14.99 }
  *   ],
- *   totalAmount: 29.98,
- *   status: 'Completed'
+ *   totalPrice: 29.98,
+ *   status: 'pending',
+ *   createdAt: '2024-01-15T10:30:00.000Z'
  * };
  */
-export interface CustomerOrder {
-  /** Unique order identifier (UUID format) */
-  id: string;
-  
-  /** Reference to the customer who placed the order */
-  customerId: string; // Link order to a specific customer
-  
-  /** Date/time when order was placed (ISO 8601 format) */
-  orderDate: string;
-  
-  /** Array of all items in the order */
-  items: CustomerOrderItem[];
-  
-  /** Total order amount in USD (sum of all item totalPrices) */
-  totalAmount: number;
-  
-  /** Current order status */
-  status: 'Completed' | 'Processing' | 'Cancelled';
-}
+export type { CustomerOrder, CustomerOrderItem, CustomerOrderStatus };
@@ -8,62 +8,26 @@
  * @module types/Order
  */
 
-/**
- * Status enumeration for publisher orders.
- * 
- * Order lifecycle:
- * 1. Pending - Order created, awaiting confirmation
- * 2. Confirmed - Order confirmed by admin, stock will be added
- * 3. Cancelled - Order was cancelled (no stock change)
- * 
- * @example
- * const status: OrderStatus = 'Pending';
- */
-export type OrderStatus = 'Pending' | 'Confirmed' | 'Cancelled';
+import type { PublisherOrder, PublisherOrderStatus } from 'bookstore-shared';
 
 /**
- * Represents a stock replenishment order to a book publisher.
+ * PublisherOrder comes from the shared contract (bookstore-shared,
+ * shared/src/publisherOrders.js).
  * 
- * Publisher orders are used by admins to restock inventory.
+ * Publisher orders are used by admins and managers to restock inventory.
  * When confirmed, the ordered quantity is added to the book's stock.
  * Orders can be created manually or triggered automatically by the
  * database's low-stock threshold system.
  * 
- * @interface PublisherOrder
- * 
- * @example
- * const order: PublisherOrder = {
- *   id: 'ord-001',
- *   bookIsbn: '978-0-13-468599-1',
- *   bookTitle: 'The Great Gatsby',
- *   publisher: 'Penguin Books',
- *   quantity: 50,
- *   orderDate: '2024-01-15T10:30:00Z',
- *   status: 'Pending'
- * };
+ * Order lifecycle (OrderStatus):
+ * 1. Pending - Order created, awaiting confirmation
+ * 2. Confirmed - Order confirmed, stock will be added
+ * 3. Cancelled - Order was cancelled (no stock change)
  */
-export interface PublisherOrder {
-  /** Unique order identifier (UUID format) */
-  id: string;
-  
-  /** ISBN of the book being ordered */
-  bookIsbn: string;
-  
-  /** Book title (denormalized for display) */
-  bookTitle: string;
-  
-  /** Publisher's name */
-  publisher: string;
-  
-  /** Number of copies to order */
-  quantity: number;
-  
-  /** Date/time when order was placed (ISO 8601 format) */
-  orderDate: string;
-  
-  /** Current status of the order */
-  status: OrderStatus;
-}
+export type { PublisherOrder };
+
+/** Status of a publisher order: 'Pending' | 'Confirmed' | 'Cancelled' */
+export type OrderStatus = PublisherOrderStatus;
 
 /**
  * Form data for creating a new publisher order.
@@ -76,7 +40,7 @@ export interface PublisherOrder {
  * 
  * @example
  * const formData: PublisherOrderFormData = {
- *   bookIsbn: '978-0-13-468599-1',
+ *   bookIsbn: '9780134685991',
  *   quantity: 50
  * };
  */
@@ -0,0 +1,43 @@
+/**
+ * @fileoverview Price Type Definitions
+ * 
+ * This module defines TypeScript interfaces for books' price history and
+ * the price rules that schedule price changes.
+ * 
+ * @module types/Price
+ */
+
+import type {
+  PriceChange,
+  PriceChangeSource,
+  PriceRule,
+  PriceRuleStatus,
+  PriceRuleCreateData,
+  PriceRuleQuery
+} from 'bookstore-shared';
+
+/**
+ * Price types come from the shared contract (bookstore-shared,
+ * shared/src/prices.js).
+ * 
+ * PriceChange: one entry of a book's price history, with the price
+ * before it and what made the change (PriceChangeSource: 'created',
+ * 'manual', 'import' or 'schedule').
+ * 
+ * PriceRule: a price scheduled for a book from startsAt until endsAt
+ * (or for good, without an endsAt). Its PriceRuleStatus moves from
+ * 'scheduled' to 'active' to 'completed', or to 'cancelled'.
+ * 
+ * PriceRuleCreateData: fields sent to schedule a price; times are
+ * ISO 8601 strings with an offset. PriceRuleQuery: filters for listing rules.
+ * 
+ * @example
+ * const rule: PriceRuleCreateData = {
+ *   isbn: '9780134685991',
+ *   price: 19.99,
+ *   label: 'Black Friday',
+ *   startsAt: '2026-11-27T00:00:00.000Z',
+ *   endsAt: '2026-11-30T00:00:00.000Z'
+ * };
+ */
+export type { PriceChange, PriceChangeSource, PriceRule, PriceRuleStatus, PriceRuleCreateData, PriceRuleQuery };
@@ -7,32 +7,29 @@
  * @module types/Publisher
  */
 
+import type { Publisher, PublisherCreateData, PublisherUpdateData } from 'bookstore-shared';
+
 /**
- * Represents a book publisher in the system.
+ * Publisher, PublisherCreateData and PublisherUpdateData come from the
+ * shared contract (bookstore-shared, shared/src/publishers.js).
  * 
  * Publishers are business entities that supply books to the bookstore.
- * Used for displaying publisher information and placing stock orders.
+ * Each book links to its publisher by publisherId; stock reorders go to
+ * that publisher, for at least its minimum order.
  * 
- * @interface Publisher
+ * PublisherCreateData: fields sent to add a publisher (only the name is
+ * required). PublisherUpdateData: any subset of those fields.
  * 
  * @example
  * const publisher: Publisher = {
- *   id: 'pub-001',
+ *   id: '5',
  *   name: 'Penguin Random House',
+ *   email: 'orders@penguinrandomhouse.example.com',
  *   address: '1745 Broadway, New York, NY 10019',
- *   phone: '212-782-9000'
+ *   phone: '212-782-9000',
+ *   leadTimeDays: 7,   // Days from order to delivery
+ *   minimumOrder: 10,  // Fewest copies per order
+ *   bookCount: 3
  * };
  */
-export interface Publisher {
-  /** Unique publisher identifier (UUID format) */
-  id: string;
-  
-  /** Publisher's company/business name */
-  name: string;
-  
-  /** Publisher's business address */
-  address: string;
-  
-  /** Publisher's contact phone number */
-  phone: string;
-}
+export type { Publisher, PublisherCreateData, PublisherUpdateData };
@@ -7,31 +7,36 @@
  * @module types/User
  */
 
+import type {
+  User,
+  UserRole,
+  LoginCredentials,
+  RegisterData,
+  ProfileUpdateData
+} from 'bookstore-shared';
+
 /**
- * User role enumeration for role-based access control (RBAC).
+ * User types come from the shared contract (bookstore-shared,
+ * shared/src/users.js), the schemas the backend validates these requests with.
  * 
- * Roles determine:
- * - Navigation menu items displayed
- * - Pages/routes accessible
- * - API operations permitted
+ * UserRole: 'admin' | 'manager' | 'customer'. What each role may do is
+ * listed in utils/permissions.ts.
  * 
- * @example
- * const role: UserRole = 'admin';
- */
-export type UserRole = 'admin' | 'customer';
-
-/**
- * Represents a user account in the system.
+ * User: a profile as returned by the API (never includes the password).
+ * Phone and shipping address may be missing, e.g. for the seeded admin.
  * 
- * This interface defines the user profile data stored in the database
- * and used throughout the application for identity and authorization.
+ * LoginCredentials: username and password.
  * 
- * @interface User
+ * RegisterData: a new customer account; every field is required and the
+ * password must satisfy the policy in utils/passwordPolicy.
+ * 
+ * ProfileUpdateData: any subset of the profile fields, plus an optional
+ * new password (hashed by the API, never returned on the User).
  * 
  * @example
  * const user: User = {
- *   id: 'user-001',
- *   username: 'johndoe',
+ *   id: '2',
+ *   username: 'john_doe',
  *   email: 'john@example.com',
  *   firstName: 'John',
  *   lastName: 'Doe',
@@ -40,94 +45,7 @@ export type UserRole = 'admin' | 'customer';
  *   role: 'customer'
  * };
  */
-export interface User {
-  /** Unique user identifier (UUID format) */
-  id: string;
-  
-  /** Display username (used for login) */
-  username: string;
-  
-  /** User's email address */
-  email: string;
-  
-  /** User's first name */
-  firstName: string;
-  
-  /** User's last name */
-  lastName: string;
-  
-  /** Contact phone number */
-  phone: string;
-  
-  /** Default shipping address for orders */
-  shippingAddress: string;
-  
-  /** User role for access control */
-  role: UserRole;
-}
-
-/**
- * Credentials required for user authentication.
- * 
- * Used by the Login component to submit authentication requests.
- * 
- * @interface LoginCredentials
- * 
- * @example
- * const credentials: LoginCredentials = {
- *   username: 'johndoe',
- *   password: 'securePassword123'
- * };
- */
-export interface LoginCredentials {
-  /** User's username */
-  username: string;
-  
-  /** User's password (sent securely, not stored in plain text) */
-  password: string;
-}
-
-/**
- * Data required for new user registration.
- * 
- * Used by the Register component to create new user accounts.
- * All customers are registered with 'customer' role by default.
- * 
- * @interface RegisterData
- * 
- * @example
- * const registration: RegisterData = {
- *   username: 'newuser',
- *   password: 'SecurePass123!',
- *   email: 'newuser@example.com',
- *   firstName: 'Jane',
- *   lastName: 'Doe',
- *   phone: '555-5678',
- *   shippingAddress: '456 Oak Ave, City, State 67890'
- * };
- */
-export interface RegisterData {
-  /** Desired username (must be unique, used for login) */
-  username: string;
-  
-  /** Password (min 6 characters required) */
-  password: string;
-  
-  /** Email address (must be unique) */
-  email: string;
-  
-  /** User's first name */
-  firstName: string;
-  
-  /** User's last name */
-  lastName: string;
-  
-  /** Contact phone number */
-  phone: string;
-  
-  /** Shipping address for deliveries */
-  shippingAddress: string;
-}
+export type { User, UserRole, LoginCredentials, RegisterData, ProfileUpdateData };
 
 /**
  * Authentication state managed by AuthContext.
@@ -16,10 +16,16 @@
  * // etc.
  */
 
-/** Book-related types: Book, BookCategory, BookFormData */
+/** Book-related types: Book, BookFormat, ArchivedFilter, BookUpdateData, BookFormData, BookImportRow, BookImportReport, ImportExistingMode, CoverUpload, BookRecommendation, RecommendationReason, CatalogSearchResult, FacetValue, SearchSort, BookSuggestion, SearchSuggestions */
 export * from './Book';
 
-/** User-related types: User, UserRole, LoginCredentials, RegisterData, AuthState */
+/** Category types: Category, BookCategory, CategoryCreateData, CategoryUpdateData */
+export * from './Category';
+
+/** Author types: Author, BookAuthor, AuthorUpdateData, AuthorMergeData */
+export * from './Author';
+
+/** User-related types: User, UserRole, LoginCredentials, RegisterData, ProfileUpdateData, AuthState */
 export * from './User';
 
 /** Publisher order types: PublisherOrder, OrderStatus, PublisherOrderFormData */
@@ -31,8 +37,11 @@ export * from './Cart';
 /** Customer order types: CustomerOrder, CustomerOrderItem */
 export * from './CustomerOrder';
 
-/** Publisher types: Publisher */
+/** Publisher types: Publisher, PublisherCreateData, PublisherUpdateData */
 export * from './Publisher';
 
-/** Report types: SalesReport, BookSalesReport, TopCustomer, BookOrderCount */
+/** Report types: SalesReport, BookSalesReport, TopCustomer, BookOrderCount, PricePeriod, PricePeriodReport */
 export * from './Reports';
+
+/** Price types: PriceChange, PriceChangeSource, PriceRule, PriceRuleStatus, PriceRuleCreateData, PriceRuleQuery */
+export * from './Price';
@@ -0,0 +1,40 @@
+/**
+ * ============================================================================
+ * CATEGORY STYLES
+ * ============================================================================
+ * 
+ * Every category has a hex color (set by admins in Category Management).
+ * These helpers turn it into the badge and card styles used across the
+ * app, so a recolored category looks the same on every page.
+ * 
+ * @example
+ * <span className="badge" style={categoryBadgeStyle(category.color)}>
+ *   {category.name}
+ * </span>
+ * 
+ * @author Bookstore Development Team
+ * @version 1.0.0
+ * ============================================================================
+ */
+
+import type { CSSProperties } from 'react';
+
+/**
+ * Tinted badge: the color as text over a 15% opaque background
+ * 
+ * @param color - Category color ('#rrggbb')
+ * @returns Inline style for a badge
+ */
+export const categoryBadgeStyle = (color: string): CSSProperties => ({
+  backgroundColor: `${color}26`,
+  color
+});
+
+/**
+ * Diagonal gradient from the color to a darker shade, for category cards
+ * 
+ * @param color - Category color ('#rrggbb')
+ * @returns CSS background value
+ */
+export const categoryGradient = (color: string): string =>
+  `linear-gradient(135deg, ${color} 0%, color-mix(in srgb, ${color} 70%, #000) 100%)`;
@@ -0,0 +1,19 @@
+/**
+ * @fileoverview Utilities Barrel Export
+ * 
+ * Re-exports shared helper functions used across pages and services.
+ * 
+ * @module utils
+ * 
+ * @example
+ * import { checkPasswordPolicy, PASSWORD_REQUIREMENTS } from '../utils';
+ */
+
+/** Password strength rules: checkPasswordPolicy, MIN_PASSWORD_LENGTH, PASSWORD_REQUIREMENTS */
+export * from './passwordPolicy';
+
+/** Role permission map: PERMISSIONS, Permission, hasPermission, homePathFor, ROLE_LABELS */
+export * from './permissions';
+
+/** Category colors as badge and card styles: categoryBadgeStyle, categoryGradient */
+export * from './categoryStyle';
@@ -0,0 +1,32 @@
+/**
+ * ============================================================================
+ * PASSWORD POLICY
+ * ============================================================================
+ * 
+ * Strength rules for new passwords, used by the Register and Edit Profile
+ * forms. The rules themselves live in the shared package
+ * (shared/src/passwordPolicy.js), which the backend enforces too, so a
+ * password that passes here is also accepted by the server.
+ * 
+ * RULES:
+ * - At least MIN_PASSWORD_LENGTH (8) characters
+ * - At least one letter and one digit
+ * - Must not contain the username
+ * 
+ * @example
+ * const error = checkPasswordPolicy(formData.password, formData.username);
+ * if (error) setError(error);
+ * 
+ * @author Bookstore Development Team
+ * @version 1.0.0
+ * ============================================================================
+ */
+
+import { MIN_PASSWORD_LENGTH } from 'bookstore-shared/passwordPolicy';
+
+/** The rules: checkPasswordPolicy returns the first one a password breaks */
+export { MIN_PASSWORD_LENGTH, checkPasswordPolicy } from 'bookstore-shared/passwordPolicy';
+
+/** Short description of the rules, for form hints */
+export const PASSWORD_REQUIREMENTS =
+  `At least ${MIN_PASSWORD_LENGTH} characters, with a letter and a digit, not containing your username.`;
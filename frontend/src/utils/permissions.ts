@@ -0,0 +1,81 @@
+/**
+ * ============================================================================
+ * PERMISSIONS
+ * ============================================================================
+ *
+ * Central map of which roles may take which actions. Pages, routes and
+ * navigation links ask this map (through the usePermission hook) instead
+ * of comparing role names, so adding a role means editing one table.
+ *
+ * The keys and roles mirror the backend (backend/src/middleware/authorize.js),
+ * which enforces them on every request. Hiding an action here is only a
+ * convenience for the user; the server is what actually refuses it.
+ *
+ * ROLES:
+ * - admin: everything
+ * - manager: runs the store (books, publisher orders, reports) but cannot
+ *   delete books or manage users
+ * - customer: shops and manages their own account
+ *
+ * @example
+ * if (hasPermission(user, 'books:delete')) { ... }
+ *
+ * @author Bookstore Development Team
+ * @version 1.0.0
+ * ============================================================================
+ */
+
+import { User, UserRole } from '../types';
+
+/**
+ * Roles granted each permission
+ * 'staff:access' has no backend counterpart: it opens the staff area
+ * (dashboard and management pages) in the UI
+ */
+export const PERMISSIONS = {
+  'staff:access': ['admin', 'manager'],          // Dashboard and staff navigation
+  'books:write': ['admin', 'manager'],           // Add and edit books, adjust stock
+  'books:delete': ['admin'],                     // Delete books
+  'categories:write': ['admin'],                 // Manage the category taxonomy
+  'authors:write': ['admin'],                    // Edit authors and merge duplicates
+  'publishers:read': ['admin', 'manager'],       // List publishers
+  'publishers:write': ['admin'],                 // Add, edit and delete publishers
+  'publisherOrders:read': ['admin', 'manager'],  // View publisher orders
+  'publisherOrders:write': ['admin', 'manager'], // Place, confirm and cancel publisher orders
+  'reports:read': ['admin', 'manager'],          // Sales reports
+  'orders:readAll': ['admin', 'manager'],        // Any customer's orders
+  'orders:manage': ['admin'],                    // Change customer order status
+  'carts:manage': ['admin'],                     // Any customer's cart
+  'users:manage': ['admin']                      // Any user's profile, including role
+} satisfies Record<string, UserRole[]>;
+
+/** Name of an action in the permission map */
+export type Permission = keyof typeof PERMISSIONS;
+
+/** Display names for each role */
+export const ROLE_LABELS: Record<UserRole, string> = {
+  admin: 'Administrator',
+  manager: 'Manager',
+  customer: 'Customer'
+};
+
+/**
+ * Checks whether a user's role has a permission
+ *
+ * @param user - Current user, or null when logged out
+ * @param permission - Action to check
+ * @returns True if the user may take the action
+ */
+export const hasPermission = (user: User | null | undefined, permission: Permission): boolean =>
+  user ? (PERMISSIONS[permission] as UserRole[]).includes(user.role) : false;
+
+/**
+ * Returns the page a user lands on after login
+ * Staff go to the dashboard; everyone else returns to the given path
+ *
+ * @param user - Logged-in user
+ * @param fallback - Path for users without staff access
+ * @returns Path to navigate to
+ */
+export const homePathFor = (user: User | null | undefined, fallback = '/'): string =>
+  hasPermission(user, 'staff:access') ? '/admin/dashboard' : fallback;
@@ -1 +1,15 @@
 /// <reference types="vite/client" />
+
+/**
+ * Build-time environment variables read by the app (see .env.example)
+ */
+interface ImportMetaEnv {
+  /** API transport: 'mock' (default, in-memory) or 'http' (Express backend) */
+  readonly VITE_API_TRANSPORT?: string;
+  /** Base URL of the REST API for the 'http' transport (default: /api) */
+  readonly VITE_API_BASE_URL?: string;
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}
@@ -1,3 +1,4 @@
+/// <reference types="vitest/config" />
 import { defineConfig } from 'vite'
 import react from '@vitejs/plugin-react'
 
@@ -5,6 +6,19 @@ import react from '@vitejs/plugin-react'
 export default defineConfig({
   plugins: [react()],
   base: "/Book-Store-Store/",
+  // bookstore-shared is a linked CommonJS package (../shared). Vite only
+  // converts CommonJS inside node_modules unless told otherwise.
+  optimizeDeps: {
+    include: ['bookstore-shared/isbn', 'bookstore-shared/categoryTree', 'bookstore-shared/slug',
+      'bookstore-shared/catalogFile', 'bookstore-shared/onix', 'bookstore-shared/covers',
+      'bookstore-shared/editions', 'bookstore-shared/bookDetails', 'bookstore-shared/recommendations',
+      'bookstore-shared/catalogSearch', 'bookstore-shared/textSearch', 'bookstore-shared/passwordPolicy'],
+  },
+  build: {
+    commonjsOptions: {
+      include: [/[\\/]shared[\\/]/, /node_modules/],
+    },
+  },
   server: {
     proxy: {
       '/api': {
@@ -12,5 +26,13 @@ export default defineConfig({
         changeOrigin: true,
       }
     }
+  },
+  // npm test: the API contract suite runs against both transports; the
+  // http one talks to the backend, started on an in-memory database
+  test: {
+    environment: 'jsdom',
+    globalSetup: ['./src/services/apiContract.backend.js'],
+    testTimeout: 30000,
+    hookTimeout: 60000,
   }
 })
@@ -0,0 +1,15 @@
+/**
+ * @fileoverview Writes dist/openapi.json
+ *
+ * Usage: npm run build:openapi
+ */
+
+const fs = require('fs');
+const path = require('path');
+const { buildOpenApiDocument } = require('../src');
+
+const outFile = path.join(__dirname, '..', 'dist', 'openapi.json');
+
+fs.mkdirSync(path.dirname(outFile), { recursive: true });
+fs.writeFileSync(outFile, `${JSON.stringify(buildOpenApiDocument(), null, 2)}\n`);
+console.log(`Wrote ${path.relative(process.cwd(), outFile)}`);
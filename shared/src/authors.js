@@ -0,0 +1,67 @@
+/**
+ * @fileoverview Author Schemas
+ *
+ * The authors returned by /api/authors and the bodies that edit and merge
+ * them. Mirrors the authors table: a canonical name, the other spellings
+ * the author is published under (aliases) and a bio. Books link to
+ * authors through book_authors, in credit order.
+ *
+ * Books name their authors as plain strings when created or updated;
+ * a name that matches an author's name or one of its aliases (ignoring
+ * case) links that author, and any other name creates a new author.
+ *
+ * @module authors
+ */
+
+const { z, text, integer, id } = require('./common');
+
+/** An author */
+const authorSchema = z.object({
+  id: z.string(),
+  /** Canonical name, shown on books */
+  name: z.string(),
+  /** Other spellings of the name, e.g. ['Thomas Cormen'] */
+  aliases: z.array(z.string()),
+  bio: z.string().nullable(),
+  /** Number of books credited to the author */
+  bookCount: integer('Book count')
+});
+
+/** An author as credited on a book */
+const bookAuthorSchema = authorSchema.pick({ id: true, name: true });
+
+/**
+ * PUT /api/authors/:id - any subset of fields.
+ * Sending aliases replaces the list; an empty bio clears it.
+ */
+const authorUpdateSchema = z.strictObject({
+  name: text('Name', 255),
+  aliases: z.array(text('Alias', 255), { error: 'Aliases must be a list of names' })
+    .max(20, 'An author can have at most 20 aliases'),
+  bio: z.string({ error: 'Bio must be text' })
+    .trim()
+    .max(5000, 'Bio must be at most 5000 characters')
+    .nullable()
+    .transform(bio => bio || null)
+}).partial();
+
+/**
+ * POST /api/authors/:id/merge - moves the books of a duplicate author
+ * to this one and deletes the duplicate. Its name and aliases become
+ * aliases of this author.
+ */
+const authorMergeSchema = z.strictObject({
+  sourceId: id('Author to merge')
+});
+
+/** @typedef {z.infer<typeof authorSchema>} Author */
+/** @typedef {z.infer<typeof bookAuthorSchema>} BookAuthor */
+/** @typedef {z.input<typeof authorUpdateSchema>} AuthorUpdateData */
+/** @typedef {z.input<typeof authorMergeSchema>} AuthorMergeData */
+
+module.exports = {
+  authorSchema,
+  bookAuthorSchema,
+  authorUpdateSchema,
+  authorMergeSchema
+};
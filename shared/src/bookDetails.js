@@ -0,0 +1,153 @@
+/**
+ * @fileoverview Book Details
+ *
+ * Bibliographic details of a book beyond what the catalog needs to sell
+ * it - language, physical size and weight - and its tags: free-form
+ * labels such as 'space opera' or 'book club pick' that the catalog can be
+ * filtered by. These helpers put tags in their stored form and word the
+ * details for display.
+ *
+ * @module bookDetails
+ *
+ * @description
+ * Sizes are whole millimetres and weights whole grams, as publishers give
+ * them. Languages are ISO 639 codes ('en', 'fr', 'haw'), stored in lower
+ * case. Tags are stored normalized (see normalizeTag), so 'Space  Opera'
+ * and 'space opera' are the same tag.
+ */
+
+const { PHYSICAL_FORMATS } = require('./editions');
+
+/** Most tags one book can have */
+const MAX_TAGS = 20;
+
+/** Longest tag, in characters (book_tags.tag) */
+const MAX_TAG_LENGTH = 40;
+
+/** Separates tags typed as one line of text */
+const TAG_SEPARATOR = ',';
+
+/**
+ * @typedef {Object} Dimensions
+ * @property {number|null} heightMm
+ * @property {number|null} widthMm
+ * @property {number|null} thicknessMm
+ */
+
+// ============================================
+// TAGS
+// ============================================
+
+/**
+ * Puts a tag in its stored form: trimmed, with runs of whitespace made
+ * one space, in lower case.
+ *
+ * @param {string} tag - Tag as typed
+ * @returns {string} Stored form ('' if the tag is blank)
+ *
+ * @example
+ * normalizeTag('  Space   Opera '); // 'space opera'
+ */
+function normalizeTag(tag) {
+  return tag.trim().replace(/\s+/g, ' ').toLowerCase();
+}
+
+/**
+ * Reads tags typed as a comma-separated list, e.g. in a form field or a
+ * catalog file.
+ *
+ * @param {string} text - Tags, e.g. 'Classic, book club pick'
+ * @returns {string[]} Stored forms, in the order typed, without blanks or
+ *   repeats
+ */
+function parseTags(text) {
+  const tags = text.split(TAG_SEPARATOR).map(normalizeTag).filter(Boolean);
+  return [...new Set(tags)];
+}
+
+/**
+ * Writes tags as the text parseTags() reads.
+ *
+ * @param {string[]} tags - Tags
+ * @returns {string} Tags separated by commas
+ */
+function formatTags(tags) {
+  return tags.join(`${TAG_SEPARATOR} `);
+}
+
+// ============================================
+// DISPLAY
+// ============================================
+
+/**
+ * English name of a language code.
+ *
+ * @param {string} code - ISO 639 code, e.g. 'en'
+ * @returns {string} Name, e.g. 'English' (the code in capitals if the
+ *   runtime does not know it)
+ */
+function languageName(code) {
+  try {
+    const name = new Intl.DisplayNames(['en'], { type: 'language' }).of(code);
+    return name && name !== code ? name : code.toUpperCase();
+  } catch {
+    return code.toUpperCase();
+  }
+}
+
+/**
+ * A book's size, height first, e.g. '229 × 152 × 25 mm'. Thickness is
+ * left out when it is not known.
+ *
+ * @param {Dimensions} book - Book with its sizes
+ * @returns {string|null} Size, or null without both height and width
+ */
+function formatDimensions({ heightMm, widthMm, thicknessMm }) {
+  if (!heightMm || !widthMm) return null;
+  return `${[heightMm, widthMm, thicknessMm].filter(Boolean).join(' × ')} mm`;
+}
+
+/**
+ * A weight in grams, or in kilograms from 1 kg, e.g. '450 g', '1.25 kg'.
+ *
+ * @param {number} grams - Weight
+ * @returns {string} Weight for display
+ */
+function formatWeight(grams) {
+  return grams < 1000 ? `${grams} g` : `${Number((grams / 1000).toFixed(2))} kg`;
+}
+
+/**
+ * Shipping weight of a list of items, for the cart and checkout. Ebooks
+ * and audiobooks are not shipped and add nothing; printed books whose
+ * weight is not on file make the total incomplete.
+ *
+ * @param {Array<{ quantity: number, book: { format: string, weightGrams: number|null } }>} items - Cart items
+ * @returns {{ grams: number, complete: boolean }} Total weight, and
+ *   whether every printed book had one
+ */
+function shippingWeight(items) {
+  let grams = 0;
+  let complete = true;
+  for (const { quantity, book } of items) {
+    if (!PHYSICAL_FORMATS.includes(book.format)) continue;
+    if (book.weightGrams === null) {
+      complete = false;
+    } else {
+      grams += book.weightGrams * quantity;
+    }
+  }
+  return { grams, complete };
+}
+
+module.exports = {
+  MAX_TAGS,
+  MAX_TAG_LENGTH,
+  normalizeTag,
+  parseTags,
+  formatTags,
+  languageName,
+  formatDimensions,
+  formatWeight,
+  shippingWeight
+};
@@ -0,0 +1,440 @@
+/**
+ * @fileoverview Book Schemas
+ *
+ * The book record returned by /api/books and the request bodies that
+ * create, update and search books. Mirrors the books table, plus the
+ * book's authors (book_authors) and categories (book_categories).
+ * Books name their publisher by ID (publisherId); responses also carry
+ * the publisher's name.
+ *
+ * Each book is one edition (format) of a work: the hardcover, paperback
+ * and ebook of a title are separate books, with their own ISBN, price and
+ * stock, sharing a workId (see the editions module).
+ *
+ * Bibliographic details (description, page count, language, edition,
+ * size and weight) are optional and null when unknown; tags are free-form
+ * labels in their stored form (see the bookDetails module).
+ *
+ * Books are archived rather than deleted once they have orders: an
+ * archived book (archivedAt set) is off sale and left out of searches
+ * unless asked for, but is still found by ISBN.
+ *
+ * Catalog import and export use the record shape of database/books.json,
+ * which names the publisher instead (bookImportRowSchema).
+ *
+ * Recommendations for a book or a cart are books with the reason they
+ * were picked (see the recommendations module).
+ *
+ * The storefront searches with GET /api/books/search, which pages through
+ * works and counts each filter's values (see the catalogSearch module),
+ * and suggests books, authors and categories as the shopper types with
+ * GET /api/books/suggest.
+ *
+ * @module books
+ */
+
+const { z, text, isbn, integer, price, queryInteger, oneOf, id } = require('./common');
+const { bookCategorySchema } = require('./categories');
+const { bookAuthorSchema } = require('./authors');
+const { BOOK_FORMATS, DEFAULT_BOOK_FORMAT } = require('./editions');
+const { MAX_TAGS, MAX_TAG_LENGTH, normalizeTag } = require('./bookDetails');
+const { RECOMMENDATION_REASONS, MAX_RECOMMENDATIONS } = require('./recommendations');
+const { SEARCH_SORTS, MAX_PAGE_SIZE, MAX_SUGGESTIONS, PRICE_BUCKET_VALUES } = require('./catalogSearch');
+
+/** Fields of a book, as stored and as sent by clients */
+const bookFields = {
+  isbn: isbn('ISBN'),
+  title: text('Title', 255),
+  format: oneOf('Format', BOOK_FORMATS),
+  publicationYear: integer('Publication year')
+    .min(1000, 'Publication year must have 4 digits')
+    .refine(year => year <= new Date().getFullYear() + 1, 'Publication year cannot be in the future'),
+  sellingPrice: price('Selling price'),
+  quantity: integer('Quantity').min(0, 'Quantity cannot be negative'),
+  threshold: integer('Threshold').min(0, 'Threshold cannot be negative'),
+  imageUrl: z.url({ error: 'Image URL must be a valid URL' }).optional()
+};
+
+/**
+ * A size or weight: whole millimetres or grams.
+ *
+ * @param {string} label - Field name shown to the user
+ * @param {number} max - Largest plausible value
+ * @returns {import('zod').ZodNumber} Schema
+ */
+const measure = (label, max) => integer(label)
+  .positive(`${label} must be greater than 0`)
+  .max(max, `${label} must be at most ${max}`);
+
+/**
+ * Bibliographic details, as sent by clients. Each may be left out or
+ * sent as null when it is not known.
+ */
+const bookDetailFields = {
+  description: text('Description', 5000).nullable(),
+  pageCount: integer('Page count')
+    .positive('Page count must be greater than 0')
+    .max(100000, 'Page count must be at most 100000')
+    .nullable(),
+  /** ISO 639 code, e.g. 'en'; stored in lower case */
+  language: z.string({ error: 'Language must be text' })
+    .trim()
+    .toLowerCase()
+    .regex(/^[a-z]{2,3}$/, 'Language must be a 2- or 3-letter ISO 639 code, e.g. en')
+    .nullable(),
+  /** e.g. '2nd edition', 'Revised' */
+  edition: text('Edition', 50).nullable(),
+  heightMm: measure('Height', 2000).nullable(),
+  widthMm: measure('Width', 2000).nullable(),
+  thicknessMm: measure('Thickness', 1000).nullable(),
+  /** Shipping weight of one copy */
+  weightGrams: measure('Weight', 50000).nullable(),
+  /** Free-form labels; stored normalized, repeats dropped */
+  tags: z.array(
+    text('Tag', MAX_TAG_LENGTH).overwrite(normalizeTag),
+    { error: 'Tags must be a list of words or phrases' }
+  )
+    .max(MAX_TAGS, `A book can have at most ${MAX_TAGS} tags`)
+    .overwrite(tags => [...new Set(tags)])
+};
+
+/** The details when creating or importing a book, where each may be left out */
+const optionalDetailFields = {
+  description: bookDetailFields.description.optional(),
+  pageCount: bookDetailFields.pageCount.optional(),
+  language: bookDetailFields.language.optional(),
+  edition: bookDetailFields.edition.optional(),
+  heightMm: bookDetailFields.heightMm.optional(),
+  widthMm: bookDetailFields.widthMm.optional(),
+  thicknessMm: bookDetailFields.thicknessMm.optional(),
+  weightGrams: bookDetailFields.weightGrams.optional(),
+  tags: bookDetailFields.tags.optional()
+};
+
+/** A book in the inventory, as returned by the API */
+const bookSchema = z.object({
+  ...bookFields,
+  description: z.string().nullable(),
+  pageCount: z.number().int().nullable(),
+  language: z.string().nullable(),
+  edition: z.string().nullable(),
+  heightMm: z.number().int().nullable(),
+  widthMm: z.number().int().nullable(),
+  thicknessMm: z.number().int().nullable(),
+  weightGrams: z.number().int().nullable(),
+  /** Tags in alphabetical order */
+  tags: z.array(z.string()),
+  /** Work the book is an edition of; shared by all its editions */
+  workId: z.string(),
+  /** Supplier the book is reordered from; null if it has none */
+  publisherId: z.string().nullable(),
+  /** Publisher name (denormalized for display) */
+  publisher: z.string().nullable(),
+  /** Authors in credit order */
+  authors: z.array(bookAuthorSchema),
+  /** Categories the book is listed under, in display order */
+  categories: z.array(bookCategorySchema),
+  /** When the book was taken off sale (ISO 8601); null while it is for sale */
+  archivedAt: z.string().nullable()
+});
+
+/**
+ * Clients name a book's authors, in credit order. Names are matched to
+ * existing authors by name or alias; unknown names become new authors.
+ */
+const authorNames = z.array(text('Author name', 255), { error: 'Authors must be a list of names' })
+  .min(1, 'At least one author is required');
+
+/** Clients name a book's categories by slug */
+const categorySlugs = z.array(text('Category', 60), { error: 'Categories must be a list of category slugs' })
+  .min(1, 'Choose at least one category');
+
+/** Fields of a book as sent by clients */
+const bookInputFields = {
+  ...bookFields,
+  publisherId: id('Publisher'),
+  authors: authorNames,
+  categories: categorySlugs
+};
+
+/**
+ * POST /api/books - every field except imageUrl, format, workId and the
+ * bibliographic details is required. Without a workId the book starts a
+ * new work; with one it is added as another edition of that work.
+ */
+const bookCreateSchema = z.strictObject({
+  ...bookInputFields,
+  ...optionalDetailFields,
+  format: bookInputFields.format.default(DEFAULT_BOOK_FORMAT),
+  workId: id('Work').optional()
+});
+
+/**
+ * PUT /api/books/:isbn - any subset of fields.
+ * The ISBN may be sent (forms send the whole book) but cannot change.
+ * Sending authors, categories or tags replaces the book's list; an
+ * imageUrl or detail of null removes it. A workId moves the book to
+ * another work.
+ */
+const bookUpdateSchema = z.strictObject({
+  ...bookInputFields,
+  ...bookDetailFields,
+  workId: id('Work'),
+  imageUrl: bookFields.imageUrl.unwrap().nullable()
+}).partial();
+
+/**
+ * Which books a search returns by archival: 'include' adds archived
+ * books to those for sale, 'only' returns just the archived ones.
+ * Without the filter only books for sale are returned.
+ */
+const ARCHIVED_FILTERS = /** @type {const} */ (['include', 'only']);
+
+/** GET /api/books query filters */
+const bookQuerySchema = z.object({
+  q: z.string().trim().optional(),
+  /** Category slug; books in its subcategories are included */
+  category: z.string().trim().optional(),
+  /** Matches author names and aliases (case-insensitive substring) */
+  author: z.string().trim().optional(),
+  /** Books credited to this author */
+  authorId: z.string().trim().optional(),
+  /** Matches publisher names (case-insensitive substring) */
+  publisher: z.string().trim().optional(),
+  /** Editions of this work */
+  workId: z.string().trim().optional(),
+  /** Books with this tag (matched in its stored form, see normalizeTag) */
+  tag: z.string().trim().optional(),
+  /** Archived books to return (see ARCHIVED_FILTERS) */
+  archived: oneOf('Archived', ARCHIVED_FILTERS).optional()
+});
+
+/**
+ * One book of a catalog import or export, shaped like the records of
+ * database/books.json: the publisher is given by name.
+ * Stock may be left out (publisher feeds such as ONIX do not carry ours):
+ * new books then start with no copies and a threshold of 5, and existing
+ * books keep their stock. New books without a format are paperbacks.
+ * Bibliographic details are optional too; an existing book keeps the
+ * details a row leaves out.
+ */
+const bookImportRowSchema = z.strictObject({
+  ...bookFields,
+  ...optionalDetailFields,
+  format: bookFields.format.optional(),
+  quantity: bookFields.quantity.optional(),
+  threshold: bookFields.threshold.optional(),
+  publisher: text('Publisher', 100),
+  authors: authorNames,
+  categories: categorySlugs
+}, { error: 'Each book must be an object' });
+
+/** Largest number of books accepted in one import */
+const MAX_IMPORT_ROWS = 10000;
+
+/** What an import does with books whose ISBN is already in the catalog */
+const IMPORT_EXISTING_MODES = /** @type {const} */ (['skip', 'upsert']);
+
+/**
+ * POST /api/books/import
+ *
+ * Rows are checked one by one against bookImportRowSchema, so each row's
+ * problems are reported with it instead of rejecting the whole request.
+ */
+const bookImportSchema = z.strictObject({
+  books: z.array(z.unknown(), { error: 'Books must be a list' })
+    .min(1, 'The import has no books')
+    .max(MAX_IMPORT_ROWS, `An import can have at most ${MAX_IMPORT_ROWS} books`),
+  /** 'skip' leaves existing books alone; 'upsert' overwrites them */
+  existing: oneOf('Existing books', IMPORT_EXISTING_MODES).default('skip'),
+  /** Check the rows and report what would happen, without saving */
+  dryRun: z.boolean({ error: 'dryRun must be true or false' }).default(true)
+});
+
+/** Outcome of one import row */
+const IMPORT_ACTIONS = /** @type {const} */ (['create', 'update', 'skip', 'invalid']);
+
+/** Result of POST /api/books/import */
+const bookImportReportSchema = z.object({
+  /** True if nothing was saved */
+  dryRun: z.boolean(),
+  existing: z.enum(IMPORT_EXISTING_MODES),
+  /** Number of rows per action */
+  summary: z.object({
+    create: z.number().int(),
+    update: z.number().int(),
+    skip: z.number().int(),
+    invalid: z.number().int()
+  }),
+  rows: z.array(z.object({
+    /** Position in the import, from 1 */
+    row: z.number().int(),
+    /** The row's ISBN in stored form, or as given if it is invalid */
+    isbn: z.string().nullable(),
+    title: z.string().nullable(),
+    action: z.enum(IMPORT_ACTIONS),
+    /** Why the row is invalid (empty otherwise) */
+    errors: z.array(z.object({ field: z.string(), message: z.string() }))
+  }))
+});
+
+/**
+ * Result of POST /api/books/covers: the URLs of the stored sizes (see the
+ * covers module). imageUrl is the one to save on the book.
+ */
+const coverUploadSchema = z.object({
+  imageUrl: z.url(),
+  sizes: z.object({
+    thumbnail: z.url(),
+    detail: z.url()
+  })
+});
+
+/** A book recommended for a book or a cart */
+const bookRecommendationSchema = z.object({
+  book: bookSchema,
+  reason: z.enum(RECOMMENDATION_REASONS),
+  /**
+   * Orders with both books ('bought-together'), or authors or categories
+   * in common with the books asked about
+   */
+  score: z.number().int()
+});
+
+/**
+ * GET /api/books/:isbn/recommendations and
+ * /api/cart/:userId/recommendations query. Without a limit,
+ * DEFAULT_RECOMMENDATIONS are returned.
+ */
+const recommendationQuerySchema = z.object({
+  limit: queryInteger('Limit', 1, MAX_RECOMMENDATIONS).optional()
+});
+
+/**
+ * GET /api/books/search query. Every filter is optional; without a page
+ * the first one is returned, of DEFAULT_PAGE_SIZE works.
+ */
+const catalogSearchQuerySchema = z.object({
+  /**
+   * A complete ISBN finds that book; otherwise words matched in titles,
+   * authors and publishers (see the textSearch module), or ISBN digits
+   */
+  q: z.string().trim().optional(),
+  /** Category slug; books in its subcategories are included */
+  category: z.string().trim().optional(),
+  authorId: z.string().trim().optional(),
+  publisherId: z.string().trim().optional(),
+  /** First year of a decade of publication, e.g. '1990' */
+  decade: z.string().trim().regex(/^\d{1,3}0$/, 'Decade must be a year ending in 0, e.g. 1990').optional(),
+  /** A price bucket (see PRICE_BUCKETS) */
+  price: oneOf('Price', PRICE_BUCKET_VALUES).optional(),
+  /** 'true' for works with an edition in stock */
+  inStock: oneOf('In stock', ['true']).optional(),
+  /** Books with this tag (matched in its stored form, see normalizeTag) */
+  tag: z.string().trim().optional(),
+  /** 'relevance' when left out */
+  sort: oneOf('Sort', SEARCH_SORTS).optional(),
+  /** Page number, from 1 */
+  page: queryInteger('Page', 1, 10000).optional(),
+  /** Works per page */
+  pageSize: queryInteger('Page size', 1, MAX_PAGE_SIZE).optional()
+});
+
+/** One value of a facet: what to filter by, and the works that would be found */
+const facetValueSchema = z.object({
+  /** Value of the facet's query parameter, e.g. a category slug */
+  value: z.string(),
+  label: z.string(),
+  count: z.number().int()
+});
+
+/** Result of GET /api/books/search */
+const catalogSearchResultSchema = z.object({
+  /** Matching editions of the page's works, grouped by work in result order */
+  books: z.array(bookSchema),
+  /** Works matching the search, on all pages */
+  total: z.number().int(),
+  page: z.number().int(),
+  pageSize: z.number().int(),
+  /**
+   * Values of each filter with their counts (see SEARCH_FACETS).
+   * Categories and price buckets are listed in display order, authors and
+   * publishers by name, decades newest first, tags alphabetically.
+   */
+  facets: z.object({
+    category: z.array(facetValueSchema),
+    authorId: z.array(facetValueSchema),
+    publisherId: z.array(facetValueSchema),
+    decade: z.array(facetValueSchema),
+    price: z.array(facetValueSchema),
+    inStock: z.array(facetValueSchema),
+    tag: z.array(facetValueSchema)
+  })
+});
+
+/**
+ * GET /api/books/suggest query. Without a limit, DEFAULT_SUGGESTIONS of
+ * each kind are returned.
+ */
+const suggestQuerySchema = z.object({
+  /** Text typed so far; matched like the q of a catalog search */
+  q: text('Search text', 200),
+  limit: queryInteger('Limit', 1, MAX_SUGGESTIONS).optional()
+});
+
+/** A suggested book: just what a typeahead shows */
+const bookSuggestionSchema = bookSchema.pick({ isbn: true, title: true, authors: true, imageUrl: true });
+
+/** Result of GET /api/books/suggest; each list best match first */
+const searchSuggestionsSchema = z.object({
+  /** Books for sale, one edition per work */
+  books: z.array(bookSuggestionSchema),
+  /** Authors whose name or an alias contains the text, with books for sale */
+  authors: z.array(bookAuthorSchema),
+  /** Categories whose name contains the text, in display order */
+  categories: z.array(bookCategorySchema)
+});
+
+/** @typedef {z.infer<typeof bookSchema>} Book */
+/** @typedef {z.input<typeof bookCreateSchema>} BookCreateData */
+/** @typedef {z.input<typeof bookUpdateSchema>} BookUpdateData */
+/** @typedef {z.input<typeof bookQuerySchema>} BookQuery */
+/** @typedef {typeof ARCHIVED_FILTERS[number]} ArchivedFilter */
+/** @typedef {z.input<typeof bookImportRowSchema>} BookImportRow */
+/** @typedef {z.input<typeof bookImportSchema>} BookImportRequest */
+/** @typedef {z.infer<typeof bookImportReportSchema>} BookImportReport */
+/** @typedef {BookImportReport['existing']} ImportExistingMode */
+/** @typedef {z.infer<typeof coverUploadSchema>} CoverUpload */
+/** @typedef {z.infer<typeof bookRecommendationSchema>} BookRecommendation */
+/** @typedef {BookRecommendation['reason']} RecommendationReason */
+/** @typedef {z.input<typeof recommendationQuerySchema>} RecommendationQuery */
+/** @typedef {z.input<typeof catalogSearchQuerySchema>} CatalogSearchQuery */
+/** @typedef {z.infer<typeof facetValueSchema>} FacetValue */
+/** @typedef {z.infer<typeof catalogSearchResultSchema>} CatalogSearchResult */
+/** @typedef {typeof SEARCH_SORTS[number]} SearchSort */
+/** @typedef {z.input<typeof suggestQuerySchema>} SuggestQuery */
+/** @typedef {z.infer<typeof bookSuggestionSchema>} BookSuggestion */
+/** @typedef {z.infer<typeof searchSuggestionsSchema>} SearchSuggestions */
+
+module.exports = {
+  bookSchema,
+  bookCreateSchema,
+  bookUpdateSchema,
+  bookQuerySchema,
+  ARCHIVED_FILTERS,
+  MAX_IMPORT_ROWS,
+  IMPORT_EXISTING_MODES,
+  IMPORT_ACTIONS,
+  bookImportRowSchema,
+  bookImportSchema,
+  bookImportReportSchema,
+  coverUploadSchema,
+  bookRecommendationSchema,
+  recommendationQuerySchema,
+  catalogSearchQuerySchema,
+  facetValueSchema,
+  catalogSearchResultSchema,
+  suggestQuerySchema,
+  bookSuggestionSchema,
+  searchSuggestionsSchema
+};
@@ -0,0 +1,65 @@
+/**
+ * @fileoverview Cart Schemas
+ *
+ * The shopping cart returned by /api/cart and the bodies that change it
+ * or check it out.
+ *
+ * @module cart
+ */
+
+const { z, isbn, integer } = require('./common');
+const { bookSchema } = require('./books');
+
+/** A book in a cart with the number of copies chosen */
+const cartItemSchema = z.object({
+  book: bookSchema,
+  quantity: z.number().int()
+});
+
+/** A user's cart with its totals */
+const cartSchema = z.object({
+  items: z.array(cartItemSchema),
+  /** Sum of the item quantities */
+  totalItems: z.number().int(),
+  /** Sum of selling price x quantity, in USD */
+  totalPrice: z.number()
+});
+
+/** POST /api/cart/:userId/items */
+const cartItemAddSchema = z.strictObject({
+  isbn: isbn('ISBN'),
+  quantity: integer('Quantity').positive('Quantity must be at least 1').default(1)
+});
+
+/** PUT /api/cart/:userId/items/:isbn - 0 removes the item */
+const cartItemUpdateSchema = z.strictObject({
+  quantity: integer('Quantity').min(0, 'Quantity cannot be negative')
+});
+
+/**
+ * POST /api/cart/:userId/checkout.
+ * Spaces and dashes in the card number are ignored.
+ */
+const checkoutSchema = z.strictObject({
+  creditCardNumber: z.string({ error: 'Card number is required' })
+    .transform(value => value.replace(/[\s-]/g, ''))
+    .pipe(z.string().regex(/^\d{13,19}$/, 'Card number must be 13 to 19 digits')),
+  expiryDate: z.string({ error: 'Expiry date is required' })
+    .trim()
+    .regex(/^(0[1-9]|1[0-2])\/\d{2}$/, 'Expiry date must be in MM/YY format'),
+  cvv: z.string({ error: 'CVV is required' })
+    .trim()
+    .regex(/^\d{3,4}$/, 'CVV must be 3 or 4 digits')
+});
+
+/** @typedef {z.infer<typeof cartItemSchema>} CartItem */
+/** @typedef {z.infer<typeof cartSchema>} Cart */
+/** @typedef {z.input<typeof checkoutSchema>} CheckoutData */
+
+module.exports = {
+  cartItemSchema,
+  cartSchema,
+  cartItemAddSchema,
+  cartItemUpdateSchema,
+  checkoutSchema
+};
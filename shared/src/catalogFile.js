@@ -0,0 +1,327 @@
+/**
+ * @fileoverview Catalog Files
+ *
+ * Reading and writing catalog files for bulk import and export. A catalog
+ * is a list of records shaped like database/books.json (see
+ * bookImportRowSchema), saved as JSON or as CSV.
+ *
+ * @module catalogFile
+ *
+ * @description
+ * CSV layout: a header row naming the columns (any order, matched without
+ * regard to case), then one book per row. Authors, categories and tags
+ * are lists separated by semicolons, e.g. "Alan Strahler; Arthur Strahler";
+ * a semicolon or backslash within an item is escaped with a backslash
+ * ("Smith\; Sons"). Fields with commas, quotes or line breaks are quoted,
+ * with quotes doubled (RFC 4180).
+ *
+ * Cells starting with =, +, - or @ are written with a leading apostrophe,
+ * so a spreadsheet opening the export shows them as text instead of
+ * running them as formulas. Reading drops the apostrophe again.
+ *
+ * Parsing only reshapes the file: numbers are read as numbers and lists
+ * are split, but nothing is validated, so the import can report each
+ * row's problems in one place.
+ */
+
+/** @typedef {import('./books').Book} Book */
+/** @typedef {import('./books').BookImportRow} BookImportRow */
+
+/** Columns of a catalog, in export order */
+const CATALOG_COLUMNS = /** @type {const} */ ([
+  'isbn',
+  'title',
+  'format',
+  'authors',
+  'publisher',
+  'publicationYear',
+  'sellingPrice',
+  'categories',
+  'quantity',
+  'threshold',
+  'imageUrl',
+  'description',
+  'pageCount',
+  'language',
+  'edition',
+  'heightMm',
+  'widthMm',
+  'thicknessMm',
+  'weightGrams',
+  'tags'
+]);
+
+/** Columns holding lists */
+const LIST_COLUMNS = ['authors', 'categories', 'tags'];
+
+/** Columns holding numbers */
+const NUMBER_COLUMNS = [
+  'publicationYear', 'sellingPrice', 'quantity', 'threshold',
+  'pageCount', 'heightMm', 'widthMm', 'thicknessMm', 'weightGrams'
+];
+
+/** Bibliographic details, exported when the book has them */
+const DETAIL_COLUMNS = /** @type {const} */ ([
+  'description', 'pageCount', 'language', 'edition', 'heightMm', 'widthMm', 'thicknessMm', 'weightGrams'
+]);
+
+/** Separates list items in a CSV cell */
+const LIST_SEPARATOR = ';';
+
+/** Escapes a list separator (or itself) within a list item */
+const LIST_ESCAPE = '\\';
+
+/** First characters that make spreadsheets read a cell as a formula */
+const FORMULA_START = /^[=+\-@]/;
+
+// ============================================
+// RECORDS
+// ============================================
+
+/**
+ * Converts a book returned by the API into a catalog record.
+ *
+ * @param {Book} book - Book from the API
+ * @returns {BookImportRow} Record with author names, the publisher name
+ *   and category slugs; details the book does not have are left out
+ */
+function toCatalogRecord(book) {
+  const details = Object.fromEntries(
+    DETAIL_COLUMNS.filter(column => book[column] !== null).map(column => [column, book[column]])
+  );
+  return {
+    isbn: book.isbn,
+    title: book.title,
+    format: book.format,
+    authors: book.authors.map(author => author.name),
+    publisher: book.publisher ?? '',
+    publicationYear: book.publicationYear,
+    sellingPrice: book.sellingPrice,
+    categories: book.categories.map(category => category.slug),
+    quantity: book.quantity,
+    threshold: book.threshold,
+    ...(book.imageUrl && { imageUrl: book.imageUrl }),
+    ...details,
+    ...(book.tags.length > 0 && { tags: book.tags })
+  };
+}
+
+/**
+ * Reads a JSON catalog: a list of records, as in database/books.json.
+ *
+ * @param {string} text - File contents
+ * @returns {unknown[]} Records, unchecked
+ * @throws {Error} If the text is not JSON or not a list
+ */
+function parseCatalogJson(text) {
+  let data;
+  try {
+    data = JSON.parse(text);
+  } catch (err) {
+    throw new Error(`The file is not valid JSON: ${err.message}`);
+  }
+  if (!Array.isArray(data)) {
+    throw new Error('The JSON file must contain a list of books');
+  }
+  return data;
+}
+
+// ============================================
+// CSV
+// ============================================
+
+/**
+ * Quotes a CSV field when it needs it, and keeps spreadsheets from
+ * reading it as a formula.
+ *
+ * @param {string} value - Field text
+ * @returns {string} Field as written to the file
+ *
+ * @example
+ * quoteField('=HYPERLINK("http://example.com")'); // '"\'=HYPERLINK(""http://example.com"")"'
+ */
+function quoteField(value) {
+  const text = FORMULA_START.test(value) ? `'${value}` : value;
+  return /[",\r\n]|^\s|\s$/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Writes a list as one cell's text, escaping separators within items.
+ *
+ * @param {unknown[]} items - List items
+ * @returns {string} Items separated by '; '
+ */
+function joinList(items) {
+  return items
+    .map(item => String(item).replace(/[\\;]/g, char => LIST_ESCAPE + char))
+    .join(`${LIST_SEPARATOR} `);
+}
+
+/**
+ * Splits one cell's text into list items, undoing joinList's escapes.
+ *
+ * @param {string} text - Cell text
+ * @returns {string[]} Trimmed items, without empty ones
+ */
+function splitList(text) {
+  const items = [];
+  let item = '';
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (char === LIST_ESCAPE && i + 1 < text.length) {
+      item += text[++i];
+    } else if (char === LIST_SEPARATOR) {
+      items.push(item);
+      item = '';
+    } else {
+      item += char;
+    }
+  }
+  items.push(item);
+  return items.map(entry => entry.trim()).filter(Boolean);
+}
+
+/**
+ * Writes catalog records as CSV, with a header row.
+ *
+ * @param {BookImportRow[]} records - Records to write
+ * @returns {string} CSV text (CRLF line endings)
+ *
+ * @example
+ * toCatalogCsv([toCatalogRecord(book)]);
+ * // 'isbn,title,authors,...\r\n9780073523323,Physical Geography,Alan Strahler; Arthur Strahler,...'
+ */
+function toCatalogCsv(records) {
+  const lines = [CATALOG_COLUMNS.join(',')];
+  for (const record of records) {
+    lines.push(CATALOG_COLUMNS.map(column => {
+      const value = /** @type {Record<string, unknown>} */ (record)[column];
+      if (value === undefined || value === null) return '';
+      return quoteField(Array.isArray(value) ? joinList(value) : String(value));
+    }).join(','));
+  }
+  return lines.join('\r\n');
+}
+
+/**
+ * Splits CSV text into rows of fields.
+ *
+ * @param {string} text - CSV text
+ * @returns {Array<{ line: number, fields: string[] }>} Rows with the line
+ *   each starts on (blank lines are skipped)
+ * @throws {Error} If a quoted field is not closed
+ */
+function splitCsv(text) {
+  const rows = [];
+  let fields = [];
+  let field = '';
+  let quoted = false;
+  let line = 1;
+  let rowLine = 1;
+
+  const endRow = () => {
+    fields.push(field);
+    if (fields.length > 1 || fields[0].trim() !== '') rows.push({ line: rowLine, fields });
+    fields = [];
+    field = '';
+  };
+
+  // A byte order mark is not part of the first header
+  const source = text.replace(/^\uFEFF/, '');
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i];
+    if (quoted) {
+      if (char === '"' && source[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        if (char === '\n') line++;
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      fields.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && source[i + 1] === '\n') i++;
+      endRow();
+      line++;
+      rowLine = line;
+    } else {
+      field += char;
+    }
+  }
+  if (quoted) {
+    throw new Error(`Line ${rowLine}: a quoted field is not closed`);
+  }
+  if (field !== '' || fields.length > 0) endRow();
+  return rows;
+}
+
+/**
+ * Converts a CSV cell to its record value.
+ *
+ * @param {string} column - Column name
+ * @param {string} cell - Cell text
+ * @returns {unknown} Value, or undefined for an empty cell
+ */
+function toValue(column, cell) {
+  const trimmed = cell.trim();
+  // The apostrophe quoteField puts before a would-be formula
+  const text = trimmed.startsWith("'") && FORMULA_START.test(trimmed.slice(1)) ? trimmed.slice(1) : trimmed;
+  if (text === '') return undefined;
+  if (LIST_COLUMNS.includes(column)) {
+    return splitList(text);
+  }
+  // Anything that is not a plain number stays text, so the import reports it
+  if (NUMBER_COLUMNS.includes(column) && /^-?\d+(\.\d+)?$/.test(text)) {
+    return Number(text);
+  }
+  return text;
+}
+
+/**
+ * Reads a CSV catalog.
+ *
+ * @param {string} text - File contents
+ * @returns {unknown[]} One record per data row, unchecked; empty cells are
+ *   left out
+ * @throws {Error} If the file has no header, a row has more fields than
+ *   the header, or a quoted field is not closed
+ */
+function parseCatalogCsv(text) {
+  const [header, ...rows] = splitCsv(text);
+  if (!header) {
+    throw new Error('The CSV file is empty');
+  }
+
+  // Known columns are matched without regard to case; others are kept as
+  // written so the import can report them
+  const columns = header.fields.map(name => {
+    const trimmed = name.trim();
+    return CATALOG_COLUMNS.find(column => column.toLowerCase() === trimmed.toLowerCase()) ?? trimmed;
+  });
+
+  return rows.map(({ line, fields }) => {
+    if (fields.length > columns.length) {
+      throw new Error(`Line ${line}: ${fields.length} fields, but the header has ${columns.length}`);
+    }
+    const record = {};
+    fields.forEach((cell, i) => {
+      const value = toValue(columns[i], cell);
+      if (value !== undefined) record[columns[i]] = value;
+    });
+    return record;
+  });
+}
+
+module.exports = {
+  CATALOG_COLUMNS,
+  toCatalogRecord,
+  parseCatalogJson,
+  toCatalogCsv,
+  parseCatalogCsv
+};
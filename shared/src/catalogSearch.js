@@ -0,0 +1,124 @@
+/**
+ * @fileoverview Catalog Search
+ *
+ * The storefront's search: a page of works matching the shopper's
+ * filters, with facet counts telling how many works each other choice of
+ * filter would find, e.g. "History (12)".
+ *
+ * @module catalogSearch
+ *
+ * @description
+ * Results and counts are of works, not editions: a work matches when any
+ * of its editions for sale does, and each page returns the matching
+ * editions of its works. Archived books are never found.
+ *
+ * Facets are counted the way shoppers expect a sidebar to behave: each
+ * facet counts with every filter applied except its own, so choosing a
+ * category still shows what the other categories hold. Values that would
+ * find nothing are listed with a count of 0.
+ *
+ * Works are sorted by their best edition for the sort: the cheapest one
+ * for 'price-asc', the dearest for 'price-desc', the newest for 'year'
+ * and the most relevant to the search text for 'relevance' (the default;
+ * see the textSearch module). Without search text, 'relevance' sorts by
+ * title.
+ *
+ * Suggestions (GET /api/books/suggest) are the typeahead under the search
+ * box: a few books, authors and categories matching what has been typed
+ * so far, each list capped at the requested limit.
+ */
+
+/** Facets of a search result, named after the query parameter each one fills */
+const SEARCH_FACETS = /** @type {const} */ (['category', 'authorId', 'publisherId', 'decade', 'price', 'inStock', 'tag']);
+
+/** Orders a search can return works in */
+const SEARCH_SORTS = /** @type {const} */ (['relevance', 'title', 'price-asc', 'price-desc', 'year']);
+
+/** Works per page when no page size is asked for */
+const DEFAULT_PAGE_SIZE = 12;
+
+/** Largest page size one request can ask for */
+const MAX_PAGE_SIZE = 60;
+
+/** Shortest search text worth suggesting for */
+const MIN_SUGGEST_LENGTH = 2;
+
+/** Suggestions of each kind when no limit is asked for */
+const DEFAULT_SUGGESTIONS = 5;
+
+/** Most suggestions of each kind one request can ask for */
+const MAX_SUGGESTIONS = 10;
+
+/**
+ * @typedef {Object} PriceBucket
+ * @property {string} value - Value of the price filter, e.g. '10-25'
+ * @property {string} label - Wording for display, e.g. '$10 to $25'
+ * @property {number} min - Lowest price in the bucket (inclusive)
+ * @property {number|null} max - Price the next bucket starts at (exclusive);
+ *   null for the last bucket
+ */
+
+/**
+ * Price ranges of the price facet, cheapest first. Every price falls in
+ * exactly one.
+ *
+ * @type {PriceBucket[]}
+ */
+const PRICE_BUCKETS = [
+  { value: '0-10', label: 'Under $10', min: 0, max: 10 },
+  { value: '10-25', label: '$10 to $25', min: 10, max: 25 },
+  { value: '25-50', label: '$25 to $50', min: 25, max: 50 },
+  { value: '50-100', label: '$50 to $100', min: 50, max: 100 },
+  { value: '100-up', label: '$100 and over', min: 100, max: null }
+];
+
+/** Values of the price filter, in bucket order */
+const PRICE_BUCKET_VALUES = /** @type {[string, ...string[]]} */ (PRICE_BUCKETS.map(bucket => bucket.value));
+
+/**
+ * The price bucket a price falls in.
+ *
+ * @param {number} price - Selling price
+ * @returns {PriceBucket} Bucket
+ *
+ * @example
+ * priceBucketOf(24.99).value; // '10-25'
+ */
+function priceBucketOf(price) {
+  return PRICE_BUCKETS.find(bucket => bucket.max === null || price < bucket.max) ?? PRICE_BUCKETS[0];
+}
+
+/**
+ * The decade a year falls in, as the decade filter takes it.
+ *
+ * @param {number} year - Publication year
+ * @returns {string} First year of the decade, e.g. '1990'
+ */
+function decadeOf(year) {
+  return String(Math.floor(year / 10) * 10);
+}
+
+/**
+ * Wording of a decade for display.
+ *
+ * @param {string} decade - First year of the decade, e.g. '1990'
+ * @returns {string} e.g. '1990s'
+ */
+function decadeLabel(decade) {
+  return `${decade}s`;
+}
+
+module.exports = {
+  SEARCH_FACETS,
+  SEARCH_SORTS,
+  DEFAULT_PAGE_SIZE,
+  MAX_PAGE_SIZE,
+  MIN_SUGGEST_LENGTH,
+  DEFAULT_SUGGESTIONS,
+  MAX_SUGGESTIONS,
+  PRICE_BUCKETS,
+  PRICE_BUCKET_VALUES,
+  priceBucketOf,
+  decadeOf,
+  decadeLabel
+};
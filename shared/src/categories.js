@@ -0,0 +1,71 @@
+/**
+ * @fileoverview Category Schemas
+ *
+ * The category taxonomy returned by /api/categories and the bodies that
+ * create and update categories. Mirrors the categories table: a tree
+ * (parentId), with a URL slug, a display color and an order among
+ * siblings. Books link to categories through book_categories.
+ *
+ * @module categories
+ */
+
+const { z, text, integer, id } = require('./common');
+const { SLUG_PATTERN } = require('./slug');
+const { DEFAULT_CATEGORY_COLOR } = require('./categoryTree');
+
+/** A category of the taxonomy */
+const categorySchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  /** Lowercase URL name, e.g. 'popular-science' */
+  slug: z.string(),
+  /** Parent category, null for a top-level category */
+  parentId: z.string().nullable(),
+  /** Hex color, e.g. '#0ea5e9' */
+  color: z.string(),
+  /** Position among siblings (ascending) */
+  sortOrder: z.number().int()
+});
+
+/** A category as listed on a book */
+const bookCategorySchema = categorySchema.pick({ id: true, name: true, slug: true, color: true });
+
+/** Fields clients may set */
+const categoryFields = {
+  name: text('Name', 50),
+  slug: text('Slug', 60)
+    .regex(SLUG_PATTERN, 'Slug may contain only lowercase letters, digits and single hyphens'),
+  parentId: id('Parent category').nullable(),
+  color: text('Color', 7)
+    .regex(/^#[0-9a-fA-F]{6}$/, 'Color must be a hex color such as #0ea5e9')
+    .toLowerCase(),
+  sortOrder: integer('Sort order').min(0, 'Sort order cannot be negative')
+};
+
+/**
+ * POST /api/categories.
+ * Only the name is required: the slug is derived from it, and new
+ * categories are top-level, slate colored and sorted first.
+ */
+const categoryCreateSchema = z.strictObject({
+  name: categoryFields.name,
+  slug: categoryFields.slug.optional(),
+  parentId: categoryFields.parentId.default(null),
+  color: categoryFields.color.default(DEFAULT_CATEGORY_COLOR),
+  sortOrder: categoryFields.sortOrder.default(0)
+});
+
+/** PUT /api/categories/:id - any subset of fields */
+const categoryUpdateSchema = z.strictObject(categoryFields).partial();
+
+/** @typedef {z.infer<typeof categorySchema>} Category */
+/** @typedef {z.infer<typeof bookCategorySchema>} BookCategory */
+/** @typedef {z.input<typeof categoryCreateSchema>} CategoryCreateData */
+/** @typedef {z.input<typeof categoryUpdateSchema>} CategoryUpdateData */
+
+module.exports = {
+  categorySchema,
+  bookCategorySchema,
+  categoryCreateSchema,
+  categoryUpdateSchema
+};
@@ -0,0 +1,90 @@
+/**
+ * @fileoverview Category Tree Helpers
+ *
+ * Categories form a tree through parentId. The API returns them as a flat
+ * list; these helpers order that list for display and find the
+ * categories beneath a given one (browsing a category includes the books
+ * of all its subcategories).
+ *
+ * @module categoryTree
+ */
+
+/** Color of a category created without one (slate) */
+const DEFAULT_CATEGORY_COLOR = '#64748b';
+
+/**
+ * @typedef {Object} TreeNode
+ * @property {string} id
+ * @property {string|null} parentId
+ * @property {string} name
+ * @property {number} sortOrder
+ */
+
+/**
+ * Orders categories depth-first: each category is followed by its
+ * children, siblings by sortOrder and then name. A category whose parent
+ * is missing from the list is treated as top-level.
+ *
+ * @template {TreeNode} T
+ * @param {T[]} categories - Flat list
+ * @returns {Array<{ category: T, depth: number }>} Categories with their depth (0 = top-level)
+ *
+ * @example
+ * sortCategoryTree(categories).map(({ category, depth }) => '  '.repeat(depth) + category.name);
+ * // ['Science', '  Physics', '  Popular Science', 'Art', ...]
+ */
+function sortCategoryTree(categories) {
+  const ids = new Set(categories.map(category => category.id));
+  /** @type {Map<string|null, T[]>} */
+  const children = new Map();
+  for (const category of categories) {
+    const parent = category.parentId !== null && ids.has(category.parentId) ? category.parentId : null;
+    if (!children.has(parent)) children.set(parent, []);
+    /** @type {T[]} */ (children.get(parent)).push(category);
+  }
+
+  /** @type {Array<{ category: T, depth: number }>} */
+  const ordered = [];
+  /**
+   * @param {string|null} parent
+   * @param {number} depth
+   */
+  const visit = (parent, depth) => {
+    const siblings = [...(children.get(parent) || [])]
+      .sort((a, b) => a.sortOrder - b.sortOrder || a.name.localeCompare(b.name));
+    for (const category of siblings) {
+      ordered.push({ category, depth });
+      visit(category.id, depth + 1);
+    }
+  };
+  visit(null, 0);
+  return ordered;
+}
+
+/**
+ * IDs of a category and every category beneath it.
+ *
+ * @param {TreeNode[]} categories - Flat list
+ * @param {string} id - Category ID
+ * @returns {Set<string>} The ID itself plus all descendant IDs
+ */
+function descendantIds(categories, id) {
+  const found = new Set([id]);
+  let added = true;
+  while (added) {
+    added = false;
+    for (const category of categories) {
+      if (category.parentId !== null && found.has(category.parentId) && !found.has(category.id)) {
+        found.add(category.id);
+        added = true;
+      }
+    }
+  }
+  return found;
+}
+
+module.exports = {
+  DEFAULT_CATEGORY_COLOR,
+  sortCategoryTree,
+  descendantIds
+};
@@ -0,0 +1,127 @@
+/**
+ * @fileoverview Schema Building Blocks
+ *
+ * Field helpers used by every schema in this package, so the API words
+ * its validation messages the same way everywhere.
+ *
+ * @module common
+ */
+
+const { z } = require('zod');
+const { checkIsbn, normalizeIsbn } = require('./isbn');
+
+/**
+ * Message for a value of the wrong type, or a missing one.
+ *
+ * @param {string} label - Field name shown to the user
+ * @param {string} expected - Description of the expected type
+ * @returns {Function} zod error map
+ */
+const typeError = (label, expected) => issue =>
+  issue.input === undefined ? `${label} is required` : `${label} must be ${expected}`;
+
+/**
+ * A required, trimmed, non-empty string.
+ *
+ * @param {string} label - Field name shown to the user
+ * @param {number} max - Maximum length (the column's VARCHAR size)
+ * @returns {import('zod').ZodString} Schema
+ */
+const text = (label, max) => z.string({ error: typeError(label, 'text') })
+  .trim()
+  .min(1, `${label} is required`)
+  .max(max, `${label} must be at most ${max} characters`);
+
+/**
+ * An ISBN-10 or ISBN-13 in any form (hyphens and spaces optional). Valid
+ * values come out in the stored form, compact ISBN-13, e.g. '9780134685991';
+ * a wrong check digit is reported with the digit that was expected.
+ *
+ * @param {string} label - Field name shown to the user
+ * @returns {import('zod').ZodString} Schema
+ */
+const isbn = label => z.string({ error: typeError(label, 'text') })
+  .trim()
+  .min(1, { error: `${label} is required`, abort: true })
+  .refine(value => checkIsbn(value) === null, { error: issue => checkIsbn(String(issue.input)) })
+  .overwrite(value => normalizeIsbn(value) ?? value);
+
+/**
+ * A whole number.
+ *
+ * @param {string} label - Field name shown to the user
+ * @returns {import('zod').ZodNumber} Schema
+ */
+const integer = label => z.number({ error: typeError(label, 'a number') })
+  .int(`${label} must be a whole number`);
+
+/**
+ * Any number (e.g. a price).
+ *
+ * @param {string} label - Field name shown to the user
+ * @returns {import('zod').ZodNumber} Schema
+ */
+const number = label => z.number({ error: typeError(label, 'a number') });
+
+/**
+ * An amount of money: more than 0, in whole cents. The database keeps two
+ * decimal places, so a third is rejected instead of being rounded away.
+ *
+ * @param {string} label - Field name shown to the user
+ * @returns {import('zod').ZodNumber} Schema
+ */
+const price = label => number(label)
+  .positive(`${label} must be greater than 0`)
+  .max(99999999.99, `${label} is too large`)
+  .multipleOf(0.01, `${label} can have at most 2 decimal places`);
+
+/**
+ * A whole number sent in a query string, e.g. ?page=2. Query values are
+ * always text, so the digits are checked before the range.
+ *
+ * @param {string} label - Field name shown to the user
+ * @param {number} min - Smallest value allowed
+ * @param {number} max - Largest value allowed
+ * @returns {import('zod').ZodType<number, string>} Schema
+ */
+const queryInteger = (label, min, max) => z.string({ error: typeError(label, 'text') })
+  .trim()
+  .regex(/^\d+$/, `${label} must be a whole number`)
+  .transform(Number)
+  .pipe(z.number()
+    .min(min, `${label} must be at least ${min}`)
+    .max(max, `${label} must be at most ${max}`));
+
+/**
+ * One of a fixed list of values.
+ *
+ * @template {readonly [string, ...string[]]} T
+ * @param {string} label - Field name shown to the user
+ * @param {T} values - Allowed values
+ * @returns {import('zod').ZodEnum<{ [K in T[number]]: K }>} Schema
+ */
+const oneOf = (label, values) => z.enum(values, {
+  error: `${label} must be one of: ${values.join(', ')}`
+});
+
+/**
+ * A user ID, as a string (numeric IDs are accepted and converted).
+ *
+ * @param {string} label - Field name shown to the user
+ * @returns {import('zod').ZodType<string, string | number>} Schema
+ */
+const id = label => z.union([z.string().trim().min(1), z.number().int()], {
+  error: typeError(label, 'an ID')
+}).transform(String);
+
+module.exports = {
+  z,
+  text,
+  isbn,
+  integer,
+  number,
+  price,
+  queryInteger,
+  oneOf,
+  id
+};
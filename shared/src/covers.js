@@ -0,0 +1,130 @@
+/**
+ * @fileoverview Book Covers
+ *
+ * What a cover upload may be, where its sizes live, and the picture shown
+ * for books without a cover. Used by the upload endpoint
+ * (POST /api/books/covers), the cover picker and every page showing covers.
+ *
+ * @module covers
+ *
+ * @description
+ * An uploaded cover is stored once per entry of COVER_SIZES, as WebP, side
+ * by side: .../covers/<id>/thumbnail.webp and .../covers/<id>/detail.webp.
+ * A book's imageUrl is the detail size; coverUrl() finds the other sizes
+ * from it. Covers linked from elsewhere (e.g. a publisher's site) come in
+ * one size only and are used as they are.
+ */
+
+/** Image types accepted for upload */
+const COVER_TYPES = /** @type {const} */ (['image/jpeg', 'image/png', 'image/webp']);
+
+/** Largest accepted upload, in bytes (5 MB) */
+const MAX_COVER_BYTES = 5 * 1024 * 1024;
+
+/**
+ * Sizes generated from each upload (bounding boxes in pixels; covers keep
+ * their proportions and are never enlarged)
+ */
+const COVER_SIZES = /** @type {const} */ ({
+  /** Book cards, lists and the cart */
+  thumbnail: { width: 200, height: 300 },
+  /** Book pages and the stored imageUrl */
+  detail: { width: 600, height: 900 }
+});
+
+/** Matches the URL of one size of an uploaded cover */
+const UPLOADED_COVER = /\/covers\/[0-9a-f-]+\/(thumbnail|detail)\.webp$/;
+
+/** @typedef {keyof typeof COVER_SIZES} CoverSize */
+
+/**
+ * Checks a file chosen for upload before sending it.
+ *
+ * @param {{ type: string, size: number }} file - File (or Blob) to check
+ * @returns {string|null} Problem with the file, or null if it can be sent
+ *
+ * @example
+ * checkCoverFile({ type: 'image/gif', size: 1000 });  // 'Cover must be a JPEG, PNG or WebP image'
+ */
+function checkCoverFile({ type, size }) {
+  if (!COVER_TYPES.some(coverType => coverType === type)) {
+    return 'Cover must be a JPEG, PNG or WebP image';
+  }
+  if (size > MAX_COVER_BYTES) {
+    return `Cover must be at most ${MAX_COVER_BYTES / (1024 * 1024)} MB`;
+  }
+  return null;
+}
+
+/**
+ * Finds the URL of one size of a cover.
+ *
+ * @param {string|null|undefined} imageUrl - The book's imageUrl
+ * @param {CoverSize} size - Size wanted
+ * @returns {string|undefined} URL of that size for uploaded covers, the
+ *   URL unchanged for other covers, undefined without a cover
+ *
+ * @example
+ * coverUrl('http://localhost:5000/uploads/covers/3f2a.../detail.webp', 'thumbnail');
+ * // 'http://localhost:5000/uploads/covers/3f2a.../thumbnail.webp'
+ */
+function coverUrl(imageUrl, size) {
+  if (!imageUrl) return undefined;
+  return UPLOADED_COVER.test(imageUrl)
+    ? imageUrl.replace(/(thumbnail|detail)\.webp$/, `${size}.webp`)
+    : imageUrl;
+}
+
+/**
+ * Escapes text for an SVG document.
+ *
+ * @param {string} text - Text to escape
+ * @returns {string} Escaped text
+ */
+function escapeXml(text) {
+  return text.replace(/[&<>"]/g, char => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;' })[char]);
+}
+
+/**
+ * Draws the stand-in cover for a book without one: its title on a plain
+ * background, in cover proportions (2:3). Made locally, so pages do not
+ * depend on an image service.
+ *
+ * @param {string} title - Book title
+ * @returns {string} SVG image as a data: URL, usable as an img src
+ */
+function placeholderCover(title) {
+  // Up to four lines of about 16 characters, broken between words
+  const lines = [];
+  for (const word of title.trim().split(/\s+/)) {
+    const last = lines.length - 1;
+    if (last >= 0 && `${lines[last]} ${word}`.length <= 16) {
+      lines[last] += ` ${word}`;
+    } else {
+      lines.push(word.length > 16 ? `${word.slice(0, 15)}…` : word);
+    }
+  }
+  if (lines.length > 4) {
+    lines.length = 4;
+    lines[3] = `${lines[3].slice(0, 15)}…`;
+  }
+
+  const top = 150 - (lines.length - 1) * 14;
+  const text = lines
+    .map((line, i) => `<text x="100" y="${top + i * 28}" text-anchor="middle">${escapeXml(line)}</text>`)
+    .join('');
+  const svg = '<svg xmlns="http://www.w3.org/2000/svg" width="200" height="300" viewBox="0 0 200 300">' +
+    '<rect width="200" height="300" fill="#e0e7ff"/>' +
+    '<rect x="12" y="12" width="176" height="276" fill="none" stroke="#6366f1" stroke-width="2"/>' +
+    `<g fill="#3730a3" font-family="Georgia, serif" font-size="20">${text}</g></svg>`;
+  return `data:image/svg+xml,${encodeURIComponent(svg)}`;
+}
+
+module.exports = {
+  COVER_TYPES,
+  MAX_COVER_BYTES,
+  COVER_SIZES,
+  checkCoverFile,
+  coverUrl,
+  placeholderCover
+};
@@ -0,0 +1,75 @@
+/**
+ * @fileoverview Book Editions
+ *
+ * A work (a title by its authors) is sold in one or more editions: its
+ * hardcover, paperback, ebook or audiobook. Each edition is a book of its
+ * own, with its own ISBN, price and stock; editions of the same work share
+ * a workId. These helpers name the formats and gather a list of books
+ * into works for display.
+ *
+ * @module editions
+ */
+
+/** Kinds of edition a book can be, in display order */
+const BOOK_FORMATS = /** @type {const} */ (['hardcover', 'paperback', 'ebook', 'audiobook']);
+
+/**
+ * Formats shipped as printed copies, which have a size and a weight.
+ * Ebooks and audiobooks are delivered as downloads.
+ */
+const PHYSICAL_FORMATS = /** @type {const} */ (['hardcover', 'paperback']);
+
+/** Format of books created without one */
+const DEFAULT_BOOK_FORMAT = 'paperback';
+
+/** Display names of the formats */
+const FORMAT_LABELS = {
+  hardcover: 'Hardcover',
+  paperback: 'Paperback',
+  ebook: 'eBook',
+  audiobook: 'Audiobook'
+};
+
+/** @typedef {typeof BOOK_FORMATS[number]} BookFormat */
+
+/**
+ * @typedef {Object} Edition
+ * @property {string} workId
+ * @property {BookFormat} format
+ */
+
+/**
+ * Gathers books into works. Works come in the order their first edition
+ * appears in the list (so a list sorted by title stays sorted); each
+ * work's editions are in BOOK_FORMATS order.
+ *
+ * @template {Edition} T
+ * @param {T[]} books - Books, e.g. from GET /api/books
+ * @returns {T[][]} One list of editions per work
+ *
+ * @example
+ * groupEditions(books).map(editions => editions.map(book => book.format));
+ * // [['hardcover', 'paperback'], ['paperback'], ...]
+ */
+function groupEditions(books) {
+  /** @type {Map<string, T[]>} */
+  const works = new Map();
+  for (const book of books) {
+    const editions = works.get(book.workId);
+    if (editions) {
+      editions.push(book);
+    } else {
+      works.set(book.workId, [book]);
+    }
+  }
+  return [...works.values()].map(editions =>
+    editions.sort((a, b) => BOOK_FORMATS.indexOf(a.format) - BOOK_FORMATS.indexOf(b.format)));
+}
+
+module.exports = {
+  BOOK_FORMATS,
+  DEFAULT_BOOK_FORMAT,
+  PHYSICAL_FORMATS,
+  FORMAT_LABELS,
+  groupEditions
+};
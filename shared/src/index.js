@@ -0,0 +1,381 @@
+/**
+ * @fileoverview Bookstore Shared Contract
+ *
+ * Runtime schemas for every record and request body of the REST API,
+ * imported by both the backend and the frontend:
+ * - The backend validates requests with the request schemas and serves
+ *   the OpenAPI document built from all of them.
+ * - The frontend takes its API types from the TypeScript declarations
+ *   generated from these schemas (dist/index.d.ts), so a shape that
+ *   changes here fails the frontend type-check until it is updated.
+ *
+ * @module bookstore-shared
+ */
+
+const { MIN_PASSWORD_LENGTH, checkPasswordPolicy } = require('./passwordPolicy');
+const { checkIsbn, toIsbn13, normalizeIsbn, formatIsbn, matchesIsbn } = require('./isbn');
+const {
+  categorySchema,
+  bookCategorySchema,
+  categoryCreateSchema,
+  categoryUpdateSchema
+} = require('./categories');
+const { DEFAULT_CATEGORY_COLOR, sortCategoryTree, descendantIds } = require('./categoryTree');
+const { SLUG_PATTERN, slugify } = require('./slug');
+const {
+  authorSchema,
+  bookAuthorSchema,
+  authorUpdateSchema,
+  authorMergeSchema
+} = require('./authors');
+const {
+  bookSchema,
+  bookCreateSchema,
+  bookUpdateSchema,
+  bookQuerySchema,
+  ARCHIVED_FILTERS,
+  MAX_IMPORT_ROWS,
+  IMPORT_EXISTING_MODES,
+  IMPORT_ACTIONS,
+  bookImportRowSchema,
+  bookImportSchema,
+  bookImportReportSchema,
+  coverUploadSchema,
+  bookRecommendationSchema,
+  recommendationQuerySchema,
+  catalogSearchQuerySchema,
+  facetValueSchema,
+  catalogSearchResultSchema,
+  suggestQuerySchema,
+  bookSuggestionSchema,
+  searchSuggestionsSchema
+} = require('./books');
+const { BOOK_FORMATS, DEFAULT_BOOK_FORMAT, PHYSICAL_FORMATS, FORMAT_LABELS, groupEditions } = require('./editions');
+const {
+  MAX_TAGS,
+  MAX_TAG_LENGTH,
+  normalizeTag,
+  parseTags,
+  formatTags,
+  languageName,
+  formatDimensions,
+  formatWeight,
+  shippingWeight
+} = require('./bookDetails');
+const {
+  RECOMMENDATION_REASONS,
+  REASON_LABELS,
+  DEFAULT_RECOMMENDATIONS,
+  MAX_RECOMMENDATIONS,
+  coPurchasePairs
+} = require('./recommendations');
+const {
+  SEARCH_FACETS,
+  SEARCH_SORTS,
+  DEFAULT_PAGE_SIZE,
+  MAX_PAGE_SIZE,
+  MIN_SUGGEST_LENGTH,
+  DEFAULT_SUGGESTIONS,
+  MAX_SUGGESTIONS,
+  PRICE_BUCKETS,
+  PRICE_BUCKET_VALUES,
+  priceBucketOf,
+  decadeOf,
+  decadeLabel
+} = require('./catalogSearch');
+const {
+  FIELD_WEIGHTS,
+  FUZZY_SIMILARITY,
+  MIN_FUZZY_LENGTH,
+  STOP_WORDS,
+  tokenize,
+  stem,
+  trigramSimilarity,
+  createSearchIndex
+} = require('./textSearch');
+const {
+  CATALOG_COLUMNS,
+  toCatalogRecord,
+  parseCatalogJson,
+  toCatalogCsv,
+  parseCatalogCsv
+} = require('./catalogFile');
+const { PRODUCT_FORMS, CREDITED_ROLES, ROLE_NAMES, DEFAULT_SUBJECT_MAP, parseOnix, describeSubject } = require('./onix');
+const {
+  COVER_TYPES,
+  MAX_COVER_BYTES,
+  COVER_SIZES,
+  checkCoverFile,
+  coverUrl,
+  placeholderCover
+} = require('./covers');
+const {
+  ROLES,
+  userSchema,
+  sessionSchema,
+  loginSchema,
+  registerSchema,
+  refreshSchema,
+  profileUpdateSchema
+} = require('./users');
+const {
+  cartItemSchema,
+  cartSchema,
+  cartItemAddSchema,
+  cartItemUpdateSchema,
+  checkoutSchema
+} = require('./cart');
+const {
+  ORDER_STATUSES,
+  orderItemSchema,
+  customerOrderSchema,
+  orderCreateSchema,
+  orderStatusSchema
+} = require('./orders');
+const { publisherSchema, publisherCreateSchema, publisherUpdateSchema } = require('./publishers');
+const {
+  PUBLISHER_ORDER_STATUSES,
+  publisherOrderSchema,
+  publisherOrderCreateSchema
+} = require('./publisherOrders');
+const {
+  PRICE_CHANGE_SOURCES,
+  PRICE_RULE_STATUSES,
+  priceChangeSchema,
+  priceRuleSchema,
+  priceRuleCreateSchema,
+  priceRuleQuerySchema
+} = require('./prices');
+const {
+  salesReportSchema,
+  bookSalesReportSchema,
+  topCustomerSchema,
+  bookOrderCountSchema,
+  pricePeriodQuerySchema,
+  pricePeriodSchema,
+  pricePeriodReportSchema
+} = require('./reports');
+const { buildOpenApiDocument } = require('./openapi');
+
+/** @typedef {import('./categories').Category} Category */
+/** @typedef {import('./categories').BookCategory} BookCategory */
+/** @typedef {import('./categories').CategoryCreateData} CategoryCreateData */
+/** @typedef {import('./categories').CategoryUpdateData} CategoryUpdateData */
+/** @typedef {import('./authors').Author} Author */
+/** @typedef {import('./authors').BookAuthor} BookAuthor */
+/** @typedef {import('./authors').AuthorUpdateData} AuthorUpdateData */
+/** @typedef {import('./authors').AuthorMergeData} AuthorMergeData */
+/** @typedef {import('./books').Book} Book */
+/** @typedef {import('./editions').BookFormat} BookFormat */
+/** @typedef {import('./books').BookCreateData} BookCreateData */
+/** @typedef {import('./books').BookUpdateData} BookUpdateData */
+/** @typedef {import('./books').BookQuery} BookQuery */
+/** @typedef {import('./books').ArchivedFilter} ArchivedFilter */
+/** @typedef {import('./books').BookImportRow} BookImportRow */
+/** @typedef {import('./books').BookImportRequest} BookImportRequest */
+/** @typedef {import('./books').BookImportReport} BookImportReport */
+/** @typedef {import('./books').ImportExistingMode} ImportExistingMode */
+/** @typedef {import('./books').CoverUpload} CoverUpload */
+/** @typedef {import('./books').BookRecommendation} BookRecommendation */
+/** @typedef {import('./books').RecommendationReason} RecommendationReason */
+/** @typedef {import('./books').RecommendationQuery} RecommendationQuery */
+/** @typedef {import('./books').CatalogSearchQuery} CatalogSearchQuery */
+/** @typedef {import('./books').FacetValue} FacetValue */
+/** @typedef {import('./books').CatalogSearchResult} CatalogSearchResult */
+/** @typedef {import('./books').SearchSort} SearchSort */
+/** @typedef {import('./books').SuggestQuery} SuggestQuery */
+/** @typedef {import('./books').BookSuggestion} BookSuggestion */
+/** @typedef {import('./books').SearchSuggestions} SearchSuggestions */
+/** @typedef {import('./catalogSearch').PriceBucket} PriceBucket */
+/** @typedef {import('./textSearch').SearchFields} SearchFields */
+/** @typedef {import('./users').User} User */
+/** @typedef {import('./users').UserRole} UserRole */
+/** @typedef {import('./users').Session} Session */
+/** @typedef {import('./users').LoginCredentials} LoginCredentials */
+/** @typedef {import('./users').RegisterData} RegisterData */
+/** @typedef {import('./users').ProfileUpdateData} ProfileUpdateData */
+/** @typedef {import('./cart').CartItem} CartItem */
+/** @typedef {import('./cart').Cart} Cart */
+/** @typedef {import('./cart').CheckoutData} CheckoutData */
+/** @typedef {import('./orders').CustomerOrderItem} CustomerOrderItem */
+/** @typedef {import('./orders').CustomerOrder} CustomerOrder */
+/** @typedef {import('./orders').CustomerOrderStatus} CustomerOrderStatus */
+/** @typedef {import('./orders').OrderCreateData} OrderCreateData */
+/** @typedef {import('./publishers').Publisher} Publisher */
+/** @typedef {import('./publishers').PublisherCreateData} PublisherCreateData */
+/** @typedef {import('./publishers').PublisherUpdateData} PublisherUpdateData */
+/** @typedef {import('./publisherOrders').PublisherOrder} PublisherOrder */
+/** @typedef {import('./publisherOrders').PublisherOrderStatus} PublisherOrderStatus */
+/** @typedef {import('./publisherOrders').PublisherOrderCreateData} PublisherOrderCreateData */
+/** @typedef {import('./prices').PriceChangeSource} PriceChangeSource */
+/** @typedef {import('./prices').PriceRuleStatus} PriceRuleStatus */
+/** @typedef {import('./prices').PriceChange} PriceChange */
+/** @typedef {import('./prices').PriceRule} PriceRule */
+/** @typedef {import('./prices').PriceRuleCreateData} PriceRuleCreateData */
+/** @typedef {import('./prices').PriceRuleQuery} PriceRuleQuery */
+/** @typedef {import('./reports').SalesReport} SalesReport */
+/** @typedef {import('./reports').BookSalesReport} BookSalesReport */
+/** @typedef {import('./reports').TopCustomer} TopCustomer */
+/** @typedef {import('./reports').BookOrderCount} BookOrderCount */
+/** @typedef {import('./reports').PricePeriodQuery} PricePeriodQuery */
+/** @typedef {import('./reports').PricePeriod} PricePeriod */
+/** @typedef {import('./reports').PricePeriodReport} PricePeriodReport */
+
+module.exports = {
+  // Password policy
+  MIN_PASSWORD_LENGTH,
+  checkPasswordPolicy,
+
+  // ISBNs
+  checkIsbn,
+  toIsbn13,
+  normalizeIsbn,
+  formatIsbn,
+  matchesIsbn,
+
+  // Categories
+  categorySchema,
+  bookCategorySchema,
+  categoryCreateSchema,
+  categoryUpdateSchema,
+  DEFAULT_CATEGORY_COLOR,
+  sortCategoryTree,
+  descendantIds,
+  SLUG_PATTERN,
+  slugify,
+
+  // Authors
+  authorSchema,
+  bookAuthorSchema,
+  authorUpdateSchema,
+  authorMergeSchema,
+
+  // Books
+  bookSchema,
+  bookCreateSchema,
+  bookUpdateSchema,
+  BOOK_FORMATS,
+  DEFAULT_BOOK_FORMAT,
+  PHYSICAL_FORMATS,
+  FORMAT_LABELS,
+  groupEditions,
+  MAX_TAGS,
+  MAX_TAG_LENGTH,
+  normalizeTag,
+  parseTags,
+  formatTags,
+  languageName,
+  formatDimensions,
+  formatWeight,
+  shippingWeight,
+  bookQuerySchema,
+  ARCHIVED_FILTERS,
+  MAX_IMPORT_ROWS,
+  IMPORT_EXISTING_MODES,
+  IMPORT_ACTIONS,
+  bookImportRowSchema,
+  bookImportSchema,
+  bookImportReportSchema,
+  CATALOG_COLUMNS,
+  toCatalogRecord,
+  parseCatalogJson,
+  toCatalogCsv,
+  parseCatalogCsv,
+  PRODUCT_FORMS,
+  CREDITED_ROLES,
+  ROLE_NAMES,
+  DEFAULT_SUBJECT_MAP,
+  parseOnix,
+  describeSubject,
+  coverUploadSchema,
+  COVER_TYPES,
+  MAX_COVER_BYTES,
+  COVER_SIZES,
+  checkCoverFile,
+  coverUrl,
+  placeholderCover,
+  bookRecommendationSchema,
+  recommendationQuerySchema,
+  RECOMMENDATION_REASONS,
+  REASON_LABELS,
+  DEFAULT_RECOMMENDATIONS,
+  MAX_RECOMMENDATIONS,
+  coPurchasePairs,
+  catalogSearchQuerySchema,
+  facetValueSchema,
+  catalogSearchResultSchema,
+  suggestQuerySchema,
+  bookSuggestionSchema,
+  searchSuggestionsSchema,
+  SEARCH_FACETS,
+  SEARCH_SORTS,
+  DEFAULT_PAGE_SIZE,
+  MAX_PAGE_SIZE,
+  MIN_SUGGEST_LENGTH,
+  DEFAULT_SUGGESTIONS,
+  MAX_SUGGESTIONS,
+  PRICE_BUCKETS,
+  PRICE_BUCKET_VALUES,
+  priceBucketOf,
+  decadeOf,
+  decadeLabel,
+  FIELD_WEIGHTS,
+  FUZZY_SIMILARITY,
+  MIN_FUZZY_LENGTH,
+  STOP_WORDS,
+  tokenize,
+  stem,
+  trigramSimilarity,
+  createSearchIndex,
+
+  // Users and sessions
+  ROLES,
+  userSchema,
+  sessionSchema,
+  loginSchema,
+  registerSchema,
+  refreshSchema,
+  profileUpdateSchema,
+
+  // Cart
+  cartItemSchema,
+  cartSchema,
+  cartItemAddSchema,
+  cartItemUpdateSchema,
+  checkoutSchema,
+
+  // Customer orders
+  ORDER_STATUSES,
+  orderItemSchema,
+  customerOrderSchema,
+  orderCreateSchema,
+  orderStatusSchema,
+
+  // Publishers and publisher orders
+  publisherSchema,
+  publisherCreateSchema,
+  publisherUpdateSchema,
+  PUBLISHER_ORDER_STATUSES,
+  publisherOrderSchema,
+  publisherOrderCreateSchema,
+
+  // Prices
+  PRICE_CHANGE_SOURCES,
+  PRICE_RULE_STATUSES,
+  priceChangeSchema,
+  priceRuleSchema,
+  priceRuleCreateSchema,
+  priceRuleQuerySchema,
+
+  // Reports
+  salesReportSchema,
+  bookSalesReportSchema,
+  topCustomerSchema,
+  bookOrderCountSchema,
+  pricePeriodQuerySchema,
+  pricePeriodSchema,
+  pricePeriodReportSchema,
+
+  // API description
+  buildOpenApiDocument
+};
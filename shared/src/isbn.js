@@ -0,0 +1,233 @@
+/**
+ * @fileoverview ISBN Parsing, Validation and Formatting
+ *
+ * Books are keyed by ISBN, and clients type ISBNs in every form: with or
+ * without hyphens or spaces, as ISBN-10 or ISBN-13. This module turns any
+ * of them into the one form the database stores, so the same book is
+ * never added twice under two spellings.
+ *
+ * Forms:
+ * - Compact:   13 digits, e.g. '9780134685991' (stored in books.isbn and
+ *              returned by the API)
+ * - Formatted: hyphenated ISBN-13, e.g. '978-0-13-468599-1' (shown to
+ *              users only)
+ *
+ * @module isbn
+ *
+ * @description
+ * Hyphens separate prefix, registration group, registrant, publication
+ * and check digit. Where the group and registrant end depends on the
+ * ranges the ISBN agency has assigned; RANGES holds them for the English
+ * (0, 1), French (2) and German (3) language groups. An ISBN from any
+ * other group is written '978-XXXXXXXXX-C', with only the prefix and
+ * check digit split off. The hyphens are for display only, so keys never
+ * change when RANGES gains a group or a range.
+ */
+
+// ============================================
+// RANGES
+// ============================================
+
+/**
+ * Registrant lengths by prefix and registration group.
+ * Each rule is [from, to, length]: when the 7 digits after the group
+ * fall in from..to, the registrant has `length` digits.
+ */
+const RANGES = {
+  '978': {
+    '0': [
+      [0, 1999999, 2], [2000000, 6999999, 3], [7000000, 8499999, 4],
+      [8500000, 8999999, 5], [9000000, 9499999, 6], [9500000, 9999999, 7]
+    ],
+    '1': [
+      [0, 999999, 2], [1000000, 3999999, 3], [4000000, 5499999, 4],
+      [5500000, 8697999, 5], [8698000, 9989999, 6], [9990000, 9999999, 7]
+    ],
+    '2': [
+      [0, 1999999, 2], [2000000, 3499999, 3], [3500000, 3999999, 5],
+      [4000000, 6999999, 3], [7000000, 8399999, 4], [8400000, 8999999, 5],
+      [9000000, 9499999, 6], [9500000, 9999999, 7]
+    ],
+    '3': [
+      [0, 299999, 2], [300000, 339999, 3], [340000, 369999, 4],
+      [370000, 399999, 5], [400000, 1999999, 2], [2000000, 6999999, 3],
+      [7000000, 8499999, 4], [8500000, 8999999, 5], [9000000, 9499999, 6],
+      [9500000, 9539999, 7], [9540000, 9699999, 5], [9700000, 9849999, 7],
+      [9850000, 9999999, 5]
+    ]
+  }
+};
+
+// ============================================
+// CHECK DIGITS
+// ============================================
+
+/**
+ * Check digit of an ISBN-10 (weights 10..2, mod 11; 10 is written 'X').
+ *
+ * @param {string} first9 - First nine digits
+ * @returns {string} Check character
+ */
+function isbn10CheckDigit(first9) {
+  let sum = 0;
+  for (let i = 0; i < 9; i++) sum += Number(first9[i]) * (10 - i);
+  const check = (11 - (sum % 11)) % 11;
+  return check === 10 ? 'X' : String(check);
+}
+
+/**
+ * Check digit of an ISBN-13 (weights 1 and 3 alternating, mod 10).
+ *
+ * @param {string} first12 - First twelve digits
+ * @returns {string} Check digit
+ */
+function isbn13CheckDigit(first12) {
+  let sum = 0;
+  for (let i = 0; i < 12; i++) sum += Number(first12[i]) * (i % 2 === 0 ? 1 : 3);
+  return String((10 - (sum % 10)) % 10);
+}
+
+/**
+ * Strips hyphens and spaces, e.g. '0-13-468599-7' -> '0134685997'.
+ *
+ * @param {string} value - ISBN as typed
+ * @returns {string} Digits (and a trailing 'X' for some ISBN-10s)
+ */
+const compact = value => String(value).replace(/[\s-]/g, '').toUpperCase();
+
+// ============================================
+// VALIDATION AND CONVERSION
+// ============================================
+
+/**
+ * Checks that a value is a well-formed ISBN-10 or ISBN-13 with a correct
+ * check digit.
+ *
+ * @param {string} value - ISBN in any form
+ * @returns {string|null} Why the ISBN is invalid, or null if it is valid
+ *
+ * @example
+ * checkIsbn('978-0-13-468599-1'); // null
+ * checkIsbn('978-0-13-468599-2'); // 'ISBN check digit should be 1, not 2 - check for a typo'
+ */
+function checkIsbn(value) {
+  const digits = compact(value);
+
+  if (/^\d{9}[\dX]$/.test(digits)) {
+    const expected = isbn10CheckDigit(digits);
+    return digits[9] === expected
+      ? null
+      : `ISBN check digit should be ${expected}, not ${digits[9]} - check for a typo`;
+  }
+
+  if (/^\d{13}$/.test(digits)) {
+    if (!digits.startsWith('978') && !digits.startsWith('979')) {
+      return 'ISBN-13 must start with 978 or 979';
+    }
+    const expected = isbn13CheckDigit(digits);
+    return digits[12] === expected
+      ? null
+      : `ISBN check digit should be ${expected}, not ${digits[12]} - check for a typo`;
+  }
+
+  return 'ISBN must have 10 or 13 digits (hyphens and spaces are ignored)';
+}
+
+/**
+ * Converts a valid ISBN-10 or ISBN-13 to compact ISBN-13.
+ * ISBN-10s get the 978 prefix and a recomputed check digit.
+ *
+ * @param {string} value - ISBN in any form
+ * @returns {string|null} 13 digits, or null if the ISBN is invalid
+ *
+ * @example
+ * toIsbn13('0-13-468599-7'); // '9780134685991'
+ */
+function toIsbn13(value) {
+  if (checkIsbn(value) !== null) return null;
+
+  const digits = compact(value);
+  if (digits.length === 13) return digits;
+
+  const first12 = `978${digits.slice(0, 9)}`;
+  return first12 + isbn13CheckDigit(first12);
+}
+
+/**
+ * Splits a compact ISBN-13 into its hyphenated groups.
+ *
+ * @param {string} isbn13 - 13 digits
+ * @returns {string} Hyphenated ISBN-13
+ */
+function hyphenate(isbn13) {
+  const prefix = isbn13.slice(0, 3);
+  const rest = isbn13.slice(3, 12);
+  const check = isbn13[12];
+
+  const groups = RANGES[prefix] || {};
+  const group = Object.keys(groups).find(candidate => rest.startsWith(candidate));
+  if (group) {
+    const afterGroup = rest.slice(group.length);
+    const next7 = Number(afterGroup.padEnd(7, '0').slice(0, 7));
+    const rule = groups[group].find(([from, to]) => next7 >= from && next7 <= to);
+    if (rule) {
+      const registrant = afterGroup.slice(0, rule[2]);
+      const publication = afterGroup.slice(rule[2]);
+      return `${prefix}-${group}-${registrant}-${publication}-${check}`;
+    }
+  }
+
+  return `${prefix}-${rest}-${check}`;
+}
+
+/**
+ * Converts a valid ISBN to the stored form: compact ISBN-13.
+ *
+ * @param {string} value - ISBN in any form
+ * @returns {string|null} Compact ISBN-13, or null if the ISBN is invalid
+ *
+ * @example
+ * normalizeIsbn('0-13-468599-7');     // '9780134685991'
+ * normalizeIsbn('978-0-13-468599-1'); // '9780134685991'
+ */
+const normalizeIsbn = value => toIsbn13(value);
+
+/**
+ * Formats an ISBN for display. Valid ISBNs are shown as hyphenated
+ * ISBN-13; anything else is returned unchanged.
+ *
+ * @param {string} value - ISBN in any form
+ * @returns {string} Display text
+ *
+ * @example
+ * formatIsbn('9780134685991'); // '978-0-13-468599-1'
+ */
+function formatIsbn(value) {
+  const isbn13 = toIsbn13(value);
+  return isbn13 ? hyphenate(isbn13) : value;
+}
+
+/**
+ * Search matching for a stored ISBN. A complete ISBN in any form matches
+ * only that book; otherwise the query's digits are looked for in the
+ * ISBN's digits, so '0-13-4685' matches '9780134685991'.
+ *
+ * @param {string} isbn - Stored (compact) ISBN
+ * @param {string} query - Search text
+ * @returns {boolean} Whether the query matches the ISBN
+ */
+function matchesIsbn(isbn, query) {
+  const wanted = normalizeIsbn(query);
+  if (wanted) return wanted === isbn;
+
+  const digits = compact(query);
+  return digits !== '' && compact(isbn).includes(digits);
+}
+
+module.exports = {
+  checkIsbn,
+  toIsbn13,
+  normalizeIsbn,
+  formatIsbn,
+  matchesIsbn
+};
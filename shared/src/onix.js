@@ -0,0 +1,767 @@
+/**
+ * @fileoverview ONIX 3.0 Feeds
+ *
+ * Reads the ONIX for Books 3.0 messages publishers send and turns each
+ * product into a catalog import record (see bookImportRowSchema), so feeds
+ * go through the same checks, preview and save as catalog files.
+ *
+ * @module onix
+ *
+ * @description
+ * Both tag styles are read: reference names (<Product>, <TitleText>) and
+ * short tags (<product>, <b203>). Per product:
+ *
+ * - isbn            - ProductIdentifier of type 15 (ISBN-13), else 03 (GTIN-13
+ *                     starting 978/979), else 02 (ISBN-10)
+ * - title           - The product title (TitleType 01), prefix included
+ * - format          - The ProductForm, for the forms in PRODUCT_FORMS; other
+ *                     forms are noted and left out
+ * - authors         - Contributors credited as authors (CREDITED_ROLES), in
+ *                     SequenceNumber order; other contributors are noted
+ * - publisher       - PublisherName of the publisher (PublishingRole 01),
+ *                     else the imprint
+ * - publicationYear - Year of the publication date (PublishingDateRole 01)
+ * - sellingPrice    - A USD price, preferring recommended retail prices;
+ *                     other currencies are noted and left out
+ * - categories      - Subjects mapped to category slugs (see
+ *                     DEFAULT_SUBJECT_MAP); the rest are reported unmapped
+ * - imageUrl        - Link to the front cover, if any
+ * - description     - The description (TextType 03), else the short
+ *                     description (02), markup removed
+ * - pageCount       - Main content page count (ExtentType 00 or 11, in pages)
+ * - language        - Language of the text (LanguageRole 01), an ISO 639-2
+ *                     code such as 'eng'
+ * - edition         - The EditionStatement, e.g. 'Fourth edition'
+ * - heightMm, widthMm, thicknessMm, weightGrams
+ *                   - Measures (types 01, 02, 03, 08), converted from
+ *                     cm, inches, ounces or pounds where needed
+ * - tags            - Keyword subjects (scheme 20), split on semicolons
+ *
+ * Stock is not part of ONIX, so records carry no quantity or threshold.
+ * Products the message deletes (NotificationType 05) produce no record.
+ * Nothing is validated here: missing or bad values are reported by the
+ * import like those of any other row.
+ */
+
+/** @typedef {import('./books').BookImportRow} BookImportRow */
+
+const { FORMAT_LABELS } = require('./editions');
+
+/**
+ * @typedef {Object} OnixSubject
+ * @property {string} scheme - SubjectSchemeIdentifier, e.g. '10' (BISAC)
+ * @property {string|null} code - SubjectCode
+ * @property {string|null} heading - SubjectHeadingText
+ */
+
+/**
+ * @typedef {Object} OnixContributor
+ * @property {string} name - Name in display order, e.g. 'Donald Knuth'
+ * @property {string[]} roles - ContributorRole codes, e.g. ['A01']
+ */
+
+/**
+ * @typedef {Object} OnixProduct
+ * @property {string|null} reference - The product's RecordReference
+ * @property {Partial<BookImportRow>|null} record - Import record; null if
+ *   the message deletes the product
+ * @property {OnixContributor[]} contributors - Every contributor, with roles
+ * @property {OnixSubject[]} unmappedSubjects - Subjects no category is mapped to
+ * @property {string[]} notes - What was left out, and why
+ */
+
+// ============================================
+// CODE LISTS
+// ============================================
+
+/** Contributor roles credited as a book's authors (ONIX code list 17) */
+const CREDITED_ROLES = ['A01', 'A02', 'B01'];
+
+/** Names of common contributor roles, for notes (ONIX code list 17) */
+const ROLE_NAMES = {
+  A01: 'By (author)',
+  A02: 'With',
+  A12: 'Illustrated by',
+  A13: 'Photographs by',
+  A15: 'Preface by',
+  A23: 'Foreword by',
+  A24: 'Introduction by',
+  B01: 'Edited by',
+  B06: 'Translated by',
+  E07: 'Read by'
+};
+
+/**
+ * Book formats of product forms (ONIX code list 150). Forms not listed
+ * here take the format of the first letter, if it has one.
+ */
+const PRODUCT_FORMS = {
+  BB: 'hardcover',
+  BC: 'paperback',
+  // Digital and audio products of any kind
+  E: 'ebook',
+  A: 'audiobook'
+};
+
+/** Names of subject schemes (ONIX code list 26) */
+const SUBJECT_SCHEMES = {
+  10: 'BISAC',
+  12: 'BIC',
+  20: 'Keywords',
+  93: 'Thema'
+};
+
+/**
+ * Category slugs for subject codes, by subject scheme. A code maps to the
+ * slug of its longest listed prefix, so 'HIS027000' (BISAC, military
+ * history) maps through 'HIS'. Keywords (scheme 20) become tags instead
+ * and are never mapped or reported.
+ */
+const DEFAULT_SUBJECT_MAP = {
+  // BISAC: the three-letter section
+  10: {
+    SCI: 'science', MAT: 'science', NAT: 'science', TEC: 'science', COM: 'science', MED: 'science',
+    ART: 'art', ARC: 'art', DES: 'art', PHO: 'art', MUS: 'art', LIT: 'art', POE: 'art', DRA: 'art',
+    REL: 'religion', BIB: 'religion',
+    HIS: 'history',
+    TRV: 'geography'
+  },
+  // BIC subject categories
+  12: {
+    P: 'science', U: 'science',
+    A: 'art', D: 'art',
+    HR: 'religion',
+    HB: 'history',
+    RG: 'geography', WT: 'geography'
+  },
+  // Thema subject categories
+  93: {
+    P: 'science', U: 'science',
+    A: 'art', D: 'art',
+    QR: 'religion',
+    N: 'history',
+    RG: 'geography', WT: 'geography'
+  }
+};
+
+/** Book measures by MeasureType (ONIX code list 48) */
+const MEASURE_TYPES = {
+  '01': 'heightMm',
+  '02': 'widthMm',
+  '03': 'thicknessMm',
+  '08': 'weightGrams'
+};
+
+/** Millimetres or grams per unit, by MeasureUnitCode (ONIX code list 50) */
+const MEASURE_UNITS = {
+  mm: 1,
+  cm: 10,
+  in: 25.4,
+  gr: 1,
+  kg: 1000,
+  oz: 28.3495,
+  lb: 453.592
+};
+
+/** Reference names of the short tags used here */
+const SHORT_TAGS = {
+  onixmessage: 'ONIXMessage',
+  product: 'Product',
+  a001: 'RecordReference',
+  a002: 'NotificationType',
+  productidentifier: 'ProductIdentifier',
+  b221: 'ProductIDType',
+  b244: 'IDValue',
+  descriptivedetail: 'DescriptiveDetail',
+  b012: 'ProductForm',
+  titledetail: 'TitleDetail',
+  b202: 'TitleType',
+  titleelement: 'TitleElement',
+  x409: 'TitleElementLevel',
+  b203: 'TitleText',
+  b030: 'TitlePrefix',
+  b031: 'TitleWithoutPrefix',
+  contributor: 'Contributor',
+  b034: 'SequenceNumber',
+  b035: 'ContributorRole',
+  b036: 'PersonName',
+  b037: 'PersonNameInverted',
+  b039: 'NamesBeforeKey',
+  b040: 'KeyNames',
+  b047: 'CorporateName',
+  subject: 'Subject',
+  b067: 'SubjectSchemeIdentifier',
+  b069: 'SubjectCode',
+  b070: 'SubjectHeadingText',
+  b058: 'EditionStatement',
+  extent: 'Extent',
+  b218: 'ExtentType',
+  b219: 'ExtentValue',
+  b220: 'ExtentUnit',
+  language: 'Language',
+  b253: 'LanguageRole',
+  b252: 'LanguageCode',
+  measure: 'Measure',
+  x315: 'MeasureType',
+  c094: 'Measurement',
+  c095: 'MeasureUnitCode',
+  textcontent: 'TextContent',
+  x426: 'TextType',
+  d104: 'Text',
+  publishingdetail: 'PublishingDetail',
+  imprint: 'Imprint',
+  b079: 'ImprintName',
+  publisher: 'Publisher',
+  b291: 'PublishingRole',
+  b081: 'PublisherName',
+  publishingdate: 'PublishingDate',
+  x448: 'PublishingDateRole',
+  b306: 'Date',
+  collateraldetail: 'CollateralDetail',
+  supportingresource: 'SupportingResource',
+  x436: 'ResourceContentType',
+  resourceversion: 'ResourceVersion',
+  x435: 'ResourceLink',
+  productsupply: 'ProductSupply',
+  supplydetail: 'SupplyDetail',
+  price: 'Price',
+  x462: 'PriceType',
+  j151: 'PriceAmount',
+  j152: 'CurrencyCode'
+};
+
+// ============================================
+// XML
+// ============================================
+
+/**
+ * @typedef {Object} XmlElement
+ * @property {string} name - Reference name (namespace prefix removed)
+ * @property {Object<string, string>} attributes
+ * @property {Array<XmlElement|string>} children
+ */
+
+/** Predefined XML entities */
+const ENTITIES = { lt: '<', gt: '>', amp: '&', quot: '"', apos: "'" };
+
+/**
+ * Replaces entity and character references in text.
+ *
+ * @param {string} text - Raw text
+ * @returns {string|null} Decoded text (unknown entities are kept as
+ *   written), or null if a character reference is not a Unicode code point
+ */
+function decodeEntities(text) {
+  let valid = true;
+  const decoded = text.replace(/&(#x[0-9a-f]+|#\d+|\w+);/gi, (entity, name) => {
+    if (name[0] === '#') {
+      const code = name[1].toLowerCase() === 'x' ? parseInt(name.slice(2), 16) : Number(name.slice(1));
+      if (code > 0x10ffff) {
+        valid = false;
+        return entity;
+      }
+      return String.fromCodePoint(code);
+    }
+    return ENTITIES[name] ?? entity;
+  });
+  return valid ? decoded : null;
+}
+
+/**
+ * Normalizes a tag name: drops a namespace prefix and maps short tags to
+ * reference names.
+ *
+ * @param {string} tag - Tag as written
+ * @returns {string} Reference name
+ */
+function elementName(tag) {
+  const local = tag.slice(tag.indexOf(':') + 1);
+  return SHORT_TAGS[local.toLowerCase()] ?? local;
+}
+
+/**
+ * Line number of a position in the text, for error messages.
+ *
+ * @param {string} text - Whole document
+ * @param {number} index - Position
+ * @returns {number} Line number, from 1
+ */
+function lineAt(text, index) {
+  return text.slice(0, index).split('\n').length;
+}
+
+/**
+ * Parses an XML document into elements. Comments, processing
+ * instructions and the DOCTYPE are skipped; CDATA is kept as text.
+ *
+ * @param {string} text - XML document
+ * @returns {XmlElement} Root element
+ * @throws {Error} If the document is not well formed
+ */
+function parseXml(text) {
+  const top = { name: '#document', attributes: {}, children: [] };
+  const open = [top];
+  const token = new RegExp([
+    /<!--[\s\S]*?-->/,                                   // comment
+    /<!\[CDATA\[([\s\S]*?)\]\]>/,                        // 1: CDATA
+    /<\?[\s\S]*?\?>/,                                    // declaration, instruction
+    /<!DOCTYPE(?:[^[>]|\[[\s\S]*?\])*>/,                 // document type
+    /<\/([^\s>]+)\s*>/,                                  // 2: end tag
+    /<([^\s/>!?]+)((?:\s+[^\s=/>]+\s*=\s*(?:"[^"]*"|'[^']*'))*)\s*(\/?)>/, // 3-5: start tag
+    /([^<]+)/                                            // 6: text
+  ].map(part => part.source).join('|'), 'y');
+
+  while (token.lastIndex < text.length) {
+    const start = token.lastIndex;
+    const match = token.exec(text);
+    if (!match) {
+      throw new Error(`The file is not valid XML (line ${lineAt(text, start)})`);
+    }
+    const [, cdata, endTag, startTag, attributeText, selfClosing, chars] = match;
+    const parent = open[open.length - 1];
+    const decode = raw => {
+      const decoded = decodeEntities(raw);
+      if (decoded === null) {
+        throw new Error(`The file is not valid XML (line ${lineAt(text, start)})`);
+      }
+      return decoded;
+    };
+
+    if (cdata !== undefined) {
+      parent.children.push(cdata);
+    } else if (chars !== undefined) {
+      parent.children.push(decode(chars));
+    } else if (endTag !== undefined) {
+      if (open.length === 1 || elementName(endTag) !== parent.name) {
+        throw new Error(`The file is not valid XML: unexpected </${endTag}> (line ${lineAt(text, start)})`);
+      }
+      open.pop();
+    } else if (startTag !== undefined) {
+      const attributes = {};
+      for (const [, name, double, single] of attributeText.matchAll(/([^\s=]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g)) {
+        attributes[name] = decode(double ?? single);
+      }
+      const element = { name: elementName(startTag), attributes, children: [] };
+      parent.children.push(element);
+      if (!selfClosing) open.push(element);
+    }
+  }
+
+  if (open.length > 1) {
+    throw new Error(`The file is not valid XML: <${open[open.length - 1].name}> is not closed`);
+  }
+  const root = top.children.find(child => typeof child !== 'string');
+  if (!root) {
+    throw new Error('The file has no XML content');
+  }
+  return root;
+}
+
+/**
+ * Child elements with a name.
+ *
+ * @param {XmlElement|undefined} element - Parent
+ * @param {string} name - Reference name
+ * @returns {XmlElement[]} Matching children, in document order
+ */
+function childrenOf(element, name) {
+  return element
+    ? element.children.filter(child => typeof child !== 'string' && child.name === name)
+    : [];
+}
+
+/**
+ * First child element with a name.
+ *
+ * @param {XmlElement|undefined} element - Parent
+ * @param {string} name - Reference name
+ * @returns {XmlElement|undefined} The child
+ */
+function childOf(element, name) {
+  return childrenOf(element, name)[0];
+}
+
+/**
+ * Trimmed text of an element.
+ *
+ * @param {XmlElement|undefined} element - Element
+ * @returns {string|null} The text, or null if there is none
+ */
+function textContent(element) {
+  const text = element ? element.children.filter(part => typeof part === 'string').join('').trim() : '';
+  return text || null;
+}
+
+/**
+ * All the text inside an element, markup such as XHTML removed and
+ * whitespace collapsed.
+ *
+ * @param {XmlElement|undefined} element - Element
+ * @returns {string|null} The text, or null if there is none
+ */
+function fullText(element) {
+  if (!element) return null;
+  const parts = element.children.map(part => (typeof part === 'string' ? part : ` ${fullText(part) ?? ''} `));
+  return parts.join('').replace(/\s+/g, ' ').trim() || null;
+}
+
+/**
+ * Trimmed text of the first child element with a name.
+ *
+ * @param {XmlElement|undefined} element - Parent
+ * @param {string} name - Reference name
+ * @returns {string|null} The text, or null if the child is missing or empty
+ */
+function textOf(element, name) {
+  return textContent(childOf(element, name));
+}
+
+// ============================================
+// PRODUCTS
+// ============================================
+
+/**
+ * The product's ISBN, as written in the feed.
+ *
+ * @param {XmlElement} product - <Product>
+ * @returns {string|undefined} ISBN
+ */
+function isbnOf(product) {
+  const identifiers = childrenOf(product, 'ProductIdentifier').map(identifier => ({
+    type: textOf(identifier, 'ProductIDType'),
+    value: textOf(identifier, 'IDValue')
+  }));
+  const find = test => identifiers.find(identifier => identifier.value && test(identifier))?.value;
+  return find(({ type }) => type === '15') ??
+    find(({ type, value }) => type === '03' && /^97[89]/.test(value)) ??
+    find(({ type }) => type === '02') ??
+    undefined;
+}
+
+/**
+ * The product title, with its prefix (e.g. 'The').
+ *
+ * @param {XmlElement|undefined} detail - <DescriptiveDetail>
+ * @returns {string|undefined} Title
+ */
+function titleOf(detail) {
+  const titles = childrenOf(detail, 'TitleDetail');
+  const title = titles.find(candidate => textOf(candidate, 'TitleType') === '01') ?? titles[0];
+  const elements = childrenOf(title, 'TitleElement');
+  const element = elements.find(candidate => textOf(candidate, 'TitleElementLevel') === '01') ?? elements[0];
+  if (!element) return undefined;
+
+  const withoutPrefix = textOf(element, 'TitleWithoutPrefix');
+  return textOf(element, 'TitleText') ??
+    (withoutPrefix && [textOf(element, 'TitlePrefix'), withoutPrefix].filter(Boolean).join(' ')) ??
+    undefined;
+}
+
+/**
+ * The book format of the product form.
+ *
+ * @param {XmlElement|undefined} detail - <DescriptiveDetail>
+ * @param {string[]} notes - Receives a note if the form has no format
+ * @returns {string|undefined} Format (see BOOK_FORMATS)
+ */
+function formatOf(detail, notes) {
+  const form = textOf(detail, 'ProductForm');
+  if (!form) return undefined;
+
+  const format = PRODUCT_FORMS[form] ?? PRODUCT_FORMS[form[0]];
+  if (!format) {
+    notes.push(`Product form ${form} is not one of our formats (${Object.values(FORMAT_LABELS).join(', ')}); it was left out`);
+  }
+  return format;
+}
+
+/**
+ * The contributors, in SequenceNumber order.
+ *
+ * @param {XmlElement|undefined} detail - <DescriptiveDetail>
+ * @returns {OnixContributor[]} Contributors with a name
+ */
+function contributorsOf(detail) {
+  return childrenOf(detail, 'Contributor')
+    .map((contributor, i) => {
+      const inverted = textOf(contributor, 'PersonNameInverted');
+      const name = textOf(contributor, 'PersonName') ??
+        ([textOf(contributor, 'NamesBeforeKey'), textOf(contributor, 'KeyNames')].filter(Boolean).join(' ') || null) ??
+        // 'Knuth, Donald' is credited as 'Donald Knuth'
+        (inverted && inverted.split(',').map(part => part.trim()).reverse().join(' ')) ??
+        textOf(contributor, 'CorporateName');
+      return {
+        name,
+        roles: childrenOf(contributor, 'ContributorRole').map(textContent).filter(Boolean),
+        order: Number(textOf(contributor, 'SequenceNumber')) || i + 1
+      };
+    })
+    .filter(contributor => contributor.name)
+    .sort((a, b) => a.order - b.order)
+    .map(({ name, roles }) => ({ name, roles }));
+}
+
+/**
+ * The publisher's name, else the imprint's.
+ *
+ * @param {XmlElement|undefined} publishing - <PublishingDetail>
+ * @returns {string|undefined} Name
+ */
+function publisherOf(publishing) {
+  const publishers = childrenOf(publishing, 'Publisher');
+  const publisher = publishers.find(candidate => textOf(candidate, 'PublishingRole') === '01') ?? publishers[0];
+  return textOf(publisher, 'PublisherName') ?? textOf(childOf(publishing, 'Imprint'), 'ImprintName') ?? undefined;
+}
+
+/**
+ * Year of the publication date.
+ *
+ * @param {XmlElement|undefined} publishing - <PublishingDetail>
+ * @returns {number|undefined} Year
+ */
+function publicationYearOf(publishing) {
+  const dates = childrenOf(publishing, 'PublishingDate');
+  const date = dates.find(candidate => textOf(candidate, 'PublishingDateRole') === '01') ?? dates[0];
+  const year = (textOf(date, 'Date') ?? '').match(/^\d{4}/);
+  return year ? Number(year[0]) : undefined;
+}
+
+/**
+ * A USD price, preferring recommended retail prices (types 01 and 02).
+ *
+ * @param {XmlElement} product - <Product>
+ * @param {string[]} notes - Receives a note when there is no USD price
+ * @returns {number|undefined} Price
+ */
+function priceOf(product, notes) {
+  const prices = childrenOf(product, 'ProductSupply')
+    .flatMap(supply => childrenOf(supply, 'SupplyDetail'))
+    .flatMap(detail => childrenOf(detail, 'Price'))
+    .map(price => ({
+      type: textOf(price, 'PriceType'),
+      amount: Number(textOf(price, 'PriceAmount')),
+      currency: textOf(price, 'CurrencyCode')
+    }))
+    .filter(price => Number.isFinite(price.amount));
+
+  const usd = prices.filter(price => price.currency === 'USD');
+  const price = usd.find(candidate => candidate.type === '01') ??
+    usd.find(candidate => candidate.type === '02') ??
+    usd[0];
+  if (!price && prices.length > 0) {
+    notes.push(`No price in USD (found ${prices.map(p => `${p.currency ?? '?'} ${p.amount}`).join(', ')})`);
+  }
+  return price?.amount;
+}
+
+/**
+ * Link to the front cover image.
+ *
+ * @param {XmlElement} product - <Product>
+ * @returns {string|undefined} URL
+ */
+function coverOf(product) {
+  const cover = childrenOf(childOf(product, 'CollateralDetail'), 'SupportingResource')
+    .find(resource => textOf(resource, 'ResourceContentType') === '01');
+  return childrenOf(cover, 'ResourceVersion')
+    .map(version => textOf(version, 'ResourceLink'))
+    .find(link => link && /^https?:\/\//.test(link)) ?? undefined;
+}
+
+/**
+ * The description, preferring the long one (TextType 03) to the short one (02).
+ *
+ * @param {XmlElement} product - <Product>
+ * @returns {string|undefined} Description as plain text
+ */
+function descriptionOf(product) {
+  const texts = childrenOf(childOf(product, 'CollateralDetail'), 'TextContent');
+  const text = texts.find(candidate => textOf(candidate, 'TextType') === '03') ??
+    texts.find(candidate => textOf(candidate, 'TextType') === '02');
+  return fullText(childOf(text, 'Text')) ?? undefined;
+}
+
+/**
+ * The main content page count.
+ *
+ * @param {XmlElement|undefined} detail - <DescriptiveDetail>
+ * @returns {number|undefined} Pages
+ */
+function pageCountOf(detail) {
+  const extent = childrenOf(detail, 'Extent').find(candidate =>
+    ['00', '11'].includes(textOf(candidate, 'ExtentType') ?? '') && textOf(candidate, 'ExtentUnit') === '03');
+  const pages = Number(textOf(extent, 'ExtentValue'));
+  return Number.isFinite(pages) && pages > 0 ? pages : undefined;
+}
+
+/**
+ * The language of the text.
+ *
+ * @param {XmlElement|undefined} detail - <DescriptiveDetail>
+ * @returns {string|undefined} ISO 639-2 code
+ */
+function languageOf(detail) {
+  const languages = childrenOf(detail, 'Language');
+  const language = languages.find(candidate => textOf(candidate, 'LanguageRole') === '01') ?? languages[0];
+  return textOf(language, 'LanguageCode') ?? undefined;
+}
+
+/**
+ * The book's size in millimetres and weight in grams, rounded.
+ *
+ * @param {XmlElement|undefined} detail - <DescriptiveDetail>
+ * @param {string[]} notes - Receives a note for a measure in an unknown unit
+ * @returns {Object<string, number>} heightMm, widthMm, thicknessMm and
+ *   weightGrams, for the measures given
+ */
+function measuresOf(detail, notes) {
+  const measures = {};
+  for (const measure of childrenOf(detail, 'Measure')) {
+    const field = MEASURE_TYPES[textOf(measure, 'MeasureType') ?? ''];
+    const value = Number(textOf(measure, 'Measurement'));
+    const unit = textOf(measure, 'MeasureUnitCode');
+    if (!field || !Number.isFinite(value) || measures[field] !== undefined) continue;
+
+    if (!MEASURE_UNITS[unit ?? '']) {
+      notes.push(`Measure in unknown unit ${unit ?? '(none)'}; it was left out`);
+      continue;
+    }
+    measures[field] = Math.round(value * MEASURE_UNITS[unit]);
+  }
+  return measures;
+}
+
+/**
+ * Maps a subject to a category slug.
+ *
+ * @param {OnixSubject} subject - Subject
+ * @param {Object<string, Object<string, string>>} subjectMap - Slugs by
+ *   scheme and code prefix
+ * @returns {string|undefined} Category slug
+ */
+function categoryOf({ scheme, code }, subjectMap) {
+  const prefixes = subjectMap[scheme];
+  if (!prefixes || !code) return undefined;
+  const prefix = Object.keys(prefixes)
+    .filter(candidate => code.toUpperCase().startsWith(candidate))
+    .sort((a, b) => b.length - a.length)[0];
+  return prefix && prefixes[prefix];
+}
+
+/**
+ * Reads one <Product>.
+ *
+ * @param {XmlElement} product - <Product>
+ * @param {Object<string, Object<string, string>>} subjectMap - See DEFAULT_SUBJECT_MAP
+ * @returns {OnixProduct} Product
+ */
+function readProduct(product, subjectMap) {
+  const reference = textOf(product, 'RecordReference');
+  const detail = childOf(product, 'DescriptiveDetail');
+  const publishing = childOf(product, 'PublishingDetail');
+  const contributors = contributorsOf(detail);
+  const notes = [];
+
+  if (textOf(product, 'NotificationType') === '05') {
+    notes.push('The feed deletes this product; it was not imported');
+    return { reference, record: null, contributors, unmappedSubjects: [], notes };
+  }
+
+  for (const { name, roles } of contributors) {
+    if (!roles.some(role => CREDITED_ROLES.includes(role))) {
+      notes.push(`Not credited as an author: ${name} (${roles.map(role => ROLE_NAMES[role] ?? role).join(', ') || 'no role'})`);
+    }
+  }
+
+  const categories = [];
+  const unmappedSubjects = [];
+  const keywords = [];
+  for (const element of childrenOf(detail, 'Subject')) {
+    const subject = {
+      scheme: textOf(element, 'SubjectSchemeIdentifier') ?? '',
+      code: textOf(element, 'SubjectCode'),
+      heading: textOf(element, 'SubjectHeadingText')
+    };
+    if (subject.scheme === '20') {
+      keywords.push(...(subject.heading ?? '').split(';').map(keyword => keyword.trim()).filter(Boolean));
+      continue;
+    }
+
+    const slug = categoryOf(subject, subjectMap);
+    if (!slug) {
+      unmappedSubjects.push(subject);
+    } else if (!categories.includes(slug)) {
+      categories.push(slug);
+    }
+  }
+
+  const record = {
+    isbn: isbnOf(product),
+    title: titleOf(detail),
+    format: formatOf(detail, notes),
+    authors: contributors.filter(({ roles }) => roles.some(role => CREDITED_ROLES.includes(role))).map(({ name }) => name),
+    publisher: publisherOf(publishing),
+    publicationYear: publicationYearOf(publishing),
+    sellingPrice: priceOf(product, notes),
+    categories,
+    imageUrl: coverOf(product),
+    description: descriptionOf(product),
+    pageCount: pageCountOf(detail),
+    language: languageOf(detail),
+    edition: textOf(detail, 'EditionStatement') ?? undefined,
+    ...measuresOf(detail, notes),
+    tags: keywords.length > 0 ? keywords : undefined
+  };
+  // Missing values are left out, so the import reports them as required
+  for (const field of Object.keys(record)) {
+    if (record[field] === undefined) delete record[field];
+  }
+
+  return { reference, record, contributors, unmappedSubjects, notes };
+}
+
+/**
+ * Reads an ONIX 3.0 message.
+ *
+ * @param {string} xml - The message
+ * @param {Object} [options]
+ * @param {Object<string, Object<string, string>>} [options.subjectMap] -
+ *   Category slugs by subject scheme and code prefix (default
+ *   DEFAULT_SUBJECT_MAP)
+ * @returns {OnixProduct[]} One entry per <Product>, in message order
+ * @throws {Error} If the text is not XML or not an ONIX 3.0 message
+ *
+ * @example
+ * const products = parseOnix(xml);
+ * booksApi.importCatalog(products.filter(p => p.record).map(p => p.record), options);
+ */
+function parseOnix(xml, { subjectMap = DEFAULT_SUBJECT_MAP } = {}) {
+  const root = parseXml(xml);
+  if (root.name !== 'ONIXMessage') {
+    throw new Error('The file is not an ONIX message');
+  }
+  if (!String(root.attributes.release ?? '').startsWith('3')) {
+    throw new Error(`Only ONIX 3.0 is supported (this message is release ${root.attributes.release ?? '2.1 or earlier'})`);
+  }
+  return childrenOf(root, 'Product').map(product => readProduct(product, subjectMap));
+}
+
+/**
+ * Describes a subject for display, e.g. 'BISAC HIS027000 (History / Military)'.
+ *
+ * @param {OnixSubject} subject - Subject
+ * @returns {string} Description
+ */
+function describeSubject({ scheme, code, heading }) {
+  const parts = [SUBJECT_SCHEMES[scheme] ?? `Scheme ${scheme}`, code].filter(Boolean).join(' ');
+  return heading ? `${parts} (${heading})` : parts;
+}
+
+module.exports = {
+  PRODUCT_FORMS,
+  CREDITED_ROLES,
+  ROLE_NAMES,
+  DEFAULT_SUBJECT_MAP,
+  parseOnix,
+  describeSubject
+};
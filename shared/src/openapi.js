@@ -0,0 +1,380 @@
+/**
+ * @fileoverview OpenAPI Document
+ *
+ * Builds an OpenAPI 3.1 description of the REST API from the schemas in
+ * this package. The backend serves it at GET /api/openapi.json, and
+ * `npm run build:openapi` writes it to dist/openapi.json.
+ *
+ * @module openapi
+ *
+ * @description
+ * Request bodies and query strings are described as clients send them
+ * (before defaults and transforms apply); responses as the API returns
+ * them. Every named schema becomes a component, so nested records
+ * (e.g. the Book inside a CartItem) appear as $refs.
+ */
+
+const { z } = require('./common');
+const categories = require('./categories');
+const authors = require('./authors');
+const books = require('./books');
+const users = require('./users');
+const cart = require('./cart');
+const orders = require('./orders');
+const publishers = require('./publishers');
+const publisherOrders = require('./publisherOrders');
+const prices = require('./prices');
+const reports = require('./reports');
+
+// ============================================
+// COMPONENTS
+// ============================================
+
+/** Error body of every failed request */
+const errorSchema = z.object({
+  error: z.string()
+});
+
+/** 400 body for invalid fields */
+const validationErrorSchema = z.object({
+  error: z.literal('Validation failed'),
+  details: z.array(z.object({
+    /** Dotted path into the request, e.g. 'items.0.quantity' */
+    field: z.string(),
+    message: z.string()
+  }))
+});
+
+/** Schemas returned by the API, by component name */
+const responseComponents = {
+  Category: categories.categorySchema,
+  BookCategory: categories.bookCategorySchema,
+  Author: authors.authorSchema,
+  BookAuthor: authors.bookAuthorSchema,
+  Book: books.bookSchema,
+  BookImportReport: books.bookImportReportSchema,
+  CoverUpload: books.coverUploadSchema,
+  BookRecommendation: books.bookRecommendationSchema,
+  CatalogSearchResult: books.catalogSearchResultSchema,
+  SearchSuggestions: books.searchSuggestionsSchema,
+  User: users.userSchema,
+  Session: users.sessionSchema,
+  CartItem: cart.cartItemSchema,
+  Cart: cart.cartSchema,
+  CustomerOrderItem: orders.orderItemSchema,
+  CustomerOrder: orders.customerOrderSchema,
+  Publisher: publishers.publisherSchema,
+  PublisherOrder: publisherOrders.publisherOrderSchema,
+  PriceChange: prices.priceChangeSchema,
+  PriceRule: prices.priceRuleSchema,
+  SalesReport: reports.salesReportSchema,
+  BookSalesReport: reports.bookSalesReportSchema,
+  TopCustomer: reports.topCustomerSchema,
+  BookOrderCount: reports.bookOrderCountSchema,
+  PricePeriodReport: reports.pricePeriodReportSchema,
+  Error: errorSchema,
+  ValidationError: validationErrorSchema
+};
+
+/** Schemas sent by clients, by component name */
+const requestComponents = {
+  CategoryCreate: categories.categoryCreateSchema,
+  CategoryUpdate: categories.categoryUpdateSchema,
+  AuthorUpdate: authors.authorUpdateSchema,
+  AuthorMerge: authors.authorMergeSchema,
+  BookCreate: books.bookCreateSchema,
+  BookUpdate: books.bookUpdateSchema,
+  BookImportRow: books.bookImportRowSchema,
+  BookImport: books.bookImportSchema,
+  LoginCredentials: users.loginSchema,
+  RegisterData: users.registerSchema,
+  RefreshRequest: users.refreshSchema,
+  ProfileUpdate: users.profileUpdateSchema,
+  CartItemAdd: cart.cartItemAddSchema,
+  CartItemUpdate: cart.cartItemUpdateSchema,
+  CheckoutData: cart.checkoutSchema,
+  OrderCreate: orders.orderCreateSchema,
+  OrderStatusUpdate: orders.orderStatusSchema,
+  PublisherCreate: publishers.publisherCreateSchema,
+  PublisherUpdate: publishers.publisherUpdateSchema,
+  PublisherOrderCreate: publisherOrders.publisherOrderCreateSchema,
+  PriceRuleCreate: prices.priceRuleCreateSchema
+};
+
+/**
+ * Converts a set of named schemas to JSON Schema components.
+ *
+ * @param {Object<string, import('zod').ZodType>} named - Schemas by component name
+ * @param {'input'|'output'} io - Describe what clients send or what the API returns
+ * @returns {Object<string, Object>} JSON Schemas by component name
+ */
+function toComponents(named, io) {
+  const registry = z.registry();
+  for (const [name, schema] of Object.entries(named)) {
+    registry.add(schema, { id: name });
+  }
+
+  const { schemas } = z.toJSONSchema(registry, {
+    io,
+    uri: name => `#/components/schemas/${name}`
+  });
+
+  // Each entry comes back as a standalone document; components need neither field
+  for (const schema of Object.values(schemas)) {
+    delete schema.$schema;
+    delete schema.$id;
+  }
+  return schemas;
+}
+
+// ============================================
+// OPERATIONS
+// ============================================
+
+/**
+ * Reference to a component.
+ *
+ * @param {string} name - Component name
+ * @returns {Object} JSON Schema $ref
+ */
+const ref = name => ({ $ref: `#/components/schemas/${name}` });
+
+/**
+ * Array of a component.
+ *
+ * @param {string} name - Component name
+ * @returns {Object} JSON Schema array
+ */
+const listOf = name => ({ type: 'array', items: ref(name) });
+
+/**
+ * Every endpoint: [method, path, summary, options].
+ *
+ * Options:
+ * - body:     request body component
+ * - upload:   name of the file field of a multipart/form-data body
+ * - query:    schema of the query string
+ * - response: success response schema (omitted for 204)
+ * - status:   success status (default 200)
+ * - public:   true if no access token is needed
+ */
+const operations = [
+  ['get', '/categories', 'List categories (flat; see parentId)', { response: listOf('Category'), public: true }],
+  ['post', '/categories', 'Add a category (admin)', { body: 'CategoryCreate', response: ref('Category'), status: 201 }],
+  ['put', '/categories/{id}', 'Update a category (admin)', { body: 'CategoryUpdate', response: ref('Category') }],
+  ['delete', '/categories/{id}', 'Delete an unused category without subcategories (admin)', { status: 204 }],
+
+  ['get', '/authors', 'List authors', { response: listOf('Author'), public: true }],
+  ['get', '/authors/{id}', 'Get an author', { response: ref('Author'), public: true }],
+  ['put', '/authors/{id}', 'Update an author (admin)', { body: 'AuthorUpdate', response: ref('Author') }],
+  ['post', '/authors/{id}/merge', 'Merge a duplicate author into this one (admin)', { body: 'AuthorMerge', response: ref('Author') }],
+
+  ['get', '/books', 'List books for sale, optionally filtered', { query: books.bookQuerySchema, response: listOf('Book'), public: true }],
+  ['get', '/books/search', 'Search the catalog: a page of works with counts for each filter value', {
+    query: books.catalogSearchQuerySchema,
+    response: ref('CatalogSearchResult'),
+    public: true
+  }],
+  ['get', '/books/suggest', 'Suggest books, authors and categories for text being typed', {
+    query: books.suggestQuerySchema,
+    response: ref('SearchSuggestions'),
+    public: true
+  }],
+  ['get', '/books/{isbn}', 'Get a book by ISBN', { response: ref('Book'), public: true }],
+  ['post', '/books', 'Add a book (admin, manager)', { body: 'BookCreate', response: ref('Book'), status: 201 }],
+  ['put', '/books/{isbn}', 'Update a book (admin, manager)', { body: 'BookUpdate', response: ref('Book') }],
+  ['post', '/books/{isbn}/archive', 'Take a book off sale (admin, manager)', { response: ref('Book') }],
+  ['post', '/books/{isbn}/unarchive', 'Put an archived book back on sale (admin, manager)', { response: ref('Book') }],
+  ['delete', '/books/{isbn}', 'Delete a book nobody has ordered (admin)', { status: 204 }],
+  ['get', '/books/{isbn}/recommendations', 'Books customers also bought, topped up with books by the same authors or in the same categories', {
+    query: books.recommendationQuerySchema,
+    response: listOf('BookRecommendation'),
+    public: true
+  }],
+  ['get', '/books/{isbn}/prices', "A book's price history, oldest first (admin, manager)", { response: listOf('PriceChange') }],
+  ['post', '/books/covers', 'Upload a cover image and store its sizes (admin, manager)', {
+    upload: 'cover',
+    response: ref('CoverUpload'),
+    status: 201
+  }],
+  ['post', '/books/import', 'Check or apply a catalog import of BookImportRow records (admin, manager)', {
+    body: 'BookImport',
+    response: ref('BookImportReport')
+  }],
+
+  ['post', '/users/login', 'Log in', { body: 'LoginCredentials', response: ref('Session'), public: true }],
+  ['post', '/users/register', 'Register a customer account', { body: 'RegisterData', response: ref('Session'), status: 201, public: true }],
+  ['post', '/users/refresh', 'Exchange a refresh token for new tokens', { body: 'RefreshRequest', response: ref('Session'), public: true }],
+  ['post', '/users/logout', 'End the current session', { status: 204 }],
+  ['get', '/users/me', 'Get the logged-in user', { response: ref('User') }],
+  ['get', '/users/{id}', 'Get a user (self, or admin)', { response: ref('User') }],
+  ['put', '/users/{id}', 'Update a profile (self, or admin)', { body: 'ProfileUpdate', response: ref('User') }],
+
+  ['get', '/cart/{userId}', 'Get a cart', { response: ref('Cart') }],
+  ['delete', '/cart/{userId}', 'Empty a cart', { status: 204 }],
+  ['post', '/cart/{userId}/items', 'Add a book to a cart', { body: 'CartItemAdd', response: ref('Cart') }],
+  ['put', '/cart/{userId}/items/{isbn}', 'Change a quantity (0 removes the item)', { body: 'CartItemUpdate', response: ref('Cart') }],
+  ['delete', '/cart/{userId}/items/{isbn}', 'Remove a book from a cart', { response: ref('Cart') }],
+  ['get', '/cart/{userId}/recommendations', 'Books to go with the books in a cart', {
+    query: books.recommendationQuerySchema,
+    response: listOf('BookRecommendation')
+  }],
+  ['post', '/cart/{userId}/checkout', 'Turn a cart into an order', { body: 'CheckoutData', response: ref('CustomerOrder'), status: 201 }],
+
+  ['get', '/orders', 'List all orders (admin, manager)', { response: listOf('CustomerOrder') }],
+  ['get', '/orders/user/{userId}', "List a user's orders", { response: listOf('CustomerOrder') }],
+  ['get', '/orders/{id}', 'Get an order', { response: ref('CustomerOrder') }],
+  ['post', '/orders', 'Create an order without stock changes', { body: 'OrderCreate', response: ref('CustomerOrder'), status: 201 }],
+  ['put', '/orders/{id}', 'Change an order status (admin)', { body: 'OrderStatusUpdate', response: ref('CustomerOrder') }],
+
+  ['get', '/publishers', 'List publishers (admin, manager)', { response: listOf('Publisher') }],
+  ['get', '/publishers/{id}', 'Get a publisher (admin, manager)', { response: ref('Publisher') }],
+  ['post', '/publishers', 'Add a publisher (admin)', { body: 'PublisherCreate', response: ref('Publisher'), status: 201 }],
+  ['put', '/publishers/{id}', 'Update a publisher (admin)', { body: 'PublisherUpdate', response: ref('Publisher') }],
+  ['delete', '/publishers/{id}', 'Delete a publisher without books or orders (admin)', { status: 204 }],
+
+  ['get', '/publisher-orders', 'List publisher orders (admin, manager)', { response: listOf('PublisherOrder') }],
+  ['post', '/publisher-orders', 'Place a publisher order (admin, manager)', { body: 'PublisherOrderCreate', response: ref('PublisherOrder'), status: 201 }],
+  ['post', '/publisher-orders/{id}/confirm', 'Confirm a publisher order and add its stock', { response: ref('PublisherOrder') }],
+  ['post', '/publisher-orders/{id}/cancel', 'Cancel a publisher order', { response: ref('PublisherOrder') }],
+
+  ['get', '/price-rules', 'List price rules, next to start first (admin, manager)', {
+    query: prices.priceRuleQuerySchema,
+    response: listOf('PriceRule')
+  }],
+  ['post', '/price-rules', 'Schedule a price for a book (admin, manager)', { body: 'PriceRuleCreate', response: ref('PriceRule'), status: 201 }],
+  ['post', '/price-rules/{id}/cancel', 'Cancel a scheduled or active price rule (admin, manager)', { response: ref('PriceRule') }],
+
+  ['get', '/reports/monthly-sales', "Last month's sales (admin, manager)", { response: ref('SalesReport') }],
+  ['get', '/reports/daily-sales', "A day's sales (admin, manager)", {
+    query: z.object({ date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/) }),
+    response: ref('SalesReport')
+  }],
+  ['get', '/reports/top-customers', 'Top 5 customers over three months (admin, manager)', { response: listOf('TopCustomer') }],
+  ['get', '/reports/top-selling-books', 'Top 10 books over three months (admin, manager)', { response: listOf('BookSalesReport') }],
+  ['get', '/reports/book-order-count/{isbn}', 'Publisher orders placed for a book (admin, manager)', { response: ref('BookOrderCount') }],
+  ['get', '/reports/price-periods', 'Sales at each price of books repriced in a date range (admin, manager)', {
+    query: reports.pricePeriodQuerySchema,
+    response: listOf('PricePeriodReport')
+  }]
+];
+
+/**
+ * Describes one operation.
+ *
+ * @param {string} path - Path with {param} placeholders
+ * @param {string} summary - One-line description
+ * @param {Object} options - See operations
+ * @returns {Object} OpenAPI operation object
+ */
+function toOperation(path, summary, options) {
+  const operation = { summary };
+
+  const pathParams = [...path.matchAll(/\{(\w+)\}/g)].map(([, name]) => ({
+    name,
+    in: 'path',
+    required: true,
+    schema: { type: 'string' }
+  }));
+
+  let queryParams = [];
+  if (options.query) {
+    const { properties = {}, required = [] } = z.toJSONSchema(options.query, { io: 'input' });
+    queryParams = Object.entries(properties).map(([name, schema]) => ({
+      name,
+      in: 'query',
+      required: required.includes(name),
+      schema
+    }));
+  }
+
+  const parameters = [...pathParams, ...queryParams];
+  if (parameters.length > 0) operation.parameters = parameters;
+
+  if (options.body) {
+    operation.requestBody = {
+      required: true,
+      content: { 'application/json': { schema: ref(options.body) } }
+    };
+  }
+  if (options.upload) {
+    operation.requestBody = {
+      required: true,
+      content: {
+        'multipart/form-data': {
+          schema: {
+            type: 'object',
+            properties: { [options.upload]: { type: 'string', contentMediaType: 'application/octet-stream' } },
+            required: [options.upload]
+          }
+        }
+      }
+    };
+  }
+
+  const status = String(options.status || 200);
+  operation.responses = {
+    [status]: options.response
+      ? { description: 'Success', content: { 'application/json': { schema: options.response } } }
+      : { description: 'Success' }
+  };
+  if (options.body || options.query || options.upload) {
+    operation.responses['400'] = {
+      description: 'Invalid fields',
+      content: { 'application/json': { schema: ref('ValidationError') } }
+    };
+  }
+  if (!options.public) {
+    operation.security = [{ bearerAuth: [] }];
+    operation.responses['401'] = {
+      description: 'Missing or expired access token',
+      content: { 'application/json': { schema: ref('Error') } }
+    };
+    operation.responses['403'] = {
+      description: 'Role or ownership check failed',
+      content: { 'application/json': { schema: ref('Error') } }
+    };
+  }
+
+  return operation;
+}
+
+// ============================================
+// DOCUMENT
+// ============================================
+
+/**
+ * Builds the OpenAPI document.
+ *
+ * @returns {Object} OpenAPI 3.1 document
+ */
+function buildOpenApiDocument() {
+  const paths = {};
+  for (const [method, path, summary, options] of operations) {
+    paths[path] = paths[path] || {};
+    paths[path][method] = toOperation(path, summary, options);
+  }
+
+  return {
+    openapi: '3.1.0',
+    info: {
+      title: 'Bookstore API',
+      version: '1.0.0'
+    },
+    servers: [{ url: '/api' }],
+    paths,
+    components: {
+      schemas: {
+        ...toComponents(responseComponents, 'output'),
+        ...toComponents(requestComponents, 'input')
+      },
+      securitySchemes: {
+        bearerAuth: { type: 'http', scheme: 'bearer', bearerFormat: 'JWT' }
+      }
+    }
+  };
+}
+
+module.exports = {
+  buildOpenApiDocument
+};
@@ -0,0 +1,86 @@
+/**
+ * @fileoverview Customer Order Schemas
+ *
+ * Customer orders returned by /api/orders and by checkout, and the
+ * bodies that create an order or change its status. Mirrors the orders
+ * and order_items tables. Publisher (restocking) orders are in
+ * publisherOrders.
+ *
+ * @module orders
+ */
+
+const { z, isbn, integer, oneOf, id } = require('./common');
+const { BOOK_FORMATS } = require('./editions');
+
+/**
+ * Order lifecycle: 'pending' when placed, then 'shipped' and 'delivered',
+ * or 'cancelled'.
+ */
+const ORDER_STATUSES = /** @type {const} */ (['pending', 'shipped', 'delivered', 'cancelled']);
+
+/** A line of an order, priced when the order was placed */
+const orderItemSchema = z.object({
+  isbn: z.string(),
+  /** Book title (denormalized for history) */
+  title: z.string(),
+  /** Edition bought */
+  format: z.enum(BOOK_FORMATS),
+  quantity: z.number().int(),
+  /** Selling price per copy at the time of purchase, in USD */
+  price: z.number()
+});
+
+/** A customer order */
+const customerOrderSchema = z.object({
+  /** 'ORD-{timestamp}-{random hex}' */
+  id: z.string(),
+  /** Customer who placed the order */
+  userId: z.string(),
+  items: z.array(orderItemSchema),
+  /** Sum of price x quantity over the items, in USD */
+  totalPrice: z.number(),
+  status: z.enum(ORDER_STATUSES),
+  /** When the order was placed (ISO 8601) */
+  createdAt: z.string()
+});
+
+/**
+ * POST /api/orders.
+ * Clients name the books and quantities only; prices and the total are
+ * taken from the catalog when the order is recorded. Each book is listed
+ * once (ISBNs are compared in stored form).
+ */
+const orderCreateSchema = z.strictObject({
+  userId: id('User ID'),
+  items: z.array(z.strictObject({
+    isbn: isbn('ISBN'),
+    quantity: integer('Quantity').positive('Quantity must be at least 1')
+  }), { error: 'Items must be a list' })
+    .min(1, 'An order needs at least one item')
+    .superRefine((items, ctx) => {
+      items.forEach((item, index) => {
+        const first = items.findIndex(other => other.isbn === item.isbn);
+        if (first < index) {
+          ctx.addIssue({ code: 'custom', path: [index, 'isbn'], message: `Same book as item ${first + 1}` });
+        }
+      });
+    })
+});
+
+/** PUT /api/orders/:id */
+const orderStatusSchema = z.strictObject({
+  status: oneOf('Status', ORDER_STATUSES)
+});
+
+/** @typedef {z.infer<typeof orderItemSchema>} CustomerOrderItem */
+/** @typedef {z.infer<typeof customerOrderSchema>} CustomerOrder */
+/** @typedef {CustomerOrder['status']} CustomerOrderStatus */
+/** @typedef {z.input<typeof orderCreateSchema>} OrderCreateData */
+
+module.exports = {
+  ORDER_STATUSES,
+  orderItemSchema,
+  customerOrderSchema,
+  orderCreateSchema,
+  orderStatusSchema
+};
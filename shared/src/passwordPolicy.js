@@ -0,0 +1,42 @@
+/**
+ * @fileoverview Password Policy
+ *
+ * Rules for new passwords. The backend applies them when a password is
+ * set (registration, profile updates); the frontend forms check the same
+ * rules before submitting.
+ *
+ * Policy:
+ * - At least 8 characters
+ * - At least one letter and one digit
+ * - Must not contain the username
+ *
+ * @module passwordPolicy
+ */
+
+/** Minimum password length */
+const MIN_PASSWORD_LENGTH = 8;
+
+/**
+ * Checks a new password against the password policy.
+ *
+ * @param {string} password - Proposed password
+ * @param {string} [username] - Account username, which the password must not contain
+ * @returns {string|null} Message for the first broken rule, or null if the password is acceptable
+ */
+function checkPasswordPolicy(password, username) {
+  if (typeof password !== 'string' || password.length < MIN_PASSWORD_LENGTH) {
+    return `Password must be at least ${MIN_PASSWORD_LENGTH} characters`;
+  }
+  if (!/[A-Za-z]/.test(password) || !/\d/.test(password)) {
+    return 'Password must contain at least one letter and one digit';
+  }
+  if (username && password.toLowerCase().includes(String(username).toLowerCase())) {
+    return 'Password must not contain your username';
+  }
+  return null;
+}
+
+module.exports = {
+  MIN_PASSWORD_LENGTH,
+  checkPasswordPolicy
+};
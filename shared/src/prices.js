@@ -0,0 +1,123 @@
+/**
+ * @fileoverview Price Schemas
+ *
+ * A book's price history, the scheduled price rules that change it, and
+ * the bodies that schedule and list rules (/api/price-rules,
+ * /api/books/:isbn/prices). Sales per price are a report (see the
+ * reports module).
+ *
+ * Every change of a book's sellingPrice is recorded as a price change,
+ * whether it was typed in, imported or applied by a rule. A rule sets a
+ * book's price at startsAt and, if it has an endsAt, puts the previous
+ * price back then; the server's scheduler applies them.
+ *
+ * Times are ISO 8601 with an offset, e.g. '2026-11-27T00:00:00.000Z'.
+ *
+ * @module prices
+ */
+
+const { z, text, isbn, price, oneOf } = require('./common');
+const { BOOK_FORMATS } = require('./editions');
+
+/**
+ * What changed a price: 'created' (the book was added), 'manual' (edited
+ * in the catalog), 'import' (a catalog import) or 'schedule' (a price rule
+ * starting or ending).
+ */
+const PRICE_CHANGE_SOURCES = /** @type {const} */ (['created', 'manual', 'import', 'schedule']);
+
+/**
+ * Price rule lifecycle: 'scheduled' until startsAt, 'active' while its
+ * price is in effect (until endsAt), then 'completed'. A rule without an
+ * endsAt completes as soon as it is applied. Scheduled and active rules
+ * can be 'cancelled'; cancelling an active rule puts the previous price back.
+ */
+const PRICE_RULE_STATUSES = /** @type {const} */ (['scheduled', 'active', 'completed', 'cancelled']);
+
+/**
+ * A date and time with an offset.
+ *
+ * @param {string} label - Field name shown to the user
+ * @returns {import('zod').ZodISODateTime} Schema
+ */
+const timestamp = label => z.iso.datetime({
+  offset: true,
+  error: issue => issue.input === undefined
+    ? `${label} is required`
+    : `${label} must be a date and time, e.g. 2026-11-27T09:00:00Z`
+});
+
+/** One change of a book's price */
+const priceChangeSchema = z.object({
+  id: z.string(),
+  isbn: z.string(),
+  price: z.number(),
+  /** Price before the change; null for the first entry */
+  previousPrice: z.number().nullable(),
+  changedAt: z.string(),
+  source: z.enum(PRICE_CHANGE_SOURCES),
+  /** Rule that made a 'schedule' change; null otherwise */
+  ruleId: z.string().nullable(),
+  /** That rule's label, if it has one */
+  ruleLabel: z.string().nullable()
+});
+
+/** A scheduled price for a book */
+const priceRuleSchema = z.object({
+  id: z.string(),
+  isbn: z.string(),
+  /** Book title and edition (denormalized for display) */
+  title: z.string(),
+  format: z.enum(BOOK_FORMATS),
+  price: z.number(),
+  /** Why the price changes, e.g. 'Black Friday' */
+  label: z.string().nullable(),
+  startsAt: z.string(),
+  /** When the previous price comes back; null for a lasting change */
+  endsAt: z.string().nullable(),
+  status: z.enum(PRICE_RULE_STATUSES),
+  /** Price the rule replaced, put back at endsAt; null until applied */
+  previousPrice: z.number().nullable()
+});
+
+/**
+ * POST /api/price-rules - endsAt is optional (a lasting change) but must
+ * come after startsAt and be in the future. A startsAt in the past applies
+ * the rule straight away. Rules for the same book may not overlap.
+ */
+const priceRuleCreateSchema = z.strictObject({
+  isbn: isbn('ISBN'),
+  price: price('Price'),
+  label: text('Label', 100).optional(),
+  startsAt: timestamp('Start'),
+  endsAt: timestamp('End').optional()
+}).refine(rule => rule.endsAt === undefined || Date.parse(rule.endsAt) > Date.parse(rule.startsAt), {
+  path: ['endsAt'],
+  error: 'End must be after the start'
+}).refine(rule => rule.endsAt === undefined || Date.parse(rule.endsAt) > Date.now(), {
+  path: ['endsAt'],
+  error: 'End must be in the future'
+});
+
+/** GET /api/price-rules query filters */
+const priceRuleQuerySchema = z.object({
+  /** Rules for this book */
+  isbn: z.string().trim().optional(),
+  status: oneOf('Status', PRICE_RULE_STATUSES).optional()
+});
+
+/** @typedef {typeof PRICE_CHANGE_SOURCES[number]} PriceChangeSource */
+/** @typedef {typeof PRICE_RULE_STATUSES[number]} PriceRuleStatus */
+/** @typedef {z.infer<typeof priceChangeSchema>} PriceChange */
+/** @typedef {z.infer<typeof priceRuleSchema>} PriceRule */
+/** @typedef {z.input<typeof priceRuleCreateSchema>} PriceRuleCreateData */
+/** @typedef {z.input<typeof priceRuleQuerySchema>} PriceRuleQuery */
+
+module.exports = {
+  PRICE_CHANGE_SOURCES,
+  PRICE_RULE_STATUSES,
+  priceChangeSchema,
+  priceRuleSchema,
+  priceRuleCreateSchema,
+  priceRuleQuerySchema
+};
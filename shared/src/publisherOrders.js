@@ -0,0 +1,49 @@
+/**
+ * @fileoverview Publisher Order Schemas
+ *
+ * Stock replenishment orders returned by /api/publisher-orders, and the
+ * body that places one.
+ *
+ * @module publisherOrders
+ */
+
+const { z, isbn, integer } = require('./common');
+const { BOOK_FORMATS } = require('./editions');
+
+/**
+ * Publisher order lifecycle: 'Pending' until an admin or manager confirms
+ * it (stock is added) or cancels it (no stock change).
+ */
+const PUBLISHER_ORDER_STATUSES = /** @type {const} */ (['Pending', 'Confirmed', 'Cancelled']);
+
+/** A publisher order */
+const publisherOrderSchema = z.object({
+  id: z.string(),
+  bookIsbn: z.string(),
+  /** Book title (denormalized for display) */
+  bookTitle: z.string(),
+  /** Edition ordered */
+  bookFormat: z.enum(BOOK_FORMATS),
+  /** Supplier name; null for old orders placed without one */
+  publisher: z.string().nullable(),
+  quantity: z.number().int(),
+  /** Date the order was placed (YYYY-MM-DD) */
+  orderDate: z.string(),
+  status: z.enum(PUBLISHER_ORDER_STATUSES)
+});
+
+/** POST /api/publisher-orders */
+const publisherOrderCreateSchema = z.strictObject({
+  bookIsbn: isbn('ISBN'),
+  quantity: integer('Quantity').positive('Quantity must be at least 1').default(20)
+});
+
+/** @typedef {z.infer<typeof publisherOrderSchema>} PublisherOrder */
+/** @typedef {PublisherOrder['status']} PublisherOrderStatus */
+/** @typedef {z.input<typeof publisherOrderCreateSchema>} PublisherOrderCreateData */
+
+module.exports = {
+  PUBLISHER_ORDER_STATUSES,
+  publisherOrderSchema,
+  publisherOrderCreateSchema
+};
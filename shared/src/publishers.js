@@ -0,0 +1,80 @@
+/**
+ * @fileoverview Publisher Schemas
+ *
+ * The publishers (book suppliers) returned by /api/publishers and the
+ * bodies that create and update them. Mirrors the publishers table: a
+ * name, contact details, and the ordering terms used for replenishment
+ * (lead time and minimum order). Books link to their publisher by ID.
+ *
+ * @module publishers
+ */
+
+const { z, text, integer } = require('./common');
+
+/**
+ * An optional, trimmed string; empty text clears the value (null).
+ *
+ * @param {string} label - Field name shown to the user
+ * @param {number} max - Maximum length
+ * @returns {import('zod').ZodType<string|null, string|null>} Schema
+ */
+const optionalText = (label, max) => z.string({ error: `${label} must be text` })
+  .trim()
+  .max(max, `${label} must be at most ${max} characters`)
+  .nullable()
+  .transform(value => value || null);
+
+/** A publisher */
+const publisherSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  email: z.string().nullable(),
+  address: z.string().nullable(),
+  phone: z.string().nullable(),
+  /** Days between placing an order and receiving the stock */
+  leadTimeDays: z.number().int(),
+  /** Fewest copies the publisher accepts in one order */
+  minimumOrder: z.number().int(),
+  /** Number of books supplied by the publisher */
+  bookCount: z.number().int()
+});
+
+/** Fields clients may set */
+const publisherFields = {
+  name: text('Name', 100),
+  email: optionalText('Email', 255)
+    .refine(email => email === null || z.email().safeParse(email).success, 'Enter a valid email address'),
+  address: optionalText('Address', 500),
+  phone: optionalText('Phone', 20),
+  leadTimeDays: integer('Lead time')
+    .min(0, 'Lead time cannot be negative')
+    .max(365, 'Lead time must be at most 365 days'),
+  minimumOrder: integer('Minimum order').min(1, 'Minimum order must be at least 1')
+};
+
+/**
+ * POST /api/publishers.
+ * Only the name is required; contact details default to none, the lead
+ * time to a week and the minimum order to one copy.
+ */
+const publisherCreateSchema = z.strictObject({
+  name: publisherFields.name,
+  email: publisherFields.email.default(null),
+  address: publisherFields.address.default(null),
+  phone: publisherFields.phone.default(null),
+  leadTimeDays: publisherFields.leadTimeDays.default(7),
+  minimumOrder: publisherFields.minimumOrder.default(1)
+});
+
+/** PUT /api/publishers/:id - any subset of fields */
+const publisherUpdateSchema = z.strictObject(publisherFields).partial();
+
+/** @typedef {z.infer<typeof publisherSchema>} Publisher */
+/** @typedef {z.input<typeof publisherCreateSchema>} PublisherCreateData */
+/** @typedef {z.input<typeof publisherUpdateSchema>} PublisherUpdateData */
+
+module.exports = {
+  publisherSchema,
+  publisherCreateSchema,
+  publisherUpdateSchema
+};
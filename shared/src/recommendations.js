@@ -0,0 +1,66 @@
+/**
+ * @fileoverview Recommendations
+ *
+ * "Customers also bought": books recommended for a book or a cart from
+ * what customers bought together, topped up with books by the same
+ * authors or in the same categories while there are few orders to go on.
+ *
+ * @module recommendations
+ *
+ * @description
+ * Two books are bought together when one order contains both. Their
+ * affinity is the number of such orders, counted for every ordered pair
+ * of ISBNs in an order (so each pair is counted in both directions) and
+ * kept up to date as orders are placed and cancelled.
+ *
+ * Recommendations are for works, not editions: the editions of the books
+ * asked about count as those books, their works are never recommended,
+ * and each recommended work appears once, as its best-placed edition.
+ * Archived books are never recommended.
+ *
+ * Recommendations are ranked by reason (RECOMMENDATION_REASONS, in order)
+ * and then by score: the orders bought together, or the authors or
+ * categories in common.
+ */
+
+/**
+ * Why a book is recommended, best first: 'bought-together' (in orders with
+ * the books asked about), 'same-author' or 'same-category'.
+ */
+const RECOMMENDATION_REASONS = /** @type {const} */ (['bought-together', 'same-author', 'same-category']);
+
+/** Headings for each reason */
+const REASON_LABELS = {
+  'bought-together': 'Customers also bought',
+  'same-author': 'By the same author',
+  'same-category': 'In the same category'
+};
+
+/** Recommendations returned when no limit is asked for */
+const DEFAULT_RECOMMENDATIONS = 8;
+
+/** Most recommendations one request can ask for */
+const MAX_RECOMMENDATIONS = 24;
+
+/**
+ * The pairs of books one order adds to their affinity: every ordered pair
+ * of different ISBNs, each ISBN counted once however many lines name it.
+ *
+ * @param {string[]} isbns - ISBNs of an order's lines
+ * @returns {Array<[string, string]>} Pairs [book, bought with]
+ *
+ * @example
+ * coPurchasePairs(['A', 'B', 'A']); // [['A', 'B'], ['B', 'A']]
+ */
+function coPurchasePairs(isbns) {
+  const unique = [...new Set(isbns)];
+  return unique.flatMap(isbn => unique.filter(other => other !== isbn).map(other => [isbn, other]));
+}
+
+module.exports = {
+  RECOMMENDATION_REASONS,
+  REASON_LABELS,
+  DEFAULT_RECOMMENDATIONS,
+  MAX_RECOMMENDATIONS,
+  coPurchasePairs
+};
@@ -0,0 +1,111 @@
+/**
+ * @fileoverview Report Schemas
+ *
+ * Sales and inventory reports returned by /api/reports, and the query of
+ * the price periods report (sales of each book at each of its prices).
+ *
+ * @module reports
+ */
+
+const { z } = require('./common');
+const { BOOK_FORMATS } = require('./editions');
+
+/** Sales totals for a period */
+const salesReportSchema = z.object({
+  /** Revenue in USD */
+  totalSales: z.number(),
+  totalOrders: z.number().int(),
+  /** Period covered, e.g. '2024-01-15' or a date range */
+  period: z.string()
+});
+
+/** Copies sold and revenue for one book (each edition is reported on its own) */
+const bookSalesReportSchema = z.object({
+  isbn: z.string(),
+  title: z.string(),
+  /** Edition; null if the book is no longer in the catalog */
+  format: z.enum(BOOK_FORMATS).nullable(),
+  copiesSold: z.number().int(),
+  totalRevenue: z.number()
+});
+
+/** A customer ranked by purchase amount */
+const topCustomerSchema = z.object({
+  customerId: z.string(),
+  /** First and last name */
+  customerName: z.string(),
+  email: z.string(),
+  totalPurchaseAmount: z.number(),
+  orderCount: z.number().int()
+});
+
+/** Number of publisher orders placed for one book */
+const bookOrderCountSchema = z.object({
+  isbn: z.string(),
+  title: z.string(),
+  /** Edition; null if the book is not in the catalog */
+  format: z.enum(BOOK_FORMATS).nullable(),
+  orderCount: z.number().int()
+});
+
+/**
+ * A calendar date.
+ *
+ * @param {string} label - Field name shown to the user
+ * @returns {import('zod').ZodString} Schema for YYYY-MM-DD
+ */
+const day = label => z.string({ error: `${label} is required` })
+  .regex(/^\d{4}-\d{2}-\d{2}$/, `${label} must be in YYYY-MM-DD format`);
+
+/** GET /api/reports/price-periods query */
+const pricePeriodQuerySchema = z.object({
+  startDate: day('Start date'),
+  endDate: day('End date')
+}).refine(range => range.startDate <= range.endDate, {
+  path: ['endDate'],
+  error: 'End date must not be before the start date'
+});
+
+/**
+ * Sales of one book at one price: the time between two price changes,
+ * cut to the report's date range.
+ */
+const pricePeriodSchema = z.object({
+  price: z.number(),
+  from: z.string(),
+  to: z.string(),
+  /** Length of the period in days (fractional) */
+  days: z.number(),
+  copiesSold: z.number().int(),
+  /** Revenue from the period's orders, at the prices paid */
+  revenue: z.number()
+});
+
+/**
+ * A book whose price changed during the report's date range, with its
+ * sales at each price, oldest first.
+ */
+const pricePeriodReportSchema = z.object({
+  isbn: z.string(),
+  title: z.string(),
+  format: z.enum(BOOK_FORMATS),
+  periods: z.array(pricePeriodSchema)
+});
+
+/** @typedef {z.infer<typeof salesReportSchema>} SalesReport */
+/** @typedef {z.infer<typeof bookSalesReportSchema>} BookSalesReport */
+/** @typedef {z.infer<typeof topCustomerSchema>} TopCustomer */
+/** @typedef {z.infer<typeof bookOrderCountSchema>} BookOrderCount */
+/** @typedef {z.input<typeof pricePeriodQuerySchema>} PricePeriodQuery */
+/** @typedef {z.infer<typeof pricePeriodSchema>} PricePeriod */
+/** @typedef {z.infer<typeof pricePeriodReportSchema>} PricePeriodReport */
+
+module.exports = {
+  salesReportSchema,
+  bookSalesReportSchema,
+  topCustomerSchema,
+  bookOrderCountSchema,
+  pricePeriodQuerySchema,
+  pricePeriodSchema,
+  pricePeriodReportSchema
+};
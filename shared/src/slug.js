@@ -0,0 +1,36 @@
+/**
+ * @fileoverview URL Slugs
+ *
+ * Slugs name records in URLs (e.g. /books?category=popular-science).
+ * They are lowercase letters, digits and single hyphens.
+ *
+ * @module slug
+ */
+
+/** What a valid slug looks like */
+const SLUG_PATTERN = /^[a-z0-9]+(?:-[a-z0-9]+)*$/;
+
+/**
+ * Derives a slug from a display name.
+ *
+ * @param {string} name - Display name
+ * @returns {string} Slug (empty if the name has no letters or digits)
+ *
+ * @example
+ * slugify('Popular Science');  // 'popular-science'
+ * slugify('Art & Design');     // 'art-design'
+ * slugify('Géographie');       // 'geographie'
+ */
+function slugify(name) {
+  return String(name)
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+}
+
+module.exports = {
+  SLUG_PATTERN,
+  slugify
+};
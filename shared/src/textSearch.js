@@ -0,0 +1,283 @@
+/**
+ * @fileoverview Text Search
+ *
+ * How the catalog matches what a shopper types: word by word, by stem
+ * ('programming' finds 'Programmer'), forgiving typos ('algoritms' finds
+ * 'Algorithms') and ranked by where the words are found.
+ *
+ * @module textSearch
+ *
+ * @description
+ * A book is indexed by the words of its title, its authors' names and
+ * aliases, and its publisher's name, each weighted by field
+ * (FIELD_WEIGHTS): a title match ranks above an author match, and an
+ * author match above a publisher match. Words are stemmed and English
+ * stop words ('the', 'of', ...) are left out.
+ *
+ * Every word of a search must match. A word matches a book's word with
+ * the same stem, or an indexed word whose trigram similarity to it is at
+ * least FUZZY_SIMILARITY (words of MIN_FUZZY_LENGTH letters or more). The
+ * last word also matches as a prefix, so results appear while typing.
+ * Exact matches count twice, so they rank above typo matches.
+ *
+ * The backend does this with PostgreSQL full-text search (the book_search
+ * table and book_search_query(), see migration 013) and pg_trgm, with
+ * the same weights and thresholds. createSearchIndex() is the in-memory
+ * equivalent, used by the frontend's mock API; its stemmer is Porter's,
+ * which PostgreSQL's English stemmer refines, so a few rare words stem
+ * differently.
+ */
+
+/** Rank of a match in each field of a book */
+const FIELD_WEIGHTS = {
+  title: 1,
+  authors: 0.4,
+  publisher: 0.2
+};
+
+/** Least trigram similarity for an indexed word to stand in for a misspelled one */
+const FUZZY_SIMILARITY = 0.4;
+
+/** Shortest word (stem) that is matched to similar words */
+const MIN_FUZZY_LENGTH = 4;
+
+/** Words too common to search by (PostgreSQL's English stop words) */
+const STOP_WORDS = new Set((
+  'i me my myself we our ours ourselves you your yours yourself yourselves he him his himself ' +
+  'she her hers herself it its itself they them their theirs themselves what which who whom ' +
+  'this that these those am is are was were be been being have has had having do does did ' +
+  'doing a an the and but if or because as until while of at by for with about against ' +
+  'between into through during before after above below to from up down in out on off over ' +
+  'under again further then once here there when where why how all any both each few more ' +
+  'most other some such no nor not only own same so than too very s t can will just don should now'
+).split(' '));
+
+// ============================================
+// WORDS
+// ============================================
+
+/**
+ * Splits text into the words a search looks at: lower case, without
+ * accents, punctuation or stop words.
+ *
+ * @param {string} text - Text to split
+ * @returns {string[]} Words, in order
+ *
+ * @example
+ * tokenize("Knuth's The Art of Programming"); // ['knuth', 'art', 'programming']
+ */
+function tokenize(text) {
+  return text
+    .normalize('NFKD')
+    .replace(/\p{M}/gu, '')
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(word => word !== '' && !STOP_WORDS.has(word));
+}
+
+/** Suffixes replaced in step 2 of the Porter stemmer */
+const STEP_2_SUFFIXES = {
+  ational: 'ate', tional: 'tion', enci: 'ence', anci: 'ance', izer: 'ize', bli: 'ble',
+  alli: 'al', entli: 'ent', eli: 'e', ousli: 'ous', ization: 'ize', ation: 'ate',
+  ator: 'ate', alism: 'al', iveness: 'ive', fulness: 'ful', ousness: 'ous', aliti: 'al',
+  iviti: 'ive', biliti: 'ble', logi: 'log'
+};
+
+/** Suffixes replaced in step 3 of the Porter stemmer */
+const STEP_3_SUFFIXES = {
+  icate: 'ic', ative: '', alize: 'al', iciti: 'ic', ical: 'ic', ful: '', ness: ''
+};
+
+// Porter's measure of a stem: the number of vowel-consonant sequences
+const CONSONANTS = '[^aeiou][^aeiouy]*';
+const VOWELS = '[aeiouy][aeiou]*';
+const MEASURE_ABOVE_0 = new RegExp(`^(${CONSONANTS})?${VOWELS}${CONSONANTS}`);
+const MEASURE_1 = new RegExp(`^(${CONSONANTS})?${VOWELS}${CONSONANTS}(${VOWELS})?$`);
+const MEASURE_ABOVE_1 = new RegExp(`^(${CONSONANTS})?${VOWELS}${CONSONANTS}${VOWELS}${CONSONANTS}`);
+const HAS_VOWEL = new RegExp(`^(${CONSONANTS})?[aeiouy]`);
+const ENDS_CVC = new RegExp(`^${CONSONANTS}[aeiouy][^aeiouwxy]$`);
+
+/**
+ * Reduces a word to its stem with the Porter stemmer, so the forms of a
+ * word match each other.
+ *
+ * @param {string} word - Lower-case word
+ * @returns {string} Stem
+ *
+ * @example
+ * stem('programming'); // 'program'
+ * stem('algorithms');  // 'algorithm'
+ */
+function stem(word) {
+  if (word.length < 3 || !/^[a-z]+$/.test(word)) return word;
+
+  // A leading y is a consonant
+  let w = word[0] === 'y' ? `Y${word.slice(1)}` : word;
+  let match;
+
+  // Step 1a: plurals
+  if ((match = /^(.+?)(ss|i)es$/.exec(w))) w = match[1] + match[2];
+  else if ((match = /^(.+?)([^s])s$/.exec(w))) w = match[1] + match[2];
+
+  // Step 1b: -eed, -ed, -ing
+  if ((match = /^(.+?)eed$/.exec(w))) {
+    if (MEASURE_ABOVE_0.test(match[1])) w = w.slice(0, -1);
+  } else if ((match = /^(.+?)(ed|ing)$/.exec(w)) && HAS_VOWEL.test(match[1])) {
+    w = match[1];
+    if (/(at|bl|iz)$/.test(w)) w += 'e';
+    else if (/([^aeiouylsz])\1$/.test(w)) w = w.slice(0, -1);
+    else if (ENDS_CVC.test(w)) w += 'e';
+  }
+
+  // Step 1c: -y after a vowel
+  if ((match = /^(.+?)y$/.exec(w)) && HAS_VOWEL.test(match[1])) w = `${match[1]}i`;
+
+  // Steps 2 and 3: double and single suffixes
+  if ((match = /^(.+?)(ational|tional|enci|anci|izer|bli|alli|entli|eli|ousli|ization|ation|ator|alism|iveness|fulness|ousness|aliti|iviti|biliti|logi)$/.exec(w))
+      && MEASURE_ABOVE_0.test(match[1])) {
+    w = match[1] + STEP_2_SUFFIXES[match[2]];
+  }
+  if ((match = /^(.+?)(icate|ative|alize|iciti|ical|ful|ness)$/.exec(w)) && MEASURE_ABOVE_0.test(match[1])) {
+    w = match[1] + STEP_3_SUFFIXES[match[2]];
+  }
+
+  // Step 4: -ant, -ence, ...
+  if ((match = /^(.+?)(al|ance|ence|er|ic|able|ible|ant|ement|ment|ent|ou|ism|ate|iti|ous|ive|ize)$/.exec(w))) {
+    if (MEASURE_ABOVE_1.test(match[1])) w = match[1];
+  } else if ((match = /^(.+?)(s|t)(ion)$/.exec(w)) && MEASURE_ABOVE_1.test(match[1] + match[2])) {
+    w = match[1] + match[2];
+  }
+
+  // Step 5: final -e and -ll
+  if ((match = /^(.+?)e$/.exec(w))) {
+    const rest = match[1];
+    if (MEASURE_ABOVE_1.test(rest) || (MEASURE_1.test(rest) && !ENDS_CVC.test(rest))) w = rest;
+  }
+  if (/ll$/.test(w) && MEASURE_ABOVE_1.test(w)) w = w.slice(0, -1);
+
+  return w[0] === 'Y' ? `y${w.slice(1)}` : w;
+}
+
+/**
+ * Trigram similarity of two words, as pg_trgm computes it: the share of
+ * their three-letter sequences (the word padded with two spaces before
+ * and one after) that they have in common.
+ *
+ * @param {string} a - Word
+ * @param {string} b - Word
+ * @returns {number} From 0 (nothing in common) to 1 (same trigrams)
+ *
+ * @example
+ * trigramSimilarity('algoritm', 'algorithm'); // 0.58...
+ */
+function trigramSimilarity(a, b) {
+  const trigrams = word => {
+    const padded = `  ${word} `;
+    const set = new Set();
+    for (let i = 0; i + 3 <= padded.length; i++) set.add(padded.slice(i, i + 3));
+    return set;
+  };
+  const first = trigrams(a);
+  const second = trigrams(b);
+  const shared = [...first].filter(trigram => second.has(trigram)).length;
+  return shared / (first.size + second.size - shared);
+}
+
+// ============================================
+// INDEX
+// ============================================
+
+/**
+ * @typedef {Object} SearchFields
+ * @property {string} title
+ * @property {string[]} authors - Authors' names and aliases
+ * @property {string|null} publisher - Publisher's name
+ */
+
+/**
+ * An in-memory search index, for a catalog kept in the browser.
+ * Entries are set again whenever a book changes and removed with it.
+ *
+ * @returns {{
+ *   set: (key: string, fields: SearchFields) => void,
+ *   remove: (key: string) => void,
+ *   search: (text: string) => Map<string, number>
+ * }} Index: search() returns the keys of the matching entries with their
+ *   relevance (higher is better); nothing matches text without a word to
+ *   search by
+ *
+ * @example
+ * const index = createSearchIndex();
+ * index.set('9780262046305', { title: 'Introduction to Algorithms', authors: ['Thomas H. Cormen'], publisher: 'MIT Press' });
+ * index.search('algoritms'); // Map { '9780262046305' => 1 }
+ */
+function createSearchIndex() {
+  /** Each entry's stems, with the weight of the best field each is in */
+  const documents = new Map();
+  /** Every stem ever indexed, for matching misspellings */
+  const vocabulary = new Set();
+
+  return {
+    set(key, { title, authors, publisher }) {
+      const document = new Map();
+      const add = (text, weight) => tokenize(text).map(stem).forEach(word => {
+        document.set(word, Math.max(document.get(word) ?? 0, weight));
+        vocabulary.add(word);
+      });
+      add(title, FIELD_WEIGHTS.title);
+      add(authors.join(' '), FIELD_WEIGHTS.authors);
+      add(publisher ?? '', FIELD_WEIGHTS.publisher);
+      documents.set(key, document);
+    },
+
+    remove(key) {
+      documents.delete(key);
+    },
+
+    search(text) {
+      const stems = [...new Set(tokenize(text).map(stem))];
+      const terms = stems.map((word, index) => ({
+        word,
+        prefix: index === stems.length - 1,
+        similar: word.length >= MIN_FUZZY_LENGTH
+          ? new Set([...vocabulary].filter(other => other !== word && trigramSimilarity(other, word) >= FUZZY_SIMILARITY))
+          : new Set()
+      }));
+
+      const results = new Map();
+      if (terms.length === 0) return results;
+
+      for (const [key, document] of documents) {
+        let relevance = 0;
+        for (const term of terms) {
+          let best = 0;
+          for (const [word, weight] of document) {
+            if (word === term.word || (term.prefix && word.startsWith(term.word))) {
+              best = Math.max(best, weight * 2);
+            } else if (term.similar.has(word)) {
+              best = Math.max(best, weight);
+            }
+          }
+          if (best === 0) {
+            relevance = 0;
+            break;
+          }
+          relevance += best;
+        }
+        if (relevance > 0) results.set(key, relevance);
+      }
+      return results;
+    }
+  };
+}
+
+module.exports = {
+  FIELD_WEIGHTS,
+  FUZZY_SIMILARITY,
+  MIN_FUZZY_LENGTH,
+  STOP_WORDS,
+  tokenize,
+  stem,
+  trigramSimilarity,
+  createSearchIndex
+};
@@ -0,0 +1,113 @@
+/**
+ * @fileoverview User Schemas
+ *
+ * The user profile and session returned by /api/users, and the login,
+ * registration and profile update bodies. Mirrors the users table.
+ *
+ * @module users
+ */
+
+const { z, text, oneOf } = require('./common');
+const { checkPasswordPolicy } = require('./passwordPolicy');
+
+/** User roles (what each may do is decided by the backend's authorize middleware) */
+const ROLES = /** @type {const} */ (['admin', 'manager', 'customer']);
+
+/** Longest password accepted (hashing cost grows with length) */
+const MAX_PASSWORD_LENGTH = 128;
+
+/** Profile fields shared by registration and profile updates */
+const profileFields = {
+  email: z.email({ error: 'Enter a valid email address' })
+    .max(100, 'Email must be at most 100 characters'),
+  firstName: text('First name', 50),
+  lastName: text('Last name', 50),
+  phone: text('Phone', 20)
+    .regex(/^[0-9+()\-.\s]+$/, 'Phone may only contain digits, spaces and + ( ) - .'),
+  shippingAddress: text('Shipping address', 500)
+};
+
+/**
+ * A user as returned by the API (never includes the password).
+ * Phone and shipping address are empty for accounts created without them,
+ * such as the seeded admin.
+ */
+const userSchema = z.object({
+  id: z.string(),
+  username: z.string(),
+  email: z.string(),
+  firstName: z.string(),
+  lastName: z.string(),
+  phone: z.string().optional(),
+  shippingAddress: z.string().optional(),
+  role: z.enum(ROLES)
+});
+
+/** Login, registration and refresh response */
+const sessionSchema = z.object({
+  user: userSchema,
+  accessToken: z.string(),
+  refreshToken: z.string(),
+  /** Access token lifetime in seconds */
+  expiresIn: z.number()
+});
+
+/**
+ * A new password: the policy rules that do not depend on the username.
+ * The username rule is checked where the username is known.
+ */
+const newPassword = z.string({ error: 'Password is required' })
+  .max(MAX_PASSWORD_LENGTH, `Password must be at most ${MAX_PASSWORD_LENGTH} characters`)
+  .superRefine((password, ctx) => {
+    const message = checkPasswordPolicy(password);
+    if (message) ctx.addIssue({ code: 'custom', message });
+  });
+
+/** POST /api/users/login */
+const loginSchema = z.strictObject({
+  username: z.string({ error: 'Username is required' }).min(1, 'Username is required'),
+  password: z.string({ error: 'Password is required' }).min(1, 'Password is required')
+});
+
+/** POST /api/users/register - every field is required */
+const registerSchema = z.strictObject({
+  username: text('Username', 50)
+    .regex(/^[A-Za-z0-9_.-]+$/, 'Username may only contain letters, digits and _ . -'),
+  password: newPassword,
+  ...profileFields
+}).superRefine(({ username, password }, ctx) => {
+  const message = checkPasswordPolicy(password, username);
+  if (message) ctx.addIssue({ code: 'custom', path: ['password'], message });
+});
+
+/** POST /api/users/refresh */
+const refreshSchema = z.strictObject({
+  refreshToken: z.string({ error: 'Refresh token is required' }).min(1, 'Refresh token is required')
+});
+
+/**
+ * PUT /api/users/:id - any subset of fields.
+ * Which of them the caller may change is decided by middleware/authorize.
+ */
+const profileUpdateSchema = z.strictObject({
+  ...profileFields,
+  password: newPassword,
+  role: oneOf('Role', ROLES)
+}).partial();
+
+/** @typedef {z.infer<typeof userSchema>} User */
+/** @typedef {User['role']} UserRole */
+/** @typedef {z.infer<typeof sessionSchema>} Session */
+/** @typedef {z.input<typeof loginSchema>} LoginCredentials */
+/** @typedef {z.input<typeof registerSchema>} RegisterData */
+/** @typedef {z.input<typeof profileUpdateSchema>} ProfileUpdateData */
+
+module.exports = {
+  ROLES,
+  userSchema,
+  sessionSchema,
+  loginSchema,
+  registerSchema,
+  refreshSchema,
+  profileUpdateSchema
+};
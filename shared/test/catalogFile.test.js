@@ -0,0 +1,96 @@
+/**
+ * @fileoverview Catalog File Tests
+ *
+ * Writes catalog records with toCatalogCsv() and reads them back with
+ * parseCatalogCsv(): cells a spreadsheet would run as formulas, and list
+ * items containing the list separator.
+ *
+ * @module test/catalogFile
+ */
+
+const { describe, it } = require('node:test');
+const assert = require('node:assert/strict');
+
+const { toCatalogCsv, parseCatalogCsv } = require('../src/catalogFile');
+
+/** A record with every list and a few plain fields */
+const RECORD = {
+  isbn: '9780134685991',
+  title: 'The Art of Computer Programming',
+  authors: ['Donald Knuth'],
+  publisher: 'Addison-Wesley',
+  publicationYear: 1968,
+  sellingPrice: 89.99,
+  categories: ['science'],
+  quantity: 25,
+  threshold: 5
+};
+
+/**
+ * The data row toCatalogCsv() writes for one record.
+ *
+ * @param {Object} record - Catalog record
+ * @returns {string} CSV line, without the header
+ */
+function dataRow(record) {
+  return toCatalogCsv([record]).split('\r\n')[1];
+}
+
+describe('toCatalogCsv: formulas', () => {
+  it('writes cells starting with =, +, - or @ after an apostrophe', () => {
+    const row = dataRow({
+      ...RECORD,
+      title: '=HYPERLINK("http://example.com","Click")',
+      publisher: '@SUM(A1)',
+      tags: ['+1', '-cmd']
+    });
+
+    assert.ok(row.includes('"\'=HYPERLINK(""http://example.com"",""Click"")"'), row);
+    assert.ok(row.includes(',\'@SUM(A1),'), row);
+    assert.ok(row.endsWith(',\'+1; -cmd'), row);
+  });
+
+  it('leaves other cells as they are', () => {
+    assert.equal(
+      dataRow(RECORD),
+      '9780134685991,The Art of Computer Programming,,Donald Knuth,Addison-Wesley,1968,89.99,science,25,5,,,,,,,,,,'
+    );
+  });
+
+  it('reads the cells back without the apostrophe', () => {
+    const record = {
+      ...RECORD,
+      title: '=1+1',
+      publisher: '@Home Press',
+      tags: ['+1', '-cmd']
+    };
+
+    assert.deepEqual(parseCatalogCsv(toCatalogCsv([record])), [record]);
+  });
+
+  it('keeps an apostrophe that does not guard a formula', () => {
+    const [record] = parseCatalogCsv(`isbn,title\r\n${RECORD.isbn},'Salem's Lot`);
+
+    assert.equal(record.title, '\'Salem\'s Lot');
+  });
+});
+
+describe('toCatalogCsv: lists', () => {
+  it('escapes semicolons and backslashes within an item', () => {
+    const row = dataRow({ ...RECORD, authors: ['Smith; Sons', 'Back\\slash', 'Jane Doe'] });
+
+    assert.ok(row.includes(',Smith\\; Sons; Back\\\\slash; Jane Doe,'), row);
+  });
+
+  it('reads every author back as written', () => {
+    const record = { ...RECORD, authors: ['Smith; Sons', 'Back\\slash', 'Jane Doe'] };
+
+    assert.deepEqual(parseCatalogCsv(toCatalogCsv([record])), [record]);
+  });
+
+  it('splits lists written by hand on unescaped semicolons', () => {
+    const [record] = parseCatalogCsv('isbn,authors\r\n9780134685991,Alan Strahler;Arthur Strahler; ;');
+
+    assert.deepEqual(record.authors, ['Alan Strahler', 'Arthur Strahler']);
+  });
+});
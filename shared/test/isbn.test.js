@@ -0,0 +1,128 @@
+/**
+ * @fileoverview ISBN Tests
+ *
+ * Check digit validation, ISBN-10 to ISBN-13 conversion, the compact form
+ * books are stored under and the hyphenated form they are shown in.
+ *
+ * @module test/isbn
+ */
+
+const { describe, it } = require('node:test');
+const assert = require('node:assert/strict');
+
+const { checkIsbn, toIsbn13, normalizeIsbn, formatIsbn, matchesIsbn } = require('../src/isbn');
+
+// ============================================
+// VALIDATION
+// ============================================
+
+describe('checkIsbn', () => {
+  it('accepts ISBN-10s and ISBN-13s with correct check digits, in any form', () => {
+    for (const value of [
+      '9780134685991', '978-0-13-468599-1', '978 0 13 468599 1',
+      '0134685997', '0-13-468599-7', '0-8044-2957-X', '080442957x', '9791032305690'
+    ]) {
+      assert.equal(checkIsbn(value), null, value);
+    }
+  });
+
+  it('names the check digit that was expected', () => {
+    assert.equal(checkIsbn('978-0-13-468599-2'), 'ISBN check digit should be 1, not 2 - check for a typo');
+    assert.equal(checkIsbn('0-13-468599-8'), 'ISBN check digit should be 7, not 8 - check for a typo');
+    assert.equal(checkIsbn('1594482731'), 'ISBN check digit should be X, not 1 - check for a typo');
+  });
+
+  it('rejects other lengths and prefixes', () => {
+    const length = 'ISBN must have 10 or 13 digits (hyphens and spaces are ignored)';
+    assert.equal(checkIsbn(''), length);
+    assert.equal(checkIsbn('978013468599'), length);
+    assert.equal(checkIsbn('97801346859911'), length);
+    assert.equal(checkIsbn('978013468599X'), length);
+    assert.equal(checkIsbn('9770134685992'), 'ISBN-13 must start with 978 or 979');
+  });
+});
+
+// ============================================
+// CONVERSION
+// ============================================
+
+describe('toIsbn13', () => {
+  it('prefixes ISBN-10s with 978 and recomputes the check digit', () => {
+    assert.equal(toIsbn13('0-13-468599-7'), '9780134685991');
+    assert.equal(toIsbn13('0-306-40615-2'), '9780306406157');
+    assert.equal(toIsbn13('0-8044-2957-X'), '9780804429573');
+  });
+
+  it('strips hyphens and spaces from ISBN-13s', () => {
+    assert.equal(toIsbn13('978-0-13-468599-1'), '9780134685991');
+    assert.equal(toIsbn13('979 10 323 0569 0'), '9791032305690');
+  });
+
+  it('returns null for invalid ISBNs', () => {
+    assert.equal(toIsbn13('978-0-13-468599-2'), null);
+    assert.equal(toIsbn13('not an isbn'), null);
+  });
+});
+
+describe('normalizeIsbn', () => {
+  it('stores every spelling of a book as the same compact ISBN-13', () => {
+    for (const value of ['9780134685991', '978-0-13-468599-1', '978 0 13 468599 1', '0134685997', '0-13-468599-7']) {
+      assert.equal(normalizeIsbn(value), '9780134685991', value);
+    }
+  });
+
+  it('does not depend on where the hyphens go', () => {
+    // Group 0, registrant block 228x: hyphenated differently by the
+    // agency than by the ranges this module knows
+    assert.equal(normalizeIsbn('978-0-2280-1234-4'), '9780228012344');
+    assert.equal(normalizeIsbn('978-0-228-01234-4'), '9780228012344');
+  });
+
+  it('returns null for invalid ISBNs', () => {
+    assert.equal(normalizeIsbn('978-0-13-468599-2'), null);
+  });
+});
+
+// ============================================
+// DISPLAY
+// ============================================
+
+describe('formatIsbn', () => {
+  it('hyphenates by registration group and registrant range', () => {
+    assert.equal(formatIsbn('9780134685991'), '978-0-13-468599-1');
+    assert.equal(formatIsbn('9780306406157'), '978-0-306-40615-7');
+    assert.equal(formatIsbn('9780804429573'), '978-0-8044-2957-3');
+    assert.equal(formatIsbn('9781594482731'), '978-1-59448-273-1');
+    assert.equal(formatIsbn('9782070368228'), '978-2-07-036822-8');
+    assert.equal(formatIsbn('9783161484100'), '978-3-16-148410-0');
+  });
+
+  it('splits off only the prefix and check digit in other groups', () => {
+    assert.equal(formatIsbn('9788804668237'), '978-880466823-7');
+    assert.equal(formatIsbn('9791032305690'), '979-103230569-0');
+  });
+
+  it('formats ISBN-10s as ISBN-13', () => {
+    assert.equal(formatIsbn('0-13-468599-7'), '978-0-13-468599-1');
+  });
+
+  it('returns anything else unchanged', () => {
+    assert.equal(formatIsbn('978-0-13-468599-2'), '978-0-13-468599-2');
+    assert.equal(formatIsbn('draft'), 'draft');
+  });
+});
+
+describe('matchesIsbn', () => {
+  it('matches a complete ISBN in any form only to its book', () => {
+    assert.equal(matchesIsbn('9780134685991', '0-13-468599-7'), true);
+    assert.equal(matchesIsbn('9780134685991', '978-0-13-468599-1'), true);
+    assert.equal(matchesIsbn('9780134685991', '9780262046305'), false);
+  });
+
+  it('looks for partial ISBNs among the digits', () => {
+    assert.equal(matchesIsbn('9780134685991', '0-13-4685'), true);
+    assert.equal(matchesIsbn('9780134685991', '4685 99'), true);
+    assert.equal(matchesIsbn('9780134685991', '5555'), false);
+    assert.equal(matchesIsbn('9780134685991', ' - '), false);
+  });
+});
@@ -0,0 +1,193 @@
+/**
+ * @fileoverview ONIX Import Tests
+ *
+ * Reads the sample feeds in database/onix with parseOnix(): the records
+ * they import, who is credited, which subjects find no category and what
+ * is reported about each product.
+ *
+ * @module test/onix
+ */
+
+const { describe, it } = require('node:test');
+const assert = require('node:assert/strict');
+const fs = require('node:fs');
+const path = require('node:path');
+
+const { parseOnix } = require('../src/onix');
+
+/**
+ * Reads one of the sample feeds.
+ *
+ * @param {string} name - File name in database/onix
+ * @returns {string} The feed
+ */
+function sampleFeed(name) {
+  return fs.readFileSync(path.join(__dirname, '../../database/onix', name), 'utf8');
+}
+
+// ============================================
+// SAMPLE FEEDS
+// ============================================
+
+describe('parseOnix: sample-feed.xml (reference tags)', () => {
+  const products = parseOnix(sampleFeed('sample-feed.xml'));
+  const byReference = Object.fromEntries(products.map(product => [product.reference, product]));
+
+  it('reads every product, in message order', () => {
+    assert.deepEqual(products.map(product => product.reference), [
+      'sample.feed.9780262046305',
+      'sample.feed.9780134685991',
+      'sample.feed.9780140449136',
+      'sample.feed.9780374533557'
+    ]);
+  });
+
+  it('reads a full record', () => {
+    assert.deepEqual(byReference['sample.feed.9780262046305'].record, {
+      isbn: '9780262046305',
+      title: 'Introduction to Algorithms, Fourth Edition',
+      format: 'hardcover',
+      authors: ['Thomas H. Cormen', 'Charles E. Leiserson', 'Ronald L. Rivest', 'Clifford Stein'],
+      publisher: 'MIT Press',
+      publicationYear: 2022,
+      sellingPrice: 135,
+      categories: ['science'],
+      imageUrl: 'https://covers.example.com/9780262046305.jpg',
+      description: 'A comprehensive update of the leading algorithms text, with new material on matchings in bipartite graphs, online algorithms and machine learning.',
+      pageCount: 1312,
+      language: 'eng',
+      edition: 'Fourth edition',
+      heightMm: 235,
+      widthMm: 203,
+      weightGrams: 2404,
+      tags: ['algorithms', 'data structures']
+    });
+  });
+
+  it('leaves out what a record does not give', () => {
+    assert.deepEqual(byReference['sample.feed.9780134685991'].record, {
+      isbn: '9780134685991',
+      title: 'The Art of Computer Programming',
+      format: 'hardcover',
+      authors: ['Donald Knuth'],
+      publisher: 'Addison-Wesley',
+      publicationYear: 2011,
+      sellingPrice: 94.99,
+      categories: ['science']
+    });
+  });
+
+  it('keeps every contributor with their roles, crediting only authors', () => {
+    const odyssey = byReference['sample.feed.9780140449136'];
+    assert.deepEqual(odyssey.contributors, [
+      { name: 'Homer', roles: ['A01'] },
+      { name: 'E. V. Rieu', roles: ['B06'] }
+    ]);
+    assert.deepEqual(odyssey.record.authors, ['Homer']);
+  });
+
+  it('reports subjects without a category', () => {
+    const odyssey = byReference['sample.feed.9780140449136'];
+    assert.deepEqual(odyssey.unmappedSubjects, [
+      { scheme: '10', code: 'FIC002000', heading: 'Fiction / Action & Adventure' }
+    ]);
+    assert.deepEqual(odyssey.record.categories, []);
+    assert.deepEqual(byReference['sample.feed.9780262046305'].unmappedSubjects, []);
+  });
+
+  it('maps subjects with a custom subject map', () => {
+    const [, , odyssey] = parseOnix(sampleFeed('sample-feed.xml'), { subjectMap: { 10: { FIC: 'fiction' } } });
+    assert.deepEqual(odyssey.record.categories, ['fiction']);
+    assert.deepEqual(odyssey.unmappedSubjects, []);
+  });
+
+  it('notes uncredited contributors and prices in other currencies', () => {
+    const odyssey = byReference['sample.feed.9780140449136'];
+    assert.deepEqual(odyssey.notes, [
+      'Not credited as an author: E. V. Rieu (Translated by)',
+      'No price in USD (found GBP 9.99)'
+    ]);
+    assert.equal(odyssey.record.isbn, '0140449132');
+    assert.equal('sellingPrice' in odyssey.record, false);
+    assert.deepEqual(byReference['sample.feed.9780262046305'].notes, []);
+  });
+
+  it('skips deleted products with a note', () => {
+    assert.deepEqual(byReference['sample.feed.9780374533557'], {
+      reference: 'sample.feed.9780374533557',
+      record: null,
+      contributors: [],
+      unmappedSubjects: [],
+      notes: ['The feed deletes this product; it was not imported']
+    });
+  });
+});
+
+describe('parseOnix: sample-feed-short-tags.xml (short tags)', () => {
+  const products = parseOnix(sampleFeed('sample-feed-short-tags.xml'));
+
+  it('reads the record as with reference tags', () => {
+    assert.equal(products.length, 1);
+    assert.equal(products[0].reference, 'sample.short.9781846276590');
+    assert.deepEqual(products[0].record, {
+      isbn: '978-1-84627-659-0',
+      title: 'Oceans & Coastlines: A Physical Geography',
+      format: 'paperback',
+      authors: ['Maria Alvarez'],
+      publisher: 'Oxford University Press',
+      publicationYear: 2019,
+      sellingPrice: 24.95,
+      categories: ['geography']
+    });
+  });
+
+  it('keeps every contributor with their roles', () => {
+    assert.deepEqual(products[0].contributors, [
+      { name: 'Maria Alvarez', roles: ['A01'] },
+      { name: 'Tom Reed', roles: ['A12'] }
+    ]);
+  });
+
+  it('maps every subject', () => {
+    assert.deepEqual(products[0].unmappedSubjects, []);
+  });
+
+  it('notes uncredited contributors', () => {
+    assert.deepEqual(products[0].notes, ['Not credited as an author: Tom Reed (Illustrated by)']);
+  });
+});
+
+// ============================================
+// ERRORS
+// ============================================
+
+describe('parseOnix: errors', () => {
+  const message = body => `<?xml version="1.0"?>\n<ONIXMessage release="3.0">\n${body}\n</ONIXMessage>`;
+
+  it('rejects character references beyond Unicode', () => {
+    assert.throws(() => parseOnix(message('<Header>&#x110000;</Header>')), {
+      message: 'The file is not valid XML (line 3)'
+    });
+    assert.throws(() => parseOnix(message('<Header note="&#1114112;"/>')), {
+      message: 'The file is not valid XML (line 3)'
+    });
+  });
+
+  it('decodes character references up to the last code point', () => {
+    const products = parseOnix(message('<Header>&#x10FFFF;</Header>'));
+    assert.deepEqual(products, []);
+  });
+
+  it('rejects unclosed elements', () => {
+    assert.throws(() => parseOnix('<ONIXMessage release="3.0"><Header>'), {
+      message: 'The file is not valid XML: <Header> is not closed'
+    });
+  });
+
+  it('rejects other messages and ONIX 2.1', () => {
+    assert.throws(() => parseOnix('<catalog/>'), { message: 'The file is not an ONIX message' });
+    assert.throws(() => parseOnix('<ONIXMessage release="2.1"/>'), {
+      message: 'Only ONIX 3.0 is supported (this message is release 2.1)'
+    });
+  });
+});